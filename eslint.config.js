@@ -25,4 +25,10 @@ export default tseslint.config(
       ],
     },
   },
+  {
+    files: ['src/cli/**/*.ts'],
+    languageOptions: {
+      globals: globals.node,
+    },
+  },
 )
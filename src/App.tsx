@@ -1,8 +1,19 @@
-import React, { useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
+import { NativeSelect } from "@/components/ui/native-select";
+import { RiskSettingsPanel } from "@/components/RiskSettingsPanel";
+import { OptimizerPanel } from "@/components/OptimizerPanel";
+import { MonteCarloPanel } from "@/components/MonteCarloPanel";
+import { CsvImportPanel } from "@/components/CsvImportPanel";
+import { DataQualityPanel } from "@/components/DataQualityPanel";
+import { PolygonImportPanel } from "@/components/PolygonImportPanel";
+import { PresetBar } from "@/components/PresetBar";
+import { PriceDataPanel } from "@/components/PriceDataPanel";
+import { RunHistoryPanel } from "@/components/RunHistoryPanel";
+import { ScenarioComparison } from "@/components/ScenarioComparison";
 import {
   LineChart,
   Line,
@@ -13,134 +24,230 @@ import {
   ResponsiveContainer,
   ReferenceLine,
 } from "recharts";
-import { Play } from "lucide-react";
+import { Link2, Play, SlidersHorizontal, Upload } from "lucide-react";
 import { goldPriceHistory } from "@/lib/data";
+import { GoldPriceDataType } from "@/lib/utils";
+import { createSavedRun, SavedRun } from "@/lib/runHistory";
+import { deleteRun, loadRuns, saveRun } from "@/lib/storage";
+import {
+  DateRange,
+  describePriceData,
+  FULL_DATE_RANGE,
+  PriceSource,
+  resolvePrices,
+  sourceOfSeries,
+} from "@/lib/priceData";
+import { decodeShareHash, encodeShareHash } from "@/lib/shareLink";
+import {
+  checkPriceData,
+  DATA_FIXES,
+  DataFix,
+  DataQualityConfig,
+  DEFAULT_DATA_QUALITY_CONFIG,
+  fixPriceData,
+} from "@/lib/dataQuality";
+import {
+  DEFAULT_SIMULATION_PARAMS,
+  ENTRY_STRATEGIES,
+  EntryStrategyId,
+  POSITION_SIZING_MODELS,
+  PositionSizingModelId,
+  runBacktest,
+  SIGNAL_REJECTION_REASONS,
+  SimulationParams,
+  SimulationResults,
+  summarizeExitReasons,
+  TakeProfitType,
+  validateParams,
+  VolatilityMeasure,
+} from "@/lib/engine";
+
+// Suggestions for the exchange timezone, any IANA name works
+const EXCHANGE_TIME_ZONES = [
+  "UTC",
+  "America/New_York",
+  "America/Chicago",
+  "Europe/London",
+  "Europe/Zurich",
+  "Asia/Shanghai",
+  "Asia/Tokyo",
+];
 
-type TradeData = {
-  entry: string;
-  exit: string;
-  entryPrice: number;
-  exitPrice: number;
-  highestPrice: number;
-  baseAmount: number;
-  leveragedAmount: number;
-  pnl: number;
-  fees: number;
-  daysHeld: number;
-  remainingCapital: number;
-  capitalAtEntry: number;
-};
-
-type OpenPosition = {
-  entryDate: string;
-  entryPrice: number;
-  currentPrice: number;
-  highestPrice: number;
-  baseAmount: number;
-  leveragedAmount: number;
-  unrealizedPnl: number;
-  accumulatedFees: number;
-  capitalAtEntry: number;
-};
-
-type SimulationResults = {
-  finalCapital: number;
-  totalProfitLoss: number;
-  totalTrades: number;
-  totalFees: number;
-  equityCurve: { date: string; equity: number }[];
-  tradeHistory: TradeData[];
-  successRate: number;
-  maxDrawdown: number;
-  maxConsecutiveLosses: number;
-  avgProfitPerTrade: number;
-  openPositions: OpenPosition[];
-  skippedTrades: number;
-};
-
-type SimulationParams = {
-  investmentCapital: number;
-  positionSizePercent: number;
-  leverage: number;
-  stopLossDollar: number;
-  minPriceMovement: number;
-  dailyFeePercent: number;
-  useTrailingStop: boolean;
-};
-
-const validateParams = (params: SimulationParams): boolean => {
-  if (params.investmentCapital <= 0) return false;
-  if (params.positionSizePercent <= 0 || params.positionSizePercent > 100)
-    return false;
-  if (params.leverage <= 0 || params.leverage > 200) return false;
-  if (params.stopLossDollar <= 0) return false;
-  if (params.minPriceMovement < 0) return false;
-  if (params.dailyFeePercent < 0) return false;
-  return true;
-};
-
-// const calculateDrawdown = (equityCurve: { equity: number }[]): number => {
-//   let maxDrawdown = 0;
-//   let peak = equityCurve[0].equity;
-
-//   for (const point of equityCurve) {
-//     if (point.equity > peak) {
-//       peak = point.equity;
-//     }
-//     const drawdown = ((peak - point.equity) / peak) * 100;
-//     maxDrawdown = Math.max(maxDrawdown, drawdown);
-//   }
-
-//   return maxDrawdown;
-// };
 const TradingSimulator: React.FC = () => {
-  const [params, setParams] = useState<SimulationParams>({
-    investmentCapital: 10000,
-    positionSizePercent: 1,
-    leverage: 100,
-    stopLossDollar: 200,
-    minPriceMovement: 0.3,
-    dailyFeePercent: 0.1,
-    useTrailingStop: true,
+  // A shared link restores its params and data and shows its run on load.
+  // A link that cannot be decoded or run leaves the defaults in place.
+  const [sharedLink] = useState(() => {
+    try {
+      const state = decodeShareHash(window.location.hash);
+      const sharedPrices =
+        state && resolvePrices(sourceOfSeries(state.series), state.dateRange);
+      const run =
+        state && sharedPrices
+          ? {
+              prices: sharedPrices,
+              params: state.params,
+              results: runBacktest(sharedPrices, state.params),
+              dataLabel: describePriceData(
+                sourceOfSeries(state.series),
+                state.dateRange
+              ),
+            }
+          : null;
+      return { state, run, error: null };
+    } catch (error) {
+      return {
+        state: null,
+        run: null,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
   });
+  const initialRun = sharedLink.run;
 
-  const [results, setResults] = useState<SimulationResults | null>(null);
+  const [params, setParams] = useState<SimulationParams>(
+    sharedLink.state?.params ?? DEFAULT_SIMULATION_PARAMS
+  );
+
+  const [results, setResults] = useState<SimulationResults | null>(
+    initialRun?.results ?? null
+  );
   const [activeTradeIndex, setActiveTradeIndex] = useState<number | null>(null);
   const [showGoldChart, setShowGoldChart] = useState<boolean>(true);
+  const [showOptimizer, setShowOptimizer] = useState<boolean>(false);
+  const [importPanel, setImportPanel] = useState<"csv" | "polygon" | null>(
+    null
+  );
+  const [source, setSource] = useState<PriceSource>(
+    sourceOfSeries(sharedLink.state?.series ?? null)
+  );
+  const [showDataQuality, setShowDataQuality] = useState<boolean>(false);
+  const [qualityConfig, setQualityConfig] = useState<DataQualityConfig>(
+    DEFAULT_DATA_QUALITY_CONFIG
+  );
+  const [dateRange, setDateRange] = useState<DateRange>(
+    sharedLink.state?.dateRange ?? FULL_DATE_RANGE
+  );
+  // The prices the shown results were simulated on
+  const [resultPrices, setResultPrices] = useState<GoldPriceDataType[]>(
+    initialRun?.prices ?? goldPriceHistory
+  );
+  // The params the shown results were simulated with, which the form may
+  // since have changed
+  const [resultParams, setResultParams] = useState<SimulationParams>(
+    initialRun?.params ?? DEFAULT_SIMULATION_PARAMS
+  );
+  // Runs on uploaded files cannot be put in a link
+  const [runIsShareable, setRunIsShareable] = useState<boolean>(true);
+  const [linkCopied, setLinkCopied] = useState<boolean>(false);
+  const [runHistory, setRunHistory] = useState<SavedRun[]>([]);
+
+  // A run opened from a shared link is kept in the history like any other,
+  // numbered after the runs already saved. Every run puts its link in the
+  // address bar, so one already saved under the same link is not added.
+  const [sharedRun] = useState(() =>
+    initialRun
+      ? createSavedRun(
+          "",
+          initialRun.dataLabel,
+          initialRun.params,
+          initialRun.results,
+          window.location.hash
+        )
+      : null
+  );
 
-  const shouldOpenPosition = (
-    currentPrice: number,
-    previousPrice: number,
-    threshold: number
-  ): boolean => {
-    const priceMovement =
-      ((currentPrice - previousPrice) / previousPrice) * 100;
-    return priceMovement >= threshold;
+  // Runs saved in earlier sessions go before any made while they load
+  useEffect(() => {
+    loadRuns()
+      .catch((error) => {
+        alert(`Could not load saved runs: ${error}`);
+        return [] as SavedRun[];
+      })
+      .then((saved) => {
+        const added =
+          sharedRun &&
+          !saved.some((run) => run.shareHash === sharedRun.shareHash)
+            ? [{ ...sharedRun, label: `Run ${saved.length + 1}` }]
+            : [];
+        Promise.all(added.map(saveRun)).catch((error) =>
+          alert(`Could not save the run history: ${error}`)
+        );
+        setRunHistory((current) => [
+          ...saved,
+          ...added,
+          ...current.filter(
+            (run) => ![...saved, ...added].some((old) => old.id === run.id)
+          ),
+        ]);
+      });
+  }, [sharedRun]);
+
+  // Writes renamed and new runs to storage and drops removed ones
+  const updateRunHistory = (next: SavedRun[]) => {
+    const writes = [
+      ...next.filter((run) => !runHistory.includes(run)).map(saveRun),
+      ...runHistory
+        .filter((run) => !next.some((other) => other.id === run.id))
+        .map((run) => deleteRun(run.id)),
+    ];
+    Promise.all(writes).catch((error) =>
+      alert(`Could not save the run history: ${error}`)
+    );
+    setRunHistory(next);
   };
 
-  // Improved stop loss function with proper trailing stop implementation
-  const isStopLossTriggered = (
-    currentPrice: number,
-    highestPrice: number,
-    leveragedAmount: number,
-    stopLossAmount: number,
-    useTrailing: boolean
-  ): boolean => {
-    if (!useTrailing) {
-      // Fixed stop loss implementation (calculate from entry price)
-      // Not used in current simulation but kept for potential future use
-      return false;
-    }
-
-    // Calculate percentage drop from highest price
-    const percentageDropFromHighest =
-      (highestPrice - currentPrice) / highestPrice;
+  // null while the price data settings leave nothing to run on
+  const prices = useMemo(
+    () => resolvePrices(source, dateRange),
+    [source, dateRange]
+  );
+  const quality = useMemo(
+    () => (prices ? checkPriceData(prices, qualityConfig) : null),
+    [prices, qualityConfig]
+  );
 
-    // Calculate dollar loss based on leveraged amount
-    const dollarLoss = leveragedAmount * percentageDropFromHighest;
+  // Shows a run's results, keeps it in the run history and puts it in the
+  // URL so the address bar always links to the run on screen
+  const showRun = (
+    runPrices: GoldPriceDataType[],
+    runParams: SimulationParams
+  ) => {
+    const runResults = runBacktest(runPrices, runParams);
+    setResultPrices(runPrices);
+    setResultParams(runParams);
+    setResults(runResults);
+    const shareable = source.kind !== "uploaded";
+    const shareHash = shareable
+      ? encodeShareHash({
+          params: runParams,
+          series: source.kind === "synthetic" ? source.series : null,
+          dateRange,
+        })
+      : undefined;
+    updateRunHistory([
+      ...runHistory,
+      createSavedRun(
+        `Run ${runHistory.length + 1}`,
+        describePriceData(source, dateRange),
+        runParams,
+        runResults,
+        shareHash
+      ),
+    ]);
+    window.history.replaceState(
+      null,
+      "",
+      shareHash ?? window.location.pathname + window.location.search
+    );
+    setRunIsShareable(shareable);
+    setLinkCopied(false);
+  };
 
-    // Return true if dollar loss exceeds stop loss amount
-    return dollarLoss >= stopLossAmount;
+  const copyLink = () => {
+    navigator.clipboard
+      .writeText(window.location.href)
+      .then(() => setLinkCopied(true))
+      .catch((error) => alert(`Could not copy the link: ${error}`));
   };
 
   const runSimulation = () => {
@@ -148,311 +255,36 @@ const TradingSimulator: React.FC = () => {
       alert("Invalid parameters!");
       return;
     }
-
-    let currentCapital = params.investmentCapital;
-    let totalProfitLoss = 0;
-    let tradesExecuted = 0;
-    let totalFees = 0;
-    let consecutiveLosses = 0;
-    let maxConsecutiveLosses = 0;
-    let skippedTrades = 0;
-
-    const equityCurve: { date: string; equity: number }[] = [];
-    const tradeHistory: TradeData[] = [];
-    const openPositions: OpenPosition[] = [];
-
-    // Array to track all open positions
-    const activePositions: {
-      entryPrice: number;
-      entryDate: string;
-      highestPrice: number;
-      baseAmount: number;
-      leveragedAmount: number;
-      accumulatedFees: number;
-      lastFeeDate: string;
-      remainingCapitalAtEntry: number;
-    }[] = [];
-
-    let currentDate: string | null = null;
-
-    // Loop through price history
-    for (let index = 1; index < goldPriceHistory.length; index++) {
-      const currentData = goldPriceHistory[index];
-      const previousData = goldPriceHistory[index - 1];
-
-      const { date, openingPrice, highestPrice, lowestPrice, currentPrice } =
-        currentData;
-
-      if (currentCapital <= 0 && activePositions.length === 0) break; // Stop if no capital and no positions
-
-      // New day processing for fees
-      if (currentDate !== date) {
-        currentDate = date;
-
-        // Updated fee deduction logic in the daily processing loop
-        for (const position of activePositions) {
-          if (position.lastFeeDate !== date) {
-            const dailyFee =
-              (params.dailyFeePercent / 100) * position.baseAmount;
-
-            if (currentCapital >= dailyFee) {
-              currentCapital -= dailyFee;
-              totalFees += dailyFee;
-              position.accumulatedFees += dailyFee;
-            } else {
-              const feePaid = currentCapital;
-              totalFees += feePaid;
-              position.accumulatedFees += feePaid;
-              currentCapital = 0;
-              break; // Stop processing further positions once capital is gone
-            }
-            position.lastFeeDate = date;
-          }
-        }
-      }
-
-      // Process existing positions on EVERY day
-      for (let i = activePositions.length - 1; i >= 0; i--) {
-        const position = activePositions[i];
-
-        // Update highest price if new high is reached
-        if (highestPrice > position.highestPrice) {
-          position.highestPrice = highestPrice;
-        }
-
-        // Check if stop loss is triggered (using the lowest price of the day)
-        const stopLossTriggered = isStopLossTriggered(
-          lowestPrice,
-          position.highestPrice,
-          position.leveragedAmount,
-          params.stopLossDollar,
-          params.useTrailingStop
-        );
-
-        if (stopLossTriggered) {
-          // Use the appropriate exit price based on trigger reason
-          const exitPrice = calculateStopLossPrice(
-            position.highestPrice,
-            position.leveragedAmount,
-            params.stopLossDollar
-          );
-
-          // Calculate P&L - keep this separate from fees
-          const percentageChange =
-            (exitPrice - position.entryPrice) / position.entryPrice;
-          const pnl = position.leveragedAmount * percentageChange;
-
-          // Add back the base amount plus any profit (or minus any loss)
-          const amountToReturn = position.baseAmount + pnl;
-          currentCapital += amountToReturn;
-          totalProfitLoss += pnl; // Track pure P&L excluding fees
-
-          // Record trade - keep P&L and fees separate
-          tradeHistory.push({
-            entry: position.entryDate,
-            exit: date,
-            entryPrice: position.entryPrice,
-            exitPrice: exitPrice,
-            highestPrice: position.highestPrice,
-            baseAmount: position.baseAmount,
-            leveragedAmount: position.leveragedAmount,
-            pnl: pnl, // Store pure P&L without mixing with fees
-            fees: position.accumulatedFees, // Store fees separately
-            daysHeld: calculateDaysHeld(position.entryDate, date),
-            remainingCapital: currentCapital,
-            capitalAtEntry: position.remainingCapitalAtEntry,
-          });
-
-          // Track consecutive losses based on pure P&L
-          if (pnl < 0) {
-            consecutiveLosses++;
-            maxConsecutiveLosses = Math.max(
-              maxConsecutiveLosses,
-              consecutiveLosses
-            );
-          } else {
-            consecutiveLosses = 0;
-          }
-
-          // Remove the position
-          activePositions.splice(i, 1);
-        }
-      }
-
-      // Check for new position entry only if we have enough capital
-      const MIN_TRADING_CAPITAL = 100;
-
-      if (currentCapital >= MIN_TRADING_CAPITAL) {
-        const shouldOpen = shouldOpenPosition(
-          openingPrice,
-          previousData.openingPrice,
-          params.minPriceMovement
-        );
-
-        if (shouldOpen) {
-          // Calculate position size correctly as a percentage of current capital
-          const baseAmount = Math.min(
-            (params.positionSizePercent / 100) * currentCapital,
-            currentCapital
-          );
-
-          if (baseAmount >= 1) {
-            const leveragedAmount = baseAmount * params.leverage;
-
-            activePositions.push({
-              entryPrice: openingPrice,
-              entryDate: date,
-              highestPrice: highestPrice, // Use the day's highest price instead of just opening price
-              baseAmount,
-              leveragedAmount,
-              accumulatedFees: 0,
-              lastFeeDate: date,
-              remainingCapitalAtEntry: currentCapital, // Track capital at entry
-            });
-
-            currentCapital -= baseAmount; // Deduct base amount from current capital
-            tradesExecuted++;
-          }
-        }
-      } else if (
-        shouldOpenPosition(
-          openingPrice,
-          previousData.openingPrice,
-          params.minPriceMovement
-        )
-      ) {
-        // Count trades we would have taken if we had enough capital
-        skippedTrades++;
-      }
-
-      // Equity curve calculation
-      equityCurve.push({
-        date,
-        equity:
-          currentCapital +
-          activePositions.reduce((sum, pos) => {
-            const unrealizedPnL =
-              pos.leveragedAmount *
-              ((currentPrice - pos.entryPrice) / pos.entryPrice);
-            return sum + pos.baseAmount + unrealizedPnL; // Don't deduct accumulated fees from equity
-          }, 0),
-      });
+    if (!prices) {
+      alert("Invalid price data settings!");
+      return;
     }
 
-    // Close any remaining open positions at the end of simulation
-    const lastPrice =
-      goldPriceHistory[goldPriceHistory.length - 1].currentPrice;
-    const lastDate = goldPriceHistory[goldPriceHistory.length - 1].date;
-
-    activePositions.forEach((position) => {
-      const percentageChange =
-        (lastPrice - position.entryPrice) / position.entryPrice;
-      const pnl = position.leveragedAmount * percentageChange;
-
-      // When closing a position at simulation end
-      const amountToReturn = position.baseAmount + pnl;
-      currentCapital += amountToReturn;
-      totalProfitLoss += pnl; // Track pure P&L
-
-      // Add to trade history
-      tradeHistory.push({
-        entry: position.entryDate,
-        exit: lastDate,
-        entryPrice: position.entryPrice,
-        exitPrice: lastPrice,
-        highestPrice: position.highestPrice,
-        baseAmount: position.baseAmount,
-        leveragedAmount: position.leveragedAmount,
-        pnl: pnl, // Store pure P&L without mixing with fees
-        fees: position.accumulatedFees, // Store fees separately
-        daysHeld: calculateDaysHeld(position.entryDate, lastDate),
-        remainingCapital: currentCapital,
-        capitalAtEntry: position.remainingCapitalAtEntry,
-      });
-
-      // For reference only - these positions are closed at the end
-      openPositions.push({
-        entryDate: position.entryDate,
-        entryPrice: position.entryPrice,
-        currentPrice: lastPrice,
-        highestPrice: position.highestPrice,
-        baseAmount: position.baseAmount,
-        leveragedAmount: position.leveragedAmount,
-        unrealizedPnl: pnl, // Pure unrealized P&L
-        accumulatedFees: position.accumulatedFees, // Keep fees separate
-        capitalAtEntry: position.remainingCapitalAtEntry,
-      });
-    });
-
-    // Sort the trade history in ascending order by entry date (oldest first)
-    // tradeHistory.sort(
-    //   (a, b) => new Date(a.entry).getTime() - new Date(b.entry).getTime()
-    // );
-
-    // Calculate final metrics
-    const successRate =
-      tradeHistory.length > 0
-        ? tradeHistory.filter((t) => t.pnl > 0).length / tradeHistory.length
-        : 0;
-
-    setResults({
-      finalCapital: currentCapital,
-      totalProfitLoss: totalProfitLoss,
-      totalTrades: tradesExecuted,
-      totalFees: totalFees,
-      equityCurve: equityCurve,
-      tradeHistory: tradeHistory,
-      successRate: successRate,
-      maxDrawdown: calculateDrawdown(equityCurve),
-      maxConsecutiveLosses: maxConsecutiveLosses,
-      avgProfitPerTrade: totalProfitLoss / (tradesExecuted || 1),
-      openPositions: openPositions,
-      skippedTrades: skippedTrades,
-    });
+    showRun(prices, params);
   };
 
-  // Helper function to accurately calculate stop loss price
-  const calculateStopLossPrice = (
-    highestPrice: number,
-    leveragedAmount: number,
-    stopLossAmount: number
-  ): number => {
-    // Calculate the percentage drop that would cause the stop loss amount to be hit
-    const percentageDrop = stopLossAmount / leveragedAmount;
-
-    // Calculate the price at which this percentage drop would occur
-    // This is the price at which the position should be closed
-    return highestPrice * (1 - percentageDrop);
+  // Puts an optimizer result back in the form and shows its full results
+  const loadParams = (loaded: SimulationParams) => {
+    if (!prices) return;
+    setParams(loaded);
+    setActiveTradeIndex(null);
+    showRun(prices, loaded);
   };
 
-  // Helper function to calculate days held
-  const calculateDaysHeld = (startDate: string, endDate: string): number => {
-    const start = new Date(startDate);
-    const end = new Date(endDate);
-    const diffTime = Math.abs(end.getTime() - start.getTime());
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-    return diffDays;
+  // Switches the price data to an imported file
+  const loadUploadedPrices = (name: string, uploaded: GoldPriceDataType[]) => {
+    setSource({ kind: "uploaded", name, prices: uploaded });
+    setDateRange(FULL_DATE_RANGE);
+    setImportPanel(null);
   };
 
-  // Helper function to calculate drawdown from equity curve
-  const calculateDrawdown = (
-    equityCurve: { date: string; equity: number }[]
-  ): number => {
-    if (equityCurve.length === 0) return 0;
-
-    let maxDrawdown = 0;
-    let peak = equityCurve[0].equity;
-
-    for (const point of equityCurve) {
-      if (point.equity > peak) {
-        peak = point.equity;
-      } else {
-        const drawdown = (peak - point.equity) / peak;
-        maxDrawdown = Math.max(maxDrawdown, drawdown);
-      }
-    }
-
-    return maxDrawdown;
+  // Runs on a repaired copy of the bars from here on
+  const fixPrices = (fix: DataFix) => {
+    if (!prices) return;
+    loadUploadedPrices(
+      `${describePriceData(source, dateRange)} (${DATA_FIXES[fix]})`,
+      fixPriceData(prices, fix, qualityConfig)
+    );
   };
 
   const formatCurrency = (value: number) => {
@@ -477,7 +309,7 @@ const TradingSimulator: React.FC = () => {
     if (!results) return null;
 
     // Prepare data for gold price chart
-    const chartData = goldPriceHistory.map((item) => ({
+    const chartData = resultPrices.map((item) => ({
       date: item.date,
       price: item.currentPrice,
       high: item.highestPrice,
@@ -527,13 +359,35 @@ const TradingSimulator: React.FC = () => {
           <CardTitle>Gold Trading Simulator</CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="mb-6">
-            <div className="text-sm text-gray-500 mt-2">
-              {goldPriceHistory.length} price points loaded from historical gold
-              price data
+          {sharedLink.error && (
+            <div className="text-sm text-red-600 mb-4">
+              Could not open the shared link: {sharedLink.error}
             </div>
+          )}
+          <div className="mb-6">
+            <PriceDataPanel
+              source={source}
+              onChange={setSource}
+              dateRange={dateRange}
+              onDateRangeChange={setDateRange}
+              barCount={prices ? prices.length : null}
+              quality={quality}
+              onShowQuality={() => setShowDataQuality(!showDataQuality)}
+            />
+            {showDataQuality && quality && (
+              <div className="mt-4">
+                <DataQualityPanel
+                  report={quality}
+                  config={qualityConfig}
+                  onConfigChange={setQualityConfig}
+                  onFix={fixPrices}
+                />
+              </div>
+            )}
           </div>
 
+          <PresetBar params={params} onLoad={setParams} />
+
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 mb-6">
             <div className="space-y-2">
               <Label htmlFor="investmentCapital">Starting Capital ($)</Label>
@@ -557,6 +411,7 @@ const TradingSimulator: React.FC = () => {
               <Input
                 id="positionSizePercent"
                 type="number"
+                max={params.risk.maxPositionSizePercent}
                 value={params.positionSizePercent}
                 onChange={(e) =>
                   setParams({
@@ -611,6 +466,72 @@ const TradingSimulator: React.FC = () => {
               />
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="volatilityMeasure">Volatility Adjustment</Label>
+              <NativeSelect
+                id="volatilityMeasure"
+                value={params.volatilityAdjustment.measure}
+                onChange={(e) =>
+                  setParams({
+                    ...params,
+                    volatilityAdjustment: {
+                      ...params.volatilityAdjustment,
+                      measure: e.target.value as VolatilityMeasure,
+                    },
+                  })
+                }
+              >
+                <option value="none">None</option>
+                <option value="atr">Average true range</option>
+                <option value="stdDev">Close-to-close std dev</option>
+              </NativeSelect>
+              <div className="text-xs text-gray-500">
+                Scales the stop loss and the threshold by the rolling volatility
+                over the reference level
+              </div>
+            </div>
+
+            {params.volatilityAdjustment.measure !== "none" && (
+              <div className="space-y-2">
+                <Label htmlFor="volatilityPeriod">
+                  Volatility Period (bars) / Reference (%)
+                </Label>
+                <div className="flex space-x-2">
+                  <Input
+                    id="volatilityPeriod"
+                    type="number"
+                    min={2}
+                    value={params.volatilityAdjustment.period}
+                    onChange={(e) =>
+                      setParams({
+                        ...params,
+                        volatilityAdjustment: {
+                          ...params.volatilityAdjustment,
+                          period: parseFloat(e.target.value),
+                        },
+                      })
+                    }
+                  />
+                  <Input
+                    id="volatilityReferencePercent"
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    value={params.volatilityAdjustment.referencePercent}
+                    onChange={(e) =>
+                      setParams({
+                        ...params,
+                        volatilityAdjustment: {
+                          ...params.volatilityAdjustment,
+                          referencePercent: parseFloat(e.target.value),
+                        },
+                      })
+                    }
+                  />
+                </div>
+              </div>
+            )}
+
             <div className="space-y-2">
               <Label htmlFor="dailyFeePercent">
                 Daily Position Funding Fee (%)
@@ -627,9 +548,211 @@ const TradingSimulator: React.FC = () => {
                 }
               />
             </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="takeProfitType">Take Profit</Label>
+              <NativeSelect
+                id="takeProfitType"
+                value={params.takeProfitType}
+                onChange={(e) =>
+                  setParams({
+                    ...params,
+                    takeProfitType: e.target.value as TakeProfitType,
+                  })
+                }
+              >
+                <option value="none">None</option>
+                <option value="dollar">Dollar P&L target ($)</option>
+                <option value="percent">Price move target (%)</option>
+              </NativeSelect>
+            </div>
+
+            {params.takeProfitType !== "none" && (
+              <div className="space-y-2">
+                <Label htmlFor="takeProfitValue">
+                  {params.takeProfitType === "dollar"
+                    ? "Take Profit Amount ($)"
+                    : "Take Profit Move (%)"}
+                </Label>
+                <Input
+                  id="takeProfitValue"
+                  type="number"
+                  value={params.takeProfitValue}
+                  onChange={(e) =>
+                    setParams({
+                      ...params,
+                      takeProfitValue: parseFloat(e.target.value),
+                    })
+                  }
+                />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="maxHoldingPeriod">
+                Max Holding Period (0 = no limit)
+              </Label>
+              <div className="flex space-x-2">
+                <Input
+                  id="maxHoldingPeriod"
+                  type="number"
+                  min={0}
+                  value={params.maxHoldingPeriod}
+                  onChange={(e) =>
+                    setParams({
+                      ...params,
+                      maxHoldingPeriod: parseFloat(e.target.value),
+                    })
+                  }
+                />
+                <NativeSelect
+                  id="maxHoldingUnit"
+                  className="w-32"
+                  value={params.maxHoldingUnit}
+                  onChange={(e) =>
+                    setParams({
+                      ...params,
+                      maxHoldingUnit: e.target
+                        .value as SimulationParams["maxHoldingUnit"],
+                    })
+                  }
+                >
+                  <option value="days">Days</option>
+                  <option value="hours">Hours</option>
+                </NativeSelect>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="tradeDirection">Trade Direction</Label>
+              <NativeSelect
+                id="tradeDirection"
+                value={params.tradeDirection}
+                onChange={(e) =>
+                  setParams({
+                    ...params,
+                    tradeDirection: e.target
+                      .value as SimulationParams["tradeDirection"],
+                  })
+                }
+              >
+                <option value="long">Long only</option>
+                <option value="short">Short only</option>
+                <option value="both">Long and short</option>
+              </NativeSelect>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="exchangeTimeZone">Exchange Timezone</Label>
+              <Input
+                id="exchangeTimeZone"
+                list="exchangeTimeZones"
+                value={params.exchangeTimeZone}
+                onChange={(e) =>
+                  setParams({ ...params, exchangeTimeZone: e.target.value })
+                }
+              />
+              <datalist id="exchangeTimeZones">
+                {EXCHANGE_TIME_ZONES.map((timeZone) => (
+                  <option key={timeZone} value={timeZone} />
+                ))}
+              </datalist>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="entryStrategy">Entry Strategy</Label>
+              <NativeSelect
+                id="entryStrategy"
+                value={params.entryStrategy}
+                onChange={(e) =>
+                  setParams({
+                    ...params,
+                    entryStrategy: e.target.value as EntryStrategyId,
+                    strategyParams: {},
+                  })
+                }
+              >
+                {Object.values(ENTRY_STRATEGIES).map((strategy) => (
+                  <option key={strategy.id} value={strategy.id}>
+                    {strategy.name}
+                  </option>
+                ))}
+              </NativeSelect>
+              <div className="text-xs text-gray-500">
+                {ENTRY_STRATEGIES[params.entryStrategy].description}
+              </div>
+            </div>
+
+            {ENTRY_STRATEGIES[params.entryStrategy].fields.map((field) => (
+              <div key={field.key} className="space-y-2">
+                <Label htmlFor={field.key}>{field.label}</Label>
+                <Input
+                  id={field.key}
+                  type="number"
+                  min={field.min}
+                  step={field.step}
+                  value={params.strategyParams[field.key] ?? field.defaultValue}
+                  onChange={(e) =>
+                    setParams({
+                      ...params,
+                      strategyParams: {
+                        ...params.strategyParams,
+                        [field.key]: parseFloat(e.target.value),
+                      },
+                    })
+                  }
+                />
+              </div>
+            ))}
+
+            <div className="space-y-2">
+              <Label htmlFor="sizingModel">Position Sizing</Label>
+              <NativeSelect
+                id="sizingModel"
+                value={params.sizingModel}
+                onChange={(e) =>
+                  setParams({
+                    ...params,
+                    sizingModel: e.target.value as PositionSizingModelId,
+                    sizingParams: {},
+                  })
+                }
+              >
+                {Object.values(POSITION_SIZING_MODELS).map((model) => (
+                  <option key={model.id} value={model.id}>
+                    {model.name}
+                  </option>
+                ))}
+              </NativeSelect>
+              <div className="text-xs text-gray-500">
+                {POSITION_SIZING_MODELS[params.sizingModel].description}
+              </div>
+            </div>
+
+            {POSITION_SIZING_MODELS[params.sizingModel].fields.map((field) => (
+              <div key={field.key} className="space-y-2">
+                <Label htmlFor={`sizing-${field.key}`}>{field.label}</Label>
+                <Input
+                  id={`sizing-${field.key}`}
+                  type="number"
+                  min={field.min}
+                  step={field.step}
+                  value={params.sizingParams[field.key] ?? field.defaultValue}
+                  onChange={(e) =>
+                    setParams({
+                      ...params,
+                      sizingParams: {
+                        ...params.sizingParams,
+                        [field.key]: parseFloat(e.target.value),
+                      },
+                    })
+                  }
+                />
+              </div>
+            ))}
           </div>
 
-          {/* <div className="flex items-center space-x-2 mb-6">
+          <div className="flex items-center space-x-2 mb-6">
             <input
               type="checkbox"
               id="useTrailingStop"
@@ -638,8 +761,15 @@ const TradingSimulator: React.FC = () => {
                 setParams({ ...params, useTrailingStop: e.target.checked })
               }
             />
-            <label htmlFor="useTrailingStop">Use Trailing Stop</label>
-          </div> */}
+            <label htmlFor="useTrailingStop">
+              Use Trailing Stop (unchecked: fixed stop from entry price)
+            </label>
+          </div>
+
+          <RiskSettingsPanel
+            risk={params.risk}
+            onChange={(risk) => setParams({ ...params, risk })}
+          />
           {/* <div className="bg-gradient-to-r from-blue-50 to-indigo-50 border border-blue-100 rounded-lg p-6 my-4 shadow-sm">
             <h3 className="text-lg font-semibold text-indigo-800 mb-2 flex items-center">
               <svg
@@ -717,15 +847,65 @@ const TradingSimulator: React.FC = () => {
               </p>
             </div>
           </div> */}
-          <Button onClick={runSimulation} className="w-full">
-            <Play className="mr-2 h-4 w-4" /> Run Simulation
-          </Button>
+          <div className="flex space-x-2">
+            <Button onClick={runSimulation} className="flex-1">
+              <Play className="mr-2 h-4 w-4" /> Run Simulation
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setShowOptimizer(!showOptimizer)}
+            >
+              <SlidersHorizontal className="mr-2 h-4 w-4" />
+              {showOptimizer ? "Hide Optimizer" : "Optimize"}
+            </Button>
+            {(["csv", "polygon"] as const).map((format) => (
+              <Button
+                key={format}
+                variant="outline"
+                onClick={() =>
+                  setImportPanel(importPanel === format ? null : format)
+                }
+              >
+                <Upload className="mr-2 h-4 w-4" />
+                {importPanel === format
+                  ? "Hide Import"
+                  : format === "csv"
+                  ? "Import CSV"
+                  : "Import Polygon JSON"}
+              </Button>
+            ))}
+            <Button
+              variant="outline"
+              disabled={!results || !runIsShareable}
+              onClick={copyLink}
+            >
+              <Link2 className="mr-2 h-4 w-4" />
+              {linkCopied ? "Link Copied" : "Copy Link"}
+            </Button>
+          </div>
           {/* <Button onClick={calculateTotalPnL} className="w-full">
             <Play className="mr-2 h-4 w-4" /> calculate pnl
           </Button> */}
         </CardContent>
       </Card>
 
+      {importPanel === "csv" && <CsvImportPanel onUse={loadUploadedPrices} />}
+      {importPanel === "polygon" && (
+        <PolygonImportPanel onUse={loadUploadedPrices} />
+      )}
+
+      {showOptimizer && prices && (
+        <OptimizerPanel
+          prices={prices}
+          params={params}
+          onLoadParams={loadParams}
+        />
+      )}
+
+      {runHistory.length > 0 && (
+        <RunHistoryPanel runs={runHistory} onChange={updateRunHistory} />
+      )}
+
       {results && (
         <>
           <Card>
@@ -782,7 +962,7 @@ const TradingSimulator: React.FC = () => {
                 <div className="p-4 bg-gray-50 rounded">
                   <div className="text-sm text-gray-600">Max Drawdown</div>
                   <div className="text-2xl font-bold">
-                    {results.maxDrawdown.toFixed(2)}%
+                    {(results.maxDrawdown * 100).toFixed(2)}%
                   </div>
                 </div>
                 <div className="p-4 bg-gray-50 rounded">
@@ -811,8 +991,42 @@ const TradingSimulator: React.FC = () => {
                     {results.skippedTrades}
                   </div>
                 </div>
+                <div className="p-4 bg-gray-50 rounded">
+                  <div className="text-sm text-gray-600">
+                    Circuit Breaker Trips
+                  </div>
+                  <div className="text-2xl font-bold">
+                    {results.circuitBreakerDates.length}
+                  </div>
+                </div>
+                <div className="p-4 bg-gray-50 rounded">
+                  <div className="text-sm text-gray-600">Rejected Signals</div>
+                  <div className="text-2xl font-bold">
+                    {SIGNAL_REJECTION_REASONS.reduce(
+                      (sum, reason) => sum + results.rejectedSignals[reason],
+                      0
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    {SIGNAL_REJECTION_REASONS.filter(
+                      (reason) => results.rejectedSignals[reason] > 0
+                    )
+                      .map(
+                        (reason) =>
+                          `${reason}: ${results.rejectedSignals[reason]}`
+                      )
+                      .join(", ")}
+                  </div>
+                </div>
               </div>
 
+              {results.circuitBreakerDates.length > 0 && (
+                <p className="text-sm text-gray-600 mb-6">
+                  Daily loss limit hit on:{" "}
+                  {results.circuitBreakerDates.join(", ")}
+                </p>
+              )}
+
               <div className="h-64 mb-6">
                 <ResponsiveContainer width="100%" height="100%">
                   <LineChart data={results.equityCurve}>
@@ -823,18 +1037,125 @@ const TradingSimulator: React.FC = () => {
                       textAnchor="end"
                       height={80}
                     />
-                    <YAxis domain={["auto", "auto"]} />
+                    <YAxis yAxisId="equity" domain={["auto", "auto"]} />
+                    {resultParams.risk.maintenanceMarginPercent > 0 && (
+                      <YAxis
+                        yAxisId="margin"
+                        orientation="right"
+                        domain={[0, "auto"]}
+                        unit="%"
+                      />
+                    )}
                     <Tooltip />
                     <Line
+                      yAxisId="equity"
                       type="monotone"
                       dataKey="equity"
                       stroke="#2563eb"
                       dot={false}
                     />
+                    {resultParams.risk.maintenanceMarginPercent > 0 && (
+                      <>
+                        <Line
+                          yAxisId="margin"
+                          type="monotone"
+                          dataKey="marginLevel"
+                          name="margin level (%)"
+                          stroke="#f97316"
+                          dot={false}
+                          connectNulls={false}
+                        />
+                        <ReferenceLine
+                          yAxisId="margin"
+                          y={resultParams.risk.maintenanceMarginPercent}
+                          stroke="red"
+                          strokeDasharray="4 4"
+                          label="Maintenance"
+                        />
+                      </>
+                    )}
                   </LineChart>
                 </ResponsiveContainer>
               </div>
 
+              {/* Exit Reasons Section */}
+              <div className="mb-6">
+                <h3 className="text-lg font-medium mb-2">Exits by Reason</h3>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="bg-gray-100">
+                        <th className="p-2 text-left">Exit Reason</th>
+                        <th className="p-2 text-right">Trades</th>
+                        <th className="p-2 text-right">P&L</th>
+                        <th className="p-2 text-right">Total Fees</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {summarizeExitReasons(results.tradeHistory).map(
+                        (summary) => (
+                          <tr key={summary.reason} className="border-b">
+                            <td className="p-2 capitalize">{summary.reason}</td>
+                            <td className="p-2 text-right">{summary.trades}</td>
+                            <td
+                              className={`p-2 text-right ${
+                                summary.pnl >= 0
+                                  ? "text-green-600"
+                                  : "text-red-600"
+                              }`}
+                            >
+                              {formatCurrency(summary.pnl)}
+                            </td>
+                            <td className="p-2 text-right text-red-600">
+                              {formatCurrency(summary.fees)}
+                            </td>
+                          </tr>
+                        )
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              {/* Risk Vetoes Section */}
+              {results.riskEvents.length > 0 && (
+                <div className="mb-6">
+                  <h3 className="text-lg font-medium mb-2">
+                    Risk Vetoes ({results.riskEvents.length})
+                  </h3>
+                  <div className="overflow-x-auto max-h-64 overflow-y-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="bg-gray-100">
+                          <th className="p-2 text-left">Date</th>
+                          <th className="p-2 text-left">Side</th>
+                          <th className="p-2 text-left">Reason</th>
+                          <th className="p-2 text-right">Value</th>
+                          <th className="p-2 text-right">Limit</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {results.riskEvents.map((event, index) => (
+                          <tr key={index} className="border-b">
+                            <td className="p-2">{event.date}</td>
+                            <td className="p-2 capitalize">
+                              {event.direction}
+                            </td>
+                            <td className="p-2 capitalize">{event.reason}</td>
+                            <td className="p-2 text-right">
+                              {event.value.toFixed(2)}
+                            </td>
+                            <td className="p-2 text-right">
+                              {event.limit.toFixed(2)}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+
               {/* Open Positions Section */}
               {results.openPositions.length > 0 && (
                 <div className="mb-6">
@@ -851,10 +1172,11 @@ const TradingSimulator: React.FC = () => {
                     <table className="w-full text-sm">
                       <thead>
                         <tr className="bg-gray-100">
+                          <th className="p-2 text-left">Side</th>
                           <th className="p-2 text-left">Entry Date</th>
                           <th className="p-2 text-right">Entry Price</th>
                           <th className="p-2 text-right">Current Price</th>
-                          <th className="p-2 text-right">Highest Price</th>
+                          <th className="p-2 text-right">Best Price</th>
                           <th className="p-2 text-right">Base Amount</th>
                           <th className="p-2 text-right">Leveraged Amount</th>
                           <th className="p-2 text-right">Total Fees</th>
@@ -865,6 +1187,9 @@ const TradingSimulator: React.FC = () => {
                       <tbody>
                         {results.openPositions.map((position, index) => (
                           <tr key={index} className="border-b">
+                            <td className="p-2 capitalize">
+                              {position.direction}
+                            </td>
                             <td className="p-2">{position.entryDate}</td>
                             <td className="p-2 text-right">
                               ${position.entryPrice.toFixed(2)}
@@ -873,7 +1198,11 @@ const TradingSimulator: React.FC = () => {
                               ${position.currentPrice.toFixed(2)}
                             </td>
                             <td className="p-2 text-right">
-                              ${position.highestPrice.toFixed(2)}
+                              $
+                              {(position.direction === "long"
+                                ? position.highestPrice
+                                : position.lowestPrice
+                              ).toFixed(2)}
                             </td>
                             <td className="p-2 text-right">
                               {formatCurrency(position.baseAmount)}
@@ -912,14 +1241,17 @@ const TradingSimulator: React.FC = () => {
                 <table className="w-full text-sm">
                   <thead>
                     <tr className="bg-gray-100">
+                      <th className="p-2 text-left">Side</th>
                       <th className="p-2 text-left">Entry Date</th>
                       <th className="p-2 text-left">Exit Date</th>
                       <th className="p-2 text-right">Entry Price</th>
                       <th className="p-2 text-right">Exit Price</th>
-                      <th className="p-2 text-right">Highest Price</th>
+                      <th className="p-2 text-right">Best Price</th>
                       <th className="p-2 text-right">Base Amount</th>
                       <th className="p-2 text-right">Leveraged Amount</th>
                       <th className="p-2 text-right">Total Fees</th>
+                      <th className="p-2 text-left">Exit Reason</th>
+                      <th className="p-2 text-left">Sizing</th>
                       {/* <th className="p-2 text-right">Remaining Capital</th> */}
                       {/* <th className="p-2 text-right">Capital At Entry</th> */}
                       <th className="p-2 text-right">P&L</th>
@@ -938,6 +1270,7 @@ const TradingSimulator: React.FC = () => {
                           )
                         }
                       >
+                        <td className="p-2 capitalize">{trade.direction}</td>
                         <td className="p-2">{trade.entry}</td>
                         <td className="p-2">{trade.exit}</td>
                         <td className="p-2 text-right">
@@ -947,7 +1280,11 @@ const TradingSimulator: React.FC = () => {
                           ${trade.exitPrice.toFixed(2)}
                         </td>
                         <td className="p-2 text-right">
-                          ${trade.highestPrice.toFixed(2)}
+                          $
+                          {(trade.direction === "long"
+                            ? trade.highestPrice
+                            : trade.lowestPrice
+                          ).toFixed(2)}
                         </td>
                         <td className="p-2 text-right">
                           {formatCurrency(trade.baseAmount)}
@@ -958,6 +1295,10 @@ const TradingSimulator: React.FC = () => {
                         <td className="p-2 text-right text-red-600">
                           {formatCurrency(trade.fees)}
                         </td>
+                        <td className="p-2 capitalize">{trade.exitReason}</td>
+                        <td className="p-2 text-xs text-gray-600">
+                          {trade.sizeRationale}
+                        </td>
                         {/* <td className="p-2 text-right text-red-600">
                           {formatCurrency(trade.remainingCapital)}
                         </td> */}
@@ -978,6 +1319,14 @@ const TradingSimulator: React.FC = () => {
               </div>
             </CardContent>
           </Card>
+
+          <MonteCarloPanel
+            prices={resultPrices}
+            params={resultParams}
+            results={results}
+          />
+
+          <ScenarioComparison params={resultParams} />
         </>
       )}
     </div>
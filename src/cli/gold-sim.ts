@@ -0,0 +1,865 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { goldPriceHistory } from "@/lib/data";
+import { PRICE_SCENARIOS } from "@/lib/scenarios";
+import {
+  CSV_DATE_FORMATS,
+  CSV_FIELDS,
+  CsvDateFormat,
+  CsvField,
+  guessColumnMapping,
+  guessDateFormat,
+  importOhlcCsv,
+  parseCsv,
+} from "@/lib/csvImport";
+import { importPolygonAggregates } from "@/lib/polygonImport";
+import { isValidTimeZone } from "@/lib/dates";
+import {
+  checkPriceData,
+  DATA_FIXES,
+  DataFix,
+  DEFAULT_DATA_QUALITY_CONFIG,
+  fixPriceData,
+} from "@/lib/dataQuality";
+import { GoldPriceDataType } from "@/lib/utils";
+import {
+  DEFAULT_MONTE_CARLO_CONFIG,
+  DEFAULT_SIMULATION_PARAMS,
+  DEFAULT_SYNTHETIC_SERIES_CONFIG,
+  ENTRY_STRATEGIES,
+  generateSyntheticSeries,
+  isEntryStrategyId,
+  isPositionSizingModelId,
+  isSyntheticGeneratorId,
+  MONTE_CARLO_METHODS,
+  MonteCarloMethod,
+  OPTIMIZATION_OBJECTIVES,
+  OptimizationObjective,
+  POSITION_SIZING_MODELS,
+  runBacktest,
+  runGridSearch,
+  runMonteCarlo,
+  runScenarios,
+  runWalkForward,
+  SimulationParams,
+  SWEEP_PARAMS,
+  SweepParamKey,
+  SweepRanges,
+  sweepRangeError,
+  SYNTHETIC_GENERATORS,
+  validateParams,
+  validateSyntheticSeriesConfig,
+} from "@/lib/engine";
+import {
+  formatDataQuality,
+  formatJson,
+  formatLeaderboard,
+  formatLeaderboardCsv,
+  formatMonteCarlo,
+  formatScenarios,
+  formatSummary,
+  formatTradeCsv,
+  formatWalkForward,
+} from "@/cli/report";
+
+const defaults = DEFAULT_SIMULATION_PARAMS;
+
+// [flag, description] rows of the help text
+const OPTIONS: [string, string][] = [
+  [
+    "--capital <n>",
+    `Starting capital ($), default ${defaults.investmentCapital}`,
+  ],
+  [
+    "--position-size <n>",
+    `Position size (% of capital), default ${defaults.positionSizePercent}`,
+  ],
+  ["--leverage <n>", `Leverage multiplier, default ${defaults.leverage}`],
+  [
+    "--stop-loss <n>",
+    `Stop loss amount ($), default ${defaults.stopLossDollar}`,
+  ],
+  [
+    "--threshold <n>",
+    `Min price movement (% threshold), default ${defaults.minPriceMovement}`,
+  ],
+  [
+    "--fee <n>",
+    `Daily position funding fee (%), default ${defaults.dailyFeePercent}`,
+  ],
+  ["--fixed-stop", "Keep the stop fixed from the entry price (no trailing)"],
+  [
+    "--take-profit <n>",
+    "Take profit target, $ of P&L or % price move (see --take-profit-type)",
+  ],
+  [
+    "--take-profit-type <t>",
+    `none, dollar or percent, default ${defaults.takeProfitType} (dollar with --take-profit)`,
+  ],
+  [
+    "--max-holding <n>",
+    "Close positions held longer than this, 0 for no limit (default 0)",
+  ],
+  [
+    "--max-holding-unit <u>",
+    `days or hours, default ${defaults.maxHoldingUnit}`,
+  ],
+  [
+    "--volatility <m>",
+    `none, atr or stdDev: scale the stop and threshold by rolling volatility, default ${defaults.volatilityAdjustment.measure}`,
+  ],
+  [
+    "--volatility-period <n>",
+    `Bars in the volatility window, default ${defaults.volatilityAdjustment.period}`,
+  ],
+  [
+    "--volatility-reference <n>",
+    `Volatility (%) at which the stop and threshold apply as set, default ${defaults.volatilityAdjustment.referencePercent}`,
+  ],
+  [
+    "--min-capital <n>",
+    `Capital ($) below which no new positions open, default ${defaults.risk.minCapital}`,
+  ],
+  [
+    "--max-leverage <n>",
+    `Max total notional as a multiple of equity, default ${defaults.risk.maxLeverage}`,
+  ],
+  [
+    "--max-position-size <n>",
+    `Max single position (% of capital), default ${defaults.risk.maxPositionSizePercent}`,
+  ],
+  [
+    "--max-daily-loss <n>",
+    "Daily loss ($) that stops new entries for the day, 0 for no limit",
+  ],
+  ["--close-on-daily-loss", "Also close all positions when the limit is hit"],
+  ["--max-positions <n>", "Max open positions, 0 for no limit"],
+  [
+    "--max-exposure <n>",
+    "Max total leveraged notional as a multiple of equity, 0 for no limit",
+  ],
+  [
+    "--max-committed <n>",
+    "Max total margin committed (% of equity), 0 for no limit",
+  ],
+  [
+    "--maintenance-margin <n>",
+    "Margin level (%) that triggers liquidation, 0 to disable",
+  ],
+  [
+    "--direction <side>",
+    `long, short or both, default ${defaults.tradeDirection}`,
+  ],
+  [
+    "--time-zone <tz>",
+    `IANA timezone of the exchange's trading days, default ${defaults.exchangeTimeZone}`,
+  ],
+  ["--strategy <id>", `Entry strategy, default ${defaults.entryStrategy}`],
+  ["--param <key=n>", "Entry strategy parameter, repeatable"],
+  ["--sizing <id>", `Position sizing model, default ${defaults.sizingModel}`],
+  ["--sizing-param <key=n>", "Position sizing parameter, repeatable"],
+  [
+    "--data <source>",
+    "Price data: historical (default) or a synthetic generator id",
+  ],
+  [
+    "--bars <n>",
+    `Synthetic data: bars to generate, default ${DEFAULT_SYNTHETIC_SERIES_CONFIG.bars}`,
+  ],
+  [
+    "--start-price <n>",
+    `Synthetic data: first price, default ${DEFAULT_SYNTHETIC_SERIES_CONFIG.startPrice}`,
+  ],
+  ["--data-param <key=n>", "Synthetic generator parameter, repeatable"],
+  [
+    "--data-file <path>",
+    "Run on an OHLC CSV file instead, or on Polygon aggregates .json files (repeat for more pages)",
+  ],
+  [
+    "--column <field=name>",
+    "Data file: header of the date, open, high, low, close or volume column, repeatable (guessed by default)",
+  ],
+  [
+    "--date-format <f>",
+    `Data file: ${Object.keys(CSV_DATE_FORMATS).join(
+      ", "
+    )} (guessed by default)`,
+  ],
+  [
+    "--fix <f>",
+    `Repair the price data before using it: ${Object.keys(DATA_FIXES).join(
+      ", "
+    )}`,
+  ],
+  [
+    "--jump-sd <n>",
+    `check-data, --fix: close moves beyond this many std devs are jumps, default ${DEFAULT_DATA_QUALITY_CONFIG.jumpStdDevs}`,
+  ],
+  [
+    "--sweep <key=a:b:s>",
+    "optimize, walk-forward: sweep a param from a to b in steps of s, repeatable",
+  ],
+  [
+    "--objective <o>",
+    "optimize, walk-forward: finalCapital, sharpeRatio, calmarRatio or profitFactor",
+  ],
+  ["--top <n>", "optimize: leaderboard rows to print, default 10"],
+  ["--in-sample <n>", "walk-forward: bars optimized per window, default 120"],
+  [
+    "--out-of-sample <n>",
+    "walk-forward: bars traded after each window, default 40",
+  ],
+  [
+    "--method <m>",
+    `monte-carlo: ${Object.keys(MONTE_CARLO_METHODS).join(", ")}, default ${
+      DEFAULT_MONTE_CARLO_CONFIG.method
+    }`,
+  ],
+  [
+    "--paths <n>",
+    `monte-carlo: paths to simulate, default ${DEFAULT_MONTE_CARLO_CONFIG.paths}`,
+  ],
+  [
+    "--block-size <n>",
+    `monte-carlo: bars per block, default ${DEFAULT_MONTE_CARLO_CONFIG.blockSize}`,
+  ],
+  [
+    "--seed <n>",
+    `Random seed of monte-carlo and synthetic data, default ${DEFAULT_MONTE_CARLO_CONFIG.seed}`,
+  ],
+  [
+    "--loss <n>",
+    `monte-carlo: loss (% of capital) to report odds of, default ${DEFAULT_MONTE_CARLO_CONFIG.lossThresholdPercent}`,
+  ],
+  [
+    "--json <path>",
+    'Write params and full results (or the optimize, walk-forward or monte-carlo runs) as JSON ("-" for stdout)',
+  ],
+  [
+    "--csv <path>",
+    'Write the trade history (or the optimize leaderboard) as CSV ("-" for stdout)',
+  ],
+  ["-h, --help", "Show this help"],
+];
+
+// Wide enough for the longest flag plus a two-space gap
+const FLAG_WIDTH = Math.max(...OPTIONS.map(([flag]) => flag.length)) + 2;
+
+const USAGE = [
+  "Usage: gold-sim run [options]",
+  "       gold-sim optimize --sweep <key=min:max:step>... [options]",
+  "       gold-sim walk-forward --sweep <key=min:max:step>... [options]",
+  "       gold-sim monte-carlo [--method <m>] [--paths <n>] [options]",
+  "       gold-sim scenarios [options]",
+  "       gold-sim check-data [--jump-sd <n>] [options]",
+  "",
+  "Runs the trailing-stop simulation over the historical (or a synthetic)",
+  "gold price series, a grid search over ranges of params ranked by an",
+  "objective, a walk-forward analysis re-optimizing on rolling in-sample",
+  "windows, or a Monte Carlo resampling of the simulation's trades or bars.",
+  "scenarios runs the same params on the base, high- and low-confidence",
+  "historical prices side by side. check-data reports gaps, duplicate and",
+  "out-of-order dates, inconsistent bars and suspicious jumps in the prices.",
+  "",
+  `Sweepable params: ${SWEEP_PARAMS.map(({ key }) => key).join(", ")}`,
+  "",
+  "Options:",
+  ...OPTIONS.map(
+    ([flag, description]) => `  ${flag.padEnd(FLAG_WIDTH)}${description}`
+  ),
+  "",
+  "Entry strategies:",
+  ...Object.values(ENTRY_STRATEGIES).map(
+    (strategy) =>
+      `  ${strategy.id.padEnd(FLAG_WIDTH)}${strategy.name}` +
+      strategy.fields
+        .map((field) => ` ${field.key}=${field.defaultValue}`)
+        .join("")
+  ),
+  "",
+  "Position sizing models:",
+  ...Object.values(POSITION_SIZING_MODELS).map(
+    (model) =>
+      `  ${model.id.padEnd(FLAG_WIDTH)}${model.name}` +
+      model.fields
+        .map((field) => ` ${field.key}=${field.defaultValue}`)
+        .join("")
+  ),
+  "",
+  "Synthetic data generators:",
+  ...Object.values(SYNTHETIC_GENERATORS).map(
+    (generator) =>
+      `  ${generator.id.padEnd(FLAG_WIDTH)}${generator.name}` +
+      generator.fields
+        .map((field) => ` ${field.key}=${field.defaultValue}`)
+        .join("")
+  ),
+  "",
+].join("\n");
+
+const fail = (message: string): never => {
+  process.stderr.write(`gold-sim: ${message}\n\n${USAGE}`);
+  process.exit(1);
+};
+
+const parseNumber = (
+  name: string,
+  value: string | undefined,
+  fallback: number
+): number => {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (value.trim() === "" || Number.isNaN(parsed)) {
+    return fail(`--${name} expects a number, got "${value}"`);
+  }
+  return parsed;
+};
+
+const parseInteger = (
+  name: string,
+  value: string | undefined,
+  fallback: number
+): number => {
+  const parsed = parseNumber(name, value, fallback);
+  if (!Number.isInteger(parsed)) {
+    return fail(`--${name} expects a whole number, got "${value}"`);
+  }
+  return parsed;
+};
+
+const parseStrategyParams = (
+  pairs: string[],
+  flag = "param"
+): Record<string, number> => {
+  const strategyParams: Record<string, number> = {};
+  for (const pair of pairs) {
+    const [key, value] = pair.split("=");
+    if (!key || value === undefined) {
+      return fail(`--${flag} expects key=value, got "${pair}"`);
+    }
+    strategyParams[key] = parseNumber(`${flag} ${key}`, value, NaN);
+  }
+  return strategyParams;
+};
+
+const parseSweeps = (specs: string[]): SweepRanges => {
+  const ranges: SweepRanges = {};
+  for (const spec of specs) {
+    const [key, range] = spec.split("=");
+    const bounds = (range ?? "").split(":");
+    if (!SWEEP_PARAMS.some((param) => param.key === key)) {
+      return fail(`--sweep: unknown param "${key}"`);
+    }
+    if (bounds.length !== 3) {
+      return fail(`--sweep expects key=min:max:step, got "${spec}"`);
+    }
+    const [min, max, step] = bounds.map((bound) =>
+      parseNumber(`sweep ${key}`, bound, NaN)
+    );
+    const error = sweepRangeError({ min, max, step });
+    if (error) return fail(`--sweep ${key}: ${error}`);
+    ranges[key as SweepParamKey] = { min, max, step };
+  }
+  return ranges;
+};
+
+// Reads an OHLC CSV, guessing the columns and date format the flags leave
+// out. Rejected rows are reported on stderr.
+const loadCsvPrices = (
+  path: string,
+  columns: string[],
+  dateFormat: string | undefined
+): GoldPriceDataType[] => {
+  const table = parseCsv(readFileSync(path, "utf8"));
+  const mapping = guessColumnMapping(table.headers);
+  for (const pair of columns) {
+    const [field, header] = pair.split("=");
+    if (!CSV_FIELDS.some(({ key }) => key === field) || header === undefined) {
+      return fail(`--column expects field=header, got "${pair}"`);
+    }
+    mapping[field as CsvField] = header;
+  }
+  if (
+    dateFormat !== undefined &&
+    !Object.prototype.hasOwnProperty.call(CSV_DATE_FORMATS, dateFormat)
+  ) {
+    return fail(`unknown date format "${dateFormat}"`);
+  }
+  const dateColumn = table.headers.indexOf(mapping.date);
+  const format =
+    (dateFormat as CsvDateFormat | undefined) ??
+    guessDateFormat(table.rows.map((row) => row[dateColumn] ?? ""));
+
+  const { bars, errors } = importOhlcCsv(table, mapping, format);
+  for (const error of errors) process.stderr.write(`${path}: ${error}\n`);
+  if (bars.length < 2) return fail(`${path} has fewer than 2 valid bars`);
+  return bars;
+};
+
+// Merges saved Polygon aggregates pages. Rejected bars are reported on
+// stderr.
+const loadPolygonPrices = (paths: string[]): GoldPriceDataType[] => {
+  const imported = importPolygonAggregates(
+    paths.map((path) => ({ name: path, text: readFileSync(path, "utf8") }))
+  );
+  for (const error of imported.errors) process.stderr.write(`${error}\n`);
+  if (imported.bars.length < 2) return fail("fewer than 2 valid bars");
+  return imported.bars;
+};
+
+const writeOutput = (path: string, content: string) => {
+  if (path === "-") {
+    process.stdout.write(`${content}\n`);
+  } else {
+    writeFileSync(path, `${content}\n`);
+  }
+};
+
+const main = (argv: string[]) => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      capital: { type: "string" },
+      "position-size": { type: "string" },
+      leverage: { type: "string" },
+      "stop-loss": { type: "string" },
+      threshold: { type: "string" },
+      fee: { type: "string" },
+      "fixed-stop": { type: "boolean" },
+      "take-profit": { type: "string" },
+      "take-profit-type": { type: "string" },
+      "max-holding": { type: "string" },
+      "max-holding-unit": { type: "string" },
+      volatility: { type: "string" },
+      "volatility-period": { type: "string" },
+      "volatility-reference": { type: "string" },
+      "min-capital": { type: "string" },
+      "max-leverage": { type: "string" },
+      "max-position-size": { type: "string" },
+      "max-daily-loss": { type: "string" },
+      "close-on-daily-loss": { type: "boolean" },
+      "max-positions": { type: "string" },
+      "max-exposure": { type: "string" },
+      "max-committed": { type: "string" },
+      "maintenance-margin": { type: "string" },
+      direction: { type: "string" },
+      "time-zone": { type: "string" },
+      strategy: { type: "string" },
+      param: { type: "string", multiple: true },
+      sizing: { type: "string" },
+      "sizing-param": { type: "string", multiple: true },
+      data: { type: "string" },
+      bars: { type: "string" },
+      "start-price": { type: "string" },
+      "data-param": { type: "string", multiple: true },
+      "data-file": { type: "string", multiple: true },
+      column: { type: "string", multiple: true },
+      "date-format": { type: "string" },
+      fix: { type: "string" },
+      "jump-sd": { type: "string" },
+      sweep: { type: "string", multiple: true },
+      objective: { type: "string" },
+      top: { type: "string" },
+      "in-sample": { type: "string" },
+      "out-of-sample": { type: "string" },
+      method: { type: "string" },
+      paths: { type: "string" },
+      "block-size": { type: "string" },
+      seed: { type: "string" },
+      loss: { type: "string" },
+      json: { type: "string" },
+      csv: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return;
+  }
+
+  const [command] = positionals;
+  if (
+    command !== "run" &&
+    command !== "optimize" &&
+    command !== "walk-forward" &&
+    command !== "monte-carlo" &&
+    command !== "scenarios" &&
+    command !== "check-data"
+  ) {
+    fail(command ? `unknown command "${command}"` : "missing command");
+  }
+
+  const params: SimulationParams = {
+    ...defaults,
+    investmentCapital: parseNumber(
+      "capital",
+      values.capital,
+      defaults.investmentCapital
+    ),
+    positionSizePercent: parseNumber(
+      "position-size",
+      values["position-size"],
+      defaults.positionSizePercent
+    ),
+    leverage: parseNumber("leverage", values.leverage, defaults.leverage),
+    stopLossDollar: parseNumber(
+      "stop-loss",
+      values["stop-loss"],
+      defaults.stopLossDollar
+    ),
+    minPriceMovement: parseNumber(
+      "threshold",
+      values.threshold,
+      defaults.minPriceMovement
+    ),
+    dailyFeePercent: parseNumber("fee", values.fee, defaults.dailyFeePercent),
+    useTrailingStop: !values["fixed-stop"],
+    takeProfitValue: parseNumber(
+      "take-profit",
+      values["take-profit"],
+      defaults.takeProfitValue
+    ),
+    maxHoldingPeriod: parseNumber(
+      "max-holding",
+      values["max-holding"],
+      defaults.maxHoldingPeriod
+    ),
+    volatilityAdjustment: {
+      ...defaults.volatilityAdjustment,
+      period: parseNumber(
+        "volatility-period",
+        values["volatility-period"],
+        defaults.volatilityAdjustment.period
+      ),
+      referencePercent: parseNumber(
+        "volatility-reference",
+        values["volatility-reference"],
+        defaults.volatilityAdjustment.referencePercent
+      ),
+    },
+    risk: {
+      minCapital: parseNumber(
+        "min-capital",
+        values["min-capital"],
+        defaults.risk.minCapital
+      ),
+      maxLeverage: parseNumber(
+        "max-leverage",
+        values["max-leverage"],
+        defaults.risk.maxLeverage
+      ),
+      maxPositionSizePercent: parseNumber(
+        "max-position-size",
+        values["max-position-size"],
+        defaults.risk.maxPositionSizePercent
+      ),
+      maxDailyLoss: parseNumber(
+        "max-daily-loss",
+        values["max-daily-loss"],
+        defaults.risk.maxDailyLoss
+      ),
+      closeOnDailyLoss: values["close-on-daily-loss"] ?? false,
+      maxOpenPositions: parseNumber(
+        "max-positions",
+        values["max-positions"],
+        defaults.risk.maxOpenPositions
+      ),
+      maxExposureMultiple: parseNumber(
+        "max-exposure",
+        values["max-exposure"],
+        defaults.risk.maxExposureMultiple
+      ),
+      maxCapitalCommittedPercent: parseNumber(
+        "max-committed",
+        values["max-committed"],
+        defaults.risk.maxCapitalCommittedPercent
+      ),
+      maintenanceMarginPercent: parseNumber(
+        "maintenance-margin",
+        values["maintenance-margin"],
+        defaults.risk.maintenanceMarginPercent
+      ),
+    },
+    strategyParams: parseStrategyParams(values.param ?? []),
+    sizingParams: parseStrategyParams(
+      values["sizing-param"] ?? [],
+      "sizing-param"
+    ),
+    exchangeTimeZone: defaults.exchangeTimeZone,
+  };
+
+  const takeProfitType =
+    values["take-profit-type"] ??
+    (values["take-profit"] !== undefined ? "dollar" : undefined);
+  if (takeProfitType !== undefined) {
+    if (
+      takeProfitType !== "none" &&
+      takeProfitType !== "dollar" &&
+      takeProfitType !== "percent"
+    ) {
+      fail(`unknown take profit type "${takeProfitType}"`);
+    } else {
+      params.takeProfitType = takeProfitType;
+    }
+  }
+
+  if (values["max-holding-unit"] !== undefined) {
+    const unit = values["max-holding-unit"];
+    if (unit !== "days" && unit !== "hours") {
+      fail(`unknown max holding unit "${unit}"`);
+    } else {
+      params.maxHoldingUnit = unit;
+    }
+  }
+
+  if (values.volatility !== undefined) {
+    const measure = values.volatility;
+    if (measure !== "none" && measure !== "atr" && measure !== "stdDev") {
+      fail(`unknown volatility measure "${measure}"`);
+    } else {
+      params.volatilityAdjustment.measure = measure;
+    }
+  }
+
+  if (values.direction !== undefined) {
+    if (
+      values.direction !== "long" &&
+      values.direction !== "short" &&
+      values.direction !== "both"
+    ) {
+      fail(`unknown direction "${values.direction}"`);
+    } else {
+      params.tradeDirection = values.direction;
+    }
+  }
+
+  if (values["time-zone"] !== undefined) {
+    if (!isValidTimeZone(values["time-zone"])) {
+      fail(`unknown timezone "${values["time-zone"]}"`);
+    } else {
+      params.exchangeTimeZone = values["time-zone"];
+    }
+  }
+
+  if (values.strategy !== undefined) {
+    if (!isEntryStrategyId(values.strategy)) {
+      fail(`unknown strategy "${values.strategy}"`);
+    } else {
+      params.entryStrategy = values.strategy;
+    }
+  }
+
+  if (values.sizing !== undefined) {
+    if (!isPositionSizingModelId(values.sizing)) {
+      fail(`unknown sizing model "${values.sizing}"`);
+    } else {
+      params.sizingModel = values.sizing;
+    }
+  }
+
+  if (params.positionSizePercent > params.risk.maxPositionSizePercent) {
+    fail(
+      `--position-size ${params.positionSizePercent} is above --max-position-size ${params.risk.maxPositionSizePercent}`
+    );
+  }
+  if (!validateParams(params)) {
+    fail("invalid parameters");
+  }
+
+  if (command === "scenarios") {
+    if (values.data !== undefined || values["data-file"] !== undefined) {
+      return fail("scenarios runs on the historical price bands, drop --data");
+    }
+    const runs = runScenarios(PRICE_SCENARIOS, params);
+    if (values.json !== "-") {
+      process.stdout.write(`${formatScenarios(runs)}\n`);
+    }
+    if (values.json) writeOutput(values.json, JSON.stringify(runs, null, 2));
+    return;
+  }
+
+  const source = values.data ?? "historical";
+  if (source !== "historical" && !isSyntheticGeneratorId(source)) {
+    return fail(`unknown data source "${source}"`);
+  }
+  let prices = goldPriceHistory;
+  if (isSyntheticGeneratorId(source)) {
+    const series = {
+      generator: source,
+      bars: parseNumber(
+        "bars",
+        values.bars,
+        DEFAULT_SYNTHETIC_SERIES_CONFIG.bars
+      ),
+      startPrice: parseNumber(
+        "start-price",
+        values["start-price"],
+        DEFAULT_SYNTHETIC_SERIES_CONFIG.startPrice
+      ),
+      seed: parseNumber(
+        "seed",
+        values.seed,
+        DEFAULT_SYNTHETIC_SERIES_CONFIG.seed
+      ),
+      generatorParams: parseStrategyParams(
+        values["data-param"] ?? [],
+        "data-param"
+      ),
+    };
+    if (!validateSyntheticSeriesConfig(series)) {
+      return fail("invalid synthetic data parameters");
+    }
+    prices = generateSyntheticSeries(series);
+  }
+  if (values["data-file"] !== undefined) {
+    if (values.data !== undefined) {
+      return fail("use either --data or --data-file");
+    }
+    const paths = values["data-file"];
+    if (paths.every((path) => path.toLowerCase().endsWith(".json"))) {
+      prices = loadPolygonPrices(paths);
+    } else if (paths.length > 1) {
+      return fail("only .json data files can be given more than once");
+    } else {
+      prices = loadCsvPrices(
+        paths[0],
+        values.column ?? [],
+        values["date-format"]
+      );
+    }
+  }
+
+  const qualityConfig = {
+    jumpStdDevs: parseNumber(
+      "jump-sd",
+      values["jump-sd"],
+      DEFAULT_DATA_QUALITY_CONFIG.jumpStdDevs
+    ),
+  };
+  if (values.fix !== undefined) {
+    if (!Object.prototype.hasOwnProperty.call(DATA_FIXES, values.fix)) {
+      return fail(`unknown fix "${values.fix}"`);
+    }
+    prices = fixPriceData(prices, values.fix as DataFix, qualityConfig);
+    if (prices.length < 2) return fail("fewer than 2 bars left after --fix");
+  }
+
+  if (command === "check-data") {
+    const report = checkPriceData(prices, qualityConfig);
+    if (values.json !== "-") {
+      process.stdout.write(`${formatDataQuality(report, prices.length)}\n`);
+    }
+    if (values.json) writeOutput(values.json, JSON.stringify(report, null, 2));
+    return;
+  }
+
+  if (command === "optimize" || command === "walk-forward") {
+    const objective = values.objective ?? "finalCapital";
+    if (
+      !Object.prototype.hasOwnProperty.call(OPTIMIZATION_OBJECTIVES, objective)
+    ) {
+      return fail(`unknown objective "${objective}"`);
+    }
+    const ranges = parseSweeps(values.sweep ?? []);
+    if (Object.keys(ranges).length === 0) {
+      return fail(`${command} needs at least one --sweep`);
+    }
+
+    if (command === "walk-forward") {
+      const walkForward = runWalkForward(prices, params, {
+        inSampleBars: parseNumber("in-sample", values["in-sample"], 120),
+        outOfSampleBars: parseNumber(
+          "out-of-sample",
+          values["out-of-sample"],
+          40
+        ),
+        ranges,
+        objective: objective as OptimizationObjective,
+      });
+      if (values.json !== "-") {
+        process.stdout.write(`${formatWalkForward(walkForward)}\n`);
+      }
+      if (values.json) {
+        writeOutput(values.json, JSON.stringify(walkForward, null, 2));
+      }
+      return;
+    }
+
+    const { runs, skipped } = runGridSearch(
+      prices,
+      params,
+      ranges,
+      objective as OptimizationObjective
+    );
+    if (skipped > 0) {
+      process.stderr.write(
+        `${skipped} combinations skipped: their params are invalid\n`
+      );
+    }
+    if (values.json !== "-" && values.csv !== "-") {
+      const top = parseNumber("top", values.top, 10);
+      process.stdout.write(
+        `${formatLeaderboard(runs.slice(0, top), objective)}\n`
+      );
+    }
+    if (values.json) writeOutput(values.json, JSON.stringify(runs, null, 2));
+    if (values.csv) writeOutput(values.csv, formatLeaderboardCsv(runs));
+    return;
+  }
+
+  const results = runBacktest(prices, params);
+
+  if (command === "monte-carlo") {
+    const method = values.method ?? DEFAULT_MONTE_CARLO_CONFIG.method;
+    if (!Object.prototype.hasOwnProperty.call(MONTE_CARLO_METHODS, method)) {
+      return fail(`unknown Monte Carlo method "${method}"`);
+    }
+    const config = {
+      method: method as MonteCarloMethod,
+      paths: parseInteger(
+        "paths",
+        values.paths,
+        DEFAULT_MONTE_CARLO_CONFIG.paths
+      ),
+      blockSize: parseInteger(
+        "block-size",
+        values["block-size"],
+        DEFAULT_MONTE_CARLO_CONFIG.blockSize
+      ),
+      seed: parseNumber("seed", values.seed, DEFAULT_MONTE_CARLO_CONFIG.seed),
+      lossThresholdPercent: parseNumber(
+        "loss",
+        values.loss,
+        DEFAULT_MONTE_CARLO_CONFIG.lossThresholdPercent
+      ),
+    };
+    const monteCarlo = runMonteCarlo(
+      prices,
+      params,
+      results.tradeHistory,
+      config
+    );
+    if (values.json !== "-") {
+      process.stdout.write(`${formatMonteCarlo(monteCarlo, config)}\n`);
+    }
+    if (values.json) {
+      writeOutput(values.json, JSON.stringify(monteCarlo, null, 2));
+    }
+    return;
+  }
+
+  // Keep stdout machine-readable when one of the outputs is piped there
+  if (values.json !== "-" && values.csv !== "-") {
+    process.stdout.write(`${formatSummary(results)}\n`);
+  }
+  if (values.json) writeOutput(values.json, formatJson(params, results));
+  if (values.csv) writeOutput(values.csv, formatTradeCsv(results));
+};
+
+try {
+  main(process.argv.slice(2));
+} catch (error) {
+  fail(error instanceof Error ? error.message : String(error));
+}
@@ -0,0 +1,300 @@
+import {
+  MonteCarloConfig,
+  MonteCarloResults,
+  OPTIMIZATION_METRICS,
+  OptimizationMetric,
+  OptimizationRun,
+  percentile,
+  ScenarioRun,
+  SIGNAL_REJECTION_REASONS,
+  SimulationParams,
+  SimulationResults,
+  summarizeExitReasons,
+  SWEEP_PARAMS,
+  WalkForwardResults,
+} from "@/lib/engine";
+import {
+  DATA_ISSUE_LABELS,
+  DataIssueKind,
+  DataQualityReport,
+} from "@/lib/dataQuality";
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(value);
+};
+
+// Same cards, in the same order, as the results panel of the simulator page
+export const formatSummary = (results: SimulationResults): string => {
+  const rows: [string, string][] = [
+    ["Total P&L", formatCurrency(results.totalProfitLoss)],
+    ["Final Capital", formatCurrency(results.finalCapital)],
+    ["Success Rate", `${(results.successRate * 100).toFixed(1)}%`],
+    ["Total Trades", `${results.totalTrades}`],
+    ["Max Drawdown", `${(results.maxDrawdown * 100).toFixed(2)}%`],
+    ["Avg Profit/Trade", formatCurrency(results.avgProfitPerTrade)],
+    ["Max Consecutive Losses", `${results.maxConsecutiveLosses}`],
+    ["Total Fees", formatCurrency(results.totalFees)],
+    ["Skipped Trades", `${results.skippedTrades}`],
+    ["Circuit Breaker Trips", `${results.circuitBreakerDates.length}`],
+    ...SIGNAL_REJECTION_REASONS.map((reason): [string, string] => [
+      `Rejected (${reason})`,
+      `${results.rejectedSignals[reason]}`,
+    ]),
+  ];
+
+  const labelWidth = Math.max(...rows.map(([label]) => label.length));
+  const exits = summarizeExitReasons(results.tradeHistory).map(
+    (summary) =>
+      `  ${summary.reason.padEnd(labelWidth - 2)}  ${summary.trades} trades, ` +
+      `P&L ${formatCurrency(summary.pnl)}, fees ${formatCurrency(summary.fees)}`
+  );
+
+  const trips =
+    results.circuitBreakerDates.length > 0
+      ? [
+          "",
+          `Daily loss limit hit on: ${results.circuitBreakerDates.join(", ")}`,
+        ]
+      : [];
+
+  return [
+    ...rows.map(([label, value]) => `${label.padEnd(labelWidth)}  ${value}`),
+    ...trips,
+    "",
+    "Exits by Reason",
+    ...exits,
+  ].join("\n");
+};
+
+export const formatJson = (
+  params: SimulationParams,
+  results: SimulationResults
+): string => {
+  return JSON.stringify({ params, results }, null, 2);
+};
+
+const escapeCsv = (value: string | number): string => {
+  const text = `${value}`;
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per closed trade, columns named after the TradeData fields
+export const formatTradeCsv = (results: SimulationResults): string => {
+  const columns = [
+    "direction",
+    "entry",
+    "exit",
+    "entryPrice",
+    "exitPrice",
+    "highestPrice",
+    "lowestPrice",
+    "baseAmount",
+    "leveragedAmount",
+    "pnl",
+    "fees",
+    "exitReason",
+    "sizeRationale",
+    "daysHeld",
+    "remainingCapital",
+    "capitalAtEntry",
+  ] as const;
+
+  const lines = results.tradeHistory.map((trade) =>
+    columns.map((column) => escapeCsv(trade[column])).join(",")
+  );
+  return [columns.join(","), ...lines].join("\n");
+};
+
+// Swept params first, then the metrics, of the params swept in these runs
+const leaderboardColumns = (runs: OptimizationRun[]) => [
+  ...SWEEP_PARAMS.map(({ key }) => key).filter(
+    (key) => runs.length > 0 && key in runs[0].values
+  ),
+  ...OPTIMIZATION_METRICS.map(({ key }) => key),
+];
+
+const leaderboardValue = (run: OptimizationRun, column: string): number =>
+  column in run.values
+    ? run.values[column as keyof OptimizationRun["values"]] ?? 0
+    : run[column as OptimizationMetric];
+
+// A metric or swept value for a table. The drawdown is a fraction, the
+// annualized return already a percentage.
+const formatMetricValue = (key: string, value: number): string => {
+  if (key === "finalCapital" || key === "totalProfitLoss") {
+    return formatCurrency(value);
+  }
+  if (key === "maxDrawdown") return `${(value * 100).toFixed(2)}%`;
+  if (key === "annualizedReturn") return `${value.toFixed(2)}%`;
+  return Number.isInteger(value) ? `${value}` : value.toFixed(2);
+};
+
+// The optimize runs as an aligned table, best first
+export const formatLeaderboard = (
+  runs: OptimizationRun[],
+  objective: string
+): string => {
+  const columns = leaderboardColumns(runs);
+  const rows = runs.map((run, index) => [
+    `${index + 1}`,
+    ...columns.map((column) =>
+      formatMetricValue(column, leaderboardValue(run, column))
+    ),
+  ]);
+  const table = [["#", ...columns], ...rows];
+  const widths = table[0].map((_, i) =>
+    Math.max(...table.map((row) => row[i].length))
+  );
+
+  return [
+    `Ranked by ${objective}`,
+    "",
+    ...table.map((row) =>
+      row.map((cell, i) => cell.padStart(widths[i])).join("  ")
+    ),
+  ].join("\n");
+};
+
+// Raw values, with the units of the two that read alike in the header
+const CSV_HEADERS: Record<string, string> = {
+  maxDrawdown: "maxDrawdownFraction",
+  annualizedReturn: "annualizedReturnPercent",
+};
+
+export const formatLeaderboardCsv = (runs: OptimizationRun[]): string => {
+  const columns = leaderboardColumns(runs);
+  const lines = runs.map((run) =>
+    columns.map((column) => leaderboardValue(run, column)).join(",")
+  );
+  return [
+    columns.map((column) => CSV_HEADERS[column] ?? column).join(","),
+    ...lines,
+  ].join("\n");
+};
+
+const formatEfficiency = (efficiency: number | null) =>
+  efficiency === null ? "n/a" : `${(efficiency * 100).toFixed(0)}%`;
+
+// One line per window with the params it picked, then the stitched totals
+export const formatWalkForward = (results: WalkForwardResults): string => {
+  const windows = results.windows.map((window) => {
+    const picked = Object.entries(window.best.values)
+      .map(([key, value]) => `${key}=${value}`)
+      .join(" ");
+    return (
+      `  ${window.outOfSample.start} – ${window.outOfSample.end}  ${picked}  ` +
+      `IS ${window.best.annualizedReturn.toFixed(2)}%  ` +
+      `OOS ${window.outOfSampleRun.annualizedReturn.toFixed(2)}%  ` +
+      `P&L ${formatCurrency(window.outOfSampleRun.totalProfitLoss)}  ` +
+      `efficiency ${formatEfficiency(window.efficiency)}`
+    );
+  });
+
+  return [
+    `Walk-forward windows (${results.windows.length})`,
+    ...windows,
+    "",
+    `Out-of-sample final capital  ${formatCurrency(results.finalCapital)}`,
+    `Out-of-sample annual return  ${results.annualizedReturn.toFixed(2)}%`,
+    `Walk-forward efficiency      ${formatEfficiency(results.efficiency)}`,
+  ].join("\n");
+};
+
+export const formatMonteCarlo = (
+  results: MonteCarloResults,
+  config: MonteCarloConfig
+): string => {
+  const finals = [...results.finalCapitals].sort((a, b) => a - b);
+  const drawdowns = [...results.maxDrawdowns].sort((a, b) => a - b);
+  const loss = config.lossThresholdPercent;
+  const rows: [string, string][] = [
+    [
+      `P(lose ${loss}% by the end)`,
+      `${(results.probabilityOfLoss * 100).toFixed(1)}%`,
+    ],
+    [
+      `P(down ${loss}% at any point)`,
+      `${(results.probabilityOfTouchingLoss * 100).toFixed(1)}%`,
+    ],
+    ...[5, 50, 95].map((p): [string, string] => [
+      `Final capital p${p}`,
+      formatCurrency(percentile(finals, p)),
+    ]),
+    ...[50, 95].map((p): [string, string] => [
+      `Max drawdown p${p}`,
+      `${percentile(drawdowns, p).toFixed(2)}%`,
+    ]),
+  ];
+  const width = Math.max(...rows.map(([label]) => label.length));
+  return [
+    `Monte Carlo: ${finals.length} paths, ${config.method}, seed ${config.seed}`,
+    ...rows.map(([label, value]) => `${label.padEnd(width)}  ${value}`),
+  ].join("\n");
+};
+
+// Scenarios side by side, one row per metric
+export const formatScenarios = (runs: ScenarioRun[]): string => {
+  const rows = [
+    ["", ...runs.map((run) => run.label)],
+    ...OPTIMIZATION_METRICS.map(({ key, label }) => [
+      label,
+      ...runs.map((run) => formatMetricValue(key, run.summary[key])),
+    ]),
+    [
+      "Success Rate",
+      ...runs.map((run) => `${(run.results.successRate * 100).toFixed(1)}%`),
+    ],
+    ["Total Fees", ...runs.map((run) => formatCurrency(run.results.totalFees))],
+  ];
+  const widths = rows[0].map((_, i) =>
+    Math.max(...rows.map((row) => row[i].length))
+  );
+  return rows
+    .map((row) =>
+      row
+        .map((cell, i) =>
+          i === 0 ? cell.padEnd(widths[i]) : cell.padStart(widths[i])
+        )
+        .join("  ")
+    )
+    .join("\n");
+};
+
+// Issue counts, then every issue in bar order
+export const formatDataQuality = (
+  report: DataQualityReport,
+  barCount: number
+): string => {
+  const rows: [string, string][] = [
+    ["Bars", `${barCount}`],
+    ["Bars with issues", `${report.affectedBars}`],
+    ["Missing weekdays", `${report.missingDays}`],
+    ...(Object.keys(DATA_ISSUE_LABELS) as DataIssueKind[]).map(
+      (kind): [string, string] => [
+        DATA_ISSUE_LABELS[kind],
+        `${report.counts[kind]}`,
+      ]
+    ),
+  ];
+  const labelWidth = Math.max(...rows.map(([label]) => label.length));
+  const lines = rows.map(
+    ([label, value]) => `${label.padEnd(labelWidth)}  ${value}`
+  );
+  if (report.issues.length > 0) {
+    lines.push(
+      "",
+      ...report.issues.map(
+        (issue) =>
+          `${`${issue.date} (bar ${issue.index + 1})`.padEnd(24)}${
+            DATA_ISSUE_LABELS[issue.kind]
+          }: ${issue.detail}`
+      )
+    );
+  }
+  return lines.join("\n");
+};
@@ -0,0 +1,145 @@
+import React, { useMemo, useState } from "react";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { NativeSelect } from "@/components/ui/native-select";
+import { ImportedBarsPreview } from "@/components/ImportedBarsPreview";
+import { GoldPriceDataType } from "@/lib/utils";
+import {
+  CSV_DATE_FORMATS,
+  CSV_FIELDS,
+  CsvColumnMapping,
+  CsvDateFormat,
+  CsvImportResult,
+  CsvTable,
+  guessColumnMapping,
+  guessDateFormat,
+  importOhlcCsv,
+  parseCsv,
+} from "@/lib/csvImport";
+
+type LoadedFile = {
+  name: string;
+  table: CsvTable;
+};
+
+type CsvImportPanelProps = {
+  onUse: (name: string, prices: GoldPriceDataType[]) => void;
+};
+
+// Reads an OHLC CSV (silver, platinum, a broker's XAU/USD export...) with
+// a column mapping and date format, and previews the bars before use
+export const CsvImportPanel: React.FC<CsvImportPanelProps> = ({ onUse }) => {
+  const [file, setFile] = useState<LoadedFile | null>(null);
+  const [mapping, setMapping] = useState<CsvColumnMapping>(
+    guessColumnMapping([])
+  );
+  const [dateFormat, setDateFormat] = useState<CsvDateFormat>("YYYY-MM-DD");
+
+  const load = async (picked: File) => {
+    const table = parseCsv(await picked.text());
+    if (table.headers.length === 0) {
+      alert(`${picked.name} is empty`);
+      return;
+    }
+    const guessed = guessColumnMapping(table.headers);
+    const dateColumn = table.headers.indexOf(guessed.date);
+    setFile({ name: picked.name, table });
+    setMapping(guessed);
+    if (dateColumn !== -1) {
+      setDateFormat(guessDateFormat(table.rows.map((row) => row[dateColumn])));
+    }
+  };
+
+  const imported = useMemo((): CsvImportResult | string | null => {
+    if (!file) return null;
+    try {
+      return importOhlcCsv(file.table, mapping, dateFormat);
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }, [file, mapping, dateFormat]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Import OHLC CSV</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <input
+          type="file"
+          accept=".csv,.txt,text/csv"
+          onChange={(e) => {
+            const picked = e.target.files?.[0];
+            if (picked) load(picked);
+          }}
+        />
+
+        {file && (
+          <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-4">
+            {CSV_FIELDS.map(({ key, label }) => (
+              <div key={key} className="space-y-2">
+                <Label htmlFor={`csv-${key}`}>{label}</Label>
+                <NativeSelect
+                  id={`csv-${key}`}
+                  value={mapping[key]}
+                  onChange={(e) =>
+                    setMapping({ ...mapping, [key]: e.target.value })
+                  }
+                >
+                  <option value="">(none)</option>
+                  {file.table.headers.map((header) => (
+                    <option key={header} value={header}>
+                      {header}
+                    </option>
+                  ))}
+                </NativeSelect>
+              </div>
+            ))}
+            <div className="space-y-2">
+              <Label htmlFor="csvDateFormat">Date Format</Label>
+              <NativeSelect
+                id="csvDateFormat"
+                value={dateFormat}
+                onChange={(e) => setDateFormat(e.target.value as CsvDateFormat)}
+              >
+                {Object.entries(CSV_DATE_FORMATS).map(([key, label]) => (
+                  <option key={key} value={key}>
+                    {label}
+                  </option>
+                ))}
+              </NativeSelect>
+            </div>
+          </div>
+        )}
+
+        {typeof imported === "string" && (
+          <div className="text-sm text-red-600">{imported}</div>
+        )}
+
+        {file && imported && typeof imported !== "string" && (
+          <>
+            <div className="text-sm text-gray-600">
+              {imported.bars.length} of {file.table.rows.length} rows read
+              {imported.bars.length > 0 &&
+                `, ${imported.bars[0].date} – ${
+                  imported.bars[imported.bars.length - 1].date
+                }`}
+            </div>
+            <ImportedBarsPreview
+              bars={imported.bars}
+              errors={imported.errors}
+            />
+
+            <Button
+              disabled={imported.bars.length < 2}
+              onClick={() => onUse(file.name, imported.bars)}
+            >
+              Use {imported.bars.length} Imported Bars as Price Data
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
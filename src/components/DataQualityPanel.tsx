@@ -0,0 +1,89 @@
+import React from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  DATA_FIXES,
+  DATA_ISSUE_LABELS,
+  DataFix,
+  DataIssueKind,
+  DataQualityConfig,
+  DataQualityReport,
+} from "@/lib/dataQuality";
+
+const SHOWN_ISSUES = 20;
+
+type DataQualityPanelProps = {
+  report: DataQualityReport;
+  config: DataQualityConfig;
+  onConfigChange: (config: DataQualityConfig) => void;
+  onFix: (fix: DataFix) => void;
+};
+
+// The data-health report of the loaded bars, with ways to repair them
+export const DataQualityPanel: React.FC<DataQualityPanelProps> = ({
+  report,
+  config,
+  onConfigChange,
+  onFix,
+}) => (
+  <div className="space-y-4 p-4 bg-gray-50 rounded">
+    <div className="flex flex-wrap items-end gap-4">
+      <div className="space-y-2">
+        <Label htmlFor="jumpStdDevs">Jump Threshold (std devs)</Label>
+        <Input
+          id="jumpStdDevs"
+          type="number"
+          min={0}
+          step={0.5}
+          value={config.jumpStdDevs}
+          onChange={(e) =>
+            onConfigChange({
+              ...config,
+              jumpStdDevs: parseFloat(e.target.value),
+            })
+          }
+        />
+      </div>
+      {(Object.keys(DATA_FIXES) as DataFix[]).map((fix) => (
+        <Button
+          key={fix}
+          variant="outline"
+          disabled={report.issues.length === 0}
+          onClick={() => onFix(fix)}
+        >
+          {DATA_FIXES[fix]}
+        </Button>
+      ))}
+    </div>
+
+    <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-4">
+      {(Object.keys(DATA_ISSUE_LABELS) as DataIssueKind[]).map((kind) => (
+        <div key={kind}>
+          <div className="text-sm text-gray-600">{DATA_ISSUE_LABELS[kind]}</div>
+          <div
+            className={`text-xl font-bold ${
+              report.counts[kind] > 0 ? "text-red-600" : ""
+            }`}
+          >
+            {report.counts[kind]}
+          </div>
+        </div>
+      ))}
+    </div>
+
+    {report.issues.length > 0 && (
+      <ul className="text-sm list-disc pl-5">
+        {report.issues.slice(0, SHOWN_ISSUES).map((issue) => (
+          <li key={`${issue.kind}-${issue.index}`}>
+            <span className="font-medium">{issue.date}</span> (bar{" "}
+            {issue.index + 1}): {issue.detail}
+          </li>
+        ))}
+        {report.issues.length > SHOWN_ISSUES && (
+          <li>and {report.issues.length - SHOWN_ISSUES} more issues</li>
+        )}
+      </ul>
+    )}
+  </div>
+);
@@ -0,0 +1,119 @@
+import React from "react";
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { GoldPriceDataType } from "@/lib/utils";
+
+const PREVIEW_ROWS = 5;
+const SHOWN_ERRORS = 10;
+
+type ImportedBarsPreviewProps = {
+  bars: GoldPriceDataType[];
+  errors: string[];
+};
+
+// The rejected rows, the first bars and a close chart of an imported file
+export const ImportedBarsPreview: React.FC<ImportedBarsPreviewProps> = ({
+  bars,
+  errors,
+}) => {
+  const hasAggregates = bars.some(
+    (bar) => bar.vwap !== undefined || bar.trades !== undefined
+  );
+
+  return (
+    <>
+      {errors.length > 0 && (
+        <ul className="text-sm text-red-600 list-disc pl-5">
+          {errors.slice(0, SHOWN_ERRORS).map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+          {errors.length > SHOWN_ERRORS && (
+            <li>and {errors.length - SHOWN_ERRORS} more rejected rows</li>
+          )}
+        </ul>
+      )}
+
+      {bars.length > 0 && (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="bg-gray-100">
+                  <th className="p-2 text-left">Date</th>
+                  <th className="p-2 text-right">Open</th>
+                  <th className="p-2 text-right">High</th>
+                  <th className="p-2 text-right">Low</th>
+                  <th className="p-2 text-right">Close</th>
+                  <th className="p-2 text-right">Volume</th>
+                  {hasAggregates && (
+                    <>
+                      <th className="p-2 text-right">VWAP</th>
+                      <th className="p-2 text-right">Trades</th>
+                    </>
+                  )}
+                </tr>
+              </thead>
+              <tbody>
+                {bars.slice(0, PREVIEW_ROWS).map((bar) => (
+                  <tr key={bar.date} className="border-b">
+                    <td className="p-2">{bar.date}</td>
+                    <td className="p-2 text-right">{bar.openingPrice}</td>
+                    <td className="p-2 text-right">{bar.highestPrice}</td>
+                    <td className="p-2 text-right">{bar.lowestPrice}</td>
+                    <td className="p-2 text-right">{bar.currentPrice}</td>
+                    <td className="p-2 text-right">{bar.volume ?? "-"}</td>
+                    {hasAggregates && (
+                      <>
+                        <td className="p-2 text-right">{bar.vwap ?? "-"}</td>
+                        <td className="p-2 text-right">{bar.trades ?? "-"}</td>
+                      </>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={bars}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  dataKey="date"
+                  angle={-45}
+                  textAnchor="end"
+                  height={80}
+                />
+                <YAxis domain={["auto", "auto"]} />
+                <Tooltip />
+                <Line
+                  type="monotone"
+                  dataKey="currentPrice"
+                  name="close"
+                  stroke="#6b7280"
+                  dot={false}
+                />
+                {hasAggregates && (
+                  <Line
+                    type="monotone"
+                    dataKey="vwap"
+                    name="VWAP"
+                    stroke="#2563eb"
+                    dot={false}
+                  />
+                )}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </>
+      )}
+    </>
+  );
+};
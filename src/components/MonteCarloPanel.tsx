@@ -0,0 +1,242 @@
+import React, { useState } from "react";
+import {
+  Area,
+  Bar,
+  BarChart,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { NativeSelect } from "@/components/ui/native-select";
+import { GoldPriceDataType } from "@/lib/utils";
+import {
+  DEFAULT_MONTE_CARLO_CONFIG,
+  MONTE_CARLO_METHODS,
+  MonteCarloConfig,
+  MonteCarloMethod,
+  MonteCarloResults,
+  percentile,
+  runMonteCarlo,
+  SimulationParams,
+  SimulationResults,
+} from "@/lib/engine";
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(value);
+};
+
+const NUMBER_FIELDS: {
+  key: Exclude<keyof MonteCarloConfig, "method">;
+  label: string;
+}[] = [
+  { key: "paths", label: "Paths" },
+  { key: "blockSize", label: "Block Size (bars)" },
+  { key: "seed", label: "Seed" },
+  { key: "lossThresholdPercent", label: "Loss Threshold (% of capital)" },
+];
+
+type MonteCarloPanelProps = {
+  prices: GoldPriceDataType[];
+  params: SimulationParams;
+  results: SimulationResults;
+};
+
+// Resampled equity paths of the last simulation: percentile fan, max
+// drawdown distribution and the probability of losing the threshold
+export const MonteCarloPanel: React.FC<MonteCarloPanelProps> = ({
+  prices,
+  params,
+  results,
+}) => {
+  const [config, setConfig] = useState<MonteCarloConfig>(
+    DEFAULT_MONTE_CARLO_CONFIG
+  );
+  const [monteCarlo, setMonteCarlo] = useState<MonteCarloResults | null>(null);
+
+  const runPaths = () => {
+    try {
+      setMonteCarlo(
+        runMonteCarlo(prices, params, results.tradeHistory, config)
+      );
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const fanData = monteCarlo?.fan.map((point) => ({
+    ...point,
+    outer: [point.p5, point.p95],
+    inner: [point.p25, point.p75],
+  }));
+  const sortedDrawdowns = monteCarlo
+    ? [...monteCarlo.maxDrawdowns].sort((a, b) => a - b)
+    : [];
+  const sortedFinals = monteCarlo
+    ? [...monteCarlo.finalCapitals].sort((a, b) => a - b)
+    : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Monte Carlo</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4 mb-4">
+          <div className="space-y-2">
+            <Label htmlFor="monteCarloMethod">Method</Label>
+            <NativeSelect
+              id="monteCarloMethod"
+              value={config.method}
+              onChange={(e) =>
+                setConfig({
+                  ...config,
+                  method: e.target.value as MonteCarloMethod,
+                })
+              }
+            >
+              {Object.entries(MONTE_CARLO_METHODS).map(([key, label]) => (
+                <option key={key} value={key}>
+                  {label}
+                </option>
+              ))}
+            </NativeSelect>
+          </div>
+          {NUMBER_FIELDS.filter(
+            ({ key }) =>
+              key !== "blockSize" || config.method === "blockBootstrap"
+          ).map(({ key, label }) => (
+            <div key={key} className="space-y-2">
+              <Label htmlFor={`monteCarlo-${key}`}>{label}</Label>
+              <Input
+                id={`monteCarlo-${key}`}
+                type="number"
+                min={0}
+                value={config[key]}
+                onChange={(e) =>
+                  setConfig({ ...config, [key]: parseFloat(e.target.value) })
+                }
+              />
+            </div>
+          ))}
+        </div>
+        <Button onClick={runPaths} className="mb-6">
+          Run Monte Carlo
+        </Button>
+
+        {monteCarlo && fanData && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+              <div className="p-4 bg-gray-50 rounded">
+                <div className="text-sm text-gray-600">
+                  P(lose {config.lossThresholdPercent}% by the end)
+                </div>
+                <div className="text-2xl font-bold">
+                  {(monteCarlo.probabilityOfLoss * 100).toFixed(1)}%
+                </div>
+              </div>
+              <div className="p-4 bg-gray-50 rounded">
+                <div className="text-sm text-gray-600">
+                  P(down {config.lossThresholdPercent}% at any point)
+                </div>
+                <div className="text-2xl font-bold">
+                  {(monteCarlo.probabilityOfTouchingLoss * 100).toFixed(1)}%
+                </div>
+              </div>
+              <div className="p-4 bg-gray-50 rounded">
+                <div className="text-sm text-gray-600">
+                  Final Capital (5th / median / 95th)
+                </div>
+                <div className="text-lg font-bold">
+                  {formatCurrency(percentile(sortedFinals, 5))} /{" "}
+                  {formatCurrency(percentile(sortedFinals, 50))} /{" "}
+                  {formatCurrency(percentile(sortedFinals, 95))}
+                </div>
+              </div>
+              <div className="p-4 bg-gray-50 rounded">
+                <div className="text-sm text-gray-600">
+                  Max Drawdown (median / 95th)
+                </div>
+                <div className="text-2xl font-bold">
+                  {percentile(sortedDrawdowns, 50).toFixed(1)}% /{" "}
+                  {percentile(sortedDrawdowns, 95).toFixed(1)}%
+                </div>
+              </div>
+            </div>
+
+            <h3 className="text-lg font-medium mb-2">
+              Equity Percentiles (5-95, 25-75, median) by{" "}
+              {config.method === "blockBootstrap" ? "bar" : "trade"}
+            </h3>
+            <div className="h-64 mb-6">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={fanData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="step" />
+                  <YAxis domain={["auto", "auto"]} />
+                  <Tooltip
+                    formatter={(value: number | number[]) =>
+                      Array.isArray(value)
+                        ? value.map((v) => formatCurrency(v)).join(" – ")
+                        : formatCurrency(value)
+                    }
+                  />
+                  <Area
+                    dataKey="outer"
+                    name="5th – 95th"
+                    stroke="none"
+                    fill="#bfdbfe"
+                  />
+                  <Area
+                    dataKey="inner"
+                    name="25th – 75th"
+                    stroke="none"
+                    fill="#60a5fa"
+                  />
+                  <Line
+                    dataKey="p50"
+                    name="median"
+                    stroke="#1e3a8a"
+                    dot={false}
+                  />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+
+            <h3 className="text-lg font-medium mb-2">
+              Max Drawdown Distribution
+            </h3>
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart
+                  data={monteCarlo.drawdownHistogram.map((bucket) => ({
+                    ...bucket,
+                    label: `${bucket.from}-${bucket.to}%`,
+                  }))}
+                >
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="label" />
+                  <YAxis allowDecimals={false} />
+                  <Tooltip />
+                  <Bar dataKey="count" name="paths" fill="#f97316" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
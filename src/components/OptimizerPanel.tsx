@@ -0,0 +1,382 @@
+import React, { useState } from "react";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { NativeSelect } from "@/components/ui/native-select";
+import { SweepHeatmap } from "@/components/SweepHeatmap";
+import { WalkForwardReport } from "@/components/WalkForwardReport";
+import { GoldPriceDataType } from "@/lib/utils";
+import {
+  compareScores,
+  countCombinations,
+  MAX_GRID_COMBINATIONS,
+  OPTIMIZATION_METRICS,
+  OPTIMIZATION_OBJECTIVES,
+  OptimizationMetric,
+  OptimizationObjective,
+  OptimizationRun,
+  runGridSearch,
+  runWalkForward,
+  SimulationParams,
+  SWEEP_PARAMS,
+  SweepParamKey,
+  SweepRange,
+  SweepRanges,
+  sweepRangeError,
+  WalkForwardResults,
+} from "@/lib/engine";
+
+type RangeInput = SweepRange & { enabled: boolean };
+
+const DEFAULT_RANGES: Record<SweepParamKey, RangeInput> = {
+  leverage: { enabled: true, min: 50, max: 200, step: 50 },
+  stopLossDollar: { enabled: true, min: 100, max: 400, step: 100 },
+  minPriceMovement: { enabled: false, min: 0.1, max: 0.5, step: 0.1 },
+  positionSizePercent: { enabled: false, min: 1, max: 5, step: 1 },
+  dailyFeePercent: { enabled: false, min: 0.05, max: 0.2, step: 0.05 },
+};
+
+type SortColumn = OptimizationMetric | SweepParamKey;
+
+const formatMetric = (key: OptimizationMetric, value: number) => {
+  if (!Number.isFinite(value)) return value > 0 ? "∞" : "-∞";
+  if (key === "finalCapital" || key === "totalProfitLoss") {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: "USD",
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    }).format(value);
+  }
+  if (key === "totalTrades") return `${value}`;
+  // The drawdown is a fraction, the annualized return already a percentage
+  if (key === "maxDrawdown") return `${(value * 100).toFixed(2)}%`;
+  if (key === "annualizedReturn") {
+    return `${value.toFixed(2)}%`;
+  }
+  return value.toFixed(2);
+};
+
+type OptimizerPanelProps = {
+  prices: GoldPriceDataType[];
+  // The form's params; every field that is not swept keeps its value
+  params: SimulationParams;
+  onLoadParams: (params: SimulationParams) => void;
+};
+
+// Grid search over ranges of the main numeric inputs with a sortable
+// leaderboard of the combinations
+export const OptimizerPanel: React.FC<OptimizerPanelProps> = ({
+  prices,
+  params,
+  onLoadParams,
+}) => {
+  const [ranges, setRanges] = useState(DEFAULT_RANGES);
+  const [objective, setObjective] =
+    useState<OptimizationObjective>("finalCapital");
+  const [runs, setRuns] = useState<OptimizationRun[] | null>(null);
+  // Combinations of the last sweep left out for failing validation
+  const [skipped, setSkipped] = useState(0);
+  const [sort, setSort] = useState<{
+    column: SortColumn;
+    descending: boolean;
+  } | null>(null);
+  const [inSampleBars, setInSampleBars] = useState(120);
+  const [outOfSampleBars, setOutOfSampleBars] = useState(40);
+  const [walkForward, setWalkForward] = useState<WalkForwardResults | null>(
+    null
+  );
+
+  const sweepRanges: SweepRanges = {};
+  for (const { key } of SWEEP_PARAMS) {
+    const { enabled, min, max, step } = ranges[key];
+    if (enabled) sweepRanges[key] = { min, max, step };
+  }
+  const rangeErrors = SWEEP_PARAMS.flatMap(({ key, label }) => {
+    const range = sweepRanges[key];
+    const error = range && sweepRangeError(range);
+    return error ? [`${label}: ${error}`] : [];
+  });
+  const combinations =
+    rangeErrors.length > 0 ? 0 : countCombinations(sweepRanges);
+
+  const updateRange = (key: SweepParamKey, update: Partial<RangeInput>) => {
+    setRanges({ ...ranges, [key]: { ...ranges[key], ...update } });
+  };
+
+  const runOptimization = () => {
+    if (rangeErrors.length > 0) {
+      alert(rangeErrors.join("\n"));
+      return;
+    }
+    if (combinations > MAX_GRID_COMBINATIONS) {
+      alert(
+        `${combinations} combinations is more than the limit of ${MAX_GRID_COMBINATIONS}.`
+      );
+      return;
+    }
+
+    const search = runGridSearch(prices, params, sweepRanges, objective);
+    setRuns(search.runs);
+    setSkipped(search.skipped);
+    setSort(null);
+  };
+
+  // Re-optimizes the same ranges on each rolling in-sample window
+  const runWalkForwardAnalysis = () => {
+    try {
+      setWalkForward(
+        runWalkForward(prices, params, {
+          inSampleBars,
+          outOfSampleBars,
+          ranges: sweepRanges,
+          objective,
+        })
+      );
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const toggleSort = (column: SortColumn) => {
+    setSort(
+      sort?.column === column
+        ? { column, descending: !sort.descending }
+        : { column, descending: true }
+    );
+  };
+
+  const valueOf = (run: OptimizationRun, column: SortColumn) =>
+    column in run.values
+      ? run.values[column as SweepParamKey] ?? 0
+      : run[column as OptimizationMetric];
+
+  // Ranked by the objective until a column header is clicked
+  const rankedRuns = runs?.map((run, index) => ({ run, rank: index + 1 }));
+  if (rankedRuns && sort) {
+    rankedRuns.sort(
+      (a, b) =>
+        compareScores(
+          valueOf(a.run, sort.column),
+          valueOf(b.run, sort.column)
+        ) * (sort.descending ? -1 : 1)
+    );
+  }
+  // Params of the last sweep; the range inputs may have changed since
+  const sweptKeys = SWEEP_PARAMS.filter(
+    ({ key }) => runs !== null && runs.length > 0 && key in runs[0].values
+  );
+
+  const sortIndicator = (column: SortColumn) =>
+    sort?.column === column ? (sort.descending ? " ▼" : " ▲") : "";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Optimize</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto mb-4">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-gray-100">
+                <th className="p-2 text-left">Sweep</th>
+                <th className="p-2 text-left">Parameter</th>
+                <th className="p-2 text-left">Min</th>
+                <th className="p-2 text-left">Max</th>
+                <th className="p-2 text-left">Step</th>
+              </tr>
+            </thead>
+            <tbody>
+              {SWEEP_PARAMS.map(({ key, label }) => (
+                <tr key={key} className="border-b">
+                  <td className="p-2">
+                    <input
+                      type="checkbox"
+                      id={`sweep-${key}`}
+                      checked={ranges[key].enabled}
+                      onChange={(e) =>
+                        updateRange(key, { enabled: e.target.checked })
+                      }
+                    />
+                  </td>
+                  <td className="p-2">
+                    <label htmlFor={`sweep-${key}`}>{label}</label>
+                    {!ranges[key].enabled && (
+                      <span className="text-gray-500">
+                        {" "}
+                        (fixed at {params[key]})
+                      </span>
+                    )}
+                  </td>
+                  {(["min", "max", "step"] as const).map((bound) => (
+                    <td key={bound} className="p-2">
+                      <Input
+                        type="number"
+                        aria-label={`${label} ${bound}`}
+                        disabled={!ranges[key].enabled}
+                        value={ranges[key][bound]}
+                        onChange={(e) =>
+                          updateRange(key, {
+                            [bound]: parseFloat(e.target.value),
+                          })
+                        }
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-4 mb-4">
+          <div className="space-y-2">
+            <Label htmlFor="objective">Rank By</Label>
+            <NativeSelect
+              id="objective"
+              value={objective}
+              onChange={(e) =>
+                setObjective(e.target.value as OptimizationObjective)
+              }
+            >
+              {Object.entries(OPTIMIZATION_OBJECTIVES).map(([key, label]) => (
+                <option key={key} value={key}>
+                  {label}
+                </option>
+              ))}
+            </NativeSelect>
+          </div>
+          <div className="text-sm text-gray-500 pb-2">
+            {combinations} combinations
+          </div>
+          <Button onClick={runOptimization}>Run Optimization</Button>
+          <div className="space-y-2">
+            <Label htmlFor="inSampleBars">In-Sample Bars</Label>
+            <Input
+              id="inSampleBars"
+              type="number"
+              min={2}
+              className="w-28"
+              value={inSampleBars}
+              onChange={(e) => setInSampleBars(parseInt(e.target.value))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="outOfSampleBars">Out-of-Sample Bars</Label>
+            <Input
+              id="outOfSampleBars"
+              type="number"
+              min={1}
+              className="w-28"
+              value={outOfSampleBars}
+              onChange={(e) => setOutOfSampleBars(parseInt(e.target.value))}
+            />
+          </div>
+          <Button variant="outline" onClick={runWalkForwardAnalysis}>
+            Run Walk-Forward
+          </Button>
+        </div>
+
+        {rangeErrors.length > 0 && (
+          <ul className="text-sm text-red-600 mb-4">
+            {rangeErrors.map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        )}
+
+        {runs && skipped > 0 && (
+          <div className="text-sm text-gray-600 mb-4">
+            {skipped} combinations skipped: their params are invalid
+          </div>
+        )}
+
+        {walkForward && (
+          <div className="mb-6">
+            <h3 className="text-lg font-medium mb-2">
+              Walk-Forward ({walkForward.windows.length} windows)
+            </h3>
+            <WalkForwardReport
+              results={walkForward}
+              formatValue={formatMetric}
+            />
+          </div>
+        )}
+
+        {runs && sweptKeys.length >= 2 && (
+          <div className="mb-6">
+            <h3 className="text-lg font-medium mb-2">Heatmap</h3>
+            <SweepHeatmap
+              runs={runs}
+              sweptKeys={sweptKeys.map(({ key }) => key)}
+              formatValue={formatMetric}
+            />
+          </div>
+        )}
+
+        {rankedRuns && (
+          <div className="overflow-x-auto max-h-96 overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="bg-gray-100">
+                  <th className="p-2 text-left">#</th>
+                  {sweptKeys.map(({ key, label }) => (
+                    <th
+                      key={key}
+                      className="p-2 text-right cursor-pointer"
+                      onClick={() => toggleSort(key)}
+                    >
+                      {label}
+                      {sortIndicator(key)}
+                    </th>
+                  ))}
+                  {OPTIMIZATION_METRICS.map(({ key, label }) => (
+                    <th
+                      key={key}
+                      className={`p-2 text-right cursor-pointer ${
+                        key === objective ? "underline" : ""
+                      }`}
+                      onClick={() => toggleSort(key)}
+                    >
+                      {label}
+                      {sortIndicator(key)}
+                    </th>
+                  ))}
+                  <th className="p-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {rankedRuns.map(({ run, rank }) => (
+                  <tr key={rank} className="border-b">
+                    <td className="p-2">{rank}</td>
+                    {sweptKeys.map(({ key }) => (
+                      <td key={key} className="p-2 text-right">
+                        {run.values[key]}
+                      </td>
+                    ))}
+                    {OPTIMIZATION_METRICS.map(({ key }) => (
+                      <td key={key} className="p-2 text-right">
+                        {formatMetric(key, run[key])}
+                      </td>
+                    ))}
+                    <td className="p-2 text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => onLoadParams(run.params)}
+                      >
+                        Load these params
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
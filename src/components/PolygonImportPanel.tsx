@@ -0,0 +1,133 @@
+import React, { useMemo, useState } from "react";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ImportedBarsPreview } from "@/components/ImportedBarsPreview";
+import { GoldPriceDataType } from "@/lib/utils";
+import {
+  importPolygonAggregates,
+  PolygonAggregateFile,
+  PolygonImportResult,
+} from "@/lib/polygonImport";
+
+type PolygonImportPanelProps = {
+  onUse: (name: string, prices: GoldPriceDataType[]) => void;
+};
+
+// Reads saved Polygon aggregates responses, dropped or picked, one file
+// per page, keeping each bar's volume, VWAP and trade count
+export const PolygonImportPanel: React.FC<PolygonImportPanelProps> = ({
+  onUse,
+}) => {
+  const [files, setFiles] = useState<PolygonAggregateFile[]>([]);
+  const [dragging, setDragging] = useState(false);
+
+  // Adds the pages to those already read, replacing files of the same name
+  const add = async (picked: File[]) => {
+    const read = await Promise.all(
+      picked.map(async (file) => ({
+        name: file.name,
+        text: await file.text(),
+      }))
+    );
+    setFiles((current) => [
+      ...current.filter(
+        (file) => !read.some((other) => other.name === file.name)
+      ),
+      ...read,
+    ]);
+  };
+
+  const imported = useMemo((): PolygonImportResult | string | null => {
+    if (files.length === 0) return null;
+    try {
+      return importPolygonAggregates(files);
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }, [files]);
+
+  const name =
+    imported && typeof imported !== "string" && imported.ticker
+      ? imported.ticker
+      : files.map((file) => file.name).join(", ");
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Import Polygon Aggregates</CardTitle>
+        <Button
+          variant="outline"
+          disabled={files.length === 0}
+          onClick={() => setFiles([])}
+        >
+          Clear Files
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div
+          className={`border-2 border-dashed rounded p-6 text-center text-sm ${
+            dragging ? "border-blue-500 bg-blue-50" : "border-gray-300"
+          }`}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragging(true);
+          }}
+          onDragLeave={() => setDragging(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setDragging(false);
+            add([...e.dataTransfer.files]);
+          }}
+        >
+          <div className="mb-2 text-gray-600">
+            Drop aggregates JSON files here, one per page of a multi-page
+            response, or pick them
+          </div>
+          <input
+            type="file"
+            accept="application/json,.json"
+            multiple
+            onChange={(e) => {
+              if (e.target.files) add([...e.target.files]);
+              e.target.value = "";
+            }}
+          />
+        </div>
+
+        {files.length > 0 && (
+          <div className="text-sm text-gray-600">
+            Files: {files.map((file) => file.name).join(", ")}
+          </div>
+        )}
+
+        {typeof imported === "string" && (
+          <div className="text-sm text-red-600">{imported}</div>
+        )}
+
+        {imported && typeof imported !== "string" && (
+          <>
+            <div className="text-sm text-gray-600">
+              {imported.bars.length} daily bars read
+              {imported.ticker && ` for ${imported.ticker}`}
+              {imported.bars.length > 0 &&
+                `, ${imported.bars[0].date} – ${
+                  imported.bars[imported.bars.length - 1].date
+                }`}
+            </div>
+            <ImportedBarsPreview
+              bars={imported.bars}
+              errors={imported.errors}
+            />
+
+            <Button
+              disabled={imported.bars.length < 2}
+              onClick={() => onUse(name, imported.bars)}
+            >
+              Use {imported.bars.length} Imported Bars as Price Data
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
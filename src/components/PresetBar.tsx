@@ -0,0 +1,186 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { NativeSelect } from "@/components/ui/native-select";
+import { SimulationParams, validateParams } from "@/lib/engine";
+import {
+  createPreset,
+  deletePreset,
+  exportPresets,
+  loadPresets,
+  ParamPreset,
+  parsePresetFile,
+  savePreset,
+} from "@/lib/storage";
+
+const byName = (a: ParamPreset, b: ParamPreset) => a.name.localeCompare(b.name);
+
+const alertError = (error: unknown) =>
+  alert(error instanceof Error ? error.message : String(error));
+
+type PresetBarProps = {
+  params: SimulationParams;
+  onLoad: (params: SimulationParams) => void;
+};
+
+// Named param presets kept in the browser, with JSON import and export
+export const PresetBar: React.FC<PresetBarProps> = ({ params, onLoad }) => {
+  const [presets, setPresets] = useState<ParamPreset[]>([]);
+  const [selectedId, setSelectedId] = useState("");
+  const [name, setName] = useState("");
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    loadPresets().then(setPresets).catch(alertError);
+  }, []);
+
+  const selected = presets.find((preset) => preset.id === selectedId);
+
+  // Only valid params are kept, so every exported file imports again
+  const store = async (preset: ParamPreset) => {
+    if (!validateParams(preset.params)) {
+      alert("Invalid parameters!");
+      return;
+    }
+    try {
+      await savePreset(preset);
+      setPresets((current) =>
+        [...current.filter((other) => other.id !== preset.id), preset].sort(
+          byName
+        )
+      );
+      setSelectedId(preset.id);
+    } catch (error) {
+      alertError(error);
+    }
+  };
+
+  const select = (id: string) => {
+    const preset = presets.find((other) => other.id === id);
+    setSelectedId(id);
+    if (!preset) return;
+    setName(preset.name);
+    onLoad(preset.params);
+  };
+
+  const remove = async () => {
+    if (!selected) return;
+    try {
+      await deletePreset(selected.id);
+      setPresets(presets.filter((preset) => preset.id !== selected.id));
+      setSelectedId("");
+    } catch (error) {
+      alertError(error);
+    }
+  };
+
+  const download = () => {
+    const blob = new Blob([exportPresets(presets)], {
+      type: "application/json",
+    });
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(blob);
+    link.download = "gold-sim-presets.json";
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      const imported = parsePresetFile(await file.text());
+      for (const preset of imported) await savePreset(preset);
+      setPresets((current) => [...current, ...imported].sort(byName));
+    } catch (error) {
+      alertError(error);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-end gap-2 mb-6">
+      <div className="space-y-2">
+        <Label htmlFor="preset">Preset</Label>
+        <NativeSelect
+          id="preset"
+          value={selectedId}
+          onChange={(e) => select(e.target.value)}
+        >
+          <option value="">
+            {presets.length > 0 ? "Choose a preset" : "No saved presets"}
+          </option>
+          {presets.map((preset) => (
+            <option key={preset.id} value={preset.id}>
+              {preset.name}
+            </option>
+          ))}
+        </NativeSelect>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="presetName">Name</Label>
+        <Input
+          id="presetName"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+      </div>
+      <Button
+        disabled={name.trim() === ""}
+        onClick={() => store(createPreset(name.trim(), params))}
+      >
+        Save New
+      </Button>
+      <Button
+        variant="outline"
+        disabled={!selected}
+        onClick={() =>
+          selected &&
+          store({
+            ...selected,
+            params,
+            updatedAt: new Date().toISOString(),
+          })
+        }
+      >
+        Update Params
+      </Button>
+      <Button
+        variant="outline"
+        disabled={!selected || name.trim() === ""}
+        onClick={() =>
+          selected &&
+          store({
+            ...selected,
+            name: name.trim(),
+            updatedAt: new Date().toISOString(),
+          })
+        }
+      >
+        Rename
+      </Button>
+      <Button variant="outline" disabled={!selected} onClick={remove}>
+        Delete
+      </Button>
+      <Button
+        variant="outline"
+        disabled={presets.length === 0}
+        onClick={download}
+      >
+        Export
+      </Button>
+      <Button variant="outline" onClick={() => fileInput.current?.click()}>
+        Import
+      </Button>
+      <input
+        ref={fileInput}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) importFile(file);
+          e.target.value = "";
+        }}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,171 @@
+import React from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { NativeSelect } from "@/components/ui/native-select";
+import {
+  DEFAULT_SYNTHETIC_SERIES_CONFIG,
+  isSyntheticGeneratorId,
+  resolveStrategyParams,
+  SYNTHETIC_GENERATORS,
+  SyntheticSeriesConfig,
+} from "@/lib/engine";
+import { DateRange, HISTORICAL_SOURCE, PriceSource } from "@/lib/priceData";
+import { DataQualityReport } from "@/lib/dataQuality";
+
+const SERIES_FIELDS: {
+  key: "bars" | "startPrice" | "seed";
+  label: string;
+}[] = [
+  { key: "bars", label: "Bars" },
+  { key: "startPrice", label: "Start Price ($)" },
+  { key: "seed", label: "Seed" },
+];
+
+type PriceDataPanelProps = {
+  source: PriceSource;
+  onChange: (source: PriceSource) => void;
+  dateRange: DateRange;
+  onDateRangeChange: (dateRange: DateRange) => void;
+  // Bars left to run on, null when the settings leave too few
+  barCount: number | null;
+  // Health of those bars, null when there are none
+  quality: DataQualityReport | null;
+  onShowQuality: () => void;
+};
+
+// Picks the price series the simulator, optimizer and Monte Carlo run on
+export const PriceDataPanel: React.FC<PriceDataPanelProps> = ({
+  source,
+  onChange,
+  dateRange,
+  onDateRangeChange,
+  barCount,
+  quality,
+  onShowQuality,
+}) => {
+  const series = source.kind === "synthetic" ? source.series : null;
+  const setSeries = (next: SyntheticSeriesConfig) =>
+    onChange({ kind: "synthetic", series: next });
+  const generator = series ? SYNTHETIC_GENERATORS[series.generator] : null;
+  const generatorParams =
+    series && generator
+      ? resolveStrategyParams(generator, series.generatorParams)
+      : {};
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="priceData">Price Data</Label>
+          <NativeSelect
+            id="priceData"
+            value={series?.generator ?? source.kind}
+            onChange={(e) => {
+              if (isSyntheticGeneratorId(e.target.value)) {
+                setSeries({
+                  ...(series ?? DEFAULT_SYNTHETIC_SERIES_CONFIG),
+                  generator: e.target.value,
+                  generatorParams: {},
+                });
+              } else if (e.target.value === "historical") {
+                onChange(HISTORICAL_SOURCE);
+              }
+            }}
+          >
+            <option value="historical">Historical gold prices</option>
+            {source.kind === "uploaded" && (
+              <option value="uploaded">Uploaded: {source.name}</option>
+            )}
+            {Object.values(SYNTHETIC_GENERATORS).map((option) => (
+              <option key={option.id} value={option.id}>
+                Synthetic: {option.name}
+              </option>
+            ))}
+          </NativeSelect>
+          {generator && (
+            <div className="text-xs text-gray-500">{generator.description}</div>
+          )}
+        </div>
+        {(["start", "end"] as const).map((side) => (
+          <div key={side} className="space-y-2">
+            <Label htmlFor={`dateRange-${side}`}>
+              {side === "start" ? "From" : "To"} (blank = all)
+            </Label>
+            <Input
+              id={`dateRange-${side}`}
+              type="date"
+              value={dateRange[side]}
+              onChange={(e) =>
+                onDateRangeChange({ ...dateRange, [side]: e.target.value })
+              }
+            />
+          </div>
+        ))}
+      </div>
+
+      {series && generator && (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {SERIES_FIELDS.map(({ key, label }) => (
+            <div key={key} className="space-y-2">
+              <Label htmlFor={`series-${key}`}>{label}</Label>
+              <Input
+                id={`series-${key}`}
+                type="number"
+                min={0}
+                value={series[key]}
+                onChange={(e) =>
+                  setSeries({ ...series, [key]: parseFloat(e.target.value) })
+                }
+              />
+            </div>
+          ))}
+          {generator.fields.map((field) => (
+            <div key={field.key} className="space-y-2">
+              <Label htmlFor={`series-${field.key}`}>{field.label}</Label>
+              <Input
+                id={`series-${field.key}`}
+                type="number"
+                min={field.min}
+                step={field.step}
+                value={generatorParams[field.key]}
+                onChange={(e) =>
+                  setSeries({
+                    ...series,
+                    generatorParams: {
+                      ...series.generatorParams,
+                      [field.key]: parseFloat(e.target.value),
+                    },
+                  })
+                }
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="text-sm text-gray-500">
+        {barCount === null
+          ? "Invalid synthetic series settings, or fewer than 2 bars in the date range"
+          : series
+          ? `${barCount} generated price points (seed ${series.seed})`
+          : source.kind === "uploaded"
+          ? `${barCount} price points from ${source.name}`
+          : `${barCount} price points loaded from historical gold price data`}
+        {quality && (
+          <Button
+            variant="link"
+            className={`h-auto p-0 ml-2 ${
+              quality.issues.length > 0 ? "text-red-600" : "text-gray-500"
+            }`}
+            onClick={onShowQuality}
+          >
+            {quality.issues.length === 0
+              ? "(no data issues)"
+              : `(${quality.affectedBars} bars with issues, ${quality.missingDays} missing weekdays)`}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import React from "react";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RiskPolicy } from "@/lib/engine";
+
+type NumericRiskField = Exclude<keyof RiskPolicy, "closeOnDailyLoss">;
+
+const FIELDS: { key: NumericRiskField; label: string; step?: number }[] = [
+  { key: "minCapital", label: "Min Capital to Trade ($)" },
+  { key: "maxLeverage", label: "Max Account Leverage (x equity)" },
+  {
+    key: "maxPositionSizePercent",
+    label: "Max Position Size (% of capital)",
+    step: 0.1,
+  },
+  { key: "maxDailyLoss", label: "Max Daily Loss ($, 0 = no limit)" },
+  { key: "maxOpenPositions", label: "Max Open Positions (0 = no limit)" },
+  {
+    key: "maxExposureMultiple",
+    label: "Max Leveraged Exposure (x equity, 0 = no limit)",
+  },
+  {
+    key: "maxCapitalCommittedPercent",
+    label: "Max Capital Committed (% of equity, 0 = no limit)",
+  },
+  {
+    key: "maintenanceMarginPercent",
+    label: "Maintenance Margin (%, 0 = no liquidation)",
+  },
+];
+
+type RiskSettingsPanelProps = {
+  risk: RiskPolicy;
+  onChange: (risk: RiskPolicy) => void;
+};
+
+// Every limit the engine checks before opening a position, in one place
+export const RiskSettingsPanel: React.FC<RiskSettingsPanelProps> = ({
+  risk,
+  onChange,
+}) => {
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="text-lg">Risk Settings</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 mb-4">
+          {FIELDS.map((field) => (
+            <div key={field.key} className="space-y-2">
+              <Label htmlFor={field.key}>{field.label}</Label>
+              <Input
+                id={field.key}
+                type="number"
+                min={0}
+                step={field.step}
+                value={risk[field.key]}
+                onChange={(e) =>
+                  onChange({
+                    ...risk,
+                    [field.key]: parseFloat(e.target.value),
+                  })
+                }
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            id="closeOnDailyLoss"
+            checked={risk.closeOnDailyLoss}
+            onChange={(e) =>
+              onChange({ ...risk, closeOnDailyLoss: e.target.checked })
+            }
+          />
+          <label htmlFor="closeOnDailyLoss">
+            Close all positions when the daily loss limit is hit
+          </label>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
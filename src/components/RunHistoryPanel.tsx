@@ -0,0 +1,310 @@
+import React, { useState } from "react";
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { SimulationResults } from "@/lib/engine";
+import { SavedRun } from "@/lib/runHistory";
+
+const LINE_COLORS = [
+  "#2563eb",
+  "#dc2626",
+  "#16a34a",
+  "#9333ea",
+  "#ea580c",
+  "#0891b2",
+];
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(value);
+};
+
+type DiffMetric = {
+  label: string;
+  value: (results: SimulationResults) => number;
+  format: (value: number) => string;
+  // Which way a change is an improvement, null when neither is
+  higherIsBetter: boolean | null;
+};
+
+const DIFF_METRICS: DiffMetric[] = [
+  {
+    label: "Total P&L",
+    value: (results) => results.totalProfitLoss,
+    format: formatCurrency,
+    higherIsBetter: true,
+  },
+  {
+    label: "Final Capital",
+    value: (results) => results.finalCapital,
+    format: formatCurrency,
+    higherIsBetter: true,
+  },
+  {
+    label: "Max Drawdown",
+    value: (results) => results.maxDrawdown * 100,
+    format: (value) => `${value.toFixed(2)}%`,
+    higherIsBetter: false,
+  },
+  {
+    label: "Success Rate",
+    value: (results) => results.successRate * 100,
+    format: (value) => `${value.toFixed(1)}%`,
+    higherIsBetter: true,
+  },
+  {
+    label: "Total Trades",
+    value: (results) => results.totalTrades,
+    format: (value) => `${value}`,
+    higherIsBetter: null,
+  },
+  {
+    label: "Total Fees",
+    value: (results) => results.totalFees,
+    format: formatCurrency,
+    higherIsBetter: false,
+  },
+  {
+    label: "Skipped Trades",
+    value: (results) => results.skippedTrades,
+    format: (value) => `${value}`,
+    higherIsBetter: false,
+  },
+];
+
+// Change from the baseline run, colored by whether it is an improvement
+const renderDelta = (metric: DiffMetric, delta: number) => {
+  if (delta === 0) return null;
+  const improved =
+    metric.higherIsBetter === null ? null : delta > 0 === metric.higherIsBetter;
+  const color =
+    improved === null
+      ? "text-gray-500"
+      : improved
+      ? "text-green-600"
+      : "text-red-600";
+  return (
+    <div className={`text-xs ${color}`}>
+      {delta > 0 ? "+" : "-"}
+      {metric.format(Math.abs(delta))}
+    </div>
+  );
+};
+
+type RunHistoryPanelProps = {
+  // Oldest first
+  runs: SavedRun[];
+  onChange: (runs: SavedRun[]) => void;
+};
+
+// Every simulation run with its params, and an overlay and diff of the ones
+// ticked for comparison against the first of them
+export const RunHistoryPanel: React.FC<RunHistoryPanelProps> = ({
+  runs,
+  onChange,
+}) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  // Keep the order the runs were ticked in, the first one is the baseline
+  const selected = selectedIds
+    .map((id) => runs.find((run) => run.id === id))
+    .filter((run): run is SavedRun => run !== undefined);
+
+  const toggle = (id: string, checked: boolean) =>
+    setSelectedIds(
+      checked
+        ? [...selectedIds, id]
+        : selectedIds.filter((other) => other !== id)
+    );
+
+  // One row per date with each selected run's equity, for the overlay
+  const byDate = new Map<string, Record<string, string | number>>();
+  for (const run of selected) {
+    for (const point of run.results.equityCurve) {
+      const row = byDate.get(point.date) ?? { date: point.date };
+      row[run.id] = point.equity;
+      byDate.set(point.date, row);
+    }
+  }
+  // ISO dates sort as strings
+  const chartData = [...byDate.values()].sort((a, b) =>
+    a.date < b.date ? -1 : a.date > b.date ? 1 : 0
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Run History</CardTitle>
+        <Button
+          variant="outline"
+          disabled={runs.length === 0}
+          onClick={() => {
+            setSelectedIds([]);
+            onChange([]);
+          }}
+        >
+          Clear History
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto mb-6">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-gray-100">
+                <th className="p-2 text-left">Compare</th>
+                <th className="p-2 text-left">Label</th>
+                <th className="p-2 text-left">Time</th>
+                <th className="p-2 text-left">Price Data</th>
+                <th className="p-2 text-right">Leverage</th>
+                <th className="p-2 text-right">Stop Loss</th>
+                <th className="p-2 text-right">Threshold</th>
+                <th className="p-2 text-right">Total P&L</th>
+                <th className="p-2 text-right"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...runs].reverse().map((run) => (
+                <tr key={run.id} className="border-b">
+                  <td className="p-2">
+                    <input
+                      type="checkbox"
+                      aria-label={`Compare ${run.label}`}
+                      checked={selectedIds.includes(run.id)}
+                      onChange={(e) => toggle(run.id, e.target.checked)}
+                    />
+                  </td>
+                  <td className="p-2">
+                    <Input
+                      value={run.label}
+                      onChange={(e) =>
+                        onChange(
+                          runs.map((other) =>
+                            other.id === run.id
+                              ? { ...other, label: e.target.value }
+                              : other
+                          )
+                        )
+                      }
+                    />
+                  </td>
+                  <td className="p-2">
+                    {new Date(run.createdAt).toLocaleString()}
+                  </td>
+                  <td className="p-2">{run.dataLabel}</td>
+                  <td className="p-2 text-right">{run.params.leverage}x</td>
+                  <td className="p-2 text-right">
+                    ${run.params.stopLossDollar}
+                  </td>
+                  <td className="p-2 text-right">
+                    {run.params.minPriceMovement}%
+                  </td>
+                  <td
+                    className={`p-2 text-right ${
+                      run.results.totalProfitLoss >= 0
+                        ? "text-green-600"
+                        : "text-red-600"
+                    }`}
+                  >
+                    {formatCurrency(run.results.totalProfitLoss)}
+                  </td>
+                  <td className="p-2 text-right">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() =>
+                        onChange(runs.filter((other) => other.id !== run.id))
+                      }
+                    >
+                      Remove
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {selected.length > 0 && (
+          <>
+            <div className="h-64 mb-6">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis
+                    dataKey="date"
+                    angle={-45}
+                    textAnchor="end"
+                    height={80}
+                  />
+                  <YAxis domain={["auto", "auto"]} />
+                  <Tooltip />
+                  <Legend verticalAlign="top" />
+                  {selected.map((run, i) => (
+                    <Line
+                      key={run.id}
+                      type="monotone"
+                      dataKey={run.id}
+                      name={run.label}
+                      stroke={LINE_COLORS[i % LINE_COLORS.length]}
+                      dot={false}
+                      connectNulls
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="bg-gray-100">
+                    <th className="p-2 text-left">Metric</th>
+                    {selected.map((run, i) => (
+                      <th key={run.id} className="p-2 text-right">
+                        {run.label}
+                        {i === 0 && selected.length > 1 && " (baseline)"}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {DIFF_METRICS.map((metric) => {
+                    const baseline = metric.value(selected[0].results);
+                    return (
+                      <tr key={metric.label} className="border-b">
+                        <td className="p-2">{metric.label}</td>
+                        {selected.map((run, i) => {
+                          const value = metric.value(run.results);
+                          return (
+                            <td key={run.id} className="p-2 text-right">
+                              {metric.format(value)}
+                              {i > 0 && renderDelta(metric, value - baseline)}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
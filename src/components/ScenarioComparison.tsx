@@ -0,0 +1,193 @@
+import React, { useState } from "react";
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { PRICE_SCENARIOS } from "@/lib/scenarios";
+import {
+  OPTIMIZATION_METRICS,
+  OptimizationMetric,
+  PriceScenarioId,
+  runScenarios,
+  ScenarioRun,
+  SimulationParams,
+  validateParams,
+} from "@/lib/engine";
+
+const SCENARIO_COLORS: Record<PriceScenarioId, string> = {
+  base: "#2563eb",
+  highConfidence: "#16a34a",
+  lowConfidence: "#dc2626",
+};
+
+const formatMetric = (key: OptimizationMetric, value: number) => {
+  if (!Number.isFinite(value)) return value > 0 ? "∞" : "-∞";
+  if (key === "finalCapital" || key === "totalProfitLoss") {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: "USD",
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    }).format(value);
+  }
+  if (key === "totalTrades") return `${value}`;
+  // The drawdown is a fraction, the annualized return already a percentage
+  if (key === "maxDrawdown") return `${(value * 100).toFixed(2)}%`;
+  if (key === "annualizedReturn") {
+    return `${value.toFixed(2)}%`;
+  }
+  return value.toFixed(2);
+};
+
+type ScenarioComparisonProps = {
+  params: SimulationParams;
+};
+
+// The same params against the base prices and the high- and low-confidence
+// bands, to show how much the result depends on price uncertainty
+export const ScenarioComparison: React.FC<ScenarioComparisonProps> = ({
+  params,
+}) => {
+  const [selected, setSelected] = useState<PriceScenarioId[]>(
+    PRICE_SCENARIOS.map((scenario) => scenario.id)
+  );
+  const [runs, setRuns] = useState<ScenarioRun[] | null>(null);
+
+  const toggle = (id: PriceScenarioId, checked: boolean) =>
+    setSelected(
+      checked ? [...selected, id] : selected.filter((other) => other !== id)
+    );
+
+  const compare = () => {
+    if (!validateParams(params)) {
+      alert("Invalid parameters!");
+      return;
+    }
+    setRuns(
+      runScenarios(
+        PRICE_SCENARIOS.filter((scenario) => selected.includes(scenario.id)),
+        params
+      )
+    );
+  };
+
+  // One row per date with each scenario's equity, for the overlay
+  const byDate = new Map<string, Record<string, string | number>>();
+  for (const run of runs ?? []) {
+    for (const point of run.results.equityCurve) {
+      const row = byDate.get(point.date) ?? { date: point.date };
+      row[run.id] = point.equity;
+      byDate.set(point.date, row);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Price Scenarios</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-wrap items-center gap-4 mb-6">
+          {PRICE_SCENARIOS.map((scenario) => (
+            <div key={scenario.id} className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                id={`scenario-${scenario.id}`}
+                checked={selected.includes(scenario.id)}
+                onChange={(e) => toggle(scenario.id, e.target.checked)}
+              />
+              <label htmlFor={`scenario-${scenario.id}`}>
+                {scenario.label}
+              </label>
+            </div>
+          ))}
+          <Button onClick={compare} disabled={selected.length === 0}>
+            Compare Scenarios
+          </Button>
+        </div>
+
+        {runs && (
+          <>
+            <div className="h-64 mb-6">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={[...byDate.values()]}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis
+                    dataKey="date"
+                    angle={-45}
+                    textAnchor="end"
+                    height={80}
+                  />
+                  <YAxis domain={["auto", "auto"]} />
+                  <Tooltip />
+                  <Legend verticalAlign="top" />
+                  {runs.map((run) => (
+                    <Line
+                      key={run.id}
+                      type="monotone"
+                      dataKey={run.id}
+                      name={run.label}
+                      stroke={SCENARIO_COLORS[run.id]}
+                      dot={false}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="bg-gray-100">
+                    <th className="p-2 text-left">Metric</th>
+                    {runs.map((run) => (
+                      <th key={run.id} className="p-2 text-right">
+                        {run.label}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {OPTIMIZATION_METRICS.map(({ key, label }) => (
+                    <tr key={key} className="border-b">
+                      <td className="p-2">{label}</td>
+                      {runs.map((run) => (
+                        <td key={run.id} className="p-2 text-right">
+                          {formatMetric(key, run.summary[key])}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                  <tr className="border-b">
+                    <td className="p-2">Success Rate</td>
+                    {runs.map((run) => (
+                      <td key={run.id} className="p-2 text-right">
+                        {(run.results.successRate * 100).toFixed(1)}%
+                      </td>
+                    ))}
+                  </tr>
+                  <tr className="border-b">
+                    <td className="p-2">Total Fees</td>
+                    {runs.map((run) => (
+                      <td key={run.id} className="p-2 text-right">
+                        {formatMetric("totalProfitLoss", run.results.totalFees)}
+                      </td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
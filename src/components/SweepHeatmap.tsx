@@ -0,0 +1,203 @@
+import React, { useState } from "react";
+import {
+  CartesianGrid,
+  ResponsiveContainer,
+  Scatter,
+  ScatterChart,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Label } from "@/components/ui/label";
+import { NativeSelect } from "@/components/ui/native-select";
+import {
+  buildHeatmap,
+  HeatmapCell,
+  OPTIMIZATION_METRICS,
+  OptimizationMetric,
+  OptimizationRun,
+  SWEEP_PARAMS,
+  SweepParamKey,
+} from "@/lib/engine";
+
+// Metrics where a smaller value is the better result
+const LOWER_IS_BETTER: OptimizationMetric[] = ["maxDrawdown"];
+
+// Red for the worst cell through yellow to green for the best
+const cellColor = (value: number, min: number, max: number, lower: boolean) => {
+  const clamped = Math.min(Math.max(value, min), max);
+  const position = max > min ? (clamped - min) / (max - min) : 1;
+  const hue = (lower ? 1 - position : position) * 120;
+  return `hsl(${hue}, 70%, 50%)`;
+};
+
+type HeatmapPoint = HeatmapCell & {
+  xIndex: number;
+  yIndex: number;
+  color: string;
+};
+
+type CellShapeProps = {
+  cx?: number;
+  cy?: number;
+  payload?: HeatmapPoint;
+  xAxis?: { width: number };
+  yAxis?: { height: number };
+};
+
+type SweepHeatmapProps = {
+  // Ranked best first, as runGridSearch returns them
+  runs: OptimizationRun[];
+  sweptKeys: SweepParamKey[];
+  formatValue: (metric: OptimizationMetric, value: number) => string;
+};
+
+// Final capital (or another metric) over two of the swept params, to show
+// whether a good configuration sits on a plateau or an isolated spike
+export const SweepHeatmap: React.FC<SweepHeatmapProps> = ({
+  runs,
+  sweptKeys,
+  formatValue,
+}) => {
+  const [xKey, setXKey] = useState<SweepParamKey>(sweptKeys[0]);
+  const [yKey, setYKey] = useState<SweepParamKey>(sweptKeys[1]);
+  const [metric, setMetric] = useState<OptimizationMetric>("finalCapital");
+
+  // The swept params change when another sweep is run
+  const x = sweptKeys.includes(xKey) ? xKey : sweptKeys[0];
+  const y = sweptKeys.includes(yKey) && yKey !== x ? yKey : sweptKeys[1];
+  const labelOf = (key: SweepParamKey) =>
+    SWEEP_PARAMS.find((param) => param.key === key)?.label ?? key;
+
+  const { xValues, yValues, cells } = buildHeatmap(runs, x, y, metric);
+  const finite = cells
+    .map((cell) => cell.value)
+    .filter((value) => Number.isFinite(value));
+  const min = Math.min(...finite);
+  const max = Math.max(...finite);
+  const lower = LOWER_IS_BETTER.includes(metric);
+  const points: HeatmapPoint[] = cells.map((cell) => ({
+    ...cell,
+    xIndex: xValues.indexOf(cell.x),
+    yIndex: yValues.indexOf(cell.y),
+    color: cellColor(cell.value, min, max, lower),
+  }));
+
+  const renderCell = ({ cx, cy, payload, xAxis, yAxis }: CellShapeProps) => {
+    if (cx === undefined || cy === undefined || !payload) return <g />;
+    const width = (xAxis?.width ?? 0) / xValues.length;
+    const height = (yAxis?.height ?? 0) / yValues.length;
+    return (
+      <rect
+        x={cx - width / 2}
+        y={cy - height / 2}
+        width={width}
+        height={height}
+        fill={payload.color}
+        stroke="#fff"
+      />
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-4">
+        {(
+          [
+            ["heatmapX", "X Axis", x, setXKey],
+            ["heatmapY", "Y Axis", y, setYKey],
+          ] as const
+        ).map(([id, label, value, setValue]) => (
+          <div key={id} className="space-y-2">
+            <Label htmlFor={id}>{label}</Label>
+            <NativeSelect
+              id={id}
+              value={value}
+              onChange={(e) => setValue(e.target.value as SweepParamKey)}
+            >
+              {sweptKeys.map((key) => (
+                <option key={key} value={key}>
+                  {labelOf(key)}
+                </option>
+              ))}
+            </NativeSelect>
+          </div>
+        ))}
+        <div className="space-y-2">
+          <Label htmlFor="heatmapMetric">Color By</Label>
+          <NativeSelect
+            id="heatmapMetric"
+            value={metric}
+            onChange={(e) => setMetric(e.target.value as OptimizationMetric)}
+          >
+            {OPTIMIZATION_METRICS.map(({ key, label }) => (
+              <option key={key} value={key}>
+                {label}
+              </option>
+            ))}
+          </NativeSelect>
+        </div>
+      </div>
+
+      {x === y ? (
+        <p className="text-sm text-gray-600">
+          Pick two different params for the axes.
+        </p>
+      ) : (
+        <div className="h-80">
+          <ResponsiveContainer width="100%" height="100%">
+            <ScatterChart margin={{ top: 10, right: 10, bottom: 30, left: 30 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                type="number"
+                dataKey="xIndex"
+                name={labelOf(x)}
+                domain={[-0.5, xValues.length - 0.5]}
+                ticks={xValues.map((_, i) => i)}
+                tickFormatter={(i: number) => `${xValues[i]}`}
+                label={{ value: labelOf(x), position: "bottom" }}
+              />
+              <YAxis
+                type="number"
+                dataKey="yIndex"
+                name={labelOf(y)}
+                domain={[-0.5, yValues.length - 0.5]}
+                ticks={yValues.map((_, i) => i)}
+                tickFormatter={(i: number) => `${yValues[i]}`}
+                label={{ value: labelOf(y), angle: -90, position: "left" }}
+              />
+              <Tooltip
+                content={({ payload }) => {
+                  const point = payload?.[0]?.payload as
+                    | HeatmapPoint
+                    | undefined;
+                  if (!point) return null;
+                  return (
+                    <div className="bg-white border rounded p-2 text-sm shadow">
+                      <div>
+                        {labelOf(x)}: {point.x}
+                      </div>
+                      <div>
+                        {labelOf(y)}: {point.y}
+                      </div>
+                      <div className="font-medium">
+                        {formatValue(metric, point.value)}
+                      </div>
+                    </div>
+                  );
+                }}
+              />
+              <Scatter data={points} shape={renderCell} />
+            </ScatterChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+      {sweptKeys.length > 2 && (
+        <p className="text-xs text-gray-500">
+          Each cell shows the best run for its pair of values, ranked by the
+          objective, across the other swept params.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,146 @@
+import React from "react";
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  OptimizationMetric,
+  SWEEP_PARAMS,
+  WalkForwardResults,
+} from "@/lib/engine";
+
+const formatEfficiency = (efficiency: number | null) =>
+  efficiency === null ? "n/a" : `${(efficiency * 100).toFixed(0)}%`;
+
+type WalkForwardReportProps = {
+  results: WalkForwardResults;
+  formatValue: (metric: OptimizationMetric, value: number) => string;
+};
+
+// Stitched out-of-sample equity and the params each window picked
+export const WalkForwardReport: React.FC<WalkForwardReportProps> = ({
+  results,
+  formatValue,
+}) => {
+  const sweptKeys = SWEEP_PARAMS.filter(
+    ({ key }) =>
+      results.windows.length > 0 && key in results.windows[0].best.values
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="p-4 bg-gray-50 rounded">
+          <div className="text-sm text-gray-600">Walk-Forward Efficiency</div>
+          <div className="text-2xl font-bold">
+            {formatEfficiency(results.efficiency)}
+          </div>
+          <div className="text-xs text-gray-500">
+            Out-of-sample over mean in-sample annual return
+          </div>
+        </div>
+        <div className="p-4 bg-gray-50 rounded">
+          <div className="text-sm text-gray-600">Out-of-Sample Capital</div>
+          <div className="text-2xl font-bold">
+            {formatValue("finalCapital", results.finalCapital)}
+          </div>
+        </div>
+        <div className="p-4 bg-gray-50 rounded">
+          <div className="text-sm text-gray-600">
+            Out-of-Sample Annual Return
+          </div>
+          <div className="text-2xl font-bold">
+            {formatValue("annualizedReturn", results.annualizedReturn)}
+          </div>
+        </div>
+      </div>
+
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={results.equityCurve}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="date" angle={-45} textAnchor="end" height={80} />
+            <YAxis domain={["auto", "auto"]} />
+            <Tooltip />
+            <Line
+              type="monotone"
+              dataKey="equity"
+              name="out-of-sample equity"
+              stroke="#2563eb"
+              dot={false}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="bg-gray-100">
+              <th className="p-2 text-left">In-Sample</th>
+              <th className="p-2 text-left">Out-of-Sample</th>
+              {sweptKeys.map(({ key, label }) => (
+                <th key={key} className="p-2 text-right">
+                  {label}
+                </th>
+              ))}
+              <th className="p-2 text-right">In-Sample Return</th>
+              <th className="p-2 text-right">Out-of-Sample Return</th>
+              <th className="p-2 text-right">Out-of-Sample P&L</th>
+              <th className="p-2 text-right">Efficiency</th>
+            </tr>
+          </thead>
+          <tbody>
+            {results.windows.map((window) => (
+              <tr key={window.outOfSample.start} className="border-b">
+                <td className="p-2">
+                  {window.inSample.start} – {window.inSample.end}
+                </td>
+                <td className="p-2">
+                  {window.outOfSample.start} – {window.outOfSample.end}
+                </td>
+                {sweptKeys.map(({ key }) => (
+                  <td key={key} className="p-2 text-right">
+                    {window.best.values[key]}
+                  </td>
+                ))}
+                <td className="p-2 text-right">
+                  {formatValue(
+                    "annualizedReturn",
+                    window.best.annualizedReturn
+                  )}
+                </td>
+                <td className="p-2 text-right">
+                  {formatValue(
+                    "annualizedReturn",
+                    window.outOfSampleRun.annualizedReturn
+                  )}
+                </td>
+                <td
+                  className={`p-2 text-right ${
+                    window.outOfSampleRun.totalProfitLoss >= 0
+                      ? "text-green-600"
+                      : "text-red-600"
+                  }`}
+                >
+                  {formatValue(
+                    "totalProfitLoss",
+                    window.outOfSampleRun.totalProfitLoss
+                  )}
+                </td>
+                <td className="p-2 text-right">
+                  {formatEfficiency(window.efficiency)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import {
+  CsvDateFormat,
+  guessColumnMapping,
+  importOhlcCsv,
+  parseCsv,
+  parseCsvTime,
+} from "@/lib/csvImport";
+
+const importText = (text: string, format: CsvDateFormat) => {
+  const table = parseCsv(text);
+  return importOhlcCsv(table, guessColumnMapping(table.headers), format);
+};
+
+describe("parseCsvTime", () => {
+  it("reads calendar dates as midnight UTC", () => {
+    expect(parseCsvTime("2024-03-05", "YYYY-MM-DD")).toBe(Date.UTC(2024, 2, 5));
+    expect(parseCsvTime("03/05/2024", "MM/DD/YYYY")).toBe(Date.UTC(2024, 2, 5));
+    expect(parseCsvTime("05.03.2024", "DD.MM.YYYY")).toBe(Date.UTC(2024, 2, 5));
+  });
+
+  it("adds a time of day after the date", () => {
+    expect(parseCsvTime("2024-03-05T14:30", "YYYY-MM-DD")).toBe(
+      Date.UTC(2024, 2, 5, 14, 30)
+    );
+    expect(parseCsvTime("03/05/2024 2:30 PM", "MM/DD/YYYY")).toBe(
+      Date.UTC(2024, 2, 5, 14, 30)
+    );
+  });
+
+  it("rejects dates and times that do not exist", () => {
+    expect(parseCsvTime("2024-02-30", "YYYY-MM-DD")).toBeNull();
+    expect(parseCsvTime("2024-03-05 25:00", "YYYY-MM-DD")).toBeNull();
+    // Milliseconds read as seconds land past year 9999
+    expect(parseCsvTime("1709596800000", "unixSeconds")).toBeNull();
+  });
+});
+
+describe("importOhlcCsv", () => {
+  it("reads decimal commas in semicolon-separated files", () => {
+    const { bars, errors } = importText(
+      "Date;Open;High;Low;Close\n2024-03-05;2.040,10;2.050,5;2.030,00;2.045,25\n",
+      "YYYY-MM-DD"
+    );
+    expect(errors).toEqual([]);
+    expect(bars[0]).toMatchObject({
+      openingPrice: 2040.1,
+      highestPrice: 2050.5,
+      lowestPrice: 2030,
+      currentPrice: 2045.25,
+    });
+  });
+
+  it("reports a dot that could group thousands or be decimal", () => {
+    const { bars, errors } = importText(
+      "Date;Close\n2024-03-05;2.045\n2024-03-06;2045.5\n",
+      "YYYY-MM-DD"
+    );
+    expect(bars.map((bar) => bar.currentPrice)).toEqual([2045.5]);
+    expect(errors).toEqual(["line 2: prices must be positive numbers"]);
+  });
+
+  it("reads thousands separators in comma-separated files", () => {
+    const { bars, errors } = importText(
+      'Date,Close\n2024-03-05,"2,045.25"\n',
+      "YYYY-MM-DD"
+    );
+    expect(errors).toEqual([]);
+    expect(bars[0].currentPrice).toBe(2045.25);
+  });
+
+  it("reports a comma that is neither", () => {
+    const { bars, errors } = importText(
+      'Date,Close\n2024-03-05,"2045,25"\n',
+      "YYYY-MM-DD"
+    );
+    expect(bars).toEqual([]);
+    expect(errors).toEqual(["line 2: prices must be positive numbers"]);
+  });
+
+  it("sorts the bars oldest first and marks calendar dates date-only", () => {
+    const { bars } = importText(
+      "Date,Close\n2024-03-06,2050\n2024-03-05,2045\n",
+      "YYYY-MM-DD"
+    );
+    expect(bars.map((bar) => bar.date)).toEqual(["2024-03-05", "2024-03-06"]);
+    expect(bars.every((bar) => bar.dateOnly)).toBe(true);
+  });
+
+  it("rejects calendar dates with a time of day", () => {
+    const { bars, errors } = importText(
+      "Date,Close\n2024-03-05 00:00,2045\n2024-03-06 14:30,2050\n",
+      "YYYY-MM-DD"
+    );
+    expect(bars.map((bar) => bar.date)).toEqual(["2024-03-05"]);
+    expect(errors).toEqual([
+      'line 3: "2024-03-06 14:30" has a time of day, only daily bars can be imported',
+    ]);
+  });
+
+  it("keeps the time of day of Unix times without marking them date-only", () => {
+    // 05:00 UTC, midnight in New York
+    const time = Date.UTC(2024, 2, 5, 5);
+    const { bars, errors } = importText(
+      `Date,Close\n${time / 1000},2045\n`,
+      "unixSeconds"
+    );
+    expect(errors).toEqual([]);
+    expect(bars[0].time).toBe(time);
+    expect(bars[0].dateOnly).toBeUndefined();
+  });
+
+  it("rejects a second Unix time on the same UTC date", () => {
+    const first = Date.UTC(2024, 3, 5, 5) / 1000;
+    const second = Date.UTC(2024, 3, 5, 9) / 1000;
+    const { bars, errors } = importText(
+      `Date,Close\n${second},2050\n${first},2045\n`,
+      "unixSeconds"
+    );
+    expect(bars.map((bar) => bar.currentPrice)).toEqual([2045]);
+    expect(errors).toEqual([
+      "line 2: 2024-04-05 already has a bar at an earlier time, only daily bars can be imported",
+    ]);
+  });
+
+  it("reports rows with prices outside their high and low", () => {
+    const { bars, errors } = importText(
+      "Date,Open,High,Low,Close\n2024-03-05,2040,2050,2030,2060\n",
+      "YYYY-MM-DD"
+    );
+    expect(bars).toEqual([]);
+    expect(errors).toEqual([
+      "line 2: open and close must lie within high and low",
+    ]);
+  });
+});
@@ -0,0 +1,334 @@
+import { GoldPriceDataType } from "@/lib/utils";
+import { DAY_MS, HOUR_MS, isoDateOfTime, timeOfIsoDate } from "@/lib/dates";
+
+export type CsvField = "date" | "open" | "high" | "low" | "close" | "volume";
+
+// Header of the column holding each field, "" when the file has none.
+// Date and close are required; a missing open, high or low takes the close.
+export type CsvColumnMapping = Record<CsvField, string>;
+
+export type CsvDateFormat =
+  | "YYYY-MM-DD"
+  | "MM/DD/YYYY"
+  | "DD/MM/YYYY"
+  | "DD.MM.YYYY"
+  | "unixSeconds"
+  | "unixMilliseconds";
+
+export type CsvTable = {
+  headers: string[];
+  rows: string[][];
+  // "," ";" or a tab; with the latter two a comma in a number is decimal
+  delimiter: string;
+};
+
+export type CsvImportResult = {
+  // Valid rows, oldest first
+  bars: GoldPriceDataType[];
+  // One message per rejected row, with its line number in the file
+  errors: string[];
+};
+
+export const CSV_FIELDS: { key: CsvField; label: string }[] = [
+  { key: "date", label: "Date" },
+  { key: "open", label: "Open" },
+  { key: "high", label: "High" },
+  { key: "low", label: "Low" },
+  { key: "close", label: "Close" },
+  { key: "volume", label: "Volume" },
+];
+
+export const CSV_DATE_FORMATS: Record<CsvDateFormat, string> = {
+  "YYYY-MM-DD": "YYYY-MM-DD (ISO)",
+  "MM/DD/YYYY": "MM/DD/YYYY",
+  "DD/MM/YYYY": "DD/MM/YYYY",
+  "DD.MM.YYYY": "DD.MM.YYYY",
+  unixSeconds: "Unix time (seconds)",
+  unixMilliseconds: "Unix time (milliseconds)",
+};
+
+// Header names each field is recognised by, lower case
+const HEADER_ALIASES: Record<CsvField, string[]> = {
+  date: ["date", "time", "timestamp", "datetime", "day", "t"],
+  open: ["open", "o", "open price", "opening price"],
+  high: ["high", "h", "high price", "highest price"],
+  low: ["low", "l", "low price", "lowest price"],
+  close: ["close", "c", "close price", "closing price", "price", "adj close"],
+  volume: ["volume", "vol", "v", "tick volume"],
+};
+
+// Splits CSV text into rows of cells. Handles quoted cells with embedded
+// delimiters, quotes and newlines; the delimiter is whichever of , ; and tab
+// appears most in the header line.
+export const parseCsv = (text: string): CsvTable => {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const delimiter = [",", ";", "\t"].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length
+      ? candidate
+      : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  const [headers = [], ...body] = rows.filter((cells) =>
+    cells.some((value) => value.trim() !== "")
+  );
+  return {
+    headers: headers.map((header) => header.trim()),
+    rows: body,
+    delimiter,
+  };
+};
+
+// Maps each field to the first header matching one of its usual names
+export const guessColumnMapping = (headers: string[]): CsvColumnMapping => {
+  const mapping = {} as CsvColumnMapping;
+  for (const { key } of CSV_FIELDS) {
+    mapping[key] =
+      headers.find((header) =>
+        HEADER_ALIASES[key].includes(header.toLowerCase())
+      ) ?? "";
+  }
+  return mapping;
+};
+
+// A time of day after a calendar date, read as UTC: 14:30, 14:30:05.250,
+// 2:30 PM, with an optional trailing Z or UTC
+const TIME_OF_DAY_PATTERN =
+  /^(\d{1,2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3})\d*)?)?\s*(am|pm)?\s*(?:z|utc)?$/i;
+
+const timeOfDay = (value: string): number | null => {
+  const match = value.trim().match(TIME_OF_DAY_PATTERN);
+  if (!match) return null;
+  const [hours, minutes, seconds = "0", fraction = "0"] = match.slice(1, 5);
+  const meridiem = match[5]?.toLowerCase();
+  let hour = Number(hours);
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (meridiem === "pm" ? 12 : 0);
+  }
+  if (hour > 23 || Number(minutes) > 59 || Number(seconds) > 59) return null;
+  return (
+    hour * HOUR_MS +
+    Number(minutes) * 60_000 +
+    Number(seconds) * 1000 +
+    Number(fraction.padEnd(3, "0"))
+  );
+};
+
+const isCalendarFormat = (format: CsvDateFormat) =>
+  format !== "unixSeconds" && format !== "unixMilliseconds";
+
+// When the bar starts, Unix milliseconds: the time itself for Unix times;
+// for calendar dates midnight UTC plus the time of day, if one follows the
+// date. null when the value does not match the format or is not a real
+// date and time.
+export const parseCsvTime = (
+  value: string,
+  format: CsvDateFormat
+): number | null => {
+  const trimmed = value.trim();
+
+  if (format === "unixSeconds" || format === "unixMilliseconds") {
+    const number = Number(trimmed);
+    if (trimmed === "" || !Number.isFinite(number)) return null;
+    const time = format === "unixSeconds" ? number * 1000 : number;
+    // Four-digit years only, which also tells seconds from milliseconds
+    const year = new Date(time).getUTCFullYear();
+    return year >= 1000 && year <= 9999 ? time : null;
+  }
+
+  const pattern = {
+    "YYYY-MM-DD": /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](.*))?$/,
+    "MM/DD/YYYY": /^(\d{1,2})\/(\d{1,2})\/(\d{4})(?: (.*))?$/,
+    "DD/MM/YYYY": /^(\d{1,2})\/(\d{1,2})\/(\d{4})(?: (.*))?$/,
+    "DD.MM.YYYY": /^(\d{1,2})\.(\d{1,2})\.(\d{4})(?: (.*))?$/,
+  }[format];
+  const match = trimmed.match(pattern);
+  if (!match) return null;
+  const [a, b, c] = match.slice(1, 4);
+  const [year, month, day] =
+    format === "YYYY-MM-DD"
+      ? [a, b, c]
+      : format === "MM/DD/YYYY"
+      ? [c, a, b]
+      : [c, b, a];
+  const time = timeOfIsoDate(
+    `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`
+  );
+  const ofDay = match[4] === undefined ? 0 : timeOfDay(match[4]);
+  return Number.isNaN(time) || ofDay === null ? null : time + ofDay;
+};
+
+// The format that reads the most sample values, earlier formats winning
+// ties, so a stray bad row does not throw the guess off
+export const guessDateFormat = (values: string[]): CsvDateFormat => {
+  const sample = values.filter((value) => value.trim() !== "").slice(0, 50);
+  const readable = (format: CsvDateFormat) =>
+    sample.filter((value) => parseCsvTime(value, format) !== null).length;
+  return (Object.keys(CSV_DATE_FORMATS) as CsvDateFormat[]).reduce(
+    (best, format) => (readable(format) > readable(best) ? format : best)
+  );
+};
+
+// In a comma-separated file a comma can only group thousands (2,040.10);
+// in a ; or tab separated one it is the decimal separator, with dots
+// grouping thousands (2.040,10), so there 2.040 could be either. Anything
+// else with a comma, and such a dot, is NaN, so the row is reported rather
+// than read as a different number.
+const parseCsvNumber = (value: string, delimiter: string) => {
+  const trimmed = value.trim();
+  if (trimmed === "") return NaN;
+  if (!trimmed.includes(",")) {
+    return delimiter !== "," && /^-?\d{1,3}(\.\d{3})+$/.test(trimmed)
+      ? NaN
+      : Number(trimmed);
+  }
+  if (delimiter === ",") {
+    return /^-?\d{1,3}(,\d{3})+(\.\d+)?$/.test(trimmed)
+      ? Number(trimmed.replace(/,/g, ""))
+      : NaN;
+  }
+  return /^-?(\d+|\d{1,3}(\.\d{3})+),\d+$/.test(trimmed)
+    ? Number(trimmed.replace(/\./g, "").replace(",", "."))
+    : NaN;
+};
+
+// Converts the mapped columns to bars sorted oldest first. Rows with an
+// unreadable date or price, non-positive prices, a high below the low, or
+// an open or close outside the high-low range are left out and reported.
+// Only daily bars are imported: a calendar date with a time of day other
+// than midnight is rejected, and so is a Unix time on the same UTC date as
+// an earlier, different time. Unix times otherwise keep their time of day,
+// since daily exports often stamp bars at the exchange's midnight rather
+// than at midnight UTC.
+export const importOhlcCsv = (
+  table: CsvTable,
+  mapping: CsvColumnMapping,
+  dateFormat: CsvDateFormat
+): CsvImportResult => {
+  if (!mapping.date || !mapping.close) {
+    throw new Error("map at least the date and close columns");
+  }
+  const columnOf = (field: CsvField) => {
+    if (!mapping[field]) return -1;
+    const index = table.headers.indexOf(mapping[field]);
+    if (index === -1) {
+      throw new Error(`there is no "${mapping[field]}" column`);
+    }
+    return index;
+  };
+  const columns = Object.fromEntries(
+    CSV_FIELDS.map(({ key }) => [key, columnOf(key)])
+  ) as Record<CsvField, number>;
+
+  const read: { line: number; bar: GoldPriceDataType }[] = [];
+  const errors: string[] = [];
+  table.rows.forEach((cells, i) => {
+    // The header is line 1
+    const line = i + 2;
+    const time = parseCsvTime(cells[columns.date] ?? "", dateFormat);
+    if (time === null) {
+      errors.push(`line ${line}: unreadable date "${cells[columns.date]}"`);
+      return;
+    }
+    if (isCalendarFormat(dateFormat) && time % DAY_MS !== 0) {
+      errors.push(
+        `line ${line}: "${
+          cells[columns.date]
+        }" has a time of day, only daily bars can be imported`
+      );
+      return;
+    }
+    const close = parseCsvNumber(cells[columns.close] ?? "", table.delimiter);
+    const priceOf = (field: "open" | "high" | "low") =>
+      columns[field] === -1
+        ? close
+        : parseCsvNumber(cells[columns[field]] ?? "", table.delimiter);
+    const open = priceOf("open");
+    const high = priceOf("high");
+    const low = priceOf("low");
+
+    if (![open, high, low, close].every((price) => price > 0)) {
+      errors.push(`line ${line}: prices must be positive numbers`);
+      return;
+    }
+    if (low > Math.min(open, close) || high < Math.max(open, close)) {
+      errors.push(`line ${line}: open and close must lie within high and low`);
+      return;
+    }
+
+    const bar: GoldPriceDataType = {
+      time,
+      date: isoDateOfTime(time),
+      ...(isCalendarFormat(dateFormat) && { dateOnly: true as const }),
+      openingPrice: open,
+      highestPrice: high,
+      lowestPrice: low,
+      currentPrice: close,
+    };
+    if (columns.volume !== -1) {
+      const volume = parseCsvNumber(
+        cells[columns.volume] ?? "",
+        table.delimiter
+      );
+      if (!(volume >= 0)) {
+        errors.push(`line ${line}: volume must be a non-negative number`);
+        return;
+      }
+      bar.volume = volume;
+    }
+    read.push({ line, bar });
+  });
+
+  // Exports often list the newest bar first
+  read.sort((a, b) => a.bar.time - b.bar.time);
+  // Rows at the very same time are left for the data health report
+  const timeOfDate = new Map<string, number>();
+  const bars: GoldPriceDataType[] = [];
+  for (const { line, bar } of read) {
+    const earlier = timeOfDate.get(bar.date);
+    if (earlier !== undefined && earlier !== bar.time) {
+      errors.push(
+        `line ${line}: ${bar.date} already has a bar at an earlier time, only daily bars can be imported`
+      );
+      continue;
+    }
+    timeOfDate.set(bar.date, bar.time);
+    bars.push(bar);
+  }
+  return { bars, errors };
+};
@@ -1,4 +1,8 @@
-import { GoldPriceDataType } from "@/lib/utils";
+import {
+  GoldPriceDataType,
+  RawGoldPriceData,
+  transformGoldPriceData,
+} from "@/lib/utils";
 
 type GoldPriceData = {
   date: string;
@@ -6,13050 +10,8706 @@ type GoldPriceData = {
 };
 export const lastTwoYearsGoldPriceData: GoldPriceData[] = [
   {
-    date: "2/24/2023",
+    date: "2023-02-24",
     price: 1810.67,
   },
   {
-    date: "2/26/2023",
+    date: "2023-02-26",
     price: 1811.8,
   },
   {
-    date: "2/27/2023",
+    date: "2023-02-27",
     price: 1817.08,
   },
   {
-    date: "2/28/2023",
+    date: "2023-02-28",
     price: 1825.49,
   },
   {
-    date: "3/1/2023",
+    date: "2023-03-01",
     price: 1836.51,
   },
   {
-    date: "3/2/2023",
+    date: "2023-03-02",
     price: 1837.66,
   },
   {
-    date: "3/3/2023",
+    date: "2023-03-03",
     price: 1855.18,
   },
   {
-    date: "3/5/2023",
+    date: "2023-03-05",
     price: 1852.19,
   },
   {
-    date: "3/6/2023",
+    date: "2023-03-06",
     price: 1846.29,
   },
   {
-    date: "3/7/2023",
+    date: "2023-03-07",
     price: 1813.82,
   },
   {
-    date: "3/8/2023",
+    date: "2023-03-08",
     price: 1815.12,
   },
   {
-    date: "3/9/2023",
+    date: "2023-03-09",
     price: 1831.37,
   },
   {
-    date: "3/10/2023",
+    date: "2023-03-10",
     price: 1867.05,
   },
   {
-    date: "3/12/2023",
+    date: "2023-03-12",
     price: 1877.59,
   },
   {
-    date: "3/13/2023",
+    date: "2023-03-13",
     price: 1912.13,
   },
   {
-    date: "3/14/2023",
+    date: "2023-03-14",
     price: 1903.02,
   },
   {
-    date: "3/15/2023",
+    date: "2023-03-15",
     price: 1921.03,
   },
   {
-    date: "3/16/2023",
+    date: "2023-03-16",
     price: 1921.3,
   },
   {
-    date: "3/17/2023",
+    date: "2023-03-17",
     price: 1987.46,
   },
   {
-    date: "3/19/2023",
+    date: "2023-03-19",
     price: 1976.55,
   },
   {
-    date: "3/20/2023",
+    date: "2023-03-20",
     price: 1976.52,
   },
   {
-    date: "3/21/2023",
+    date: "2023-03-21",
     price: 1942.81,
   },
   {
-    date: "3/22/2023",
+    date: "2023-03-22",
     price: 1969.57,
   },
   {
-    date: "3/23/2023",
+    date: "2023-03-23",
     price: 1991.23,
   },
   {
-    date: "3/24/2023",
+    date: "2023-03-24",
     price: 1978.42,
   },
   {
-    date: "3/26/2023",
+    date: "2023-03-26",
     price: 1975.72,
   },
   {
-    date: "3/27/2023",
+    date: "2023-03-27",
     price: 1958.02,
   },
   {
-    date: "3/28/2023",
+    date: "2023-03-28",
     price: 1971.86,
   },
   {
-    date: "3/29/2023",
+    date: "2023-03-29",
     price: 1963.15,
   },
   {
-    date: "3/30/2023",
+    date: "2023-03-30",
     price: 1978.39,
   },
   {
-    date: "3/31/2023",
+    date: "2023-03-31",
     price: 1969.22,
   },
   {
-    date: "4/2/2023",
+    date: "2023-04-02",
     price: 1957.65,
   },
   {
-    date: "4/3/2023",
+    date: "2023-04-03",
     price: 1984.77,
   },
   {
-    date: "4/4/2023",
+    date: "2023-04-04",
     price: 2021.6,
   },
   {
-    date: "4/5/2023",
+    date: "2023-04-05",
     price: 2020.23,
   },
   {
-    date: "4/6/2023",
+    date: "2023-04-06",
     price: 2007.56,
   },
   {
-    date: "4/7/2023",
+    date: "2023-04-07",
     price: 2007.24,
   },
   {
-    date: "4/9/2023",
+    date: "2023-04-09",
     price: 2005.49,
   },
   {
-    date: "4/10/2023",
+    date: "2023-04-10",
     price: 1992.37,
   },
   {
-    date: "4/11/2023",
+    date: "2023-04-11",
     price: 2004.63,
   },
   {
-    date: "4/12/2023",
+    date: "2023-04-12",
     price: 2018.09,
   },
   {
-    date: "4/13/2023",
+    date: "2023-04-13",
     price: 2039.89,
   },
   {
-    date: "4/14/2023",
+    date: "2023-04-14",
     price: 2004.11,
   },
   {
-    date: "4/16/2023",
+    date: "2023-04-16",
     price: 2002.8,
   },
   {
-    date: "4/17/2023",
+    date: "2023-04-17",
     price: 1993.9,
   },
   {
-    date: "4/18/2023",
+    date: "2023-04-18",
     price: 2005.48,
   },
   {
-    date: "4/19/2023",
+    date: "2023-04-19",
     price: 1993.6,
   },
   {
-    date: "4/20/2023",
+    date: "2023-04-20",
     price: 2004.97,
   },
   {
-    date: "4/21/2023",
+    date: "2023-04-21",
     price: 1982.91,
   },
   {
-    date: "4/23/2023",
+    date: "2023-04-23",
     price: 1984.59,
   },
   {
-    date: "4/24/2023",
+    date: "2023-04-24",
     price: 1995.35,
   },
   {
-    date: "4/25/2023",
+    date: "2023-04-25",
     price: 2000.07,
   },
   {
-    date: "4/26/2023",
+    date: "2023-04-26",
     price: 1991.62,
   },
   {
-    date: "4/27/2023",
+    date: "2023-04-27",
     price: 1986.97,
   },
   {
-    date: "4/28/2023",
+    date: "2023-04-28",
     price: 1989.44,
   },
   {
-    date: "4/30/2023",
+    date: "2023-04-30",
     price: 1986.72,
   },
   {
-    date: "5/1/2023",
+    date: "2023-05-01",
     price: 1981.13,
   },
   {
-    date: "5/2/2023",
+    date: "2023-05-02",
     price: 2015.84,
   },
   {
-    date: "5/3/2023",
+    date: "2023-05-03",
     price: 2051.93,
   },
   {
-    date: "5/4/2023",
+    date: "2023-05-04",
     price: 2049.8,
   },
   {
-    date: "5/5/2023",
+    date: "2023-05-05",
     price: 2016.58,
   },
   {
-    date: "5/7/2023",
+    date: "2023-05-07",
     price: 2015.95,
   },
   {
-    date: "5/8/2023",
+    date: "2023-05-08",
     price: 2021.22,
   },
   {
-    date: "5/9/2023",
+    date: "2023-05-09",
     price: 2036.27,
   },
   {
-    date: "5/10/2023",
+    date: "2023-05-10",
     price: 2031.36,
   },
   {
-    date: "5/11/2023",
+    date: "2023-05-11",
     price: 2016.24,
   },
   {
-    date: "5/12/2023",
+    date: "2023-05-12",
     price: 2010.86,
   },
   {
-    date: "5/14/2023",
+    date: "2023-05-14",
     price: 2009.72,
   },
   {
-    date: "5/15/2023",
+    date: "2023-05-15",
     price: 2014.35,
   },
   {
-    date: "5/16/2023",
+    date: "2023-05-16",
     price: 1989.5,
   },
   {
-    date: "5/17/2023",
+    date: "2023-05-17",
     price: 1982.62,
   },
   {
-    date: "5/18/2023",
+    date: "2023-05-18",
     price: 1958.3,
   },
   {
-    date: "5/19/2023",
+    date: "2023-05-19",
     price: 1977.58,
   },
   {
-    date: "5/21/2023",
+    date: "2023-05-21",
     price: 1980.73,
   },
   {
-    date: "5/22/2023",
+    date: "2023-05-22",
     price: 1969.58,
   },
   {
-    date: "5/23/2023",
+    date: "2023-05-23",
     price: 1975,
   },
   {
-    date: "5/24/2023",
+    date: "2023-05-24",
     price: 1959.9,
   },
   {
-    date: "5/25/2023",
+    date: "2023-05-25",
     price: 1940.37,
   },
   {
-    date: "5/26/2023",
+    date: "2023-05-26",
     price: 1946.07,
   },
   {
-    date: "5/28/2023",
+    date: "2023-05-28",
     price: 1943.85,
   },
   {
-    date: "5/29/2023",
+    date: "2023-05-29",
     price: 1941.55,
   },
   {
-    date: "5/30/2023",
+    date: "2023-05-30",
     price: 1958.6,
   },
   {
-    date: "5/31/2023",
+    date: "2023-05-31",
     price: 1966.31,
   },
   {
-    date: "6/1/2023",
+    date: "2023-06-01",
     price: 1976.87,
   },
   {
-    date: "6/2/2023",
+    date: "2023-06-02",
     price: 1948,
   },
   {
-    date: "6/4/2023",
+    date: "2023-06-04",
     price: 1949.3,
   },
   {
-    date: "6/5/2023",
+    date: "2023-06-05",
     price: 1961.24,
   },
   {
-    date: "6/6/2023",
+    date: "2023-06-06",
     price: 1963.2,
   },
   {
-    date: "6/7/2023",
+    date: "2023-06-07",
     price: 1944.39,
   },
   {
-    date: "6/8/2023",
+    date: "2023-06-08",
     price: 1965.33,
   },
   {
-    date: "6/9/2023",
+    date: "2023-06-09",
     price: 1960.49,
   },
   {
-    date: "6/11/2023",
+    date: "2023-06-11",
     price: 1959.83,
   },
   {
-    date: "6/12/2023",
+    date: "2023-06-12",
     price: 1959.86,
   },
   {
-    date: "6/13/2023",
+    date: "2023-06-13",
     price: 1943.93,
   },
   {
-    date: "6/14/2023",
+    date: "2023-06-14",
     price: 1945.16,
   },
   {
-    date: "6/15/2023",
+    date: "2023-06-15",
     price: 1958.25,
   },
   {
-    date: "6/16/2023",
+    date: "2023-06-16",
     price: 1957.5,
   },
   {
-    date: "6/18/2023",
+    date: "2023-06-18",
     price: 1956.94,
   },
   {
-    date: "6/19/2023",
+    date: "2023-06-19",
     price: 1952.32,
   },
   {
-    date: "6/20/2023",
+    date: "2023-06-20",
     price: 1937.17,
   },
   {
-    date: "6/21/2023",
+    date: "2023-06-21",
     price: 1933.78,
   },
   {
-    date: "6/22/2023",
+    date: "2023-06-22",
     price: 1914.43,
   },
   {
-    date: "6/23/2023",
+    date: "2023-06-23",
     price: 1920.79,
   },
   {
-    date: "6/25/2023",
+    date: "2023-06-25",
     price: 1925.29,
   },
   {
-    date: "6/26/2023",
+    date: "2023-06-26",
     price: 1922.37,
   },
   {
-    date: "6/27/2023",
+    date: "2023-06-27",
     price: 1915.42,
   },
   {
-    date: "6/28/2023",
+    date: "2023-06-28",
     price: 1909.64,
   },
   {
-    date: "6/29/2023",
+    date: "2023-06-29",
     price: 1908.76,
   },
   {
-    date: "6/30/2023",
+    date: "2023-06-30",
     price: 1919.2,
   },
   {
-    date: "7/2/2023",
+    date: "2023-07-02",
     price: 1918.11,
   },
   {
-    date: "7/3/2023",
+    date: "2023-07-03",
     price: 1921.17,
   },
   {
-    date: "7/4/2023",
+    date: "2023-07-04",
     price: 1926.23,
   },
   {
-    date: "7/5/2023",
+    date: "2023-07-05",
     price: 1916.69,
   },
   {
-    date: "7/6/2023",
+    date: "2023-07-06",
     price: 1911.58,
   },
   {
-    date: "7/7/2023",
+    date: "2023-07-07",
     price: 1925.53,
   },
   {
-    date: "7/9/2023",
+    date: "2023-07-09",
     price: 1924.82,
   },
   {
-    date: "7/10/2023",
+    date: "2023-07-10",
     price: 1924.76,
   },
   {
-    date: "7/11/2023",
+    date: "2023-07-11",
     price: 1933.19,
   },
   {
-    date: "7/12/2023",
+    date: "2023-07-12",
     price: 1957.68,
   },
   {
-    date: "7/13/2023",
+    date: "2023-07-13",
     price: 1959.88,
   },
   {
-    date: "7/14/2023",
+    date: "2023-07-14",
     price: 1955.43,
   },
   {
-    date: "7/16/2023",
+    date: "2023-07-16",
     price: 1953.21,
   },
   {
-    date: "7/17/2023",
+    date: "2023-07-17",
     price: 1955.39,
   },
   {
-    date: "7/18/2023",
+    date: "2023-07-18",
     price: 1977.43,
   },
   {
-    date: "7/19/2023",
+    date: "2023-07-19",
     price: 1977.65,
   },
   {
-    date: "7/20/2023",
+    date: "2023-07-20",
     price: 1972.07,
   },
   {
-    date: "7/21/2023",
+    date: "2023-07-21",
     price: 1961.6,
   },
   {
-    date: "7/23/2023",
+    date: "2023-07-23",
     price: 1961.11,
   },
   {
-    date: "7/24/2023",
+    date: "2023-07-24",
     price: 1954.37,
   },
   {
-    date: "7/25/2023",
+    date: "2023-07-25",
     price: 1965.29,
   },
   {
-    date: "7/26/2023",
+    date: "2023-07-26",
     price: 1971.98,
   },
   {
-    date: "7/27/2023",
+    date: "2023-07-27",
     price: 1947.37,
   },
   {
-    date: "7/28/2023",
+    date: "2023-07-28",
     price: 1959,
   },
   {
-    date: "7/30/2023",
+    date: "2023-07-30",
     price: 1957.96,
   },
   {
-    date: "7/31/2023",
+    date: "2023-07-31",
     price: 1963.95,
   },
   {
-    date: "8/1/2023",
+    date: "2023-08-01",
     price: 1952.15,
   },
   {
-    date: "8/2/2023",
+    date: "2023-08-02",
     price: 1935.98,
   },
   {
-    date: "8/3/2023",
+    date: "2023-08-03",
     price: 1935.65,
   },
   {
-    date: "8/4/2023",
+    date: "2023-08-04",
     price: 1942.51,
   },
   {
-    date: "8/6/2023",
+    date: "2023-08-06",
     price: 1942.51,
   },
   {
-    date: "8/7/2023",
+    date: "2023-08-07",
     price: 1936.64,
   },
   {
-    date: "8/8/2023",
+    date: "2023-08-08",
     price: 1925.56,
   },
   {
-    date: "8/9/2023",
+    date: "2023-08-09",
     price: 1916.62,
   },
   {
-    date: "8/10/2023",
+    date: "2023-08-10",
     price: 1912.35,
   },
   {
-    date: "8/11/2023",
+    date: "2023-08-11",
     price: 1913.56,
   },
   {
-    date: "8/13/2023",
+    date: "2023-08-13",
     price: 1913.69,
   },
   {
-    date: "8/14/2023",
+    date: "2023-08-14",
     price: 1907.48,
   },
   {
-    date: "8/15/2023",
+    date: "2023-08-15",
     price: 1901.52,
   },
   {
-    date: "8/16/2023",
+    date: "2023-08-16",
     price: 1893.27,
   },
   {
-    date: "8/17/2023",
+    date: "2023-08-17",
     price: 1891.35,
   },
   {
-    date: "8/18/2023",
+    date: "2023-08-18",
     price: 1889.28,
   },
   {
-    date: "8/20/2023",
+    date: "2023-08-20",
     price: 1889.28,
   },
   {
-    date: "8/22/2023",
+    date: "2023-08-22",
     price: 1898.45,
   },
   {
-    date: "8/23/2023",
+    date: "2023-08-23",
     price: 1917.92,
   },
   {
-    date: "8/24/2023",
+    date: "2023-08-24",
     price: 1915.7,
   },
   {
-    date: "8/25/2023",
+    date: "2023-08-25",
     price: 1914.64,
   },
   {
-    date: "8/27/2023",
+    date: "2023-08-27",
     price: 1915.02,
   },
   {
-    date: "8/28/2023",
+    date: "2023-08-28",
     price: 1921.09,
   },
   {
-    date: "8/29/2023",
+    date: "2023-08-29",
     price: 1936.14,
   },
   {
-    date: "8/30/2023",
+    date: "2023-08-30",
     price: 1944.18,
   },
   {
-    date: "8/31/2023",
+    date: "2023-08-31",
     price: 1939.94,
   },
   {
-    date: "9/1/2023",
+    date: "2023-09-01",
     price: 1939.87,
   },
   {
-    date: "9/3/2023",
+    date: "2023-09-03",
     price: 1939.87,
   },
   {
-    date: "9/4/2023",
+    date: "2023-09-04",
     price: 1937.58,
   },
   {
-    date: "9/5/2023",
+    date: "2023-09-05",
     price: 1926.54,
   },
   {
-    date: "9/6/2023",
+    date: "2023-09-06",
     price: 1917.03,
   },
   {
-    date: "9/7/2023",
+    date: "2023-09-07",
     price: 1920.05,
   },
   {
-    date: "9/8/2023",
+    date: "2023-09-08",
     price: 1918.95,
   },
   {
-    date: "9/10/2023",
+    date: "2023-09-10",
     price: 1918.82,
   },
   {
-    date: "9/11/2023",
+    date: "2023-09-11",
     price: 1921.55,
   },
   {
-    date: "9/12/2023",
+    date: "2023-09-12",
     price: 1912.86,
   },
   {
-    date: "9/13/2023",
+    date: "2023-09-13",
     price: 1909.17,
   },
   {
-    date: "9/14/2023",
+    date: "2023-09-14",
     price: 1909.76,
   },
   {
-    date: "9/15/2023",
+    date: "2023-09-15",
     price: 1923.56,
   },
   {
-    date: "9/17/2023",
+    date: "2023-09-17",
     price: 1923.2,
   },
   {
-    date: "9/18/2023",
+    date: "2023-09-18",
     price: 1934.02,
   },
   {
-    date: "9/19/2023",
+    date: "2023-09-19",
     price: 1931.33,
   },
   {
-    date: "9/20/2023",
+    date: "2023-09-20",
     price: 1929.33,
   },
   {
-    date: "9/21/2023",
+    date: "2023-09-21",
     price: 1921.3,
   },
   {
-    date: "9/22/2023",
+    date: "2023-09-22",
     price: 1925.2,
   },
   {
-    date: "9/24/2023",
+    date: "2023-09-24",
     price: 1924.68,
   },
   {
-    date: "9/25/2023",
+    date: "2023-09-25",
     price: 1916.17,
   },
   {
-    date: "9/26/2023",
+    date: "2023-09-26",
     price: 1901.53,
   },
   {
-    date: "9/27/2023",
+    date: "2023-09-27",
     price: 1877.56,
   },
   {
-    date: "9/28/2023",
+    date: "2023-09-28",
     price: 1866.58,
   },
   {
-    date: "9/29/2023",
+    date: "2023-09-29",
     price: 1848.58,
   },
   {
-    date: "10/1/2023",
+    date: "2023-10-01",
     price: 1848.31,
   },
   {
-    date: "10/2/2023",
+    date: "2023-10-02",
     price: 1824.92,
   },
   {
-    date: "10/3/2023",
+    date: "2023-10-03",
     price: 1823.41,
   },
   {
-    date: "10/4/2023",
+    date: "2023-10-04",
     price: 1822.63,
   },
   {
-    date: "10/5/2023",
+    date: "2023-10-05",
     price: 1821.23,
   },
   {
-    date: "10/6/2023",
+    date: "2023-10-06",
     price: 1832.19,
   },
   {
-    date: "10/8/2023",
+    date: "2023-10-08",
     price: 1848.04,
   },
   {
-    date: "10/9/2023",
+    date: "2023-10-09",
     price: 1862.52,
   },
   {
-    date: "10/10/2023",
+    date: "2023-10-10",
     price: 1859.65,
   },
   {
-    date: "10/11/2023",
+    date: "2023-10-11",
     price: 1875.3,
   },
   {
-    date: "10/12/2023",
+    date: "2023-10-12",
     price: 1870.66,
   },
   {
-    date: "10/13/2023",
+    date: "2023-10-13",
     price: 1931.46,
   },
   {
-    date: "10/15/2023",
+    date: "2023-10-15",
     price: 1925.81,
   },
   {
-    date: "10/16/2023",
+    date: "2023-10-16",
     price: 1919.27,
   },
   {
-    date: "10/17/2023",
+    date: "2023-10-17",
     price: 1924.63,
   },
   {
-    date: "10/18/2023",
+    date: "2023-10-18",
     price: 1950.69,
   },
   {
-    date: "10/19/2023",
+    date: "2023-10-19",
     price: 1976.65,
   },
   {
-    date: "10/20/2023",
+    date: "2023-10-20",
     price: 1981.2,
   },
   {
-    date: "10/22/2023",
+    date: "2023-10-22",
     price: 1971.45,
   },
   {
-    date: "10/23/2023",
+    date: "2023-10-23",
     price: 1973.52,
   },
   {
-    date: "10/24/2023",
+    date: "2023-10-24",
     price: 1972.79,
   },
   {
-    date: "10/25/2023",
+    date: "2023-10-25",
     price: 1982.91,
   },
   {
-    date: "10/26/2023",
+    date: "2023-10-26",
     price: 1984.33,
   },
   {
-    date: "10/27/2023",
+    date: "2023-10-27",
     price: 2005.92,
   },
   {
-    date: "10/29/2023",
+    date: "2023-10-29",
     price: 2002.72,
   },
   {
-    date: "10/30/2023",
+    date: "2023-10-30",
     price: 1995.41,
   },
   {
-    date: "10/31/2023",
+    date: "2023-10-31",
     price: 1983.63,
   },
   {
-    date: "11/1/2023",
+    date: "2023-11-01",
     price: 1985.02,
   },
   {
-    date: "11/2/2023",
+    date: "2023-11-02",
     price: 1984.93,
   },
   {
-    date: "11/3/2023",
+    date: "2023-11-03",
     price: 1992.34,
   },
   {
-    date: "11/5/2023",
+    date: "2023-11-05",
     price: 1988.39,
   },
   {
-    date: "11/6/2023",
+    date: "2023-11-06",
     price: 1976.66,
   },
   {
-    date: "11/7/2023",
+    date: "2023-11-07",
     price: 1968.84,
   },
   {
-    date: "11/8/2023",
+    date: "2023-11-08",
     price: 1950.77,
   },
   {
-    date: "11/9/2023",
+    date: "2023-11-09",
     price: 1959.08,
   },
   {
-    date: "11/10/2023",
+    date: "2023-11-10",
     price: 1937.43,
   },
   {
-    date: "11/12/2023",
+    date: "2023-11-12",
     price: 1940.2,
   },
   {
-    date: "11/13/2023",
+    date: "2023-11-13",
     price: 1946.34,
   },
   {
-    date: "11/14/2023",
+    date: "2023-11-14",
     price: 1962.46,
   },
   {
-    date: "11/15/2023",
+    date: "2023-11-15",
     price: 1960.27,
   },
   {
-    date: "11/16/2023",
+    date: "2023-11-16",
     price: 1982.32,
   },
   {
-    date: "11/17/2023",
+    date: "2023-11-17",
     price: 1980.55,
   },
   {
-    date: "11/19/2023",
+    date: "2023-11-19",
     price: 1974.24,
   },
   {
-    date: "11/20/2023",
+    date: "2023-11-20",
     price: 1981.27,
   },
   {
-    date: "11/21/2023",
+    date: "2023-11-21",
     price: 1999.26,
   },
   {
-    date: "11/22/2023",
+    date: "2023-11-22",
     price: 1990.18,
   },
   {
-    date: "11/23/2023",
+    date: "2023-11-23",
     price: 1993.98,
   },
   {
-    date: "11/24/2023",
+    date: "2023-11-24",
     price: 2001.97,
   },
   {
-    date: "11/26/2023",
+    date: "2023-11-26",
     price: 2002.26,
   },
   {
-    date: "11/27/2023",
+    date: "2023-11-27",
     price: 2015.33,
   },
   {
-    date: "11/28/2023",
+    date: "2023-11-28",
     price: 2044.48,
   },
   {
-    date: "11/29/2023",
+    date: "2023-11-29",
     price: 2044.51,
   },
   {
-    date: "11/30/2023",
+    date: "2023-11-30",
     price: 2040.04,
   },
   {
-    date: "12/1/2023",
+    date: "2023-12-01",
     price: 2071.93,
   },
   {
-    date: "12/3/2023",
+    date: "2023-12-03",
     price: 2116.24,
   },
   {
-    date: "12/4/2023",
+    date: "2023-12-04",
     price: 2033.85,
   },
   {
-    date: "12/5/2023",
+    date: "2023-12-05",
     price: 2018.89,
   },
   {
-    date: "12/6/2023",
+    date: "2023-12-06",
     price: 2027.07,
   },
   {
-    date: "12/7/2023",
+    date: "2023-12-07",
     price: 2028.05,
   },
   {
-    date: "12/8/2023",
+    date: "2023-12-08",
     price: 2004.29,
   },
   {
-    date: "12/10/2023",
+    date: "2023-12-10",
     price: 2007.08,
   },
   {
-    date: "12/11/2023",
+    date: "2023-12-11",
     price: 1982.86,
   },
   {
-    date: "12/12/2023",
+    date: "2023-12-12",
     price: 1982.46,
   },
   {
-    date: "12/13/2023",
+    date: "2023-12-13",
     price: 2032.97,
   },
   {
-    date: "12/14/2023",
+    date: "2023-12-14",
     price: 2035.65,
   },
   {
-    date: "12/15/2023",
+    date: "2023-12-15",
     price: 2019.45,
   },
   {
-    date: "12/17/2023",
+    date: "2023-12-17",
     price: 2017.72,
   },
   {
-    date: "12/18/2023",
+    date: "2023-12-18",
     price: 2027.61,
   },
   {
-    date: "12/19/2023",
+    date: "2023-12-19",
     price: 2040.78,
   },
   {
-    date: "12/20/2023",
+    date: "2023-12-20",
     price: 2032.08,
   },
   {
-    date: "12/21/2023",
+    date: "2023-12-21",
     price: 2052.21,
   },
   {
-    date: "12/22/2023",
+    date: "2023-12-22",
     price: 2052.74,
   },
   {
-    date: "12/24/2023",
+    date: "2023-12-24",
     price: 2054.71,
   },
   {
-    date: "12/25/2023",
+    date: "2023-12-25",
     price: 2054.97,
   },
   {
-    date: "12/26/2023",
+    date: "2023-12-26",
     price: 2066.05,
   },
   {
-    date: "12/27/2023",
+    date: "2023-12-27",
     price: 2079.26,
   },
   {
-    date: "12/28/2023",
+    date: "2023-12-28",
     price: 2066.9,
   },
   {
-    date: "12/29/2023",
+    date: "2023-12-29",
     price: 2062.66,
   },
   {
-    date: "12/31/2023",
+    date: "2023-12-31",
     price: 2065.21,
   },
   {
-    date: "1/1/2024",
+    date: "2024-01-01",
     price: 2063.54,
   },
   {
-    date: "1/2/2024",
+    date: "2024-01-02",
     price: 2059.54,
   },
   {
-    date: "1/3/2024",
+    date: "2024-01-03",
     price: 2042.95,
   },
   {
-    date: "1/4/2024",
+    date: "2024-01-04",
     price: 2044.41,
   },
   {
-    date: "1/5/2024",
+    date: "2024-01-05",
     price: 2045.41,
   },
   {
-    date: "1/7/2024",
+    date: "2024-01-07",
     price: 2044.38,
   },
   {
-    date: "1/8/2024",
+    date: "2024-01-08",
     price: 2030.71,
   },
   {
-    date: "1/9/2024",
+    date: "2024-01-09",
     price: 2031.01,
   },
   {
-    date: "1/10/2024",
+    date: "2024-01-10",
     price: 2026.71,
   },
   {
-    date: "1/11/2024",
+    date: "2024-01-11",
     price: 2034.92,
   },
   {
-    date: "1/12/2024",
+    date: "2024-01-12",
     price: 2048.99,
   },
   {
-    date: "1/14/2024",
+    date: "2024-01-14",
     price: 2047.49,
   },
   {
-    date: "1/15/2024",
+    date: "2024-01-15",
     price: 2054.2,
   },
   {
-    date: "1/16/2024",
+    date: "2024-01-16",
     price: 2028.21,
   },
   {
-    date: "1/17/2024",
+    date: "2024-01-17",
     price: 2009.7,
   },
   {
-    date: "1/18/2024",
+    date: "2024-01-18",
     price: 2023.71,
   },
   {
-    date: "1/19/2024",
+    date: "2024-01-19",
     price: 2029.47,
   },
   {
-    date: "1/21/2024",
+    date: "2024-01-21",
     price: 2027.45,
   },
   {
-    date: "1/22/2024",
+    date: "2024-01-22",
     price: 2020.7,
   },
   {
-    date: "1/23/2024",
+    date: "2024-01-23",
     price: 2029.4,
   },
   {
-    date: "1/24/2024",
+    date: "2024-01-24",
     price: 2016.41,
   },
   {
-    date: "1/25/2024",
+    date: "2024-01-25",
     price: 2020.59,
   },
   {
-    date: "1/26/2024",
+    date: "2024-01-26",
     price: 2018.33,
   },
   {
-    date: "1/28/2024",
+    date: "2024-01-28",
     price: 2021.74,
   },
   {
-    date: "1/29/2024",
+    date: "2024-01-29",
     price: 2031.16,
   },
   {
-    date: "1/30/2024",
+    date: "2024-01-30",
     price: 2036.4,
   },
   {
-    date: "1/31/2024",
+    date: "2024-01-31",
     price: 2039.85,
   },
   {
-    date: "2/1/2024",
+    date: "2024-02-01",
     price: 2054.66,
   },
   {
-    date: "2/2/2024",
+    date: "2024-02-02",
     price: 2039.58,
   },
   {
-    date: "2/4/2024",
+    date: "2024-02-04",
     price: 2039.31,
   },
   {
-    date: "2/5/2024",
+    date: "2024-02-05",
     price: 2024.99,
   },
   {
-    date: "2/6/2024",
+    date: "2024-02-06",
     price: 2035.15,
   },
   {
-    date: "2/7/2024",
+    date: "2024-02-07",
     price: 2036.54,
   },
   {
-    date: "2/8/2024",
+    date: "2024-02-08",
     price: 2034.1,
   },
   {
-    date: "2/9/2024",
+    date: "2024-02-09",
     price: 2024.38,
   },
   {
-    date: "2/11/2024",
+    date: "2024-02-11",
     price: 2025.38,
   },
   {
-    date: "2/12/2024",
+    date: "2024-02-12",
     price: 2018.76,
   },
   {
-    date: "2/13/2024",
+    date: "2024-02-13",
     price: 1991.28,
   },
   {
-    date: "2/14/2024",
+    date: "2024-02-14",
     price: 1993.75,
   },
   {
-    date: "2/15/2024",
+    date: "2024-02-15",
     price: 2003.26,
   },
   {
-    date: "2/16/2024",
+    date: "2024-02-16",
     price: 2013.01,
   },
   {
-    date: "2/18/2024",
+    date: "2024-02-18",
     price: 2007,
   },
   {
-    date: "2/19/2024",
+    date: "2024-02-19",
     price: 2016.11,
   },
   {
-    date: "2/20/2024",
+    date: "2024-02-20",
     price: 2024.07,
   },
   {
-    date: "2/21/2024",
+    date: "2024-02-21",
     price: 2025.68,
   },
   {
-    date: "2/22/2024",
+    date: "2024-02-22",
     price: 2024.79,
   },
   {
-    date: "2/23/2024",
+    date: "2024-02-23",
     price: 2035.39,
   },
   {
-    date: "2/25/2024",
+    date: "2024-02-25",
     price: 2034.11,
   },
   {
-    date: "2/26/2024",
+    date: "2024-02-26",
     price: 2031.06,
   },
   {
-    date: "2/27/2024",
+    date: "2024-02-27",
     price: 2030.08,
   },
   {
-    date: "2/28/2024",
+    date: "2024-02-28",
     price: 2034.6,
   },
   {
-    date: "2/29/2024",
+    date: "2024-02-29",
     price: 2044.13,
   },
   {
-    date: "3/1/2024",
+    date: "2024-03-01",
     price: 2082.65,
   },
   {
-    date: "3/3/2024",
+    date: "2024-03-03",
     price: 2083.28,
   },
   {
-    date: "3/4/2024",
+    date: "2024-03-04",
     price: 2114.52,
   },
   {
-    date: "3/5/2024",
+    date: "2024-03-05",
     price: 2128.17,
   },
   {
-    date: "3/6/2024",
+    date: "2024-03-06",
     price: 2147.44,
   },
   {
-    date: "3/7/2024",
+    date: "2024-03-07",
     price: 2162.04,
   },
   {
-    date: "3/8/2024",
+    date: "2024-03-08",
     price: 2178.76,
   },
   {
-    date: "3/10/2024",
+    date: "2024-03-10",
     price: 2181.7,
   },
   {
-    date: "3/11/2024",
+    date: "2024-03-11",
     price: 2183.59,
   },
   {
-    date: "3/12/2024",
+    date: "2024-03-12",
     price: 2156.93,
   },
   {
-    date: "3/13/2024",
+    date: "2024-03-13",
     price: 2175.4,
   },
   {
-    date: "3/14/2024",
+    date: "2024-03-14",
     price: 2161.58,
   },
   {
-    date: "3/15/2024",
+    date: "2024-03-15",
     price: 2155.78,
   },
   {
-    date: "3/17/2024",
+    date: "2024-03-17",
     price: 2156.6,
   },
   {
-    date: "3/18/2024",
+    date: "2024-03-18",
     price: 2161.86,
   },
   {
-    date: "3/19/2024",
+    date: "2024-03-19",
     price: 2157.06,
   },
   {
-    date: "3/20/2024",
+    date: "2024-03-20",
     price: 2203.89,
   },
   {
-    date: "3/21/2024",
+    date: "2024-03-21",
     price: 2181.69,
   },
   {
-    date: "3/22/2024",
+    date: "2024-03-22",
     price: 2165.13,
   },
   {
-    date: "3/24/2024",
+    date: "2024-03-24",
     price: 2168.12,
   },
   {
-    date: "3/25/2024",
+    date: "2024-03-25",
     price: 2172.99,
   },
   {
-    date: "3/26/2024",
+    date: "2024-03-26",
     price: 2179.61,
   },
   {
-    date: "3/27/2024",
+    date: "2024-03-27",
     price: 2190.55,
   },
   {
-    date: "3/28/2024",
+    date: "2024-03-28",
     price: 2231.91,
   },
   {
-    date: "3/31/2024",
+    date: "2024-03-31",
     price: 2246.23,
   },
   {
-    date: "4/1/2024",
+    date: "2024-04-01",
     price: 2248.96,
   },
   {
-    date: "4/2/2024",
+    date: "2024-04-02",
     price: 2279.69,
   },
   {
-    date: "4/3/2024",
+    date: "2024-04-03",
     price: 2297.49,
   },
   {
-    date: "4/4/2024",
+    date: "2024-04-04",
     price: 2288.92,
   },
   {
-    date: "4/5/2024",
+    date: "2024-04-05",
     price: 2329.57,
   },
   {
-    date: "4/7/2024",
+    date: "2024-04-07",
     price: 2311.33,
   },
   {
-    date: "4/8/2024",
+    date: "2024-04-08",
     price: 2338.89,
   },
   {
-    date: "4/9/2024",
+    date: "2024-04-09",
     price: 2354.73,
   },
   {
-    date: "4/10/2024",
+    date: "2024-04-10",
     price: 2335.47,
   },
   {
-    date: "4/11/2024",
+    date: "2024-04-11",
     price: 2376.77,
   },
   {
-    date: "4/12/2024",
+    date: "2024-04-12",
     price: 2343.65,
   },
   {
-    date: "4/14/2024",
+    date: "2024-04-14",
     price: 2364.61,
   },
   {
-    date: "4/15/2024",
+    date: "2024-04-15",
     price: 2381.8,
   },
   {
-    date: "4/16/2024",
+    date: "2024-04-16",
     price: 2382.44,
   },
   {
-    date: "4/17/2024",
+    date: "2024-04-17",
     price: 2367.73,
   },
   {
-    date: "4/18/2024",
+    date: "2024-04-18",
     price: 2380.02,
   },
   {
-    date: "4/19/2024",
+    date: "2024-04-19",
     price: 2390.01,
   },
   {
-    date: "4/21/2024",
+    date: "2024-04-21",
     price: 2386.54,
   },
   {
-    date: "4/22/2024",
+    date: "2024-04-22",
     price: 2333.86,
   },
   {
-    date: "4/23/2024",
+    date: "2024-04-23",
     price: 2323.48,
   },
   {
-    date: "4/24/2024",
+    date: "2024-04-24",
     price: 2316.09,
   },
   {
-    date: "4/25/2024",
+    date: "2024-04-25",
     price: 2330.65,
   },
   {
-    date: "4/26/2024",
+    date: "2024-04-26",
     price: 2337.48,
   },
   {
-    date: "4/28/2024",
+    date: "2024-04-28",
     price: 2335.82,
   },
   {
-    date: "4/29/2024",
+    date: "2024-04-29",
     price: 2333.06,
   },
   {
-    date: "4/30/2024",
+    date: "2024-04-30",
     price: 2291.25,
   },
   {
-    date: "5/1/2024",
+    date: "2024-05-01",
     price: 2320.41,
   },
   {
-    date: "5/2/2024",
+    date: "2024-05-02",
     price: 2303.91,
   },
   {
-    date: "5/3/2024",
+    date: "2024-05-03",
     price: 2301.93,
   },
   {
-    date: "5/5/2024",
+    date: "2024-05-05",
     price: 2293.96,
   },
   {
-    date: "5/6/2024",
+    date: "2024-05-06",
     price: 2325.64,
   },
   {
-    date: "5/7/2024",
+    date: "2024-05-07",
     price: 2315.13,
   },
   {
-    date: "5/8/2024",
+    date: "2024-05-08",
     price: 2308.72,
   },
   {
-    date: "5/9/2024",
+    date: "2024-05-09",
     price: 2346.57,
   },
   {
-    date: "5/10/2024",
+    date: "2024-05-10",
     price: 2359.97,
   },
   {
-    date: "5/12/2024",
+    date: "2024-05-12",
     price: 2360.29,
   },
   {
-    date: "5/13/2024",
+    date: "2024-05-13",
     price: 2338.26,
   },
   {
-    date: "5/14/2024",
+    date: "2024-05-14",
     price: 2355.76,
   },
   {
-    date: "5/15/2024",
+    date: "2024-05-15",
     price: 2391.66,
   },
   {
-    date: "5/16/2024",
+    date: "2024-05-16",
     price: 2378.03,
   },
   {
-    date: "5/17/2024",
+    date: "2024-05-17",
     price: 2414.02,
   },
   {
-    date: "5/19/2024",
+    date: "2024-05-19",
     price: 2420.3,
   },
   {
-    date: "5/20/2024",
+    date: "2024-05-20",
     price: 2426.12,
   },
   {
-    date: "5/21/2024",
+    date: "2024-05-21",
     price: 2421.51,
   },
   {
-    date: "5/22/2024",
+    date: "2024-05-22",
     price: 2382.22,
   },
   {
-    date: "5/23/2024",
+    date: "2024-05-23",
     price: 2331.82,
   },
   {
-    date: "5/24/2024",
+    date: "2024-05-24",
     price: 2333.04,
   },
   {
-    date: "5/26/2024",
+    date: "2024-05-26",
     price: 2337.05,
   },
   {
-    date: "5/27/2024",
+    date: "2024-05-27",
     price: 2352.27,
   },
   {
-    date: "5/28/2024",
+    date: "2024-05-28",
     price: 2359.94,
   },
   {
-    date: "5/29/2024",
+    date: "2024-05-29",
     price: 2338.59,
   },
   {
-    date: "5/30/2024",
+    date: "2024-05-30",
     price: 2343.72,
   },
   {
-    date: "5/31/2024",
+    date: "2024-05-31",
     price: 2325.76,
   },
   {
-    date: "6/2/2024",
+    date: "2024-06-02",
     price: 2325.55,
   },
   {
-    date: "6/3/2024",
+    date: "2024-06-03",
     price: 2350.39,
   },
   {
-    date: "6/4/2024",
+    date: "2024-06-04",
     price: 2328.66,
   },
   {
-    date: "6/5/2024",
+    date: "2024-06-05",
     price: 2354.98,
   },
   {
-    date: "6/6/2024",
+    date: "2024-06-06",
     price: 2376.68,
   },
   {
-    date: "6/7/2024",
+    date: "2024-06-07",
     price: 2293.51,
   },
   {
-    date: "6/9/2024",
+    date: "2024-06-09",
     price: 2298.46,
   },
   {
-    date: "6/10/2024",
+    date: "2024-06-10",
     price: 2309.88,
   },
   {
-    date: "6/11/2024",
+    date: "2024-06-11",
     price: 2314.86,
   },
   {
-    date: "6/12/2024",
+    date: "2024-06-12",
     price: 2320.46,
   },
   {
-    date: "6/13/2024",
+    date: "2024-06-13",
     price: 2302.16,
   },
   {
-    date: "6/14/2024",
+    date: "2024-06-14",
     price: 2332.3,
   },
   {
-    date: "6/16/2024",
+    date: "2024-06-16",
     price: 2328.6,
   },
   {
-    date: "6/17/2024",
+    date: "2024-06-17",
     price: 2320.76,
   },
   {
-    date: "6/18/2024",
+    date: "2024-06-18",
     price: 2328.24,
   },
   {
-    date: "6/19/2024",
+    date: "2024-06-19",
     price: 2329.24,
   },
   {
-    date: "6/20/2024",
+    date: "2024-06-20",
     price: 2360.66,
   },
   {
-    date: "6/21/2024",
+    date: "2024-06-21",
     price: 2319.04,
   },
   {
-    date: "6/23/2024",
+    date: "2024-06-23",
     price: 2318.99,
   },
   {
-    date: "6/24/2024",
+    date: "2024-06-24",
     price: 2330.66,
   },
   {
-    date: "6/25/2024",
+    date: "2024-06-25",
     price: 2319.83,
   },
   {
-    date: "6/26/2024",
+    date: "2024-06-26",
     price: 2298.16,
   },
   {
-    date: "6/27/2024",
+    date: "2024-06-27",
     price: 2327.46,
   },
   {
-    date: "6/28/2024",
+    date: "2024-06-28",
     price: 2326.15,
   },
   {
-    date: "6/30/2024",
+    date: "2024-06-30",
     price: 2324.66,
   },
   {
-    date: "7/1/2024",
+    date: "2024-07-01",
     price: 2332.09,
   },
   {
-    date: "7/2/2024",
+    date: "2024-07-02",
     price: 2330.08,
   },
   {
-    date: "7/3/2024",
+    date: "2024-07-03",
     price: 2359,
   },
   {
-    date: "7/4/2024",
+    date: "2024-07-04",
     price: 2356.35,
   },
   {
-    date: "7/5/2024",
+    date: "2024-07-05",
     price: 2391.14,
   },
   {
-    date: "7/7/2024",
+    date: "2024-07-07",
     price: 2385.77,
   },
   {
-    date: "7/8/2024",
+    date: "2024-07-08",
     price: 2361.65,
   },
   {
-    date: "7/9/2024",
+    date: "2024-07-09",
     price: 2365.01,
   },
   {
-    date: "7/10/2024",
+    date: "2024-07-10",
     price: 2372.62,
   },
   {
-    date: "7/11/2024",
+    date: "2024-07-11",
     price: 2415.92,
   },
   {
-    date: "7/12/2024",
+    date: "2024-07-12",
     price: 2410.93,
   },
   {
-    date: "7/14/2024",
+    date: "2024-07-14",
     price: 2408.6,
   },
   {
-    date: "7/15/2024",
+    date: "2024-07-15",
     price: 2422.37,
   },
   {
-    date: "7/16/2024",
+    date: "2024-07-16",
     price: 2468.27,
   },
   {
-    date: "7/17/2024",
+    date: "2024-07-17",
     price: 2461.25,
   },
   {
-    date: "7/18/2024",
+    date: "2024-07-18",
     price: 2444.91,
   },
   {
-    date: "7/19/2024",
+    date: "2024-07-19",
     price: 2400.59,
   },
   {
-    date: "7/21/2024",
+    date: "2024-07-21",
     price: 2411.37,
   },
   {
-    date: "7/22/2024",
+    date: "2024-07-22",
     price: 2395.55,
   },
   {
-    date: "7/23/2024",
+    date: "2024-07-23",
     price: 2408.34,
   },
   {
-    date: "7/24/2024",
+    date: "2024-07-24",
     price: 2398.63,
   },
   {
-    date: "7/25/2024",
+    date: "2024-07-25",
     price: 2364.1,
   },
   {
-    date: "7/26/2024",
+    date: "2024-07-26",
     price: 2385.9,
   },
   {
-    date: "7/28/2024",
+    date: "2024-07-28",
     price: 2396.45,
   },
   {
-    date: "7/29/2024",
+    date: "2024-07-29",
     price: 2381.06,
   },
   {
-    date: "7/30/2024",
+    date: "2024-07-30",
     price: 2409.62,
   },
   {
-    date: "7/31/2024",
+    date: "2024-07-31",
     price: 2445.84,
   },
   {
-    date: "8/1/2024",
+    date: "2024-08-01",
     price: 2445.86,
   },
   {
-    date: "8/2/2024",
+    date: "2024-08-02",
     price: 2442.08,
   },
   {
-    date: "8/4/2024",
+    date: "2024-08-04",
     price: 2440.76,
   },
   {
-    date: "8/5/2024",
+    date: "2024-08-05",
     price: 2404.79,
   },
   {
-    date: "8/6/2024",
+    date: "2024-08-06",
     price: 2384.05,
   },
   {
-    date: "8/7/2024",
+    date: "2024-08-07",
     price: 2384.72,
   },
   {
-    date: "8/8/2024",
+    date: "2024-08-08",
     price: 2424.66,
   },
   {
-    date: "8/9/2024",
+    date: "2024-08-09",
     price: 2430.71,
   },
   {
-    date: "8/11/2024",
+    date: "2024-08-11",
     price: 2427.83,
   },
   {
-    date: "8/12/2024",
+    date: "2024-08-12",
     price: 2475.32,
   },
   {
-    date: "8/13/2024",
+    date: "2024-08-13",
     price: 2463.87,
   },
   {
-    date: "8/14/2024",
+    date: "2024-08-14",
     price: 2449.26,
   },
   {
-    date: "8/15/2024",
+    date: "2024-08-15",
     price: 2457.43,
   },
   {
-    date: "8/16/2024",
+    date: "2024-08-16",
     price: 2506.76,
   },
   {
-    date: "8/18/2024",
+    date: "2024-08-18",
     price: 2506.07,
   },
   {
-    date: "8/19/2024",
+    date: "2024-08-19",
     price: 2503.64,
   },
   {
-    date: "8/20/2024",
+    date: "2024-08-20",
     price: 2513.16,
   },
   {
-    date: "8/21/2024",
+    date: "2024-08-21",
     price: 2512.43,
   },
   {
-    date: "8/22/2024",
+    date: "2024-08-22",
     price: 2487.04,
   },
   {
-    date: "8/23/2024",
+    date: "2024-08-23",
     price: 2512.01,
   },
   {
-    date: "8/25/2024",
+    date: "2024-08-25",
     price: 2515.72,
   },
   {
-    date: "8/26/2024",
+    date: "2024-08-26",
     price: 2515.58,
   },
   {
-    date: "8/27/2024",
+    date: "2024-08-27",
     price: 2525.07,
   },
   {
-    date: "8/28/2024",
+    date: "2024-08-28",
     price: 2507.84,
   },
   {
-    date: "8/29/2024",
+    date: "2024-08-29",
     price: 2519.37,
   },
   {
-    date: "8/30/2024",
+    date: "2024-08-30",
     price: 2502.98,
   },
   {
-    date: "9/1/2024",
+    date: "2024-09-01",
     price: 2503.08,
   },
   {
-    date: "9/2/2024",
+    date: "2024-09-02",
     price: 2496.59,
   },
   {
-    date: "9/3/2024",
+    date: "2024-09-03",
     price: 2493.41,
   },
   {
-    date: "9/4/2024",
+    date: "2024-09-04",
     price: 2495.64,
   },
   {
-    date: "9/5/2024",
+    date: "2024-09-05",
     price: 2517.16,
   },
   {
-    date: "9/6/2024",
+    date: "2024-09-06",
     price: 2496.75,
   },
   {
-    date: "9/8/2024",
+    date: "2024-09-08",
     price: 2496.68,
   },
   {
-    date: "9/9/2024",
+    date: "2024-09-09",
     price: 2506.69,
   },
   {
-    date: "9/10/2024",
+    date: "2024-09-10",
     price: 2518.56,
   },
   {
-    date: "9/11/2024",
+    date: "2024-09-11",
     price: 2511.9,
   },
   {
-    date: "9/12/2024",
+    date: "2024-09-12",
     price: 2557.96,
   },
   {
-    date: "9/13/2024",
+    date: "2024-09-13",
     price: 2577.38,
   },
   {
-    date: "9/15/2024",
+    date: "2024-09-15",
     price: 2578.96,
   },
   {
-    date: "9/16/2024",
+    date: "2024-09-16",
     price: 2583.58,
   },
   {
-    date: "9/17/2024",
+    date: "2024-09-17",
     price: 2573.83,
   },
   {
-    date: "9/18/2024",
+    date: "2024-09-18",
     price: 2559.15,
   },
   {
-    date: "9/19/2024",
+    date: "2024-09-19",
     price: 2587.15,
   },
   {
-    date: "9/20/2024",
+    date: "2024-09-20",
     price: 2621.74,
   },
   {
-    date: "9/22/2024",
+    date: "2024-09-22",
     price: 2621.89,
   },
   {
-    date: "9/23/2024",
+    date: "2024-09-23",
     price: 2626.17,
   },
   {
-    date: "9/24/2024",
+    date: "2024-09-24",
     price: 2658.03,
   },
   {
-    date: "9/25/2024",
+    date: "2024-09-25",
     price: 2656.76,
   },
   {
-    date: "9/26/2024",
+    date: "2024-09-26",
     price: 2672.57,
   },
   {
-    date: "9/27/2024",
+    date: "2024-09-27",
     price: 2657.97,
   },
   {
-    date: "9/29/2024",
+    date: "2024-09-29",
     price: 2663.48,
   },
   {
-    date: "9/30/2024",
+    date: "2024-09-30",
     price: 2635.54,
   },
   {
-    date: "10/1/2024",
+    date: "2024-10-01",
     price: 2660.32,
   },
   {
-    date: "10/2/2024",
+    date: "2024-10-02",
     price: 2660.06,
   },
   {
-    date: "10/3/2024",
+    date: "2024-10-03",
     price: 2655.55,
   },
   {
-    date: "10/4/2024",
+    date: "2024-10-04",
     price: 2653.05,
   },
   {
-    date: "10/6/2024",
+    date: "2024-10-06",
     price: 2650.45,
   },
   {
-    date: "10/7/2024",
+    date: "2024-10-07",
     price: 2642.84,
   },
   {
-    date: "10/8/2024",
+    date: "2024-10-08",
     price: 2621.96,
   },
   {
-    date: "10/9/2024",
+    date: "2024-10-09",
     price: 2608.16,
   },
   {
-    date: "10/10/2024",
+    date: "2024-10-10",
     price: 2632.37,
   },
   {
-    date: "10/11/2024",
+    date: "2024-10-11",
     price: 2656.85,
   },
   {
-    date: "10/13/2024",
+    date: "2024-10-13",
     price: 2656.08,
   },
   {
-    date: "10/14/2024",
+    date: "2024-10-14",
     price: 2649.3,
   },
   {
-    date: "10/15/2024",
+    date: "2024-10-15",
     price: 2660.34,
   },
   {
-    date: "10/16/2024",
+    date: "2024-10-16",
     price: 2673.9,
   },
   {
-    date: "10/17/2024",
+    date: "2024-10-17",
     price: 2693.55,
   },
   {
-    date: "10/18/2024",
+    date: "2024-10-18",
     price: 2720.53,
   },
   {
-    date: "10/20/2024",
+    date: "2024-10-20",
     price: 2723.41,
   },
   {
-    date: "10/21/2024",
+    date: "2024-10-21",
     price: 2721.26,
   },
   {
-    date: "10/22/2024",
+    date: "2024-10-22",
     price: 2746.56,
   },
   {
-    date: "10/23/2024",
+    date: "2024-10-23",
     price: 2721.31,
   },
   {
-    date: "10/24/2024",
+    date: "2024-10-24",
     price: 2733.69,
   },
   {
-    date: "10/25/2024",
+    date: "2024-10-25",
     price: 2747.13,
   },
   {
-    date: "10/27/2024",
+    date: "2024-10-27",
     price: 2735.85,
   },
   {
-    date: "10/28/2024",
+    date: "2024-10-28",
     price: 2744.29,
   },
   {
-    date: "10/29/2024",
+    date: "2024-10-29",
     price: 2774.7,
   },
   {
-    date: "10/30/2024",
+    date: "2024-10-30",
     price: 2785.14,
   },
   {
-    date: "10/31/2024",
+    date: "2024-10-31",
     price: 2746.27,
   },
   {
-    date: "11/1/2024",
+    date: "2024-11-01",
     price: 2735.91,
   },
   {
-    date: "11/3/2024",
+    date: "2024-11-03",
     price: 2738.2,
   },
   {
-    date: "11/4/2024",
+    date: "2024-11-04",
     price: 2736.34,
   },
   {
-    date: "11/5/2024",
+    date: "2024-11-05",
     price: 2745.46,
   },
   {
-    date: "11/6/2024",
+    date: "2024-11-06",
     price: 2663.87,
   },
   {
-    date: "11/7/2024",
+    date: "2024-11-07",
     price: 2706.83,
   },
   {
-    date: "11/8/2024",
+    date: "2024-11-08",
     price: 2683.85,
   },
   {
-    date: "11/10/2024",
+    date: "2024-11-10",
     price: 2685.47,
   },
   {
-    date: "11/11/2024",
+    date: "2024-11-11",
     price: 2623.69,
   },
   {
-    date: "11/12/2024",
+    date: "2024-11-12",
     price: 2598.8,
   },
   {
-    date: "11/13/2024",
+    date: "2024-11-13",
     price: 2571.44,
   },
   {
-    date: "11/14/2024",
+    date: "2024-11-14",
     price: 2566.49,
   },
   {
-    date: "11/15/2024",
+    date: "2024-11-15",
     price: 2561.27,
   },
   {
-    date: "11/17/2024",
+    date: "2024-11-17",
     price: 2571.2,
   },
   {
-    date: "11/18/2024",
+    date: "2024-11-18",
     price: 2612.09,
   },
   {
-    date: "11/19/2024",
+    date: "2024-11-19",
     price: 2634.71,
   },
   {
-    date: "11/20/2024",
+    date: "2024-11-20",
     price: 2652.02,
   },
   {
-    date: "11/21/2024",
+    date: "2024-11-21",
     price: 2668.68,
   },
   {
-    date: "11/22/2024",
+    date: "2024-11-22",
     price: 2715.58,
   },
   {
-    date: "11/25/2024",
+    date: "2024-11-25",
     price: 2610.17,
   },
   {
-    date: "11/26/2024",
+    date: "2024-11-26",
     price: 2632.18,
   },
   {
-    date: "11/27/2024",
+    date: "2024-11-27",
     price: 2636.89,
   },
   {
-    date: "11/28/2024",
+    date: "2024-11-28",
     price: 2638.78,
   },
   {
-    date: "11/29/2024",
+    date: "2024-11-29",
     price: 2650.25,
   },
   {
-    date: "12/1/2024",
+    date: "2024-12-01",
     price: 2645.92,
   },
   {
-    date: "12/2/2024",
+    date: "2024-12-02",
     price: 2641.84,
   },
   {
-    date: "12/3/2024",
+    date: "2024-12-03",
     price: 2642.62,
   },
   {
-    date: "12/4/2024",
+    date: "2024-12-04",
     price: 2650.18,
   },
   {
-    date: "12/5/2024",
+    date: "2024-12-05",
     price: 2633.62,
   },
   {
-    date: "12/6/2024",
+    date: "2024-12-06",
     price: 2632.14,
   },
   {
-    date: "12/8/2024",
+    date: "2024-12-08",
     price: 2639.2,
   },
   {
-    date: "12/9/2024",
+    date: "2024-12-09",
     price: 2660.54,
   },
   {
-    date: "12/10/2024",
+    date: "2024-12-10",
     price: 2695.71,
   },
   {
-    date: "12/11/2024",
+    date: "2024-12-11",
     price: 2719.83,
   },
   {
-    date: "12/12/2024",
+    date: "2024-12-12",
     price: 2680.31,
   },
   {
-    date: "12/13/2024",
+    date: "2024-12-13",
     price: 2647.49,
   },
   {
-    date: "12/15/2024",
+    date: "2024-12-15",
     price: 2650.3,
   },
   {
-    date: "12/16/2024",
+    date: "2024-12-16",
     price: 2651.5,
   },
   {
-    date: "12/17/2024",
+    date: "2024-12-17",
     price: 2647.29,
   },
   {
-    date: "12/18/2024",
+    date: "2024-12-18",
     price: 2588.06,
   },
   {
-    date: "12/19/2024",
+    date: "2024-12-19",
     price: 2593.57,
   },
   {
-    date: "12/20/2024",
+    date: "2024-12-20",
     price: 2622,
   },
   {
-    date: "12/22/2024",
+    date: "2024-12-22",
     price: 2623.84,
   },
   {
-    date: "12/23/2024",
+    date: "2024-12-23",
     price: 2615.26,
   },
   {
-    date: "12/24/2024",
+    date: "2024-12-24",
     price: 2616.1,
   },
   {
-    date: "12/25/2024",
+    date: "2024-12-25",
     price: 2617.86,
   },
   {
-    date: "12/26/2024",
+    date: "2024-12-26",
     price: 2632.5,
   },
   {
-    date: "12/27/2024",
+    date: "2024-12-27",
     price: 2620.84,
   },
   {
-    date: "12/29/2024",
+    date: "2024-12-29",
     price: 2623.83,
   },
   {
-    date: "12/30/2024",
+    date: "2024-12-30",
     price: 2606.51,
   },
   {
-    date: "12/31/2024",
+    date: "2024-12-31",
     price: 2624.19,
   },
   {
-    date: "1/1/2025",
+    date: "2025-01-01",
     price: 2623.68,
   },
   {
-    date: "1/2/2025",
+    date: "2025-01-02",
     price: 2658.11,
   },
   {
-    date: "1/3/2025",
+    date: "2025-01-03",
     price: 2639.82,
   },
   {
-    date: "1/5/2025",
+    date: "2025-01-05",
     price: 2640.67,
   },
   {
-    date: "1/6/2025",
+    date: "2025-01-06",
     price: 2634.43,
   },
   {
-    date: "1/7/2025",
+    date: "2025-01-07",
     price: 2649.46,
   },
   {
-    date: "1/8/2025",
+    date: "2025-01-08",
     price: 2662.54,
   },
   {
-    date: "1/9/2025",
+    date: "2025-01-09",
     price: 2669.95,
   },
   {
-    date: "1/10/2025",
+    date: "2025-01-10",
     price: 2688.77,
   },
   {
-    date: "1/12/2025",
+    date: "2025-01-12",
     price: 2690.64,
   },
   {
-    date: "1/13/2025",
+    date: "2025-01-13",
     price: 2667.83,
   },
   {
-    date: "1/14/2025",
+    date: "2025-01-14",
     price: 2675.21,
   },
   {
-    date: "1/15/2025",
+    date: "2025-01-15",
     price: 2694.62,
   },
   {
-    date: "1/16/2025",
+    date: "2025-01-16",
     price: 2714.52,
   },
   {
-    date: "1/17/2025",
+    date: "2025-01-17",
     price: 2701.88,
   },
   {
-    date: "1/19/2025",
+    date: "2025-01-19",
     price: 2696.41,
   },
   {
-    date: "1/20/2025",
+    date: "2025-01-20",
     price: 2710.18,
   },
   {
-    date: "1/21/2025",
+    date: "2025-01-21",
     price: 2744.2,
   },
   {
-    date: "1/22/2025",
+    date: "2025-01-22",
     price: 2755.28,
   },
   {
-    date: "1/23/2025",
+    date: "2025-01-23",
     price: 2754.18,
   },
   {
-    date: "1/24/2025",
+    date: "2025-01-24",
     price: 2770.96,
   },
   {
-    date: "1/26/2025",
+    date: "2025-01-26",
     price: 2767.1,
   },
   {
-    date: "1/27/2025",
+    date: "2025-01-27",
     price: 2742.32,
   },
   {
-    date: "1/28/2025",
+    date: "2025-01-28",
     price: 2762.64,
   },
   {
-    date: "1/29/2025",
+    date: "2025-01-29",
     price: 2760.01,
   },
   {
-    date: "1/30/2025",
+    date: "2025-01-30",
     price: 2796,
   },
   {
-    date: "1/31/2025",
+    date: "2025-01-31",
     price: 2797.46,
   },
   {
-    date: "2/2/2025",
+    date: "2025-02-02",
     price: 2792.51,
   },
   {
-    date: "2/3/2025",
+    date: "2025-02-03",
     price: 2813.34,
   },
   {
-    date: "2/4/2025",
+    date: "2025-02-04",
     price: 2841.19,
   },
   {
-    date: "2/6/2025",
+    date: "2025-02-06",
     price: 2857.86,
   },
   {
-    date: "2/7/2025",
+    date: "2025-02-07",
     price: 2860.09,
   },
   {
-    date: "2/9/2025",
+    date: "2025-02-09",
     price: 2867.22,
   },
   {
-    date: "2/10/2025",
+    date: "2025-02-10",
     price: 2917.64,
   },
   {
-    date: "2/11/2025",
+    date: "2025-02-11",
     price: 2898.27,
   },
   {
-    date: "2/12/2025",
+    date: "2025-02-12",
     price: 2904.5,
   },
   {
-    date: "2/13/2025",
+    date: "2025-02-13",
     price: 2930.86,
   },
   {
-    date: "2/14/2025",
+    date: "2025-02-14",
     price: 2882.14,
   },
   {
-    date: "2/16/2025",
+    date: "2025-02-16",
     price: 2879.37,
   },
   {
-    date: "2/17/2025",
+    date: "2025-02-17",
     price: 2899.18,
   },
   {
-    date: "2/18/2025",
+    date: "2025-02-18",
     price: 2933.76,
   },
   {
-    date: "2/19/2025",
+    date: "2025-02-19",
     price: 2935.19,
   },
   {
-    date: "2/20/2025",
+    date: "2025-02-20",
     price: 2940.81,
   },
   {
-    date: "2/21/2025",
+    date: "2025-02-21",
     price: 2935.49,
   },
 ];
 
-export const goldPriceHistory: GoldPriceDataType[] = [
-  {
-    currentPrice: 1810.67,
-    openingPrice: 1823.16,
-    highestPrice: 1827.65,
-    lowestPrice: 1809,
-    date: "2/24/2023",
-  },
-  {
-    currentPrice: 1811.8,
-    openingPrice: 1817.1,
-    highestPrice: 1817.1,
-    lowestPrice: 1810.72,
-    date: "2/26/2023",
-  },
-  {
-    currentPrice: 1817.08,
-    openingPrice: 1811.72,
-    highestPrice: 1820,
-    lowestPrice: 1806.69,
-    date: "2/27/2023",
-  },
-  {
-    currentPrice: 1825.49,
-    openingPrice: 1817.13,
-    highestPrice: 1830.86,
-    lowestPrice: 1805.73,
-    date: "2/28/2023",
-  },
-  {
-    currentPrice: 1836.51,
-    openingPrice: 1825.07,
-    highestPrice: 1844.03,
-    lowestPrice: 1823.01,
-    date: "3/1/2023",
-  },
-  {
-    currentPrice: 1837.66,
-    openingPrice: 1836.5,
-    highestPrice: 1838.66,
-    lowestPrice: 1830.02,
-    date: "3/2/2023",
-  },
-  {
-    currentPrice: 1855.18,
-    openingPrice: 1838.44,
-    highestPrice: 1856.3,
-    lowestPrice: 1837.1,
-    date: "3/3/2023",
-  },
-  {
-    currentPrice: 1852.19,
-    openingPrice: 1858.3,
-    highestPrice: 1858.31,
-    lowestPrice: 1852.16,
-    date: "3/5/2023",
-  },
-  {
-    currentPrice: 1846.29,
-    openingPrice: 1852.31,
-    highestPrice: 1857.96,
-    lowestPrice: 1844.8,
-    date: "3/6/2023",
-  },
-  {
-    currentPrice: 1813.82,
-    openingPrice: 1845.36,
-    highestPrice: 1851.36,
-    lowestPrice: 1812.5,
-    date: "3/7/2023",
-  },
-  {
-    currentPrice: 1815.12,
-    openingPrice: 1813.78,
-    highestPrice: 1823.95,
-    lowestPrice: 1809.2,
-    date: "3/8/2023",
-  },
-  {
-    currentPrice: 1831.37,
-    openingPrice: 1815.07,
-    highestPrice: 1835.09,
-    lowestPrice: 1811.9,
-    date: "3/9/2023",
-  },
-  {
-    currentPrice: 1867.05,
-    openingPrice: 1831.48,
-    highestPrice: 1869.82,
-    lowestPrice: 1827.71,
-    date: "3/10/2023",
-  },
-  {
-    currentPrice: 1877.59,
-    openingPrice: 1869.6,
-    highestPrice: 1893.75,
-    lowestPrice: 1866.99,
-    date: "3/12/2023",
-  },
-  {
-    currentPrice: 1912.13,
-    openingPrice: 1876.65,
-    highestPrice: 1914.4,
-    lowestPrice: 1871.59,
-    date: "3/13/2023",
-  },
-  {
-    currentPrice: 1903.02,
-    openingPrice: 1911.76,
-    highestPrice: 1913.93,
-    lowestPrice: 1896.25,
-    date: "3/14/2023",
-  },
-  {
-    currentPrice: 1921.03,
-    openingPrice: 1902.45,
-    highestPrice: 1937.02,
-    lowestPrice: 1886.09,
-    date: "3/15/2023",
-  },
-  {
-    currentPrice: 1921.3,
-    openingPrice: 1921.46,
-    highestPrice: 1932.68,
-    lowestPrice: 1907.66,
-    date: "3/16/2023",
-  },
-  {
-    currentPrice: 1987.46,
-    openingPrice: 1921.34,
-    highestPrice: 1988.78,
-    lowestPrice: 1918.48,
-    date: "3/17/2023",
-  },
-  {
-    currentPrice: 1976.55,
-    openingPrice: 1988.78,
-    highestPrice: 2009.79,
-    lowestPrice: 1975.4,
-    date: "3/19/2023",
-  },
-  {
-    currentPrice: 1976.52,
-    openingPrice: 1976.47,
-    highestPrice: 2009.23,
-    lowestPrice: 1966.12,
-    date: "3/20/2023",
-  },
-  {
-    currentPrice: 1942.81,
-    openingPrice: 1977.26,
-    highestPrice: 1984.78,
-    lowestPrice: 1935.51,
-    date: "3/21/2023",
-  },
-  {
-    currentPrice: 1969.57,
-    openingPrice: 1943.12,
-    highestPrice: 1977.88,
-    lowestPrice: 1934.65,
-    date: "3/22/2023",
-  },
-  {
-    currentPrice: 1991.23,
-    openingPrice: 1969.94,
-    highestPrice: 2003.22,
-    lowestPrice: 1966.58,
-    date: "3/23/2023",
-  },
-  {
-    currentPrice: 1978.42,
-    openingPrice: 1991.37,
-    highestPrice: 2002.82,
-    lowestPrice: 1974.7,
-    date: "3/24/2023",
-  },
-  {
-    currentPrice: 1975.72,
-    openingPrice: 1978.32,
-    highestPrice: 1981.7,
-    lowestPrice: 1969.54,
-    date: "3/26/2023",
-  },
-  {
-    currentPrice: 1958.02,
-    openingPrice: 1975.63,
-    highestPrice: 1978.3,
-    lowestPrice: 1944.42,
-    date: "3/27/2023",
-  },
-  {
-    currentPrice: 1971.86,
-    openingPrice: 1958.2,
-    highestPrice: 1975.09,
-    lowestPrice: 1948.5,
-    date: "3/28/2023",
-  },
-  {
-    currentPrice: 1963.15,
-    openingPrice: 1972.27,
-    highestPrice: 1972.73,
-    lowestPrice: 1958.79,
-    date: "3/29/2023",
-  },
-  {
-    currentPrice: 1978.39,
-    openingPrice: 1963.1,
-    highestPrice: 1983.9,
-    lowestPrice: 1955.6,
-    date: "3/30/2023",
-  },
-  {
-    currentPrice: 1969.22,
-    openingPrice: 1978.21,
-    highestPrice: 1986.75,
-    lowestPrice: 1966.89,
-    date: "3/31/2023",
-  },
-  {
-    currentPrice: 1957.65,
-    openingPrice: 1969.3,
-    highestPrice: 1972.95,
-    lowestPrice: 1957.54,
-    date: "4/2/2023",
-  },
-  {
-    currentPrice: 1984.77,
-    openingPrice: 1957.54,
-    highestPrice: 1990.39,
-    lowestPrice: 1949.8,
-    date: "4/3/2023",
-  },
-  {
-    currentPrice: 2021.6,
-    openingPrice: 1984.6,
-    highestPrice: 2024.8,
-    lowestPrice: 1977.2,
-    date: "4/4/2023",
-  },
-  {
-    currentPrice: 2020.23,
-    openingPrice: 2021.48,
-    highestPrice: 2031.9,
-    lowestPrice: 2011.36,
-    date: "4/5/2023",
-  },
-  {
-    currentPrice: 2007.56,
-    openingPrice: 2020.34,
-    highestPrice: 2020.87,
-    lowestPrice: 2000.4,
-    date: "4/6/2023",
-  },
-  {
-    currentPrice: 2007.24,
-    openingPrice: 2007.05,
-    highestPrice: 2007.24,
-    lowestPrice: 2007.05,
-    date: "4/7/2023",
-  },
-  {
-    currentPrice: 2005.49,
-    openingPrice: 2020.3,
-    highestPrice: 2020.3,
-    lowestPrice: 1991.22,
-    date: "4/9/2023",
-  },
-  {
-    currentPrice: 1992.37,
-    openingPrice: 2005.17,
-    highestPrice: 2005.71,
-    lowestPrice: 1981.92,
-    date: "4/10/2023",
-  },
-  {
-    currentPrice: 2004.63,
-    openingPrice: 1992.3,
-    highestPrice: 2007.13,
-    lowestPrice: 1988.4,
-    date: "4/11/2023",
-  },
-  {
-    currentPrice: 2018.09,
-    openingPrice: 2004.87,
-    highestPrice: 2027.23,
-    lowestPrice: 2001.2,
-    date: "4/12/2023",
-  },
-  {
-    currentPrice: 2039.89,
-    openingPrice: 2018.1,
-    highestPrice: 2047.65,
-    lowestPrice: 2015.3,
-    date: "4/13/2023",
-  },
-  {
-    currentPrice: 2004.11,
-    openingPrice: 2039.56,
-    highestPrice: 2047.27,
-    lowestPrice: 1992.31,
-    date: "4/14/2023",
-  },
-  {
-    currentPrice: 2002.8,
-    openingPrice: 2004.03,
-    highestPrice: 2022.75,
-    lowestPrice: 1998.3,
-    date: "4/16/2023",
-  },
-  {
-    currentPrice: 1993.9,
-    openingPrice: 2002.62,
-    highestPrice: 2014.83,
-    lowestPrice: 1981.46,
-    date: "4/17/2023",
-  },
-  {
-    currentPrice: 2005.48,
-    openingPrice: 1993.87,
-    highestPrice: 2011.58,
-    lowestPrice: 1991.37,
-    date: "4/18/2023",
-  },
-  {
-    currentPrice: 1993.6,
-    openingPrice: 2005.74,
-    highestPrice: 2007.9,
-    lowestPrice: 1969.4,
-    date: "4/19/2023",
-  },
-  {
-    currentPrice: 2004.97,
-    openingPrice: 1993.63,
-    highestPrice: 2012.1,
-    lowestPrice: 1990.59,
-    date: "4/20/2023",
-  },
-  {
-    currentPrice: 1982.91,
-    openingPrice: 2005.27,
-    highestPrice: 2005.38,
-    lowestPrice: 1972.01,
-    date: "4/21/2023",
-  },
-  {
-    currentPrice: 1984.59,
-    openingPrice: 2001.9,
-    highestPrice: 2001.9,
-    lowestPrice: 1981.1,
-    date: "4/23/2023",
-  },
-  {
-    currentPrice: 1995.35,
-    openingPrice: 1984.62,
-    highestPrice: 1996.39,
-    lowestPrice: 1974.76,
-    date: "4/24/2023",
-  },
-  {
-    currentPrice: 2000.07,
-    openingPrice: 1994.97,
-    highestPrice: 2003.6,
-    lowestPrice: 1975.91,
-    date: "4/25/2023",
-  },
-  {
-    currentPrice: 1991.62,
-    openingPrice: 2000.44,
-    highestPrice: 2008.06,
-    lowestPrice: 1983.51,
-    date: "4/26/2023",
-  },
-  {
-    currentPrice: 1986.97,
-    openingPrice: 1991.52,
-    highestPrice: 2003.07,
-    lowestPrice: 1975.03,
-    date: "4/27/2023",
-  },
-  {
-    currentPrice: 1989.44,
-    openingPrice: 1987.17,
-    highestPrice: 1994.59,
-    lowestPrice: 1977.07,
-    date: "4/28/2023",
-  },
-  {
-    currentPrice: 1986.72,
-    openingPrice: 1989.42,
-    highestPrice: 2008.25,
-    lowestPrice: 1986.2,
-    date: "4/30/2023",
-  },
-  {
-    currentPrice: 1981.13,
-    openingPrice: 1986.95,
-    highestPrice: 2005.35,
-    lowestPrice: 1977.12,
-    date: "5/1/2023",
-  },
-  {
-    currentPrice: 2015.84,
-    openingPrice: 1981.63,
-    highestPrice: 2018.94,
-    lowestPrice: 1978.5,
-    date: "5/2/2023",
-  },
-  {
-    currentPrice: 2051.93,
-    openingPrice: 2015.98,
-    highestPrice: 2071.32,
-    lowestPrice: 2008.9,
-    date: "5/3/2023",
-  },
-  {
-    currentPrice: 2049.8,
-    openingPrice: 2052.78,
-    highestPrice: 2059.39,
-    lowestPrice: 2030.77,
-    date: "5/4/2023",
-  },
-  {
-    currentPrice: 2016.58,
-    openingPrice: 2049.79,
-    highestPrice: 2052.75,
-    lowestPrice: 1999.63,
-    date: "5/5/2023",
-  },
-  {
-    currentPrice: 2015.95,
-    openingPrice: 2016.67,
-    highestPrice: 2050.25,
-    lowestPrice: 2014,
-    date: "5/7/2023",
-  },
-  {
-    currentPrice: 2021.22,
-    openingPrice: 2015.8,
-    highestPrice: 2029.18,
-    lowestPrice: 2015.23,
-    date: "5/8/2023",
-  },
-  {
-    currentPrice: 2036.27,
-    openingPrice: 2021,
-    highestPrice: 2037.46,
-    lowestPrice: 2019,
-    date: "5/9/2023",
-  },
-  {
-    currentPrice: 2031.36,
-    openingPrice: 2036.57,
-    highestPrice: 2048.01,
-    lowestPrice: 2021.61,
-    date: "5/10/2023",
-  },
-  {
-    currentPrice: 2016.24,
-    openingPrice: 2031.21,
-    highestPrice: 2039.93,
-    lowestPrice: 2011.07,
-    date: "5/11/2023",
-  },
-  {
-    currentPrice: 2010.86,
-    openingPrice: 2016.37,
-    highestPrice: 2022.06,
-    lowestPrice: 2000.91,
-    date: "5/12/2023",
-  },
-  {
-    currentPrice: 2009.72,
-    openingPrice: 2010.6,
-    highestPrice: 2026.59,
-    lowestPrice: 2007.21,
-    date: "5/14/2023",
-  },
-  {
-    currentPrice: 2014.35,
-    openingPrice: 2009.53,
-    highestPrice: 2021.82,
-    lowestPrice: 2008.63,
-    date: "5/15/2023",
-  },
-  {
-    currentPrice: 1989.5,
-    openingPrice: 2014.35,
-    highestPrice: 2018.21,
-    lowestPrice: 1984.7,
-    date: "5/16/2023",
-  },
-  {
-    currentPrice: 1982.62,
-    openingPrice: 1988.8,
-    highestPrice: 1992.87,
-    lowestPrice: 1975.2,
-    date: "5/17/2023",
-  },
-  {
-    currentPrice: 1958.3,
-    openingPrice: 1982.62,
-    highestPrice: 1985.76,
-    lowestPrice: 1951.8,
-    date: "5/18/2023",
-  },
-  {
-    currentPrice: 1977.58,
-    openingPrice: 1958.38,
-    highestPrice: 1983.42,
-    lowestPrice: 1954.03,
-    date: "5/19/2023",
-  },
-  {
-    currentPrice: 1980.73,
-    openingPrice: 1980.1,
-    highestPrice: 1981.36,
-    lowestPrice: 1977.51,
-    date: "5/21/2023",
-  },
-  {
-    currentPrice: 1969.58,
-    openingPrice: 1981.07,
-    highestPrice: 1982.32,
-    lowestPrice: 1969,
-    date: "5/22/2023",
-  },
-  {
-    currentPrice: 1975,
-    openingPrice: 1969.94,
-    highestPrice: 1977.35,
-    lowestPrice: 1954.4,
-    date: "5/23/2023",
-  },
-  {
-    currentPrice: 1959.9,
-    openingPrice: 1975.19,
-    highestPrice: 1984.92,
-    lowestPrice: 1956.4,
-    date: "5/24/2023",
-  },
-  {
-    currentPrice: 1940.37,
-    openingPrice: 1960.03,
-    highestPrice: 1964.62,
-    lowestPrice: 1938.6,
-    date: "5/25/2023",
-  },
-  {
-    currentPrice: 1946.07,
-    openingPrice: 1948.96,
-    highestPrice: 1951.22,
-    lowestPrice: 1938.85,
-    date: "5/26/2023",
-  },
-  {
-    currentPrice: 1943.85,
-    openingPrice: 1946.6,
-    highestPrice: 1946.6,
-    lowestPrice: 1941.1,
-    date: "5/28/2023",
-  },
-  {
-    currentPrice: 1941.55,
-    openingPrice: 1944.04,
-    highestPrice: 1949.6,
-    lowestPrice: 1940.26,
-    date: "5/29/2023",
-  },
-  {
-    currentPrice: 1958.6,
-    openingPrice: 1941.54,
-    highestPrice: 1963.42,
-    lowestPrice: 1932.11,
-    date: "5/30/2023",
-  },
-  {
-    currentPrice: 1966.31,
-    openingPrice: 1958.5,
-    highestPrice: 1974.38,
-    lowestPrice: 1953.6,
-    date: "5/31/2023",
-  },
-  {
-    currentPrice: 1976.87,
-    openingPrice: 1966.22,
-    highestPrice: 1983,
-    lowestPrice: 1952.7,
-    date: "6/1/2023",
-  },
-  {
-    currentPrice: 1948,
-    openingPrice: 1977.15,
-    highestPrice: 1983.42,
-    lowestPrice: 1947.4,
-    date: "6/2/2023",
-  },
-  {
-    currentPrice: 1949.3,
-    openingPrice: 1950.6,
-    highestPrice: 1950.6,
-    lowestPrice: 1946.6,
-    date: "6/4/2023",
-  },
-  {
-    currentPrice: 1961.24,
-    openingPrice: 1949.27,
-    highestPrice: 1963.88,
-    lowestPrice: 1938.21,
-    date: "6/5/2023",
-  },
-  {
-    currentPrice: 1963.2,
-    openingPrice: 1961.4,
-    highestPrice: 1966.2,
-    lowestPrice: 1954.43,
-    date: "6/6/2023",
-  },
-  {
-    currentPrice: 1944.39,
-    openingPrice: 1963.29,
-    highestPrice: 1969.82,
-    lowestPrice: 1939,
-    date: "6/7/2023",
-  },
-  {
-    currentPrice: 1965.33,
-    openingPrice: 1944.36,
-    highestPrice: 1969.81,
-    lowestPrice: 1942.71,
-    date: "6/8/2023",
-  },
-  {
-    currentPrice: 1960.49,
-    openingPrice: 1965.2,
-    highestPrice: 1971.94,
-    lowestPrice: 1956.93,
-    date: "6/9/2023",
-  },
-  {
-    currentPrice: 1959.83,
-    openingPrice: 1963.1,
-    highestPrice: 1963.1,
-    lowestPrice: 1957.5,
-    date: "6/11/2023",
-  },
-  {
-    currentPrice: 1959.86,
-    openingPrice: 1960.09,
-    highestPrice: 1966.78,
-    lowestPrice: 1949.49,
-    date: "6/12/2023",
-  },
-  {
-    currentPrice: 1943.93,
-    openingPrice: 1959.98,
-    highestPrice: 1969.47,
-    lowestPrice: 1940.1,
-    date: "6/13/2023",
-  },
-  {
-    currentPrice: 1945.16,
-    openingPrice: 1944.19,
-    highestPrice: 1959.7,
-    lowestPrice: 1939.66,
-    date: "6/14/2023",
-  },
-  {
-    currentPrice: 1958.25,
-    openingPrice: 1944.8,
-    highestPrice: 1960.13,
-    lowestPrice: 1926.21,
-    date: "6/15/2023",
-  },
-  {
-    currentPrice: 1957.5,
-    openingPrice: 1958.23,
-    highestPrice: 1967.8,
-    lowestPrice: 1953.5,
-    date: "6/16/2023",
-  },
-  {
-    currentPrice: 1956.94,
-    openingPrice: 1957.45,
-    highestPrice: 1961.4,
-    lowestPrice: 1955.9,
-    date: "6/18/2023",
-  },
-  {
-    currentPrice: 1952.32,
-    openingPrice: 1957,
-    highestPrice: 1958.49,
-    lowestPrice: 1947.8,
-    date: "6/19/2023",
-  },
-  {
-    currentPrice: 1937.17,
-    openingPrice: 1952.39,
-    highestPrice: 1956.39,
-    lowestPrice: 1929,
-    date: "6/20/2023",
-  },
-  {
-    currentPrice: 1933.78,
-    openingPrice: 1936.55,
-    highestPrice: 1939.08,
-    lowestPrice: 1920.19,
-    date: "6/21/2023",
-  },
-  {
-    currentPrice: 1914.43,
-    openingPrice: 1933.91,
-    highestPrice: 1934.15,
-    lowestPrice: 1912.4,
-    date: "6/22/2023",
-  },
-  {
-    currentPrice: 1920.79,
-    openingPrice: 1914.47,
-    highestPrice: 1936.57,
-    lowestPrice: 1910.2,
-    date: "6/23/2023",
-  },
-  {
-    currentPrice: 1925.29,
-    openingPrice: 1920.51,
-    highestPrice: 1927.3,
-    lowestPrice: 1920.51,
-    date: "6/25/2023",
-  },
-  {
-    currentPrice: 1922.37,
-    openingPrice: 1925.22,
-    highestPrice: 1933.18,
-    lowestPrice: 1920.4,
-    date: "6/26/2023",
-  },
-  {
-    currentPrice: 1915.42,
-    openingPrice: 1922.57,
-    highestPrice: 1930.04,
-    lowestPrice: 1910.6,
-    date: "6/27/2023",
-  },
-  {
-    currentPrice: 1909.64,
-    openingPrice: 1915.26,
-    highestPrice: 1916.98,
-    lowestPrice: 1903.46,
-    date: "6/28/2023",
-  },
-  {
-    currentPrice: 1908.76,
-    openingPrice: 1909.47,
-    highestPrice: 1913,
-    lowestPrice: 1893.16,
-    date: "6/29/2023",
-  },
-  {
-    currentPrice: 1919.2,
-    openingPrice: 1908.71,
-    highestPrice: 1922.61,
-    lowestPrice: 1900.57,
-    date: "6/30/2023",
-  },
-  {
-    currentPrice: 1918.11,
-    openingPrice: 1920.3,
-    highestPrice: 1920.3,
-    lowestPrice: 1917.46,
-    date: "7/2/2023",
-  },
-  {
-    currentPrice: 1921.17,
-    openingPrice: 1917.7,
-    highestPrice: 1930.5,
-    lowestPrice: 1910.11,
-    date: "7/3/2023",
-  },
-  {
-    currentPrice: 1926.23,
-    openingPrice: 1921.07,
-    highestPrice: 1930.53,
-    lowestPrice: 1919.5,
-    date: "7/4/2023",
-  },
-  {
-    currentPrice: 1916.69,
-    openingPrice: 1926.34,
-    highestPrice: 1934.83,
-    lowestPrice: 1914.1,
-    date: "7/5/2023",
-  },
-  {
-    currentPrice: 1911.58,
-    openingPrice: 1916.75,
-    highestPrice: 1927.32,
-    lowestPrice: 1902.85,
-    date: "7/6/2023",
-  },
-  {
-    currentPrice: 1925.53,
-    openingPrice: 1911.5,
-    highestPrice: 1934.62,
-    lowestPrice: 1909.4,
-    date: "7/7/2023",
-  },
-  {
-    currentPrice: 1924.82,
-    openingPrice: 1925.43,
-    highestPrice: 1927.99,
-    lowestPrice: 1923.1,
-    date: "7/9/2023",
-  },
-  {
-    currentPrice: 1924.76,
-    openingPrice: 1924.99,
-    highestPrice: 1926.79,
-    lowestPrice: 1912.72,
-    date: "7/10/2023",
-  },
-  {
-    currentPrice: 1933.19,
-    openingPrice: 1924.93,
-    highestPrice: 1938.2,
-    lowestPrice: 1923.9,
-    date: "7/11/2023",
-  },
-  {
-    currentPrice: 1957.68,
-    openingPrice: 1933.28,
-    highestPrice: 1959.58,
-    lowestPrice: 1932.9,
-    date: "7/12/2023",
-  },
-  {
-    currentPrice: 1959.88,
-    openingPrice: 1957.68,
-    highestPrice: 1963.21,
-    lowestPrice: 1952.92,
-    date: "7/13/2023",
-  },
-  {
-    currentPrice: 1955.43,
-    openingPrice: 1960.34,
-    highestPrice: 1963.69,
-    lowestPrice: 1951.1,
-    date: "7/14/2023",
-  },
-  {
-    currentPrice: 1953.21,
-    openingPrice: 1957.9,
-    highestPrice: 1957.9,
-    lowestPrice: 1951.2,
-    date: "7/16/2023",
-  },
-  {
-    currentPrice: 1955.39,
-    openingPrice: 1953.1,
-    highestPrice: 1959.66,
-    lowestPrice: 1945.93,
-    date: "7/17/2023",
-  },
-  {
-    currentPrice: 1977.43,
-    openingPrice: 1955.06,
-    highestPrice: 1984.1,
-    lowestPrice: 1954.66,
-    date: "7/18/2023",
-  },
-  {
-    currentPrice: 1977.65,
-    openingPrice: 1977.59,
-    highestPrice: 1980.79,
-    lowestPrice: 1970.1,
-    date: "7/19/2023",
-  },
-  {
-    currentPrice: 1972.07,
-    openingPrice: 1977.55,
-    highestPrice: 1987.32,
-    lowestPrice: 1965.43,
-    date: "7/20/2023",
-  },
-  {
-    currentPrice: 1961.6,
-    openingPrice: 1972.14,
-    highestPrice: 1973.68,
-    lowestPrice: 1958.08,
-    date: "7/21/2023",
-  },
-  {
-    currentPrice: 1961.11,
-    openingPrice: 1962.3,
-    highestPrice: 1962.76,
-    lowestPrice: 1960.1,
-    date: "7/23/2023",
-  },
-  {
-    currentPrice: 1954.37,
-    openingPrice: 1961.19,
-    highestPrice: 1967.68,
-    lowestPrice: 1952.8,
-    date: "7/24/2023",
-  },
-  {
-    currentPrice: 1965.29,
-    openingPrice: 1954.29,
-    highestPrice: 1966.13,
-    lowestPrice: 1951.96,
-    date: "7/25/2023",
-  },
-  {
-    currentPrice: 1971.98,
-    openingPrice: 1965.37,
-    highestPrice: 1977.72,
-    lowestPrice: 1961.8,
-    date: "7/26/2023",
-  },
-  {
-    currentPrice: 1947.37,
-    openingPrice: 1971.97,
-    highestPrice: 1981.93,
-    lowestPrice: 1942.1,
-    date: "7/27/2023",
-  },
-  {
-    currentPrice: 1959,
-    openingPrice: 1947.32,
-    highestPrice: 1963.46,
-    lowestPrice: 1946,
-    date: "7/28/2023",
-  },
-  {
-    currentPrice: 1957.96,
-    openingPrice: 1959.1,
-    highestPrice: 1961.7,
-    lowestPrice: 1956.9,
-    date: "7/30/2023",
-  },
-  {
-    currentPrice: 1963.95,
-    openingPrice: 1957.94,
-    highestPrice: 1972.23,
-    lowestPrice: 1952.79,
-    date: "7/31/2023",
-  },
-  {
-    currentPrice: 1952.15,
-    openingPrice: 1963.88,
-    highestPrice: 1964.6,
-    lowestPrice: 1941.29,
-    date: "8/1/2023",
-  },
-  {
-    currentPrice: 1935.98,
-    openingPrice: 1951.66,
-    highestPrice: 1954.55,
-    lowestPrice: 1933.44,
-    date: "8/2/2023",
-  },
-  {
-    currentPrice: 1935.65,
-    openingPrice: 1936.11,
-    highestPrice: 1938.79,
-    lowestPrice: 1929.75,
-    date: "8/3/2023",
-  },
-  {
-    currentPrice: 1942.51,
-    openingPrice: 1935.89,
-    highestPrice: 1946.07,
-    lowestPrice: 1930.41,
-    date: "8/4/2023",
-  },
-  {
-    currentPrice: 1942.51,
-    openingPrice: 1942.51,
-    highestPrice: 1942.51,
-    lowestPrice: 1942.51,
-    date: "8/6/2023",
-  },
-  {
-    currentPrice: 1936.64,
-    openingPrice: 1944.78,
-    highestPrice: 1944.78,
-    lowestPrice: 1931.69,
-    date: "8/7/2023",
-  },
-  {
-    currentPrice: 1925.56,
-    openingPrice: 1936.82,
-    highestPrice: 1937.1,
-    lowestPrice: 1922.81,
-    date: "8/8/2023",
-  },
-  {
-    currentPrice: 1916.62,
-    openingPrice: 1925.49,
-    highestPrice: 1932.23,
-    lowestPrice: 1913.4,
-    date: "8/9/2023",
-  },
-  {
-    currentPrice: 1912.35,
-    openingPrice: 1916.56,
-    highestPrice: 1929.52,
-    lowestPrice: 1910.9,
-    date: "8/10/2023",
-  },
-  {
-    currentPrice: 1913.56,
-    openingPrice: 1912.34,
-    highestPrice: 1920.83,
-    lowestPrice: 1911.7,
-    date: "8/11/2023",
-  },
-  {
-    currentPrice: 1913.69,
-    openingPrice: 1913.46,
-    highestPrice: 1915.1,
-    lowestPrice: 1911.6,
-    date: "8/13/2023",
-  },
-  {
-    currentPrice: 1907.48,
-    openingPrice: 1913.67,
-    highestPrice: 1915.97,
-    lowestPrice: 1902.7,
-    date: "8/14/2023",
-  },
-  {
-    currentPrice: 1901.52,
-    openingPrice: 1907.53,
-    highestPrice: 1911.34,
-    lowestPrice: 1896.69,
-    date: "8/15/2023",
-  },
-  {
-    currentPrice: 1893.27,
-    openingPrice: 1901.31,
-    highestPrice: 1907.1,
-    lowestPrice: 1891.2,
-    date: "8/16/2023",
-  },
-  {
-    currentPrice: 1891.35,
-    openingPrice: 1893.17,
-    highestPrice: 1902.96,
-    lowestPrice: 1884.7,
-    date: "8/17/2023",
-  },
-  {
-    currentPrice: 1889.28,
-    openingPrice: 1891.29,
-    highestPrice: 1896.06,
-    lowestPrice: 1886.8,
-    date: "8/18/2023",
-  },
-  {
-    currentPrice: 1889.28,
-    openingPrice: 1889.28,
-    highestPrice: 1889.28,
-    lowestPrice: 1889.28,
-    date: "8/20/2023",
-  },
-  {
-    currentPrice: 1898.45,
-    openingPrice: 1900.07,
-    highestPrice: 1904.25,
-    lowestPrice: 1889.68,
-    date: "8/22/2023",
-  },
-  {
-    currentPrice: 1917.92,
-    openingPrice: 1898.46,
-    highestPrice: 1920.13,
-    lowestPrice: 1897.7,
-    date: "8/23/2023",
-  },
-  {
-    currentPrice: 1915.7,
-    openingPrice: 1917.95,
-    highestPrice: 1923.01,
-    lowestPrice: 1912.04,
-    date: "8/24/2023",
-  },
-  {
-    currentPrice: 1914.64,
-    openingPrice: 1915.69,
-    highestPrice: 1922.25,
-    lowestPrice: 1903.4,
-    date: "8/25/2023",
-  },
-  {
-    currentPrice: 1915.02,
-    openingPrice: 1914.1,
-    highestPrice: 1915.97,
-    lowestPrice: 1913.9,
-    date: "8/27/2023",
-  },
-  {
-    currentPrice: 1921.09,
-    openingPrice: 1915.12,
-    highestPrice: 1925.79,
-    lowestPrice: 1913.1,
-    date: "8/28/2023",
-  },
-  {
-    currentPrice: 1936.14,
-    openingPrice: 1921.21,
-    highestPrice: 1938.02,
-    lowestPrice: 1914.53,
-    date: "8/29/2023",
-  },
-  {
-    currentPrice: 1944.18,
-    openingPrice: 1936.2,
-    highestPrice: 1948.7,
-    lowestPrice: 1934.7,
-    date: "8/30/2023",
-  },
-  {
-    currentPrice: 1939.94,
-    openingPrice: 1944.15,
-    highestPrice: 1947.63,
-    lowestPrice: 1938.4,
-    date: "8/31/2023",
-  },
-  {
-    currentPrice: 1939.87,
-    openingPrice: 1939.79,
-    highestPrice: 1952.29,
-    lowestPrice: 1934.61,
-    date: "9/1/2023",
-  },
-  {
-    currentPrice: 1939.87,
-    openingPrice: 1939.87,
-    highestPrice: 1939.87,
-    lowestPrice: 1939.87,
-    date: "9/3/2023",
-  },
-  {
-    currentPrice: 1937.58,
-    openingPrice: 1941.33,
-    highestPrice: 1946.15,
-    lowestPrice: 1936.8,
-    date: "9/4/2023",
-  },
-  {
-    currentPrice: 1926.54,
-    openingPrice: 1937.46,
-    highestPrice: 1938.89,
-    lowestPrice: 1924.7,
-    date: "9/5/2023",
-  },
-  {
-    currentPrice: 1917.03,
-    openingPrice: 1926.6,
-    highestPrice: 1929.04,
-    lowestPrice: 1915.34,
-    date: "9/6/2023",
-  },
-  {
-    currentPrice: 1920.05,
-    openingPrice: 1917.05,
-    highestPrice: 1923.36,
-    lowestPrice: 1915.7,
-    date: "9/7/2023",
-  },
-  {
-    currentPrice: 1918.95,
-    openingPrice: 1920.13,
-    highestPrice: 1929.41,
-    lowestPrice: 1917.52,
-    date: "9/8/2023",
-  },
-  {
-    currentPrice: 1918.82,
-    openingPrice: 1920.4,
-    highestPrice: 1920.41,
-    lowestPrice: 1917.2,
-    date: "9/10/2023",
-  },
-  {
-    currentPrice: 1921.55,
-    openingPrice: 1918.91,
-    highestPrice: 1930.45,
-    lowestPrice: 1918.4,
-    date: "9/11/2023",
-  },
-  {
-    currentPrice: 1912.86,
-    openingPrice: 1921.52,
-    highestPrice: 1924.23,
-    lowestPrice: 1907.87,
-    date: "9/12/2023",
-  },
-  {
-    currentPrice: 1909.17,
-    openingPrice: 1912.83,
-    highestPrice: 1915.7,
-    lowestPrice: 1906.36,
-    date: "9/13/2023",
-  },
-  {
-    currentPrice: 1909.76,
-    openingPrice: 1909.08,
-    highestPrice: 1912.74,
-    lowestPrice: 1900.5,
-    date: "9/14/2023",
-  },
-  {
-    currentPrice: 1923.56,
-    openingPrice: 1909.78,
-    highestPrice: 1930.27,
-    lowestPrice: 1909.1,
-    date: "9/15/2023",
-  },
-  {
-    currentPrice: 1923.2,
-    openingPrice: 1923.57,
-    highestPrice: 1925.2,
-    lowestPrice: 1921.9,
-    date: "9/17/2023",
-  },
-  {
-    currentPrice: 1934.02,
-    openingPrice: 1923.17,
-    highestPrice: 1934.44,
-    lowestPrice: 1922.2,
-    date: "9/18/2023",
-  },
-  {
-    currentPrice: 1931.33,
-    openingPrice: 1934.27,
-    highestPrice: 1937.15,
-    lowestPrice: 1929.5,
-    date: "9/19/2023",
-  },
-  {
-    currentPrice: 1929.33,
-    openingPrice: 1931.34,
-    highestPrice: 1947.34,
-    lowestPrice: 1927.7,
-    date: "9/20/2023",
-  },
-  {
-    currentPrice: 1921.3,
-    openingPrice: 1929.42,
-    highestPrice: 1930.35,
-    lowestPrice: 1913.9,
-    date: "9/21/2023",
-  },
-  {
-    currentPrice: 1925.2,
-    openingPrice: 1921.47,
-    highestPrice: 1928.85,
-    lowestPrice: 1920.6,
-    date: "9/22/2023",
-  },
-  {
-    currentPrice: 1924.68,
-    openingPrice: 1925.23,
-    highestPrice: 1927.85,
-    lowestPrice: 1923.7,
-    date: "9/24/2023",
-  },
-  {
-    currentPrice: 1916.17,
-    openingPrice: 1924.74,
-    highestPrice: 1926.95,
-    lowestPrice: 1914.5,
-    date: "9/25/2023",
-  },
-  {
-    currentPrice: 1901.53,
-    openingPrice: 1916.1,
-    highestPrice: 1916.37,
-    lowestPrice: 1898.7,
-    date: "9/26/2023",
-  },
-  {
-    currentPrice: 1877.56,
-    openingPrice: 1901.5,
-    highestPrice: 1903.46,
-    lowestPrice: 1871.8,
-    date: "9/27/2023",
-  },
-  {
-    currentPrice: 1866.58,
-    openingPrice: 1877.46,
-    highestPrice: 1879.31,
-    lowestPrice: 1857.2,
-    date: "9/28/2023",
-  },
-  {
-    currentPrice: 1848.58,
-    openingPrice: 1866.56,
-    highestPrice: 1879.23,
-    lowestPrice: 1845.9,
-    date: "9/29/2023",
-  },
-  {
-    currentPrice: 1848.31,
-    openingPrice: 1848.46,
-    highestPrice: 1850.2,
-    lowestPrice: 1845.4,
-    date: "10/1/2023",
-  },
-  {
-    currentPrice: 1824.92,
-    openingPrice: 1848.38,
-    highestPrice: 1848.81,
-    lowestPrice: 1820.53,
-    date: "10/2/2023",
-  },
-  {
-    currentPrice: 1823.41,
-    openingPrice: 1824.72,
-    highestPrice: 1832.91,
-    lowestPrice: 1814.7,
-    date: "10/3/2023",
-  },
-  {
-    currentPrice: 1822.63,
-    openingPrice: 1822.97,
-    highestPrice: 1829.64,
-    lowestPrice: 1816.6,
-    date: "10/4/2023",
-  },
-  {
-    currentPrice: 1821.23,
-    openingPrice: 1822.58,
-    highestPrice: 1829.04,
-    lowestPrice: 1813.13,
-    date: "10/5/2023",
-  },
-  {
-    currentPrice: 1832.19,
-    openingPrice: 1821.45,
-    highestPrice: 1834.44,
-    lowestPrice: 1810.74,
-    date: "10/6/2023",
-  },
-  {
-    currentPrice: 1848.04,
-    openingPrice: 1832.46,
-    highestPrice: 1854.3,
-    lowestPrice: 1827.8,
-    date: "10/8/2023",
-  },
-  {
-    currentPrice: 1862.52,
-    openingPrice: 1847.88,
-    highestPrice: 1863.39,
-    lowestPrice: 1844.3,
-    date: "10/9/2023",
-  },
-  {
-    currentPrice: 1859.65,
-    openingPrice: 1862.82,
-    highestPrice: 1865.22,
-    lowestPrice: 1853.39,
-    date: "10/10/2023",
-  },
-  {
-    currentPrice: 1875.3,
-    openingPrice: 1859.83,
-    highestPrice: 1876.87,
-    lowestPrice: 1858.67,
-    date: "10/11/2023",
-  },
-  {
-    currentPrice: 1870.66,
-    openingPrice: 1875.37,
-    highestPrice: 1884.34,
-    lowestPrice: 1867.8,
-    date: "10/12/2023",
-  },
-  {
-    currentPrice: 1931.46,
-    openingPrice: 1870.59,
-    highestPrice: 1932.65,
-    lowestPrice: 1870.21,
-    date: "10/13/2023",
-  },
-  {
-    currentPrice: 1925.81,
-    openingPrice: 1932.9,
-    highestPrice: 1932.9,
-    lowestPrice: 1921.07,
-    date: "10/15/2023",
-  },
-  {
-    currentPrice: 1919.27,
-    openingPrice: 1925.4,
-    highestPrice: 1925.94,
-    lowestPrice: 1908.43,
-    date: "10/16/2023",
-  },
-  {
-    currentPrice: 1924.63,
-    openingPrice: 1919.46,
-    highestPrice: 1931.12,
-    lowestPrice: 1912.4,
-    date: "10/17/2023",
-  },
-  {
-    currentPrice: 1950.69,
-    openingPrice: 1924.77,
-    highestPrice: 1962.41,
-    lowestPrice: 1923.86,
-    date: "10/18/2023",
-  },
-  {
-    currentPrice: 1976.65,
-    openingPrice: 1950.94,
-    highestPrice: 1979.4,
-    lowestPrice: 1944.9,
-    date: "10/19/2023",
-  },
-  {
-    currentPrice: 1981.2,
-    openingPrice: 1977,
-    highestPrice: 1997.03,
-    lowestPrice: 1971.4,
-    date: "10/20/2023",
-  },
-  {
-    currentPrice: 1971.45,
-    openingPrice: 1972.35,
-    highestPrice: 1978.28,
-    lowestPrice: 1969.5,
-    date: "10/22/2023",
-  },
-  {
-    currentPrice: 1973.52,
-    openingPrice: 1970.62,
-    highestPrice: 1982.7,
-    lowestPrice: 1964.52,
-    date: "10/23/2023",
-  },
-  {
-    currentPrice: 1972.79,
-    openingPrice: 1973.59,
-    highestPrice: 1980.45,
-    lowestPrice: 1953.9,
-    date: "10/24/2023",
-  },
-  {
-    currentPrice: 1982.91,
-    openingPrice: 1972.82,
-    highestPrice: 1986.62,
-    lowestPrice: 1963.41,
-    date: "10/25/2023",
-  },
-  {
-    currentPrice: 1984.33,
-    openingPrice: 1982.93,
-    highestPrice: 1993.2,
-    lowestPrice: 1972.1,
-    date: "10/26/2023",
-  },
-  {
-    currentPrice: 2005.92,
-    openingPrice: 1984.24,
-    highestPrice: 2009.09,
-    lowestPrice: 1976.69,
-    date: "10/27/2023",
-  },
-  {
-    currentPrice: 2002.72,
-    openingPrice: 2008.1,
-    highestPrice: 2008.11,
-    lowestPrice: 1997.66,
-    date: "10/29/2023",
-  },
-  {
-    currentPrice: 1995.41,
-    openingPrice: 2002.49,
-    highestPrice: 2006.6,
-    lowestPrice: 1990.91,
-    date: "10/30/2023",
-  },
-  {
-    currentPrice: 1983.63,
-    openingPrice: 1995.01,
-    highestPrice: 2007.14,
-    lowestPrice: 1979.94,
-    date: "10/31/2023",
-  },
-  {
-    currentPrice: 1985.02,
-    openingPrice: 1983.38,
-    highestPrice: 1991.82,
-    lowestPrice: 1970.08,
-    date: "11/1/2023",
-  },
-  {
-    currentPrice: 1984.93,
-    openingPrice: 1984.88,
-    highestPrice: 1990.87,
-    lowestPrice: 1978.9,
-    date: "11/2/2023",
-  },
-  {
-    currentPrice: 1992.34,
-    openingPrice: 1985.14,
-    highestPrice: 2003.9,
-    lowestPrice: 1982.5,
-    date: "11/3/2023",
-  },
-  {
-    currentPrice: 1988.39,
-    openingPrice: 1993,
-    highestPrice: 1993,
-    lowestPrice: 1987.09,
-    date: "11/5/2023",
-  },
-  {
-    currentPrice: 1976.66,
-    openingPrice: 1988.6,
-    highestPrice: 1993.01,
-    lowestPrice: 1975,
-    date: "11/6/2023",
-  },
-  {
-    currentPrice: 1968.84,
-    openingPrice: 1976.51,
-    highestPrice: 1976.89,
-    lowestPrice: 1956.61,
-    date: "11/7/2023",
-  },
-  {
-    currentPrice: 1950.77,
-    openingPrice: 1968.96,
-    highestPrice: 1970.89,
-    lowestPrice: 1946.8,
-    date: "11/8/2023",
-  },
-  {
-    currentPrice: 1959.08,
-    openingPrice: 1950.82,
-    highestPrice: 1965.54,
-    lowestPrice: 1944.6,
-    date: "11/9/2023",
-  },
-  {
-    currentPrice: 1937.43,
-    openingPrice: 1959.4,
-    highestPrice: 1960.73,
-    lowestPrice: 1933,
-    date: "11/10/2023",
-  },
-  {
-    currentPrice: 1940.2,
-    openingPrice: 1938.03,
-    highestPrice: 1942.99,
-    lowestPrice: 1937.06,
-    date: "11/12/2023",
-  },
-  {
-    currentPrice: 1946.34,
-    openingPrice: 1940.04,
-    highestPrice: 1948.91,
-    lowestPrice: 1932.29,
-    date: "11/13/2023",
-  },
-  {
-    currentPrice: 1962.46,
-    openingPrice: 1946.6,
-    highestPrice: 1969.76,
-    lowestPrice: 1943.1,
-    date: "11/14/2023",
-  },
-  {
-    currentPrice: 1960.27,
-    openingPrice: 1962.16,
-    highestPrice: 1974.4,
-    lowestPrice: 1955.81,
-    date: "11/15/2023",
-  },
-  {
-    currentPrice: 1982.32,
-    openingPrice: 1960.22,
-    highestPrice: 1987.7,
-    lowestPrice: 1956.4,
-    date: "11/16/2023",
-  },
-  {
-    currentPrice: 1980.55,
-    openingPrice: 1982.18,
-    highestPrice: 1993.27,
-    lowestPrice: 1978,
-    date: "11/17/2023",
-  },
-  {
-    currentPrice: 1974.24,
-    openingPrice: 1980.65,
-    highestPrice: 1981,
-    lowestPrice: 1974.24,
-    date: "11/19/2023",
-  },
-  {
-    currentPrice: 1981.27,
-    openingPrice: 1975.73,
-    highestPrice: 1984.85,
-    lowestPrice: 1965.55,
-    date: "11/20/2023",
-  },
-  {
-    currentPrice: 1999.26,
-    openingPrice: 1981.25,
-    highestPrice: 2007.1,
-    lowestPrice: 1980.3,
-    date: "11/21/2023",
-  },
-  {
-    currentPrice: 1990.18,
-    openingPrice: 1999.2,
-    highestPrice: 2006.09,
-    lowestPrice: 1986.95,
-    date: "11/22/2023",
-  },
-  {
-    currentPrice: 1993.98,
-    openingPrice: 1990.08,
-    highestPrice: 1998.41,
-    lowestPrice: 1989.3,
-    date: "11/23/2023",
-  },
-  {
-    currentPrice: 2001.97,
-    openingPrice: 1994.07,
-    highestPrice: 2003.2,
-    lowestPrice: 1991.1,
-    date: "11/24/2023",
-  },
-  {
-    currentPrice: 2002.26,
-    openingPrice: 2002.8,
-    highestPrice: 2011.1,
-    lowestPrice: 2000.1,
-    date: "11/26/2023",
-  },
-  {
-    currentPrice: 2015.33,
-    openingPrice: 2002.34,
-    highestPrice: 2017.57,
-    lowestPrice: 2001.85,
-    date: "11/27/2023",
-  },
-  {
-    currentPrice: 2044.48,
-    openingPrice: 2015.29,
-    highestPrice: 2044.48,
-    lowestPrice: 2011.79,
-    date: "11/28/2023",
-  },
-  {
-    currentPrice: 2044.51,
-    openingPrice: 2044.41,
-    highestPrice: 2051.74,
-    lowestPrice: 2035.88,
-    date: "11/29/2023",
-  },
-  {
-    currentPrice: 2040.04,
-    openingPrice: 2044.53,
-    highestPrice: 2046.93,
-    lowestPrice: 2032.24,
-    date: "11/30/2023",
-  },
-  {
-    currentPrice: 2071.93,
-    openingPrice: 2040.04,
-    highestPrice: 2074.95,
-    lowestPrice: 2033.94,
-    date: "12/1/2023",
-  },
-  {
-    currentPrice: 2116.24,
-    openingPrice: 2071.95,
-    highestPrice: 2132.49,
-    lowestPrice: 2069.7,
-    date: "12/3/2023",
-  },
-  {
-    currentPrice: 2033.85,
-    openingPrice: 2120.04,
-    highestPrice: 2120.04,
-    lowestPrice: 2020.9,
-    date: "12/4/2023",
-  },
-  {
-    currentPrice: 2018.89,
-    openingPrice: 2033.79,
-    highestPrice: 2040.92,
-    lowestPrice: 2009.71,
-    date: "12/5/2023",
-  },
-  {
-    currentPrice: 2027.07,
-    openingPrice: 2018.88,
-    highestPrice: 2035.26,
-    lowestPrice: 2018.2,
-    date: "12/6/2023",
-  },
-  {
-    currentPrice: 2028.05,
-    openingPrice: 2026.98,
-    highestPrice: 2039.66,
-    lowestPrice: 2020.34,
-    date: "12/7/2023",
-  },
-  {
-    currentPrice: 2004.29,
-    openingPrice: 2028.3,
-    highestPrice: 2033.91,
-    lowestPrice: 1994.71,
-    date: "12/8/2023",
-  },
-  {
-    currentPrice: 2007.08,
-    openingPrice: 2004.25,
-    highestPrice: 2007.39,
-    lowestPrice: 2003.6,
-    date: "12/10/2023",
-  },
-  {
-    currentPrice: 1982.86,
-    openingPrice: 2007.14,
-    highestPrice: 2007.62,
-    lowestPrice: 1975.4,
-    date: "12/11/2023",
-  },
-  {
-    currentPrice: 1982.46,
-    openingPrice: 1982.95,
-    highestPrice: 1994.96,
-    lowestPrice: 1977.16,
-    date: "12/12/2023",
-  },
-  {
-    currentPrice: 2032.97,
-    openingPrice: 1982.25,
-    highestPrice: 2032.97,
-    lowestPrice: 1973.01,
-    date: "12/13/2023",
-  },
-  {
-    currentPrice: 2035.65,
-    openingPrice: 2032.52,
-    highestPrice: 2047.55,
-    lowestPrice: 2028.05,
-    date: "12/14/2023",
-  },
-  {
-    currentPrice: 2019.45,
-    openingPrice: 2035.96,
-    highestPrice: 2044.42,
-    lowestPrice: 2015.96,
-    date: "12/15/2023",
-  },
-  {
-    currentPrice: 2017.72,
-    openingPrice: 2019.59,
-    highestPrice: 2021.19,
-    lowestPrice: 2015.3,
-    date: "12/17/2023",
-  },
-  {
-    currentPrice: 2027.61,
-    openingPrice: 2017.66,
-    highestPrice: 2033.49,
-    lowestPrice: 2015.4,
-    date: "12/18/2023",
-  },
-  {
-    currentPrice: 2040.78,
-    openingPrice: 2027.48,
-    highestPrice: 2046.82,
-    lowestPrice: 2021.1,
-    date: "12/19/2023",
-  },
-  {
-    currentPrice: 2032.08,
-    openingPrice: 2040.8,
-    highestPrice: 2043.29,
-    lowestPrice: 2027.54,
-    date: "12/20/2023",
-  },
-  {
-    currentPrice: 2052.21,
-    openingPrice: 2032.01,
-    highestPrice: 2054.79,
-    lowestPrice: 2031.9,
-    date: "12/21/2023",
-  },
-  {
-    currentPrice: 2052.74,
-    openingPrice: 2052.98,
-    highestPrice: 2070.2,
-    lowestPrice: 2046.9,
-    date: "12/22/2023",
-  },
-  {
-    currentPrice: 2054.71,
-    openingPrice: 2054.71,
-    highestPrice: 2054.71,
-    lowestPrice: 2054.71,
-    date: "12/24/2023",
-  },
-  {
-    currentPrice: 2054.97,
-    openingPrice: 2053.41,
-    highestPrice: 2057.6,
-    lowestPrice: 2053.2,
-    date: "12/25/2023",
-  },
-  {
-    currentPrice: 2066.05,
-    openingPrice: 2054.69,
-    highestPrice: 2068.91,
-    lowestPrice: 2052.9,
-    date: "12/26/2023",
-  },
-  {
-    currentPrice: 2079.26,
-    openingPrice: 2066.36,
-    highestPrice: 2083.99,
-    lowestPrice: 2061.65,
-    date: "12/27/2023",
-  },
-  {
-    currentPrice: 2066.9,
-    openingPrice: 2079.31,
-    highestPrice: 2088.31,
-    lowestPrice: 2064.6,
-    date: "12/28/2023",
-  },
-  {
-    currentPrice: 2062.66,
-    openingPrice: 2066.69,
-    highestPrice: 2074.51,
-    lowestPrice: 2058.22,
-    date: "12/29/2023",
-  },
-  {
-    currentPrice: 2065.21,
-    openingPrice: 2065.21,
-    highestPrice: 2065.21,
-    lowestPrice: 2065.21,
-    date: "12/31/2023",
-  },
-  {
-    currentPrice: 2063.54,
-    openingPrice: 2064,
-    highestPrice: 2066.44,
-    lowestPrice: 2063,
-    date: "1/1/2024",
-  },
-  {
-    currentPrice: 2059.54,
-    openingPrice: 2063.78,
-    highestPrice: 2078.8,
-    lowestPrice: 2056.65,
-    date: "1/2/2024",
-  },
-  {
-    currentPrice: 2042.95,
-    openingPrice: 2059.55,
-    highestPrice: 2065.92,
-    lowestPrice: 2030.88,
-    date: "1/3/2024",
-  },
-  {
-    currentPrice: 2044.41,
-    openingPrice: 2042.92,
-    highestPrice: 2050.65,
-    lowestPrice: 2036.56,
-    date: "1/4/2024",
-  },
-  {
-    currentPrice: 2045.41,
-    openingPrice: 2044.02,
-    highestPrice: 2063.6,
-    lowestPrice: 2025.36,
-    date: "1/5/2024",
-  },
-  {
-    currentPrice: 2044.38,
-    openingPrice: 2046.65,
-    highestPrice: 2046.65,
-    lowestPrice: 2042.3,
-    date: "1/7/2024",
-  },
-  {
-    currentPrice: 2030.71,
-    openingPrice: 2044.1,
-    highestPrice: 2046.5,
-    lowestPrice: 2018.62,
-    date: "1/8/2024",
-  },
-  {
-    currentPrice: 2031.01,
-    openingPrice: 2029.8,
-    highestPrice: 2040.22,
-    lowestPrice: 2026.12,
-    date: "1/9/2024",
-  },
-  {
-    currentPrice: 2026.71,
-    openingPrice: 2030.74,
-    highestPrice: 2040.19,
-    lowestPrice: 2020.39,
-    date: "1/10/2024",
-  },
-  {
-    currentPrice: 2034.92,
-    openingPrice: 2026.87,
-    highestPrice: 2038.96,
-    lowestPrice: 2013.39,
-    date: "1/11/2024",
-  },
-  {
-    currentPrice: 2048.99,
-    openingPrice: 2035.2,
-    highestPrice: 2062.13,
-    lowestPrice: 2029.9,
-    date: "1/12/2024",
-  },
-  {
-    currentPrice: 2047.49,
-    openingPrice: 2050.25,
-    highestPrice: 2050.25,
-    lowestPrice: 2045.5,
-    date: "1/14/2024",
-  },
-  {
-    currentPrice: 2054.2,
-    openingPrice: 2047.29,
-    highestPrice: 2058.55,
-    lowestPrice: 2045.8,
-    date: "1/15/2024",
-  },
-  {
-    currentPrice: 2028.21,
-    openingPrice: 2054.25,
-    highestPrice: 2054.4,
-    lowestPrice: 2023.9,
-    date: "1/16/2024",
-  },
-  {
-    currentPrice: 2009.7,
-    openingPrice: 2028.01,
-    highestPrice: 2032.36,
-    lowestPrice: 2001.4,
-    date: "1/17/2024",
-  },
-  {
-    currentPrice: 2023.71,
-    openingPrice: 2009.5,
-    highestPrice: 2024.34,
-    lowestPrice: 2005.5,
-    date: "1/18/2024",
-  },
-  {
-    currentPrice: 2029.47,
-    openingPrice: 2023.33,
-    highestPrice: 2039.29,
-    lowestPrice: 2019.6,
-    date: "1/19/2024",
-  },
-  {
-    currentPrice: 2027.45,
-    openingPrice: 2031.9,
-    highestPrice: 2031.9,
-    lowestPrice: 2026.1,
-    date: "1/21/2024",
-  },
-  {
-    currentPrice: 2020.7,
-    openingPrice: 2027.29,
-    highestPrice: 2031.92,
-    lowestPrice: 2017.46,
-    date: "1/22/2024",
-  },
-  {
-    currentPrice: 2029.4,
-    openingPrice: 2021.28,
-    highestPrice: 2037.65,
-    lowestPrice: 2019.1,
-    date: "1/23/2024",
-  },
-  {
-    currentPrice: 2016.41,
-    openingPrice: 2028.9,
-    highestPrice: 2036.33,
-    lowestPrice: 2011.22,
-    date: "1/24/2024",
-  },
-  {
-    currentPrice: 2020.59,
-    openingPrice: 2016.43,
-    highestPrice: 2024.84,
-    lowestPrice: 2010.71,
-    date: "1/25/2024",
-  },
-  {
-    currentPrice: 2018.33,
-    openingPrice: 2020.73,
-    highestPrice: 2025.91,
-    lowestPrice: 2016,
-    date: "1/26/2024",
-  },
-  {
-    currentPrice: 2021.74,
-    openingPrice: 2018.75,
-    highestPrice: 2027.43,
-    lowestPrice: 2018.75,
-    date: "1/28/2024",
-  },
-  {
-    currentPrice: 2031.16,
-    openingPrice: 2021.79,
-    highestPrice: 2037.24,
-    lowestPrice: 2018.5,
-    date: "1/29/2024",
-  },
-  {
-    currentPrice: 2036.4,
-    openingPrice: 2031.27,
-    highestPrice: 2048.31,
-    lowestPrice: 2029.1,
-    date: "1/30/2024",
-  },
-  {
-    currentPrice: 2039.85,
-    openingPrice: 2036.74,
-    highestPrice: 2055.78,
-    lowestPrice: 2031,
-    date: "1/31/2024",
-  },
-  {
-    currentPrice: 2054.66,
-    openingPrice: 2040,
-    highestPrice: 2065.14,
-    lowestPrice: 2038.5,
-    date: "2/1/2024",
-  },
-  {
-    currentPrice: 2039.58,
-    openingPrice: 2054.68,
-    highestPrice: 2057.42,
-    lowestPrice: 2027.2,
-    date: "2/2/2024",
-  },
-  {
-    currentPrice: 2039.31,
-    openingPrice: 2042.4,
-    highestPrice: 2042.4,
-    lowestPrice: 2038.2,
-    date: "2/4/2024",
-  },
-  {
-    currentPrice: 2024.99,
-    openingPrice: 2040.01,
-    highestPrice: 2040.01,
-    lowestPrice: 2014.4,
-    date: "2/5/2024",
-  },
-  {
-    currentPrice: 2035.15,
-    openingPrice: 2025.1,
-    highestPrice: 2038.62,
-    lowestPrice: 2022.6,
-    date: "2/6/2024",
-  },
-  {
-    currentPrice: 2036.54,
-    openingPrice: 2035.21,
-    highestPrice: 2044.47,
-    lowestPrice: 2030.57,
-    date: "2/7/2024",
-  },
-  {
-    currentPrice: 2034.1,
-    openingPrice: 2036.42,
-    highestPrice: 2038.43,
-    lowestPrice: 2020.34,
-    date: "2/8/2024",
-  },
-  {
-    currentPrice: 2024.38,
-    openingPrice: 2034.1,
-    highestPrice: 2036.75,
-    lowestPrice: 2020.3,
-    date: "2/9/2024",
-  },
-  {
-    currentPrice: 2025.38,
-    openingPrice: 2023.45,
-    highestPrice: 2026.6,
-    lowestPrice: 2023.45,
-    date: "2/11/2024",
-  },
-  {
-    currentPrice: 2018.76,
-    openingPrice: 2025.25,
-    highestPrice: 2026.98,
-    lowestPrice: 2011.3,
-    date: "2/12/2024",
-  },
-  {
-    currentPrice: 1991.28,
-    openingPrice: 2018.76,
-    highestPrice: 2029.71,
-    lowestPrice: 1990.19,
-    date: "2/13/2024",
-  },
-  {
-    currentPrice: 1993.75,
-    openingPrice: 1991.24,
-    highestPrice: 1996,
-    lowestPrice: 1985.27,
-    date: "2/14/2024",
-  },
-  {
-    currentPrice: 2003.26,
-    openingPrice: 1993.79,
-    highestPrice: 2007.9,
-    lowestPrice: 1990.18,
-    date: "2/15/2024",
-  },
-  {
-    currentPrice: 2013.01,
-    openingPrice: 2003.35,
-    highestPrice: 2015.02,
-    lowestPrice: 1995.22,
-    date: "2/16/2024",
-  },
-  {
-    currentPrice: 2007,
-    openingPrice: 2012.3,
-    highestPrice: 2013.96,
-    lowestPrice: 2006.37,
-    date: "2/18/2024",
-  },
-  {
-    currentPrice: 2016.11,
-    openingPrice: 2012.87,
-    highestPrice: 2022.67,
-    lowestPrice: 2007,
-    date: "2/19/2024",
-  },
-  {
-    currentPrice: 2024.07,
-    openingPrice: 2016.11,
-    highestPrice: 2030.66,
-    lowestPrice: 2014.2,
-    date: "2/20/2024",
-  },
-  {
-    currentPrice: 2025.68,
-    openingPrice: 2023.8,
-    highestPrice: 2031.98,
-    lowestPrice: 2020.47,
-    date: "2/21/2024",
-  },
-  {
-    currentPrice: 2024.79,
-    openingPrice: 2025.52,
-    highestPrice: 2034.37,
-    lowestPrice: 2019.77,
-    date: "2/22/2024",
-  },
-  {
-    currentPrice: 2035.39,
-    openingPrice: 2024.69,
-    highestPrice: 2041.16,
-    lowestPrice: 2015.99,
-    date: "2/23/2024",
-  },
-  {
-    currentPrice: 2034.11,
-    openingPrice: 2034.29,
-    highestPrice: 2034.64,
-    lowestPrice: 2032.2,
-    date: "2/25/2024",
-  },
-  {
-    currentPrice: 2031.06,
-    openingPrice: 2033.79,
-    highestPrice: 2036.78,
-    lowestPrice: 2025.2,
-    date: "2/26/2024",
-  },
-  {
-    currentPrice: 2030.08,
-    openingPrice: 2031.12,
-    highestPrice: 2039.29,
-    lowestPrice: 2028.78,
-    date: "2/27/2024",
-  },
-  {
-    currentPrice: 2034.6,
-    openingPrice: 2030,
-    highestPrice: 2037.52,
-    lowestPrice: 2024.5,
-    date: "2/28/2024",
-  },
-  {
-    currentPrice: 2044.13,
-    openingPrice: 2034.57,
-    highestPrice: 2050.42,
-    lowestPrice: 2028.16,
-    date: "2/29/2024",
-  },
-  {
-    currentPrice: 2082.65,
-    openingPrice: 2044.08,
-    highestPrice: 2088.03,
-    lowestPrice: 2038.6,
-    date: "3/1/2024",
-  },
-  {
-    currentPrice: 2083.28,
-    openingPrice: 2084.35,
-    highestPrice: 2086,
-    lowestPrice: 2081.7,
-    date: "3/3/2024",
-  },
-  {
-    currentPrice: 2114.52,
-    openingPrice: 2083.17,
-    highestPrice: 2119.61,
-    lowestPrice: 2079.4,
-    date: "3/4/2024",
-  },
-  {
-    currentPrice: 2128.17,
-    openingPrice: 2114.3,
-    highestPrice: 2141.62,
-    lowestPrice: 2110,
-    date: "3/5/2024",
-  },
-  {
-    currentPrice: 2147.44,
-    openingPrice: 2127.91,
-    highestPrice: 2152.07,
-    lowestPrice: 2123.6,
-    date: "3/6/2024",
-  },
-  {
-    currentPrice: 2162.04,
-    openingPrice: 2147.45,
-    highestPrice: 2163.15,
-    lowestPrice: 2144.26,
-    date: "3/7/2024",
-  },
-  {
-    currentPrice: 2178.76,
-    openingPrice: 2161.53,
-    highestPrice: 2194.89,
-    lowestPrice: 2154.03,
-    date: "3/8/2024",
-  },
-  {
-    currentPrice: 2181.7,
-    openingPrice: 2180.23,
-    highestPrice: 2183.66,
-    lowestPrice: 2176.5,
-    date: "3/10/2024",
-  },
-  {
-    currentPrice: 2183.59,
-    openingPrice: 2182.11,
-    highestPrice: 2188.68,
-    lowestPrice: 2175.7,
-    date: "3/11/2024",
-  },
-  {
-    currentPrice: 2156.93,
-    openingPrice: 2183.87,
-    highestPrice: 2184.36,
-    lowestPrice: 2150.53,
-    date: "3/12/2024",
-  },
-  {
-    currentPrice: 2175.4,
-    openingPrice: 2156.91,
-    highestPrice: 2179.03,
-    lowestPrice: 2156.7,
-    date: "3/13/2024",
-  },
-  {
-    currentPrice: 2161.58,
-    openingPrice: 2175.28,
-    highestPrice: 2176.74,
-    lowestPrice: 2152.98,
-    date: "3/14/2024",
-  },
-  {
-    currentPrice: 2155.78,
-    openingPrice: 2161.56,
-    highestPrice: 2172.44,
-    lowestPrice: 2155.54,
-    date: "3/15/2024",
-  },
-  {
-    currentPrice: 2156.6,
-    openingPrice: 2152.92,
-    highestPrice: 2156.63,
-    lowestPrice: 2151.6,
-    date: "3/17/2024",
-  },
-  {
-    currentPrice: 2161.86,
-    openingPrice: 2156.5,
-    highestPrice: 2163.49,
-    lowestPrice: 2145.3,
-    date: "3/18/2024",
-  },
-  {
-    currentPrice: 2157.06,
-    openingPrice: 2162.27,
-    highestPrice: 2162.77,
-    lowestPrice: 2147.12,
-    date: "3/19/2024",
-  },
-  {
-    currentPrice: 2203.89,
-    openingPrice: 2157.11,
-    highestPrice: 2222.06,
-    lowestPrice: 2149.66,
-    date: "3/20/2024",
-  },
-  {
-    currentPrice: 2181.69,
-    openingPrice: 2203.88,
-    highestPrice: 2211.57,
-    lowestPrice: 2166.32,
-    date: "3/21/2024",
-  },
-  {
-    currentPrice: 2165.13,
-    openingPrice: 2181.67,
-    highestPrice: 2185.85,
-    lowestPrice: 2157.35,
-    date: "3/22/2024",
-  },
-  {
-    currentPrice: 2168.12,
-    openingPrice: 2175.21,
-    highestPrice: 2175.21,
-    lowestPrice: 2164.4,
-    date: "3/24/2024",
-  },
-  {
-    currentPrice: 2172.99,
-    openingPrice: 2168.18,
-    highestPrice: 2181.01,
-    lowestPrice: 2163.9,
-    date: "3/25/2024",
-  },
-  {
-    currentPrice: 2179.61,
-    openingPrice: 2172.71,
-    highestPrice: 2199.64,
-    lowestPrice: 2167.7,
-    date: "3/26/2024",
-  },
-  {
-    currentPrice: 2190.55,
-    openingPrice: 2179.5,
-    highestPrice: 2197.32,
-    lowestPrice: 2173.67,
-    date: "3/27/2024",
-  },
-  {
-    currentPrice: 2231.91,
-    openingPrice: 2190.97,
-    highestPrice: 2233.81,
-    lowestPrice: 2187,
-    date: "3/28/2024",
-  },
-  {
-    currentPrice: 2246.23,
-    openingPrice: 2237.65,
-    highestPrice: 2246.82,
-    lowestPrice: 2234.5,
-    date: "3/31/2024",
-  },
-  {
-    currentPrice: 2248.96,
-    openingPrice: 2244.75,
-    highestPrice: 2265.37,
-    lowestPrice: 2228.57,
-    date: "4/1/2024",
-  },
-  {
-    currentPrice: 2279.69,
-    openingPrice: 2248.57,
-    highestPrice: 2287.66,
-    lowestPrice: 2246.5,
-    date: "4/2/2024",
-  },
-  {
-    currentPrice: 2297.49,
-    openingPrice: 2279.73,
-    highestPrice: 2302.27,
-    lowestPrice: 2266.01,
-    date: "4/3/2024",
-  },
-  {
-    currentPrice: 2288.92,
-    openingPrice: 2297.34,
-    highestPrice: 2305.03,
-    lowestPrice: 2280.98,
-    date: "4/4/2024",
-  },
-  {
-    currentPrice: 2329.57,
-    openingPrice: 2289.04,
-    highestPrice: 2330.13,
-    lowestPrice: 2267.98,
-    date: "4/5/2024",
-  },
-  {
-    currentPrice: 2311.33,
-    openingPrice: 2320.99,
-    highestPrice: 2326.94,
-    lowestPrice: 2305.6,
-    date: "4/7/2024",
-  },
-  {
-    currentPrice: 2338.89,
-    openingPrice: 2312.03,
-    highestPrice: 2350.28,
-    lowestPrice: 2303.47,
-    date: "4/8/2024",
-  },
-  {
-    currentPrice: 2354.73,
-    openingPrice: 2338.96,
-    highestPrice: 2365.04,
-    lowestPrice: 2338.05,
-    date: "4/9/2024",
-  },
-  {
-    currentPrice: 2335.47,
-    openingPrice: 2354.75,
-    highestPrice: 2359.9,
-    lowestPrice: 2319.87,
-    date: "4/10/2024",
-  },
-  {
-    currentPrice: 2376.77,
-    openingPrice: 2335.39,
-    highestPrice: 2378.63,
-    lowestPrice: 2325.2,
-    date: "4/11/2024",
-  },
-  {
-    currentPrice: 2343.65,
-    openingPrice: 2375.81,
-    highestPrice: 2430.7,
-    lowestPrice: 2334.59,
-    date: "4/12/2024",
-  },
-  {
-    currentPrice: 2364.61,
-    openingPrice: 2361.3,
-    highestPrice: 2372,
-    lowestPrice: 2347.94,
-    date: "4/14/2024",
-  },
-  {
-    currentPrice: 2381.8,
-    openingPrice: 2363.77,
-    highestPrice: 2391.86,
-    lowestPrice: 2325.16,
-    date: "4/15/2024",
-  },
-  {
-    currentPrice: 2382.44,
-    openingPrice: 2380.83,
-    highestPrice: 2397.75,
-    lowestPrice: 2362.28,
-    date: "4/16/2024",
-  },
-  {
-    currentPrice: 2367.73,
-    openingPrice: 2382.89,
-    highestPrice: 2395.27,
-    lowestPrice: 2358.51,
-    date: "4/17/2024",
-  },
-  {
-    currentPrice: 2380.02,
-    openingPrice: 2368.53,
-    highestPrice: 2392.23,
-    lowestPrice: 2364.44,
-    date: "4/18/2024",
-  },
-  {
-    currentPrice: 2390.01,
-    openingPrice: 2379.59,
-    highestPrice: 2417.22,
-    lowestPrice: 2372.99,
-    date: "4/19/2024",
-  },
-  {
-    currentPrice: 2386.54,
-    openingPrice: 2384.19,
-    highestPrice: 2388.39,
-    lowestPrice: 2381.2,
-    date: "4/21/2024",
-  },
-  {
-    currentPrice: 2333.86,
-    openingPrice: 2386.84,
-    highestPrice: 2386.84,
-    lowestPrice: 2325.22,
-    date: "4/22/2024",
-  },
-  {
-    currentPrice: 2323.48,
-    openingPrice: 2333.17,
-    highestPrice: 2334.11,
-    lowestPrice: 2291.81,
-    date: "4/23/2024",
-  },
-  {
-    currentPrice: 2316.09,
-    openingPrice: 2323.32,
-    highestPrice: 2336.63,
-    lowestPrice: 2311.5,
-    date: "4/24/2024",
-  },
-  {
-    currentPrice: 2330.65,
-    openingPrice: 2316.28,
-    highestPrice: 2344.47,
-    lowestPrice: 2307.6,
-    date: "4/25/2024",
-  },
-  {
-    currentPrice: 2337.48,
-    openingPrice: 2330.7,
-    highestPrice: 2351.93,
-    lowestPrice: 2326.42,
-    date: "4/26/2024",
-  },
-  {
-    currentPrice: 2335.82,
-    openingPrice: 2337.7,
-    highestPrice: 2338.42,
-    lowestPrice: 2333.5,
-    date: "4/28/2024",
-  },
-  {
-    currentPrice: 2333.06,
-    openingPrice: 2336.56,
-    highestPrice: 2346.24,
-    lowestPrice: 2322.31,
-    date: "4/29/2024",
-  },
-  {
-    currentPrice: 2291.25,
-    openingPrice: 2333.01,
-    highestPrice: 2335.81,
-    lowestPrice: 2285.26,
-    date: "4/30/2024",
-  },
-  {
-    currentPrice: 2320.41,
-    openingPrice: 2291.98,
-    highestPrice: 2327.31,
-    lowestPrice: 2283.2,
-    date: "5/1/2024",
-  },
-  {
-    currentPrice: 2303.91,
-    openingPrice: 2324.49,
-    highestPrice: 2324.92,
-    lowestPrice: 2285.63,
-    date: "5/2/2024",
-  },
-  {
-    currentPrice: 2301.93,
-    openingPrice: 2303.44,
-    highestPrice: 2319.52,
-    lowestPrice: 2278.5,
-    date: "5/3/2024",
-  },
-  {
-    currentPrice: 2293.96,
-    openingPrice: 2301.85,
-    highestPrice: 2302.96,
-    lowestPrice: 2292.9,
-    date: "5/5/2024",
-  },
-  {
-    currentPrice: 2325.64,
-    openingPrice: 2293.74,
-    highestPrice: 2331.82,
-    lowestPrice: 2292.13,
-    date: "5/6/2024",
-  },
-  {
-    currentPrice: 2315.13,
-    openingPrice: 2327.86,
-    highestPrice: 2329.72,
-    lowestPrice: 2310.2,
-    date: "5/7/2024",
-  },
-  {
-    currentPrice: 2308.72,
-    openingPrice: 2315.96,
-    highestPrice: 2321.31,
-    lowestPrice: 2304.29,
-    date: "5/8/2024",
-  },
-  {
-    currentPrice: 2346.57,
-    openingPrice: 2308.72,
-    highestPrice: 2348.29,
-    lowestPrice: 2306.86,
-    date: "5/9/2024",
-  },
-  {
-    currentPrice: 2359.97,
-    openingPrice: 2346.7,
-    highestPrice: 2377.81,
-    lowestPrice: 2346.1,
-    date: "5/10/2024",
-  },
-  {
-    currentPrice: 2360.29,
-    openingPrice: 2359.97,
-    highestPrice: 2362.76,
-    lowestPrice: 2359,
-    date: "5/12/2024",
-  },
-  {
-    currentPrice: 2338.26,
-    openingPrice: 2360.08,
-    highestPrice: 2364.38,
-    lowestPrice: 2332.77,
-    date: "5/13/2024",
-  },
-  {
-    currentPrice: 2355.76,
-    openingPrice: 2338.14,
-    highestPrice: 2359.45,
-    lowestPrice: 2334.6,
-    date: "5/14/2024",
-  },
-  {
-    currentPrice: 2391.66,
-    openingPrice: 2355.94,
-    highestPrice: 2391.76,
-    lowestPrice: 2352.39,
-    date: "5/15/2024",
-  },
-  {
-    currentPrice: 2378.03,
-    openingPrice: 2391.57,
-    highestPrice: 2397.07,
-    lowestPrice: 2371.04,
-    date: "5/16/2024",
-  },
-  {
-    currentPrice: 2414.02,
-    openingPrice: 2378.18,
-    highestPrice: 2421.85,
-    lowestPrice: 2373.6,
-    date: "5/17/2024",
-  },
-  {
-    currentPrice: 2420.3,
-    openingPrice: 2414.02,
-    highestPrice: 2424.89,
-    lowestPrice: 2414.02,
-    date: "5/19/2024",
-  },
-  {
-    currentPrice: 2426.12,
-    openingPrice: 2419.44,
-    highestPrice: 2449.93,
-    lowestPrice: 2409.62,
-    date: "5/20/2024",
-  },
-  {
-    currentPrice: 2421.51,
-    openingPrice: 2425.75,
-    highestPrice: 2433.48,
-    lowestPrice: 2406.89,
-    date: "5/21/2024",
-  },
-  {
-    currentPrice: 2382.22,
-    openingPrice: 2421.81,
-    highestPrice: 2426.13,
-    lowestPrice: 2374.99,
-    date: "5/22/2024",
-  },
-  {
-    currentPrice: 2331.82,
-    openingPrice: 2382.21,
-    highestPrice: 2383.53,
-    lowestPrice: 2327.33,
-    date: "5/23/2024",
-  },
-  {
-    currentPrice: 2333.04,
-    openingPrice: 2331.81,
-    highestPrice: 2347.08,
-    lowestPrice: 2325.44,
-    date: "5/24/2024",
-  },
-  {
-    currentPrice: 2337.05,
-    openingPrice: 2333.04,
-    highestPrice: 2340.28,
-    lowestPrice: 2332.43,
-    date: "5/26/2024",
-  },
-  {
-    currentPrice: 2352.27,
-    openingPrice: 2336.93,
-    highestPrice: 2358.25,
-    lowestPrice: 2334.54,
-    date: "5/27/2024",
-  },
-  {
-    currentPrice: 2359.94,
-    openingPrice: 2352.35,
-    highestPrice: 2363.41,
-    lowestPrice: 2339.9,
-    date: "5/28/2024",
-  },
-  {
-    currentPrice: 2338.59,
-    openingPrice: 2359.59,
-    highestPrice: 2361.03,
-    lowestPrice: 2334.8,
-    date: "5/29/2024",
-  },
-  {
-    currentPrice: 2343.72,
-    openingPrice: 2338.11,
-    highestPrice: 2350.99,
-    lowestPrice: 2322.58,
-    date: "5/30/2024",
-  },
-  {
-    currentPrice: 2325.76,
-    openingPrice: 2343.23,
-    highestPrice: 2359.33,
-    lowestPrice: 2320.38,
-    date: "5/31/2024",
-  },
-  {
-    currentPrice: 2325.55,
-    openingPrice: 2325.76,
-    highestPrice: 2329.12,
-    lowestPrice: 2322.7,
-    date: "6/2/2024",
-  },
-  {
-    currentPrice: 2350.39,
-    openingPrice: 2326.04,
-    highestPrice: 2354.29,
-    lowestPrice: 2314.85,
-    date: "6/3/2024",
-  },
-  {
-    currentPrice: 2328.66,
-    openingPrice: 2350.55,
-    highestPrice: 2352.32,
-    lowestPrice: 2316.02,
-    date: "6/4/2024",
-  },
-  {
-    currentPrice: 2354.98,
-    openingPrice: 2328.86,
-    highestPrice: 2357.23,
-    lowestPrice: 2325.84,
-    date: "6/5/2024",
-  },
-  {
-    currentPrice: 2376.68,
-    openingPrice: 2355.26,
-    highestPrice: 2378.17,
-    lowestPrice: 2353.92,
-    date: "6/6/2024",
-  },
-  {
-    currentPrice: 2293.51,
-    openingPrice: 2376.64,
-    highestPrice: 2387.49,
-    lowestPrice: 2286,
-    date: "6/7/2024",
-  },
-  {
-    currentPrice: 2298.46,
-    openingPrice: 2293.51,
-    highestPrice: 2299.81,
-    lowestPrice: 2290.73,
-    date: "6/9/2024",
-  },
-  {
-    currentPrice: 2309.88,
-    openingPrice: 2298.34,
-    highestPrice: 2313.5,
-    lowestPrice: 2287.74,
-    date: "6/10/2024",
-  },
-  {
-    currentPrice: 2314.86,
-    openingPrice: 2310,
-    highestPrice: 2319.75,
-    lowestPrice: 2297.9,
-    date: "6/11/2024",
-  },
-  {
-    currentPrice: 2320.46,
-    openingPrice: 2314.9,
-    highestPrice: 2341.16,
-    lowestPrice: 2310.88,
-    date: "6/12/2024",
-  },
-  {
-    currentPrice: 2302.16,
-    openingPrice: 2319.97,
-    highestPrice: 2325.88,
-    lowestPrice: 2295.9,
-    date: "6/13/2024",
-  },
-  {
-    currentPrice: 2332.3,
-    openingPrice: 2302.72,
-    highestPrice: 2336.2,
-    lowestPrice: 2301.5,
-    date: "6/14/2024",
-  },
-  {
-    currentPrice: 2328.6,
-    openingPrice: 2332.3,
-    highestPrice: 2335.25,
-    lowestPrice: 2326.7,
-    date: "6/16/2024",
-  },
-  {
-    currentPrice: 2320.76,
-    openingPrice: 2327.74,
-    highestPrice: 2328.57,
-    lowestPrice: 2309.73,
-    date: "6/17/2024",
-  },
-  {
-    currentPrice: 2328.24,
-    openingPrice: 2321.34,
-    highestPrice: 2332.63,
-    lowestPrice: 2306.4,
-    date: "6/18/2024",
-  },
-  {
-    currentPrice: 2329.24,
-    openingPrice: 2328.48,
-    highestPrice: 2334.76,
-    lowestPrice: 2323.87,
-    date: "6/19/2024",
-  },
-  {
-    currentPrice: 2360.66,
-    openingPrice: 2329.23,
-    highestPrice: 2365.1,
-    lowestPrice: 2327.4,
-    date: "6/20/2024",
-  },
-  {
-    currentPrice: 2319.04,
-    openingPrice: 2360.95,
-    highestPrice: 2368.58,
-    lowestPrice: 2317.15,
-    date: "6/21/2024",
-  },
-  {
-    currentPrice: 2318.99,
-    openingPrice: 2319.04,
-    highestPrice: 2321.96,
-    lowestPrice: 2316.8,
-    date: "6/23/2024",
-  },
-  {
-    currentPrice: 2330.66,
-    openingPrice: 2318.59,
-    highestPrice: 2334.5,
-    lowestPrice: 2317.1,
-    date: "6/24/2024",
-  },
-  {
-    currentPrice: 2319.83,
-    openingPrice: 2330.21,
-    highestPrice: 2336.93,
-    lowestPrice: 2315.73,
-    date: "6/25/2024",
-  },
-  {
-    currentPrice: 2298.16,
-    openingPrice: 2319.79,
-    highestPrice: 2322.82,
-    lowestPrice: 2294.26,
-    date: "6/26/2024",
-  },
-  {
-    currentPrice: 2327.46,
-    openingPrice: 2298.36,
-    highestPrice: 2330.71,
-    lowestPrice: 2296.3,
-    date: "6/27/2024",
-  },
-  {
-    currentPrice: 2326.15,
-    openingPrice: 2327.48,
-    highestPrice: 2339.25,
-    lowestPrice: 2319.04,
-    date: "6/28/2024",
-  },
-  {
-    currentPrice: 2324.66,
-    openingPrice: 2326.15,
-    highestPrice: 2327.01,
-    lowestPrice: 2322.4,
-    date: "6/30/2024",
-  },
-  {
-    currentPrice: 2332.09,
-    openingPrice: 2324.86,
-    highestPrice: 2338.14,
-    lowestPrice: 2318.27,
-    date: "7/1/2024",
-  },
-  {
-    currentPrice: 2330.08,
-    openingPrice: 2332.43,
-    highestPrice: 2336.2,
-    lowestPrice: 2319.3,
-    date: "7/2/2024",
-  },
-  {
-    currentPrice: 2359,
-    openingPrice: 2330.92,
-    highestPrice: 2364.57,
-    lowestPrice: 2326.6,
-    date: "7/3/2024",
-  },
-  {
-    currentPrice: 2356.35,
-    openingPrice: 2358.76,
-    highestPrice: 2362.34,
-    lowestPrice: 2350.69,
-    date: "7/4/2024",
-  },
-  {
-    currentPrice: 2391.14,
-    openingPrice: 2356.73,
-    highestPrice: 2392.72,
-    lowestPrice: 2355.98,
-    date: "7/5/2024",
-  },
-  {
-    currentPrice: 2385.77,
-    openingPrice: 2391.14,
-    highestPrice: 2393.85,
-    lowestPrice: 2383.9,
-    date: "7/7/2024",
-  },
-  {
-    currentPrice: 2361.65,
-    openingPrice: 2385.76,
-    highestPrice: 2390.58,
-    lowestPrice: 2350.7,
-    date: "7/8/2024",
-  },
-  {
-    currentPrice: 2365.01,
-    openingPrice: 2362.14,
-    highestPrice: 2368.49,
-    lowestPrice: 2350.3,
-    date: "7/9/2024",
-  },
-  {
-    currentPrice: 2372.62,
-    openingPrice: 2365.2,
-    highestPrice: 2386.25,
-    lowestPrice: 2363.51,
-    date: "7/10/2024",
-  },
-  {
-    currentPrice: 2415.92,
-    openingPrice: 2372.52,
-    highestPrice: 2423.78,
-    lowestPrice: 2371.48,
-    date: "7/11/2024",
-  },
-  {
-    currentPrice: 2410.93,
-    openingPrice: 2414.8,
-    highestPrice: 2418.06,
-    lowestPrice: 2391.61,
-    date: "7/12/2024",
-  },
-  {
-    currentPrice: 2408.6,
-    openingPrice: 2410.61,
-    highestPrice: 2412.35,
-    lowestPrice: 2404.9,
-    date: "7/14/2024",
-  },
-  {
-    currentPrice: 2422.37,
-    openingPrice: 2408.44,
-    highestPrice: 2439.53,
-    lowestPrice: 2401.3,
-    date: "7/15/2024",
-  },
-  {
-    currentPrice: 2468.27,
-    openingPrice: 2422.11,
-    highestPrice: 2469.56,
-    lowestPrice: 2419.94,
-    date: "7/16/2024",
-  },
-  {
-    currentPrice: 2461.25,
-    openingPrice: 2471.24,
-    highestPrice: 2483.22,
-    lowestPrice: 2451.2,
-    date: "7/17/2024",
-  },
-  {
-    currentPrice: 2444.91,
-    openingPrice: 2461.19,
-    highestPrice: 2474.69,
-    lowestPrice: 2440.44,
-    date: "7/18/2024",
-  },
-  {
-    currentPrice: 2400.59,
-    openingPrice: 2425.98,
-    highestPrice: 2429.45,
-    lowestPrice: 2393.92,
-    date: "7/19/2024",
-  },
-  {
-    currentPrice: 2411.37,
-    openingPrice: 2400.59,
-    highestPrice: 2411.7,
-    lowestPrice: 2400.59,
-    date: "7/21/2024",
-  },
-  {
-    currentPrice: 2395.55,
-    openingPrice: 2411.34,
-    highestPrice: 2411.92,
-    lowestPrice: 2384.31,
-    date: "7/22/2024",
-  },
-  {
-    currentPrice: 2408.34,
-    openingPrice: 2395.56,
-    highestPrice: 2411.72,
-    lowestPrice: 2387.6,
-    date: "7/23/2024",
-  },
-  {
-    currentPrice: 2398.63,
-    openingPrice: 2408.86,
-    highestPrice: 2431.81,
-    lowestPrice: 2393.18,
-    date: "7/24/2024",
-  },
-  {
-    currentPrice: 2364.1,
-    openingPrice: 2398.75,
-    highestPrice: 2399.89,
-    lowestPrice: 2353.24,
-    date: "7/25/2024",
-  },
-  {
-    currentPrice: 2385.9,
-    openingPrice: 2363.99,
-    highestPrice: 2390.21,
-    lowestPrice: 2356.14,
-    date: "7/26/2024",
-  },
-  {
-    currentPrice: 2396.45,
-    openingPrice: 2386.6,
-    highestPrice: 2402.17,
-    lowestPrice: 2386.6,
-    date: "7/28/2024",
-  },
-  {
-    currentPrice: 2381.06,
-    openingPrice: 2397.17,
-    highestPrice: 2402.24,
-    lowestPrice: 2369.86,
-    date: "7/29/2024",
-  },
-  {
-    currentPrice: 2409.62,
-    openingPrice: 2380.88,
-    highestPrice: 2412.27,
-    lowestPrice: 2376.3,
-    date: "7/30/2024",
-  },
-  {
-    currentPrice: 2445.84,
-    openingPrice: 2409.74,
-    highestPrice: 2450.56,
-    lowestPrice: 2404.22,
-    date: "7/31/2024",
-  },
-  {
-    currentPrice: 2445.86,
-    openingPrice: 2445.94,
-    highestPrice: 2461.49,
-    lowestPrice: 2430.25,
-    date: "8/1/2024",
-  },
-  {
-    currentPrice: 2442.08,
-    openingPrice: 2444.91,
-    highestPrice: 2476.93,
-    lowestPrice: 2411.83,
-    date: "8/2/2024",
-  },
-  {
-    currentPrice: 2440.76,
-    openingPrice: 2442.08,
-    highestPrice: 2446.22,
-    lowestPrice: 2437.8,
-    date: "8/4/2024",
-  },
-  {
-    currentPrice: 2404.79,
-    openingPrice: 2440.7,
-    highestPrice: 2457.18,
-    lowestPrice: 2364.71,
-    date: "8/5/2024",
-  },
-  {
-    currentPrice: 2384.05,
-    openingPrice: 2405.4,
-    highestPrice: 2417.77,
-    lowestPrice: 2381.81,
-    date: "8/6/2024",
-  },
-  {
-    currentPrice: 2384.72,
-    openingPrice: 2384.37,
-    highestPrice: 2406.61,
-    lowestPrice: 2379.39,
-    date: "8/7/2024",
-  },
-  {
-    currentPrice: 2424.66,
-    openingPrice: 2384.8,
-    highestPrice: 2427.37,
-    lowestPrice: 2383.31,
-    date: "8/8/2024",
-  },
-  {
-    currentPrice: 2430.71,
-    openingPrice: 2424.45,
-    highestPrice: 2436.87,
-    lowestPrice: 2416.95,
-    date: "8/9/2024",
-  },
-  {
-    currentPrice: 2427.83,
-    openingPrice: 2430.71,
-    highestPrice: 2433.31,
-    lowestPrice: 2426.8,
-    date: "8/11/2024",
-  },
-  {
-    currentPrice: 2475.32,
-    openingPrice: 2427.85,
-    highestPrice: 2475.84,
-    lowestPrice: 2423.79,
-    date: "8/12/2024",
-  },
-  {
-    currentPrice: 2463.87,
-    openingPrice: 2476.15,
-    highestPrice: 2476.72,
-    lowestPrice: 2458.4,
-    date: "8/13/2024",
-  },
-  {
-    currentPrice: 2449.26,
-    openingPrice: 2464.07,
-    highestPrice: 2478.2,
-    lowestPrice: 2435.61,
-    date: "8/14/2024",
-  },
-  {
-    currentPrice: 2457.43,
-    openingPrice: 2449.64,
-    highestPrice: 2469.7,
-    lowestPrice: 2432.93,
-    date: "8/15/2024",
-  },
-  {
-    currentPrice: 2506.76,
-    openingPrice: 2457.33,
-    highestPrice: 2509.5,
-    lowestPrice: 2450.4,
-    date: "8/16/2024",
-  },
-  {
-    currentPrice: 2506.07,
-    openingPrice: 2506.76,
-    highestPrice: 2508.9,
-    lowestPrice: 2501.5,
-    date: "8/18/2024",
-  },
-  {
-    currentPrice: 2503.64,
-    openingPrice: 2505.98,
-    highestPrice: 2507.24,
-    lowestPrice: 2485.8,
-    date: "8/19/2024",
-  },
-  {
-    currentPrice: 2513.16,
-    openingPrice: 2503.96,
-    highestPrice: 2531.51,
-    lowestPrice: 2497.44,
-    date: "8/20/2024",
-  },
-  {
-    currentPrice: 2512.43,
-    openingPrice: 2512.75,
-    highestPrice: 2519.76,
-    lowestPrice: 2495.05,
-    date: "8/21/2024",
-  },
-  {
-    currentPrice: 2487.04,
-    openingPrice: 2512.83,
-    highestPrice: 2514.25,
-    lowestPrice: 2471.13,
-    date: "8/22/2024",
-  },
-  {
-    currentPrice: 2512.01,
-    openingPrice: 2486.85,
-    highestPrice: 2518.1,
-    lowestPrice: 2486.39,
-    date: "8/23/2024",
-  },
-  {
-    currentPrice: 2515.72,
-    openingPrice: 2512.01,
-    highestPrice: 2516.29,
-    lowestPrice: 2510.4,
-    date: "8/25/2024",
-  },
-  {
-    currentPrice: 2515.58,
-    openingPrice: 2515.46,
-    highestPrice: 2526.54,
-    lowestPrice: 2508.6,
-    date: "8/26/2024",
-  },
-  {
-    currentPrice: 2525.07,
-    openingPrice: 2515.45,
-    highestPrice: 2528.82,
-    lowestPrice: 2504.01,
-    date: "8/27/2024",
-  },
-  {
-    currentPrice: 2507.84,
-    openingPrice: 2525.36,
-    highestPrice: 2525.59,
-    lowestPrice: 2494.04,
-    date: "8/28/2024",
-  },
-  {
-    currentPrice: 2519.37,
-    openingPrice: 2507.95,
-    highestPrice: 2528.48,
-    lowestPrice: 2503.94,
-    date: "8/29/2024",
-  },
-  {
-    currentPrice: 2502.98,
-    openingPrice: 2519.17,
-    highestPrice: 2526.7,
-    lowestPrice: 2494.79,
-    date: "8/30/2024",
-  },
-  {
-    currentPrice: 2503.08,
-    openingPrice: 2502.98,
-    highestPrice: 2505.05,
-    lowestPrice: 2500.9,
-    date: "9/1/2024",
-  },
-  {
-    currentPrice: 2496.59,
-    openingPrice: 2502.66,
-    highestPrice: 2507,
-    lowestPrice: 2490.24,
-    date: "9/2/2024",
-  },
-  {
-    currentPrice: 2493.41,
-    openingPrice: 2497.18,
-    highestPrice: 2505.97,
-    lowestPrice: 2474.1,
-    date: "9/3/2024",
-  },
-  {
-    currentPrice: 2495.64,
-    openingPrice: 2493.04,
-    highestPrice: 2499.84,
-    lowestPrice: 2471.95,
-    date: "9/4/2024",
-  },
-  {
-    currentPrice: 2517.16,
-    openingPrice: 2495.76,
-    highestPrice: 2522.77,
-    lowestPrice: 2492.9,
-    date: "9/5/2024",
-  },
-  {
-    currentPrice: 2496.75,
-    openingPrice: 2517.18,
-    highestPrice: 2529.01,
-    lowestPrice: 2485.1,
-    date: "9/6/2024",
-  },
-  {
-    currentPrice: 2496.68,
-    openingPrice: 2496.75,
-    highestPrice: 2498.06,
-    lowestPrice: 2494.7,
-    date: "9/8/2024",
-  },
-  {
-    currentPrice: 2506.69,
-    openingPrice: 2496.45,
-    highestPrice: 2507.51,
-    lowestPrice: 2485.81,
-    date: "9/9/2024",
-  },
-  {
-    currentPrice: 2518.56,
-    openingPrice: 2506.77,
-    highestPrice: 2518.66,
-    lowestPrice: 2499.91,
-    date: "9/10/2024",
-  },
-  {
-    currentPrice: 2511.9,
-    openingPrice: 2518.57,
-    highestPrice: 2528.03,
-    lowestPrice: 2501.67,
-    date: "9/11/2024",
-  },
-  {
-    currentPrice: 2557.96,
-    openingPrice: 2511.62,
-    highestPrice: 2559.9,
-    lowestPrice: 2510.94,
-    date: "9/12/2024",
-  },
-  {
-    currentPrice: 2577.38,
-    openingPrice: 2558.63,
-    highestPrice: 2585.68,
-    lowestPrice: 2556.84,
-    date: "9/13/2024",
-  },
-  {
-    currentPrice: 2578.96,
-    openingPrice: 2577.38,
-    highestPrice: 2580.35,
-    lowestPrice: 2576.9,
-    date: "9/15/2024",
-  },
-  {
-    currentPrice: 2583.58,
-    openingPrice: 2578.99,
-    highestPrice: 2589.24,
-    lowestPrice: 2576.09,
-    date: "9/16/2024",
-  },
-  {
-    currentPrice: 2573.83,
-    openingPrice: 2583.61,
-    highestPrice: 2586.13,
-    lowestPrice: 2561.1,
-    date: "9/17/2024",
-  },
-  {
-    currentPrice: 2559.15,
-    openingPrice: 2574.07,
-    highestPrice: 2599.8,
-    lowestPrice: 2547.63,
-    date: "9/18/2024",
-  },
-  {
-    currentPrice: 2587.15,
-    openingPrice: 2559,
-    highestPrice: 2594.4,
-    lowestPrice: 2551.46,
-    date: "9/19/2024",
-  },
-  {
-    currentPrice: 2621.74,
-    openingPrice: 2587.22,
-    highestPrice: 2625.55,
-    lowestPrice: 2584.92,
-    date: "9/20/2024",
-  },
-  {
-    currentPrice: 2621.89,
-    openingPrice: 2621.89,
-    highestPrice: 2621.89,
-    lowestPrice: 2621.89,
-    date: "9/22/2024",
-  },
-  {
-    currentPrice: 2626.17,
-    openingPrice: 2619.36,
-    highestPrice: 2634.56,
-    lowestPrice: 2613.74,
-    date: "9/23/2024",
-  },
-  {
-    currentPrice: 2658.03,
-    openingPrice: 2625.84,
-    highestPrice: 2664.03,
-    lowestPrice: 2622.63,
-    date: "9/24/2024",
-  },
-  {
-    currentPrice: 2656.76,
-    openingPrice: 2657.7,
-    highestPrice: 2669.7,
-    lowestPrice: 2650.55,
-    date: "9/25/2024",
-  },
-  {
-    currentPrice: 2672.57,
-    openingPrice: 2656.78,
-    highestPrice: 2685.13,
-    lowestPrice: 2655.31,
-    date: "9/26/2024",
-  },
-  {
-    currentPrice: 2657.97,
-    openingPrice: 2672.43,
-    highestPrice: 2673.82,
-    lowestPrice: 2643.37,
-    date: "9/27/2024",
-  },
-  {
-    currentPrice: 2663.48,
-    openingPrice: 2657.97,
-    highestPrice: 2664.87,
-    lowestPrice: 2657.95,
-    date: "9/29/2024",
-  },
-  {
-    currentPrice: 2635.54,
-    openingPrice: 2663.66,
-    highestPrice: 2665.69,
-    lowestPrice: 2625.25,
-    date: "9/30/2024",
-  },
-  {
-    currentPrice: 2660.32,
-    openingPrice: 2635.47,
-    highestPrice: 2672.58,
-    lowestPrice: 2633.98,
-    date: "10/1/2024",
-  },
-  {
-    currentPrice: 2660.06,
-    openingPrice: 2660.27,
-    highestPrice: 2662.17,
-    lowestPrice: 2641.89,
-    date: "10/2/2024",
-  },
-  {
-    currentPrice: 2655.55,
-    openingPrice: 2660.47,
-    highestPrice: 2662.48,
-    lowestPrice: 2640.11,
-    date: "10/3/2024",
-  },
-  {
-    currentPrice: 2653.05,
-    openingPrice: 2655.62,
-    highestPrice: 2669.31,
-    lowestPrice: 2632.11,
-    date: "10/4/2024",
-  },
-  {
-    currentPrice: 2650.45,
-    openingPrice: 2653.05,
-    highestPrice: 2653.05,
-    lowestPrice: 2649,
-    date: "10/6/2024",
-  },
-  {
-    currentPrice: 2642.84,
-    openingPrice: 2650.66,
-    highestPrice: 2659.39,
-    lowestPrice: 2638.26,
-    date: "10/7/2024",
-  },
-  {
-    currentPrice: 2621.96,
-    openingPrice: 2642.88,
-    highestPrice: 2652.61,
-    lowestPrice: 2605.72,
-    date: "10/8/2024",
-  },
-  {
-    currentPrice: 2608.16,
-    openingPrice: 2621.65,
-    highestPrice: 2624.13,
-    lowestPrice: 2604.96,
-    date: "10/9/2024",
-  },
-  {
-    currentPrice: 2632.37,
-    openingPrice: 2608.38,
-    highestPrice: 2635.25,
-    lowestPrice: 2605.88,
-    date: "10/10/2024",
-  },
-  {
-    currentPrice: 2656.85,
-    openingPrice: 2633.77,
-    highestPrice: 2661.29,
-    lowestPrice: 2631.7,
-    date: "10/11/2024",
-  },
-  {
-    currentPrice: 2656.08,
-    openingPrice: 2656.08,
-    highestPrice: 2656.08,
-    lowestPrice: 2656.08,
-    date: "10/13/2024",
-  },
-  {
-    currentPrice: 2649.3,
-    openingPrice: 2645.21,
-    highestPrice: 2666.34,
-    lowestPrice: 2643.32,
-    date: "10/14/2024",
-  },
-  {
-    currentPrice: 2660.34,
-    openingPrice: 2649.03,
-    highestPrice: 2668.82,
-    lowestPrice: 2638.34,
-    date: "10/15/2024",
-  },
-  {
-    currentPrice: 2673.9,
-    openingPrice: 2659.97,
-    highestPrice: 2685.07,
-    lowestPrice: 2658.78,
-    date: "10/16/2024",
-  },
-  {
-    currentPrice: 2693.55,
-    openingPrice: 2674.12,
-    highestPrice: 2696.52,
-    lowestPrice: 2673.39,
-    date: "10/17/2024",
-  },
-  {
-    currentPrice: 2720.53,
-    openingPrice: 2693.49,
-    highestPrice: 2722.41,
-    lowestPrice: 2692.9,
-    date: "10/18/2024",
-  },
-  {
-    currentPrice: 2723.41,
-    openingPrice: 2720.69,
-    highestPrice: 2724.86,
-    lowestPrice: 2720.4,
-    date: "10/20/2024",
-  },
-  {
-    currentPrice: 2721.26,
-    openingPrice: 2723.6,
-    highestPrice: 2740.46,
-    lowestPrice: 2713.4,
-    date: "10/21/2024",
-  },
-  {
-    currentPrice: 2746.56,
-    openingPrice: 2721.44,
-    highestPrice: 2748.69,
-    lowestPrice: 2720.56,
-    date: "10/22/2024",
-  },
-  {
-    currentPrice: 2721.31,
-    openingPrice: 2746.74,
-    highestPrice: 2758.2,
-    lowestPrice: 2708.6,
-    date: "10/23/2024",
-  },
-  {
-    currentPrice: 2733.69,
-    openingPrice: 2720.11,
-    highestPrice: 2743.21,
-    lowestPrice: 2717.97,
-    date: "10/24/2024",
-  },
-  {
-    currentPrice: 2747.13,
-    openingPrice: 2733.78,
-    highestPrice: 2747.13,
-    lowestPrice: 2717.14,
-    date: "10/25/2024",
-  },
-  {
-    currentPrice: 2735.85,
-    openingPrice: 2747.13,
-    highestPrice: 2748.21,
-    lowestPrice: 2730.3,
-    date: "10/27/2024",
-  },
-  {
-    currentPrice: 2744.29,
-    openingPrice: 2735.22,
-    highestPrice: 2745.48,
-    lowestPrice: 2724.51,
-    date: "10/28/2024",
-  },
-  {
-    currentPrice: 2774.7,
-    openingPrice: 2743.95,
-    highestPrice: 2775.05,
-    lowestPrice: 2743.19,
-    date: "10/29/2024",
-  },
-  {
-    currentPrice: 2785.14,
-    openingPrice: 2774.81,
-    highestPrice: 2789.77,
-    lowestPrice: 2770.96,
-    date: "10/30/2024",
-  },
-  {
-    currentPrice: 2746.27,
-    openingPrice: 2785.47,
-    highestPrice: 2789.92,
-    lowestPrice: 2731.97,
-    date: "10/31/2024",
-  },
-  {
-    currentPrice: 2735.91,
-    openingPrice: 2746.81,
-    highestPrice: 2761.49,
-    lowestPrice: 2733.2,
-    date: "11/1/2024",
-  },
-  {
-    currentPrice: 2738.2,
-    openingPrice: 2746.7,
-    highestPrice: 2746.7,
-    lowestPrice: 2730.91,
-    date: "11/3/2024",
-  },
-  {
-    currentPrice: 2736.34,
-    openingPrice: 2738.69,
-    highestPrice: 2745.91,
-    lowestPrice: 2732.15,
-    date: "11/4/2024",
-  },
-  {
-    currentPrice: 2745.46,
-    openingPrice: 2733.51,
-    highestPrice: 2749.7,
-    lowestPrice: 2724.93,
-    date: "11/5/2024",
-  },
-  {
-    currentPrice: 2663.87,
-    openingPrice: 2745.08,
-    highestPrice: 2749.31,
-    lowestPrice: 2652.51,
-    date: "11/6/2024",
-  },
-  {
-    currentPrice: 2706.83,
-    openingPrice: 2663.12,
-    highestPrice: 2709.54,
-    lowestPrice: 2646.56,
-    date: "11/7/2024",
-  },
-  {
-    currentPrice: 2683.85,
-    openingPrice: 2706.99,
-    highestPrice: 2709.92,
-    lowestPrice: 2680.47,
-    date: "11/8/2024",
-  },
-  {
-    currentPrice: 2685.47,
-    openingPrice: 2683.81,
-    highestPrice: 2685.47,
-    lowestPrice: 2681.2,
-    date: "11/10/2024",
-  },
-  {
-    currentPrice: 2623.69,
-    openingPrice: 2684.96,
-    highestPrice: 2685.59,
-    lowestPrice: 2610.67,
-    date: "11/11/2024",
-  },
-  {
-    currentPrice: 2598.8,
-    openingPrice: 2623.79,
-    highestPrice: 2626.7,
-    lowestPrice: 2589.83,
-    date: "11/12/2024",
-  },
-  {
-    currentPrice: 2571.44,
-    openingPrice: 2598.51,
-    highestPrice: 2617.87,
-    lowestPrice: 2569.19,
-    date: "11/13/2024",
-  },
-  {
-    currentPrice: 2566.49,
-    openingPrice: 2570.9,
-    highestPrice: 2577.3,
-    lowestPrice: 2537.56,
-    date: "11/14/2024",
-  },
-  {
-    currentPrice: 2561.27,
-    openingPrice: 2566.42,
-    highestPrice: 2575.51,
-    lowestPrice: 2554.96,
-    date: "11/15/2024",
-  },
-  {
-    currentPrice: 2571.2,
-    openingPrice: 2562.95,
-    highestPrice: 2575.27,
-    lowestPrice: 2562.95,
-    date: "11/17/2024",
-  },
-  {
-    currentPrice: 2612.09,
-    openingPrice: 2569.8,
-    highestPrice: 2614.78,
-    lowestPrice: 2569.8,
-    date: "11/18/2024",
-  },
-  {
-    currentPrice: 2634.71,
-    openingPrice: 2612.62,
-    highestPrice: 2639.23,
-    lowestPrice: 2610.3,
-    date: "11/19/2024",
-  },
-  {
-    currentPrice: 2652.02,
-    openingPrice: 2634.83,
-    highestPrice: 2655.06,
-    lowestPrice: 2619.82,
-    date: "11/20/2024",
-  },
-  {
-    currentPrice: 2668.68,
-    openingPrice: 2652.2,
-    highestPrice: 2673.31,
-    lowestPrice: 2650.7,
-    date: "11/21/2024",
-  },
-  {
-    currentPrice: 2715.58,
-    openingPrice: 2668.8,
-    highestPrice: 2715.82,
-    lowestPrice: 2668.8,
-    date: "11/22/2024",
-  },
-  {
-    currentPrice: 2610.17,
-    openingPrice: 2670.27,
-    highestPrice: 2670.27,
-    lowestPrice: 2606.86,
-    date: "11/25/2024",
-  },
-  {
-    currentPrice: 2632.18,
-    openingPrice: 2611.51,
-    highestPrice: 2641.72,
-    lowestPrice: 2609.48,
-    date: "11/26/2024",
-  },
-  {
-    currentPrice: 2636.89,
-    openingPrice: 2632.63,
-    highestPrice: 2658.1,
-    lowestPrice: 2627.2,
-    date: "11/27/2024",
-  },
-  {
-    currentPrice: 2638.78,
-    openingPrice: 2637.14,
-    highestPrice: 2649.16,
-    lowestPrice: 2621.09,
-    date: "11/28/2024",
-  },
-  {
-    currentPrice: 2650.25,
-    openingPrice: 2638.66,
-    highestPrice: 2666.03,
-    lowestPrice: 2634.43,
-    date: "11/29/2024",
-  },
-  {
-    currentPrice: 2645.92,
-    openingPrice: 2650.24,
-    highestPrice: 2650.24,
-    lowestPrice: 2642.4,
-    date: "12/1/2024",
-  },
-  {
-    currentPrice: 2641.84,
-    openingPrice: 2646.13,
-    highestPrice: 2651.41,
-    lowestPrice: 2621.99,
-    date: "12/2/2024",
-  },
-  {
-    currentPrice: 2642.62,
-    openingPrice: 2642.25,
-    highestPrice: 2654.97,
-    lowestPrice: 2634.64,
-    date: "12/3/2024",
-  },
-  {
-    currentPrice: 2650.18,
-    openingPrice: 2642.87,
-    highestPrice: 2656.42,
-    lowestPrice: 2633.47,
-    date: "12/4/2024",
-  },
-  {
-    currentPrice: 2633.62,
-    openingPrice: 2650,
-    highestPrice: 2655.33,
-    lowestPrice: 2623.57,
-    date: "12/5/2024",
-  },
-  {
-    currentPrice: 2632.14,
-    openingPrice: 2632.9,
-    highestPrice: 2645.16,
-    lowestPrice: 2613.71,
-    date: "12/6/2024",
-  },
-  {
-    currentPrice: 2639.2,
-    openingPrice: 2632.14,
-    highestPrice: 2647.67,
-    lowestPrice: 2632.14,
-    date: "12/8/2024",
-  },
-  {
-    currentPrice: 2660.54,
-    openingPrice: 2638.53,
-    highestPrice: 2676.08,
-    lowestPrice: 2627.2,
-    date: "12/9/2024",
-  },
-  {
-    currentPrice: 2695.71,
-    openingPrice: 2660.61,
-    highestPrice: 2698.13,
-    lowestPrice: 2656.9,
-    date: "12/10/2024",
-  },
-  {
-    currentPrice: 2719.83,
-    openingPrice: 2695.87,
-    highestPrice: 2720.8,
-    lowestPrice: 2674.06,
-    date: "12/11/2024",
-  },
-  {
-    currentPrice: 2680.31,
-    openingPrice: 2719.41,
-    highestPrice: 2725.72,
-    lowestPrice: 2675.24,
-    date: "12/12/2024",
-  },
-  {
-    currentPrice: 2647.49,
-    openingPrice: 2679.76,
-    highestPrice: 2692.08,
-    lowestPrice: 2646.15,
-    date: "12/13/2024",
-  },
-  {
-    currentPrice: 2650.3,
-    openingPrice: 2648.05,
-    highestPrice: 2652.73,
-    lowestPrice: 2647.7,
-    date: "12/15/2024",
-  },
-  {
-    currentPrice: 2651.5,
-    openingPrice: 2651.25,
-    highestPrice: 2663.99,
-    lowestPrice: 2643.41,
-    date: "12/16/2024",
-  },
-  {
-    currentPrice: 2647.29,
-    openingPrice: 2651.62,
-    highestPrice: 2658.43,
-    lowestPrice: 2632.87,
-    date: "12/17/2024",
-  },
-  {
-    currentPrice: 2588.06,
-    openingPrice: 2647.33,
-    highestPrice: 2651.48,
-    lowestPrice: 2583.08,
-    date: "12/18/2024",
-  },
-  {
-    currentPrice: 2593.57,
-    openingPrice: 2588.52,
-    highestPrice: 2626.24,
-    lowestPrice: 2587.01,
-    date: "12/19/2024",
-  },
-  {
-    currentPrice: 2622,
-    openingPrice: 2593.48,
-    highestPrice: 2630.93,
-    lowestPrice: 2589.2,
-    date: "12/20/2024",
-  },
-  {
-    currentPrice: 2623.84,
-    openingPrice: 2622,
-    highestPrice: 2624.29,
-    lowestPrice: 2620.9,
-    date: "12/22/2024",
-  },
-  {
-    currentPrice: 2615.26,
-    openingPrice: 2623.28,
-    highestPrice: 2632.98,
-    lowestPrice: 2608.31,
-    date: "12/23/2024",
-  },
-  {
-    currentPrice: 2616.1,
-    openingPrice: 2615.08,
-    highestPrice: 2621.19,
-    lowestPrice: 2609.9,
-    date: "12/24/2024",
-  },
-  {
-    currentPrice: 2617.86,
-    openingPrice: 2614.31,
-    highestPrice: 2619.96,
-    lowestPrice: 2613.27,
-    date: "12/25/2024",
-  },
-  {
-    currentPrice: 2632.5,
-    openingPrice: 2618.02,
-    highestPrice: 2638.83,
-    lowestPrice: 2617.7,
-    date: "12/26/2024",
-  },
-  {
-    currentPrice: 2620.84,
-    openingPrice: 2632.36,
-    highestPrice: 2637.81,
-    lowestPrice: 2611.3,
-    date: "12/27/2024",
-  },
-  {
-    currentPrice: 2623.83,
-    openingPrice: 2621.18,
-    highestPrice: 2625.71,
-    lowestPrice: 2619.25,
-    date: "12/29/2024",
-  },
-  {
-    currentPrice: 2606.51,
-    openingPrice: 2623.8,
-    highestPrice: 2627.92,
-    lowestPrice: 2596.2,
-    date: "12/30/2024",
-  },
-  {
-    currentPrice: 2624.19,
-    openingPrice: 2606.45,
-    highestPrice: 2627.22,
-    lowestPrice: 2603.06,
-    date: "12/31/2024",
-  },
-  {
-    currentPrice: 2623.68,
-    openingPrice: 2624.8,
-    highestPrice: 2625.01,
-    lowestPrice: 2620.7,
-    date: "1/1/2025",
-  },
-  {
-    currentPrice: 2658.11,
-    openingPrice: 2623.52,
-    highestPrice: 2660.21,
-    lowestPrice: 2622,
-    date: "1/2/2025",
-  },
-  {
-    currentPrice: 2639.82,
-    openingPrice: 2658.56,
-    highestPrice: 2664.8,
-    lowestPrice: 2636.1,
-    date: "1/3/2025",
-  },
-  {
-    currentPrice: 2640.67,
-    openingPrice: 2639.82,
-    highestPrice: 2642.25,
-    lowestPrice: 2638.85,
-    date: "1/5/2025",
-  },
-  {
-    currentPrice: 2634.43,
-    openingPrice: 2640.65,
-    highestPrice: 2648.9,
-    lowestPrice: 2614.66,
-    date: "1/6/2025",
-  },
-  {
-    currentPrice: 2649.46,
-    openingPrice: 2634.6,
-    highestPrice: 2663.97,
-    lowestPrice: 2632.1,
-    date: "1/7/2025",
-  },
-  {
-    currentPrice: 2662.54,
-    openingPrice: 2648.3,
-    highestPrice: 2669.76,
-    lowestPrice: 2644.4,
-    date: "1/8/2025",
-  },
-  {
-    currentPrice: 2669.95,
-    openingPrice: 2662.59,
-    highestPrice: 2677.85,
-    lowestPrice: 2655.64,
-    date: "1/9/2025",
-  },
-  {
-    currentPrice: 2688.77,
-    openingPrice: 2670.08,
-    highestPrice: 2697.39,
-    lowestPrice: 2663.8,
-    date: "1/10/2025",
-  },
-  {
-    currentPrice: 2690.64,
-    openingPrice: 2688.77,
-    highestPrice: 2690.64,
-    lowestPrice: 2686.31,
-    date: "1/12/2025",
-  },
-  {
-    currentPrice: 2667.83,
-    openingPrice: 2690.06,
-    highestPrice: 2693.12,
-    lowestPrice: 2656.88,
-    date: "1/13/2025",
-  },
-  {
-    currentPrice: 2675.21,
-    openingPrice: 2667.64,
-    highestPrice: 2677.88,
-    lowestPrice: 2659.4,
-    date: "1/14/2025",
-  },
-  {
-    currentPrice: 2694.62,
-    openingPrice: 2675.52,
-    highestPrice: 2696.96,
-    lowestPrice: 2669.2,
-    date: "1/15/2025",
-  },
-  {
-    currentPrice: 2714.52,
-    openingPrice: 2694.87,
-    highestPrice: 2724.4,
-    lowestPrice: 2690,
-    date: "1/16/2025",
-  },
-  {
-    currentPrice: 2701.88,
-    openingPrice: 2714.49,
-    highestPrice: 2717.2,
-    lowestPrice: 2698.69,
-    date: "1/17/2025",
-  },
-  {
-    currentPrice: 2696.41,
-    openingPrice: 2701.88,
-    highestPrice: 2702.57,
-    lowestPrice: 2690.93,
-    date: "1/19/2025",
-  },
-  {
-    currentPrice: 2710.18,
-    openingPrice: 2695.87,
-    highestPrice: 2713.57,
-    lowestPrice: 2688.9,
-    date: "1/20/2025",
-  },
-  {
-    currentPrice: 2744.2,
-    openingPrice: 2709.69,
-    highestPrice: 2745.69,
-    lowestPrice: 2703.18,
-    date: "1/21/2025",
-  },
-  {
-    currentPrice: 2755.28,
-    openingPrice: 2744.24,
-    highestPrice: 2763.1,
-    lowestPrice: 2742.71,
-    date: "1/22/2025",
-  },
-  {
-    currentPrice: 2754.18,
-    openingPrice: 2755.76,
-    highestPrice: 2758.61,
-    lowestPrice: 2736.09,
-    date: "1/23/2025",
-  },
-  {
-    currentPrice: 2770.96,
-    openingPrice: 2754.39,
-    highestPrice: 2785.44,
-    lowestPrice: 2754.1,
-    date: "1/24/2025",
-  },
-  {
-    currentPrice: 2767.1,
-    openingPrice: 2771.45,
-    highestPrice: 2771.45,
-    lowestPrice: 2765.54,
-    date: "1/26/2025",
-  },
-  {
-    currentPrice: 2742.32,
-    openingPrice: 2767.03,
-    highestPrice: 2772.26,
-    lowestPrice: 2731.16,
-    date: "1/27/2025",
-  },
-  {
-    currentPrice: 2762.64,
-    openingPrice: 2742.22,
-    highestPrice: 2764.78,
-    lowestPrice: 2734.87,
-    date: "1/28/2025",
-  },
-  {
-    currentPrice: 2760.01,
-    openingPrice: 2762.48,
-    highestPrice: 2765.84,
-    lowestPrice: 2744.6,
-    date: "1/29/2025",
-  },
-  {
-    currentPrice: 2796,
-    openingPrice: 2760.1,
-    highestPrice: 2798.12,
-    lowestPrice: 2758.3,
-    date: "1/30/2025",
-  },
-  {
-    currentPrice: 2797.46,
-    openingPrice: 2796.26,
-    highestPrice: 2816.82,
-    lowestPrice: 2791.22,
-    date: "1/31/2025",
-  },
-  {
-    currentPrice: 2792.51,
-    openingPrice: 2797.25,
-    highestPrice: 2801.46,
-    lowestPrice: 2784.67,
-    date: "2/2/2025",
-  },
-  {
-    currentPrice: 2813.34,
-    openingPrice: 2792.84,
-    highestPrice: 2829.85,
-    lowestPrice: 2772.21,
-    date: "2/3/2025",
-  },
-  {
-    currentPrice: 2841.19,
-    openingPrice: 2813.44,
-    highestPrice: 2844.8,
-    lowestPrice: 2807.22,
-    date: "2/4/2025",
-  },
-  {
-    currentPrice: 2857.86,
-    openingPrice: 2868.78,
-    highestPrice: 2872.85,
-    lowestPrice: 2835.26,
-    date: "2/6/2025",
-  },
-  {
-    currentPrice: 2860.09,
-    openingPrice: 2858.24,
-    highestPrice: 2886.24,
-    lowestPrice: 2853.69,
-    date: "2/7/2025",
-  },
-  {
-    currentPrice: 2867.22,
-    openingPrice: 2860.45,
-    highestPrice: 2869.93,
-    lowestPrice: 2858.3,
-    date: "2/9/2025",
-  },
-  {
-    currentPrice: 2917.64,
-    openingPrice: 2867.41,
-    highestPrice: 2921.28,
-    lowestPrice: 2865.1,
-    date: "2/10/2025",
-  },
-  {
-    currentPrice: 2898.27,
-    openingPrice: 2917.28,
-    highestPrice: 2942.18,
-    lowestPrice: 2882.52,
-    date: "2/11/2025",
-  },
-  {
-    currentPrice: 2904.5,
-    openingPrice: 2897.94,
-    highestPrice: 2908.94,
-    lowestPrice: 2864.99,
-    date: "2/12/2025",
-  },
-  {
-    currentPrice: 2930.86,
-    openingPrice: 2906.15,
-    highestPrice: 2932.06,
-    lowestPrice: 2901.4,
-    date: "2/13/2025",
-  },
-  {
-    currentPrice: 2882.14,
-    openingPrice: 2931.23,
-    highestPrice: 2939.93,
-    lowestPrice: 2876.99,
-    date: "2/14/2025",
-  },
-  {
-    currentPrice: 2879.37,
-    openingPrice: 2882.55,
-    highestPrice: 2892.97,
-    lowestPrice: 2878.44,
-    date: "2/16/2025",
-  },
-  {
-    currentPrice: 2899.18,
-    openingPrice: 2879.62,
-    highestPrice: 2906.2,
-    lowestPrice: 2879.1,
-    date: "2/17/2025",
-  },
-  {
-    currentPrice: 2933.76,
-    openingPrice: 2899.13,
-    highestPrice: 2936.78,
-    lowestPrice: 2891.84,
-    date: "2/18/2025",
-  },
-  {
-    currentPrice: 2935.19,
-    openingPrice: 2933.74,
-    highestPrice: 2946.69,
-    lowestPrice: 2918.8,
-    date: "2/19/2025",
-  },
-  {
-    currentPrice: 2940.81,
-    openingPrice: 2935.7,
-    highestPrice: 2954.71,
-    lowestPrice: 2924.35,
-    date: "2/20/2025",
-  },
-  {
-    currentPrice: 2935.49,
-    openingPrice: 2942.05,
-    highestPrice: 2949,
-    lowestPrice: 2917.83,
-    date: "2/21/2025",
-  },
-];
+export const lastTwoYearsGoldPriceDataWithHighestAndLowest: RawGoldPriceData[] =
+  [
+    {
+      v: 3450,
+      vw: 1818.7493,
+      o: 1823.16,
+      c: 1810.67,
+      h: 1827.65,
+      l: 1809,
+      t: 1677196800000,
+      n: 3450,
+    },
+    {
+      v: 136,
+      vw: 1811.9666,
+      o: 1817.1,
+      c: 1811.8,
+      h: 1817.1,
+      l: 1810.72,
+      t: 1677369600000,
+      n: 136,
+    },
+    {
+      v: 3618,
+      vw: 1813.2084,
+      o: 1811.72,
+      c: 1817.08,
+      h: 1820,
+      l: 1806.69,
+      t: 1677456000000,
+      n: 3618,
+    },
+    {
+      v: 3603,
+      vw: 1818.1263,
+      o: 1817.13,
+      c: 1825.49,
+      h: 1830.86,
+      l: 1805.73,
+      t: 1677542400000,
+      n: 3603,
+    },
+    {
+      v: 3593,
+      vw: 1834.4412,
+      o: 1825.07,
+      c: 1836.51,
+      h: 1844.03,
+      l: 1823.01,
+      t: 1677628800000,
+      n: 3593,
+    },
+    {
+      v: 3609,
+      vw: 1834.333,
+      o: 1836.5,
+      c: 1837.66,
+      h: 1838.66,
+      l: 1830.02,
+      t: 1677715200000,
+      n: 3609,
+    },
+    {
+      v: 3463,
+      vw: 1844.8313,
+      o: 1838.44,
+      c: 1855.18,
+      h: 1856.3,
+      l: 1837.1,
+      t: 1677801600000,
+      n: 3463,
+    },
+    {
+      v: 130,
+      vw: 1853.4175,
+      o: 1858.3,
+      c: 1852.19,
+      h: 1858.31,
+      l: 1852.16,
+      t: 1677974400000,
+      n: 130,
+    },
+    {
+      v: 3627,
+      vw: 1851.2558,
+      o: 1852.31,
+      c: 1846.29,
+      h: 1857.96,
+      l: 1844.8,
+      t: 1678060800000,
+      n: 3627,
+    },
+    {
+      v: 3606,
+      vw: 1834.8176,
+      o: 1845.36,
+      c: 1813.82,
+      h: 1851.36,
+      l: 1812.5,
+      t: 1678147200000,
+      n: 3606,
+    },
+    {
+      v: 3623,
+      vw: 1814.2284,
+      o: 1813.78,
+      c: 1815.12,
+      h: 1823.95,
+      l: 1809.2,
+      t: 1678233600000,
+      n: 3623,
+    },
+    {
+      v: 3619,
+      vw: 1821.3698,
+      o: 1815.07,
+      c: 1831.37,
+      h: 1835.09,
+      l: 1811.9,
+      t: 1678320000000,
+      n: 3619,
+    },
+    {
+      v: 3437,
+      vw: 1843.302,
+      o: 1831.48,
+      c: 1867.05,
+      h: 1869.82,
+      l: 1827.71,
+      t: 1678406400000,
+      n: 3437,
+    },
+    {
+      v: 259,
+      vw: 1883.2722,
+      o: 1869.6,
+      c: 1877.59,
+      h: 1893.75,
+      l: 1866.99,
+      t: 1678579200000,
+      n: 259,
+    },
+    {
+      v: 3571,
+      vw: 1893.9133,
+      o: 1876.65,
+      c: 1912.13,
+      h: 1914.4,
+      l: 1871.59,
+      t: 1678665600000,
+      n: 3571,
+    },
+    {
+      v: 3582,
+      vw: 1905.7633,
+      o: 1911.76,
+      c: 1903.02,
+      h: 1913.93,
+      l: 1896.25,
+      t: 1678752000000,
+      n: 3582,
+    },
+    {
+      v: 3571,
+      vw: 1911.2611,
+      o: 1902.45,
+      c: 1921.03,
+      h: 1937.02,
+      l: 1886.09,
+      t: 1678838400000,
+      n: 3571,
+    },
+    {
+      v: 3609,
+      vw: 1919.045,
+      o: 1921.46,
+      c: 1921.3,
+      h: 1932.68,
+      l: 1907.66,
+      t: 1678924800000,
+      n: 3609,
+    },
+    {
+      v: 3289,
+      vw: 1943.4141,
+      o: 1921.34,
+      c: 1987.46,
+      h: 1988.78,
+      l: 1918.48,
+      t: 1679011200000,
+      n: 3289,
+    },
+    {
+      v: 256,
+      vw: 1979.7372,
+      o: 1988.78,
+      c: 1976.55,
+      h: 2009.79,
+      l: 1975.4,
+      t: 1679184000000,
+      n: 256,
+    },
+    {
+      v: 3598,
+      vw: 1980.0438,
+      o: 1976.47,
+      c: 1976.52,
+      h: 2009.23,
+      l: 1966.12,
+      t: 1679270400000,
+      n: 3598,
+    },
+    {
+      v: 3578,
+      vw: 1961.645,
+      o: 1977.26,
+      c: 1942.81,
+      h: 1984.78,
+      l: 1935.51,
+      t: 1679356800000,
+      n: 3578,
+    },
+    {
+      v: 3589,
+      vw: 1947.7424,
+      o: 1943.12,
+      c: 1969.57,
+      h: 1977.88,
+      l: 1934.65,
+      t: 1679443200000,
+      n: 3589,
+    },
+    {
+      v: 3587,
+      vw: 1981.9289,
+      o: 1969.94,
+      c: 1991.23,
+      h: 2003.22,
+      l: 1966.58,
+      t: 1679529600000,
+      n: 3587,
+    },
+    {
+      v: 3266,
+      vw: 1989.2653,
+      o: 1991.37,
+      c: 1978.42,
+      h: 2002.82,
+      l: 1974.7,
+      t: 1679616000000,
+      n: 3266,
+    },
+    {
+      v: 260,
+      vw: 1973.9026,
+      o: 1978.32,
+      c: 1975.72,
+      h: 1981.7,
+      l: 1969.54,
+      t: 1679788800000,
+      n: 260,
+    },
+    {
+      v: 3596,
+      vw: 1961.8948,
+      o: 1975.63,
+      c: 1958.02,
+      h: 1978.3,
+      l: 1944.42,
+      t: 1679875200000,
+      n: 3596,
+    },
+    {
+      v: 3592,
+      vw: 1962.9539,
+      o: 1958.2,
+      c: 1971.86,
+      h: 1975.09,
+      l: 1948.5,
+      t: 1679961600000,
+      n: 3592,
+    },
+    {
+      v: 3588,
+      vw: 1965.6869,
+      o: 1972.27,
+      c: 1963.15,
+      h: 1972.73,
+      l: 1958.79,
+      t: 1680048000000,
+      n: 3588,
+    },
+    {
+      v: 3570,
+      vw: 1970.1183,
+      o: 1963.1,
+      c: 1978.39,
+      h: 1983.9,
+      l: 1955.6,
+      t: 1680134400000,
+      n: 3570,
+    },
+    {
+      v: 3295,
+      vw: 1977.7263,
+      o: 1978.21,
+      c: 1969.22,
+      h: 1986.75,
+      l: 1966.89,
+      t: 1680220800000,
+      n: 3295,
+    },
+    {
+      v: 255,
+      vw: 1961.6407,
+      o: 1969.3,
+      c: 1957.65,
+      h: 1972.95,
+      l: 1957.54,
+      t: 1680393600000,
+      n: 255,
+    },
+    {
+      v: 3593,
+      vw: 1971.4431,
+      o: 1957.54,
+      c: 1984.77,
+      h: 1990.39,
+      l: 1949.8,
+      t: 1680480000000,
+      n: 3593,
+    },
+    {
+      v: 3635,
+      vw: 1996.7812,
+      o: 1984.6,
+      c: 2021.6,
+      h: 2024.8,
+      l: 1977.2,
+      t: 1680566400000,
+      n: 3635,
+    },
+    {
+      v: 3609,
+      vw: 2022.6081,
+      o: 2021.48,
+      c: 2020.23,
+      h: 2031.9,
+      l: 2011.36,
+      t: 1680652800000,
+      n: 3609,
+    },
+    {
+      v: 3301,
+      vw: 2013.0383,
+      o: 2020.34,
+      c: 2007.56,
+      h: 2020.87,
+      l: 2000.4,
+      t: 1680739200000,
+      n: 3301,
+    },
+    {
+      v: 2,
+      vw: 2007.145,
+      o: 2007.05,
+      c: 2007.24,
+      h: 2007.24,
+      l: 2007.05,
+      t: 1680825600000,
+      n: 2,
+    },
+    {
+      v: 253,
+      vw: 2003.8339,
+      o: 2020.3,
+      c: 2005.49,
+      h: 2020.3,
+      l: 1991.22,
+      t: 1680998400000,
+      n: 253,
+    },
+    {
+      v: 3474,
+      vw: 1993.9433,
+      o: 2005.17,
+      c: 1992.37,
+      h: 2005.71,
+      l: 1981.92,
+      t: 1681084800000,
+      n: 3474,
+    },
+    {
+      v: 3610,
+      vw: 2001.0704,
+      o: 1992.3,
+      c: 2004.63,
+      h: 2007.13,
+      l: 1988.4,
+      t: 1681171200000,
+      n: 3610,
+    },
+    {
+      v: 3624,
+      vw: 2012.7375,
+      o: 2004.87,
+      c: 2018.09,
+      h: 2027.23,
+      l: 2001.2,
+      t: 1681257600000,
+      n: 3624,
+    },
+    {
+      v: 3596,
+      vw: 2030.0372,
+      o: 2018.1,
+      c: 2039.89,
+      h: 2047.65,
+      l: 2015.3,
+      t: 1681344000000,
+      n: 3596,
+    },
+    {
+      v: 3292,
+      vw: 2026.8111,
+      o: 2039.56,
+      c: 2004.11,
+      h: 2047.27,
+      l: 1992.31,
+      t: 1681430400000,
+      n: 3292,
+    },
+    {
+      v: 255,
+      vw: 2002.5303,
+      o: 2004.03,
+      c: 2002.8,
+      h: 2022.75,
+      l: 1998.3,
+      t: 1681603200000,
+      n: 255,
+    },
+    {
+      v: 3618,
+      vw: 2001.2488,
+      o: 2002.62,
+      c: 1993.9,
+      h: 2014.83,
+      l: 1981.46,
+      t: 1681689600000,
+      n: 3618,
+    },
+    {
+      v: 3612,
+      vw: 2002.3907,
+      o: 1993.87,
+      c: 2005.48,
+      h: 2011.58,
+      l: 1991.37,
+      t: 1681776000000,
+      n: 3612,
+    },
+    {
+      v: 3612,
+      vw: 1992.4685,
+      o: 2005.74,
+      c: 1993.6,
+      h: 2007.9,
+      l: 1969.4,
+      t: 1681862400000,
+      n: 3612,
+    },
+    {
+      v: 3638,
+      vw: 2000.2554,
+      o: 1993.63,
+      c: 2004.97,
+      h: 2012.1,
+      l: 1990.59,
+      t: 1681948800000,
+      n: 3638,
+    },
+    {
+      v: 3315,
+      vw: 1988.8958,
+      o: 2005.27,
+      c: 1982.91,
+      h: 2005.38,
+      l: 1972.01,
+      t: 1682035200000,
+      n: 3315,
+    },
+    {
+      v: 254,
+      vw: 1983.6589,
+      o: 2001.9,
+      c: 1984.59,
+      h: 2001.9,
+      l: 1981.1,
+      t: 1682208000000,
+      n: 254,
+    },
+    {
+      v: 3613,
+      vw: 1984.2279,
+      o: 1984.62,
+      c: 1995.35,
+      h: 1996.39,
+      l: 1974.76,
+      t: 1682294400000,
+      n: 3613,
+    },
+    {
+      v: 3598,
+      vw: 1992.3738,
+      o: 1994.97,
+      c: 2000.07,
+      h: 2003.6,
+      l: 1975.91,
+      t: 1682380800000,
+      n: 3598,
+    },
+    {
+      v: 3604,
+      vw: 1994.9998,
+      o: 2000.44,
+      c: 1991.62,
+      h: 2008.06,
+      l: 1983.51,
+      t: 1682467200000,
+      n: 3604,
+    },
+    {
+      v: 3610,
+      vw: 1992.317,
+      o: 1991.52,
+      c: 1986.97,
+      h: 2003.07,
+      l: 1975.03,
+      t: 1682553600000,
+      n: 3610,
+    },
+    {
+      v: 3302,
+      vw: 1986.7232,
+      o: 1987.17,
+      c: 1989.44,
+      h: 1994.59,
+      l: 1977.07,
+      t: 1682640000000,
+      n: 3302,
+    },
+    {
+      v: 254,
+      vw: 1988.7557,
+      o: 1989.42,
+      c: 1986.72,
+      h: 2008.25,
+      l: 1986.2,
+      t: 1682812800000,
+      n: 254,
+    },
+    {
+      v: 3642,
+      vw: 1984.1502,
+      o: 1986.95,
+      c: 1981.13,
+      h: 2005.35,
+      l: 1977.12,
+      t: 1682899200000,
+      n: 3642,
+    },
+    {
+      v: 3257,
+      vw: 1996.6253,
+      o: 1981.63,
+      c: 2015.84,
+      h: 2018.94,
+      l: 1978.5,
+      t: 1682985600000,
+      n: 3257,
+    },
+    {
+      v: 3577,
+      vw: 2021.8626,
+      o: 2015.98,
+      c: 2051.93,
+      h: 2071.32,
+      l: 2008.9,
+      t: 1683072000000,
+      n: 3577,
+    },
+    {
+      v: 3591,
+      vw: 2044.354,
+      o: 2052.78,
+      c: 2049.8,
+      h: 2059.39,
+      l: 2030.77,
+      t: 1683158400000,
+      n: 3591,
+    },
+    {
+      v: 3307,
+      vw: 2031.9741,
+      o: 2049.79,
+      c: 2016.58,
+      h: 2052.75,
+      l: 1999.63,
+      t: 1683244800000,
+      n: 3307,
+    },
+    {
+      v: 249,
+      vw: 2015.8039,
+      o: 2016.67,
+      c: 2015.95,
+      h: 2050.25,
+      l: 2014,
+      t: 1683417600000,
+      n: 249,
+    },
+    {
+      v: 3620,
+      vw: 2022.2737,
+      o: 2015.8,
+      c: 2021.22,
+      h: 2029.18,
+      l: 2015.23,
+      t: 1683504000000,
+      n: 3620,
+    },
+    {
+      v: 3634,
+      vw: 2028.3678,
+      o: 2021,
+      c: 2036.27,
+      h: 2037.46,
+      l: 2019,
+      t: 1683590400000,
+      n: 3634,
+    },
+    {
+      v: 3610,
+      vw: 2031.1301,
+      o: 2036.57,
+      c: 2031.36,
+      h: 2048.01,
+      l: 2021.61,
+      t: 1683676800000,
+      n: 3610,
+    },
+    {
+      v: 3627,
+      vw: 2024.6407,
+      o: 2031.21,
+      c: 2016.24,
+      h: 2039.93,
+      l: 2011.07,
+      t: 1683763200000,
+      n: 3627,
+    },
+    {
+      v: 3315,
+      vw: 2011.0144,
+      o: 2016.37,
+      c: 2010.86,
+      h: 2022.06,
+      l: 2000.91,
+      t: 1683849600000,
+      n: 3315,
+    },
+    {
+      v: 262,
+      vw: 2010.4619,
+      o: 2010.6,
+      c: 2009.72,
+      h: 2026.59,
+      l: 2007.21,
+      t: 1684022400000,
+      n: 262,
+    },
+    {
+      v: 3614,
+      vw: 2015.789,
+      o: 2009.53,
+      c: 2014.35,
+      h: 2021.82,
+      l: 2008.63,
+      t: 1684108800000,
+      n: 3614,
+    },
+    {
+      v: 3607,
+      vw: 2004.2126,
+      o: 2014.35,
+      c: 1989.5,
+      h: 2018.21,
+      l: 1984.7,
+      t: 1684195200000,
+      n: 3607,
+    },
+    {
+      v: 3647,
+      vw: 1986.1356,
+      o: 1988.8,
+      c: 1982.62,
+      h: 1992.87,
+      l: 1975.2,
+      t: 1684281600000,
+      n: 3647,
+    },
+    {
+      v: 3638,
+      vw: 1969.5523,
+      o: 1982.62,
+      c: 1958.3,
+      h: 1985.76,
+      l: 1951.8,
+      t: 1684368000000,
+      n: 3638,
+    },
+    {
+      v: 3286,
+      vw: 1966.5505,
+      o: 1958.38,
+      c: 1977.58,
+      h: 1983.42,
+      l: 1954.03,
+      t: 1684454400000,
+      n: 3286,
+    },
+    {
+      v: 254,
+      vw: 1980.2087,
+      o: 1980.1,
+      c: 1980.73,
+      h: 1981.36,
+      l: 1977.51,
+      t: 1684627200000,
+      n: 254,
+    },
+    {
+      v: 3625,
+      vw: 1975.3485,
+      o: 1981.07,
+      c: 1969.58,
+      h: 1982.32,
+      l: 1969,
+      t: 1684713600000,
+      n: 3625,
+    },
+    {
+      v: 3607,
+      vw: 1965.9867,
+      o: 1969.94,
+      c: 1975,
+      h: 1977.35,
+      l: 1954.4,
+      t: 1684800000000,
+      n: 3607,
+    },
+    {
+      v: 3623,
+      vw: 1970.5596,
+      o: 1975.19,
+      c: 1959.9,
+      h: 1984.92,
+      l: 1956.4,
+      t: 1684886400000,
+      n: 3623,
+    },
+    {
+      v: 3610,
+      vw: 1952.1035,
+      o: 1960.03,
+      c: 1940.37,
+      h: 1964.62,
+      l: 1938.6,
+      t: 1684972800000,
+      n: 3610,
+    },
+    {
+      v: 1045,
+      vw: 1944.6267,
+      o: 1948.96,
+      c: 1946.07,
+      h: 1951.22,
+      l: 1938.85,
+      t: 1685059200000,
+      n: 1045,
+    },
+    {
+      v: 259,
+      vw: 1944.1185,
+      o: 1946.6,
+      c: 1943.85,
+      h: 1946.6,
+      l: 1941.1,
+      t: 1685232000000,
+      n: 259,
+    },
+    {
+      v: 3215,
+      vw: 1944.9334,
+      o: 1944.04,
+      c: 1941.55,
+      h: 1949.6,
+      l: 1940.26,
+      t: 1685318400000,
+      n: 3215,
+    },
+    {
+      v: 3604,
+      vw: 1950.8607,
+      o: 1941.54,
+      c: 1958.6,
+      h: 1963.42,
+      l: 1932.11,
+      t: 1685404800000,
+      n: 3604,
+    },
+    {
+      v: 3620,
+      vw: 1961.75,
+      o: 1958.5,
+      c: 1966.31,
+      h: 1974.38,
+      l: 1953.6,
+      t: 1685491200000,
+      n: 3620,
+    },
+    {
+      v: 3617,
+      vw: 1968.7771,
+      o: 1966.22,
+      c: 1976.87,
+      h: 1983,
+      l: 1952.7,
+      t: 1685577600000,
+      n: 3617,
+    },
+    {
+      v: 3316,
+      vw: 1970.2885,
+      o: 1977.15,
+      c: 1948,
+      h: 1983.42,
+      l: 1947.4,
+      t: 1685664000000,
+      n: 3316,
+    },
+    {
+      v: 265,
+      vw: 1948.9761,
+      o: 1950.6,
+      c: 1949.3,
+      h: 1950.6,
+      l: 1946.6,
+      t: 1685836800000,
+      n: 265,
+    },
+    {
+      v: 3615,
+      vw: 1950.3735,
+      o: 1949.27,
+      c: 1961.24,
+      h: 1963.88,
+      l: 1938.21,
+      t: 1685923200000,
+      n: 3615,
+    },
+    {
+      v: 3616,
+      vw: 1961.6256,
+      o: 1961.4,
+      c: 1963.2,
+      h: 1966.2,
+      l: 1954.43,
+      t: 1686009600000,
+      n: 3616,
+    },
+    {
+      v: 3626,
+      vw: 1955.7838,
+      o: 1963.29,
+      c: 1944.39,
+      h: 1969.82,
+      l: 1939,
+      t: 1686096000000,
+      n: 3626,
+    },
+    {
+      v: 3632,
+      vw: 1954.711,
+      o: 1944.36,
+      c: 1965.33,
+      h: 1969.81,
+      l: 1942.71,
+      t: 1686182400000,
+      n: 3632,
+    },
+    {
+      v: 3056,
+      vw: 1963.3214,
+      o: 1965.2,
+      c: 1960.49,
+      h: 1971.94,
+      l: 1956.93,
+      t: 1686268800000,
+      n: 3056,
+    },
+    {
+      v: 258,
+      vw: 1959.4972,
+      o: 1963.1,
+      c: 1959.83,
+      h: 1963.1,
+      l: 1957.5,
+      t: 1686441600000,
+      n: 258,
+    },
+    {
+      v: 3617,
+      vw: 1958.7173,
+      o: 1960.09,
+      c: 1959.86,
+      h: 1966.78,
+      l: 1949.49,
+      t: 1686528000000,
+      n: 3617,
+    },
+    {
+      v: 3614,
+      vw: 1954.8635,
+      o: 1959.98,
+      c: 1943.93,
+      h: 1969.47,
+      l: 1940.1,
+      t: 1686614400000,
+      n: 3614,
+    },
+    {
+      v: 3610,
+      vw: 1949.1626,
+      o: 1944.19,
+      c: 1945.16,
+      h: 1959.7,
+      l: 1939.66,
+      t: 1686700800000,
+      n: 3610,
+    },
+    {
+      v: 3613,
+      vw: 1943.8195,
+      o: 1944.8,
+      c: 1958.25,
+      h: 1960.13,
+      l: 1926.21,
+      t: 1686787200000,
+      n: 3613,
+    },
+    {
+      v: 3308,
+      vw: 1959.4116,
+      o: 1958.23,
+      c: 1957.5,
+      h: 1967.8,
+      l: 1953.5,
+      t: 1686873600000,
+      n: 3308,
+    },
+    {
+      v: 326,
+      vw: 1958.1873,
+      o: 1957.45,
+      c: 1956.94,
+      h: 1961.4,
+      l: 1955.9,
+      t: 1687046400000,
+      n: 326,
+    },
+    {
+      v: 3236,
+      vw: 1953.2448,
+      o: 1957,
+      c: 1952.32,
+      h: 1958.49,
+      l: 1947.8,
+      t: 1687132800000,
+      n: 3236,
+    },
+    {
+      v: 3620,
+      vw: 1944.5624,
+      o: 1952.39,
+      c: 1937.17,
+      h: 1956.39,
+      l: 1929,
+      t: 1687219200000,
+      n: 3620,
+    },
+    {
+      v: 3613,
+      vw: 1934.0298,
+      o: 1936.55,
+      c: 1933.78,
+      h: 1939.08,
+      l: 1920.19,
+      t: 1687305600000,
+      n: 3613,
+    },
+    {
+      v: 3614,
+      vw: 1923.761,
+      o: 1933.91,
+      c: 1914.43,
+      h: 1934.15,
+      l: 1912.4,
+      t: 1687392000000,
+      n: 3614,
+    },
+    {
+      v: 3290,
+      vw: 1918.6472,
+      o: 1914.47,
+      c: 1920.79,
+      h: 1936.57,
+      l: 1910.2,
+      t: 1687478400000,
+      n: 3290,
+    },
+    {
+      v: 260,
+      vw: 1924.0078,
+      o: 1920.51,
+      c: 1925.29,
+      h: 1927.3,
+      l: 1920.51,
+      t: 1687651200000,
+      n: 260,
+    },
+    {
+      v: 3616,
+      vw: 1926.2672,
+      o: 1925.22,
+      c: 1922.37,
+      h: 1933.18,
+      l: 1920.4,
+      t: 1687737600000,
+      n: 3616,
+    },
+    {
+      v: 3464,
+      vw: 1921.3434,
+      o: 1922.57,
+      c: 1915.42,
+      h: 1930.04,
+      l: 1910.6,
+      t: 1687824000000,
+      n: 3464,
+    },
+    {
+      v: 3606,
+      vw: 1911.2018,
+      o: 1915.26,
+      c: 1909.64,
+      h: 1916.98,
+      l: 1903.46,
+      t: 1687910400000,
+      n: 3606,
+    },
+    {
+      v: 3593,
+      vw: 1906.6532,
+      o: 1909.47,
+      c: 1908.76,
+      h: 1913,
+      l: 1893.16,
+      t: 1687996800000,
+      n: 3593,
+    },
+    {
+      v: 3276,
+      vw: 1910.7441,
+      o: 1908.71,
+      c: 1919.2,
+      h: 1922.61,
+      l: 1900.57,
+      t: 1688083200000,
+      n: 3276,
+    },
+    {
+      v: 271,
+      vw: 1918.5718,
+      o: 1920.3,
+      c: 1918.11,
+      h: 1920.3,
+      l: 1917.46,
+      t: 1688256000000,
+      n: 271,
+    },
+    {
+      v: 3599,
+      vw: 1918.7166,
+      o: 1917.7,
+      c: 1921.17,
+      h: 1930.5,
+      l: 1910.11,
+      t: 1688342400000,
+      n: 3599,
+    },
+    {
+      v: 3225,
+      vw: 1925.7124,
+      o: 1921.07,
+      c: 1926.23,
+      h: 1930.53,
+      l: 1919.5,
+      t: 1688428800000,
+      n: 3225,
+    },
+    {
+      v: 3025,
+      vw: 1922.4625,
+      o: 1926.34,
+      c: 1916.69,
+      h: 1934.83,
+      l: 1914.1,
+      t: 1688515200000,
+      n: 3025,
+    },
+    {
+      v: 3128,
+      vw: 1914.3474,
+      o: 1916.75,
+      c: 1911.58,
+      h: 1927.32,
+      l: 1902.85,
+      t: 1688601600000,
+      n: 3128,
+    },
+    {
+      v: 3288,
+      vw: 1918.5665,
+      o: 1911.5,
+      c: 1925.53,
+      h: 1934.62,
+      l: 1909.4,
+      t: 1688688000000,
+      n: 3288,
+    },
+    {
+      v: 263,
+      vw: 1925.4549,
+      o: 1925.43,
+      c: 1924.82,
+      h: 1927.99,
+      l: 1923.1,
+      t: 1688860800000,
+      n: 263,
+    },
+    {
+      v: 3627,
+      vw: 1923.6345,
+      o: 1924.99,
+      c: 1924.76,
+      h: 1926.79,
+      l: 1912.72,
+      t: 1688947200000,
+      n: 3627,
+    },
+    {
+      v: 3626,
+      vw: 1931.5498,
+      o: 1924.93,
+      c: 1933.19,
+      h: 1938.2,
+      l: 1923.9,
+      t: 1689033600000,
+      n: 3626,
+    },
+    {
+      v: 3607,
+      vw: 1945.2566,
+      o: 1933.28,
+      c: 1957.68,
+      h: 1959.58,
+      l: 1932.9,
+      t: 1689120000000,
+      n: 3607,
+    },
+    {
+      v: 3626,
+      vw: 1959.4897,
+      o: 1957.68,
+      c: 1959.88,
+      h: 1963.21,
+      l: 1952.92,
+      t: 1689206400000,
+      n: 3626,
+    },
+    {
+      v: 3300,
+      vw: 1958.4087,
+      o: 1960.34,
+      c: 1955.43,
+      h: 1963.69,
+      l: 1951.1,
+      t: 1689292800000,
+      n: 3300,
+    },
+    {
+      v: 254,
+      vw: 1953.0454,
+      o: 1957.9,
+      c: 1953.21,
+      h: 1957.9,
+      l: 1951.2,
+      t: 1689465600000,
+      n: 254,
+    },
+    {
+      v: 3608,
+      vw: 1954.1086,
+      o: 1953.1,
+      c: 1955.39,
+      h: 1959.66,
+      l: 1945.93,
+      t: 1689552000000,
+      n: 3608,
+    },
+    {
+      v: 3609,
+      vw: 1967.8572,
+      o: 1955.06,
+      c: 1977.43,
+      h: 1984.1,
+      l: 1954.66,
+      t: 1689638400000,
+      n: 3609,
+    },
+    {
+      v: 3614,
+      vw: 1976.535,
+      o: 1977.59,
+      c: 1977.65,
+      h: 1980.79,
+      l: 1970.1,
+      t: 1689724800000,
+      n: 3614,
+    },
+    {
+      v: 3619,
+      vw: 1976.8651,
+      o: 1977.55,
+      c: 1972.07,
+      h: 1987.32,
+      l: 1965.43,
+      t: 1689811200000,
+      n: 3619,
+    },
+    {
+      v: 3279,
+      vw: 1965.7072,
+      o: 1972.14,
+      c: 1961.6,
+      h: 1973.68,
+      l: 1958.08,
+      t: 1689897600000,
+      n: 3279,
+    },
+    {
+      v: 256,
+      vw: 1961.7035,
+      o: 1962.3,
+      c: 1961.11,
+      h: 1962.76,
+      l: 1960.1,
+      t: 1690070400000,
+      n: 256,
+    },
+    {
+      v: 3599,
+      vw: 1960.3359,
+      o: 1961.19,
+      c: 1954.37,
+      h: 1967.68,
+      l: 1952.8,
+      t: 1690156800000,
+      n: 3599,
+    },
+    {
+      v: 3610,
+      vw: 1961.4613,
+      o: 1954.29,
+      c: 1965.29,
+      h: 1966.13,
+      l: 1951.96,
+      t: 1690243200000,
+      n: 3610,
+    },
+    {
+      v: 3603,
+      vw: 1969.1225,
+      o: 1965.37,
+      c: 1971.98,
+      h: 1977.72,
+      l: 1961.8,
+      t: 1690329600000,
+      n: 3603,
+    },
+    {
+      v: 3615,
+      vw: 1963.1177,
+      o: 1971.97,
+      c: 1947.37,
+      h: 1981.93,
+      l: 1942.1,
+      t: 1690416000000,
+      n: 3615,
+    },
+    {
+      v: 3280,
+      vw: 1954.6071,
+      o: 1947.32,
+      c: 1959,
+      h: 1963.46,
+      l: 1946,
+      t: 1690502400000,
+      n: 3280,
+    },
+    {
+      v: 256,
+      vw: 1959.1873,
+      o: 1959.1,
+      c: 1957.96,
+      h: 1961.7,
+      l: 1956.9,
+      t: 1690675200000,
+      n: 256,
+    },
+    {
+      v: 3613,
+      vw: 1961.3295,
+      o: 1957.94,
+      c: 1963.95,
+      h: 1972.23,
+      l: 1952.79,
+      t: 1690761600000,
+      n: 3613,
+    },
+    {
+      v: 3609,
+      vw: 1952.687,
+      o: 1963.88,
+      c: 1952.15,
+      h: 1964.6,
+      l: 1941.29,
+      t: 1690848000000,
+      n: 3609,
+    },
+    {
+      v: 3598,
+      vw: 1943.7974,
+      o: 1951.66,
+      c: 1935.98,
+      h: 1954.55,
+      l: 1933.44,
+      t: 1690934400000,
+      n: 3598,
+    },
+    {
+      v: 3595,
+      vw: 1935.1544,
+      o: 1936.11,
+      c: 1935.65,
+      h: 1938.79,
+      l: 1929.75,
+      t: 1691020800000,
+      n: 3595,
+    },
+    {
+      v: 3284,
+      vw: 1937.1791,
+      o: 1935.89,
+      c: 1942.51,
+      h: 1946.07,
+      l: 1930.41,
+      t: 1691107200000,
+      n: 3284,
+    },
+    {
+      v: 1,
+      vw: 1942.51,
+      o: 1942.51,
+      c: 1942.51,
+      h: 1942.51,
+      l: 1942.51,
+      t: 1691280000000,
+      n: 1,
+    },
+    {
+      v: 3521,
+      vw: 1936.9742,
+      o: 1944.78,
+      c: 1936.64,
+      h: 1944.78,
+      l: 1931.69,
+      t: 1691366400000,
+      n: 3521,
+    },
+    {
+      v: 3605,
+      vw: 1929.7634,
+      o: 1936.82,
+      c: 1925.56,
+      h: 1937.1,
+      l: 1922.81,
+      t: 1691452800000,
+      n: 3605,
+    },
+    {
+      v: 3522,
+      vw: 1923.4406,
+      o: 1925.49,
+      c: 1916.62,
+      h: 1932.23,
+      l: 1913.4,
+      t: 1691539200000,
+      n: 3522,
+    },
+    {
+      v: 3614,
+      vw: 1917.7136,
+      o: 1916.56,
+      c: 1912.35,
+      h: 1929.52,
+      l: 1910.9,
+      t: 1691625600000,
+      n: 3614,
+    },
+    {
+      v: 3279,
+      vw: 1915.5391,
+      o: 1912.34,
+      c: 1913.56,
+      h: 1920.83,
+      l: 1911.7,
+      t: 1691712000000,
+      n: 3279,
+    },
+    {
+      v: 250,
+      vw: 1913.8184,
+      o: 1913.46,
+      c: 1913.69,
+      h: 1915.1,
+      l: 1911.6,
+      t: 1691884800000,
+      n: 250,
+    },
+    {
+      v: 3583,
+      vw: 1910.8964,
+      o: 1913.67,
+      c: 1907.48,
+      h: 1915.97,
+      l: 1902.7,
+      t: 1691971200000,
+      n: 3583,
+    },
+    {
+      v: 3575,
+      vw: 1904.5398,
+      o: 1907.53,
+      c: 1901.52,
+      h: 1911.34,
+      l: 1896.69,
+      t: 1692057600000,
+      n: 3575,
+    },
+    {
+      v: 3587,
+      vw: 1901.493,
+      o: 1901.31,
+      c: 1893.27,
+      h: 1907.1,
+      l: 1891.2,
+      t: 1692144000000,
+      n: 3587,
+    },
+    {
+      v: 3613,
+      vw: 1892.9977,
+      o: 1893.17,
+      c: 1891.35,
+      h: 1902.96,
+      l: 1884.7,
+      t: 1692230400000,
+      n: 3613,
+    },
+    {
+      v: 3286,
+      vw: 1891.8787,
+      o: 1891.29,
+      c: 1889.28,
+      h: 1896.06,
+      l: 1886.8,
+      t: 1692316800000,
+      n: 3286,
+    },
+    {
+      v: 1,
+      vw: 1889.28,
+      o: 1889.28,
+      c: 1889.28,
+      h: 1889.28,
+      l: 1889.28,
+      t: 1692489600000,
+      n: 1,
+    },
+    {
+      v: 2361,
+      vw: 1898.2522,
+      o: 1900.07,
+      c: 1898.45,
+      h: 1904.25,
+      l: 1889.68,
+      t: 1692662400000,
+      n: 2361,
+    },
+    {
+      v: 3586,
+      vw: 1908.486,
+      o: 1898.46,
+      c: 1917.92,
+      h: 1920.13,
+      l: 1897.7,
+      t: 1692748800000,
+      n: 3586,
+    },
+    {
+      v: 3612,
+      vw: 1918.7186,
+      o: 1917.95,
+      c: 1915.7,
+      h: 1923.01,
+      l: 1912.04,
+      t: 1692835200000,
+      n: 3612,
+    },
+    {
+      v: 3288,
+      vw: 1914.061,
+      o: 1915.69,
+      c: 1914.64,
+      h: 1922.25,
+      l: 1903.4,
+      t: 1692921600000,
+      n: 3288,
+    },
+    {
+      v: 257,
+      vw: 1915.128,
+      o: 1914.1,
+      c: 1915.02,
+      h: 1915.97,
+      l: 1913.9,
+      t: 1693094400000,
+      n: 257,
+    },
+    {
+      v: 3588,
+      vw: 1917.412,
+      o: 1915.12,
+      c: 1921.09,
+      h: 1925.79,
+      l: 1913.1,
+      t: 1693180800000,
+      n: 3588,
+    },
+    {
+      v: 3559,
+      vw: 1927.4575,
+      o: 1921.21,
+      c: 1936.14,
+      h: 1938.02,
+      l: 1914.53,
+      t: 1693267200000,
+      n: 3559,
+    },
+    {
+      v: 3149,
+      vw: 1940.5667,
+      o: 1936.2,
+      c: 1944.18,
+      h: 1948.7,
+      l: 1934.7,
+      t: 1693353600000,
+      n: 3149,
+    },
+    {
+      v: 3401,
+      vw: 1943.4243,
+      o: 1944.15,
+      c: 1939.94,
+      h: 1947.63,
+      l: 1938.4,
+      t: 1693440000000,
+      n: 3401,
+    },
+    {
+      v: 3296,
+      vw: 1941.4055,
+      o: 1939.79,
+      c: 1939.87,
+      h: 1952.29,
+      l: 1934.61,
+      t: 1693526400000,
+      n: 3296,
+    },
+    {
+      v: 1,
+      vw: 1939.87,
+      o: 1939.87,
+      c: 1939.87,
+      h: 1939.87,
+      l: 1939.87,
+      t: 1693699200000,
+      n: 1,
+    },
+    {
+      v: 2552,
+      vw: 1941.1185,
+      o: 1941.33,
+      c: 1937.58,
+      h: 1946.15,
+      l: 1936.8,
+      t: 1693785600000,
+      n: 2552,
+    },
+    {
+      v: 3510,
+      vw: 1931.6834,
+      o: 1937.46,
+      c: 1926.54,
+      h: 1938.89,
+      l: 1924.7,
+      t: 1693872000000,
+      n: 3510,
+    },
+    {
+      v: 3102,
+      vw: 1921.7949,
+      o: 1926.6,
+      c: 1917.03,
+      h: 1929.04,
+      l: 1915.34,
+      t: 1693958400000,
+      n: 3102,
+    },
+    {
+      v: 3006,
+      vw: 1919.2993,
+      o: 1917.05,
+      c: 1920.05,
+      h: 1923.36,
+      l: 1915.7,
+      t: 1694044800000,
+      n: 3006,
+    },
+    {
+      v: 3057,
+      vw: 1922.9661,
+      o: 1920.13,
+      c: 1918.95,
+      h: 1929.41,
+      l: 1917.52,
+      t: 1694131200000,
+      n: 3057,
+    },
+    {
+      v: 256,
+      vw: 1918.5831,
+      o: 1920.4,
+      c: 1918.82,
+      h: 1920.41,
+      l: 1917.2,
+      t: 1694304000000,
+      n: 256,
+    },
+    {
+      v: 3556,
+      vw: 1924.1398,
+      o: 1918.91,
+      c: 1921.55,
+      h: 1930.45,
+      l: 1918.4,
+      t: 1694390400000,
+      n: 3556,
+    },
+    {
+      v: 3571,
+      vw: 1916.4747,
+      o: 1921.52,
+      c: 1912.86,
+      h: 1924.23,
+      l: 1907.87,
+      t: 1694476800000,
+      n: 3571,
+    },
+    {
+      v: 3558,
+      vw: 1910.6225,
+      o: 1912.83,
+      c: 1909.17,
+      h: 1915.7,
+      l: 1906.36,
+      t: 1694563200000,
+      n: 3558,
+    },
+    {
+      v: 3618,
+      vw: 1908.5279,
+      o: 1909.08,
+      c: 1909.76,
+      h: 1912.74,
+      l: 1900.5,
+      t: 1694649600000,
+      n: 3618,
+    },
+    {
+      v: 3291,
+      vw: 1919.5863,
+      o: 1909.78,
+      c: 1923.56,
+      h: 1930.27,
+      l: 1909.1,
+      t: 1694736000000,
+      n: 3291,
+    },
+    {
+      v: 256,
+      vw: 1923.3839,
+      o: 1923.57,
+      c: 1923.2,
+      h: 1925.2,
+      l: 1921.9,
+      t: 1694908800000,
+      n: 256,
+    },
+    {
+      v: 3610,
+      vw: 1928.6011,
+      o: 1923.17,
+      c: 1934.02,
+      h: 1934.44,
+      l: 1922.2,
+      t: 1694995200000,
+      n: 3610,
+    },
+    {
+      v: 3580,
+      vw: 1932.8051,
+      o: 1934.27,
+      c: 1931.33,
+      h: 1937.15,
+      l: 1929.5,
+      t: 1695081600000,
+      n: 3580,
+    },
+    {
+      v: 3605,
+      vw: 1934.0792,
+      o: 1931.34,
+      c: 1929.33,
+      h: 1947.34,
+      l: 1927.7,
+      t: 1695168000000,
+      n: 3605,
+    },
+    {
+      v: 3599,
+      vw: 1922.9364,
+      o: 1929.42,
+      c: 1921.3,
+      h: 1930.35,
+      l: 1913.9,
+      t: 1695254400000,
+      n: 3599,
+    },
+    {
+      v: 3243,
+      vw: 1925.3232,
+      o: 1921.47,
+      c: 1925.2,
+      h: 1928.85,
+      l: 1920.6,
+      t: 1695340800000,
+      n: 3243,
+    },
+    {
+      v: 252,
+      vw: 1925.398,
+      o: 1925.23,
+      c: 1924.68,
+      h: 1927.85,
+      l: 1923.7,
+      t: 1695513600000,
+      n: 252,
+    },
+    {
+      v: 3555,
+      vw: 1920.8302,
+      o: 1924.74,
+      c: 1916.17,
+      h: 1926.95,
+      l: 1914.5,
+      t: 1695600000000,
+      n: 3555,
+    },
+    {
+      v: 3561,
+      vw: 1908.5454,
+      o: 1916.1,
+      c: 1901.53,
+      h: 1916.37,
+      l: 1898.7,
+      t: 1695686400000,
+      n: 3561,
+    },
+    {
+      v: 3579,
+      vw: 1889.296,
+      o: 1901.5,
+      c: 1877.56,
+      h: 1903.46,
+      l: 1871.8,
+      t: 1695772800000,
+      n: 3579,
+    },
+    {
+      v: 3589,
+      vw: 1871.28,
+      o: 1877.46,
+      c: 1866.58,
+      h: 1879.31,
+      l: 1857.2,
+      t: 1695859200000,
+      n: 3589,
+    },
+    {
+      v: 3273,
+      vw: 1863.4144,
+      o: 1866.56,
+      c: 1848.58,
+      h: 1879.23,
+      l: 1845.9,
+      t: 1695945600000,
+      n: 3273,
+    },
+    {
+      v: 257,
+      vw: 1847.1051,
+      o: 1848.46,
+      c: 1848.31,
+      h: 1850.2,
+      l: 1845.4,
+      t: 1696118400000,
+      n: 257,
+    },
+    {
+      v: 3602,
+      vw: 1836.4845,
+      o: 1848.38,
+      c: 1824.92,
+      h: 1848.81,
+      l: 1820.53,
+      t: 1696204800000,
+      n: 3602,
+    },
+    {
+      v: 3592,
+      vw: 1823.7656,
+      o: 1824.72,
+      c: 1823.41,
+      h: 1832.91,
+      l: 1814.7,
+      t: 1696291200000,
+      n: 3592,
+    },
+    {
+      v: 3576,
+      vw: 1821.8925,
+      o: 1822.97,
+      c: 1822.63,
+      h: 1829.64,
+      l: 1816.6,
+      t: 1696377600000,
+      n: 3576,
+    },
+    {
+      v: 3499,
+      vw: 1821.8432,
+      o: 1822.58,
+      c: 1821.23,
+      h: 1829.04,
+      l: 1813.13,
+      t: 1696464000000,
+      n: 3499,
+    },
+    {
+      v: 3263,
+      vw: 1824.3251,
+      o: 1821.45,
+      c: 1832.19,
+      h: 1834.44,
+      l: 1810.74,
+      t: 1696550400000,
+      n: 3263,
+    },
+    {
+      v: 260,
+      vw: 1848.1286,
+      o: 1832.46,
+      c: 1848.04,
+      h: 1854.3,
+      l: 1827.8,
+      t: 1696723200000,
+      n: 260,
+    },
+    {
+      v: 3573,
+      vw: 1852.2439,
+      o: 1847.88,
+      c: 1862.52,
+      h: 1863.39,
+      l: 1844.3,
+      t: 1696809600000,
+      n: 3573,
+    },
+    {
+      v: 3580,
+      vw: 1859.4535,
+      o: 1862.82,
+      c: 1859.65,
+      h: 1865.22,
+      l: 1853.39,
+      t: 1696896000000,
+      n: 3580,
+    },
+    {
+      v: 3573,
+      vw: 1868.4393,
+      o: 1859.83,
+      c: 1875.3,
+      h: 1876.87,
+      l: 1858.67,
+      t: 1696982400000,
+      n: 3573,
+    },
+    {
+      v: 3589,
+      vw: 1875.7676,
+      o: 1875.37,
+      c: 1870.66,
+      h: 1884.34,
+      l: 1867.8,
+      t: 1697068800000,
+      n: 3589,
+    },
+    {
+      v: 3268,
+      vw: 1897.0268,
+      o: 1870.59,
+      c: 1931.46,
+      h: 1932.65,
+      l: 1870.21,
+      t: 1697155200000,
+      n: 3268,
+    },
+    {
+      v: 257,
+      vw: 1924.6839,
+      o: 1932.9,
+      c: 1925.81,
+      h: 1932.9,
+      l: 1921.07,
+      t: 1697328000000,
+      n: 257,
+    },
+    {
+      v: 3588,
+      vw: 1918.3539,
+      o: 1925.4,
+      c: 1919.27,
+      h: 1925.94,
+      l: 1908.43,
+      t: 1697414400000,
+      n: 3588,
+    },
+    {
+      v: 3600,
+      vw: 1921.0257,
+      o: 1919.46,
+      c: 1924.63,
+      h: 1931.12,
+      l: 1912.4,
+      t: 1697500800000,
+      n: 3600,
+    },
+    {
+      v: 3602,
+      vw: 1943.739,
+      o: 1924.77,
+      c: 1950.69,
+      h: 1962.41,
+      l: 1923.86,
+      t: 1697587200000,
+      n: 3602,
+    },
+    {
+      v: 3612,
+      vw: 1956.5545,
+      o: 1950.94,
+      c: 1976.65,
+      h: 1979.4,
+      l: 1944.9,
+      t: 1697673600000,
+      n: 3612,
+    },
+    {
+      v: 3288,
+      vw: 1980.9939,
+      o: 1977,
+      c: 1981.2,
+      h: 1997.03,
+      l: 1971.4,
+      t: 1697760000000,
+      n: 3288,
+    },
+    {
+      v: 253,
+      vw: 1975.8739,
+      o: 1972.35,
+      c: 1971.45,
+      h: 1978.28,
+      l: 1969.5,
+      t: 1697932800000,
+      n: 253,
+    },
+    {
+      v: 3592,
+      vw: 1975.1369,
+      o: 1970.62,
+      c: 1973.52,
+      h: 1982.7,
+      l: 1964.52,
+      t: 1698019200000,
+      n: 3592,
+    },
+    {
+      v: 3599,
+      vw: 1971.4222,
+      o: 1973.59,
+      c: 1972.79,
+      h: 1980.45,
+      l: 1953.9,
+      t: 1698105600000,
+      n: 3599,
+    },
+    {
+      v: 3615,
+      vw: 1976.2399,
+      o: 1972.82,
+      c: 1982.91,
+      h: 1986.62,
+      l: 1963.41,
+      t: 1698192000000,
+      n: 3615,
+    },
+    {
+      v: 3598,
+      vw: 1984.9989,
+      o: 1982.93,
+      c: 1984.33,
+      h: 1993.2,
+      l: 1972.1,
+      t: 1698278400000,
+      n: 3598,
+    },
+    {
+      v: 3305,
+      vw: 1988.1534,
+      o: 1984.24,
+      c: 2005.92,
+      h: 2009.09,
+      l: 1976.69,
+      t: 1698364800000,
+      n: 3305,
+    },
+    {
+      v: 270,
+      vw: 2002.2839,
+      o: 2008.1,
+      c: 2002.72,
+      h: 2008.11,
+      l: 1997.66,
+      t: 1698537600000,
+      n: 270,
+    },
+    {
+      v: 3617,
+      vw: 1998.2374,
+      o: 2002.49,
+      c: 1995.41,
+      h: 2006.6,
+      l: 1990.91,
+      t: 1698624000000,
+      n: 3617,
+    },
+    {
+      v: 3607,
+      vw: 1992.9994,
+      o: 1995.01,
+      c: 1983.63,
+      h: 2007.14,
+      l: 1979.94,
+      t: 1698710400000,
+      n: 3607,
+    },
+    {
+      v: 3615,
+      vw: 1980.8653,
+      o: 1983.38,
+      c: 1985.02,
+      h: 1991.82,
+      l: 1970.08,
+      t: 1698796800000,
+      n: 3615,
+    },
+    {
+      v: 3622,
+      vw: 1985.4641,
+      o: 1984.88,
+      c: 1984.93,
+      h: 1990.87,
+      l: 1978.9,
+      t: 1698883200000,
+      n: 3622,
+    },
+    {
+      v: 3286,
+      vw: 1989.6104,
+      o: 1985.14,
+      c: 1992.34,
+      h: 2003.9,
+      l: 1982.5,
+      t: 1698969600000,
+      n: 3286,
+    },
+    {
+      v: 133,
+      vw: 1989.3446,
+      o: 1993,
+      c: 1988.39,
+      h: 1993,
+      l: 1987.09,
+      t: 1699142400000,
+      n: 133,
+    },
+    {
+      v: 3605,
+      vw: 1984.4611,
+      o: 1988.6,
+      c: 1976.66,
+      h: 1993.01,
+      l: 1975,
+      t: 1699228800000,
+      n: 3605,
+    },
+    {
+      v: 3637,
+      vw: 1968.1749,
+      o: 1976.51,
+      c: 1968.84,
+      h: 1976.89,
+      l: 1956.61,
+      t: 1699315200000,
+      n: 3637,
+    },
+    {
+      v: 3607,
+      vw: 1961.3582,
+      o: 1968.96,
+      c: 1950.77,
+      h: 1970.89,
+      l: 1946.8,
+      t: 1699401600000,
+      n: 3607,
+    },
+    {
+      v: 3617,
+      vw: 1952.9192,
+      o: 1950.82,
+      c: 1959.08,
+      h: 1965.54,
+      l: 1944.6,
+      t: 1699488000000,
+      n: 3617,
+    },
+    {
+      v: 3470,
+      vw: 1949.1162,
+      o: 1959.4,
+      c: 1937.43,
+      h: 1960.73,
+      l: 1933,
+      t: 1699574400000,
+      n: 3470,
+    },
+    {
+      v: 147,
+      vw: 1939.5805,
+      o: 1938.03,
+      c: 1940.2,
+      h: 1942.99,
+      l: 1937.06,
+      t: 1699747200000,
+      n: 147,
+    },
+    {
+      v: 3631,
+      vw: 1940.0071,
+      o: 1940.04,
+      c: 1946.34,
+      h: 1948.91,
+      l: 1932.29,
+      t: 1699833600000,
+      n: 3631,
+    },
+    {
+      v: 3603,
+      vw: 1952.8156,
+      o: 1946.6,
+      c: 1962.46,
+      h: 1969.76,
+      l: 1943.1,
+      t: 1699920000000,
+      n: 3603,
+    },
+    {
+      v: 3602,
+      vw: 1965.3663,
+      o: 1962.16,
+      c: 1960.27,
+      h: 1974.4,
+      l: 1955.81,
+      t: 1700006400000,
+      n: 3602,
+    },
+    {
+      v: 3625,
+      vw: 1970.7981,
+      o: 1960.22,
+      c: 1982.32,
+      h: 1987.7,
+      l: 1956.4,
+      t: 1700092800000,
+      n: 3625,
+    },
+    {
+      v: 3431,
+      vw: 1984.6992,
+      o: 1982.18,
+      c: 1980.55,
+      h: 1993.27,
+      l: 1978,
+      t: 1700179200000,
+      n: 3431,
+    },
+    {
+      v: 135,
+      vw: 1977.8701,
+      o: 1980.65,
+      c: 1974.24,
+      h: 1981,
+      l: 1974.24,
+      t: 1700352000000,
+      n: 135,
+    },
+    {
+      v: 3613,
+      vw: 1976.9739,
+      o: 1975.73,
+      c: 1981.27,
+      h: 1984.85,
+      l: 1965.55,
+      t: 1700438400000,
+      n: 3613,
+    },
+    {
+      v: 3610,
+      vw: 1993.8784,
+      o: 1981.25,
+      c: 1999.26,
+      h: 2007.1,
+      l: 1980.3,
+      t: 1700524800000,
+      n: 3610,
+    },
+    {
+      v: 3608,
+      vw: 1996.6314,
+      o: 1999.2,
+      c: 1990.18,
+      h: 2006.09,
+      l: 1986.95,
+      t: 1700611200000,
+      n: 3608,
+    },
+    {
+      v: 3244,
+      vw: 1993.5582,
+      o: 1990.08,
+      c: 1993.98,
+      h: 1998.41,
+      l: 1989.3,
+      t: 1700697600000,
+      n: 3244,
+    },
+    {
+      v: 2938,
+      vw: 1995.6555,
+      o: 1994.07,
+      c: 2001.97,
+      h: 2003.2,
+      l: 1991.1,
+      t: 1700784000000,
+      n: 2938,
+    },
+    {
+      v: 138,
+      vw: 2001.7457,
+      o: 2002.8,
+      c: 2002.26,
+      h: 2011.1,
+      l: 2000.1,
+      t: 1700956800000,
+      n: 138,
+    },
+    {
+      v: 3607,
+      vw: 2011.4622,
+      o: 2002.34,
+      c: 2015.33,
+      h: 2017.57,
+      l: 2001.85,
+      t: 1701043200000,
+      n: 3607,
+    },
+    {
+      v: 3601,
+      vw: 2023.7085,
+      o: 2015.29,
+      c: 2044.48,
+      h: 2044.48,
+      l: 2011.79,
+      t: 1701129600000,
+      n: 3601,
+    },
+    {
+      v: 3593,
+      vw: 2043.4769,
+      o: 2044.41,
+      c: 2044.51,
+      h: 2051.74,
+      l: 2035.88,
+      t: 1701216000000,
+      n: 3593,
+    },
+    {
+      v: 3599,
+      vw: 2040.2509,
+      o: 2044.53,
+      c: 2040.04,
+      h: 2046.93,
+      l: 2032.24,
+      t: 1701302400000,
+      n: 3599,
+    },
+    {
+      v: 3438,
+      vw: 2048.162,
+      o: 2040.04,
+      c: 2071.93,
+      h: 2074.95,
+      l: 2033.94,
+      t: 1701388800000,
+      n: 3438,
+    },
+    {
+      v: 98,
+      vw: 2096.4194,
+      o: 2071.95,
+      c: 2116.24,
+      h: 2132.49,
+      l: 2069.7,
+      t: 1701561600000,
+      n: 98,
+    },
+    {
+      v: 3598,
+      vw: 2059.7463,
+      o: 2120.04,
+      c: 2033.85,
+      h: 2120.04,
+      l: 2020.9,
+      t: 1701648000000,
+      n: 3598,
+    },
+    {
+      v: 3595,
+      vw: 2026.7887,
+      o: 2033.79,
+      c: 2018.89,
+      h: 2040.92,
+      l: 2009.71,
+      t: 1701734400000,
+      n: 3595,
+    },
+    {
+      v: 3612,
+      vw: 2025.4882,
+      o: 2018.88,
+      c: 2027.07,
+      h: 2035.26,
+      l: 2018.2,
+      t: 1701820800000,
+      n: 3612,
+    },
+    {
+      v: 3604,
+      vw: 2029.5501,
+      o: 2026.98,
+      c: 2028.05,
+      h: 2039.66,
+      l: 2020.34,
+      t: 1701907200000,
+      n: 3604,
+    },
+    {
+      v: 3421,
+      vw: 2020.1593,
+      o: 2028.3,
+      c: 2004.29,
+      h: 2033.91,
+      l: 1994.71,
+      t: 1701993600000,
+      n: 3421,
+    },
+    {
+      v: 130,
+      vw: 2006.0064,
+      o: 2004.25,
+      c: 2007.08,
+      h: 2007.39,
+      l: 2003.6,
+      t: 1702166400000,
+      n: 130,
+    },
+    {
+      v: 3622,
+      vw: 1991.462,
+      o: 2007.14,
+      c: 1982.86,
+      h: 2007.62,
+      l: 1975.4,
+      t: 1702252800000,
+      n: 3622,
+    },
+    {
+      v: 3597,
+      vw: 1983.8455,
+      o: 1982.95,
+      c: 1982.46,
+      h: 1994.96,
+      l: 1977.16,
+      t: 1702339200000,
+      n: 3597,
+    },
+    {
+      v: 3597,
+      vw: 1987.1753,
+      o: 1982.25,
+      c: 2032.97,
+      h: 2032.97,
+      l: 1973.01,
+      t: 1702425600000,
+      n: 3597,
+    },
+    {
+      v: 3591,
+      vw: 2035.0538,
+      o: 2032.52,
+      c: 2035.65,
+      h: 2047.55,
+      l: 2028.05,
+      t: 1702512000000,
+      n: 3591,
+    },
+    {
+      v: 3426,
+      vw: 2033.7942,
+      o: 2035.96,
+      c: 2019.45,
+      h: 2044.42,
+      l: 2015.96,
+      t: 1702598400000,
+      n: 3426,
+    },
+    {
+      v: 139,
+      vw: 2018.2304,
+      o: 2019.59,
+      c: 2017.72,
+      h: 2021.19,
+      l: 2015.3,
+      t: 1702771200000,
+      n: 139,
+    },
+    {
+      v: 3618,
+      vw: 2023.486,
+      o: 2017.66,
+      c: 2027.61,
+      h: 2033.49,
+      l: 2015.4,
+      t: 1702857600000,
+      n: 3618,
+    },
+    {
+      v: 3616,
+      vw: 2031.3637,
+      o: 2027.48,
+      c: 2040.78,
+      h: 2046.82,
+      l: 2021.1,
+      t: 1702944000000,
+      n: 3616,
+    },
+    {
+      v: 3595,
+      vw: 2036.7316,
+      o: 2040.8,
+      c: 2032.08,
+      h: 2043.29,
+      l: 2027.54,
+      t: 1703030400000,
+      n: 3595,
+    },
+    {
+      v: 3599,
+      vw: 2038.6087,
+      o: 2032.01,
+      c: 2052.21,
+      h: 2054.79,
+      l: 2031.9,
+      t: 1703116800000,
+      n: 3599,
+    },
+    {
+      v: 3455,
+      vw: 2054.3218,
+      o: 2052.98,
+      c: 2052.74,
+      h: 2070.2,
+      l: 2046.9,
+      t: 1703203200000,
+      n: 3455,
+    },
+    {
+      v: 1,
+      vw: 2054.71,
+      o: 2054.71,
+      c: 2054.71,
+      h: 2054.71,
+      l: 2054.71,
+      t: 1703376000000,
+      n: 1,
+    },
+    {
+      v: 166,
+      vw: 2054.7992,
+      o: 2053.41,
+      c: 2054.97,
+      h: 2057.6,
+      l: 2053.2,
+      t: 1703462400000,
+      n: 166,
+    },
+    {
+      v: 3650,
+      vw: 2061.7418,
+      o: 2054.69,
+      c: 2066.05,
+      h: 2068.91,
+      l: 2052.9,
+      t: 1703548800000,
+      n: 3650,
+    },
+    {
+      v: 3618,
+      vw: 2070.5732,
+      o: 2066.36,
+      c: 2079.26,
+      h: 2083.99,
+      l: 2061.65,
+      t: 1703635200000,
+      n: 3618,
+    },
+    {
+      v: 3608,
+      vw: 2077.7037,
+      o: 2079.31,
+      c: 2066.9,
+      h: 2088.31,
+      l: 2064.6,
+      t: 1703721600000,
+      n: 3608,
+    },
+    {
+      v: 3460,
+      vw: 2067.0132,
+      o: 2066.69,
+      c: 2062.66,
+      h: 2074.51,
+      l: 2058.22,
+      t: 1703808000000,
+      n: 3460,
+    },
+    {
+      v: 1,
+      vw: 2065.21,
+      o: 2065.21,
+      c: 2065.21,
+      h: 2065.21,
+      l: 2065.21,
+      t: 1703980800000,
+      n: 1,
+    },
+    {
+      v: 161,
+      vw: 2064.7512,
+      o: 2064,
+      c: 2063.54,
+      h: 2066.44,
+      l: 2063,
+      t: 1704067200000,
+      n: 161,
+    },
+    {
+      v: 3605,
+      vw: 2067.4422,
+      o: 2063.78,
+      c: 2059.54,
+      h: 2078.8,
+      l: 2056.65,
+      t: 1704153600000,
+      n: 3605,
+    },
+    {
+      v: 3601,
+      vw: 2050.311,
+      o: 2059.55,
+      c: 2042.95,
+      h: 2065.92,
+      l: 2030.88,
+      t: 1704240000000,
+      n: 3601,
+    },
+    {
+      v: 3594,
+      vw: 2044.3999,
+      o: 2042.92,
+      c: 2044.41,
+      h: 2050.65,
+      l: 2036.56,
+      t: 1704326400000,
+      n: 3594,
+    },
+    {
+      v: 3443,
+      vw: 2044.288,
+      o: 2044.02,
+      c: 2045.41,
+      h: 2063.6,
+      l: 2025.36,
+      t: 1704412800000,
+      n: 3443,
+    },
+    {
+      v: 128,
+      vw: 2044.2689,
+      o: 2046.65,
+      c: 2044.38,
+      h: 2046.65,
+      l: 2042.3,
+      t: 1704585600000,
+      n: 128,
+    },
+    {
+      v: 3609,
+      vw: 2030.9746,
+      o: 2044.1,
+      c: 2030.71,
+      h: 2046.5,
+      l: 2018.62,
+      t: 1704672000000,
+      n: 3609,
+    },
+    {
+      v: 3615,
+      vw: 2032.7277,
+      o: 2029.8,
+      c: 2031.01,
+      h: 2040.22,
+      l: 2026.12,
+      t: 1704758400000,
+      n: 3615,
+    },
+    {
+      v: 3606,
+      vw: 2028.9341,
+      o: 2030.74,
+      c: 2026.71,
+      h: 2040.19,
+      l: 2020.39,
+      t: 1704844800000,
+      n: 3606,
+    },
+    {
+      v: 3619,
+      vw: 2028.8539,
+      o: 2026.87,
+      c: 2034.92,
+      h: 2038.96,
+      l: 2013.39,
+      t: 1704931200000,
+      n: 3619,
+    },
+    {
+      v: 3466,
+      vw: 2042.4487,
+      o: 2035.2,
+      c: 2048.99,
+      h: 2062.13,
+      l: 2029.9,
+      t: 1705017600000,
+      n: 3466,
+    },
+    {
+      v: 139,
+      vw: 2047.3771,
+      o: 2050.25,
+      c: 2047.49,
+      h: 2050.25,
+      l: 2045.5,
+      t: 1705190400000,
+      n: 139,
+    },
+    {
+      v: 3212,
+      vw: 2053.5599,
+      o: 2047.29,
+      c: 2054.2,
+      h: 2058.55,
+      l: 2045.8,
+      t: 1705276800000,
+      n: 3212,
+    },
+    {
+      v: 3624,
+      vw: 2040.1493,
+      o: 2054.25,
+      c: 2028.21,
+      h: 2054.4,
+      l: 2023.9,
+      t: 1705363200000,
+      n: 3624,
+    },
+    {
+      v: 3599,
+      vw: 2018.0979,
+      o: 2028.01,
+      c: 2009.7,
+      h: 2032.36,
+      l: 2001.4,
+      t: 1705449600000,
+      n: 3599,
+    },
+    {
+      v: 3612,
+      vw: 2013.3373,
+      o: 2009.5,
+      c: 2023.71,
+      h: 2024.34,
+      l: 2005.5,
+      t: 1705536000000,
+      n: 3612,
+    },
+    {
+      v: 3401,
+      vw: 2026.8896,
+      o: 2023.33,
+      c: 2029.47,
+      h: 2039.29,
+      l: 2019.6,
+      t: 1705622400000,
+      n: 3401,
+    },
+    {
+      v: 134,
+      vw: 2027.5182,
+      o: 2031.9,
+      c: 2027.45,
+      h: 2031.9,
+      l: 2026.1,
+      t: 1705795200000,
+      n: 134,
+    },
+    {
+      v: 3608,
+      vw: 2023.8572,
+      o: 2027.29,
+      c: 2020.7,
+      h: 2031.92,
+      l: 2017.46,
+      t: 1705881600000,
+      n: 3608,
+    },
+    {
+      v: 3609,
+      vw: 2026.2694,
+      o: 2021.28,
+      c: 2029.4,
+      h: 2037.65,
+      l: 2019.1,
+      t: 1705968000000,
+      n: 3609,
+    },
+    {
+      v: 3612,
+      vw: 2024.0424,
+      o: 2028.9,
+      c: 2016.41,
+      h: 2036.33,
+      l: 2011.22,
+      t: 1706054400000,
+      n: 3612,
+    },
+    {
+      v: 3623,
+      vw: 2016.8645,
+      o: 2016.43,
+      c: 2020.59,
+      h: 2024.84,
+      l: 2010.71,
+      t: 1706140800000,
+      n: 3623,
+    },
+    {
+      v: 3450,
+      vw: 2020.5168,
+      o: 2020.73,
+      c: 2018.33,
+      h: 2025.91,
+      l: 2016,
+      t: 1706227200000,
+      n: 3450,
+    },
+    {
+      v: 133,
+      vw: 2023.7983,
+      o: 2018.75,
+      c: 2021.74,
+      h: 2027.43,
+      l: 2018.75,
+      t: 1706400000000,
+      n: 133,
+    },
+    {
+      v: 3637,
+      vw: 2027.6663,
+      o: 2021.79,
+      c: 2031.16,
+      h: 2037.24,
+      l: 2018.5,
+      t: 1706486400000,
+      n: 3637,
+    },
+    {
+      v: 3593,
+      vw: 2034.8282,
+      o: 2031.27,
+      c: 2036.4,
+      h: 2048.31,
+      l: 2029.1,
+      t: 1706572800000,
+      n: 3593,
+    },
+    {
+      v: 3609,
+      vw: 2039.723,
+      o: 2036.74,
+      c: 2039.85,
+      h: 2055.78,
+      l: 2031,
+      t: 1706659200000,
+      n: 3609,
+    },
+    {
+      v: 10618,
+      vw: 2053.3573,
+      o: 2040,
+      c: 2054.66,
+      h: 2065.14,
+      l: 2038.5,
+      t: 1706745600000,
+      n: 10618,
+    },
+    {
+      v: 3440,
+      vw: 2047.3652,
+      o: 2054.68,
+      c: 2039.58,
+      h: 2057.42,
+      l: 2027.2,
+      t: 1706832000000,
+      n: 3440,
+    },
+    {
+      v: 135,
+      vw: 2040.1538,
+      o: 2042.4,
+      c: 2039.31,
+      h: 2042.4,
+      l: 2038.2,
+      t: 1707004800000,
+      n: 135,
+    },
+    {
+      v: 3603,
+      vw: 2026.549,
+      o: 2040.01,
+      c: 2024.99,
+      h: 2040.01,
+      l: 2014.4,
+      t: 1707091200000,
+      n: 3603,
+    },
+    {
+      v: 3601,
+      vw: 2029.5406,
+      o: 2025.1,
+      c: 2035.15,
+      h: 2038.62,
+      l: 2022.6,
+      t: 1707177600000,
+      n: 3601,
+    },
+    {
+      v: 3599,
+      vw: 2035.0321,
+      o: 2035.21,
+      c: 2036.54,
+      h: 2044.47,
+      l: 2030.57,
+      t: 1707264000000,
+      n: 3599,
+    },
+    {
+      v: 3596,
+      vw: 2032.2435,
+      o: 2036.42,
+      c: 2034.1,
+      h: 2038.43,
+      l: 2020.34,
+      t: 1707350400000,
+      n: 3596,
+    },
+    {
+      v: 3442,
+      vw: 2029.5243,
+      o: 2034.1,
+      c: 2024.38,
+      h: 2036.75,
+      l: 2020.3,
+      t: 1707436800000,
+      n: 3442,
+    },
+    {
+      v: 130,
+      vw: 2025.1875,
+      o: 2023.45,
+      c: 2025.38,
+      h: 2026.6,
+      l: 2023.45,
+      t: 1707609600000,
+      n: 130,
+    },
+    {
+      v: 3611,
+      vw: 2021.0837,
+      o: 2025.25,
+      c: 2018.76,
+      h: 2026.98,
+      l: 2011.3,
+      t: 1707696000000,
+      n: 3611,
+    },
+    {
+      v: 3602,
+      vw: 2011.2588,
+      o: 2018.76,
+      c: 1991.28,
+      h: 2029.71,
+      l: 1990.19,
+      t: 1707782400000,
+      n: 3602,
+    },
+    {
+      v: 3602,
+      vw: 1991.1874,
+      o: 1991.24,
+      c: 1993.75,
+      h: 1996,
+      l: 1985.27,
+      t: 1707868800000,
+      n: 3602,
+    },
+    {
+      v: 3581,
+      vw: 1997.9149,
+      o: 1993.79,
+      c: 2003.26,
+      h: 2007.9,
+      l: 1990.18,
+      t: 1707955200000,
+      n: 3581,
+    },
+    {
+      v: 3422,
+      vw: 2006.3978,
+      o: 2003.35,
+      c: 2013.01,
+      h: 2015.02,
+      l: 1995.22,
+      t: 1708041600000,
+      n: 3422,
+    },
+    {
+      v: 137,
+      vw: 2011.7088,
+      o: 2012.3,
+      c: 2007,
+      h: 2013.96,
+      l: 2006.37,
+      t: 1708214400000,
+      n: 137,
+    },
+    {
+      v: 3199,
+      vw: 2018.5263,
+      o: 2012.87,
+      c: 2016.11,
+      h: 2022.67,
+      l: 2007,
+      t: 1708300800000,
+      n: 3199,
+    },
+    {
+      v: 3336,
+      vw: 2022.9948,
+      o: 2016.11,
+      c: 2024.07,
+      h: 2030.66,
+      l: 2014.2,
+      t: 1708387200000,
+      n: 3336,
+    },
+    {
+      v: 3609,
+      vw: 2027.1389,
+      o: 2023.8,
+      c: 2025.68,
+      h: 2031.98,
+      l: 2020.47,
+      t: 1708473600000,
+      n: 3609,
+    },
+    {
+      v: 3593,
+      vw: 2026.4826,
+      o: 2025.52,
+      c: 2024.79,
+      h: 2034.37,
+      l: 2019.77,
+      t: 1708560000000,
+      n: 3593,
+    },
+    {
+      v: 3431,
+      vw: 2027.2958,
+      o: 2024.69,
+      c: 2035.39,
+      h: 2041.16,
+      l: 2015.99,
+      t: 1708646400000,
+      n: 3431,
+    },
+    {
+      v: 130,
+      vw: 2033.848,
+      o: 2034.29,
+      c: 2034.11,
+      h: 2034.64,
+      l: 2032.2,
+      t: 1708819200000,
+      n: 130,
+    },
+    {
+      v: 3605,
+      vw: 2031.3969,
+      o: 2033.79,
+      c: 2031.06,
+      h: 2036.78,
+      l: 2025.2,
+      t: 1708905600000,
+      n: 3605,
+    },
+    {
+      v: 3590,
+      vw: 2033.7072,
+      o: 2031.12,
+      c: 2030.08,
+      h: 2039.29,
+      l: 2028.78,
+      t: 1708992000000,
+      n: 3590,
+    },
+    {
+      v: 3583,
+      vw: 2031.0383,
+      o: 2030,
+      c: 2034.6,
+      h: 2037.52,
+      l: 2024.5,
+      t: 1709078400000,
+      n: 3583,
+    },
+    {
+      v: 3573,
+      vw: 2039.0292,
+      o: 2034.57,
+      c: 2044.13,
+      h: 2050.42,
+      l: 2028.16,
+      t: 1709164800000,
+      n: 3573,
+    },
+    {
+      v: 3438,
+      vw: 2057.8003,
+      o: 2044.08,
+      c: 2082.65,
+      h: 2088.03,
+      l: 2038.6,
+      t: 1709251200000,
+      n: 3438,
+    },
+    {
+      v: 137,
+      vw: 2084.1882,
+      o: 2084.35,
+      c: 2083.28,
+      h: 2086,
+      l: 2081.7,
+      t: 1709424000000,
+      n: 137,
+    },
+    {
+      v: 3615,
+      vw: 2094.1496,
+      o: 2083.17,
+      c: 2114.52,
+      h: 2119.61,
+      l: 2079.4,
+      t: 1709510400000,
+      n: 3615,
+    },
+    {
+      v: 3596,
+      vw: 2122.7725,
+      o: 2114.3,
+      c: 2128.17,
+      h: 2141.62,
+      l: 2110,
+      t: 1709596800000,
+      n: 3596,
+    },
+    {
+      v: 3557,
+      vw: 2134.1417,
+      o: 2127.91,
+      c: 2147.44,
+      h: 2152.07,
+      l: 2123.6,
+      t: 1709683200000,
+      n: 3557,
+    },
+    {
+      v: 3629,
+      vw: 2155.3235,
+      o: 2147.45,
+      c: 2162.04,
+      h: 2163.15,
+      l: 2144.26,
+      t: 1709769600000,
+      n: 3629,
+    },
+    {
+      v: 3429,
+      vw: 2167.541,
+      o: 2161.53,
+      c: 2178.76,
+      h: 2194.89,
+      l: 2154.03,
+      t: 1709856000000,
+      n: 3429,
+    },
+    {
+      v: 267,
+      vw: 2180.0064,
+      o: 2180.23,
+      c: 2181.7,
+      h: 2183.66,
+      l: 2176.5,
+      t: 1710028800000,
+      n: 267,
+    },
+    {
+      v: 3610,
+      vw: 2180.3541,
+      o: 2182.11,
+      c: 2183.59,
+      h: 2188.68,
+      l: 2175.7,
+      t: 1710115200000,
+      n: 3610,
+    },
+    {
+      v: 3585,
+      vw: 2169.4993,
+      o: 2183.87,
+      c: 2156.93,
+      h: 2184.36,
+      l: 2150.53,
+      t: 1710201600000,
+      n: 3585,
+    },
+    {
+      v: 3597,
+      vw: 2165.328,
+      o: 2156.91,
+      c: 2175.4,
+      h: 2179.03,
+      l: 2156.7,
+      t: 1710288000000,
+      n: 3597,
+    },
+    {
+      v: 3588,
+      vw: 2166.6435,
+      o: 2175.28,
+      c: 2161.58,
+      h: 2176.74,
+      l: 2152.98,
+      t: 1710374400000,
+      n: 3588,
+    },
+    {
+      v: 3292,
+      vw: 2163.3303,
+      o: 2161.56,
+      c: 2155.78,
+      h: 2172.44,
+      l: 2155.54,
+      t: 1710460800000,
+      n: 3292,
+    },
+    {
+      v: 275,
+      vw: 2154.7231,
+      o: 2152.92,
+      c: 2156.6,
+      h: 2156.63,
+      l: 2151.6,
+      t: 1710633600000,
+      n: 275,
+    },
+    {
+      v: 3631,
+      vw: 2155.5112,
+      o: 2156.5,
+      c: 2161.86,
+      h: 2163.49,
+      l: 2145.3,
+      t: 1710720000000,
+      n: 3631,
+    },
+    {
+      v: 3610,
+      vw: 2156.6047,
+      o: 2162.27,
+      c: 2157.06,
+      h: 2162.77,
+      l: 2147.12,
+      t: 1710806400000,
+      n: 3610,
+    },
+    {
+      v: 3609,
+      vw: 2163.5849,
+      o: 2157.11,
+      c: 2203.89,
+      h: 2222.06,
+      l: 2149.66,
+      t: 1710892800000,
+      n: 3609,
+    },
+    {
+      v: 3579,
+      vw: 2194.8593,
+      o: 2203.88,
+      c: 2181.69,
+      h: 2211.57,
+      l: 2166.32,
+      t: 1710979200000,
+      n: 3579,
+    },
+    {
+      v: 3288,
+      vw: 2170.4374,
+      o: 2181.67,
+      c: 2165.13,
+      h: 2185.85,
+      l: 2157.35,
+      t: 1711065600000,
+      n: 3288,
+    },
+    {
+      v: 268,
+      vw: 2166.8872,
+      o: 2175.21,
+      c: 2168.12,
+      h: 2175.21,
+      l: 2164.4,
+      t: 1711238400000,
+      n: 268,
+    },
+    {
+      v: 3618,
+      vw: 2171.5865,
+      o: 2168.18,
+      c: 2172.99,
+      h: 2181.01,
+      l: 2163.9,
+      t: 1711324800000,
+      n: 3618,
+    },
+    {
+      v: 3607,
+      vw: 2178.45,
+      o: 2172.71,
+      c: 2179.61,
+      h: 2199.64,
+      l: 2167.7,
+      t: 1711411200000,
+      n: 3607,
+    },
+    {
+      v: 3607,
+      vw: 2185.6823,
+      o: 2179.5,
+      c: 2190.55,
+      h: 2197.32,
+      l: 2173.67,
+      t: 1711497600000,
+      n: 3607,
+    },
+    {
+      v: 3269,
+      vw: 2204.7896,
+      o: 2190.97,
+      c: 2231.91,
+      h: 2233.81,
+      l: 2187,
+      t: 1711584000000,
+      n: 3269,
+    },
+    {
+      v: 269,
+      vw: 2239.7922,
+      o: 2237.65,
+      c: 2246.23,
+      h: 2246.82,
+      l: 2234.5,
+      t: 1711843200000,
+      n: 269,
+    },
+    {
+      v: 3631,
+      vw: 2250.4661,
+      o: 2244.75,
+      c: 2248.96,
+      h: 2265.37,
+      l: 2228.57,
+      t: 1711929600000,
+      n: 3631,
+    },
+    {
+      v: 3581,
+      vw: 2261.4295,
+      o: 2248.57,
+      c: 2279.69,
+      h: 2287.66,
+      l: 2246.5,
+      t: 1712016000000,
+      n: 3581,
+    },
+    {
+      v: 3594,
+      vw: 2283.8178,
+      o: 2279.73,
+      c: 2297.49,
+      h: 2302.27,
+      l: 2266.01,
+      t: 1712102400000,
+      n: 3594,
+    },
+    {
+      v: 3605,
+      vw: 2294.085,
+      o: 2297.34,
+      c: 2288.92,
+      h: 2305.03,
+      l: 2280.98,
+      t: 1712188800000,
+      n: 3605,
+    },
+    {
+      v: 3256,
+      vw: 2297.1094,
+      o: 2289.04,
+      c: 2329.57,
+      h: 2330.13,
+      l: 2267.98,
+      t: 1712275200000,
+      n: 3256,
+    },
+    {
+      v: 277,
+      vw: 2312.0692,
+      o: 2320.99,
+      c: 2311.33,
+      h: 2326.94,
+      l: 2305.6,
+      t: 1712448000000,
+      n: 277,
+    },
+    {
+      v: 3581,
+      vw: 2333.578,
+      o: 2312.03,
+      c: 2338.89,
+      h: 2350.28,
+      l: 2303.47,
+      t: 1712534400000,
+      n: 3581,
+    },
+    {
+      v: 3572,
+      vw: 2349.454,
+      o: 2338.96,
+      c: 2354.73,
+      h: 2365.04,
+      l: 2338.05,
+      t: 1712620800000,
+      n: 3572,
+    },
+    {
+      v: 3247,
+      vw: 2344.2273,
+      o: 2354.75,
+      c: 2335.47,
+      h: 2359.9,
+      l: 2319.87,
+      t: 1712707200000,
+      n: 3247,
+    },
+    {
+      v: 3591,
+      vw: 2346.6362,
+      o: 2335.39,
+      c: 2376.77,
+      h: 2378.63,
+      l: 2325.2,
+      t: 1712793600000,
+      n: 3591,
+    },
+    {
+      v: 3253,
+      vw: 2383.6261,
+      o: 2375.81,
+      c: 2343.65,
+      h: 2430.7,
+      l: 2334.59,
+      t: 1712880000000,
+      n: 3253,
+    },
+    {
+      v: 264,
+      vw: 2359.59,
+      o: 2361.3,
+      c: 2364.61,
+      h: 2372,
+      l: 2347.94,
+      t: 1713052800000,
+      n: 264,
+    },
+    {
+      v: 3595,
+      vw: 2360.1303,
+      o: 2363.77,
+      c: 2381.8,
+      h: 2391.86,
+      l: 2325.16,
+      t: 1713139200000,
+      n: 3595,
+    },
+    {
+      v: 3590,
+      vw: 2381.0019,
+      o: 2380.83,
+      c: 2382.44,
+      h: 2397.75,
+      l: 2362.28,
+      t: 1713225600000,
+      n: 3590,
+    },
+    {
+      v: 3585,
+      vw: 2380.563,
+      o: 2382.89,
+      c: 2367.73,
+      h: 2395.27,
+      l: 2358.51,
+      t: 1713312000000,
+      n: 3585,
+    },
+    {
+      v: 3598,
+      vw: 2378.5862,
+      o: 2368.53,
+      c: 2380.02,
+      h: 2392.23,
+      l: 2364.44,
+      t: 1713398400000,
+      n: 3598,
+    },
+    {
+      v: 3245,
+      vw: 2387.8236,
+      o: 2379.59,
+      c: 2390.01,
+      h: 2417.22,
+      l: 2372.99,
+      t: 1713484800000,
+      n: 3245,
+    },
+    {
+      v: 264,
+      vw: 2385.2009,
+      o: 2384.19,
+      c: 2386.54,
+      h: 2388.39,
+      l: 2381.2,
+      t: 1713657600000,
+      n: 264,
+    },
+    {
+      v: 3628,
+      vw: 2350.4234,
+      o: 2386.84,
+      c: 2333.86,
+      h: 2386.84,
+      l: 2325.22,
+      t: 1713744000000,
+      n: 3628,
+    },
+    {
+      v: 3599,
+      vw: 2314.6479,
+      o: 2333.17,
+      c: 2323.48,
+      h: 2334.11,
+      l: 2291.81,
+      t: 1713830400000,
+      n: 3599,
+    },
+    {
+      v: 3631,
+      vw: 2321.1594,
+      o: 2323.32,
+      c: 2316.09,
+      h: 2336.63,
+      l: 2311.5,
+      t: 1713916800000,
+      n: 3631,
+    },
+    {
+      v: 3637,
+      vw: 2325.0915,
+      o: 2316.28,
+      c: 2330.65,
+      h: 2344.47,
+      l: 2307.6,
+      t: 1714003200000,
+      n: 3637,
+    },
+    {
+      v: 3298,
+      vw: 2338.9464,
+      o: 2330.7,
+      c: 2337.48,
+      h: 2351.93,
+      l: 2326.42,
+      t: 1714089600000,
+      n: 3298,
+    },
+    {
+      v: 170,
+      vw: 2335.4711,
+      o: 2337.7,
+      c: 2335.82,
+      h: 2338.42,
+      l: 2333.5,
+      t: 1714262400000,
+      n: 170,
+    },
+    {
+      v: 3612,
+      vw: 2335.0973,
+      o: 2336.56,
+      c: 2333.06,
+      h: 2346.24,
+      l: 2322.31,
+      t: 1714348800000,
+      n: 3612,
+    },
+    {
+      v: 3612,
+      vw: 2310.572,
+      o: 2333.01,
+      c: 2291.25,
+      h: 2335.81,
+      l: 2285.26,
+      t: 1714435200000,
+      n: 3612,
+    },
+    {
+      v: 3099,
+      vw: 2296.9149,
+      o: 2291.98,
+      c: 2320.41,
+      h: 2327.31,
+      l: 2283.2,
+      t: 1714521600000,
+      n: 3099,
+    },
+    {
+      v: 3097,
+      vw: 2305.8114,
+      o: 2324.49,
+      c: 2303.91,
+      h: 2324.92,
+      l: 2285.63,
+      t: 1714608000000,
+      n: 3097,
+    },
+    {
+      v: 3268,
+      vw: 2299.9732,
+      o: 2303.44,
+      c: 2301.93,
+      h: 2319.52,
+      l: 2278.5,
+      t: 1714694400000,
+      n: 3268,
+    },
+    {
+      v: 135,
+      vw: 2298.7461,
+      o: 2301.85,
+      c: 2293.96,
+      h: 2302.96,
+      l: 2292.9,
+      t: 1714867200000,
+      n: 135,
+    },
+    {
+      v: 3245,
+      vw: 2317.7253,
+      o: 2293.74,
+      c: 2325.64,
+      h: 2331.82,
+      l: 2292.13,
+      t: 1714953600000,
+      n: 3245,
+    },
+    {
+      v: 3513,
+      vw: 2317.648,
+      o: 2327.86,
+      c: 2315.13,
+      h: 2329.72,
+      l: 2310.2,
+      t: 1715040000000,
+      n: 3513,
+    },
+    {
+      v: 3595,
+      vw: 2313.2948,
+      o: 2315.96,
+      c: 2308.72,
+      h: 2321.31,
+      l: 2304.29,
+      t: 1715126400000,
+      n: 3595,
+    },
+    {
+      v: 3624,
+      vw: 2322.7217,
+      o: 2308.72,
+      c: 2346.57,
+      h: 2348.29,
+      l: 2306.86,
+      t: 1715212800000,
+      n: 3624,
+    },
+    {
+      v: 3293,
+      vw: 2362.6564,
+      o: 2346.7,
+      c: 2359.97,
+      h: 2377.81,
+      l: 2346.1,
+      t: 1715299200000,
+      n: 3293,
+    },
+    {
+      v: 273,
+      vw: 2361.0293,
+      o: 2359.97,
+      c: 2360.29,
+      h: 2362.76,
+      l: 2359,
+      t: 1715472000000,
+      n: 273,
+    },
+    {
+      v: 3609,
+      vw: 2345.5466,
+      o: 2360.08,
+      c: 2338.26,
+      h: 2364.38,
+      l: 2332.77,
+      t: 1715558400000,
+      n: 3609,
+    },
+    {
+      v: 3613,
+      vw: 2347.3519,
+      o: 2338.14,
+      c: 2355.76,
+      h: 2359.45,
+      l: 2334.6,
+      t: 1715644800000,
+      n: 3613,
+    },
+    {
+      v: 3615,
+      vw: 2370.6299,
+      o: 2355.94,
+      c: 2391.66,
+      h: 2391.76,
+      l: 2352.39,
+      t: 1715731200000,
+      n: 3615,
+    },
+    {
+      v: 3615,
+      vw: 2384.0863,
+      o: 2391.57,
+      c: 2378.03,
+      h: 2397.07,
+      l: 2371.04,
+      t: 1715817600000,
+      n: 3615,
+    },
+    {
+      v: 3288,
+      vw: 2392.7111,
+      o: 2378.18,
+      c: 2414.02,
+      h: 2421.85,
+      l: 2373.6,
+      t: 1715904000000,
+      n: 3288,
+    },
+    {
+      v: 287,
+      vw: 2418.8145,
+      o: 2414.02,
+      c: 2420.3,
+      h: 2424.89,
+      l: 2414.02,
+      t: 1716076800000,
+      n: 287,
+    },
+    {
+      v: 3625,
+      vw: 2431.1413,
+      o: 2419.44,
+      c: 2426.12,
+      h: 2449.93,
+      l: 2409.62,
+      t: 1716163200000,
+      n: 3625,
+    },
+    {
+      v: 3603,
+      vw: 2420.6219,
+      o: 2425.75,
+      c: 2421.51,
+      h: 2433.48,
+      l: 2406.89,
+      t: 1716249600000,
+      n: 3603,
+    },
+    {
+      v: 3596,
+      vw: 2403.8674,
+      o: 2421.81,
+      c: 2382.22,
+      h: 2426.13,
+      l: 2374.99,
+      t: 1716336000000,
+      n: 3596,
+    },
+    {
+      v: 3580,
+      vw: 2355.6085,
+      o: 2382.21,
+      c: 2331.82,
+      h: 2383.53,
+      l: 2327.33,
+      t: 1716422400000,
+      n: 3580,
+    },
+    {
+      v: 3296,
+      vw: 2335.6886,
+      o: 2331.81,
+      c: 2333.04,
+      h: 2347.08,
+      l: 2325.44,
+      t: 1716508800000,
+      n: 3296,
+    },
+    {
+      v: 275,
+      vw: 2337.5183,
+      o: 2333.04,
+      c: 2337.05,
+      h: 2340.28,
+      l: 2332.43,
+      t: 1716681600000,
+      n: 275,
+    },
+    {
+      v: 3227,
+      vw: 2346.28,
+      o: 2336.93,
+      c: 2352.27,
+      h: 2358.25,
+      l: 2334.54,
+      t: 1716768000000,
+      n: 3227,
+    },
+    {
+      v: 3643,
+      vw: 2352.3946,
+      o: 2352.35,
+      c: 2359.94,
+      h: 2363.41,
+      l: 2339.9,
+      t: 1716854400000,
+      n: 3643,
+    },
+    {
+      v: 3613,
+      vw: 2346.8221,
+      o: 2359.59,
+      c: 2338.59,
+      h: 2361.03,
+      l: 2334.8,
+      t: 1716940800000,
+      n: 3613,
+    },
+    {
+      v: 3629,
+      vw: 2338.399,
+      o: 2338.11,
+      c: 2343.72,
+      h: 2350.99,
+      l: 2322.58,
+      t: 1717027200000,
+      n: 3629,
+    },
+    {
+      v: 3271,
+      vw: 2339.5167,
+      o: 2343.23,
+      c: 2325.76,
+      h: 2359.33,
+      l: 2320.38,
+      t: 1717113600000,
+      n: 3271,
+    },
+    {
+      v: 269,
+      vw: 2325.5556,
+      o: 2325.76,
+      c: 2325.55,
+      h: 2329.12,
+      l: 2322.7,
+      t: 1717286400000,
+      n: 269,
+    },
+    {
+      v: 3599,
+      vw: 2334.1288,
+      o: 2326.04,
+      c: 2350.39,
+      h: 2354.29,
+      l: 2314.85,
+      t: 1717372800000,
+      n: 3599,
+    },
+    {
+      v: 3564,
+      vw: 2334.9231,
+      o: 2350.55,
+      c: 2328.66,
+      h: 2352.32,
+      l: 2316.02,
+      t: 1717459200000,
+      n: 3564,
+    },
+    {
+      v: 3567,
+      vw: 2341.3377,
+      o: 2328.86,
+      c: 2354.98,
+      h: 2357.23,
+      l: 2325.84,
+      t: 1717545600000,
+      n: 3567,
+    },
+    {
+      v: 3600,
+      vw: 2367.1372,
+      o: 2355.26,
+      c: 2376.68,
+      h: 2378.17,
+      l: 2353.92,
+      t: 1717632000000,
+      n: 3600,
+    },
+    {
+      v: 3273,
+      vw: 2340.9443,
+      o: 2376.64,
+      c: 2293.51,
+      h: 2387.49,
+      l: 2286,
+      t: 1717718400000,
+      n: 3273,
+    },
+    {
+      v: 263,
+      vw: 2296.3531,
+      o: 2293.51,
+      c: 2298.46,
+      h: 2299.81,
+      l: 2290.73,
+      t: 1717891200000,
+      n: 263,
+    },
+    {
+      v: 3601,
+      vw: 2301.7992,
+      o: 2298.34,
+      c: 2309.88,
+      h: 2313.5,
+      l: 2287.74,
+      t: 1717977600000,
+      n: 3601,
+    },
+    {
+      v: 3588,
+      vw: 2308.821,
+      o: 2310,
+      c: 2314.86,
+      h: 2319.75,
+      l: 2297.9,
+      t: 1718064000000,
+      n: 3588,
+    },
+    {
+      v: 3568,
+      vw: 2319.9765,
+      o: 2314.9,
+      c: 2320.46,
+      h: 2341.16,
+      l: 2310.88,
+      t: 1718150400000,
+      n: 3568,
+    },
+    {
+      v: 3592,
+      vw: 2310.3945,
+      o: 2319.97,
+      c: 2302.16,
+      h: 2325.88,
+      l: 2295.9,
+      t: 1718236800000,
+      n: 3592,
+    },
+    {
+      v: 3269,
+      vw: 2320.341,
+      o: 2302.72,
+      c: 2332.3,
+      h: 2336.2,
+      l: 2301.5,
+      t: 1718323200000,
+      n: 3269,
+    },
+    {
+      v: 260,
+      vw: 2329.0208,
+      o: 2332.3,
+      c: 2328.6,
+      h: 2335.25,
+      l: 2326.7,
+      t: 1718496000000,
+      n: 260,
+    },
+    {
+      v: 3589,
+      vw: 2320.4164,
+      o: 2327.74,
+      c: 2320.76,
+      h: 2328.57,
+      l: 2309.73,
+      t: 1718582400000,
+      n: 3589,
+    },
+    {
+      v: 3598,
+      vw: 2322.0632,
+      o: 2321.34,
+      c: 2328.24,
+      h: 2332.63,
+      l: 2306.4,
+      t: 1718668800000,
+      n: 3598,
+    },
+    {
+      v: 3167,
+      vw: 2329.1508,
+      o: 2328.48,
+      c: 2329.24,
+      h: 2334.76,
+      l: 2323.87,
+      t: 1718755200000,
+      n: 3167,
+    },
+    {
+      v: 3577,
+      vw: 2345.2099,
+      o: 2329.23,
+      c: 2360.66,
+      h: 2365.1,
+      l: 2327.4,
+      t: 1718841600000,
+      n: 3577,
+    },
+    {
+      v: 3283,
+      vw: 2349.4905,
+      o: 2360.95,
+      c: 2319.04,
+      h: 2368.58,
+      l: 2317.15,
+      t: 1718928000000,
+      n: 3283,
+    },
+    {
+      v: 268,
+      vw: 2320.2067,
+      o: 2319.04,
+      c: 2318.99,
+      h: 2321.96,
+      l: 2316.8,
+      t: 1719100800000,
+      n: 268,
+    },
+    {
+      v: 3600,
+      vw: 2327.8033,
+      o: 2318.59,
+      c: 2330.66,
+      h: 2334.5,
+      l: 2317.1,
+      t: 1719187200000,
+      n: 3600,
+    },
+    {
+      v: 3609,
+      vw: 2324.896,
+      o: 2330.21,
+      c: 2319.83,
+      h: 2336.93,
+      l: 2315.73,
+      t: 1719273600000,
+      n: 3609,
+    },
+    {
+      v: 3587,
+      vw: 2308.4267,
+      o: 2319.79,
+      c: 2298.16,
+      h: 2322.82,
+      l: 2294.26,
+      t: 1719360000000,
+      n: 3587,
+    },
+    {
+      v: 3588,
+      vw: 2313.7416,
+      o: 2298.36,
+      c: 2327.46,
+      h: 2330.71,
+      l: 2296.3,
+      t: 1719446400000,
+      n: 3588,
+    },
+    {
+      v: 3261,
+      vw: 2327.2304,
+      o: 2327.48,
+      c: 2326.15,
+      h: 2339.25,
+      l: 2319.04,
+      t: 1719532800000,
+      n: 3261,
+    },
+    {
+      v: 251,
+      vw: 2324.6481,
+      o: 2326.15,
+      c: 2324.66,
+      h: 2327.01,
+      l: 2322.4,
+      t: 1719705600000,
+      n: 251,
+    },
+    {
+      v: 3599,
+      vw: 2327.8225,
+      o: 2324.86,
+      c: 2332.09,
+      h: 2338.14,
+      l: 2318.27,
+      t: 1719792000000,
+      n: 3599,
+    },
+    {
+      v: 3601,
+      vw: 2328.0107,
+      o: 2332.43,
+      c: 2330.08,
+      h: 2336.2,
+      l: 2319.3,
+      t: 1719878400000,
+      n: 3601,
+    },
+    {
+      v: 3143,
+      vw: 2346.4717,
+      o: 2330.92,
+      c: 2359,
+      h: 2364.57,
+      l: 2326.6,
+      t: 1719964800000,
+      n: 3143,
+    },
+    {
+      v: 3205,
+      vw: 2357.7672,
+      o: 2358.76,
+      c: 2356.35,
+      h: 2362.34,
+      l: 2350.69,
+      t: 1720051200000,
+      n: 3205,
+    },
+    {
+      v: 3281,
+      vw: 2371.4799,
+      o: 2356.73,
+      c: 2391.14,
+      h: 2392.72,
+      l: 2355.98,
+      t: 1720137600000,
+      n: 3281,
+    },
+    {
+      v: 266,
+      vw: 2386.5661,
+      o: 2391.14,
+      c: 2385.77,
+      h: 2393.85,
+      l: 2383.9,
+      t: 1720310400000,
+      n: 266,
+    },
+    {
+      v: 3596,
+      vw: 2372.2036,
+      o: 2385.76,
+      c: 2361.65,
+      h: 2390.58,
+      l: 2350.7,
+      t: 1720396800000,
+      n: 3596,
+    },
+    {
+      v: 3509,
+      vw: 2362.5024,
+      o: 2362.14,
+      c: 2365.01,
+      h: 2368.49,
+      l: 2350.3,
+      t: 1720483200000,
+      n: 3509,
+    },
+    {
+      v: 3592,
+      vw: 2372.4981,
+      o: 2365.2,
+      c: 2372.62,
+      h: 2386.25,
+      l: 2363.51,
+      t: 1720569600000,
+      n: 3592,
+    },
+    {
+      v: 3582,
+      vw: 2394.7445,
+      o: 2372.52,
+      c: 2415.92,
+      h: 2423.78,
+      l: 2371.48,
+      t: 1720656000000,
+      n: 3582,
+    },
+    {
+      v: 3272,
+      vw: 2408.1147,
+      o: 2414.8,
+      c: 2410.93,
+      h: 2418.06,
+      l: 2391.61,
+      t: 1720742400000,
+      n: 3272,
+    },
+    {
+      v: 233,
+      vw: 2407.6267,
+      o: 2410.61,
+      c: 2408.6,
+      h: 2412.35,
+      l: 2404.9,
+      t: 1720915200000,
+      n: 233,
+    },
+    {
+      v: 3573,
+      vw: 2415.9735,
+      o: 2408.44,
+      c: 2422.37,
+      h: 2439.53,
+      l: 2401.3,
+      t: 1721001600000,
+      n: 3573,
+    },
+    {
+      v: 3473,
+      vw: 2443.884,
+      o: 2422.11,
+      c: 2468.27,
+      h: 2469.56,
+      l: 2419.94,
+      t: 1721088000000,
+      n: 3473,
+    },
+    {
+      v: 2932,
+      vw: 2465.623,
+      o: 2471.24,
+      c: 2461.25,
+      h: 2483.22,
+      l: 2451.2,
+      t: 1721174400000,
+      n: 2932,
+    },
+    {
+      v: 3274,
+      vw: 2461.9265,
+      o: 2461.19,
+      c: 2444.91,
+      h: 2474.69,
+      l: 2440.44,
+      t: 1721260800000,
+      n: 3274,
+    },
+    {
+      v: 2992,
+      vw: 2411.2388,
+      o: 2425.98,
+      c: 2400.59,
+      h: 2429.45,
+      l: 2393.92,
+      t: 1721347200000,
+      n: 2992,
+    },
+    {
+      v: 267,
+      vw: 2409.1023,
+      o: 2400.59,
+      c: 2411.37,
+      h: 2411.7,
+      l: 2400.59,
+      t: 1721520000000,
+      n: 267,
+    },
+    {
+      v: 3565,
+      vw: 2399.6763,
+      o: 2411.34,
+      c: 2395.55,
+      h: 2411.92,
+      l: 2384.31,
+      t: 1721606400000,
+      n: 3565,
+    },
+    {
+      v: 3580,
+      vw: 2402.6456,
+      o: 2395.56,
+      c: 2408.34,
+      h: 2411.72,
+      l: 2387.6,
+      t: 1721692800000,
+      n: 3580,
+    },
+    {
+      v: 3578,
+      vw: 2412.6649,
+      o: 2408.86,
+      c: 2398.63,
+      h: 2431.81,
+      l: 2393.18,
+      t: 1721779200000,
+      n: 3578,
+    },
+    {
+      v: 3581,
+      vw: 2370.539,
+      o: 2398.75,
+      c: 2364.1,
+      h: 2399.89,
+      l: 2353.24,
+      t: 1721865600000,
+      n: 3581,
+    },
+    {
+      v: 3284,
+      vw: 2376.249,
+      o: 2363.99,
+      c: 2385.9,
+      h: 2390.21,
+      l: 2356.14,
+      t: 1721952000000,
+      n: 3284,
+    },
+    {
+      v: 264,
+      vw: 2395.752,
+      o: 2386.6,
+      c: 2396.45,
+      h: 2402.17,
+      l: 2386.6,
+      t: 1722124800000,
+      n: 264,
+    },
+    {
+      v: 3593,
+      vw: 2388.3904,
+      o: 2397.17,
+      c: 2381.06,
+      h: 2402.24,
+      l: 2369.86,
+      t: 1722211200000,
+      n: 3593,
+    },
+    {
+      v: 3589,
+      vw: 2392.5771,
+      o: 2380.88,
+      c: 2409.62,
+      h: 2412.27,
+      l: 2376.3,
+      t: 1722297600000,
+      n: 3589,
+    },
+    {
+      v: 3581,
+      vw: 2423.5188,
+      o: 2409.74,
+      c: 2445.84,
+      h: 2450.56,
+      l: 2404.22,
+      t: 1722384000000,
+      n: 3581,
+    },
+    {
+      v: 3568,
+      vw: 2443.6336,
+      o: 2445.94,
+      c: 2445.86,
+      h: 2461.49,
+      l: 2430.25,
+      t: 1722470400000,
+      n: 3568,
+    },
+    {
+      v: 3244,
+      vw: 2450.7776,
+      o: 2444.91,
+      c: 2442.08,
+      h: 2476.93,
+      l: 2411.83,
+      t: 1722556800000,
+      n: 3244,
+    },
+    {
+      v: 263,
+      vw: 2440.9501,
+      o: 2442.08,
+      c: 2440.76,
+      h: 2446.22,
+      l: 2437.8,
+      t: 1722729600000,
+      n: 263,
+    },
+    {
+      v: 3543,
+      vw: 2416.8645,
+      o: 2440.7,
+      c: 2404.79,
+      h: 2457.18,
+      l: 2364.71,
+      t: 1722816000000,
+      n: 3543,
+    },
+    {
+      v: 3579,
+      vw: 2400.7465,
+      o: 2405.4,
+      c: 2384.05,
+      h: 2417.77,
+      l: 2381.81,
+      t: 1722902400000,
+      n: 3579,
+    },
+    {
+      v: 3595,
+      vw: 2391.468,
+      o: 2384.37,
+      c: 2384.72,
+      h: 2406.61,
+      l: 2379.39,
+      t: 1722988800000,
+      n: 3595,
+    },
+    {
+      v: 3569,
+      vw: 2406.5594,
+      o: 2384.8,
+      c: 2424.66,
+      h: 2427.37,
+      l: 2383.31,
+      t: 1723075200000,
+      n: 3569,
+    },
+    {
+      v: 3276,
+      vw: 2426.0993,
+      o: 2424.45,
+      c: 2430.71,
+      h: 2436.87,
+      l: 2416.95,
+      t: 1723161600000,
+      n: 3276,
+    },
+    {
+      v: 260,
+      vw: 2429.2417,
+      o: 2430.71,
+      c: 2427.83,
+      h: 2433.31,
+      l: 2426.8,
+      t: 1723334400000,
+      n: 260,
+    },
+    {
+      v: 3619,
+      vw: 2447.8737,
+      o: 2427.85,
+      c: 2475.32,
+      h: 2475.84,
+      l: 2423.79,
+      t: 1723420800000,
+      n: 3619,
+    },
+    {
+      v: 3608,
+      vw: 2465.5053,
+      o: 2476.15,
+      c: 2463.87,
+      h: 2476.72,
+      l: 2458.4,
+      t: 1723507200000,
+      n: 3608,
+    },
+    {
+      v: 3593,
+      vw: 2458.7294,
+      o: 2464.07,
+      c: 2449.26,
+      h: 2478.2,
+      l: 2435.61,
+      t: 1723593600000,
+      n: 3593,
+    },
+    {
+      v: 3593,
+      vw: 2454.6881,
+      o: 2449.64,
+      c: 2457.43,
+      h: 2469.7,
+      l: 2432.93,
+      t: 1723680000000,
+      n: 3593,
+    },
+    {
+      v: 3267,
+      vw: 2473.5475,
+      o: 2457.33,
+      c: 2506.76,
+      h: 2509.5,
+      l: 2450.4,
+      t: 1723766400000,
+      n: 3267,
+    },
+    {
+      v: 259,
+      vw: 2504.4604,
+      o: 2506.76,
+      c: 2506.07,
+      h: 2508.9,
+      l: 2501.5,
+      t: 1723939200000,
+      n: 259,
+    },
+    {
+      v: 3540,
+      vw: 2500.7751,
+      o: 2505.98,
+      c: 2503.64,
+      h: 2507.24,
+      l: 2485.8,
+      t: 1724025600000,
+      n: 3540,
+    },
+    {
+      v: 3426,
+      vw: 2512.215,
+      o: 2503.96,
+      c: 2513.16,
+      h: 2531.51,
+      l: 2497.44,
+      t: 1724112000000,
+      n: 3426,
+    },
+    {
+      v: 3559,
+      vw: 2511.4217,
+      o: 2512.75,
+      c: 2512.43,
+      h: 2519.76,
+      l: 2495.05,
+      t: 1724198400000,
+      n: 3559,
+    },
+    {
+      v: 3558,
+      vw: 2495.7147,
+      o: 2512.83,
+      c: 2487.04,
+      h: 2514.25,
+      l: 2471.13,
+      t: 1724284800000,
+      n: 3558,
+    },
+    {
+      v: 3254,
+      vw: 2499.9468,
+      o: 2486.85,
+      c: 2512.01,
+      h: 2518.1,
+      l: 2486.39,
+      t: 1724371200000,
+      n: 3254,
+    },
+    {
+      v: 264,
+      vw: 2513.6907,
+      o: 2512.01,
+      c: 2515.72,
+      h: 2516.29,
+      l: 2510.4,
+      t: 1724544000000,
+      n: 264,
+    },
+    {
+      v: 3569,
+      vw: 2517.5065,
+      o: 2515.46,
+      c: 2515.58,
+      h: 2526.54,
+      l: 2508.6,
+      t: 1724630400000,
+      n: 3569,
+    },
+    {
+      v: 3558,
+      vw: 2514.3907,
+      o: 2515.45,
+      c: 2525.07,
+      h: 2528.82,
+      l: 2504.01,
+      t: 1724716800000,
+      n: 3558,
+    },
+    {
+      v: 3563,
+      vw: 2508.533,
+      o: 2525.36,
+      c: 2507.84,
+      h: 2525.59,
+      l: 2494.04,
+      t: 1724803200000,
+      n: 3563,
+    },
+    {
+      v: 3580,
+      vw: 2518.4509,
+      o: 2507.95,
+      c: 2519.37,
+      h: 2528.48,
+      l: 2503.94,
+      t: 1724889600000,
+      n: 3580,
+    },
+    {
+      v: 3256,
+      vw: 2513.1767,
+      o: 2519.17,
+      c: 2502.98,
+      h: 2526.7,
+      l: 2494.79,
+      t: 1724976000000,
+      n: 3256,
+    },
+    {
+      v: 258,
+      vw: 2503.0262,
+      o: 2502.98,
+      c: 2503.08,
+      h: 2505.05,
+      l: 2500.9,
+      t: 1725148800000,
+      n: 258,
+    },
+    {
+      v: 3181,
+      vw: 2499.1365,
+      o: 2502.66,
+      c: 2496.59,
+      h: 2507,
+      l: 2490.24,
+      t: 1725235200000,
+      n: 3181,
+    },
+    {
+      v: 3554,
+      vw: 2493.0727,
+      o: 2497.18,
+      c: 2493.41,
+      h: 2505.97,
+      l: 2474.1,
+      t: 1725321600000,
+      n: 3554,
+    },
+    {
+      v: 3321,
+      vw: 2490.8926,
+      o: 2493.04,
+      c: 2495.64,
+      h: 2499.84,
+      l: 2471.95,
+      t: 1725408000000,
+      n: 3321,
+    },
+    {
+      v: 3560,
+      vw: 2508.68,
+      o: 2495.76,
+      c: 2517.16,
+      h: 2522.77,
+      l: 2492.9,
+      t: 1725494400000,
+      n: 3560,
+    },
+    {
+      v: 3244,
+      vw: 2511.0557,
+      o: 2517.18,
+      c: 2496.75,
+      h: 2529.01,
+      l: 2485.1,
+      t: 1725580800000,
+      n: 3244,
+    },
+    {
+      v: 266,
+      vw: 2496.7108,
+      o: 2496.75,
+      c: 2496.68,
+      h: 2498.06,
+      l: 2494.7,
+      t: 1725753600000,
+      n: 266,
+    },
+    {
+      v: 3272,
+      vw: 2497.9941,
+      o: 2496.45,
+      c: 2506.69,
+      h: 2507.51,
+      l: 2485.81,
+      t: 1725840000000,
+      n: 3272,
+    },
+    {
+      v: 3557,
+      vw: 2508.3299,
+      o: 2506.77,
+      c: 2518.56,
+      h: 2518.66,
+      l: 2499.91,
+      t: 1725926400000,
+      n: 3557,
+    },
+    {
+      v: 3566,
+      vw: 2516.8462,
+      o: 2518.57,
+      c: 2511.9,
+      h: 2528.03,
+      l: 2501.67,
+      t: 1726012800000,
+      n: 3566,
+    },
+    {
+      v: 3572,
+      vw: 2532.3252,
+      o: 2511.62,
+      c: 2557.96,
+      h: 2559.9,
+      l: 2510.94,
+      t: 1726099200000,
+      n: 3572,
+    },
+    {
+      v: 3253,
+      vw: 2571.6672,
+      o: 2558.63,
+      c: 2577.38,
+      h: 2585.68,
+      l: 2556.84,
+      t: 1726185600000,
+      n: 3253,
+    },
+    {
+      v: 270,
+      vw: 2578.9387,
+      o: 2577.38,
+      c: 2578.96,
+      h: 2580.35,
+      l: 2576.9,
+      t: 1726358400000,
+      n: 270,
+    },
+    {
+      v: 3574,
+      vw: 2583.0932,
+      o: 2578.99,
+      c: 2583.58,
+      h: 2589.24,
+      l: 2576.09,
+      t: 1726444800000,
+      n: 3574,
+    },
+    {
+      v: 3569,
+      vw: 2575.4449,
+      o: 2583.61,
+      c: 2573.83,
+      h: 2586.13,
+      l: 2561.1,
+      t: 1726531200000,
+      n: 3569,
+    },
+    {
+      v: 3560,
+      vw: 2570.3368,
+      o: 2574.07,
+      c: 2559.15,
+      h: 2599.8,
+      l: 2547.63,
+      t: 1726617600000,
+      n: 3560,
+    },
+    {
+      v: 3545,
+      vw: 2578.8451,
+      o: 2559,
+      c: 2587.15,
+      h: 2594.4,
+      l: 2551.46,
+      t: 1726704000000,
+      n: 3545,
+    },
+    {
+      v: 3235,
+      vw: 2607.0431,
+      o: 2587.22,
+      c: 2621.74,
+      h: 2625.55,
+      l: 2584.92,
+      t: 1726790400000,
+      n: 3235,
+    },
+    {
+      v: 1,
+      vw: 2621.89,
+      o: 2621.89,
+      c: 2621.89,
+      h: 2621.89,
+      l: 2621.89,
+      t: 1726963200000,
+      n: 1,
+    },
+    {
+      v: 3452,
+      vw: 2625.304,
+      o: 2619.36,
+      c: 2626.17,
+      h: 2634.56,
+      l: 2613.74,
+      t: 1727049600000,
+      n: 3452,
+    },
+    {
+      v: 3553,
+      vw: 2639.0827,
+      o: 2625.84,
+      c: 2658.03,
+      h: 2664.03,
+      l: 2622.63,
+      t: 1727136000000,
+      n: 3553,
+    },
+    {
+      v: 3527,
+      vw: 2658.5167,
+      o: 2657.7,
+      c: 2656.76,
+      h: 2669.7,
+      l: 2650.55,
+      t: 1727222400000,
+      n: 3527,
+    },
+    {
+      v: 3544,
+      vw: 2667.4502,
+      o: 2656.78,
+      c: 2672.57,
+      h: 2685.13,
+      l: 2655.31,
+      t: 1727308800000,
+      n: 3544,
+    },
+    {
+      v: 3247,
+      vw: 2661.8109,
+      o: 2672.43,
+      c: 2657.97,
+      h: 2673.82,
+      l: 2643.37,
+      t: 1727395200000,
+      n: 3247,
+    },
+    {
+      v: 262,
+      vw: 2662.3792,
+      o: 2657.97,
+      c: 2663.48,
+      h: 2664.87,
+      l: 2657.95,
+      t: 1727568000000,
+      n: 262,
+    },
+    {
+      v: 3562,
+      vw: 2644.3571,
+      o: 2663.66,
+      c: 2635.54,
+      h: 2665.69,
+      l: 2625.25,
+      t: 1727654400000,
+      n: 3562,
+    },
+    {
+      v: 3558,
+      vw: 2651.2498,
+      o: 2635.47,
+      c: 2660.32,
+      h: 2672.58,
+      l: 2633.98,
+      t: 1727740800000,
+      n: 3558,
+    },
+    {
+      v: 3572,
+      vw: 2654.2341,
+      o: 2660.27,
+      c: 2660.06,
+      h: 2662.17,
+      l: 2641.89,
+      t: 1727827200000,
+      n: 3572,
+    },
+    {
+      v: 3563,
+      vw: 2652.88,
+      o: 2660.47,
+      c: 2655.55,
+      h: 2662.48,
+      l: 2640.11,
+      t: 1727913600000,
+      n: 3563,
+    },
+    {
+      v: 3240,
+      vw: 2656.1893,
+      o: 2655.62,
+      c: 2653.05,
+      h: 2669.31,
+      l: 2632.11,
+      t: 1728000000000,
+      n: 3240,
+    },
+    {
+      v: 259,
+      vw: 2650.7993,
+      o: 2653.05,
+      c: 2650.45,
+      h: 2653.05,
+      l: 2649,
+      t: 1728172800000,
+      n: 259,
+    },
+    {
+      v: 3573,
+      vw: 2647.1492,
+      o: 2650.66,
+      c: 2642.84,
+      h: 2659.39,
+      l: 2638.26,
+      t: 1728259200000,
+      n: 3573,
+    },
+    {
+      v: 3552,
+      vw: 2632.5635,
+      o: 2642.88,
+      c: 2621.96,
+      h: 2652.61,
+      l: 2605.72,
+      t: 1728345600000,
+      n: 3552,
+    },
+    {
+      v: 3385,
+      vw: 2614.4673,
+      o: 2621.65,
+      c: 2608.16,
+      h: 2624.13,
+      l: 2604.96,
+      t: 1728432000000,
+      n: 3385,
+    },
+    {
+      v: 3377,
+      vw: 2619.1125,
+      o: 2608.38,
+      c: 2632.37,
+      h: 2635.25,
+      l: 2605.88,
+      t: 1728518400000,
+      n: 3377,
+    },
+    {
+      v: 3207,
+      vw: 2646.3708,
+      o: 2633.77,
+      c: 2656.85,
+      h: 2661.29,
+      l: 2631.7,
+      t: 1728604800000,
+      n: 3207,
+    },
+    {
+      v: 1,
+      vw: 2656.08,
+      o: 2656.08,
+      c: 2656.08,
+      h: 2656.08,
+      l: 2656.08,
+      t: 1728777600000,
+      n: 1,
+    },
+    {
+      v: 3312,
+      vw: 2653.2437,
+      o: 2645.21,
+      c: 2649.3,
+      h: 2666.34,
+      l: 2643.32,
+      t: 1728864000000,
+      n: 3312,
+    },
+    {
+      v: 3488,
+      vw: 2654.479,
+      o: 2649.03,
+      c: 2660.34,
+      h: 2668.82,
+      l: 2638.34,
+      t: 1728950400000,
+      n: 3488,
+    },
+    {
+      v: 3514,
+      vw: 2672.8762,
+      o: 2659.97,
+      c: 2673.9,
+      h: 2685.07,
+      l: 2658.78,
+      t: 1729036800000,
+      n: 3514,
+    },
+    {
+      v: 3474,
+      vw: 2685.3013,
+      o: 2674.12,
+      c: 2693.55,
+      h: 2696.52,
+      l: 2673.39,
+      t: 1729123200000,
+      n: 3474,
+    },
+    {
+      v: 3208,
+      vw: 2710.8745,
+      o: 2693.49,
+      c: 2720.53,
+      h: 2722.41,
+      l: 2692.9,
+      t: 1729209600000,
+      n: 3208,
+    },
+    {
+      v: 223,
+      vw: 2722.7679,
+      o: 2720.69,
+      c: 2723.41,
+      h: 2724.86,
+      l: 2720.4,
+      t: 1729382400000,
+      n: 223,
+    },
+    {
+      v: 3527,
+      vw: 2727.1966,
+      o: 2723.6,
+      c: 2721.26,
+      h: 2740.46,
+      l: 2713.4,
+      t: 1729468800000,
+      n: 3527,
+    },
+    {
+      v: 3495,
+      vw: 2737.3351,
+      o: 2721.44,
+      c: 2746.56,
+      h: 2748.69,
+      l: 2720.56,
+      t: 1729555200000,
+      n: 3495,
+    },
+    {
+      v: 3482,
+      vw: 2735.7233,
+      o: 2746.74,
+      c: 2721.31,
+      h: 2758.2,
+      l: 2708.6,
+      t: 1729641600000,
+      n: 3482,
+    },
+    {
+      v: 3256,
+      vw: 2731.8389,
+      o: 2720.11,
+      c: 2733.69,
+      h: 2743.21,
+      l: 2717.97,
+      t: 1729728000000,
+      n: 3256,
+    },
+    {
+      v: 3226,
+      vw: 2731.2393,
+      o: 2733.78,
+      c: 2747.13,
+      h: 2747.13,
+      l: 2717.14,
+      t: 1729814400000,
+      n: 3226,
+    },
+    {
+      v: 221,
+      vw: 2735.0254,
+      o: 2747.13,
+      c: 2735.85,
+      h: 2748.21,
+      l: 2730.3,
+      t: 1729987200000,
+      n: 221,
+    },
+    {
+      v: 3537,
+      vw: 2737.3703,
+      o: 2735.22,
+      c: 2744.29,
+      h: 2745.48,
+      l: 2724.51,
+      t: 1730073600000,
+      n: 3537,
+    },
+    {
+      v: 3563,
+      vw: 2759.1705,
+      o: 2743.95,
+      c: 2774.7,
+      h: 2775.05,
+      l: 2743.19,
+      t: 1730160000000,
+      n: 3563,
+    },
+    {
+      v: 3574,
+      vw: 2782.5481,
+      o: 2774.81,
+      c: 2785.14,
+      h: 2789.77,
+      l: 2770.96,
+      t: 1730246400000,
+      n: 3574,
+    },
+    {
+      v: 3561,
+      vw: 2766.6961,
+      o: 2785.47,
+      c: 2746.27,
+      h: 2789.92,
+      l: 2731.97,
+      t: 1730332800000,
+      n: 3561,
+    },
+    {
+      v: 3231,
+      vw: 2747.6801,
+      o: 2746.81,
+      c: 2735.91,
+      h: 2761.49,
+      l: 2733.2,
+      t: 1730419200000,
+      n: 3231,
+    },
+    {
+      v: 131,
+      vw: 2737.6634,
+      o: 2746.7,
+      c: 2738.2,
+      h: 2746.7,
+      l: 2730.91,
+      t: 1730592000000,
+      n: 131,
+    },
+    {
+      v: 3270,
+      vw: 2738.9941,
+      o: 2738.69,
+      c: 2736.34,
+      h: 2745.91,
+      l: 2732.15,
+      t: 1730678400000,
+      n: 3270,
+    },
+    {
+      v: 3190,
+      vw: 2739.1963,
+      o: 2733.51,
+      c: 2745.46,
+      h: 2749.7,
+      l: 2724.93,
+      t: 1730764800000,
+      n: 3190,
+    },
+    {
+      v: 3523,
+      vw: 2701.065,
+      o: 2745.08,
+      c: 2663.87,
+      h: 2749.31,
+      l: 2652.51,
+      t: 1730851200000,
+      n: 3523,
+    },
+    {
+      v: 3530,
+      vw: 2676.1189,
+      o: 2663.12,
+      c: 2706.83,
+      h: 2709.54,
+      l: 2646.56,
+      t: 1730937600000,
+      n: 3530,
+    },
+    {
+      v: 3396,
+      vw: 2691.1228,
+      o: 2706.99,
+      c: 2683.85,
+      h: 2709.92,
+      l: 2680.47,
+      t: 1731024000000,
+      n: 3396,
+    },
+    {
+      v: 135,
+      vw: 2683.0241,
+      o: 2683.81,
+      c: 2685.47,
+      h: 2685.47,
+      l: 2681.2,
+      t: 1731196800000,
+      n: 135,
+    },
+    {
+      v: 3561,
+      vw: 2649.659,
+      o: 2684.96,
+      c: 2623.69,
+      h: 2685.59,
+      l: 2610.67,
+      t: 1731283200000,
+      n: 3561,
+    },
+    {
+      v: 3542,
+      vw: 2605.8289,
+      o: 2623.79,
+      c: 2598.8,
+      h: 2626.7,
+      l: 2589.83,
+      t: 1731369600000,
+      n: 3542,
+    },
+    {
+      v: 3567,
+      vw: 2599.2465,
+      o: 2598.51,
+      c: 2571.44,
+      h: 2617.87,
+      l: 2569.19,
+      t: 1731456000000,
+      n: 3567,
+    },
+    {
+      v: 3539,
+      vw: 2561.8719,
+      o: 2570.9,
+      c: 2566.49,
+      h: 2577.3,
+      l: 2537.56,
+      t: 1731542400000,
+      n: 3539,
+    },
+    {
+      v: 3396,
+      vw: 2566.1393,
+      o: 2566.42,
+      c: 2561.27,
+      h: 2575.51,
+      l: 2554.96,
+      t: 1731628800000,
+      n: 3396,
+    },
+    {
+      v: 139,
+      vw: 2572.1388,
+      o: 2562.95,
+      c: 2571.2,
+      h: 2575.27,
+      l: 2562.95,
+      t: 1731801600000,
+      n: 139,
+    },
+    {
+      v: 3550,
+      vw: 2597.0308,
+      o: 2569.8,
+      c: 2612.09,
+      h: 2614.78,
+      l: 2569.8,
+      t: 1731888000000,
+      n: 3550,
+    },
+    {
+      v: 3566,
+      vw: 2626.5551,
+      o: 2612.62,
+      c: 2634.71,
+      h: 2639.23,
+      l: 2610.3,
+      t: 1731974400000,
+      n: 3566,
+    },
+    {
+      v: 3561,
+      vw: 2638.2658,
+      o: 2634.83,
+      c: 2652.02,
+      h: 2655.06,
+      l: 2619.82,
+      t: 1732060800000,
+      n: 3561,
+    },
+    {
+      v: 3558,
+      vw: 2664.259,
+      o: 2652.2,
+      c: 2668.68,
+      h: 2673.31,
+      l: 2650.7,
+      t: 1732147200000,
+      n: 3558,
+    },
+    {
+      v: 3373,
+      vw: 2695.8611,
+      o: 2668.8,
+      c: 2715.58,
+      h: 2715.82,
+      l: 2668.8,
+      t: 1732233600000,
+      n: 3373,
+    },
+    {
+      v: 1370,
+      vw: 2628.4117,
+      o: 2670.27,
+      c: 2610.17,
+      h: 2670.27,
+      l: 2606.86,
+      t: 1732492800000,
+      n: 1370,
+    },
+    {
+      v: 3550,
+      vw: 2626.3291,
+      o: 2611.51,
+      c: 2632.18,
+      h: 2641.72,
+      l: 2609.48,
+      t: 1732579200000,
+      n: 3550,
+    },
+    {
+      v: 3561,
+      vw: 2641.8506,
+      o: 2632.63,
+      c: 2636.89,
+      h: 2658.1,
+      l: 2627.2,
+      t: 1732665600000,
+      n: 3561,
+    },
+    {
+      v: 3190,
+      vw: 2638.4788,
+      o: 2637.14,
+      c: 2638.78,
+      h: 2649.16,
+      l: 2621.09,
+      t: 1732752000000,
+      n: 3190,
+    },
+    {
+      v: 3054,
+      vw: 2657.2537,
+      o: 2638.66,
+      c: 2650.25,
+      h: 2666.03,
+      l: 2634.43,
+      t: 1732838400000,
+      n: 3054,
+    },
+    {
+      v: 138,
+      vw: 2646.6491,
+      o: 2650.24,
+      c: 2645.92,
+      h: 2650.24,
+      l: 2642.4,
+      t: 1733011200000,
+      n: 138,
+    },
+    {
+      v: 3565,
+      vw: 2636.1806,
+      o: 2646.13,
+      c: 2641.84,
+      h: 2651.41,
+      l: 2621.99,
+      t: 1733097600000,
+      n: 3565,
+    },
+    {
+      v: 3576,
+      vw: 2642.9557,
+      o: 2642.25,
+      c: 2642.62,
+      h: 2654.97,
+      l: 2634.64,
+      t: 1733184000000,
+      n: 3576,
+    },
+    {
+      v: 3574,
+      vw: 2646.5892,
+      o: 2642.87,
+      c: 2650.18,
+      h: 2656.42,
+      l: 2633.47,
+      t: 1733270400000,
+      n: 3574,
+    },
+    {
+      v: 3579,
+      vw: 2642.4739,
+      o: 2650,
+      c: 2633.62,
+      h: 2655.33,
+      l: 2623.57,
+      t: 1733356800000,
+      n: 3579,
+    },
+    {
+      v: 3401,
+      vw: 2635.531,
+      o: 2632.9,
+      c: 2632.14,
+      h: 2645.16,
+      l: 2613.71,
+      t: 1733443200000,
+      n: 3401,
+    },
+    {
+      v: 137,
+      vw: 2640.1526,
+      o: 2632.14,
+      c: 2639.2,
+      h: 2647.67,
+      l: 2632.14,
+      t: 1733616000000,
+      n: 137,
+    },
+    {
+      v: 3574,
+      vw: 2653.652,
+      o: 2638.53,
+      c: 2660.54,
+      h: 2676.08,
+      l: 2627.2,
+      t: 1733702400000,
+      n: 3574,
+    },
+    {
+      v: 3570,
+      vw: 2677.4271,
+      o: 2660.61,
+      c: 2695.71,
+      h: 2698.13,
+      l: 2656.9,
+      t: 1733788800000,
+      n: 3570,
+    },
+    {
+      v: 3602,
+      vw: 2702.2596,
+      o: 2695.87,
+      c: 2719.83,
+      h: 2720.8,
+      l: 2674.06,
+      t: 1733875200000,
+      n: 3602,
+    },
+    {
+      v: 3588,
+      vw: 2701.1679,
+      o: 2719.41,
+      c: 2680.31,
+      h: 2725.72,
+      l: 2675.24,
+      t: 1733961600000,
+      n: 3588,
+    },
+    {
+      v: 3168,
+      vw: 2672.0718,
+      o: 2679.76,
+      c: 2647.49,
+      h: 2692.08,
+      l: 2646.15,
+      t: 1734048000000,
+      n: 3168,
+    },
+    {
+      v: 135,
+      vw: 2649.8123,
+      o: 2648.05,
+      c: 2650.3,
+      h: 2652.73,
+      l: 2647.7,
+      t: 1734220800000,
+      n: 135,
+    },
+    {
+      v: 3611,
+      vw: 2654.6768,
+      o: 2651.25,
+      c: 2651.5,
+      h: 2663.99,
+      l: 2643.41,
+      t: 1734307200000,
+      n: 3611,
+    },
+    {
+      v: 3574,
+      vw: 2646.5788,
+      o: 2651.62,
+      c: 2647.29,
+      h: 2658.43,
+      l: 2632.87,
+      t: 1734393600000,
+      n: 3574,
+    },
+    {
+      v: 3585,
+      vw: 2636.4225,
+      o: 2647.33,
+      c: 2588.06,
+      h: 2651.48,
+      l: 2583.08,
+      t: 1734480000000,
+      n: 3585,
+    },
+    {
+      v: 3566,
+      vw: 2604.4983,
+      o: 2588.52,
+      c: 2593.57,
+      h: 2626.24,
+      l: 2587.01,
+      t: 1734566400000,
+      n: 3566,
+    },
+    {
+      v: 3419,
+      vw: 2609.5799,
+      o: 2593.48,
+      c: 2622,
+      h: 2630.93,
+      l: 2589.2,
+      t: 1734652800000,
+      n: 3419,
+    },
+    {
+      v: 137,
+      vw: 2622.7496,
+      o: 2622,
+      c: 2623.84,
+      h: 2624.29,
+      l: 2620.9,
+      t: 1734825600000,
+      n: 137,
+    },
+    {
+      v: 3612,
+      vw: 2619.535,
+      o: 2623.28,
+      c: 2615.26,
+      h: 2632.98,
+      l: 2608.31,
+      t: 1734912000000,
+      n: 3612,
+    },
+    {
+      v: 2951,
+      vw: 2616.1545,
+      o: 2615.08,
+      c: 2616.1,
+      h: 2621.19,
+      l: 2609.9,
+      t: 1734998400000,
+      n: 2951,
+    },
+    {
+      v: 161,
+      vw: 2617.6273,
+      o: 2614.31,
+      c: 2617.86,
+      h: 2619.96,
+      l: 2613.27,
+      t: 1735084800000,
+      n: 161,
+    },
+    {
+      v: 3625,
+      vw: 2628.6209,
+      o: 2618.02,
+      c: 2632.5,
+      h: 2638.83,
+      l: 2617.7,
+      t: 1735171200000,
+      n: 3625,
+    },
+    {
+      v: 3445,
+      vw: 2625.2266,
+      o: 2632.36,
+      c: 2620.84,
+      h: 2637.81,
+      l: 2611.3,
+      t: 1735257600000,
+      n: 3445,
+    },
+    {
+      v: 135,
+      vw: 2623.2863,
+      o: 2621.18,
+      c: 2623.83,
+      h: 2625.71,
+      l: 2619.25,
+      t: 1735430400000,
+      n: 135,
+    },
+    {
+      v: 3611,
+      vw: 2614.0054,
+      o: 2623.8,
+      c: 2606.51,
+      h: 2627.92,
+      l: 2596.2,
+      t: 1735516800000,
+      n: 3611,
+    },
+    {
+      v: 2851,
+      vw: 2612.0359,
+      o: 2606.45,
+      c: 2624.19,
+      h: 2627.22,
+      l: 2603.06,
+      t: 1735603200000,
+      n: 2851,
+    },
+    {
+      v: 163,
+      vw: 2623.4545,
+      o: 2624.8,
+      c: 2623.68,
+      h: 2625.01,
+      l: 2620.7,
+      t: 1735689600000,
+      n: 163,
+    },
+    {
+      v: 3582,
+      vw: 2643.1269,
+      o: 2623.52,
+      c: 2658.11,
+      h: 2660.21,
+      l: 2622,
+      t: 1735776000000,
+      n: 3582,
+    },
+    {
+      v: 3418,
+      vw: 2651.8897,
+      o: 2658.56,
+      c: 2639.82,
+      h: 2664.8,
+      l: 2636.1,
+      t: 1735862400000,
+      n: 3418,
+    },
+    {
+      v: 139,
+      vw: 2640.9346,
+      o: 2639.82,
+      c: 2640.67,
+      h: 2642.25,
+      l: 2638.85,
+      t: 1736035200000,
+      n: 139,
+    },
+    {
+      v: 3585,
+      vw: 2636.0906,
+      o: 2640.65,
+      c: 2634.43,
+      h: 2648.9,
+      l: 2614.66,
+      t: 1736121600000,
+      n: 3585,
+    },
+    {
+      v: 3567,
+      vw: 2645.6618,
+      o: 2634.6,
+      c: 2649.46,
+      h: 2663.97,
+      l: 2632.1,
+      t: 1736208000000,
+      n: 3567,
+    },
+    {
+      v: 3595,
+      vw: 2654.8648,
+      o: 2648.3,
+      c: 2662.54,
+      h: 2669.76,
+      l: 2644.4,
+      t: 1736294400000,
+      n: 3595,
+    },
+    {
+      v: 3593,
+      vw: 2666.0079,
+      o: 2662.59,
+      c: 2669.95,
+      h: 2677.85,
+      l: 2655.64,
+      t: 1736380800000,
+      n: 3593,
+    },
+    {
+      v: 3418,
+      vw: 2680.7997,
+      o: 2670.08,
+      c: 2688.77,
+      h: 2697.39,
+      l: 2663.8,
+      t: 1736467200000,
+      n: 3418,
+    },
+    {
+      v: 136,
+      vw: 2688.9772,
+      o: 2688.77,
+      c: 2690.64,
+      h: 2690.64,
+      l: 2686.31,
+      t: 1736640000000,
+      n: 136,
+    },
+    {
+      v: 3594,
+      vw: 2675.6646,
+      o: 2690.06,
+      c: 2667.83,
+      h: 2693.12,
+      l: 2656.88,
+      t: 1736726400000,
+      n: 3594,
+    },
+    {
+      v: 3570,
+      vw: 2669.9927,
+      o: 2667.64,
+      c: 2675.21,
+      h: 2677.88,
+      l: 2659.4,
+      t: 1736812800000,
+      n: 3570,
+    },
+    {
+      v: 3586,
+      vw: 2684.1663,
+      o: 2675.52,
+      c: 2694.62,
+      h: 2696.96,
+      l: 2669.2,
+      t: 1736899200000,
+      n: 3586,
+    },
+    {
+      v: 3591,
+      vw: 2706.5976,
+      o: 2694.87,
+      c: 2714.52,
+      h: 2724.4,
+      l: 2690,
+      t: 1736985600000,
+      n: 3591,
+    },
+    {
+      v: 3429,
+      vw: 2710.1377,
+      o: 2714.49,
+      c: 2701.88,
+      h: 2717.2,
+      l: 2698.69,
+      t: 1737072000000,
+      n: 3429,
+    },
+    {
+      v: 128,
+      vw: 2697.2054,
+      o: 2701.88,
+      c: 2696.41,
+      h: 2702.57,
+      l: 2690.93,
+      t: 1737244800000,
+      n: 128,
+    },
+    {
+      v: 3188,
+      vw: 2704.9487,
+      o: 2695.87,
+      c: 2710.18,
+      h: 2713.57,
+      l: 2688.9,
+      t: 1737331200000,
+      n: 3188,
+    },
+    {
+      v: 3578,
+      vw: 2729.5131,
+      o: 2709.69,
+      c: 2744.2,
+      h: 2745.69,
+      l: 2703.18,
+      t: 1737417600000,
+      n: 3578,
+    },
+    {
+      v: 3588,
+      vw: 2753.85,
+      o: 2744.24,
+      c: 2755.28,
+      h: 2763.1,
+      l: 2742.71,
+      t: 1737504000000,
+      n: 3588,
+    },
+    {
+      v: 3576,
+      vw: 2751.3259,
+      o: 2755.76,
+      c: 2754.18,
+      h: 2758.61,
+      l: 2736.09,
+      t: 1737590400000,
+      n: 3576,
+    },
+    {
+      v: 3422,
+      vw: 2773.2384,
+      o: 2754.39,
+      c: 2770.96,
+      h: 2785.44,
+      l: 2754.1,
+      t: 1737676800000,
+      n: 3422,
+    },
+    {
+      v: 136,
+      vw: 2767.204,
+      o: 2771.45,
+      c: 2767.1,
+      h: 2771.45,
+      l: 2765.54,
+      t: 1737849600000,
+      n: 136,
+    },
+    {
+      v: 3582,
+      vw: 2752.7328,
+      o: 2767.03,
+      c: 2742.32,
+      h: 2772.26,
+      l: 2731.16,
+      t: 1737936000000,
+      n: 3582,
+    },
+    {
+      v: 3576,
+      vw: 2748.9441,
+      o: 2742.22,
+      c: 2762.64,
+      h: 2764.78,
+      l: 2734.87,
+      t: 1738022400000,
+      n: 3576,
+    },
+    {
+      v: 3587,
+      vw: 2758.6696,
+      o: 2762.48,
+      c: 2760.01,
+      h: 2765.84,
+      l: 2744.6,
+      t: 1738108800000,
+      n: 3587,
+    },
+    {
+      v: 3618,
+      vw: 2777.453,
+      o: 2760.1,
+      c: 2796,
+      h: 2798.12,
+      l: 2758.3,
+      t: 1738195200000,
+      n: 3618,
+    },
+    {
+      v: 3430,
+      vw: 2799.5255,
+      o: 2796.26,
+      c: 2797.46,
+      h: 2816.82,
+      l: 2791.22,
+      t: 1738281600000,
+      n: 3430,
+    },
+    {
+      v: 129,
+      vw: 2793.5005,
+      o: 2797.25,
+      c: 2792.51,
+      h: 2801.46,
+      l: 2784.67,
+      t: 1738454400000,
+      n: 129,
+    },
+    {
+      v: 3581,
+      vw: 2801.0547,
+      o: 2792.84,
+      c: 2813.34,
+      h: 2829.85,
+      l: 2772.21,
+      t: 1738540800000,
+      n: 3581,
+    },
+    {
+      v: 3596,
+      vw: 2826.8755,
+      o: 2813.44,
+      c: 2841.19,
+      h: 2844.8,
+      l: 2807.22,
+      t: 1738627200000,
+      n: 3596,
+    },
+    {
+      v: 3611,
+      vw: 2859.8082,
+      o: 2868.78,
+      c: 2857.86,
+      h: 2872.85,
+      l: 2835.26,
+      t: 1738800000000,
+      n: 3611,
+    },
+    {
+      v: 3439,
+      vw: 2865.1156,
+      o: 2858.24,
+      c: 2860.09,
+      h: 2886.24,
+      l: 2853.69,
+      t: 1738886400000,
+      n: 3439,
+    },
+    {
+      v: 136,
+      vw: 2865.6671,
+      o: 2860.45,
+      c: 2867.22,
+      h: 2869.93,
+      l: 2858.3,
+      t: 1739059200000,
+      n: 136,
+    },
+    {
+      v: 3607,
+      vw: 2894.4341,
+      o: 2867.41,
+      c: 2917.64,
+      h: 2921.28,
+      l: 2865.1,
+      t: 1739145600000,
+      n: 3607,
+    },
+    {
+      v: 3579,
+      vw: 2908.7223,
+      o: 2917.28,
+      c: 2898.27,
+      h: 2942.18,
+      l: 2882.52,
+      t: 1739232000000,
+      n: 3579,
+    },
+    {
+      v: 3508,
+      vw: 2892.2398,
+      o: 2897.94,
+      c: 2904.5,
+      h: 2908.94,
+      l: 2864.99,
+      t: 1739318400000,
+      n: 3508,
+    },
+    {
+      v: 3548,
+      vw: 2916.7604,
+      o: 2906.15,
+      c: 2930.86,
+      h: 2932.06,
+      l: 2901.4,
+      t: 1739404800000,
+      n: 3548,
+    },
+    {
+      v: 3446,
+      vw: 2917.426,
+      o: 2931.23,
+      c: 2882.14,
+      h: 2939.93,
+      l: 2876.99,
+      t: 1739491200000,
+      n: 3446,
+    },
+    {
+      v: 127,
+      vw: 2884.7846,
+      o: 2882.55,
+      c: 2879.37,
+      h: 2892.97,
+      l: 2878.44,
+      t: 1739664000000,
+      n: 127,
+    },
+    {
+      v: 3220,
+      vw: 2897.915,
+      o: 2879.62,
+      c: 2899.18,
+      h: 2906.2,
+      l: 2879.1,
+      t: 1739750400000,
+      n: 3220,
+    },
+    {
+      v: 3598,
+      vw: 2917.5025,
+      o: 2899.13,
+      c: 2933.76,
+      h: 2936.78,
+      l: 2891.84,
+      t: 1739836800000,
+      n: 3598,
+    },
+    {
+      v: 3582,
+      vw: 2933.5827,
+      o: 2933.74,
+      c: 2935.19,
+      h: 2946.69,
+      l: 2918.8,
+      t: 1739923200000,
+      n: 3582,
+    },
+    {
+      v: 3589,
+      vw: 2942.5578,
+      o: 2935.7,
+      c: 2940.81,
+      h: 2954.71,
+      l: 2924.35,
+      t: 1740009600000,
+      n: 3589,
+    },
+    {
+      v: 3414,
+      vw: 2933.1259,
+      o: 2942.05,
+      c: 2935.49,
+      h: 2949,
+      l: 2917.83,
+      t: 1740096000000,
+      n: 3414,
+    },
+  ];
 
-export const lastTwoYearsGoldPriceDataWithHighestAndLowest = [
-  {
-    v: 3450,
-    vw: 1818.7493,
-    o: 1823.16,
-    c: 1810.67,
-    h: 1827.65,
-    l: 1809,
-    t: 1677196800000,
-    n: 3450,
-  },
-  {
-    v: 136,
-    vw: 1811.9666,
-    o: 1817.1,
-    c: 1811.8,
-    h: 1817.1,
-    l: 1810.72,
-    t: 1677369600000,
-    n: 136,
-  },
-  {
-    v: 3618,
-    vw: 1813.2084,
-    o: 1811.72,
-    c: 1817.08,
-    h: 1820,
-    l: 1806.69,
-    t: 1677456000000,
-    n: 3618,
-  },
-  {
-    v: 3603,
-    vw: 1818.1263,
-    o: 1817.13,
-    c: 1825.49,
-    h: 1830.86,
-    l: 1805.73,
-    t: 1677542400000,
-    n: 3603,
-  },
-  {
-    v: 3593,
-    vw: 1834.4412,
-    o: 1825.07,
-    c: 1836.51,
-    h: 1844.03,
-    l: 1823.01,
-    t: 1677628800000,
-    n: 3593,
-  },
-  {
-    v: 3609,
-    vw: 1834.333,
-    o: 1836.5,
-    c: 1837.66,
-    h: 1838.66,
-    l: 1830.02,
-    t: 1677715200000,
-    n: 3609,
-  },
-  {
-    v: 3463,
-    vw: 1844.8313,
-    o: 1838.44,
-    c: 1855.18,
-    h: 1856.3,
-    l: 1837.1,
-    t: 1677801600000,
-    n: 3463,
-  },
-  {
-    v: 130,
-    vw: 1853.4175,
-    o: 1858.3,
-    c: 1852.19,
-    h: 1858.31,
-    l: 1852.16,
-    t: 1677974400000,
-    n: 130,
-  },
-  {
-    v: 3627,
-    vw: 1851.2558,
-    o: 1852.31,
-    c: 1846.29,
-    h: 1857.96,
-    l: 1844.8,
-    t: 1678060800000,
-    n: 3627,
-  },
-  {
-    v: 3606,
-    vw: 1834.8176,
-    o: 1845.36,
-    c: 1813.82,
-    h: 1851.36,
-    l: 1812.5,
-    t: 1678147200000,
-    n: 3606,
-  },
-  {
-    v: 3623,
-    vw: 1814.2284,
-    o: 1813.78,
-    c: 1815.12,
-    h: 1823.95,
-    l: 1809.2,
-    t: 1678233600000,
-    n: 3623,
-  },
-  {
-    v: 3619,
-    vw: 1821.3698,
-    o: 1815.07,
-    c: 1831.37,
-    h: 1835.09,
-    l: 1811.9,
-    t: 1678320000000,
-    n: 3619,
-  },
-  {
-    v: 3437,
-    vw: 1843.302,
-    o: 1831.48,
-    c: 1867.05,
-    h: 1869.82,
-    l: 1827.71,
-    t: 1678406400000,
-    n: 3437,
-  },
-  {
-    v: 259,
-    vw: 1883.2722,
-    o: 1869.6,
-    c: 1877.59,
-    h: 1893.75,
-    l: 1866.99,
-    t: 1678579200000,
-    n: 259,
-  },
-  {
-    v: 3571,
-    vw: 1893.9133,
-    o: 1876.65,
-    c: 1912.13,
-    h: 1914.4,
-    l: 1871.59,
-    t: 1678665600000,
-    n: 3571,
-  },
-  {
-    v: 3582,
-    vw: 1905.7633,
-    o: 1911.76,
-    c: 1903.02,
-    h: 1913.93,
-    l: 1896.25,
-    t: 1678752000000,
-    n: 3582,
-  },
-  {
-    v: 3571,
-    vw: 1911.2611,
-    o: 1902.45,
-    c: 1921.03,
-    h: 1937.02,
-    l: 1886.09,
-    t: 1678838400000,
-    n: 3571,
-  },
-  {
-    v: 3609,
-    vw: 1919.045,
-    o: 1921.46,
-    c: 1921.3,
-    h: 1932.68,
-    l: 1907.66,
-    t: 1678924800000,
-    n: 3609,
-  },
-  {
-    v: 3289,
-    vw: 1943.4141,
-    o: 1921.34,
-    c: 1987.46,
-    h: 1988.78,
-    l: 1918.48,
-    t: 1679011200000,
-    n: 3289,
-  },
-  {
-    v: 256,
-    vw: 1979.7372,
-    o: 1988.78,
-    c: 1976.55,
-    h: 2009.79,
-    l: 1975.4,
-    t: 1679184000000,
-    n: 256,
-  },
-  {
-    v: 3598,
-    vw: 1980.0438,
-    o: 1976.47,
-    c: 1976.52,
-    h: 2009.23,
-    l: 1966.12,
-    t: 1679270400000,
-    n: 3598,
-  },
-  {
-    v: 3578,
-    vw: 1961.645,
-    o: 1977.26,
-    c: 1942.81,
-    h: 1984.78,
-    l: 1935.51,
-    t: 1679356800000,
-    n: 3578,
-  },
-  {
-    v: 3589,
-    vw: 1947.7424,
-    o: 1943.12,
-    c: 1969.57,
-    h: 1977.88,
-    l: 1934.65,
-    t: 1679443200000,
-    n: 3589,
-  },
-  {
-    v: 3587,
-    vw: 1981.9289,
-    o: 1969.94,
-    c: 1991.23,
-    h: 2003.22,
-    l: 1966.58,
-    t: 1679529600000,
-    n: 3587,
-  },
-  {
-    v: 3266,
-    vw: 1989.2653,
-    o: 1991.37,
-    c: 1978.42,
-    h: 2002.82,
-    l: 1974.7,
-    t: 1679616000000,
-    n: 3266,
-  },
-  {
-    v: 260,
-    vw: 1973.9026,
-    o: 1978.32,
-    c: 1975.72,
-    h: 1981.7,
-    l: 1969.54,
-    t: 1679788800000,
-    n: 260,
-  },
-  {
-    v: 3596,
-    vw: 1961.8948,
-    o: 1975.63,
-    c: 1958.02,
-    h: 1978.3,
-    l: 1944.42,
-    t: 1679875200000,
-    n: 3596,
-  },
-  {
-    v: 3592,
-    vw: 1962.9539,
-    o: 1958.2,
-    c: 1971.86,
-    h: 1975.09,
-    l: 1948.5,
-    t: 1679961600000,
-    n: 3592,
-  },
-  {
-    v: 3588,
-    vw: 1965.6869,
-    o: 1972.27,
-    c: 1963.15,
-    h: 1972.73,
-    l: 1958.79,
-    t: 1680048000000,
-    n: 3588,
-  },
-  {
-    v: 3570,
-    vw: 1970.1183,
-    o: 1963.1,
-    c: 1978.39,
-    h: 1983.9,
-    l: 1955.6,
-    t: 1680134400000,
-    n: 3570,
-  },
-  {
-    v: 3295,
-    vw: 1977.7263,
-    o: 1978.21,
-    c: 1969.22,
-    h: 1986.75,
-    l: 1966.89,
-    t: 1680220800000,
-    n: 3295,
-  },
-  {
-    v: 255,
-    vw: 1961.6407,
-    o: 1969.3,
-    c: 1957.65,
-    h: 1972.95,
-    l: 1957.54,
-    t: 1680393600000,
-    n: 255,
-  },
-  {
-    v: 3593,
-    vw: 1971.4431,
-    o: 1957.54,
-    c: 1984.77,
-    h: 1990.39,
-    l: 1949.8,
-    t: 1680480000000,
-    n: 3593,
-  },
-  {
-    v: 3635,
-    vw: 1996.7812,
-    o: 1984.6,
-    c: 2021.6,
-    h: 2024.8,
-    l: 1977.2,
-    t: 1680566400000,
-    n: 3635,
-  },
-  {
-    v: 3609,
-    vw: 2022.6081,
-    o: 2021.48,
-    c: 2020.23,
-    h: 2031.9,
-    l: 2011.36,
-    t: 1680652800000,
-    n: 3609,
-  },
-  {
-    v: 3301,
-    vw: 2013.0383,
-    o: 2020.34,
-    c: 2007.56,
-    h: 2020.87,
-    l: 2000.4,
-    t: 1680739200000,
-    n: 3301,
-  },
-  {
-    v: 2,
-    vw: 2007.145,
-    o: 2007.05,
-    c: 2007.24,
-    h: 2007.24,
-    l: 2007.05,
-    t: 1680825600000,
-    n: 2,
-  },
-  {
-    v: 253,
-    vw: 2003.8339,
-    o: 2020.3,
-    c: 2005.49,
-    h: 2020.3,
-    l: 1991.22,
-    t: 1680998400000,
-    n: 253,
-  },
-  {
-    v: 3474,
-    vw: 1993.9433,
-    o: 2005.17,
-    c: 1992.37,
-    h: 2005.71,
-    l: 1981.92,
-    t: 1681084800000,
-    n: 3474,
-  },
-  {
-    v: 3610,
-    vw: 2001.0704,
-    o: 1992.3,
-    c: 2004.63,
-    h: 2007.13,
-    l: 1988.4,
-    t: 1681171200000,
-    n: 3610,
-  },
-  {
-    v: 3624,
-    vw: 2012.7375,
-    o: 2004.87,
-    c: 2018.09,
-    h: 2027.23,
-    l: 2001.2,
-    t: 1681257600000,
-    n: 3624,
-  },
-  {
-    v: 3596,
-    vw: 2030.0372,
-    o: 2018.1,
-    c: 2039.89,
-    h: 2047.65,
-    l: 2015.3,
-    t: 1681344000000,
-    n: 3596,
-  },
-  {
-    v: 3292,
-    vw: 2026.8111,
-    o: 2039.56,
-    c: 2004.11,
-    h: 2047.27,
-    l: 1992.31,
-    t: 1681430400000,
-    n: 3292,
-  },
-  {
-    v: 255,
-    vw: 2002.5303,
-    o: 2004.03,
-    c: 2002.8,
-    h: 2022.75,
-    l: 1998.3,
-    t: 1681603200000,
-    n: 255,
-  },
-  {
-    v: 3618,
-    vw: 2001.2488,
-    o: 2002.62,
-    c: 1993.9,
-    h: 2014.83,
-    l: 1981.46,
-    t: 1681689600000,
-    n: 3618,
-  },
-  {
-    v: 3612,
-    vw: 2002.3907,
-    o: 1993.87,
-    c: 2005.48,
-    h: 2011.58,
-    l: 1991.37,
-    t: 1681776000000,
-    n: 3612,
-  },
-  {
-    v: 3612,
-    vw: 1992.4685,
-    o: 2005.74,
-    c: 1993.6,
-    h: 2007.9,
-    l: 1969.4,
-    t: 1681862400000,
-    n: 3612,
-  },
-  {
-    v: 3638,
-    vw: 2000.2554,
-    o: 1993.63,
-    c: 2004.97,
-    h: 2012.1,
-    l: 1990.59,
-    t: 1681948800000,
-    n: 3638,
-  },
-  {
-    v: 3315,
-    vw: 1988.8958,
-    o: 2005.27,
-    c: 1982.91,
-    h: 2005.38,
-    l: 1972.01,
-    t: 1682035200000,
-    n: 3315,
-  },
-  {
-    v: 254,
-    vw: 1983.6589,
-    o: 2001.9,
-    c: 1984.59,
-    h: 2001.9,
-    l: 1981.1,
-    t: 1682208000000,
-    n: 254,
-  },
-  {
-    v: 3613,
-    vw: 1984.2279,
-    o: 1984.62,
-    c: 1995.35,
-    h: 1996.39,
-    l: 1974.76,
-    t: 1682294400000,
-    n: 3613,
-  },
-  {
-    v: 3598,
-    vw: 1992.3738,
-    o: 1994.97,
-    c: 2000.07,
-    h: 2003.6,
-    l: 1975.91,
-    t: 1682380800000,
-    n: 3598,
-  },
-  {
-    v: 3604,
-    vw: 1994.9998,
-    o: 2000.44,
-    c: 1991.62,
-    h: 2008.06,
-    l: 1983.51,
-    t: 1682467200000,
-    n: 3604,
-  },
-  {
-    v: 3610,
-    vw: 1992.317,
-    o: 1991.52,
-    c: 1986.97,
-    h: 2003.07,
-    l: 1975.03,
-    t: 1682553600000,
-    n: 3610,
-  },
-  {
-    v: 3302,
-    vw: 1986.7232,
-    o: 1987.17,
-    c: 1989.44,
-    h: 1994.59,
-    l: 1977.07,
-    t: 1682640000000,
-    n: 3302,
-  },
-  {
-    v: 254,
-    vw: 1988.7557,
-    o: 1989.42,
-    c: 1986.72,
-    h: 2008.25,
-    l: 1986.2,
-    t: 1682812800000,
-    n: 254,
-  },
-  {
-    v: 3642,
-    vw: 1984.1502,
-    o: 1986.95,
-    c: 1981.13,
-    h: 2005.35,
-    l: 1977.12,
-    t: 1682899200000,
-    n: 3642,
-  },
-  {
-    v: 3257,
-    vw: 1996.6253,
-    o: 1981.63,
-    c: 2015.84,
-    h: 2018.94,
-    l: 1978.5,
-    t: 1682985600000,
-    n: 3257,
-  },
-  {
-    v: 3577,
-    vw: 2021.8626,
-    o: 2015.98,
-    c: 2051.93,
-    h: 2071.32,
-    l: 2008.9,
-    t: 1683072000000,
-    n: 3577,
-  },
-  {
-    v: 3591,
-    vw: 2044.354,
-    o: 2052.78,
-    c: 2049.8,
-    h: 2059.39,
-    l: 2030.77,
-    t: 1683158400000,
-    n: 3591,
-  },
-  {
-    v: 3307,
-    vw: 2031.9741,
-    o: 2049.79,
-    c: 2016.58,
-    h: 2052.75,
-    l: 1999.63,
-    t: 1683244800000,
-    n: 3307,
-  },
-  {
-    v: 249,
-    vw: 2015.8039,
-    o: 2016.67,
-    c: 2015.95,
-    h: 2050.25,
-    l: 2014,
-    t: 1683417600000,
-    n: 249,
-  },
-  {
-    v: 3620,
-    vw: 2022.2737,
-    o: 2015.8,
-    c: 2021.22,
-    h: 2029.18,
-    l: 2015.23,
-    t: 1683504000000,
-    n: 3620,
-  },
-  {
-    v: 3634,
-    vw: 2028.3678,
-    o: 2021,
-    c: 2036.27,
-    h: 2037.46,
-    l: 2019,
-    t: 1683590400000,
-    n: 3634,
-  },
-  {
-    v: 3610,
-    vw: 2031.1301,
-    o: 2036.57,
-    c: 2031.36,
-    h: 2048.01,
-    l: 2021.61,
-    t: 1683676800000,
-    n: 3610,
-  },
-  {
-    v: 3627,
-    vw: 2024.6407,
-    o: 2031.21,
-    c: 2016.24,
-    h: 2039.93,
-    l: 2011.07,
-    t: 1683763200000,
-    n: 3627,
-  },
-  {
-    v: 3315,
-    vw: 2011.0144,
-    o: 2016.37,
-    c: 2010.86,
-    h: 2022.06,
-    l: 2000.91,
-    t: 1683849600000,
-    n: 3315,
-  },
-  {
-    v: 262,
-    vw: 2010.4619,
-    o: 2010.6,
-    c: 2009.72,
-    h: 2026.59,
-    l: 2007.21,
-    t: 1684022400000,
-    n: 262,
-  },
-  {
-    v: 3614,
-    vw: 2015.789,
-    o: 2009.53,
-    c: 2014.35,
-    h: 2021.82,
-    l: 2008.63,
-    t: 1684108800000,
-    n: 3614,
-  },
-  {
-    v: 3607,
-    vw: 2004.2126,
-    o: 2014.35,
-    c: 1989.5,
-    h: 2018.21,
-    l: 1984.7,
-    t: 1684195200000,
-    n: 3607,
-  },
-  {
-    v: 3647,
-    vw: 1986.1356,
-    o: 1988.8,
-    c: 1982.62,
-    h: 1992.87,
-    l: 1975.2,
-    t: 1684281600000,
-    n: 3647,
-  },
-  {
-    v: 3638,
-    vw: 1969.5523,
-    o: 1982.62,
-    c: 1958.3,
-    h: 1985.76,
-    l: 1951.8,
-    t: 1684368000000,
-    n: 3638,
-  },
-  {
-    v: 3286,
-    vw: 1966.5505,
-    o: 1958.38,
-    c: 1977.58,
-    h: 1983.42,
-    l: 1954.03,
-    t: 1684454400000,
-    n: 3286,
-  },
-  {
-    v: 254,
-    vw: 1980.2087,
-    o: 1980.1,
-    c: 1980.73,
-    h: 1981.36,
-    l: 1977.51,
-    t: 1684627200000,
-    n: 254,
-  },
-  {
-    v: 3625,
-    vw: 1975.3485,
-    o: 1981.07,
-    c: 1969.58,
-    h: 1982.32,
-    l: 1969,
-    t: 1684713600000,
-    n: 3625,
-  },
-  {
-    v: 3607,
-    vw: 1965.9867,
-    o: 1969.94,
-    c: 1975,
-    h: 1977.35,
-    l: 1954.4,
-    t: 1684800000000,
-    n: 3607,
-  },
-  {
-    v: 3623,
-    vw: 1970.5596,
-    o: 1975.19,
-    c: 1959.9,
-    h: 1984.92,
-    l: 1956.4,
-    t: 1684886400000,
-    n: 3623,
-  },
-  {
-    v: 3610,
-    vw: 1952.1035,
-    o: 1960.03,
-    c: 1940.37,
-    h: 1964.62,
-    l: 1938.6,
-    t: 1684972800000,
-    n: 3610,
-  },
-  {
-    v: 1045,
-    vw: 1944.6267,
-    o: 1948.96,
-    c: 1946.07,
-    h: 1951.22,
-    l: 1938.85,
-    t: 1685059200000,
-    n: 1045,
-  },
-  {
-    v: 259,
-    vw: 1944.1185,
-    o: 1946.6,
-    c: 1943.85,
-    h: 1946.6,
-    l: 1941.1,
-    t: 1685232000000,
-    n: 259,
-  },
-  {
-    v: 3215,
-    vw: 1944.9334,
-    o: 1944.04,
-    c: 1941.55,
-    h: 1949.6,
-    l: 1940.26,
-    t: 1685318400000,
-    n: 3215,
-  },
-  {
-    v: 3604,
-    vw: 1950.8607,
-    o: 1941.54,
-    c: 1958.6,
-    h: 1963.42,
-    l: 1932.11,
-    t: 1685404800000,
-    n: 3604,
-  },
-  {
-    v: 3620,
-    vw: 1961.75,
-    o: 1958.5,
-    c: 1966.31,
-    h: 1974.38,
-    l: 1953.6,
-    t: 1685491200000,
-    n: 3620,
-  },
-  {
-    v: 3617,
-    vw: 1968.7771,
-    o: 1966.22,
-    c: 1976.87,
-    h: 1983,
-    l: 1952.7,
-    t: 1685577600000,
-    n: 3617,
-  },
-  {
-    v: 3316,
-    vw: 1970.2885,
-    o: 1977.15,
-    c: 1948,
-    h: 1983.42,
-    l: 1947.4,
-    t: 1685664000000,
-    n: 3316,
-  },
-  {
-    v: 265,
-    vw: 1948.9761,
-    o: 1950.6,
-    c: 1949.3,
-    h: 1950.6,
-    l: 1946.6,
-    t: 1685836800000,
-    n: 265,
-  },
-  {
-    v: 3615,
-    vw: 1950.3735,
-    o: 1949.27,
-    c: 1961.24,
-    h: 1963.88,
-    l: 1938.21,
-    t: 1685923200000,
-    n: 3615,
-  },
-  {
-    v: 3616,
-    vw: 1961.6256,
-    o: 1961.4,
-    c: 1963.2,
-    h: 1966.2,
-    l: 1954.43,
-    t: 1686009600000,
-    n: 3616,
-  },
-  {
-    v: 3626,
-    vw: 1955.7838,
-    o: 1963.29,
-    c: 1944.39,
-    h: 1969.82,
-    l: 1939,
-    t: 1686096000000,
-    n: 3626,
-  },
-  {
-    v: 3632,
-    vw: 1954.711,
-    o: 1944.36,
-    c: 1965.33,
-    h: 1969.81,
-    l: 1942.71,
-    t: 1686182400000,
-    n: 3632,
-  },
-  {
-    v: 3056,
-    vw: 1963.3214,
-    o: 1965.2,
-    c: 1960.49,
-    h: 1971.94,
-    l: 1956.93,
-    t: 1686268800000,
-    n: 3056,
-  },
-  {
-    v: 258,
-    vw: 1959.4972,
-    o: 1963.1,
-    c: 1959.83,
-    h: 1963.1,
-    l: 1957.5,
-    t: 1686441600000,
-    n: 258,
-  },
-  {
-    v: 3617,
-    vw: 1958.7173,
-    o: 1960.09,
-    c: 1959.86,
-    h: 1966.78,
-    l: 1949.49,
-    t: 1686528000000,
-    n: 3617,
-  },
-  {
-    v: 3614,
-    vw: 1954.8635,
-    o: 1959.98,
-    c: 1943.93,
-    h: 1969.47,
-    l: 1940.1,
-    t: 1686614400000,
-    n: 3614,
-  },
-  {
-    v: 3610,
-    vw: 1949.1626,
-    o: 1944.19,
-    c: 1945.16,
-    h: 1959.7,
-    l: 1939.66,
-    t: 1686700800000,
-    n: 3610,
-  },
-  {
-    v: 3613,
-    vw: 1943.8195,
-    o: 1944.8,
-    c: 1958.25,
-    h: 1960.13,
-    l: 1926.21,
-    t: 1686787200000,
-    n: 3613,
-  },
-  {
-    v: 3308,
-    vw: 1959.4116,
-    o: 1958.23,
-    c: 1957.5,
-    h: 1967.8,
-    l: 1953.5,
-    t: 1686873600000,
-    n: 3308,
-  },
-  {
-    v: 326,
-    vw: 1958.1873,
-    o: 1957.45,
-    c: 1956.94,
-    h: 1961.4,
-    l: 1955.9,
-    t: 1687046400000,
-    n: 326,
-  },
-  {
-    v: 3236,
-    vw: 1953.2448,
-    o: 1957,
-    c: 1952.32,
-    h: 1958.49,
-    l: 1947.8,
-    t: 1687132800000,
-    n: 3236,
-  },
-  {
-    v: 3620,
-    vw: 1944.5624,
-    o: 1952.39,
-    c: 1937.17,
-    h: 1956.39,
-    l: 1929,
-    t: 1687219200000,
-    n: 3620,
-  },
-  {
-    v: 3613,
-    vw: 1934.0298,
-    o: 1936.55,
-    c: 1933.78,
-    h: 1939.08,
-    l: 1920.19,
-    t: 1687305600000,
-    n: 3613,
-  },
-  {
-    v: 3614,
-    vw: 1923.761,
-    o: 1933.91,
-    c: 1914.43,
-    h: 1934.15,
-    l: 1912.4,
-    t: 1687392000000,
-    n: 3614,
-  },
-  {
-    v: 3290,
-    vw: 1918.6472,
-    o: 1914.47,
-    c: 1920.79,
-    h: 1936.57,
-    l: 1910.2,
-    t: 1687478400000,
-    n: 3290,
-  },
-  {
-    v: 260,
-    vw: 1924.0078,
-    o: 1920.51,
-    c: 1925.29,
-    h: 1927.3,
-    l: 1920.51,
-    t: 1687651200000,
-    n: 260,
-  },
-  {
-    v: 3616,
-    vw: 1926.2672,
-    o: 1925.22,
-    c: 1922.37,
-    h: 1933.18,
-    l: 1920.4,
-    t: 1687737600000,
-    n: 3616,
-  },
-  {
-    v: 3464,
-    vw: 1921.3434,
-    o: 1922.57,
-    c: 1915.42,
-    h: 1930.04,
-    l: 1910.6,
-    t: 1687824000000,
-    n: 3464,
-  },
-  {
-    v: 3606,
-    vw: 1911.2018,
-    o: 1915.26,
-    c: 1909.64,
-    h: 1916.98,
-    l: 1903.46,
-    t: 1687910400000,
-    n: 3606,
-  },
-  {
-    v: 3593,
-    vw: 1906.6532,
-    o: 1909.47,
-    c: 1908.76,
-    h: 1913,
-    l: 1893.16,
-    t: 1687996800000,
-    n: 3593,
-  },
-  {
-    v: 3276,
-    vw: 1910.7441,
-    o: 1908.71,
-    c: 1919.2,
-    h: 1922.61,
-    l: 1900.57,
-    t: 1688083200000,
-    n: 3276,
-  },
-  {
-    v: 271,
-    vw: 1918.5718,
-    o: 1920.3,
-    c: 1918.11,
-    h: 1920.3,
-    l: 1917.46,
-    t: 1688256000000,
-    n: 271,
-  },
-  {
-    v: 3599,
-    vw: 1918.7166,
-    o: 1917.7,
-    c: 1921.17,
-    h: 1930.5,
-    l: 1910.11,
-    t: 1688342400000,
-    n: 3599,
-  },
-  {
-    v: 3225,
-    vw: 1925.7124,
-    o: 1921.07,
-    c: 1926.23,
-    h: 1930.53,
-    l: 1919.5,
-    t: 1688428800000,
-    n: 3225,
-  },
-  {
-    v: 3025,
-    vw: 1922.4625,
-    o: 1926.34,
-    c: 1916.69,
-    h: 1934.83,
-    l: 1914.1,
-    t: 1688515200000,
-    n: 3025,
-  },
-  {
-    v: 3128,
-    vw: 1914.3474,
-    o: 1916.75,
-    c: 1911.58,
-    h: 1927.32,
-    l: 1902.85,
-    t: 1688601600000,
-    n: 3128,
-  },
-  {
-    v: 3288,
-    vw: 1918.5665,
-    o: 1911.5,
-    c: 1925.53,
-    h: 1934.62,
-    l: 1909.4,
-    t: 1688688000000,
-    n: 3288,
-  },
-  {
-    v: 263,
-    vw: 1925.4549,
-    o: 1925.43,
-    c: 1924.82,
-    h: 1927.99,
-    l: 1923.1,
-    t: 1688860800000,
-    n: 263,
-  },
-  {
-    v: 3627,
-    vw: 1923.6345,
-    o: 1924.99,
-    c: 1924.76,
-    h: 1926.79,
-    l: 1912.72,
-    t: 1688947200000,
-    n: 3627,
-  },
-  {
-    v: 3626,
-    vw: 1931.5498,
-    o: 1924.93,
-    c: 1933.19,
-    h: 1938.2,
-    l: 1923.9,
-    t: 1689033600000,
-    n: 3626,
-  },
-  {
-    v: 3607,
-    vw: 1945.2566,
-    o: 1933.28,
-    c: 1957.68,
-    h: 1959.58,
-    l: 1932.9,
-    t: 1689120000000,
-    n: 3607,
-  },
-  {
-    v: 3626,
-    vw: 1959.4897,
-    o: 1957.68,
-    c: 1959.88,
-    h: 1963.21,
-    l: 1952.92,
-    t: 1689206400000,
-    n: 3626,
-  },
-  {
-    v: 3300,
-    vw: 1958.4087,
-    o: 1960.34,
-    c: 1955.43,
-    h: 1963.69,
-    l: 1951.1,
-    t: 1689292800000,
-    n: 3300,
-  },
-  {
-    v: 254,
-    vw: 1953.0454,
-    o: 1957.9,
-    c: 1953.21,
-    h: 1957.9,
-    l: 1951.2,
-    t: 1689465600000,
-    n: 254,
-  },
-  {
-    v: 3608,
-    vw: 1954.1086,
-    o: 1953.1,
-    c: 1955.39,
-    h: 1959.66,
-    l: 1945.93,
-    t: 1689552000000,
-    n: 3608,
-  },
-  {
-    v: 3609,
-    vw: 1967.8572,
-    o: 1955.06,
-    c: 1977.43,
-    h: 1984.1,
-    l: 1954.66,
-    t: 1689638400000,
-    n: 3609,
-  },
-  {
-    v: 3614,
-    vw: 1976.535,
-    o: 1977.59,
-    c: 1977.65,
-    h: 1980.79,
-    l: 1970.1,
-    t: 1689724800000,
-    n: 3614,
-  },
-  {
-    v: 3619,
-    vw: 1976.8651,
-    o: 1977.55,
-    c: 1972.07,
-    h: 1987.32,
-    l: 1965.43,
-    t: 1689811200000,
-    n: 3619,
-  },
-  {
-    v: 3279,
-    vw: 1965.7072,
-    o: 1972.14,
-    c: 1961.6,
-    h: 1973.68,
-    l: 1958.08,
-    t: 1689897600000,
-    n: 3279,
-  },
-  {
-    v: 256,
-    vw: 1961.7035,
-    o: 1962.3,
-    c: 1961.11,
-    h: 1962.76,
-    l: 1960.1,
-    t: 1690070400000,
-    n: 256,
-  },
-  {
-    v: 3599,
-    vw: 1960.3359,
-    o: 1961.19,
-    c: 1954.37,
-    h: 1967.68,
-    l: 1952.8,
-    t: 1690156800000,
-    n: 3599,
-  },
-  {
-    v: 3610,
-    vw: 1961.4613,
-    o: 1954.29,
-    c: 1965.29,
-    h: 1966.13,
-    l: 1951.96,
-    t: 1690243200000,
-    n: 3610,
-  },
-  {
-    v: 3603,
-    vw: 1969.1225,
-    o: 1965.37,
-    c: 1971.98,
-    h: 1977.72,
-    l: 1961.8,
-    t: 1690329600000,
-    n: 3603,
-  },
-  {
-    v: 3615,
-    vw: 1963.1177,
-    o: 1971.97,
-    c: 1947.37,
-    h: 1981.93,
-    l: 1942.1,
-    t: 1690416000000,
-    n: 3615,
-  },
-  {
-    v: 3280,
-    vw: 1954.6071,
-    o: 1947.32,
-    c: 1959,
-    h: 1963.46,
-    l: 1946,
-    t: 1690502400000,
-    n: 3280,
-  },
-  {
-    v: 256,
-    vw: 1959.1873,
-    o: 1959.1,
-    c: 1957.96,
-    h: 1961.7,
-    l: 1956.9,
-    t: 1690675200000,
-    n: 256,
-  },
-  {
-    v: 3613,
-    vw: 1961.3295,
-    o: 1957.94,
-    c: 1963.95,
-    h: 1972.23,
-    l: 1952.79,
-    t: 1690761600000,
-    n: 3613,
-  },
-  {
-    v: 3609,
-    vw: 1952.687,
-    o: 1963.88,
-    c: 1952.15,
-    h: 1964.6,
-    l: 1941.29,
-    t: 1690848000000,
-    n: 3609,
-  },
-  {
-    v: 3598,
-    vw: 1943.7974,
-    o: 1951.66,
-    c: 1935.98,
-    h: 1954.55,
-    l: 1933.44,
-    t: 1690934400000,
-    n: 3598,
-  },
-  {
-    v: 3595,
-    vw: 1935.1544,
-    o: 1936.11,
-    c: 1935.65,
-    h: 1938.79,
-    l: 1929.75,
-    t: 1691020800000,
-    n: 3595,
-  },
-  {
-    v: 3284,
-    vw: 1937.1791,
-    o: 1935.89,
-    c: 1942.51,
-    h: 1946.07,
-    l: 1930.41,
-    t: 1691107200000,
-    n: 3284,
-  },
-  {
-    v: 1,
-    vw: 1942.51,
-    o: 1942.51,
-    c: 1942.51,
-    h: 1942.51,
-    l: 1942.51,
-    t: 1691280000000,
-    n: 1,
-  },
-  {
-    v: 3521,
-    vw: 1936.9742,
-    o: 1944.78,
-    c: 1936.64,
-    h: 1944.78,
-    l: 1931.69,
-    t: 1691366400000,
-    n: 3521,
-  },
-  {
-    v: 3605,
-    vw: 1929.7634,
-    o: 1936.82,
-    c: 1925.56,
-    h: 1937.1,
-    l: 1922.81,
-    t: 1691452800000,
-    n: 3605,
-  },
-  {
-    v: 3522,
-    vw: 1923.4406,
-    o: 1925.49,
-    c: 1916.62,
-    h: 1932.23,
-    l: 1913.4,
-    t: 1691539200000,
-    n: 3522,
-  },
-  {
-    v: 3614,
-    vw: 1917.7136,
-    o: 1916.56,
-    c: 1912.35,
-    h: 1929.52,
-    l: 1910.9,
-    t: 1691625600000,
-    n: 3614,
-  },
-  {
-    v: 3279,
-    vw: 1915.5391,
-    o: 1912.34,
-    c: 1913.56,
-    h: 1920.83,
-    l: 1911.7,
-    t: 1691712000000,
-    n: 3279,
-  },
-  {
-    v: 250,
-    vw: 1913.8184,
-    o: 1913.46,
-    c: 1913.69,
-    h: 1915.1,
-    l: 1911.6,
-    t: 1691884800000,
-    n: 250,
-  },
-  {
-    v: 3583,
-    vw: 1910.8964,
-    o: 1913.67,
-    c: 1907.48,
-    h: 1915.97,
-    l: 1902.7,
-    t: 1691971200000,
-    n: 3583,
-  },
-  {
-    v: 3575,
-    vw: 1904.5398,
-    o: 1907.53,
-    c: 1901.52,
-    h: 1911.34,
-    l: 1896.69,
-    t: 1692057600000,
-    n: 3575,
-  },
-  {
-    v: 3587,
-    vw: 1901.493,
-    o: 1901.31,
-    c: 1893.27,
-    h: 1907.1,
-    l: 1891.2,
-    t: 1692144000000,
-    n: 3587,
-  },
-  {
-    v: 3613,
-    vw: 1892.9977,
-    o: 1893.17,
-    c: 1891.35,
-    h: 1902.96,
-    l: 1884.7,
-    t: 1692230400000,
-    n: 3613,
-  },
-  {
-    v: 3286,
-    vw: 1891.8787,
-    o: 1891.29,
-    c: 1889.28,
-    h: 1896.06,
-    l: 1886.8,
-    t: 1692316800000,
-    n: 3286,
-  },
-  {
-    v: 1,
-    vw: 1889.28,
-    o: 1889.28,
-    c: 1889.28,
-    h: 1889.28,
-    l: 1889.28,
-    t: 1692489600000,
-    n: 1,
-  },
-  {
-    v: 2361,
-    vw: 1898.2522,
-    o: 1900.07,
-    c: 1898.45,
-    h: 1904.25,
-    l: 1889.68,
-    t: 1692662400000,
-    n: 2361,
-  },
-  {
-    v: 3586,
-    vw: 1908.486,
-    o: 1898.46,
-    c: 1917.92,
-    h: 1920.13,
-    l: 1897.7,
-    t: 1692748800000,
-    n: 3586,
-  },
-  {
-    v: 3612,
-    vw: 1918.7186,
-    o: 1917.95,
-    c: 1915.7,
-    h: 1923.01,
-    l: 1912.04,
-    t: 1692835200000,
-    n: 3612,
-  },
-  {
-    v: 3288,
-    vw: 1914.061,
-    o: 1915.69,
-    c: 1914.64,
-    h: 1922.25,
-    l: 1903.4,
-    t: 1692921600000,
-    n: 3288,
-  },
-  {
-    v: 257,
-    vw: 1915.128,
-    o: 1914.1,
-    c: 1915.02,
-    h: 1915.97,
-    l: 1913.9,
-    t: 1693094400000,
-    n: 257,
-  },
-  {
-    v: 3588,
-    vw: 1917.412,
-    o: 1915.12,
-    c: 1921.09,
-    h: 1925.79,
-    l: 1913.1,
-    t: 1693180800000,
-    n: 3588,
-  },
-  {
-    v: 3559,
-    vw: 1927.4575,
-    o: 1921.21,
-    c: 1936.14,
-    h: 1938.02,
-    l: 1914.53,
-    t: 1693267200000,
-    n: 3559,
-  },
-  {
-    v: 3149,
-    vw: 1940.5667,
-    o: 1936.2,
-    c: 1944.18,
-    h: 1948.7,
-    l: 1934.7,
-    t: 1693353600000,
-    n: 3149,
-  },
-  {
-    v: 3401,
-    vw: 1943.4243,
-    o: 1944.15,
-    c: 1939.94,
-    h: 1947.63,
-    l: 1938.4,
-    t: 1693440000000,
-    n: 3401,
-  },
-  {
-    v: 3296,
-    vw: 1941.4055,
-    o: 1939.79,
-    c: 1939.87,
-    h: 1952.29,
-    l: 1934.61,
-    t: 1693526400000,
-    n: 3296,
-  },
-  {
-    v: 1,
-    vw: 1939.87,
-    o: 1939.87,
-    c: 1939.87,
-    h: 1939.87,
-    l: 1939.87,
-    t: 1693699200000,
-    n: 1,
-  },
-  {
-    v: 2552,
-    vw: 1941.1185,
-    o: 1941.33,
-    c: 1937.58,
-    h: 1946.15,
-    l: 1936.8,
-    t: 1693785600000,
-    n: 2552,
-  },
-  {
-    v: 3510,
-    vw: 1931.6834,
-    o: 1937.46,
-    c: 1926.54,
-    h: 1938.89,
-    l: 1924.7,
-    t: 1693872000000,
-    n: 3510,
-  },
-  {
-    v: 3102,
-    vw: 1921.7949,
-    o: 1926.6,
-    c: 1917.03,
-    h: 1929.04,
-    l: 1915.34,
-    t: 1693958400000,
-    n: 3102,
-  },
-  {
-    v: 3006,
-    vw: 1919.2993,
-    o: 1917.05,
-    c: 1920.05,
-    h: 1923.36,
-    l: 1915.7,
-    t: 1694044800000,
-    n: 3006,
-  },
-  {
-    v: 3057,
-    vw: 1922.9661,
-    o: 1920.13,
-    c: 1918.95,
-    h: 1929.41,
-    l: 1917.52,
-    t: 1694131200000,
-    n: 3057,
-  },
-  {
-    v: 256,
-    vw: 1918.5831,
-    o: 1920.4,
-    c: 1918.82,
-    h: 1920.41,
-    l: 1917.2,
-    t: 1694304000000,
-    n: 256,
-  },
-  {
-    v: 3556,
-    vw: 1924.1398,
-    o: 1918.91,
-    c: 1921.55,
-    h: 1930.45,
-    l: 1918.4,
-    t: 1694390400000,
-    n: 3556,
-  },
-  {
-    v: 3571,
-    vw: 1916.4747,
-    o: 1921.52,
-    c: 1912.86,
-    h: 1924.23,
-    l: 1907.87,
-    t: 1694476800000,
-    n: 3571,
-  },
-  {
-    v: 3558,
-    vw: 1910.6225,
-    o: 1912.83,
-    c: 1909.17,
-    h: 1915.7,
-    l: 1906.36,
-    t: 1694563200000,
-    n: 3558,
-  },
-  {
-    v: 3618,
-    vw: 1908.5279,
-    o: 1909.08,
-    c: 1909.76,
-    h: 1912.74,
-    l: 1900.5,
-    t: 1694649600000,
-    n: 3618,
-  },
-  {
-    v: 3291,
-    vw: 1919.5863,
-    o: 1909.78,
-    c: 1923.56,
-    h: 1930.27,
-    l: 1909.1,
-    t: 1694736000000,
-    n: 3291,
-  },
-  {
-    v: 256,
-    vw: 1923.3839,
-    o: 1923.57,
-    c: 1923.2,
-    h: 1925.2,
-    l: 1921.9,
-    t: 1694908800000,
-    n: 256,
-  },
-  {
-    v: 3610,
-    vw: 1928.6011,
-    o: 1923.17,
-    c: 1934.02,
-    h: 1934.44,
-    l: 1922.2,
-    t: 1694995200000,
-    n: 3610,
-  },
-  {
-    v: 3580,
-    vw: 1932.8051,
-    o: 1934.27,
-    c: 1931.33,
-    h: 1937.15,
-    l: 1929.5,
-    t: 1695081600000,
-    n: 3580,
-  },
-  {
-    v: 3605,
-    vw: 1934.0792,
-    o: 1931.34,
-    c: 1929.33,
-    h: 1947.34,
-    l: 1927.7,
-    t: 1695168000000,
-    n: 3605,
-  },
-  {
-    v: 3599,
-    vw: 1922.9364,
-    o: 1929.42,
-    c: 1921.3,
-    h: 1930.35,
-    l: 1913.9,
-    t: 1695254400000,
-    n: 3599,
-  },
-  {
-    v: 3243,
-    vw: 1925.3232,
-    o: 1921.47,
-    c: 1925.2,
-    h: 1928.85,
-    l: 1920.6,
-    t: 1695340800000,
-    n: 3243,
-  },
-  {
-    v: 252,
-    vw: 1925.398,
-    o: 1925.23,
-    c: 1924.68,
-    h: 1927.85,
-    l: 1923.7,
-    t: 1695513600000,
-    n: 252,
-  },
-  {
-    v: 3555,
-    vw: 1920.8302,
-    o: 1924.74,
-    c: 1916.17,
-    h: 1926.95,
-    l: 1914.5,
-    t: 1695600000000,
-    n: 3555,
-  },
-  {
-    v: 3561,
-    vw: 1908.5454,
-    o: 1916.1,
-    c: 1901.53,
-    h: 1916.37,
-    l: 1898.7,
-    t: 1695686400000,
-    n: 3561,
-  },
-  {
-    v: 3579,
-    vw: 1889.296,
-    o: 1901.5,
-    c: 1877.56,
-    h: 1903.46,
-    l: 1871.8,
-    t: 1695772800000,
-    n: 3579,
-  },
-  {
-    v: 3589,
-    vw: 1871.28,
-    o: 1877.46,
-    c: 1866.58,
-    h: 1879.31,
-    l: 1857.2,
-    t: 1695859200000,
-    n: 3589,
-  },
-  {
-    v: 3273,
-    vw: 1863.4144,
-    o: 1866.56,
-    c: 1848.58,
-    h: 1879.23,
-    l: 1845.9,
-    t: 1695945600000,
-    n: 3273,
-  },
-  {
-    v: 257,
-    vw: 1847.1051,
-    o: 1848.46,
-    c: 1848.31,
-    h: 1850.2,
-    l: 1845.4,
-    t: 1696118400000,
-    n: 257,
-  },
-  {
-    v: 3602,
-    vw: 1836.4845,
-    o: 1848.38,
-    c: 1824.92,
-    h: 1848.81,
-    l: 1820.53,
-    t: 1696204800000,
-    n: 3602,
-  },
-  {
-    v: 3592,
-    vw: 1823.7656,
-    o: 1824.72,
-    c: 1823.41,
-    h: 1832.91,
-    l: 1814.7,
-    t: 1696291200000,
-    n: 3592,
-  },
-  {
-    v: 3576,
-    vw: 1821.8925,
-    o: 1822.97,
-    c: 1822.63,
-    h: 1829.64,
-    l: 1816.6,
-    t: 1696377600000,
-    n: 3576,
-  },
-  {
-    v: 3499,
-    vw: 1821.8432,
-    o: 1822.58,
-    c: 1821.23,
-    h: 1829.04,
-    l: 1813.13,
-    t: 1696464000000,
-    n: 3499,
-  },
-  {
-    v: 3263,
-    vw: 1824.3251,
-    o: 1821.45,
-    c: 1832.19,
-    h: 1834.44,
-    l: 1810.74,
-    t: 1696550400000,
-    n: 3263,
-  },
-  {
-    v: 260,
-    vw: 1848.1286,
-    o: 1832.46,
-    c: 1848.04,
-    h: 1854.3,
-    l: 1827.8,
-    t: 1696723200000,
-    n: 260,
-  },
-  {
-    v: 3573,
-    vw: 1852.2439,
-    o: 1847.88,
-    c: 1862.52,
-    h: 1863.39,
-    l: 1844.3,
-    t: 1696809600000,
-    n: 3573,
-  },
-  {
-    v: 3580,
-    vw: 1859.4535,
-    o: 1862.82,
-    c: 1859.65,
-    h: 1865.22,
-    l: 1853.39,
-    t: 1696896000000,
-    n: 3580,
-  },
-  {
-    v: 3573,
-    vw: 1868.4393,
-    o: 1859.83,
-    c: 1875.3,
-    h: 1876.87,
-    l: 1858.67,
-    t: 1696982400000,
-    n: 3573,
-  },
-  {
-    v: 3589,
-    vw: 1875.7676,
-    o: 1875.37,
-    c: 1870.66,
-    h: 1884.34,
-    l: 1867.8,
-    t: 1697068800000,
-    n: 3589,
-  },
-  {
-    v: 3268,
-    vw: 1897.0268,
-    o: 1870.59,
-    c: 1931.46,
-    h: 1932.65,
-    l: 1870.21,
-    t: 1697155200000,
-    n: 3268,
-  },
-  {
-    v: 257,
-    vw: 1924.6839,
-    o: 1932.9,
-    c: 1925.81,
-    h: 1932.9,
-    l: 1921.07,
-    t: 1697328000000,
-    n: 257,
-  },
-  {
-    v: 3588,
-    vw: 1918.3539,
-    o: 1925.4,
-    c: 1919.27,
-    h: 1925.94,
-    l: 1908.43,
-    t: 1697414400000,
-    n: 3588,
-  },
-  {
-    v: 3600,
-    vw: 1921.0257,
-    o: 1919.46,
-    c: 1924.63,
-    h: 1931.12,
-    l: 1912.4,
-    t: 1697500800000,
-    n: 3600,
-  },
-  {
-    v: 3602,
-    vw: 1943.739,
-    o: 1924.77,
-    c: 1950.69,
-    h: 1962.41,
-    l: 1923.86,
-    t: 1697587200000,
-    n: 3602,
-  },
-  {
-    v: 3612,
-    vw: 1956.5545,
-    o: 1950.94,
-    c: 1976.65,
-    h: 1979.4,
-    l: 1944.9,
-    t: 1697673600000,
-    n: 3612,
-  },
-  {
-    v: 3288,
-    vw: 1980.9939,
-    o: 1977,
-    c: 1981.2,
-    h: 1997.03,
-    l: 1971.4,
-    t: 1697760000000,
-    n: 3288,
-  },
-  {
-    v: 253,
-    vw: 1975.8739,
-    o: 1972.35,
-    c: 1971.45,
-    h: 1978.28,
-    l: 1969.5,
-    t: 1697932800000,
-    n: 253,
-  },
-  {
-    v: 3592,
-    vw: 1975.1369,
-    o: 1970.62,
-    c: 1973.52,
-    h: 1982.7,
-    l: 1964.52,
-    t: 1698019200000,
-    n: 3592,
-  },
-  {
-    v: 3599,
-    vw: 1971.4222,
-    o: 1973.59,
-    c: 1972.79,
-    h: 1980.45,
-    l: 1953.9,
-    t: 1698105600000,
-    n: 3599,
-  },
-  {
-    v: 3615,
-    vw: 1976.2399,
-    o: 1972.82,
-    c: 1982.91,
-    h: 1986.62,
-    l: 1963.41,
-    t: 1698192000000,
-    n: 3615,
-  },
-  {
-    v: 3598,
-    vw: 1984.9989,
-    o: 1982.93,
-    c: 1984.33,
-    h: 1993.2,
-    l: 1972.1,
-    t: 1698278400000,
-    n: 3598,
-  },
-  {
-    v: 3305,
-    vw: 1988.1534,
-    o: 1984.24,
-    c: 2005.92,
-    h: 2009.09,
-    l: 1976.69,
-    t: 1698364800000,
-    n: 3305,
-  },
-  {
-    v: 270,
-    vw: 2002.2839,
-    o: 2008.1,
-    c: 2002.72,
-    h: 2008.11,
-    l: 1997.66,
-    t: 1698537600000,
-    n: 270,
-  },
-  {
-    v: 3617,
-    vw: 1998.2374,
-    o: 2002.49,
-    c: 1995.41,
-    h: 2006.6,
-    l: 1990.91,
-    t: 1698624000000,
-    n: 3617,
-  },
-  {
-    v: 3607,
-    vw: 1992.9994,
-    o: 1995.01,
-    c: 1983.63,
-    h: 2007.14,
-    l: 1979.94,
-    t: 1698710400000,
-    n: 3607,
-  },
-  {
-    v: 3615,
-    vw: 1980.8653,
-    o: 1983.38,
-    c: 1985.02,
-    h: 1991.82,
-    l: 1970.08,
-    t: 1698796800000,
-    n: 3615,
-  },
-  {
-    v: 3622,
-    vw: 1985.4641,
-    o: 1984.88,
-    c: 1984.93,
-    h: 1990.87,
-    l: 1978.9,
-    t: 1698883200000,
-    n: 3622,
-  },
-  {
-    v: 3286,
-    vw: 1989.6104,
-    o: 1985.14,
-    c: 1992.34,
-    h: 2003.9,
-    l: 1982.5,
-    t: 1698969600000,
-    n: 3286,
-  },
-  {
-    v: 133,
-    vw: 1989.3446,
-    o: 1993,
-    c: 1988.39,
-    h: 1993,
-    l: 1987.09,
-    t: 1699142400000,
-    n: 133,
-  },
-  {
-    v: 3605,
-    vw: 1984.4611,
-    o: 1988.6,
-    c: 1976.66,
-    h: 1993.01,
-    l: 1975,
-    t: 1699228800000,
-    n: 3605,
-  },
-  {
-    v: 3637,
-    vw: 1968.1749,
-    o: 1976.51,
-    c: 1968.84,
-    h: 1976.89,
-    l: 1956.61,
-    t: 1699315200000,
-    n: 3637,
-  },
-  {
-    v: 3607,
-    vw: 1961.3582,
-    o: 1968.96,
-    c: 1950.77,
-    h: 1970.89,
-    l: 1946.8,
-    t: 1699401600000,
-    n: 3607,
-  },
-  {
-    v: 3617,
-    vw: 1952.9192,
-    o: 1950.82,
-    c: 1959.08,
-    h: 1965.54,
-    l: 1944.6,
-    t: 1699488000000,
-    n: 3617,
-  },
-  {
-    v: 3470,
-    vw: 1949.1162,
-    o: 1959.4,
-    c: 1937.43,
-    h: 1960.73,
-    l: 1933,
-    t: 1699574400000,
-    n: 3470,
-  },
-  {
-    v: 147,
-    vw: 1939.5805,
-    o: 1938.03,
-    c: 1940.2,
-    h: 1942.99,
-    l: 1937.06,
-    t: 1699747200000,
-    n: 147,
-  },
-  {
-    v: 3631,
-    vw: 1940.0071,
-    o: 1940.04,
-    c: 1946.34,
-    h: 1948.91,
-    l: 1932.29,
-    t: 1699833600000,
-    n: 3631,
-  },
-  {
-    v: 3603,
-    vw: 1952.8156,
-    o: 1946.6,
-    c: 1962.46,
-    h: 1969.76,
-    l: 1943.1,
-    t: 1699920000000,
-    n: 3603,
-  },
-  {
-    v: 3602,
-    vw: 1965.3663,
-    o: 1962.16,
-    c: 1960.27,
-    h: 1974.4,
-    l: 1955.81,
-    t: 1700006400000,
-    n: 3602,
-  },
-  {
-    v: 3625,
-    vw: 1970.7981,
-    o: 1960.22,
-    c: 1982.32,
-    h: 1987.7,
-    l: 1956.4,
-    t: 1700092800000,
-    n: 3625,
-  },
-  {
-    v: 3431,
-    vw: 1984.6992,
-    o: 1982.18,
-    c: 1980.55,
-    h: 1993.27,
-    l: 1978,
-    t: 1700179200000,
-    n: 3431,
-  },
-  {
-    v: 135,
-    vw: 1977.8701,
-    o: 1980.65,
-    c: 1974.24,
-    h: 1981,
-    l: 1974.24,
-    t: 1700352000000,
-    n: 135,
-  },
-  {
-    v: 3613,
-    vw: 1976.9739,
-    o: 1975.73,
-    c: 1981.27,
-    h: 1984.85,
-    l: 1965.55,
-    t: 1700438400000,
-    n: 3613,
-  },
-  {
-    v: 3610,
-    vw: 1993.8784,
-    o: 1981.25,
-    c: 1999.26,
-    h: 2007.1,
-    l: 1980.3,
-    t: 1700524800000,
-    n: 3610,
-  },
-  {
-    v: 3608,
-    vw: 1996.6314,
-    o: 1999.2,
-    c: 1990.18,
-    h: 2006.09,
-    l: 1986.95,
-    t: 1700611200000,
-    n: 3608,
-  },
-  {
-    v: 3244,
-    vw: 1993.5582,
-    o: 1990.08,
-    c: 1993.98,
-    h: 1998.41,
-    l: 1989.3,
-    t: 1700697600000,
-    n: 3244,
-  },
-  {
-    v: 2938,
-    vw: 1995.6555,
-    o: 1994.07,
-    c: 2001.97,
-    h: 2003.2,
-    l: 1991.1,
-    t: 1700784000000,
-    n: 2938,
-  },
-  {
-    v: 138,
-    vw: 2001.7457,
-    o: 2002.8,
-    c: 2002.26,
-    h: 2011.1,
-    l: 2000.1,
-    t: 1700956800000,
-    n: 138,
-  },
-  {
-    v: 3607,
-    vw: 2011.4622,
-    o: 2002.34,
-    c: 2015.33,
-    h: 2017.57,
-    l: 2001.85,
-    t: 1701043200000,
-    n: 3607,
-  },
-  {
-    v: 3601,
-    vw: 2023.7085,
-    o: 2015.29,
-    c: 2044.48,
-    h: 2044.48,
-    l: 2011.79,
-    t: 1701129600000,
-    n: 3601,
-  },
-  {
-    v: 3593,
-    vw: 2043.4769,
-    o: 2044.41,
-    c: 2044.51,
-    h: 2051.74,
-    l: 2035.88,
-    t: 1701216000000,
-    n: 3593,
-  },
-  {
-    v: 3599,
-    vw: 2040.2509,
-    o: 2044.53,
-    c: 2040.04,
-    h: 2046.93,
-    l: 2032.24,
-    t: 1701302400000,
-    n: 3599,
-  },
-  {
-    v: 3438,
-    vw: 2048.162,
-    o: 2040.04,
-    c: 2071.93,
-    h: 2074.95,
-    l: 2033.94,
-    t: 1701388800000,
-    n: 3438,
-  },
-  {
-    v: 98,
-    vw: 2096.4194,
-    o: 2071.95,
-    c: 2116.24,
-    h: 2132.49,
-    l: 2069.7,
-    t: 1701561600000,
-    n: 98,
-  },
-  {
-    v: 3598,
-    vw: 2059.7463,
-    o: 2120.04,
-    c: 2033.85,
-    h: 2120.04,
-    l: 2020.9,
-    t: 1701648000000,
-    n: 3598,
-  },
-  {
-    v: 3595,
-    vw: 2026.7887,
-    o: 2033.79,
-    c: 2018.89,
-    h: 2040.92,
-    l: 2009.71,
-    t: 1701734400000,
-    n: 3595,
-  },
-  {
-    v: 3612,
-    vw: 2025.4882,
-    o: 2018.88,
-    c: 2027.07,
-    h: 2035.26,
-    l: 2018.2,
-    t: 1701820800000,
-    n: 3612,
-  },
-  {
-    v: 3604,
-    vw: 2029.5501,
-    o: 2026.98,
-    c: 2028.05,
-    h: 2039.66,
-    l: 2020.34,
-    t: 1701907200000,
-    n: 3604,
-  },
-  {
-    v: 3421,
-    vw: 2020.1593,
-    o: 2028.3,
-    c: 2004.29,
-    h: 2033.91,
-    l: 1994.71,
-    t: 1701993600000,
-    n: 3421,
-  },
-  {
-    v: 130,
-    vw: 2006.0064,
-    o: 2004.25,
-    c: 2007.08,
-    h: 2007.39,
-    l: 2003.6,
-    t: 1702166400000,
-    n: 130,
-  },
-  {
-    v: 3622,
-    vw: 1991.462,
-    o: 2007.14,
-    c: 1982.86,
-    h: 2007.62,
-    l: 1975.4,
-    t: 1702252800000,
-    n: 3622,
-  },
-  {
-    v: 3597,
-    vw: 1983.8455,
-    o: 1982.95,
-    c: 1982.46,
-    h: 1994.96,
-    l: 1977.16,
-    t: 1702339200000,
-    n: 3597,
-  },
-  {
-    v: 3597,
-    vw: 1987.1753,
-    o: 1982.25,
-    c: 2032.97,
-    h: 2032.97,
-    l: 1973.01,
-    t: 1702425600000,
-    n: 3597,
-  },
-  {
-    v: 3591,
-    vw: 2035.0538,
-    o: 2032.52,
-    c: 2035.65,
-    h: 2047.55,
-    l: 2028.05,
-    t: 1702512000000,
-    n: 3591,
-  },
-  {
-    v: 3426,
-    vw: 2033.7942,
-    o: 2035.96,
-    c: 2019.45,
-    h: 2044.42,
-    l: 2015.96,
-    t: 1702598400000,
-    n: 3426,
-  },
-  {
-    v: 139,
-    vw: 2018.2304,
-    o: 2019.59,
-    c: 2017.72,
-    h: 2021.19,
-    l: 2015.3,
-    t: 1702771200000,
-    n: 139,
-  },
-  {
-    v: 3618,
-    vw: 2023.486,
-    o: 2017.66,
-    c: 2027.61,
-    h: 2033.49,
-    l: 2015.4,
-    t: 1702857600000,
-    n: 3618,
-  },
-  {
-    v: 3616,
-    vw: 2031.3637,
-    o: 2027.48,
-    c: 2040.78,
-    h: 2046.82,
-    l: 2021.1,
-    t: 1702944000000,
-    n: 3616,
-  },
-  {
-    v: 3595,
-    vw: 2036.7316,
-    o: 2040.8,
-    c: 2032.08,
-    h: 2043.29,
-    l: 2027.54,
-    t: 1703030400000,
-    n: 3595,
-  },
-  {
-    v: 3599,
-    vw: 2038.6087,
-    o: 2032.01,
-    c: 2052.21,
-    h: 2054.79,
-    l: 2031.9,
-    t: 1703116800000,
-    n: 3599,
-  },
-  {
-    v: 3455,
-    vw: 2054.3218,
-    o: 2052.98,
-    c: 2052.74,
-    h: 2070.2,
-    l: 2046.9,
-    t: 1703203200000,
-    n: 3455,
-  },
-  {
-    v: 1,
-    vw: 2054.71,
-    o: 2054.71,
-    c: 2054.71,
-    h: 2054.71,
-    l: 2054.71,
-    t: 1703376000000,
-    n: 1,
-  },
-  {
-    v: 166,
-    vw: 2054.7992,
-    o: 2053.41,
-    c: 2054.97,
-    h: 2057.6,
-    l: 2053.2,
-    t: 1703462400000,
-    n: 166,
-  },
-  {
-    v: 3650,
-    vw: 2061.7418,
-    o: 2054.69,
-    c: 2066.05,
-    h: 2068.91,
-    l: 2052.9,
-    t: 1703548800000,
-    n: 3650,
-  },
-  {
-    v: 3618,
-    vw: 2070.5732,
-    o: 2066.36,
-    c: 2079.26,
-    h: 2083.99,
-    l: 2061.65,
-    t: 1703635200000,
-    n: 3618,
-  },
-  {
-    v: 3608,
-    vw: 2077.7037,
-    o: 2079.31,
-    c: 2066.9,
-    h: 2088.31,
-    l: 2064.6,
-    t: 1703721600000,
-    n: 3608,
-  },
-  {
-    v: 3460,
-    vw: 2067.0132,
-    o: 2066.69,
-    c: 2062.66,
-    h: 2074.51,
-    l: 2058.22,
-    t: 1703808000000,
-    n: 3460,
-  },
-  {
-    v: 1,
-    vw: 2065.21,
-    o: 2065.21,
-    c: 2065.21,
-    h: 2065.21,
-    l: 2065.21,
-    t: 1703980800000,
-    n: 1,
-  },
-  {
-    v: 161,
-    vw: 2064.7512,
-    o: 2064,
-    c: 2063.54,
-    h: 2066.44,
-    l: 2063,
-    t: 1704067200000,
-    n: 161,
-  },
-  {
-    v: 3605,
-    vw: 2067.4422,
-    o: 2063.78,
-    c: 2059.54,
-    h: 2078.8,
-    l: 2056.65,
-    t: 1704153600000,
-    n: 3605,
-  },
-  {
-    v: 3601,
-    vw: 2050.311,
-    o: 2059.55,
-    c: 2042.95,
-    h: 2065.92,
-    l: 2030.88,
-    t: 1704240000000,
-    n: 3601,
-  },
-  {
-    v: 3594,
-    vw: 2044.3999,
-    o: 2042.92,
-    c: 2044.41,
-    h: 2050.65,
-    l: 2036.56,
-    t: 1704326400000,
-    n: 3594,
-  },
-  {
-    v: 3443,
-    vw: 2044.288,
-    o: 2044.02,
-    c: 2045.41,
-    h: 2063.6,
-    l: 2025.36,
-    t: 1704412800000,
-    n: 3443,
-  },
-  {
-    v: 128,
-    vw: 2044.2689,
-    o: 2046.65,
-    c: 2044.38,
-    h: 2046.65,
-    l: 2042.3,
-    t: 1704585600000,
-    n: 128,
-  },
-  {
-    v: 3609,
-    vw: 2030.9746,
-    o: 2044.1,
-    c: 2030.71,
-    h: 2046.5,
-    l: 2018.62,
-    t: 1704672000000,
-    n: 3609,
-  },
-  {
-    v: 3615,
-    vw: 2032.7277,
-    o: 2029.8,
-    c: 2031.01,
-    h: 2040.22,
-    l: 2026.12,
-    t: 1704758400000,
-    n: 3615,
-  },
-  {
-    v: 3606,
-    vw: 2028.9341,
-    o: 2030.74,
-    c: 2026.71,
-    h: 2040.19,
-    l: 2020.39,
-    t: 1704844800000,
-    n: 3606,
-  },
-  {
-    v: 3619,
-    vw: 2028.8539,
-    o: 2026.87,
-    c: 2034.92,
-    h: 2038.96,
-    l: 2013.39,
-    t: 1704931200000,
-    n: 3619,
-  },
-  {
-    v: 3466,
-    vw: 2042.4487,
-    o: 2035.2,
-    c: 2048.99,
-    h: 2062.13,
-    l: 2029.9,
-    t: 1705017600000,
-    n: 3466,
-  },
-  {
-    v: 139,
-    vw: 2047.3771,
-    o: 2050.25,
-    c: 2047.49,
-    h: 2050.25,
-    l: 2045.5,
-    t: 1705190400000,
-    n: 139,
-  },
-  {
-    v: 3212,
-    vw: 2053.5599,
-    o: 2047.29,
-    c: 2054.2,
-    h: 2058.55,
-    l: 2045.8,
-    t: 1705276800000,
-    n: 3212,
-  },
-  {
-    v: 3624,
-    vw: 2040.1493,
-    o: 2054.25,
-    c: 2028.21,
-    h: 2054.4,
-    l: 2023.9,
-    t: 1705363200000,
-    n: 3624,
-  },
-  {
-    v: 3599,
-    vw: 2018.0979,
-    o: 2028.01,
-    c: 2009.7,
-    h: 2032.36,
-    l: 2001.4,
-    t: 1705449600000,
-    n: 3599,
-  },
-  {
-    v: 3612,
-    vw: 2013.3373,
-    o: 2009.5,
-    c: 2023.71,
-    h: 2024.34,
-    l: 2005.5,
-    t: 1705536000000,
-    n: 3612,
-  },
-  {
-    v: 3401,
-    vw: 2026.8896,
-    o: 2023.33,
-    c: 2029.47,
-    h: 2039.29,
-    l: 2019.6,
-    t: 1705622400000,
-    n: 3401,
-  },
-  {
-    v: 134,
-    vw: 2027.5182,
-    o: 2031.9,
-    c: 2027.45,
-    h: 2031.9,
-    l: 2026.1,
-    t: 1705795200000,
-    n: 134,
-  },
-  {
-    v: 3608,
-    vw: 2023.8572,
-    o: 2027.29,
-    c: 2020.7,
-    h: 2031.92,
-    l: 2017.46,
-    t: 1705881600000,
-    n: 3608,
-  },
-  {
-    v: 3609,
-    vw: 2026.2694,
-    o: 2021.28,
-    c: 2029.4,
-    h: 2037.65,
-    l: 2019.1,
-    t: 1705968000000,
-    n: 3609,
-  },
-  {
-    v: 3612,
-    vw: 2024.0424,
-    o: 2028.9,
-    c: 2016.41,
-    h: 2036.33,
-    l: 2011.22,
-    t: 1706054400000,
-    n: 3612,
-  },
-  {
-    v: 3623,
-    vw: 2016.8645,
-    o: 2016.43,
-    c: 2020.59,
-    h: 2024.84,
-    l: 2010.71,
-    t: 1706140800000,
-    n: 3623,
-  },
-  {
-    v: 3450,
-    vw: 2020.5168,
-    o: 2020.73,
-    c: 2018.33,
-    h: 2025.91,
-    l: 2016,
-    t: 1706227200000,
-    n: 3450,
-  },
-  {
-    v: 133,
-    vw: 2023.7983,
-    o: 2018.75,
-    c: 2021.74,
-    h: 2027.43,
-    l: 2018.75,
-    t: 1706400000000,
-    n: 133,
-  },
-  {
-    v: 3637,
-    vw: 2027.6663,
-    o: 2021.79,
-    c: 2031.16,
-    h: 2037.24,
-    l: 2018.5,
-    t: 1706486400000,
-    n: 3637,
-  },
-  {
-    v: 3593,
-    vw: 2034.8282,
-    o: 2031.27,
-    c: 2036.4,
-    h: 2048.31,
-    l: 2029.1,
-    t: 1706572800000,
-    n: 3593,
-  },
-  {
-    v: 3609,
-    vw: 2039.723,
-    o: 2036.74,
-    c: 2039.85,
-    h: 2055.78,
-    l: 2031,
-    t: 1706659200000,
-    n: 3609,
-  },
-  {
-    v: 10618,
-    vw: 2053.3573,
-    o: 2040,
-    c: 2054.66,
-    h: 2065.14,
-    l: 2038.5,
-    t: 1706745600000,
-    n: 10618,
-  },
-  {
-    v: 3440,
-    vw: 2047.3652,
-    o: 2054.68,
-    c: 2039.58,
-    h: 2057.42,
-    l: 2027.2,
-    t: 1706832000000,
-    n: 3440,
-  },
-  {
-    v: 135,
-    vw: 2040.1538,
-    o: 2042.4,
-    c: 2039.31,
-    h: 2042.4,
-    l: 2038.2,
-    t: 1707004800000,
-    n: 135,
-  },
-  {
-    v: 3603,
-    vw: 2026.549,
-    o: 2040.01,
-    c: 2024.99,
-    h: 2040.01,
-    l: 2014.4,
-    t: 1707091200000,
-    n: 3603,
-  },
-  {
-    v: 3601,
-    vw: 2029.5406,
-    o: 2025.1,
-    c: 2035.15,
-    h: 2038.62,
-    l: 2022.6,
-    t: 1707177600000,
-    n: 3601,
-  },
-  {
-    v: 3599,
-    vw: 2035.0321,
-    o: 2035.21,
-    c: 2036.54,
-    h: 2044.47,
-    l: 2030.57,
-    t: 1707264000000,
-    n: 3599,
-  },
-  {
-    v: 3596,
-    vw: 2032.2435,
-    o: 2036.42,
-    c: 2034.1,
-    h: 2038.43,
-    l: 2020.34,
-    t: 1707350400000,
-    n: 3596,
-  },
-  {
-    v: 3442,
-    vw: 2029.5243,
-    o: 2034.1,
-    c: 2024.38,
-    h: 2036.75,
-    l: 2020.3,
-    t: 1707436800000,
-    n: 3442,
-  },
-  {
-    v: 130,
-    vw: 2025.1875,
-    o: 2023.45,
-    c: 2025.38,
-    h: 2026.6,
-    l: 2023.45,
-    t: 1707609600000,
-    n: 130,
-  },
-  {
-    v: 3611,
-    vw: 2021.0837,
-    o: 2025.25,
-    c: 2018.76,
-    h: 2026.98,
-    l: 2011.3,
-    t: 1707696000000,
-    n: 3611,
-  },
-  {
-    v: 3602,
-    vw: 2011.2588,
-    o: 2018.76,
-    c: 1991.28,
-    h: 2029.71,
-    l: 1990.19,
-    t: 1707782400000,
-    n: 3602,
-  },
-  {
-    v: 3602,
-    vw: 1991.1874,
-    o: 1991.24,
-    c: 1993.75,
-    h: 1996,
-    l: 1985.27,
-    t: 1707868800000,
-    n: 3602,
-  },
-  {
-    v: 3581,
-    vw: 1997.9149,
-    o: 1993.79,
-    c: 2003.26,
-    h: 2007.9,
-    l: 1990.18,
-    t: 1707955200000,
-    n: 3581,
-  },
-  {
-    v: 3422,
-    vw: 2006.3978,
-    o: 2003.35,
-    c: 2013.01,
-    h: 2015.02,
-    l: 1995.22,
-    t: 1708041600000,
-    n: 3422,
-  },
-  {
-    v: 137,
-    vw: 2011.7088,
-    o: 2012.3,
-    c: 2007,
-    h: 2013.96,
-    l: 2006.37,
-    t: 1708214400000,
-    n: 137,
-  },
-  {
-    v: 3199,
-    vw: 2018.5263,
-    o: 2012.87,
-    c: 2016.11,
-    h: 2022.67,
-    l: 2007,
-    t: 1708300800000,
-    n: 3199,
-  },
-  {
-    v: 3336,
-    vw: 2022.9948,
-    o: 2016.11,
-    c: 2024.07,
-    h: 2030.66,
-    l: 2014.2,
-    t: 1708387200000,
-    n: 3336,
-  },
-  {
-    v: 3609,
-    vw: 2027.1389,
-    o: 2023.8,
-    c: 2025.68,
-    h: 2031.98,
-    l: 2020.47,
-    t: 1708473600000,
-    n: 3609,
-  },
-  {
-    v: 3593,
-    vw: 2026.4826,
-    o: 2025.52,
-    c: 2024.79,
-    h: 2034.37,
-    l: 2019.77,
-    t: 1708560000000,
-    n: 3593,
-  },
-  {
-    v: 3431,
-    vw: 2027.2958,
-    o: 2024.69,
-    c: 2035.39,
-    h: 2041.16,
-    l: 2015.99,
-    t: 1708646400000,
-    n: 3431,
-  },
-  {
-    v: 130,
-    vw: 2033.848,
-    o: 2034.29,
-    c: 2034.11,
-    h: 2034.64,
-    l: 2032.2,
-    t: 1708819200000,
-    n: 130,
-  },
-  {
-    v: 3605,
-    vw: 2031.3969,
-    o: 2033.79,
-    c: 2031.06,
-    h: 2036.78,
-    l: 2025.2,
-    t: 1708905600000,
-    n: 3605,
-  },
-  {
-    v: 3590,
-    vw: 2033.7072,
-    o: 2031.12,
-    c: 2030.08,
-    h: 2039.29,
-    l: 2028.78,
-    t: 1708992000000,
-    n: 3590,
-  },
-  {
-    v: 3583,
-    vw: 2031.0383,
-    o: 2030,
-    c: 2034.6,
-    h: 2037.52,
-    l: 2024.5,
-    t: 1709078400000,
-    n: 3583,
-  },
-  {
-    v: 3573,
-    vw: 2039.0292,
-    o: 2034.57,
-    c: 2044.13,
-    h: 2050.42,
-    l: 2028.16,
-    t: 1709164800000,
-    n: 3573,
-  },
-  {
-    v: 3438,
-    vw: 2057.8003,
-    o: 2044.08,
-    c: 2082.65,
-    h: 2088.03,
-    l: 2038.6,
-    t: 1709251200000,
-    n: 3438,
-  },
-  {
-    v: 137,
-    vw: 2084.1882,
-    o: 2084.35,
-    c: 2083.28,
-    h: 2086,
-    l: 2081.7,
-    t: 1709424000000,
-    n: 137,
-  },
-  {
-    v: 3615,
-    vw: 2094.1496,
-    o: 2083.17,
-    c: 2114.52,
-    h: 2119.61,
-    l: 2079.4,
-    t: 1709510400000,
-    n: 3615,
-  },
-  {
-    v: 3596,
-    vw: 2122.7725,
-    o: 2114.3,
-    c: 2128.17,
-    h: 2141.62,
-    l: 2110,
-    t: 1709596800000,
-    n: 3596,
-  },
-  {
-    v: 3557,
-    vw: 2134.1417,
-    o: 2127.91,
-    c: 2147.44,
-    h: 2152.07,
-    l: 2123.6,
-    t: 1709683200000,
-    n: 3557,
-  },
-  {
-    v: 3629,
-    vw: 2155.3235,
-    o: 2147.45,
-    c: 2162.04,
-    h: 2163.15,
-    l: 2144.26,
-    t: 1709769600000,
-    n: 3629,
-  },
-  {
-    v: 3429,
-    vw: 2167.541,
-    o: 2161.53,
-    c: 2178.76,
-    h: 2194.89,
-    l: 2154.03,
-    t: 1709856000000,
-    n: 3429,
-  },
-  {
-    v: 267,
-    vw: 2180.0064,
-    o: 2180.23,
-    c: 2181.7,
-    h: 2183.66,
-    l: 2176.5,
-    t: 1710028800000,
-    n: 267,
-  },
-  {
-    v: 3610,
-    vw: 2180.3541,
-    o: 2182.11,
-    c: 2183.59,
-    h: 2188.68,
-    l: 2175.7,
-    t: 1710115200000,
-    n: 3610,
-  },
-  {
-    v: 3585,
-    vw: 2169.4993,
-    o: 2183.87,
-    c: 2156.93,
-    h: 2184.36,
-    l: 2150.53,
-    t: 1710201600000,
-    n: 3585,
-  },
-  {
-    v: 3597,
-    vw: 2165.328,
-    o: 2156.91,
-    c: 2175.4,
-    h: 2179.03,
-    l: 2156.7,
-    t: 1710288000000,
-    n: 3597,
-  },
-  {
-    v: 3588,
-    vw: 2166.6435,
-    o: 2175.28,
-    c: 2161.58,
-    h: 2176.74,
-    l: 2152.98,
-    t: 1710374400000,
-    n: 3588,
-  },
-  {
-    v: 3292,
-    vw: 2163.3303,
-    o: 2161.56,
-    c: 2155.78,
-    h: 2172.44,
-    l: 2155.54,
-    t: 1710460800000,
-    n: 3292,
-  },
-  {
-    v: 275,
-    vw: 2154.7231,
-    o: 2152.92,
-    c: 2156.6,
-    h: 2156.63,
-    l: 2151.6,
-    t: 1710633600000,
-    n: 275,
-  },
-  {
-    v: 3631,
-    vw: 2155.5112,
-    o: 2156.5,
-    c: 2161.86,
-    h: 2163.49,
-    l: 2145.3,
-    t: 1710720000000,
-    n: 3631,
-  },
-  {
-    v: 3610,
-    vw: 2156.6047,
-    o: 2162.27,
-    c: 2157.06,
-    h: 2162.77,
-    l: 2147.12,
-    t: 1710806400000,
-    n: 3610,
-  },
-  {
-    v: 3609,
-    vw: 2163.5849,
-    o: 2157.11,
-    c: 2203.89,
-    h: 2222.06,
-    l: 2149.66,
-    t: 1710892800000,
-    n: 3609,
-  },
-  {
-    v: 3579,
-    vw: 2194.8593,
-    o: 2203.88,
-    c: 2181.69,
-    h: 2211.57,
-    l: 2166.32,
-    t: 1710979200000,
-    n: 3579,
-  },
-  {
-    v: 3288,
-    vw: 2170.4374,
-    o: 2181.67,
-    c: 2165.13,
-    h: 2185.85,
-    l: 2157.35,
-    t: 1711065600000,
-    n: 3288,
-  },
-  {
-    v: 268,
-    vw: 2166.8872,
-    o: 2175.21,
-    c: 2168.12,
-    h: 2175.21,
-    l: 2164.4,
-    t: 1711238400000,
-    n: 268,
-  },
-  {
-    v: 3618,
-    vw: 2171.5865,
-    o: 2168.18,
-    c: 2172.99,
-    h: 2181.01,
-    l: 2163.9,
-    t: 1711324800000,
-    n: 3618,
-  },
-  {
-    v: 3607,
-    vw: 2178.45,
-    o: 2172.71,
-    c: 2179.61,
-    h: 2199.64,
-    l: 2167.7,
-    t: 1711411200000,
-    n: 3607,
-  },
-  {
-    v: 3607,
-    vw: 2185.6823,
-    o: 2179.5,
-    c: 2190.55,
-    h: 2197.32,
-    l: 2173.67,
-    t: 1711497600000,
-    n: 3607,
-  },
-  {
-    v: 3269,
-    vw: 2204.7896,
-    o: 2190.97,
-    c: 2231.91,
-    h: 2233.81,
-    l: 2187,
-    t: 1711584000000,
-    n: 3269,
-  },
-  {
-    v: 269,
-    vw: 2239.7922,
-    o: 2237.65,
-    c: 2246.23,
-    h: 2246.82,
-    l: 2234.5,
-    t: 1711843200000,
-    n: 269,
-  },
-  {
-    v: 3631,
-    vw: 2250.4661,
-    o: 2244.75,
-    c: 2248.96,
-    h: 2265.37,
-    l: 2228.57,
-    t: 1711929600000,
-    n: 3631,
-  },
-  {
-    v: 3581,
-    vw: 2261.4295,
-    o: 2248.57,
-    c: 2279.69,
-    h: 2287.66,
-    l: 2246.5,
-    t: 1712016000000,
-    n: 3581,
-  },
-  {
-    v: 3594,
-    vw: 2283.8178,
-    o: 2279.73,
-    c: 2297.49,
-    h: 2302.27,
-    l: 2266.01,
-    t: 1712102400000,
-    n: 3594,
-  },
-  {
-    v: 3605,
-    vw: 2294.085,
-    o: 2297.34,
-    c: 2288.92,
-    h: 2305.03,
-    l: 2280.98,
-    t: 1712188800000,
-    n: 3605,
-  },
-  {
-    v: 3256,
-    vw: 2297.1094,
-    o: 2289.04,
-    c: 2329.57,
-    h: 2330.13,
-    l: 2267.98,
-    t: 1712275200000,
-    n: 3256,
-  },
-  {
-    v: 277,
-    vw: 2312.0692,
-    o: 2320.99,
-    c: 2311.33,
-    h: 2326.94,
-    l: 2305.6,
-    t: 1712448000000,
-    n: 277,
-  },
-  {
-    v: 3581,
-    vw: 2333.578,
-    o: 2312.03,
-    c: 2338.89,
-    h: 2350.28,
-    l: 2303.47,
-    t: 1712534400000,
-    n: 3581,
-  },
-  {
-    v: 3572,
-    vw: 2349.454,
-    o: 2338.96,
-    c: 2354.73,
-    h: 2365.04,
-    l: 2338.05,
-    t: 1712620800000,
-    n: 3572,
-  },
-  {
-    v: 3247,
-    vw: 2344.2273,
-    o: 2354.75,
-    c: 2335.47,
-    h: 2359.9,
-    l: 2319.87,
-    t: 1712707200000,
-    n: 3247,
-  },
-  {
-    v: 3591,
-    vw: 2346.6362,
-    o: 2335.39,
-    c: 2376.77,
-    h: 2378.63,
-    l: 2325.2,
-    t: 1712793600000,
-    n: 3591,
-  },
-  {
-    v: 3253,
-    vw: 2383.6261,
-    o: 2375.81,
-    c: 2343.65,
-    h: 2430.7,
-    l: 2334.59,
-    t: 1712880000000,
-    n: 3253,
-  },
-  {
-    v: 264,
-    vw: 2359.59,
-    o: 2361.3,
-    c: 2364.61,
-    h: 2372,
-    l: 2347.94,
-    t: 1713052800000,
-    n: 264,
-  },
-  {
-    v: 3595,
-    vw: 2360.1303,
-    o: 2363.77,
-    c: 2381.8,
-    h: 2391.86,
-    l: 2325.16,
-    t: 1713139200000,
-    n: 3595,
-  },
-  {
-    v: 3590,
-    vw: 2381.0019,
-    o: 2380.83,
-    c: 2382.44,
-    h: 2397.75,
-    l: 2362.28,
-    t: 1713225600000,
-    n: 3590,
-  },
-  {
-    v: 3585,
-    vw: 2380.563,
-    o: 2382.89,
-    c: 2367.73,
-    h: 2395.27,
-    l: 2358.51,
-    t: 1713312000000,
-    n: 3585,
-  },
-  {
-    v: 3598,
-    vw: 2378.5862,
-    o: 2368.53,
-    c: 2380.02,
-    h: 2392.23,
-    l: 2364.44,
-    t: 1713398400000,
-    n: 3598,
-  },
-  {
-    v: 3245,
-    vw: 2387.8236,
-    o: 2379.59,
-    c: 2390.01,
-    h: 2417.22,
-    l: 2372.99,
-    t: 1713484800000,
-    n: 3245,
-  },
-  {
-    v: 264,
-    vw: 2385.2009,
-    o: 2384.19,
-    c: 2386.54,
-    h: 2388.39,
-    l: 2381.2,
-    t: 1713657600000,
-    n: 264,
-  },
-  {
-    v: 3628,
-    vw: 2350.4234,
-    o: 2386.84,
-    c: 2333.86,
-    h: 2386.84,
-    l: 2325.22,
-    t: 1713744000000,
-    n: 3628,
-  },
-  {
-    v: 3599,
-    vw: 2314.6479,
-    o: 2333.17,
-    c: 2323.48,
-    h: 2334.11,
-    l: 2291.81,
-    t: 1713830400000,
-    n: 3599,
-  },
-  {
-    v: 3631,
-    vw: 2321.1594,
-    o: 2323.32,
-    c: 2316.09,
-    h: 2336.63,
-    l: 2311.5,
-    t: 1713916800000,
-    n: 3631,
-  },
-  {
-    v: 3637,
-    vw: 2325.0915,
-    o: 2316.28,
-    c: 2330.65,
-    h: 2344.47,
-    l: 2307.6,
-    t: 1714003200000,
-    n: 3637,
-  },
-  {
-    v: 3298,
-    vw: 2338.9464,
-    o: 2330.7,
-    c: 2337.48,
-    h: 2351.93,
-    l: 2326.42,
-    t: 1714089600000,
-    n: 3298,
-  },
-  {
-    v: 170,
-    vw: 2335.4711,
-    o: 2337.7,
-    c: 2335.82,
-    h: 2338.42,
-    l: 2333.5,
-    t: 1714262400000,
-    n: 170,
-  },
-  {
-    v: 3612,
-    vw: 2335.0973,
-    o: 2336.56,
-    c: 2333.06,
-    h: 2346.24,
-    l: 2322.31,
-    t: 1714348800000,
-    n: 3612,
-  },
-  {
-    v: 3612,
-    vw: 2310.572,
-    o: 2333.01,
-    c: 2291.25,
-    h: 2335.81,
-    l: 2285.26,
-    t: 1714435200000,
-    n: 3612,
-  },
-  {
-    v: 3099,
-    vw: 2296.9149,
-    o: 2291.98,
-    c: 2320.41,
-    h: 2327.31,
-    l: 2283.2,
-    t: 1714521600000,
-    n: 3099,
-  },
-  {
-    v: 3097,
-    vw: 2305.8114,
-    o: 2324.49,
-    c: 2303.91,
-    h: 2324.92,
-    l: 2285.63,
-    t: 1714608000000,
-    n: 3097,
-  },
-  {
-    v: 3268,
-    vw: 2299.9732,
-    o: 2303.44,
-    c: 2301.93,
-    h: 2319.52,
-    l: 2278.5,
-    t: 1714694400000,
-    n: 3268,
-  },
-  {
-    v: 135,
-    vw: 2298.7461,
-    o: 2301.85,
-    c: 2293.96,
-    h: 2302.96,
-    l: 2292.9,
-    t: 1714867200000,
-    n: 135,
-  },
-  {
-    v: 3245,
-    vw: 2317.7253,
-    o: 2293.74,
-    c: 2325.64,
-    h: 2331.82,
-    l: 2292.13,
-    t: 1714953600000,
-    n: 3245,
-  },
-  {
-    v: 3513,
-    vw: 2317.648,
-    o: 2327.86,
-    c: 2315.13,
-    h: 2329.72,
-    l: 2310.2,
-    t: 1715040000000,
-    n: 3513,
-  },
-  {
-    v: 3595,
-    vw: 2313.2948,
-    o: 2315.96,
-    c: 2308.72,
-    h: 2321.31,
-    l: 2304.29,
-    t: 1715126400000,
-    n: 3595,
-  },
-  {
-    v: 3624,
-    vw: 2322.7217,
-    o: 2308.72,
-    c: 2346.57,
-    h: 2348.29,
-    l: 2306.86,
-    t: 1715212800000,
-    n: 3624,
-  },
-  {
-    v: 3293,
-    vw: 2362.6564,
-    o: 2346.7,
-    c: 2359.97,
-    h: 2377.81,
-    l: 2346.1,
-    t: 1715299200000,
-    n: 3293,
-  },
-  {
-    v: 273,
-    vw: 2361.0293,
-    o: 2359.97,
-    c: 2360.29,
-    h: 2362.76,
-    l: 2359,
-    t: 1715472000000,
-    n: 273,
-  },
-  {
-    v: 3609,
-    vw: 2345.5466,
-    o: 2360.08,
-    c: 2338.26,
-    h: 2364.38,
-    l: 2332.77,
-    t: 1715558400000,
-    n: 3609,
-  },
-  {
-    v: 3613,
-    vw: 2347.3519,
-    o: 2338.14,
-    c: 2355.76,
-    h: 2359.45,
-    l: 2334.6,
-    t: 1715644800000,
-    n: 3613,
-  },
-  {
-    v: 3615,
-    vw: 2370.6299,
-    o: 2355.94,
-    c: 2391.66,
-    h: 2391.76,
-    l: 2352.39,
-    t: 1715731200000,
-    n: 3615,
-  },
-  {
-    v: 3615,
-    vw: 2384.0863,
-    o: 2391.57,
-    c: 2378.03,
-    h: 2397.07,
-    l: 2371.04,
-    t: 1715817600000,
-    n: 3615,
-  },
-  {
-    v: 3288,
-    vw: 2392.7111,
-    o: 2378.18,
-    c: 2414.02,
-    h: 2421.85,
-    l: 2373.6,
-    t: 1715904000000,
-    n: 3288,
-  },
-  {
-    v: 287,
-    vw: 2418.8145,
-    o: 2414.02,
-    c: 2420.3,
-    h: 2424.89,
-    l: 2414.02,
-    t: 1716076800000,
-    n: 287,
-  },
-  {
-    v: 3625,
-    vw: 2431.1413,
-    o: 2419.44,
-    c: 2426.12,
-    h: 2449.93,
-    l: 2409.62,
-    t: 1716163200000,
-    n: 3625,
-  },
-  {
-    v: 3603,
-    vw: 2420.6219,
-    o: 2425.75,
-    c: 2421.51,
-    h: 2433.48,
-    l: 2406.89,
-    t: 1716249600000,
-    n: 3603,
-  },
-  {
-    v: 3596,
-    vw: 2403.8674,
-    o: 2421.81,
-    c: 2382.22,
-    h: 2426.13,
-    l: 2374.99,
-    t: 1716336000000,
-    n: 3596,
-  },
-  {
-    v: 3580,
-    vw: 2355.6085,
-    o: 2382.21,
-    c: 2331.82,
-    h: 2383.53,
-    l: 2327.33,
-    t: 1716422400000,
-    n: 3580,
-  },
-  {
-    v: 3296,
-    vw: 2335.6886,
-    o: 2331.81,
-    c: 2333.04,
-    h: 2347.08,
-    l: 2325.44,
-    t: 1716508800000,
-    n: 3296,
-  },
-  {
-    v: 275,
-    vw: 2337.5183,
-    o: 2333.04,
-    c: 2337.05,
-    h: 2340.28,
-    l: 2332.43,
-    t: 1716681600000,
-    n: 275,
-  },
-  {
-    v: 3227,
-    vw: 2346.28,
-    o: 2336.93,
-    c: 2352.27,
-    h: 2358.25,
-    l: 2334.54,
-    t: 1716768000000,
-    n: 3227,
-  },
-  {
-    v: 3643,
-    vw: 2352.3946,
-    o: 2352.35,
-    c: 2359.94,
-    h: 2363.41,
-    l: 2339.9,
-    t: 1716854400000,
-    n: 3643,
-  },
-  {
-    v: 3613,
-    vw: 2346.8221,
-    o: 2359.59,
-    c: 2338.59,
-    h: 2361.03,
-    l: 2334.8,
-    t: 1716940800000,
-    n: 3613,
-  },
-  {
-    v: 3629,
-    vw: 2338.399,
-    o: 2338.11,
-    c: 2343.72,
-    h: 2350.99,
-    l: 2322.58,
-    t: 1717027200000,
-    n: 3629,
-  },
-  {
-    v: 3271,
-    vw: 2339.5167,
-    o: 2343.23,
-    c: 2325.76,
-    h: 2359.33,
-    l: 2320.38,
-    t: 1717113600000,
-    n: 3271,
-  },
-  {
-    v: 269,
-    vw: 2325.5556,
-    o: 2325.76,
-    c: 2325.55,
-    h: 2329.12,
-    l: 2322.7,
-    t: 1717286400000,
-    n: 269,
-  },
-  {
-    v: 3599,
-    vw: 2334.1288,
-    o: 2326.04,
-    c: 2350.39,
-    h: 2354.29,
-    l: 2314.85,
-    t: 1717372800000,
-    n: 3599,
-  },
-  {
-    v: 3564,
-    vw: 2334.9231,
-    o: 2350.55,
-    c: 2328.66,
-    h: 2352.32,
-    l: 2316.02,
-    t: 1717459200000,
-    n: 3564,
-  },
-  {
-    v: 3567,
-    vw: 2341.3377,
-    o: 2328.86,
-    c: 2354.98,
-    h: 2357.23,
-    l: 2325.84,
-    t: 1717545600000,
-    n: 3567,
-  },
-  {
-    v: 3600,
-    vw: 2367.1372,
-    o: 2355.26,
-    c: 2376.68,
-    h: 2378.17,
-    l: 2353.92,
-    t: 1717632000000,
-    n: 3600,
-  },
-  {
-    v: 3273,
-    vw: 2340.9443,
-    o: 2376.64,
-    c: 2293.51,
-    h: 2387.49,
-    l: 2286,
-    t: 1717718400000,
-    n: 3273,
-  },
-  {
-    v: 263,
-    vw: 2296.3531,
-    o: 2293.51,
-    c: 2298.46,
-    h: 2299.81,
-    l: 2290.73,
-    t: 1717891200000,
-    n: 263,
-  },
-  {
-    v: 3601,
-    vw: 2301.7992,
-    o: 2298.34,
-    c: 2309.88,
-    h: 2313.5,
-    l: 2287.74,
-    t: 1717977600000,
-    n: 3601,
-  },
-  {
-    v: 3588,
-    vw: 2308.821,
-    o: 2310,
-    c: 2314.86,
-    h: 2319.75,
-    l: 2297.9,
-    t: 1718064000000,
-    n: 3588,
-  },
-  {
-    v: 3568,
-    vw: 2319.9765,
-    o: 2314.9,
-    c: 2320.46,
-    h: 2341.16,
-    l: 2310.88,
-    t: 1718150400000,
-    n: 3568,
-  },
-  {
-    v: 3592,
-    vw: 2310.3945,
-    o: 2319.97,
-    c: 2302.16,
-    h: 2325.88,
-    l: 2295.9,
-    t: 1718236800000,
-    n: 3592,
-  },
-  {
-    v: 3269,
-    vw: 2320.341,
-    o: 2302.72,
-    c: 2332.3,
-    h: 2336.2,
-    l: 2301.5,
-    t: 1718323200000,
-    n: 3269,
-  },
-  {
-    v: 260,
-    vw: 2329.0208,
-    o: 2332.3,
-    c: 2328.6,
-    h: 2335.25,
-    l: 2326.7,
-    t: 1718496000000,
-    n: 260,
-  },
-  {
-    v: 3589,
-    vw: 2320.4164,
-    o: 2327.74,
-    c: 2320.76,
-    h: 2328.57,
-    l: 2309.73,
-    t: 1718582400000,
-    n: 3589,
-  },
-  {
-    v: 3598,
-    vw: 2322.0632,
-    o: 2321.34,
-    c: 2328.24,
-    h: 2332.63,
-    l: 2306.4,
-    t: 1718668800000,
-    n: 3598,
-  },
-  {
-    v: 3167,
-    vw: 2329.1508,
-    o: 2328.48,
-    c: 2329.24,
-    h: 2334.76,
-    l: 2323.87,
-    t: 1718755200000,
-    n: 3167,
-  },
-  {
-    v: 3577,
-    vw: 2345.2099,
-    o: 2329.23,
-    c: 2360.66,
-    h: 2365.1,
-    l: 2327.4,
-    t: 1718841600000,
-    n: 3577,
-  },
-  {
-    v: 3283,
-    vw: 2349.4905,
-    o: 2360.95,
-    c: 2319.04,
-    h: 2368.58,
-    l: 2317.15,
-    t: 1718928000000,
-    n: 3283,
-  },
-  {
-    v: 268,
-    vw: 2320.2067,
-    o: 2319.04,
-    c: 2318.99,
-    h: 2321.96,
-    l: 2316.8,
-    t: 1719100800000,
-    n: 268,
-  },
-  {
-    v: 3600,
-    vw: 2327.8033,
-    o: 2318.59,
-    c: 2330.66,
-    h: 2334.5,
-    l: 2317.1,
-    t: 1719187200000,
-    n: 3600,
-  },
-  {
-    v: 3609,
-    vw: 2324.896,
-    o: 2330.21,
-    c: 2319.83,
-    h: 2336.93,
-    l: 2315.73,
-    t: 1719273600000,
-    n: 3609,
-  },
-  {
-    v: 3587,
-    vw: 2308.4267,
-    o: 2319.79,
-    c: 2298.16,
-    h: 2322.82,
-    l: 2294.26,
-    t: 1719360000000,
-    n: 3587,
-  },
-  {
-    v: 3588,
-    vw: 2313.7416,
-    o: 2298.36,
-    c: 2327.46,
-    h: 2330.71,
-    l: 2296.3,
-    t: 1719446400000,
-    n: 3588,
-  },
-  {
-    v: 3261,
-    vw: 2327.2304,
-    o: 2327.48,
-    c: 2326.15,
-    h: 2339.25,
-    l: 2319.04,
-    t: 1719532800000,
-    n: 3261,
-  },
-  {
-    v: 251,
-    vw: 2324.6481,
-    o: 2326.15,
-    c: 2324.66,
-    h: 2327.01,
-    l: 2322.4,
-    t: 1719705600000,
-    n: 251,
-  },
-  {
-    v: 3599,
-    vw: 2327.8225,
-    o: 2324.86,
-    c: 2332.09,
-    h: 2338.14,
-    l: 2318.27,
-    t: 1719792000000,
-    n: 3599,
-  },
-  {
-    v: 3601,
-    vw: 2328.0107,
-    o: 2332.43,
-    c: 2330.08,
-    h: 2336.2,
-    l: 2319.3,
-    t: 1719878400000,
-    n: 3601,
-  },
-  {
-    v: 3143,
-    vw: 2346.4717,
-    o: 2330.92,
-    c: 2359,
-    h: 2364.57,
-    l: 2326.6,
-    t: 1719964800000,
-    n: 3143,
-  },
-  {
-    v: 3205,
-    vw: 2357.7672,
-    o: 2358.76,
-    c: 2356.35,
-    h: 2362.34,
-    l: 2350.69,
-    t: 1720051200000,
-    n: 3205,
-  },
-  {
-    v: 3281,
-    vw: 2371.4799,
-    o: 2356.73,
-    c: 2391.14,
-    h: 2392.72,
-    l: 2355.98,
-    t: 1720137600000,
-    n: 3281,
-  },
-  {
-    v: 266,
-    vw: 2386.5661,
-    o: 2391.14,
-    c: 2385.77,
-    h: 2393.85,
-    l: 2383.9,
-    t: 1720310400000,
-    n: 266,
-  },
-  {
-    v: 3596,
-    vw: 2372.2036,
-    o: 2385.76,
-    c: 2361.65,
-    h: 2390.58,
-    l: 2350.7,
-    t: 1720396800000,
-    n: 3596,
-  },
-  {
-    v: 3509,
-    vw: 2362.5024,
-    o: 2362.14,
-    c: 2365.01,
-    h: 2368.49,
-    l: 2350.3,
-    t: 1720483200000,
-    n: 3509,
-  },
-  {
-    v: 3592,
-    vw: 2372.4981,
-    o: 2365.2,
-    c: 2372.62,
-    h: 2386.25,
-    l: 2363.51,
-    t: 1720569600000,
-    n: 3592,
-  },
-  {
-    v: 3582,
-    vw: 2394.7445,
-    o: 2372.52,
-    c: 2415.92,
-    h: 2423.78,
-    l: 2371.48,
-    t: 1720656000000,
-    n: 3582,
-  },
-  {
-    v: 3272,
-    vw: 2408.1147,
-    o: 2414.8,
-    c: 2410.93,
-    h: 2418.06,
-    l: 2391.61,
-    t: 1720742400000,
-    n: 3272,
-  },
-  {
-    v: 233,
-    vw: 2407.6267,
-    o: 2410.61,
-    c: 2408.6,
-    h: 2412.35,
-    l: 2404.9,
-    t: 1720915200000,
-    n: 233,
-  },
-  {
-    v: 3573,
-    vw: 2415.9735,
-    o: 2408.44,
-    c: 2422.37,
-    h: 2439.53,
-    l: 2401.3,
-    t: 1721001600000,
-    n: 3573,
-  },
-  {
-    v: 3473,
-    vw: 2443.884,
-    o: 2422.11,
-    c: 2468.27,
-    h: 2469.56,
-    l: 2419.94,
-    t: 1721088000000,
-    n: 3473,
-  },
-  {
-    v: 2932,
-    vw: 2465.623,
-    o: 2471.24,
-    c: 2461.25,
-    h: 2483.22,
-    l: 2451.2,
-    t: 1721174400000,
-    n: 2932,
-  },
-  {
-    v: 3274,
-    vw: 2461.9265,
-    o: 2461.19,
-    c: 2444.91,
-    h: 2474.69,
-    l: 2440.44,
-    t: 1721260800000,
-    n: 3274,
-  },
-  {
-    v: 2992,
-    vw: 2411.2388,
-    o: 2425.98,
-    c: 2400.59,
-    h: 2429.45,
-    l: 2393.92,
-    t: 1721347200000,
-    n: 2992,
-  },
-  {
-    v: 267,
-    vw: 2409.1023,
-    o: 2400.59,
-    c: 2411.37,
-    h: 2411.7,
-    l: 2400.59,
-    t: 1721520000000,
-    n: 267,
-  },
-  {
-    v: 3565,
-    vw: 2399.6763,
-    o: 2411.34,
-    c: 2395.55,
-    h: 2411.92,
-    l: 2384.31,
-    t: 1721606400000,
-    n: 3565,
-  },
-  {
-    v: 3580,
-    vw: 2402.6456,
-    o: 2395.56,
-    c: 2408.34,
-    h: 2411.72,
-    l: 2387.6,
-    t: 1721692800000,
-    n: 3580,
-  },
-  {
-    v: 3578,
-    vw: 2412.6649,
-    o: 2408.86,
-    c: 2398.63,
-    h: 2431.81,
-    l: 2393.18,
-    t: 1721779200000,
-    n: 3578,
-  },
-  {
-    v: 3581,
-    vw: 2370.539,
-    o: 2398.75,
-    c: 2364.1,
-    h: 2399.89,
-    l: 2353.24,
-    t: 1721865600000,
-    n: 3581,
-  },
-  {
-    v: 3284,
-    vw: 2376.249,
-    o: 2363.99,
-    c: 2385.9,
-    h: 2390.21,
-    l: 2356.14,
-    t: 1721952000000,
-    n: 3284,
-  },
-  {
-    v: 264,
-    vw: 2395.752,
-    o: 2386.6,
-    c: 2396.45,
-    h: 2402.17,
-    l: 2386.6,
-    t: 1722124800000,
-    n: 264,
-  },
-  {
-    v: 3593,
-    vw: 2388.3904,
-    o: 2397.17,
-    c: 2381.06,
-    h: 2402.24,
-    l: 2369.86,
-    t: 1722211200000,
-    n: 3593,
-  },
-  {
-    v: 3589,
-    vw: 2392.5771,
-    o: 2380.88,
-    c: 2409.62,
-    h: 2412.27,
-    l: 2376.3,
-    t: 1722297600000,
-    n: 3589,
-  },
-  {
-    v: 3581,
-    vw: 2423.5188,
-    o: 2409.74,
-    c: 2445.84,
-    h: 2450.56,
-    l: 2404.22,
-    t: 1722384000000,
-    n: 3581,
-  },
-  {
-    v: 3568,
-    vw: 2443.6336,
-    o: 2445.94,
-    c: 2445.86,
-    h: 2461.49,
-    l: 2430.25,
-    t: 1722470400000,
-    n: 3568,
-  },
-  {
-    v: 3244,
-    vw: 2450.7776,
-    o: 2444.91,
-    c: 2442.08,
-    h: 2476.93,
-    l: 2411.83,
-    t: 1722556800000,
-    n: 3244,
-  },
-  {
-    v: 263,
-    vw: 2440.9501,
-    o: 2442.08,
-    c: 2440.76,
-    h: 2446.22,
-    l: 2437.8,
-    t: 1722729600000,
-    n: 263,
-  },
-  {
-    v: 3543,
-    vw: 2416.8645,
-    o: 2440.7,
-    c: 2404.79,
-    h: 2457.18,
-    l: 2364.71,
-    t: 1722816000000,
-    n: 3543,
-  },
-  {
-    v: 3579,
-    vw: 2400.7465,
-    o: 2405.4,
-    c: 2384.05,
-    h: 2417.77,
-    l: 2381.81,
-    t: 1722902400000,
-    n: 3579,
-  },
-  {
-    v: 3595,
-    vw: 2391.468,
-    o: 2384.37,
-    c: 2384.72,
-    h: 2406.61,
-    l: 2379.39,
-    t: 1722988800000,
-    n: 3595,
-  },
-  {
-    v: 3569,
-    vw: 2406.5594,
-    o: 2384.8,
-    c: 2424.66,
-    h: 2427.37,
-    l: 2383.31,
-    t: 1723075200000,
-    n: 3569,
-  },
-  {
-    v: 3276,
-    vw: 2426.0993,
-    o: 2424.45,
-    c: 2430.71,
-    h: 2436.87,
-    l: 2416.95,
-    t: 1723161600000,
-    n: 3276,
-  },
-  {
-    v: 260,
-    vw: 2429.2417,
-    o: 2430.71,
-    c: 2427.83,
-    h: 2433.31,
-    l: 2426.8,
-    t: 1723334400000,
-    n: 260,
-  },
-  {
-    v: 3619,
-    vw: 2447.8737,
-    o: 2427.85,
-    c: 2475.32,
-    h: 2475.84,
-    l: 2423.79,
-    t: 1723420800000,
-    n: 3619,
-  },
-  {
-    v: 3608,
-    vw: 2465.5053,
-    o: 2476.15,
-    c: 2463.87,
-    h: 2476.72,
-    l: 2458.4,
-    t: 1723507200000,
-    n: 3608,
-  },
-  {
-    v: 3593,
-    vw: 2458.7294,
-    o: 2464.07,
-    c: 2449.26,
-    h: 2478.2,
-    l: 2435.61,
-    t: 1723593600000,
-    n: 3593,
-  },
-  {
-    v: 3593,
-    vw: 2454.6881,
-    o: 2449.64,
-    c: 2457.43,
-    h: 2469.7,
-    l: 2432.93,
-    t: 1723680000000,
-    n: 3593,
-  },
-  {
-    v: 3267,
-    vw: 2473.5475,
-    o: 2457.33,
-    c: 2506.76,
-    h: 2509.5,
-    l: 2450.4,
-    t: 1723766400000,
-    n: 3267,
-  },
-  {
-    v: 259,
-    vw: 2504.4604,
-    o: 2506.76,
-    c: 2506.07,
-    h: 2508.9,
-    l: 2501.5,
-    t: 1723939200000,
-    n: 259,
-  },
-  {
-    v: 3540,
-    vw: 2500.7751,
-    o: 2505.98,
-    c: 2503.64,
-    h: 2507.24,
-    l: 2485.8,
-    t: 1724025600000,
-    n: 3540,
-  },
-  {
-    v: 3426,
-    vw: 2512.215,
-    o: 2503.96,
-    c: 2513.16,
-    h: 2531.51,
-    l: 2497.44,
-    t: 1724112000000,
-    n: 3426,
-  },
-  {
-    v: 3559,
-    vw: 2511.4217,
-    o: 2512.75,
-    c: 2512.43,
-    h: 2519.76,
-    l: 2495.05,
-    t: 1724198400000,
-    n: 3559,
-  },
-  {
-    v: 3558,
-    vw: 2495.7147,
-    o: 2512.83,
-    c: 2487.04,
-    h: 2514.25,
-    l: 2471.13,
-    t: 1724284800000,
-    n: 3558,
-  },
-  {
-    v: 3254,
-    vw: 2499.9468,
-    o: 2486.85,
-    c: 2512.01,
-    h: 2518.1,
-    l: 2486.39,
-    t: 1724371200000,
-    n: 3254,
-  },
-  {
-    v: 264,
-    vw: 2513.6907,
-    o: 2512.01,
-    c: 2515.72,
-    h: 2516.29,
-    l: 2510.4,
-    t: 1724544000000,
-    n: 264,
-  },
-  {
-    v: 3569,
-    vw: 2517.5065,
-    o: 2515.46,
-    c: 2515.58,
-    h: 2526.54,
-    l: 2508.6,
-    t: 1724630400000,
-    n: 3569,
-  },
-  {
-    v: 3558,
-    vw: 2514.3907,
-    o: 2515.45,
-    c: 2525.07,
-    h: 2528.82,
-    l: 2504.01,
-    t: 1724716800000,
-    n: 3558,
-  },
-  {
-    v: 3563,
-    vw: 2508.533,
-    o: 2525.36,
-    c: 2507.84,
-    h: 2525.59,
-    l: 2494.04,
-    t: 1724803200000,
-    n: 3563,
-  },
-  {
-    v: 3580,
-    vw: 2518.4509,
-    o: 2507.95,
-    c: 2519.37,
-    h: 2528.48,
-    l: 2503.94,
-    t: 1724889600000,
-    n: 3580,
-  },
-  {
-    v: 3256,
-    vw: 2513.1767,
-    o: 2519.17,
-    c: 2502.98,
-    h: 2526.7,
-    l: 2494.79,
-    t: 1724976000000,
-    n: 3256,
-  },
-  {
-    v: 258,
-    vw: 2503.0262,
-    o: 2502.98,
-    c: 2503.08,
-    h: 2505.05,
-    l: 2500.9,
-    t: 1725148800000,
-    n: 258,
-  },
-  {
-    v: 3181,
-    vw: 2499.1365,
-    o: 2502.66,
-    c: 2496.59,
-    h: 2507,
-    l: 2490.24,
-    t: 1725235200000,
-    n: 3181,
-  },
-  {
-    v: 3554,
-    vw: 2493.0727,
-    o: 2497.18,
-    c: 2493.41,
-    h: 2505.97,
-    l: 2474.1,
-    t: 1725321600000,
-    n: 3554,
-  },
-  {
-    v: 3321,
-    vw: 2490.8926,
-    o: 2493.04,
-    c: 2495.64,
-    h: 2499.84,
-    l: 2471.95,
-    t: 1725408000000,
-    n: 3321,
-  },
-  {
-    v: 3560,
-    vw: 2508.68,
-    o: 2495.76,
-    c: 2517.16,
-    h: 2522.77,
-    l: 2492.9,
-    t: 1725494400000,
-    n: 3560,
-  },
-  {
-    v: 3244,
-    vw: 2511.0557,
-    o: 2517.18,
-    c: 2496.75,
-    h: 2529.01,
-    l: 2485.1,
-    t: 1725580800000,
-    n: 3244,
-  },
-  {
-    v: 266,
-    vw: 2496.7108,
-    o: 2496.75,
-    c: 2496.68,
-    h: 2498.06,
-    l: 2494.7,
-    t: 1725753600000,
-    n: 266,
-  },
-  {
-    v: 3272,
-    vw: 2497.9941,
-    o: 2496.45,
-    c: 2506.69,
-    h: 2507.51,
-    l: 2485.81,
-    t: 1725840000000,
-    n: 3272,
-  },
-  {
-    v: 3557,
-    vw: 2508.3299,
-    o: 2506.77,
-    c: 2518.56,
-    h: 2518.66,
-    l: 2499.91,
-    t: 1725926400000,
-    n: 3557,
-  },
-  {
-    v: 3566,
-    vw: 2516.8462,
-    o: 2518.57,
-    c: 2511.9,
-    h: 2528.03,
-    l: 2501.67,
-    t: 1726012800000,
-    n: 3566,
-  },
-  {
-    v: 3572,
-    vw: 2532.3252,
-    o: 2511.62,
-    c: 2557.96,
-    h: 2559.9,
-    l: 2510.94,
-    t: 1726099200000,
-    n: 3572,
-  },
-  {
-    v: 3253,
-    vw: 2571.6672,
-    o: 2558.63,
-    c: 2577.38,
-    h: 2585.68,
-    l: 2556.84,
-    t: 1726185600000,
-    n: 3253,
-  },
-  {
-    v: 270,
-    vw: 2578.9387,
-    o: 2577.38,
-    c: 2578.96,
-    h: 2580.35,
-    l: 2576.9,
-    t: 1726358400000,
-    n: 270,
-  },
-  {
-    v: 3574,
-    vw: 2583.0932,
-    o: 2578.99,
-    c: 2583.58,
-    h: 2589.24,
-    l: 2576.09,
-    t: 1726444800000,
-    n: 3574,
-  },
-  {
-    v: 3569,
-    vw: 2575.4449,
-    o: 2583.61,
-    c: 2573.83,
-    h: 2586.13,
-    l: 2561.1,
-    t: 1726531200000,
-    n: 3569,
-  },
-  {
-    v: 3560,
-    vw: 2570.3368,
-    o: 2574.07,
-    c: 2559.15,
-    h: 2599.8,
-    l: 2547.63,
-    t: 1726617600000,
-    n: 3560,
-  },
-  {
-    v: 3545,
-    vw: 2578.8451,
-    o: 2559,
-    c: 2587.15,
-    h: 2594.4,
-    l: 2551.46,
-    t: 1726704000000,
-    n: 3545,
-  },
-  {
-    v: 3235,
-    vw: 2607.0431,
-    o: 2587.22,
-    c: 2621.74,
-    h: 2625.55,
-    l: 2584.92,
-    t: 1726790400000,
-    n: 3235,
-  },
-  {
-    v: 1,
-    vw: 2621.89,
-    o: 2621.89,
-    c: 2621.89,
-    h: 2621.89,
-    l: 2621.89,
-    t: 1726963200000,
-    n: 1,
-  },
-  {
-    v: 3452,
-    vw: 2625.304,
-    o: 2619.36,
-    c: 2626.17,
-    h: 2634.56,
-    l: 2613.74,
-    t: 1727049600000,
-    n: 3452,
-  },
-  {
-    v: 3553,
-    vw: 2639.0827,
-    o: 2625.84,
-    c: 2658.03,
-    h: 2664.03,
-    l: 2622.63,
-    t: 1727136000000,
-    n: 3553,
-  },
-  {
-    v: 3527,
-    vw: 2658.5167,
-    o: 2657.7,
-    c: 2656.76,
-    h: 2669.7,
-    l: 2650.55,
-    t: 1727222400000,
-    n: 3527,
-  },
-  {
-    v: 3544,
-    vw: 2667.4502,
-    o: 2656.78,
-    c: 2672.57,
-    h: 2685.13,
-    l: 2655.31,
-    t: 1727308800000,
-    n: 3544,
-  },
-  {
-    v: 3247,
-    vw: 2661.8109,
-    o: 2672.43,
-    c: 2657.97,
-    h: 2673.82,
-    l: 2643.37,
-    t: 1727395200000,
-    n: 3247,
-  },
-  {
-    v: 262,
-    vw: 2662.3792,
-    o: 2657.97,
-    c: 2663.48,
-    h: 2664.87,
-    l: 2657.95,
-    t: 1727568000000,
-    n: 262,
-  },
-  {
-    v: 3562,
-    vw: 2644.3571,
-    o: 2663.66,
-    c: 2635.54,
-    h: 2665.69,
-    l: 2625.25,
-    t: 1727654400000,
-    n: 3562,
-  },
-  {
-    v: 3558,
-    vw: 2651.2498,
-    o: 2635.47,
-    c: 2660.32,
-    h: 2672.58,
-    l: 2633.98,
-    t: 1727740800000,
-    n: 3558,
-  },
-  {
-    v: 3572,
-    vw: 2654.2341,
-    o: 2660.27,
-    c: 2660.06,
-    h: 2662.17,
-    l: 2641.89,
-    t: 1727827200000,
-    n: 3572,
-  },
-  {
-    v: 3563,
-    vw: 2652.88,
-    o: 2660.47,
-    c: 2655.55,
-    h: 2662.48,
-    l: 2640.11,
-    t: 1727913600000,
-    n: 3563,
-  },
-  {
-    v: 3240,
-    vw: 2656.1893,
-    o: 2655.62,
-    c: 2653.05,
-    h: 2669.31,
-    l: 2632.11,
-    t: 1728000000000,
-    n: 3240,
-  },
-  {
-    v: 259,
-    vw: 2650.7993,
-    o: 2653.05,
-    c: 2650.45,
-    h: 2653.05,
-    l: 2649,
-    t: 1728172800000,
-    n: 259,
-  },
-  {
-    v: 3573,
-    vw: 2647.1492,
-    o: 2650.66,
-    c: 2642.84,
-    h: 2659.39,
-    l: 2638.26,
-    t: 1728259200000,
-    n: 3573,
-  },
-  {
-    v: 3552,
-    vw: 2632.5635,
-    o: 2642.88,
-    c: 2621.96,
-    h: 2652.61,
-    l: 2605.72,
-    t: 1728345600000,
-    n: 3552,
-  },
-  {
-    v: 3385,
-    vw: 2614.4673,
-    o: 2621.65,
-    c: 2608.16,
-    h: 2624.13,
-    l: 2604.96,
-    t: 1728432000000,
-    n: 3385,
-  },
-  {
-    v: 3377,
-    vw: 2619.1125,
-    o: 2608.38,
-    c: 2632.37,
-    h: 2635.25,
-    l: 2605.88,
-    t: 1728518400000,
-    n: 3377,
-  },
-  {
-    v: 3207,
-    vw: 2646.3708,
-    o: 2633.77,
-    c: 2656.85,
-    h: 2661.29,
-    l: 2631.7,
-    t: 1728604800000,
-    n: 3207,
-  },
-  {
-    v: 1,
-    vw: 2656.08,
-    o: 2656.08,
-    c: 2656.08,
-    h: 2656.08,
-    l: 2656.08,
-    t: 1728777600000,
-    n: 1,
-  },
-  {
-    v: 3312,
-    vw: 2653.2437,
-    o: 2645.21,
-    c: 2649.3,
-    h: 2666.34,
-    l: 2643.32,
-    t: 1728864000000,
-    n: 3312,
-  },
-  {
-    v: 3488,
-    vw: 2654.479,
-    o: 2649.03,
-    c: 2660.34,
-    h: 2668.82,
-    l: 2638.34,
-    t: 1728950400000,
-    n: 3488,
-  },
-  {
-    v: 3514,
-    vw: 2672.8762,
-    o: 2659.97,
-    c: 2673.9,
-    h: 2685.07,
-    l: 2658.78,
-    t: 1729036800000,
-    n: 3514,
-  },
-  {
-    v: 3474,
-    vw: 2685.3013,
-    o: 2674.12,
-    c: 2693.55,
-    h: 2696.52,
-    l: 2673.39,
-    t: 1729123200000,
-    n: 3474,
-  },
-  {
-    v: 3208,
-    vw: 2710.8745,
-    o: 2693.49,
-    c: 2720.53,
-    h: 2722.41,
-    l: 2692.9,
-    t: 1729209600000,
-    n: 3208,
-  },
-  {
-    v: 223,
-    vw: 2722.7679,
-    o: 2720.69,
-    c: 2723.41,
-    h: 2724.86,
-    l: 2720.4,
-    t: 1729382400000,
-    n: 223,
-  },
-  {
-    v: 3527,
-    vw: 2727.1966,
-    o: 2723.6,
-    c: 2721.26,
-    h: 2740.46,
-    l: 2713.4,
-    t: 1729468800000,
-    n: 3527,
-  },
-  {
-    v: 3495,
-    vw: 2737.3351,
-    o: 2721.44,
-    c: 2746.56,
-    h: 2748.69,
-    l: 2720.56,
-    t: 1729555200000,
-    n: 3495,
-  },
-  {
-    v: 3482,
-    vw: 2735.7233,
-    o: 2746.74,
-    c: 2721.31,
-    h: 2758.2,
-    l: 2708.6,
-    t: 1729641600000,
-    n: 3482,
-  },
-  {
-    v: 3256,
-    vw: 2731.8389,
-    o: 2720.11,
-    c: 2733.69,
-    h: 2743.21,
-    l: 2717.97,
-    t: 1729728000000,
-    n: 3256,
-  },
-  {
-    v: 3226,
-    vw: 2731.2393,
-    o: 2733.78,
-    c: 2747.13,
-    h: 2747.13,
-    l: 2717.14,
-    t: 1729814400000,
-    n: 3226,
-  },
-  {
-    v: 221,
-    vw: 2735.0254,
-    o: 2747.13,
-    c: 2735.85,
-    h: 2748.21,
-    l: 2730.3,
-    t: 1729987200000,
-    n: 221,
-  },
-  {
-    v: 3537,
-    vw: 2737.3703,
-    o: 2735.22,
-    c: 2744.29,
-    h: 2745.48,
-    l: 2724.51,
-    t: 1730073600000,
-    n: 3537,
-  },
-  {
-    v: 3563,
-    vw: 2759.1705,
-    o: 2743.95,
-    c: 2774.7,
-    h: 2775.05,
-    l: 2743.19,
-    t: 1730160000000,
-    n: 3563,
-  },
-  {
-    v: 3574,
-    vw: 2782.5481,
-    o: 2774.81,
-    c: 2785.14,
-    h: 2789.77,
-    l: 2770.96,
-    t: 1730246400000,
-    n: 3574,
-  },
-  {
-    v: 3561,
-    vw: 2766.6961,
-    o: 2785.47,
-    c: 2746.27,
-    h: 2789.92,
-    l: 2731.97,
-    t: 1730332800000,
-    n: 3561,
-  },
-  {
-    v: 3231,
-    vw: 2747.6801,
-    o: 2746.81,
-    c: 2735.91,
-    h: 2761.49,
-    l: 2733.2,
-    t: 1730419200000,
-    n: 3231,
-  },
-  {
-    v: 131,
-    vw: 2737.6634,
-    o: 2746.7,
-    c: 2738.2,
-    h: 2746.7,
-    l: 2730.91,
-    t: 1730592000000,
-    n: 131,
-  },
-  {
-    v: 3270,
-    vw: 2738.9941,
-    o: 2738.69,
-    c: 2736.34,
-    h: 2745.91,
-    l: 2732.15,
-    t: 1730678400000,
-    n: 3270,
-  },
-  {
-    v: 3190,
-    vw: 2739.1963,
-    o: 2733.51,
-    c: 2745.46,
-    h: 2749.7,
-    l: 2724.93,
-    t: 1730764800000,
-    n: 3190,
-  },
-  {
-    v: 3523,
-    vw: 2701.065,
-    o: 2745.08,
-    c: 2663.87,
-    h: 2749.31,
-    l: 2652.51,
-    t: 1730851200000,
-    n: 3523,
-  },
-  {
-    v: 3530,
-    vw: 2676.1189,
-    o: 2663.12,
-    c: 2706.83,
-    h: 2709.54,
-    l: 2646.56,
-    t: 1730937600000,
-    n: 3530,
-  },
-  {
-    v: 3396,
-    vw: 2691.1228,
-    o: 2706.99,
-    c: 2683.85,
-    h: 2709.92,
-    l: 2680.47,
-    t: 1731024000000,
-    n: 3396,
-  },
-  {
-    v: 135,
-    vw: 2683.0241,
-    o: 2683.81,
-    c: 2685.47,
-    h: 2685.47,
-    l: 2681.2,
-    t: 1731196800000,
-    n: 135,
-  },
-  {
-    v: 3561,
-    vw: 2649.659,
-    o: 2684.96,
-    c: 2623.69,
-    h: 2685.59,
-    l: 2610.67,
-    t: 1731283200000,
-    n: 3561,
-  },
-  {
-    v: 3542,
-    vw: 2605.8289,
-    o: 2623.79,
-    c: 2598.8,
-    h: 2626.7,
-    l: 2589.83,
-    t: 1731369600000,
-    n: 3542,
-  },
-  {
-    v: 3567,
-    vw: 2599.2465,
-    o: 2598.51,
-    c: 2571.44,
-    h: 2617.87,
-    l: 2569.19,
-    t: 1731456000000,
-    n: 3567,
-  },
-  {
-    v: 3539,
-    vw: 2561.8719,
-    o: 2570.9,
-    c: 2566.49,
-    h: 2577.3,
-    l: 2537.56,
-    t: 1731542400000,
-    n: 3539,
-  },
-  {
-    v: 3396,
-    vw: 2566.1393,
-    o: 2566.42,
-    c: 2561.27,
-    h: 2575.51,
-    l: 2554.96,
-    t: 1731628800000,
-    n: 3396,
-  },
-  {
-    v: 139,
-    vw: 2572.1388,
-    o: 2562.95,
-    c: 2571.2,
-    h: 2575.27,
-    l: 2562.95,
-    t: 1731801600000,
-    n: 139,
-  },
-  {
-    v: 3550,
-    vw: 2597.0308,
-    o: 2569.8,
-    c: 2612.09,
-    h: 2614.78,
-    l: 2569.8,
-    t: 1731888000000,
-    n: 3550,
-  },
-  {
-    v: 3566,
-    vw: 2626.5551,
-    o: 2612.62,
-    c: 2634.71,
-    h: 2639.23,
-    l: 2610.3,
-    t: 1731974400000,
-    n: 3566,
-  },
-  {
-    v: 3561,
-    vw: 2638.2658,
-    o: 2634.83,
-    c: 2652.02,
-    h: 2655.06,
-    l: 2619.82,
-    t: 1732060800000,
-    n: 3561,
-  },
-  {
-    v: 3558,
-    vw: 2664.259,
-    o: 2652.2,
-    c: 2668.68,
-    h: 2673.31,
-    l: 2650.7,
-    t: 1732147200000,
-    n: 3558,
-  },
-  {
-    v: 3373,
-    vw: 2695.8611,
-    o: 2668.8,
-    c: 2715.58,
-    h: 2715.82,
-    l: 2668.8,
-    t: 1732233600000,
-    n: 3373,
-  },
-  {
-    v: 1370,
-    vw: 2628.4117,
-    o: 2670.27,
-    c: 2610.17,
-    h: 2670.27,
-    l: 2606.86,
-    t: 1732492800000,
-    n: 1370,
-  },
-  {
-    v: 3550,
-    vw: 2626.3291,
-    o: 2611.51,
-    c: 2632.18,
-    h: 2641.72,
-    l: 2609.48,
-    t: 1732579200000,
-    n: 3550,
-  },
-  {
-    v: 3561,
-    vw: 2641.8506,
-    o: 2632.63,
-    c: 2636.89,
-    h: 2658.1,
-    l: 2627.2,
-    t: 1732665600000,
-    n: 3561,
-  },
-  {
-    v: 3190,
-    vw: 2638.4788,
-    o: 2637.14,
-    c: 2638.78,
-    h: 2649.16,
-    l: 2621.09,
-    t: 1732752000000,
-    n: 3190,
-  },
-  {
-    v: 3054,
-    vw: 2657.2537,
-    o: 2638.66,
-    c: 2650.25,
-    h: 2666.03,
-    l: 2634.43,
-    t: 1732838400000,
-    n: 3054,
-  },
-  {
-    v: 138,
-    vw: 2646.6491,
-    o: 2650.24,
-    c: 2645.92,
-    h: 2650.24,
-    l: 2642.4,
-    t: 1733011200000,
-    n: 138,
-  },
-  {
-    v: 3565,
-    vw: 2636.1806,
-    o: 2646.13,
-    c: 2641.84,
-    h: 2651.41,
-    l: 2621.99,
-    t: 1733097600000,
-    n: 3565,
-  },
-  {
-    v: 3576,
-    vw: 2642.9557,
-    o: 2642.25,
-    c: 2642.62,
-    h: 2654.97,
-    l: 2634.64,
-    t: 1733184000000,
-    n: 3576,
-  },
-  {
-    v: 3574,
-    vw: 2646.5892,
-    o: 2642.87,
-    c: 2650.18,
-    h: 2656.42,
-    l: 2633.47,
-    t: 1733270400000,
-    n: 3574,
-  },
-  {
-    v: 3579,
-    vw: 2642.4739,
-    o: 2650,
-    c: 2633.62,
-    h: 2655.33,
-    l: 2623.57,
-    t: 1733356800000,
-    n: 3579,
-  },
-  {
-    v: 3401,
-    vw: 2635.531,
-    o: 2632.9,
-    c: 2632.14,
-    h: 2645.16,
-    l: 2613.71,
-    t: 1733443200000,
-    n: 3401,
-  },
-  {
-    v: 137,
-    vw: 2640.1526,
-    o: 2632.14,
-    c: 2639.2,
-    h: 2647.67,
-    l: 2632.14,
-    t: 1733616000000,
-    n: 137,
-  },
-  {
-    v: 3574,
-    vw: 2653.652,
-    o: 2638.53,
-    c: 2660.54,
-    h: 2676.08,
-    l: 2627.2,
-    t: 1733702400000,
-    n: 3574,
-  },
-  {
-    v: 3570,
-    vw: 2677.4271,
-    o: 2660.61,
-    c: 2695.71,
-    h: 2698.13,
-    l: 2656.9,
-    t: 1733788800000,
-    n: 3570,
-  },
-  {
-    v: 3602,
-    vw: 2702.2596,
-    o: 2695.87,
-    c: 2719.83,
-    h: 2720.8,
-    l: 2674.06,
-    t: 1733875200000,
-    n: 3602,
-  },
-  {
-    v: 3588,
-    vw: 2701.1679,
-    o: 2719.41,
-    c: 2680.31,
-    h: 2725.72,
-    l: 2675.24,
-    t: 1733961600000,
-    n: 3588,
-  },
-  {
-    v: 3168,
-    vw: 2672.0718,
-    o: 2679.76,
-    c: 2647.49,
-    h: 2692.08,
-    l: 2646.15,
-    t: 1734048000000,
-    n: 3168,
-  },
-  {
-    v: 135,
-    vw: 2649.8123,
-    o: 2648.05,
-    c: 2650.3,
-    h: 2652.73,
-    l: 2647.7,
-    t: 1734220800000,
-    n: 135,
-  },
-  {
-    v: 3611,
-    vw: 2654.6768,
-    o: 2651.25,
-    c: 2651.5,
-    h: 2663.99,
-    l: 2643.41,
-    t: 1734307200000,
-    n: 3611,
-  },
-  {
-    v: 3574,
-    vw: 2646.5788,
-    o: 2651.62,
-    c: 2647.29,
-    h: 2658.43,
-    l: 2632.87,
-    t: 1734393600000,
-    n: 3574,
-  },
-  {
-    v: 3585,
-    vw: 2636.4225,
-    o: 2647.33,
-    c: 2588.06,
-    h: 2651.48,
-    l: 2583.08,
-    t: 1734480000000,
-    n: 3585,
-  },
-  {
-    v: 3566,
-    vw: 2604.4983,
-    o: 2588.52,
-    c: 2593.57,
-    h: 2626.24,
-    l: 2587.01,
-    t: 1734566400000,
-    n: 3566,
-  },
-  {
-    v: 3419,
-    vw: 2609.5799,
-    o: 2593.48,
-    c: 2622,
-    h: 2630.93,
-    l: 2589.2,
-    t: 1734652800000,
-    n: 3419,
-  },
-  {
-    v: 137,
-    vw: 2622.7496,
-    o: 2622,
-    c: 2623.84,
-    h: 2624.29,
-    l: 2620.9,
-    t: 1734825600000,
-    n: 137,
-  },
-  {
-    v: 3612,
-    vw: 2619.535,
-    o: 2623.28,
-    c: 2615.26,
-    h: 2632.98,
-    l: 2608.31,
-    t: 1734912000000,
-    n: 3612,
-  },
-  {
-    v: 2951,
-    vw: 2616.1545,
-    o: 2615.08,
-    c: 2616.1,
-    h: 2621.19,
-    l: 2609.9,
-    t: 1734998400000,
-    n: 2951,
-  },
-  {
-    v: 161,
-    vw: 2617.6273,
-    o: 2614.31,
-    c: 2617.86,
-    h: 2619.96,
-    l: 2613.27,
-    t: 1735084800000,
-    n: 161,
-  },
-  {
-    v: 3625,
-    vw: 2628.6209,
-    o: 2618.02,
-    c: 2632.5,
-    h: 2638.83,
-    l: 2617.7,
-    t: 1735171200000,
-    n: 3625,
-  },
-  {
-    v: 3445,
-    vw: 2625.2266,
-    o: 2632.36,
-    c: 2620.84,
-    h: 2637.81,
-    l: 2611.3,
-    t: 1735257600000,
-    n: 3445,
-  },
-  {
-    v: 135,
-    vw: 2623.2863,
-    o: 2621.18,
-    c: 2623.83,
-    h: 2625.71,
-    l: 2619.25,
-    t: 1735430400000,
-    n: 135,
-  },
-  {
-    v: 3611,
-    vw: 2614.0054,
-    o: 2623.8,
-    c: 2606.51,
-    h: 2627.92,
-    l: 2596.2,
-    t: 1735516800000,
-    n: 3611,
-  },
-  {
-    v: 2851,
-    vw: 2612.0359,
-    o: 2606.45,
-    c: 2624.19,
-    h: 2627.22,
-    l: 2603.06,
-    t: 1735603200000,
-    n: 2851,
-  },
-  {
-    v: 163,
-    vw: 2623.4545,
-    o: 2624.8,
-    c: 2623.68,
-    h: 2625.01,
-    l: 2620.7,
-    t: 1735689600000,
-    n: 163,
-  },
-  {
-    v: 3582,
-    vw: 2643.1269,
-    o: 2623.52,
-    c: 2658.11,
-    h: 2660.21,
-    l: 2622,
-    t: 1735776000000,
-    n: 3582,
-  },
-  {
-    v: 3418,
-    vw: 2651.8897,
-    o: 2658.56,
-    c: 2639.82,
-    h: 2664.8,
-    l: 2636.1,
-    t: 1735862400000,
-    n: 3418,
-  },
-  {
-    v: 139,
-    vw: 2640.9346,
-    o: 2639.82,
-    c: 2640.67,
-    h: 2642.25,
-    l: 2638.85,
-    t: 1736035200000,
-    n: 139,
-  },
-  {
-    v: 3585,
-    vw: 2636.0906,
-    o: 2640.65,
-    c: 2634.43,
-    h: 2648.9,
-    l: 2614.66,
-    t: 1736121600000,
-    n: 3585,
-  },
-  {
-    v: 3567,
-    vw: 2645.6618,
-    o: 2634.6,
-    c: 2649.46,
-    h: 2663.97,
-    l: 2632.1,
-    t: 1736208000000,
-    n: 3567,
-  },
-  {
-    v: 3595,
-    vw: 2654.8648,
-    o: 2648.3,
-    c: 2662.54,
-    h: 2669.76,
-    l: 2644.4,
-    t: 1736294400000,
-    n: 3595,
-  },
-  {
-    v: 3593,
-    vw: 2666.0079,
-    o: 2662.59,
-    c: 2669.95,
-    h: 2677.85,
-    l: 2655.64,
-    t: 1736380800000,
-    n: 3593,
-  },
-  {
-    v: 3418,
-    vw: 2680.7997,
-    o: 2670.08,
-    c: 2688.77,
-    h: 2697.39,
-    l: 2663.8,
-    t: 1736467200000,
-    n: 3418,
-  },
-  {
-    v: 136,
-    vw: 2688.9772,
-    o: 2688.77,
-    c: 2690.64,
-    h: 2690.64,
-    l: 2686.31,
-    t: 1736640000000,
-    n: 136,
-  },
-  {
-    v: 3594,
-    vw: 2675.6646,
-    o: 2690.06,
-    c: 2667.83,
-    h: 2693.12,
-    l: 2656.88,
-    t: 1736726400000,
-    n: 3594,
-  },
-  {
-    v: 3570,
-    vw: 2669.9927,
-    o: 2667.64,
-    c: 2675.21,
-    h: 2677.88,
-    l: 2659.4,
-    t: 1736812800000,
-    n: 3570,
-  },
-  {
-    v: 3586,
-    vw: 2684.1663,
-    o: 2675.52,
-    c: 2694.62,
-    h: 2696.96,
-    l: 2669.2,
-    t: 1736899200000,
-    n: 3586,
-  },
-  {
-    v: 3591,
-    vw: 2706.5976,
-    o: 2694.87,
-    c: 2714.52,
-    h: 2724.4,
-    l: 2690,
-    t: 1736985600000,
-    n: 3591,
-  },
-  {
-    v: 3429,
-    vw: 2710.1377,
-    o: 2714.49,
-    c: 2701.88,
-    h: 2717.2,
-    l: 2698.69,
-    t: 1737072000000,
-    n: 3429,
-  },
-  {
-    v: 128,
-    vw: 2697.2054,
-    o: 2701.88,
-    c: 2696.41,
-    h: 2702.57,
-    l: 2690.93,
-    t: 1737244800000,
-    n: 128,
-  },
-  {
-    v: 3188,
-    vw: 2704.9487,
-    o: 2695.87,
-    c: 2710.18,
-    h: 2713.57,
-    l: 2688.9,
-    t: 1737331200000,
-    n: 3188,
-  },
-  {
-    v: 3578,
-    vw: 2729.5131,
-    o: 2709.69,
-    c: 2744.2,
-    h: 2745.69,
-    l: 2703.18,
-    t: 1737417600000,
-    n: 3578,
-  },
-  {
-    v: 3588,
-    vw: 2753.85,
-    o: 2744.24,
-    c: 2755.28,
-    h: 2763.1,
-    l: 2742.71,
-    t: 1737504000000,
-    n: 3588,
-  },
-  {
-    v: 3576,
-    vw: 2751.3259,
-    o: 2755.76,
-    c: 2754.18,
-    h: 2758.61,
-    l: 2736.09,
-    t: 1737590400000,
-    n: 3576,
-  },
-  {
-    v: 3422,
-    vw: 2773.2384,
-    o: 2754.39,
-    c: 2770.96,
-    h: 2785.44,
-    l: 2754.1,
-    t: 1737676800000,
-    n: 3422,
-  },
-  {
-    v: 136,
-    vw: 2767.204,
-    o: 2771.45,
-    c: 2767.1,
-    h: 2771.45,
-    l: 2765.54,
-    t: 1737849600000,
-    n: 136,
-  },
-  {
-    v: 3582,
-    vw: 2752.7328,
-    o: 2767.03,
-    c: 2742.32,
-    h: 2772.26,
-    l: 2731.16,
-    t: 1737936000000,
-    n: 3582,
-  },
-  {
-    v: 3576,
-    vw: 2748.9441,
-    o: 2742.22,
-    c: 2762.64,
-    h: 2764.78,
-    l: 2734.87,
-    t: 1738022400000,
-    n: 3576,
-  },
-  {
-    v: 3587,
-    vw: 2758.6696,
-    o: 2762.48,
-    c: 2760.01,
-    h: 2765.84,
-    l: 2744.6,
-    t: 1738108800000,
-    n: 3587,
-  },
-  {
-    v: 3618,
-    vw: 2777.453,
-    o: 2760.1,
-    c: 2796,
-    h: 2798.12,
-    l: 2758.3,
-    t: 1738195200000,
-    n: 3618,
-  },
-  {
-    v: 3430,
-    vw: 2799.5255,
-    o: 2796.26,
-    c: 2797.46,
-    h: 2816.82,
-    l: 2791.22,
-    t: 1738281600000,
-    n: 3430,
-  },
-  {
-    v: 129,
-    vw: 2793.5005,
-    o: 2797.25,
-    c: 2792.51,
-    h: 2801.46,
-    l: 2784.67,
-    t: 1738454400000,
-    n: 129,
-  },
-  {
-    v: 3581,
-    vw: 2801.0547,
-    o: 2792.84,
-    c: 2813.34,
-    h: 2829.85,
-    l: 2772.21,
-    t: 1738540800000,
-    n: 3581,
-  },
-  {
-    v: 3596,
-    vw: 2826.8755,
-    o: 2813.44,
-    c: 2841.19,
-    h: 2844.8,
-    l: 2807.22,
-    t: 1738627200000,
-    n: 3596,
-  },
-  {
-    v: 3611,
-    vw: 2859.8082,
-    o: 2868.78,
-    c: 2857.86,
-    h: 2872.85,
-    l: 2835.26,
-    t: 1738800000000,
-    n: 3611,
-  },
-  {
-    v: 3439,
-    vw: 2865.1156,
-    o: 2858.24,
-    c: 2860.09,
-    h: 2886.24,
-    l: 2853.69,
-    t: 1738886400000,
-    n: 3439,
-  },
-  {
-    v: 136,
-    vw: 2865.6671,
-    o: 2860.45,
-    c: 2867.22,
-    h: 2869.93,
-    l: 2858.3,
-    t: 1739059200000,
-    n: 136,
-  },
-  {
-    v: 3607,
-    vw: 2894.4341,
-    o: 2867.41,
-    c: 2917.64,
-    h: 2921.28,
-    l: 2865.1,
-    t: 1739145600000,
-    n: 3607,
-  },
-  {
-    v: 3579,
-    vw: 2908.7223,
-    o: 2917.28,
-    c: 2898.27,
-    h: 2942.18,
-    l: 2882.52,
-    t: 1739232000000,
-    n: 3579,
-  },
-  {
-    v: 3508,
-    vw: 2892.2398,
-    o: 2897.94,
-    c: 2904.5,
-    h: 2908.94,
-    l: 2864.99,
-    t: 1739318400000,
-    n: 3508,
-  },
-  {
-    v: 3548,
-    vw: 2916.7604,
-    o: 2906.15,
-    c: 2930.86,
-    h: 2932.06,
-    l: 2901.4,
-    t: 1739404800000,
-    n: 3548,
-  },
-  {
-    v: 3446,
-    vw: 2917.426,
-    o: 2931.23,
-    c: 2882.14,
-    h: 2939.93,
-    l: 2876.99,
-    t: 1739491200000,
-    n: 3446,
-  },
-  {
-    v: 127,
-    vw: 2884.7846,
-    o: 2882.55,
-    c: 2879.37,
-    h: 2892.97,
-    l: 2878.44,
-    t: 1739664000000,
-    n: 127,
-  },
-  {
-    v: 3220,
-    vw: 2897.915,
-    o: 2879.62,
-    c: 2899.18,
-    h: 2906.2,
-    l: 2879.1,
-    t: 1739750400000,
-    n: 3220,
-  },
-  {
-    v: 3598,
-    vw: 2917.5025,
-    o: 2899.13,
-    c: 2933.76,
-    h: 2936.78,
-    l: 2891.84,
-    t: 1739836800000,
-    n: 3598,
-  },
-  {
-    v: 3582,
-    vw: 2933.5827,
-    o: 2933.74,
-    c: 2935.19,
-    h: 2946.69,
-    l: 2918.8,
-    t: 1739923200000,
-    n: 3582,
-  },
-  {
-    v: 3589,
-    vw: 2942.5578,
-    o: 2935.7,
-    c: 2940.81,
-    h: 2954.71,
-    l: 2924.35,
-    t: 1740009600000,
-    n: 3589,
-  },
-  {
-    v: 3414,
-    vw: 2933.1259,
-    o: 2942.05,
-    c: 2935.49,
-    h: 2949,
-    l: 2917.83,
-    t: 1740096000000,
-    n: 3414,
-  },
-];
+// The aggregates above as bars, dated by the UTC day each one starts on
+export const goldPriceHistory: GoldPriceDataType[] = transformGoldPriceData(
+  lastTwoYearsGoldPriceDataWithHighestAndLowest
+);
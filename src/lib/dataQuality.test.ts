@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { checkPriceData, fixPriceData } from "@/lib/dataQuality";
+import { GoldPriceDataType } from "@/lib/utils";
+import { DAY_MS, isoDateOfTime } from "@/lib/dates";
+
+const bar = (date: string, close: number): GoldPriceDataType => ({
+  time: Date.parse(date),
+  date,
+  dateOnly: true,
+  openingPrice: close,
+  highestPrice: close + 1,
+  lowestPrice: close - 1,
+  currentPrice: close,
+});
+
+// Consecutive weekdays from Monday 1 January 2024, closing at the prices
+const weekdayBars = (closes: number[]) => {
+  const bars: GoldPriceDataType[] = [];
+  for (let time = Date.UTC(2024, 0, 1); bars.length < closes.length; ) {
+    const weekday = new Date(time).getUTCDay();
+    if (weekday !== 0 && weekday !== 6) {
+      bars.push(bar(isoDateOfTime(time), closes[bars.length]));
+    }
+    time += DAY_MS;
+  }
+  return bars;
+};
+
+// Uneven moves of a few dollars around 2000, then a lasting step up to
+// 2400 on the 11th bar
+const noise = [0, 3, -2, 5, 1, -4, 2, 6, -1, 4];
+const levelShift = weekdayBars(
+  Array.from({ length: 20 }, (_, i) => (i < 10 ? 2000 : 2400) + noise[i % 10])
+);
+
+describe("checkPriceData", () => {
+  it("finds nothing wrong with clean bars", () => {
+    const report = checkPriceData(weekdayBars([2000, 2001, 2003, 2002, 2004]));
+    expect(report.issues).toEqual([]);
+    expect(report.affectedBars).toBe(0);
+  });
+
+  it("reports a level shift as one jump", () => {
+    const report = checkPriceData(levelShift);
+    expect(report.issues.map(({ kind, index }) => ({ kind, index }))).toEqual([
+      { kind: "jump", index: 10 },
+    ]);
+  });
+
+  it("reports gaps, duplicates, disorder and bad ranges", () => {
+    const prices = [
+      bar("2024-01-01", 2000),
+      bar("2024-01-04", 2001),
+      bar("2024-01-04", 2002),
+      bar("2024-01-03", 2003),
+      { ...bar("2024-01-05", 2004), highestPrice: 1990 },
+      { ...bar("2024-01-08", 2005), currentPrice: 2010 },
+      bar("Jan 9", 2006),
+    ];
+    const report = checkPriceData(prices);
+    expect(report.issues.map(({ kind, index }) => ({ kind, index }))).toEqual([
+      { kind: "missingDays", index: 1 },
+      { kind: "duplicateDate", index: 2 },
+      { kind: "outOfOrder", index: 3 },
+      { kind: "highBelowLow", index: 4 },
+      { kind: "outsideRange", index: 5 },
+      { kind: "unreadableDate", index: 6 },
+    ]);
+    expect(report.missingDays).toBe(2);
+    expect(report.affectedBars).toBe(5);
+  });
+
+  it("judges jumps in date order whatever order the bars come in", () => {
+    const shuffled = [...levelShift].reverse();
+    const report = checkPriceData(shuffled);
+    const jumps = report.issues.filter((issue) => issue.kind === "jump");
+    expect(jumps.map(({ index, date }) => ({ index, date }))).toEqual([
+      { index: 9, date: levelShift[10].date },
+    ]);
+  });
+});
+
+describe("fixPriceData", () => {
+  it("touches only the bar of a level shift", () => {
+    const dropped = fixPriceData(levelShift, "drop");
+    expect(dropped).toEqual(levelShift.filter((_, i) => i !== 10));
+
+    const filled = fixPriceData(levelShift, "forwardFill");
+    expect(filled[10].currentPrice).toBe(levelShift[9].currentPrice);
+    expect(filled.slice(11)).toEqual(levelShift.slice(11));
+  });
+
+  it("clamps a jump into the band around the previous close", () => {
+    const clamped = fixPriceData(levelShift, "clamp");
+    expect(clamped).toHaveLength(levelShift.length);
+    expect(clamped[10].currentPrice).toBeLessThan(2400);
+    expect(clamped[10].currentPrice).toBeGreaterThan(2000);
+    expect(clamped.slice(11)).toEqual(levelShift.slice(11));
+  });
+
+  it("fixes shuffled and duplicated bars into date order", () => {
+    const messy = [...levelShift.slice(0, 5)].reverse();
+    messy.splice(3, 0, { ...levelShift[2], currentPrice: 2100 });
+    const fixed = fixPriceData(messy, "drop");
+    expect(fixed).toEqual(levelShift.slice(0, 5));
+    expect(checkPriceData(fixed).issues).toEqual([]);
+  });
+
+  it("forward-fills missing weekdays with the previous close", () => {
+    const prices = [bar("2024-01-05", 2000), bar("2024-01-10", 2001)];
+    const filled = fixPriceData(prices, "forwardFill");
+    expect(filled.map(({ date }) => date)).toEqual([
+      "2024-01-05",
+      "2024-01-08",
+      "2024-01-09",
+      "2024-01-10",
+    ]);
+    expect(filled[1]).toMatchObject({ currentPrice: 2000, dateOnly: true });
+  });
+});
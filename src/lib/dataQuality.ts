@@ -0,0 +1,312 @@
+import { GoldPriceDataType } from "@/lib/utils";
+import { DAY_MS, isoDateOfTime, timeOfIsoDate } from "@/lib/dates";
+
+export type DataIssueKind =
+  | "unreadableDate"
+  | "duplicateDate"
+  | "outOfOrder"
+  | "missingDays"
+  | "highBelowLow"
+  | "outsideRange"
+  | "jump";
+
+export const DATA_ISSUE_LABELS: Record<DataIssueKind, string> = {
+  unreadableDate: "Unreadable dates",
+  duplicateDate: "Duplicate dates",
+  outOfOrder: "Dates out of order",
+  missingDays: "Gaps with missing weekdays",
+  highBelowLow: "High below low",
+  outsideRange: "Open or close outside high-low",
+  jump: "Suspicious jumps",
+};
+
+export type DataIssue = {
+  kind: DataIssueKind;
+  // Position of the bar in the checked prices; for a gap, the bar after it
+  index: number;
+  date: string;
+  detail: string;
+};
+
+export type DataQualityConfig = {
+  // Close-to-close moves further than this many standard deviations from
+  // the median move are reported as jumps
+  jumpStdDevs: number;
+};
+
+export const DEFAULT_DATA_QUALITY_CONFIG: DataQualityConfig = {
+  jumpStdDevs: 8,
+};
+
+export type DataQualityReport = {
+  issues: DataIssue[];
+  counts: Record<DataIssueKind, number>;
+  // Bars with at least one issue other than a gap before them
+  affectedBars: number;
+  // Weekdays with no bar between the first and last date
+  missingDays: number;
+};
+
+// How fixPriceData treats bad bars. Every fix reads the bars in date order
+// and keeps the first of each date; bars with unreadable dates are dropped.
+export type DataFix = "drop" | "forwardFill" | "clamp";
+
+export const DATA_FIXES: Record<DataFix, string> = {
+  drop: "Drop bad bars",
+  forwardFill: "Forward-fill bad bars and gaps",
+  clamp: "Clamp bad prices",
+};
+
+// Days since the epoch of the bar's date, NaN when it is not YYYY-MM-DD
+const dayOf = (date: string) => timeOfIsoDate(date) / DAY_MS;
+
+const isWeekday = (day: number) => {
+  const weekday = new Date(day * DAY_MS).getUTCDay();
+  return weekday !== 0 && weekday !== 6;
+};
+
+// Weekdays strictly between the two days
+const weekdaysBetween = (from: number, to: number) => {
+  let count = 0;
+  for (let day = from + 1; day < to; day++) {
+    if (isWeekday(day)) count++;
+  }
+  return count;
+};
+
+const formatDay = (day: number) => isoDateOfTime(day * DAY_MS);
+
+const hasHighBelowLow = (bar: GoldPriceDataType) =>
+  bar.highestPrice < bar.lowestPrice;
+
+const hasOpenCloseOutside = (bar: GoldPriceDataType) =>
+  Math.max(bar.openingPrice, bar.currentPrice) > bar.highestPrice ||
+  Math.min(bar.openingPrice, bar.currentPrice) < bar.lowestPrice;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Centre and spread of the log close-to-close moves. The median and the
+// median absolute deviation, scaled to match a normal standard deviation,
+// so the jumps being looked for do not widen the band that finds them.
+const moveStats = (prices: GoldPriceDataType[]) => {
+  const moves: number[] = [];
+  for (let i = 1; i < prices.length; i++) {
+    const move = Math.log(prices[i].currentPrice / prices[i - 1].currentPrice);
+    if (Number.isFinite(move)) moves.push(move);
+  }
+  if (moves.length === 0) return { centre: 0, stdDev: 0 };
+  const centre = median(moves);
+  return {
+    centre,
+    stdDev: 1.4826 * median(moves.map((move) => Math.abs(move - centre))),
+  };
+};
+
+// The closes a move from previousClose can reach without being a jump
+const jumpBand = (
+  previousClose: number,
+  stats: { centre: number; stdDev: number },
+  config: DataQualityConfig
+) => ({
+  min:
+    previousClose * Math.exp(stats.centre - config.jumpStdDevs * stats.stdDev),
+  max:
+    previousClose * Math.exp(stats.centre + config.jumpStdDevs * stats.stdDev),
+});
+
+const isJump = (
+  previousClose: number,
+  close: number,
+  stats: { centre: number; stdDev: number },
+  config: DataQualityConfig
+) => {
+  if (stats.stdDev === 0) return false;
+  const band = jumpBand(previousClose, stats, config);
+  return close < band.min || close > band.max;
+};
+
+type OrderedBar = { index: number; day: number; bar: GoldPriceDataType };
+
+// The one ordering both the check and the fixes judge jumps on: bars in
+// date order, the first bar of each date, tagged with its position in the
+// input. Bars with unreadable dates are left out.
+const orderBars = (prices: GoldPriceDataType[]): OrderedBar[] => {
+  const byDay = new Map<number, OrderedBar>();
+  prices.forEach((bar, index) => {
+    const day = dayOf(bar.date);
+    if (!Number.isNaN(day) && !byDay.has(day)) {
+      byDay.set(day, { index, day, bar });
+    }
+  });
+  return [...byDay.values()].sort((a, b) => a.day - b.day);
+};
+
+// Everything that looks wrong with the bars, in the order of the bars
+export const checkPriceData = (
+  prices: GoldPriceDataType[],
+  config: DataQualityConfig = DEFAULT_DATA_QUALITY_CONFIG
+): DataQualityReport => {
+  const issues: DataIssue[] = [];
+  const report = (kind: DataIssueKind, index: number, detail: string): void => {
+    issues.push({ kind, index, date: prices[index].date, detail });
+  };
+
+  const seen = new Set<number>();
+  let lastDay = -Infinity;
+  let missingDays = 0;
+  prices.forEach((bar, i) => {
+    const day = dayOf(bar.date);
+    if (Number.isNaN(day)) {
+      report("unreadableDate", i, `"${bar.date}" is not a date`);
+    } else if (seen.has(day)) {
+      report("duplicateDate", i, `${bar.date} appears more than once`);
+    } else if (day < lastDay) {
+      report("outOfOrder", i, `${bar.date} comes after ${formatDay(lastDay)}`);
+    } else if (lastDay > -Infinity) {
+      const missing = weekdaysBetween(lastDay, day);
+      if (missing > 0) {
+        missingDays += missing;
+        report(
+          "missingDays",
+          i,
+          `${missing} weekday${
+            missing === 1 ? "" : "s"
+          } missing since ${formatDay(lastDay)}`
+        );
+      }
+    }
+    if (!Number.isNaN(day)) {
+      seen.add(day);
+      lastDay = Math.max(lastDay, day);
+    }
+
+    if (hasHighBelowLow(bar)) {
+      report(
+        "highBelowLow",
+        i,
+        `high ${bar.highestPrice} is below low ${bar.lowestPrice}`
+      );
+    } else if (hasOpenCloseOutside(bar)) {
+      report(
+        "outsideRange",
+        i,
+        `open ${bar.openingPrice} or close ${bar.currentPrice} is outside ${bar.lowestPrice} – ${bar.highestPrice}`
+      );
+    }
+  });
+
+  // Moves are measured in date order, as fixPriceData repairs them
+  const ordered = orderBars(prices);
+  const stats = moveStats(ordered.map(({ bar }) => bar));
+  ordered.forEach(({ index, bar }, i) => {
+    const previous = ordered[i - 1]?.bar;
+    if (
+      previous &&
+      isJump(previous.currentPrice, bar.currentPrice, stats, config)
+    ) {
+      const change = (bar.currentPrice / previous.currentPrice - 1) * 100;
+      report(
+        "jump",
+        index,
+        `close moved ${change.toFixed(2)}% from ${previous.currentPrice} on ${
+          previous.date
+        }`
+      );
+    }
+  });
+  issues.sort((a, b) => a.index - b.index);
+
+  const counts = Object.fromEntries(
+    Object.keys(DATA_ISSUE_LABELS).map((kind) => [
+      kind,
+      issues.filter((issue) => issue.kind === kind).length,
+    ])
+  ) as Record<DataIssueKind, number>;
+  const affectedBars = new Set(
+    issues
+      .filter((issue) => issue.kind !== "missingDays")
+      .map((issue) => issue.index)
+  ).size;
+  return { issues, counts, affectedBars, missingDays };
+};
+
+// A bar that repeats the previous bar's close, for filling in bad or
+// missing bars
+const flatBar = (
+  time: number,
+  previous: GoldPriceDataType
+): GoldPriceDataType => ({
+  time,
+  date: isoDateOfTime(time),
+  ...(previous.dateOnly && { dateOnly: true as const }),
+  openingPrice: previous.currentPrice,
+  highestPrice: previous.currentPrice,
+  lowestPrice: previous.currentPrice,
+  currentPrice: previous.currentPrice,
+});
+
+// Repairs what checkPriceData reports. Bars with a high below the low, an
+// open or close outside the high-low range, or a jump are dropped, replaced
+// by the previous close, or clamped: their high and low widened to hold the
+// open and close, and all four prices kept within the jump band. Jumps are
+// judged exactly as checkPriceData judges them, against the bar before in
+// date order and not against its repaired neighbour, so a genuine level
+// shift touches one bar and not every bar after it. Only forward-fill also fills missing weekdays.
+export const fixPriceData = (
+  prices: GoldPriceDataType[],
+  fix: DataFix,
+  config: DataQualityConfig = DEFAULT_DATA_QUALITY_CONFIG
+): GoldPriceDataType[] => {
+  const ordered = orderBars(prices);
+  const stats = moveStats(ordered.map(({ bar }) => bar));
+
+  const fixed: GoldPriceDataType[] = [];
+  let lastDay = -Infinity;
+  ordered.forEach(({ day, bar }, i) => {
+    const previous = fixed[fixed.length - 1];
+    const original = ordered[i - 1]?.bar;
+    if (fix === "forwardFill" && previous) {
+      for (let gap = lastDay + 1; gap < day; gap++) {
+        if (isWeekday(gap)) {
+          fixed.push(flatBar(gap * DAY_MS, previous));
+        }
+      }
+    }
+    lastDay = day;
+
+    const bad =
+      hasHighBelowLow(bar) ||
+      hasOpenCloseOutside(bar) ||
+      (original !== undefined &&
+        isJump(original.currentPrice, bar.currentPrice, stats, config));
+    if (!bad) {
+      fixed.push(bar);
+    } else if (fix === "forwardFill") {
+      if (previous) fixed.push(flatBar(bar.time, previous));
+    } else if (fix === "clamp") {
+      const band = original
+        ? jumpBand(original.currentPrice, stats, config)
+        : { min: 0, max: Infinity };
+      const clamp = (price: number) =>
+        Math.min(Math.max(price, band.min), band.max);
+      const open = clamp(bar.openingPrice);
+      const close = clamp(bar.currentPrice);
+      const high = clamp(Math.max(bar.highestPrice, bar.lowestPrice));
+      const low = clamp(Math.min(bar.highestPrice, bar.lowestPrice));
+      fixed.push({
+        ...bar,
+        openingPrice: open,
+        highestPrice: Math.max(high, open, close),
+        lowestPrice: Math.min(low, open, close),
+        currentPrice: close,
+      });
+    }
+  });
+  return fixed;
+};
@@ -0,0 +1,56 @@
+// Bars carry the UTC time they start at and the ISO (YYYY-MM-DD) date of
+// that time. Nothing here depends on the viewer's locale or timezone.
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+export const HOUR_MS = 60 * 60 * 1000;
+
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+// YYYY-MM-DD of the UTC day the time falls on
+export const isoDateOfTime = (time: number): string =>
+  new Date(time).toISOString().slice(0, 10);
+
+// Midnight UTC of a YYYY-MM-DD date, NaN when it is not a real date
+export const timeOfIsoDate = (date: string): number => {
+  const match = date.match(ISO_DATE_PATTERN);
+  if (!match) return NaN;
+  const [year, month, day] = match.slice(1).map(Number);
+  const time = Date.UTC(year, month - 1, day);
+  // Rejects e.g. 2024-02-30, which Date.UTC would roll into March
+  return isoDateOfTime(time) === date ? time : NaN;
+};
+
+// Whole calendar days from one YYYY-MM-DD date to another
+export const daysBetween = (start: string, end: string): number =>
+  Math.round((timeOfIsoDate(end) - timeOfIsoDate(start)) / DAY_MS);
+
+const dayFormatters = new Map<string, Intl.DateTimeFormat>();
+
+// The YYYY-MM-DD date in an IANA timezone, e.g. the exchange's trading day
+export const dateInTimeZone = (time: number, timeZone: string): string => {
+  let formatter = dayFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+    });
+    dayFormatters.set(timeZone, formatter);
+  }
+  const parts = formatter.formatToParts(time);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value;
+  return `${part("year")}-${part("month")}-${part("day")}`;
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  // Intl falls back to the local timezone when it is left out
+  if (typeof timeZone !== "string") return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { runBacktest } from "@/lib/engine/backtest";
+import { DEFAULT_SIMULATION_PARAMS } from "@/lib/engine/params";
+import { SimulationParams } from "@/lib/engine/types";
+import { GoldPriceDataType } from "@/lib/utils";
+import { isoDateOfTime } from "@/lib/dates";
+
+const bar = (
+  time: number,
+  open: number,
+  close: number,
+  dateOnly: boolean
+): GoldPriceDataType => ({
+  time,
+  date: isoDateOfTime(time),
+  ...(dateOnly && { dateOnly: true as const }),
+  openingPrice: open,
+  highestPrice: Math.max(open, close),
+  lowestPrice: Math.min(open, close),
+  currentPrice: close,
+});
+
+// Momentum enters on the second bar, the third falls far enough to trip a
+// $50 daily loss limit and the position is closed at the end of the series
+const dailyBars = (dateOnly: boolean) =>
+  [
+    ["2024-01-01", 2000, 2000],
+    ["2024-01-02", 2010, 2010],
+    ["2024-01-03", 2010, 1995],
+    ["2024-01-04", 1995, 1995],
+  ].map(([date, open, close]) =>
+    bar(Date.parse(date as string), open as number, close as number, dateOnly)
+  );
+
+const paramsIn = (exchangeTimeZone: string): SimulationParams => ({
+  ...DEFAULT_SIMULATION_PARAMS,
+  risk: { ...DEFAULT_SIMULATION_PARAMS.risk, maxDailyLoss: 50 },
+  exchangeTimeZone,
+});
+
+describe("runBacktest day counting", () => {
+  it("counts a date-only bar on its own date in any timezone", () => {
+    const utc = runBacktest(dailyBars(true), paramsIn("UTC"));
+    const newYork = runBacktest(dailyBars(true), paramsIn("America/New_York"));
+
+    expect(utc.circuitBreakerDates).toEqual(["2024-01-03"]);
+    expect(newYork.circuitBreakerDates).toEqual(["2024-01-03"]);
+    expect(newYork.tradeHistory.map((trade) => trade.daysHeld)).toEqual([2]);
+    expect(newYork.totalFees).toBeCloseTo(utc.totalFees);
+  });
+
+  it("counts a bar at an instant on its day at the exchange", () => {
+    // Midnight UTC is still the evening before in New York
+    const newYork = runBacktest(dailyBars(false), paramsIn("America/New_York"));
+    expect(newYork.circuitBreakerDates).toEqual(["2024-01-02"]);
+  });
+
+  it("keeps intraday bars after midnight UTC on the exchange's day", () => {
+    // 14:00 to 22:00 on 2 January in New York, the last bar past midnight UTC
+    const prices = [
+      ["2024-01-02T19:00:00Z", 2000, 2000],
+      ["2024-01-02T23:00:00Z", 2010, 2010],
+      ["2024-01-03T03:00:00Z", 2010, 2012],
+    ].map(([time, open, close]) =>
+      bar(Date.parse(time as string), open as number, close as number, false)
+    );
+
+    const utc = runBacktest(prices, paramsIn("UTC"));
+    const newYork = runBacktest(prices, paramsIn("America/New_York"));
+
+    expect(utc.tradeHistory.map((trade) => trade.daysHeld)).toEqual([1]);
+    expect(utc.totalFees).toBeGreaterThan(0);
+    expect(newYork.tradeHistory.map((trade) => trade.daysHeld)).toEqual([0]);
+    expect(newYork.totalFees).toBe(0);
+  });
+});
@@ -0,0 +1,478 @@
+import { GoldPriceDataType } from "@/lib/utils";
+import { dateInTimeZone } from "@/lib/dates";
+import {
+  ENTRY_STRATEGIES,
+  resolveStrategyParams,
+} from "@/lib/engine/strategies";
+import { POSITION_SIZING_MODELS } from "@/lib/engine/sizing";
+import { volatilityScale } from "@/lib/engine/volatility";
+import {
+  calculateStopLossPrice,
+  calculateTakeProfitPrice,
+  isStopLossTriggered,
+  isTakeProfitTriggered,
+} from "@/lib/engine/stops";
+import { emptyRejectionCounts, evaluateEntryRisk } from "@/lib/engine/risk";
+import {
+  adverseBarPrice,
+  calculateEquity,
+  calculateMarginLevel,
+  calculatePositionPnl,
+} from "@/lib/engine/positions";
+import {
+  calculateDaysHeld,
+  calculateDrawdown,
+  calculateHoursHeld,
+} from "@/lib/engine/metrics";
+import {
+  ActivePosition,
+  EquityPoint,
+  ExitReason,
+  OpenPosition,
+  RiskVetoEvent,
+  SimulationParams,
+  SimulationResults,
+  TradeData,
+  TradeDirection,
+} from "@/lib/engine/types";
+
+/**
+ * Runs the strategy over a price series, entering on the signals of the
+ * selected entry strategy and exiting on a trailing or fixed stop loss, the
+ * take profit target or the maximum holding period, with an optional daily
+ * loss circuit breaker and margin liquidation.
+ *
+ * Pure and deterministic: the same prices and params always produce the same
+ * results, so it can be called from the UI, scripts, workers or tests.
+ * Params are expected to have passed `validateParams`.
+ */
+export const runBacktest = (
+  prices: GoldPriceDataType[],
+  params: SimulationParams
+): SimulationResults => {
+  let currentCapital = params.investmentCapital;
+  let totalProfitLoss = 0;
+  let tradesExecuted = 0;
+  let totalFees = 0;
+  let consecutiveLosses = 0;
+  let maxConsecutiveLosses = 0;
+  let skippedTrades = 0;
+  const rejectedSignals = emptyRejectionCounts();
+
+  const riskEvents: RiskVetoEvent[] = [];
+  const circuitBreakerDates: string[] = [];
+  const equityCurve: EquityPoint[] = [];
+  const tradeHistory: TradeData[] = [];
+  const openPositions: OpenPosition[] = [];
+
+  // Array to track all open positions
+  const activePositions: ActivePosition[] = [];
+
+  const strategy = ENTRY_STRATEGIES[params.entryStrategy];
+  const strategyParams = resolveStrategyParams(strategy, params.strategyParams);
+  const sizingModel = POSITION_SIZING_MODELS[params.sizingModel];
+  const sizingParams = resolveStrategyParams(sizingModel, params.sizingParams);
+  const allowLong = params.tradeDirection !== "short";
+  const allowShort = params.tradeDirection !== "long";
+  // Each bar's calendar day at the exchange, where days begin and end for
+  // the daily fee, days held and the daily loss limit. A date-only bar's
+  // date already is that day: its midnight-UTC time would fall on the day
+  // before in a timezone west of UTC.
+  const days = prices.map((bar) =>
+    bar.dateOnly ? bar.date : dateInTimeZone(bar.time, params.exchangeTimeZone)
+  );
+  const maxHoldingHours =
+    params.maxHoldingUnit === "days"
+      ? params.maxHoldingPeriod * 24
+      : params.maxHoldingPeriod;
+
+  // Returns the position's margin plus P&L to capital and records the trade
+  const closePosition = (
+    position: ActivePosition,
+    exitPrice: number,
+    exitIndex: number,
+    exitReason: ExitReason
+  ): number => {
+    // Calculate P&L - keep this separate from fees
+    const pnl = calculatePositionPnl(position, exitPrice);
+
+    // Add back the base amount plus any profit (or minus any loss)
+    const amountToReturn = position.baseAmount + pnl;
+    currentCapital += amountToReturn;
+    totalProfitLoss += pnl; // Track pure P&L excluding fees
+
+    // Record trade - keep P&L and fees separate
+    tradeHistory.push({
+      direction: position.direction,
+      entry: position.entryDate,
+      exit: prices[exitIndex].date,
+      entryPrice: position.entryPrice,
+      exitPrice: exitPrice,
+      highestPrice: position.highestPrice,
+      lowestPrice: position.lowestPrice,
+      baseAmount: position.baseAmount,
+      leveragedAmount: position.leveragedAmount,
+      pnl: pnl, // Store pure P&L without mixing with fees
+      fees: position.accumulatedFees, // Store fees separately
+      exitReason,
+      sizeRationale: position.sizeRationale,
+      daysHeld: calculateDaysHeld(position.entryDay, days[exitIndex]),
+      remainingCapital: currentCapital,
+      capitalAtEntry: position.remainingCapitalAtEntry,
+    });
+
+    return pnl;
+  };
+
+  // Track consecutive losses based on pure P&L
+  const recordTradeResult = (pnl: number) => {
+    if (pnl < 0) {
+      consecutiveLosses++;
+      maxConsecutiveLosses = Math.max(maxConsecutiveLosses, consecutiveLosses);
+    } else {
+      consecutiveLosses = 0;
+    }
+  };
+
+  let currentDay: string | null = null;
+  // Equity at the end of the previous day and whether the breaker has
+  // tripped today
+  let dayStartEquity = params.investmentCapital;
+  let circuitBreakerTripped = false;
+
+  // Loop through price history
+  for (let index = 1; index < prices.length; index++) {
+    const currentData = prices[index];
+    const {
+      time,
+      date,
+      openingPrice,
+      highestPrice,
+      lowestPrice,
+      currentPrice,
+    } = currentData;
+    const day = days[index];
+
+    if (currentCapital <= 0 && activePositions.length === 0) break; // Stop if no capital and no positions
+
+    // New day processing for fees
+    if (currentDay !== day) {
+      currentDay = day;
+      if (equityCurve.length > 0) {
+        dayStartEquity = equityCurve[equityCurve.length - 1].equity;
+      }
+      circuitBreakerTripped = false;
+
+      // Updated fee deduction logic in the daily processing loop
+      for (const position of activePositions) {
+        if (position.lastFeeDay !== day) {
+          const dailyFee = (params.dailyFeePercent / 100) * position.baseAmount;
+
+          if (currentCapital >= dailyFee) {
+            currentCapital -= dailyFee;
+            totalFees += dailyFee;
+            position.accumulatedFees += dailyFee;
+          } else {
+            // Losses past a position's margin can leave capital negative,
+            // in which case there is nothing left to pay with
+            const feePaid = Math.max(currentCapital, 0);
+            totalFees += feePaid;
+            position.accumulatedFees += feePaid;
+            currentCapital -= feePaid;
+            break; // Stop processing further positions once capital is gone
+          }
+          position.lastFeeDay = day;
+        }
+      }
+    }
+
+    // Process existing positions on EVERY day
+    for (let i = activePositions.length - 1; i >= 0; i--) {
+      const position = activePositions[i];
+      const isLong = position.direction === "long";
+
+      // Update the best price reached if a new extreme is made
+      if (highestPrice > position.highestPrice) {
+        position.highestPrice = highestPrice;
+      }
+      if (lowestPrice < position.lowestPrice) {
+        position.lowestPrice = lowestPrice;
+      }
+
+      // Longs trail the highest price and are stopped on the day's low,
+      // shorts trail the lowest price and are stopped on the day's high.
+      // A fixed stop measures from the entry price instead.
+      const stopReferencePrice = !params.useTrailingStop
+        ? position.entryPrice
+        : isLong
+        ? position.highestPrice
+        : position.lowestPrice;
+      const stopLossTriggered = isStopLossTriggered(
+        isLong ? lowestPrice : highestPrice,
+        stopReferencePrice,
+        position.leveragedAmount,
+        position.stopLossAmount,
+        position.direction
+      );
+
+      // When both levels are inside the day's range we cannot know which was
+      // hit first, so the stop wins to stay conservative
+      let exit: { price: number; reason: ExitReason } | null = null;
+      if (stopLossTriggered) {
+        // Use the appropriate exit price based on trigger reason
+        exit = {
+          price: calculateStopLossPrice(
+            stopReferencePrice,
+            position.leveragedAmount,
+            position.stopLossAmount,
+            position.direction
+          ),
+          reason: params.useTrailingStop ? "trailing stop" : "fixed stop",
+        };
+      } else if (
+        position.takeProfitPrice !== null &&
+        isTakeProfitTriggered(
+          currentData,
+          position.takeProfitPrice,
+          position.direction
+        )
+      ) {
+        exit = { price: position.takeProfitPrice, reason: "take profit" };
+      } else if (
+        maxHoldingHours > 0 &&
+        calculateHoursHeld(position.entryTime, time) > maxHoldingHours
+      ) {
+        // Held past the limit, close at the end of the bar
+        exit = { price: currentPrice, reason: "max holding period" };
+      }
+
+      if (exit) {
+        recordTradeResult(
+          closePosition(position, exit.price, index, exit.reason)
+        );
+
+        // Remove the position
+        activePositions.splice(i, 1);
+      }
+    }
+
+    // Margin check on the positions that survived their stops, which rest on
+    // the book and so fill first. When the bar's adverse prices push the
+    // margin level below maintenance, the biggest losers are liquidated at
+    // those prices until the level recovers.
+    const marginLevel = calculateMarginLevel(
+      currentCapital,
+      activePositions,
+      currentData
+    );
+    if (
+      params.risk.maintenanceMarginPercent > 0 &&
+      marginLevel !== null &&
+      marginLevel < params.risk.maintenanceMarginPercent
+    ) {
+      const worstPnl = (position: ActivePosition) =>
+        calculatePositionPnl(position, adverseBarPrice(position, currentData));
+
+      while (activePositions.length > 0) {
+        const level = calculateMarginLevel(
+          currentCapital,
+          activePositions,
+          currentData
+        );
+        if (level === null || level >= params.risk.maintenanceMarginPercent)
+          break;
+
+        const worstIndex = activePositions.reduce(
+          (worst, position, i) =>
+            worstPnl(position) < worstPnl(activePositions[worst]) ? i : worst,
+          0
+        );
+        const [position] = activePositions.splice(worstIndex, 1);
+        recordTradeResult(
+          closePosition(
+            position,
+            adverseBarPrice(position, currentData),
+            index,
+            "liquidated"
+          )
+        );
+      }
+    }
+
+    // Daily loss circuit breaker: the day's realized plus unrealized loss,
+    // with open positions marked at the bar's close. Tripping also blocks an
+    // entry on this bar, which errs on the side of trading less.
+    if (
+      params.risk.maxDailyLoss > 0 &&
+      !circuitBreakerTripped &&
+      dayStartEquity -
+        calculateEquity(currentCapital, activePositions, currentPrice) >=
+        params.risk.maxDailyLoss
+    ) {
+      circuitBreakerTripped = true;
+      circuitBreakerDates.push(day);
+
+      if (params.risk.closeOnDailyLoss) {
+        for (const position of activePositions) {
+          recordTradeResult(
+            closePosition(position, currentPrice, index, "daily loss limit")
+          );
+        }
+        activePositions.length = 0;
+      }
+    }
+
+    // Entries on this bar use a threshold and stop scaled by the volatility
+    // as of the bar before; open positions keep the stop they entered with
+    const scale = volatilityScale(prices, index, params.volatilityAdjustment);
+    const signalContext = {
+      prices,
+      index,
+      threshold: params.minPriceMovement * scale,
+    };
+    let signal: TradeDirection | null = null;
+    if (allowLong && strategy.shouldEnter(signalContext, strategyParams)) {
+      signal = "long";
+    } else if (
+      allowShort &&
+      strategy.shouldEnterShort(signalContext, strategyParams)
+    ) {
+      signal = "short";
+    }
+
+    if (signal) {
+      const entryEquity = calculateEquity(
+        currentCapital,
+        activePositions,
+        openingPrice
+      );
+      const sizing = sizingModel.size(
+        {
+          prices,
+          index,
+          capital: currentCapital,
+          equity: entryEquity,
+          tradeHistory,
+          stopLossDollar: params.stopLossDollar * scale,
+          params,
+        },
+        sizingParams
+      );
+      const baseAmount = Math.min(
+        Math.max(sizing.baseAmount, 0),
+        currentCapital
+      );
+      const leveragedAmount = baseAmount * params.leverage;
+
+      // Every entry passes the risk policy first
+      const veto = evaluateEntryRisk(params.risk, {
+        capital: currentCapital,
+        equity: entryEquity,
+        positions: activePositions,
+        candidate: { baseAmount, leveragedAmount },
+        dailyLoss:
+          dayStartEquity -
+          calculateEquity(currentCapital, activePositions, currentPrice),
+        circuitBreakerTripped,
+      });
+
+      if (veto) {
+        riskEvents.push({ date, direction: signal, ...veto });
+        if (veto.reason === "insufficient capital") {
+          // Count trades we would have taken if we had enough capital
+          skippedTrades++;
+        } else {
+          rejectedSignals[veto.reason]++;
+        }
+      } else if (baseAmount >= 1) {
+        activePositions.push({
+          direction: signal,
+          entryPrice: openingPrice,
+          entryDate: date,
+          entryTime: time,
+          entryDay: day,
+          // Use the day's extremes instead of just the opening price
+          highestPrice: highestPrice,
+          lowestPrice: lowestPrice,
+          baseAmount,
+          leveragedAmount,
+          takeProfitPrice: calculateTakeProfitPrice(
+            openingPrice,
+            leveragedAmount,
+            params.takeProfitType,
+            params.takeProfitValue,
+            signal
+          ),
+          stopLossAmount: sizing.stopLossAmount,
+          sizeRationale: sizing.rationale,
+          accumulatedFees: 0,
+          lastFeeDay: day,
+          remainingCapitalAtEntry: currentCapital, // Track capital at entry
+        });
+
+        currentCapital -= baseAmount; // Deduct base amount from current capital
+        tradesExecuted++;
+      }
+    }
+
+    // Equity curve calculation
+    equityCurve.push({
+      date,
+      equity: calculateEquity(currentCapital, activePositions, currentPrice),
+      marginLevel,
+    });
+  }
+
+  // Close any remaining open positions at the end of simulation
+  if (prices.length > 0) {
+    const lastPrice = prices[prices.length - 1].currentPrice;
+
+    activePositions.forEach((position) => {
+      const pnl = closePosition(
+        position,
+        lastPrice,
+        prices.length - 1,
+        "end of data"
+      );
+
+      // For reference only - these positions are closed at the end
+      openPositions.push({
+        direction: position.direction,
+        entryDate: position.entryDate,
+        entryPrice: position.entryPrice,
+        currentPrice: lastPrice,
+        highestPrice: position.highestPrice,
+        lowestPrice: position.lowestPrice,
+        baseAmount: position.baseAmount,
+        leveragedAmount: position.leveragedAmount,
+        unrealizedPnl: pnl, // Pure unrealized P&L
+        accumulatedFees: position.accumulatedFees, // Keep fees separate
+        capitalAtEntry: position.remainingCapitalAtEntry,
+      });
+    });
+  }
+
+  // Calculate final metrics
+  const successRate =
+    tradeHistory.length > 0
+      ? tradeHistory.filter((t) => t.pnl > 0).length / tradeHistory.length
+      : 0;
+
+  return {
+    finalCapital: currentCapital,
+    totalProfitLoss: totalProfitLoss,
+    totalTrades: tradesExecuted,
+    totalFees: totalFees,
+    equityCurve: equityCurve,
+    tradeHistory: tradeHistory,
+    successRate: successRate,
+    maxDrawdown: calculateDrawdown(equityCurve),
+    maxConsecutiveLosses: maxConsecutiveLosses,
+    avgProfitPerTrade: totalProfitLoss / (tradesExecuted || 1),
+    openPositions: openPositions,
+    skippedTrades: skippedTrades,
+    rejectedSignals: rejectedSignals,
+    riskEvents: riskEvents,
+    circuitBreakerDates: circuitBreakerDates,
+  };
+};
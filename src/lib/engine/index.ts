@@ -0,0 +1,147 @@
+export { runBacktest } from "@/lib/engine/backtest";
+export {
+  DEFAULT_SIMULATION_PARAMS,
+  validateParams,
+  withDefaultParams,
+} from "@/lib/engine/params";
+export {
+  shouldOpenPosition,
+  shouldOpenShortPosition,
+} from "@/lib/engine/signals";
+export {
+  ENTRY_STRATEGIES,
+  isEntryStrategyId,
+  resolveStrategyParams,
+} from "@/lib/engine/strategies";
+export type {
+  EntrySignalContext,
+  EntryStrategy,
+  EntryStrategyId,
+  StrategyParamField,
+} from "@/lib/engine/strategies";
+export {
+  isPositionSizingModelId,
+  POSITION_SIZING_MODELS,
+} from "@/lib/engine/sizing";
+export type {
+  PositionSizingModel,
+  PositionSizingModelId,
+  SizingContext,
+  SizingDecision,
+} from "@/lib/engine/sizing";
+export { volatilityPercent, volatilityScale } from "@/lib/engine/volatility";
+export {
+  calculateStopLossPrice,
+  calculateTakeProfitPrice,
+  isStopLossTriggered,
+  isTakeProfitTriggered,
+} from "@/lib/engine/stops";
+export {
+  DEFAULT_RISK_POLICY,
+  emptyRejectionCounts,
+  evaluateEntryRisk,
+  SIGNAL_REJECTION_REASONS,
+  validateRiskPolicy,
+} from "@/lib/engine/risk";
+export type { EntryRiskContext, RiskVeto } from "@/lib/engine/risk";
+export {
+  adverseBarPrice,
+  calculateEquity,
+  calculateMarginLevel,
+  calculatePositionPnl,
+} from "@/lib/engine/positions";
+export {
+  calculateAnnualizedReturn,
+  calculateCalmarRatio,
+  calculateDaysHeld,
+  calculateDrawdown,
+  calculateHoursHeld,
+  calculateProfitFactor,
+  calculateSharpeRatio,
+  summarizeExitReasons,
+} from "@/lib/engine/metrics";
+export {
+  buildHeatmap,
+  compareScores,
+  countCombinations,
+  MAX_GRID_COMBINATIONS,
+  OPTIMIZATION_METRICS,
+  OPTIMIZATION_OBJECTIVES,
+  rangeValues,
+  runGridSearch,
+  summarizeRun,
+  sweepCombinations,
+  sweepRangeError,
+  SWEEP_PARAMS,
+} from "@/lib/engine/optimizer";
+export type {
+  GridSearchResults,
+  HeatmapCell,
+  OptimizationMetric,
+  OptimizationObjective,
+  OptimizationRun,
+  SweepParamKey,
+  SweepRange,
+  SweepRanges,
+} from "@/lib/engine/optimizer";
+export { runWalkForward } from "@/lib/engine/walkForward";
+export {
+  blockBootstrapPrices,
+  DEFAULT_MONTE_CARLO_CONFIG,
+  MAX_MONTE_CARLO_PATHS,
+  MONTE_CARLO_METHODS,
+  percentile,
+  runMonteCarlo,
+} from "@/lib/engine/monteCarlo";
+export type {
+  DrawdownBucket,
+  FanPoint,
+  MonteCarloConfig,
+  MonteCarloMethod,
+  MonteCarloResults,
+} from "@/lib/engine/monteCarlo";
+export { createRandom, gaussian, randomInt } from "@/lib/engine/random";
+export { applyPriceBand, runScenarios } from "@/lib/engine/scenarios";
+export type {
+  PricePoint,
+  PriceScenario,
+  PriceScenarioId,
+  ScenarioRun,
+} from "@/lib/engine/scenarios";
+export {
+  DEFAULT_SYNTHETIC_SERIES_CONFIG,
+  generateSyntheticSeries,
+  isSyntheticGeneratorId,
+  MAX_SYNTHETIC_BARS,
+  SYNTHETIC_GENERATORS,
+  validateSyntheticSeriesConfig,
+} from "@/lib/engine/synthetic";
+export type {
+  SyntheticGenerator,
+  SyntheticGeneratorId,
+  SyntheticSeriesConfig,
+  SyntheticStep,
+} from "@/lib/engine/synthetic";
+export type {
+  WalkForwardConfig,
+  WalkForwardResults,
+  WalkForwardWindow,
+} from "@/lib/engine/walkForward";
+export type {
+  ActivePosition,
+  EquityPoint,
+  ExitReason,
+  ExitReasonSummary,
+  OpenPosition,
+  RiskPolicy,
+  RiskVetoEvent,
+  RiskVetoReason,
+  SignalRejectionReason,
+  SimulationParams,
+  SimulationResults,
+  TakeProfitType,
+  TradeData,
+  TradeDirection,
+  VolatilityAdjustment,
+  VolatilityMeasure,
+} from "@/lib/engine/types";
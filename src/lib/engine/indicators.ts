@@ -0,0 +1,137 @@
+import { GoldPriceDataType } from "@/lib/utils";
+
+// Closing prices of the `period` bars ending at `index` (inclusive), or null
+// when there is not enough history yet
+export const closingWindow = (
+  prices: GoldPriceDataType[],
+  index: number,
+  period: number
+): number[] | null => {
+  if (period < 1 || index - period + 1 < 0) return null;
+  return prices
+    .slice(index - period + 1, index + 1)
+    .map((bar) => bar.currentPrice);
+};
+
+export const mean = (values: number[]): number =>
+  values.reduce((sum, value) => sum + value, 0) / values.length;
+
+export const standardDeviation = (values: number[]): number => {
+  const average = mean(values);
+  return Math.sqrt(
+    values.reduce((sum, value) => sum + Math.pow(value - average, 2), 0) /
+      values.length
+  );
+};
+
+// Simple moving average of closing prices
+export const sma = (
+  prices: GoldPriceDataType[],
+  index: number,
+  period: number
+): number | null => {
+  const window = closingWindow(prices, index, period);
+  return window ? mean(window) : null;
+};
+
+// Relative strength index of closing prices (simple average of gains/losses)
+export const rsi = (
+  prices: GoldPriceDataType[],
+  index: number,
+  period: number
+): number | null => {
+  const window = closingWindow(prices, index, period + 1);
+  if (!window) return null;
+
+  let gains = 0;
+  let losses = 0;
+  for (let i = 1; i < window.length; i++) {
+    const change = window[i] - window[i - 1];
+    if (change > 0) gains += change;
+    else losses -= change;
+  }
+
+  if (losses === 0) return 100;
+  const relativeStrength = gains / losses;
+  return 100 - 100 / (1 + relativeStrength);
+};
+
+// Lower/middle/upper Bollinger bands of closing prices
+export const bollingerBands = (
+  prices: GoldPriceDataType[],
+  index: number,
+  period: number,
+  stdDevs: number
+): { lower: number; middle: number; upper: number } | null => {
+  const window = closingWindow(prices, index, period);
+  if (!window) return null;
+
+  const middle = mean(window);
+  const deviation = standardDeviation(window) * stdDevs;
+  return { lower: middle - deviation, middle, upper: middle + deviation };
+};
+
+// Highest high of the `period` bars ending at `index` (inclusive)
+export const highestHigh = (
+  prices: GoldPriceDataType[],
+  index: number,
+  period: number
+): number | null => {
+  if (period < 1 || index - period + 1 < 0) return null;
+  return Math.max(
+    ...prices
+      .slice(index - period + 1, index + 1)
+      .map((bar) => bar.highestPrice)
+  );
+};
+
+// Lowest low of the `period` bars ending at `index` (inclusive)
+export const lowestLow = (
+  prices: GoldPriceDataType[],
+  index: number,
+  period: number
+): number | null => {
+  if (period < 1 || index - period + 1 < 0) return null;
+  return Math.min(
+    ...prices.slice(index - period + 1, index + 1).map((bar) => bar.lowestPrice)
+  );
+};
+
+// Average true range of the `period` bars ending at `index` (inclusive), which
+// also needs the close of the bar before the window
+export const atr = (
+  prices: GoldPriceDataType[],
+  index: number,
+  period: number
+): number | null => {
+  if (period < 1 || index - period < 0) return null;
+
+  let total = 0;
+  for (let i = index - period + 1; i <= index; i++) {
+    const bar = prices[i];
+    const previousClose = prices[i - 1].currentPrice;
+    total += Math.max(
+      bar.highestPrice - bar.lowestPrice,
+      Math.abs(bar.highestPrice - previousClose),
+      Math.abs(bar.lowestPrice - previousClose)
+    );
+  }
+  return total / period;
+};
+
+// Standard deviation of the close-to-close returns (%) of the `period` bars
+// ending at `index` (inclusive)
+export const closeToCloseVolatility = (
+  prices: GoldPriceDataType[],
+  index: number,
+  period: number
+): number | null => {
+  const window = closingWindow(prices, index, period + 1);
+  if (!window || period < 2) return null;
+
+  const returns: number[] = [];
+  for (let i = 1; i < window.length; i++) {
+    returns.push(((window[i] - window[i - 1]) / window[i - 1]) * 100);
+  }
+  return standardDeviation(returns);
+};
@@ -0,0 +1,126 @@
+import {
+  EquityPoint,
+  ExitReason,
+  ExitReasonSummary,
+  TradeData,
+} from "@/lib/engine/types";
+import { daysBetween, HOUR_MS } from "@/lib/dates";
+
+// Calendar days between two YYYY-MM-DD days
+export const calculateDaysHeld = (startDay: string, endDay: string): number =>
+  Math.abs(daysBetween(startDay, endDay));
+
+// Elapsed hours between two bar times
+export const calculateHoursHeld = (
+  startTime: number,
+  endTime: number
+): number => (endTime - startTime) / HOUR_MS;
+
+// Helper function to calculate drawdown from equity curve
+export const calculateDrawdown = (equityCurve: EquityPoint[]): number => {
+  if (equityCurve.length === 0) return 0;
+
+  let maxDrawdown = 0;
+  let peak = equityCurve[0].equity;
+
+  for (const point of equityCurve) {
+    if (point.equity > peak) {
+      peak = point.equity;
+    } else {
+      const drawdown = (peak - point.equity) / peak;
+      maxDrawdown = Math.max(maxDrawdown, drawdown);
+    }
+  }
+
+  return maxDrawdown;
+};
+
+// Trade count, P&L and fees per exit reason, in order of first occurrence
+export const summarizeExitReasons = (
+  tradeHistory: TradeData[]
+): ExitReasonSummary[] => {
+  const summaries = new Map<ExitReason, ExitReasonSummary>();
+
+  for (const trade of tradeHistory) {
+    const summary = summaries.get(trade.exitReason) ?? {
+      reason: trade.exitReason,
+      trades: 0,
+      pnl: 0,
+      fees: 0,
+    };
+    summary.trades++;
+    summary.pnl += trade.pnl;
+    summary.fees += trade.fees;
+    summaries.set(trade.exitReason, summary);
+  }
+
+  return Array.from(summaries.values());
+};
+
+// Per-point returns of the equity curve, skipping points after equity is gone
+const equityReturns = (equityCurve: EquityPoint[]): number[] => {
+  const returns: number[] = [];
+  for (let i = 1; i < equityCurve.length; i++) {
+    const previous = equityCurve[i - 1].equity;
+    if (previous > 0) {
+      returns.push((equityCurve[i].equity - previous) / previous);
+    }
+  }
+  return returns;
+};
+
+// Annualised Sharpe ratio of the equity curve's daily returns, with a zero
+// risk-free rate
+export const calculateSharpeRatio = (equityCurve: EquityPoint[]): number => {
+  const returns = equityReturns(equityCurve);
+  if (returns.length < 2) return 0;
+
+  const average =
+    returns.reduce((sum, value) => sum + value, 0) / returns.length;
+  const deviation = Math.sqrt(
+    returns.reduce((sum, value) => sum + Math.pow(value - average, 2), 0) /
+      returns.length
+  );
+  return deviation > 0 ? (average / deviation) * Math.sqrt(252) : 0;
+};
+
+// Compound annual growth (%) from the initial capital to the curve's last
+// equity over its calendar span
+export const calculateAnnualizedReturn = (
+  equityCurve: EquityPoint[],
+  initialCapital: number
+): number => {
+  if (equityCurve.length === 0 || initialCapital <= 0) return 0;
+
+  const last = equityCurve[equityCurve.length - 1];
+  const years = calculateDaysHeld(equityCurve[0].date, last.date) / 365;
+  if (years <= 0) return 0;
+
+  const growth = Math.max(last.equity, 0) / initialCapital;
+  return (Math.pow(growth, 1 / years) - 1) * 100;
+};
+
+// Annualised return over the curve's calendar span divided by its max
+// drawdown
+export const calculateCalmarRatio = (
+  equityCurve: EquityPoint[],
+  initialCapital: number
+): number => {
+  const annualReturn =
+    calculateAnnualizedReturn(equityCurve, initialCapital) / 100;
+  const maxDrawdown = calculateDrawdown(equityCurve);
+  if (maxDrawdown === 0) return annualReturn > 0 ? Infinity : 0;
+  return annualReturn / maxDrawdown;
+};
+
+// Gross profit over gross loss of the closed trades
+export const calculateProfitFactor = (tradeHistory: TradeData[]): number => {
+  let grossProfit = 0;
+  let grossLoss = 0;
+  for (const trade of tradeHistory) {
+    if (trade.pnl > 0) grossProfit += trade.pnl;
+    else grossLoss -= trade.pnl;
+  }
+  if (grossLoss === 0) return grossProfit > 0 ? Infinity : 0;
+  return grossProfit / grossLoss;
+};
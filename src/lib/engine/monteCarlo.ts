@@ -0,0 +1,242 @@
+import { GoldPriceDataType } from "@/lib/utils";
+import { runBacktest } from "@/lib/engine/backtest";
+import { createRandom, randomInt } from "@/lib/engine/random";
+import { SimulationParams, TradeData } from "@/lib/engine/types";
+
+// "shuffle" reorders the closed trades' net P&Ls (without replacement),
+// "bootstrap" draws them with replacement and "blockBootstrap" rebuilds the
+// price series from random blocks of daily bars and runs the backtest on it
+export type MonteCarloMethod = "shuffle" | "bootstrap" | "blockBootstrap";
+
+export type MonteCarloConfig = {
+  method: MonteCarloMethod;
+  paths: number;
+  // Bars per block for blockBootstrap
+  blockSize: number;
+  seed: number;
+  // The loss (% of the starting capital) whose probability is reported
+  lossThresholdPercent: number;
+};
+
+export type FanPoint = {
+  step: number;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+};
+
+export type DrawdownBucket = { from: number; to: number; count: number };
+
+export type MonteCarloResults = {
+  // Equity percentiles after each trade (or bar for blockBootstrap)
+  fan: FanPoint[];
+  // Max drawdown (%) of every path
+  maxDrawdowns: number[];
+  drawdownHistogram: DrawdownBucket[];
+  finalCapitals: number[];
+  // Share of paths ending, or at any point sitting, the threshold below the
+  // starting capital
+  probabilityOfLoss: number;
+  probabilityOfTouchingLoss: number;
+};
+
+export const MONTE_CARLO_METHODS: Record<MonteCarloMethod, string> = {
+  shuffle: "Reshuffle trades (without replacement)",
+  bootstrap: "Resample trades (with replacement)",
+  blockBootstrap: "Block bootstrap daily returns",
+};
+
+export const DEFAULT_MONTE_CARLO_CONFIG: MonteCarloConfig = {
+  method: "shuffle",
+  paths: 1000,
+  blockSize: 5,
+  seed: 1,
+  lossThresholdPercent: 20,
+};
+
+// Keeps a run small enough for the main thread
+export const MAX_MONTE_CARLO_PATHS = 10000;
+
+// Linear interpolation between the closest ranks of sorted values
+export const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return 0;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+const maxDrawdownPercent = (path: number[]): number => {
+  let peak = path[0];
+  let maxDrawdown = 0;
+  for (const equity of path) {
+    peak = Math.max(peak, equity);
+    if (peak > 0) maxDrawdown = Math.max(maxDrawdown, (peak - equity) / peak);
+  }
+  return maxDrawdown * 100;
+};
+
+// Equity after each trade of a reordered or resampled trade sequence
+const tradePaths = (
+  tradeHistory: TradeData[],
+  capital: number,
+  config: MonteCarloConfig,
+  random: () => number
+): number[][] => {
+  const netPnls = tradeHistory.map((trade) => trade.pnl - trade.fees);
+  const paths: number[][] = [];
+
+  for (let p = 0; p < config.paths; p++) {
+    let sample: number[];
+    if (config.method === "shuffle") {
+      // Fisher-Yates
+      sample = [...netPnls];
+      for (let i = sample.length - 1; i > 0; i--) {
+        const j = randomInt(random, i + 1);
+        [sample[i], sample[j]] = [sample[j], sample[i]];
+      }
+    } else {
+      sample = netPnls.map(() => netPnls[randomInt(random, netPnls.length)]);
+    }
+
+    const path = [capital];
+    for (const pnl of sample) path.push(path[path.length - 1] + pnl);
+    paths.push(path);
+  }
+  return paths;
+};
+
+// A price series as long as the original, built from random blocks of bars.
+// Each bar is kept as its open, high, low and close relative to the previous
+// close, so blocks chain on from wherever the series has got to.
+export const blockBootstrapPrices = (
+  prices: GoldPriceDataType[],
+  blockSize: number,
+  random: () => number
+): GoldPriceDataType[] => {
+  const relativeBars = prices.slice(1).map((bar, i) => {
+    const previousClose = prices[i].currentPrice;
+    return {
+      open: bar.openingPrice / previousClose,
+      high: bar.highestPrice / previousClose,
+      low: bar.lowestPrice / previousClose,
+      close: bar.currentPrice / previousClose,
+    };
+  });
+
+  const synthetic: GoldPriceDataType[] = [prices[0]];
+  while (synthetic.length < prices.length) {
+    const start = randomInt(random, relativeBars.length);
+    for (
+      let i = start;
+      i < start + blockSize &&
+      i < relativeBars.length &&
+      synthetic.length < prices.length;
+      i++
+    ) {
+      const previousClose = synthetic[synthetic.length - 1].currentPrice;
+      const bar = relativeBars[i];
+      synthetic.push({
+        time: prices[synthetic.length].time,
+        date: prices[synthetic.length].date,
+        ...(prices[synthetic.length].dateOnly && { dateOnly: true as const }),
+        openingPrice: previousClose * bar.open,
+        highestPrice: previousClose * bar.high,
+        lowestPrice: previousClose * bar.low,
+        currentPrice: previousClose * bar.close,
+      });
+    }
+  }
+  return synthetic;
+};
+
+// Counts per bucket of `width`, from 0 up to the largest value
+const histogram = (values: number[], width: number): DrawdownBucket[] => {
+  const bucketCount = Math.max(Math.ceil(Math.max(...values) / width), 1);
+  const buckets = Array.from({ length: bucketCount }, (_, i) => ({
+    from: i * width,
+    to: (i + 1) * width,
+    count: 0,
+  }));
+  for (const value of values) {
+    buckets[Math.min(Math.floor(value / width), bucketCount - 1)].count++;
+  }
+  return buckets;
+};
+
+// Runs the paths and summarises them. The trade methods need the closed
+// trades of a backtest, the block bootstrap only the prices and params.
+export const runMonteCarlo = (
+  prices: GoldPriceDataType[],
+  params: SimulationParams,
+  tradeHistory: TradeData[],
+  config: MonteCarloConfig
+): MonteCarloResults => {
+  if (
+    !Number.isInteger(config.paths) ||
+    config.paths < 1 ||
+    config.paths > MAX_MONTE_CARLO_PATHS
+  ) {
+    throw new Error(
+      `Monte Carlo needs a whole number of paths between 1 and ${MAX_MONTE_CARLO_PATHS}`
+    );
+  }
+  if (
+    config.method === "blockBootstrap" &&
+    (!Number.isInteger(config.blockSize) || config.blockSize < 1)
+  ) {
+    throw new Error("block size must be a whole number of at least 1 bar");
+  }
+  if (config.method !== "blockBootstrap" && tradeHistory.length === 0) {
+    throw new Error("there are no closed trades to resample");
+  }
+
+  const random = createRandom(config.seed);
+  const capital = params.investmentCapital;
+  const paths =
+    config.method === "blockBootstrap"
+      ? Array.from({ length: config.paths }, () => [
+          capital,
+          ...runBacktest(
+            blockBootstrapPrices(prices, config.blockSize, random),
+            params
+          ).equityCurve.map((point) => point.equity),
+        ])
+      : tradePaths(tradeHistory, capital, config, random);
+
+  // A backtest stops early once capital is gone, hold its last equity
+  const steps = Math.max(...paths.map((path) => path.length));
+  const fan: FanPoint[] = [];
+  for (let step = 0; step < steps; step++) {
+    const column = paths
+      .map((path) => path[Math.min(step, path.length - 1)])
+      .sort((a, b) => a - b);
+    fan.push({
+      step,
+      p5: percentile(column, 5),
+      p25: percentile(column, 25),
+      p50: percentile(column, 50),
+      p75: percentile(column, 75),
+      p95: percentile(column, 95),
+    });
+  }
+
+  const maxDrawdowns = paths.map(maxDrawdownPercent);
+  const finalCapitals = paths.map((path) => path[path.length - 1]);
+  const lossLevel = capital * (1 - config.lossThresholdPercent / 100);
+
+  return {
+    fan,
+    maxDrawdowns,
+    drawdownHistogram: histogram(maxDrawdowns, 5),
+    finalCapitals,
+    probabilityOfLoss:
+      finalCapitals.filter((equity) => equity <= lossLevel).length /
+      paths.length,
+    probabilityOfTouchingLoss:
+      paths.filter((path) => Math.min(...path) <= lossLevel).length /
+      paths.length,
+  };
+};
@@ -0,0 +1,234 @@
+import { GoldPriceDataType } from "@/lib/utils";
+import { runBacktest } from "@/lib/engine/backtest";
+import { validateParams } from "@/lib/engine/params";
+import {
+  calculateAnnualizedReturn,
+  calculateCalmarRatio,
+  calculateProfitFactor,
+  calculateSharpeRatio,
+} from "@/lib/engine/metrics";
+import { SimulationParams, SimulationResults } from "@/lib/engine/types";
+
+export type SweepParamKey =
+  | "leverage"
+  | "stopLossDollar"
+  | "minPriceMovement"
+  | "positionSizePercent"
+  | "dailyFeePercent";
+
+export type SweepRange = { min: number; max: number; step: number };
+
+export type SweepRanges = Partial<Record<SweepParamKey, SweepRange>>;
+
+export type OptimizationObjective =
+  | "finalCapital"
+  | "sharpeRatio"
+  | "calmarRatio"
+  | "profitFactor";
+
+// One combination of the sweep and how it did
+export type OptimizationRun = {
+  params: SimulationParams;
+  // The swept values, for display
+  values: Partial<Record<SweepParamKey, number>>;
+  finalCapital: number;
+  totalProfitLoss: number;
+  totalTrades: number;
+  maxDrawdown: number;
+  // Compound annual return (%)
+  annualizedReturn: number;
+  sharpeRatio: number;
+  calmarRatio: number;
+  profitFactor: number;
+};
+
+export type GridSearchResults = {
+  // Ranked by the objective, best first
+  runs: OptimizationRun[];
+  // Combinations left out because they fail validateParams
+  skipped: number;
+};
+
+export type OptimizationMetric = Exclude<
+  keyof OptimizationRun,
+  "params" | "values"
+>;
+
+export type HeatmapCell = {
+  x: number;
+  y: number;
+  value: number;
+  run: OptimizationRun;
+};
+
+export const SWEEP_PARAMS: { key: SweepParamKey; label: string }[] = [
+  { key: "leverage", label: "Leverage" },
+  { key: "stopLossDollar", label: "Stop Loss ($)" },
+  { key: "minPriceMovement", label: "Min Price Movement (%)" },
+  { key: "positionSizePercent", label: "Position Size (%)" },
+  { key: "dailyFeePercent", label: "Daily Fee (%)" },
+];
+
+export const OPTIMIZATION_METRICS: {
+  key: OptimizationMetric;
+  label: string;
+}[] = [
+  { key: "finalCapital", label: "Final Capital" },
+  { key: "totalProfitLoss", label: "Total P&L" },
+  { key: "totalTrades", label: "Trades" },
+  { key: "maxDrawdown", label: "Max Drawdown" },
+  { key: "annualizedReturn", label: "Annual Return" },
+  { key: "sharpeRatio", label: "Sharpe" },
+  { key: "calmarRatio", label: "Calmar" },
+  { key: "profitFactor", label: "Profit Factor" },
+];
+
+export const OPTIMIZATION_OBJECTIVES: Record<OptimizationObjective, string> = {
+  finalCapital: "Final capital",
+  sharpeRatio: "Sharpe ratio",
+  calmarRatio: "Calmar ratio",
+  profitFactor: "Profit factor",
+};
+
+// Keeps a sweep small enough to run on the main thread
+export const MAX_GRID_COMBINATIONS = 5000;
+
+// Why the range cannot be swept, null when it can
+export const sweepRangeError = ({
+  min,
+  max,
+  step,
+}: SweepRange): string | null => {
+  if (![min, max, step].every(Number.isFinite)) {
+    return "min, max and step must be numbers";
+  }
+  if (min > max) return `min ${min} is above max ${max}`;
+  if (!(step > 0)) return `step must be above 0, got ${step}`;
+  return null;
+};
+
+// min, min + step, ... up to max inclusive. Rounded so float steps such as
+// 0.1 land on the values a user typed. Throws on a range sweepRangeError
+// refuses.
+export const rangeValues = (range: SweepRange): number[] => {
+  const error = sweepRangeError(range);
+  if (error) throw new Error(error);
+  const { min, max, step } = range;
+
+  const values: number[] = [];
+  const count = Math.floor((max - min) / step + 1e-9);
+  for (let i = 0; i <= count; i++) {
+    values.push(Number((min + i * step).toPrecision(12)));
+  }
+  return values;
+};
+
+export const countCombinations = (ranges: SweepRanges): number =>
+  Object.values(ranges).reduce(
+    (total, range) => total * rangeValues(range).length,
+    1
+  );
+
+// Every combination of the ranges applied on top of the base params
+export const sweepCombinations = (
+  base: SimulationParams,
+  ranges: SweepRanges
+): { params: SimulationParams; values: OptimizationRun["values"] }[] => {
+  let combinations = [{ params: base, values: {} }];
+  for (const [key, range] of Object.entries(ranges) as [
+    SweepParamKey,
+    SweepRange
+  ][]) {
+    combinations = combinations.flatMap((combination) =>
+      rangeValues(range).map((value) => ({
+        params: { ...combination.params, [key]: value },
+        values: { ...combination.values, [key]: value },
+      }))
+    );
+  }
+  return combinations;
+};
+
+export const summarizeRun = (
+  params: SimulationParams,
+  values: OptimizationRun["values"],
+  results: SimulationResults
+): OptimizationRun => ({
+  params,
+  values,
+  finalCapital: results.finalCapital,
+  totalProfitLoss: results.totalProfitLoss,
+  totalTrades: results.totalTrades,
+  maxDrawdown: results.maxDrawdown,
+  annualizedReturn: calculateAnnualizedReturn(
+    results.equityCurve,
+    params.investmentCapital
+  ),
+  sharpeRatio: calculateSharpeRatio(results.equityCurve),
+  calmarRatio: calculateCalmarRatio(
+    results.equityCurve,
+    params.investmentCapital
+  ),
+  profitFactor: calculateProfitFactor(results.tradeHistory),
+});
+
+// Ascending order that copes with the infinite ratios of runs without losses
+export const compareScores = (a: number, b: number): number =>
+  a === b ? 0 : a < b ? -1 : 1;
+
+// Backtests every valid combination of the ranges and ranks them by the
+// objective, best first. Combinations that fail validateParams are skipped
+// and counted.
+export const runGridSearch = (
+  prices: GoldPriceDataType[],
+  base: SimulationParams,
+  ranges: SweepRanges,
+  objective: OptimizationObjective
+): GridSearchResults => {
+  const combinations = countCombinations(ranges);
+  if (combinations > MAX_GRID_COMBINATIONS) {
+    throw new Error(
+      `${combinations} combinations exceed the limit of ${MAX_GRID_COMBINATIONS}, use fewer or coarser ranges`
+    );
+  }
+
+  const valid = sweepCombinations(base, ranges).filter(({ params }) =>
+    validateParams(params)
+  );
+  return {
+    runs: valid
+      .map(({ params, values }) =>
+        summarizeRun(params, values, runBacktest(prices, params))
+      )
+      .sort((a, b) => compareScores(b[objective], a[objective])),
+    skipped: combinations - valid.length,
+  };
+};
+
+// One cell per pair of values of the two params. When more params were swept
+// a cell shows the first run for its pair, so with runs ranked best first it
+// is the best the other params could do there.
+export const buildHeatmap = (
+  runs: OptimizationRun[],
+  xKey: SweepParamKey,
+  yKey: SweepParamKey,
+  metric: OptimizationMetric
+): { xValues: number[]; yValues: number[]; cells: HeatmapCell[] } => {
+  const cells = new Map<string, HeatmapCell>();
+  for (const run of runs) {
+    const x = run.values[xKey];
+    const y = run.values[yKey];
+    if (x === undefined || y === undefined) continue;
+    const key = `${x}:${y}`;
+    if (!cells.has(key)) cells.set(key, { x, y, value: run[metric], run });
+  }
+
+  const sortedValues = (values: number[]) =>
+    Array.from(new Set(values)).sort((a, b) => a - b);
+  const heatmapCells = Array.from(cells.values());
+  return {
+    xValues: sortedValues(heatmapCells.map((cell) => cell.x)),
+    yValues: sortedValues(heatmapCells.map((cell) => cell.y)),
+    cells: heatmapCells,
+  };
+};
@@ -0,0 +1,99 @@
+import { SimulationParams } from "@/lib/engine/types";
+import { isEntryStrategyId } from "@/lib/engine/strategies";
+import { isPositionSizingModelId } from "@/lib/engine/sizing";
+import { DEFAULT_RISK_POLICY, validateRiskPolicy } from "@/lib/engine/risk";
+import { isValidTimeZone } from "@/lib/dates";
+import { isFiniteNumber } from "@/lib/utils";
+
+export const DEFAULT_SIMULATION_PARAMS: SimulationParams = {
+  investmentCapital: 10000,
+  positionSizePercent: 1,
+  leverage: 100,
+  stopLossDollar: 200,
+  minPriceMovement: 0.3,
+  dailyFeePercent: 0.1,
+  useTrailingStop: true,
+  takeProfitType: "none",
+  takeProfitValue: 400,
+  maxHoldingPeriod: 0,
+  maxHoldingUnit: "days",
+  volatilityAdjustment: { measure: "none", period: 14, referencePercent: 1 },
+  risk: DEFAULT_RISK_POLICY,
+  tradeDirection: "long",
+  entryStrategy: "momentum",
+  strategyParams: {},
+  sizingModel: "percent",
+  sizingParams: {},
+  exchangeTimeZone: "UTC",
+};
+
+// Fills in fields that params saved by an older version do not have yet
+export const withDefaultParams = (
+  saved: Partial<SimulationParams>
+): SimulationParams => ({
+  ...DEFAULT_SIMULATION_PARAMS,
+  ...saved,
+  volatilityAdjustment: {
+    ...DEFAULT_SIMULATION_PARAMS.volatilityAdjustment,
+    ...saved.volatilityAdjustment,
+  },
+  risk: { ...DEFAULT_SIMULATION_PARAMS.risk, ...saved.risk },
+});
+
+// Params also come from shared links, preset files and storage, so the
+// types are checked before the ranges
+const isRecordOfNumbers = (value: unknown) =>
+  typeof value === "object" &&
+  value !== null &&
+  Object.values(value).every(isFiniteNumber);
+
+export const validateParams = (params: SimulationParams): boolean => {
+  if (typeof params !== "object" || params === null) return false;
+  const { volatilityAdjustment } = params;
+  if (typeof volatilityAdjustment !== "object" || volatilityAdjustment === null)
+    return false;
+  const numbers = [
+    params.investmentCapital,
+    params.positionSizePercent,
+    params.leverage,
+    params.stopLossDollar,
+    params.minPriceMovement,
+    params.dailyFeePercent,
+    params.takeProfitValue,
+    params.maxHoldingPeriod,
+    volatilityAdjustment.period,
+    volatilityAdjustment.referencePercent,
+  ];
+  if (!numbers.every(isFiniteNumber)) return false;
+  if (typeof params.useTrailingStop !== "boolean") return false;
+  if (params.investmentCapital <= 0) return false;
+  if (params.positionSizePercent <= 0 || params.positionSizePercent > 100)
+    return false;
+  if (!validateRiskPolicy(params.risk)) return false;
+  // Otherwise every entry would be vetoed without a word
+  if (params.positionSizePercent > params.risk.maxPositionSizePercent)
+    return false;
+  if (params.leverage <= 0 || params.leverage > params.risk.maxLeverage)
+    return false;
+  if (params.stopLossDollar <= 0) return false;
+  if (params.minPriceMovement < 0) return false;
+  if (params.dailyFeePercent < 0) return false;
+  if (!["none", "dollar", "percent"].includes(params.takeProfitType))
+    return false;
+  if (params.takeProfitType !== "none" && !(params.takeProfitValue > 0))
+    return false;
+  if (params.maxHoldingPeriod < 0) return false;
+  if (!["days", "hours"].includes(params.maxHoldingUnit)) return false;
+  if (!["none", "atr", "stdDev"].includes(volatilityAdjustment.measure))
+    return false;
+  if (!Number.isInteger(volatilityAdjustment.period)) return false;
+  if (volatilityAdjustment.period < 2) return false;
+  if (!(volatilityAdjustment.referencePercent > 0)) return false;
+  if (!["long", "short", "both"].includes(params.tradeDirection)) return false;
+  if (!isEntryStrategyId(params.entryStrategy)) return false;
+  if (!isRecordOfNumbers(params.strategyParams)) return false;
+  if (!isPositionSizingModelId(params.sizingModel)) return false;
+  if (!isRecordOfNumbers(params.sizingParams)) return false;
+  if (!isValidTimeZone(params.exchangeTimeZone)) return false;
+  return true;
+};
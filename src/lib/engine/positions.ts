@@ -0,0 +1,65 @@
+import { ActivePosition } from "@/lib/engine/types";
+
+// Leveraged P&L of the position if closed at `price`, excluding fees. Shorts
+// profit when the price falls below their entry.
+export const calculatePositionPnl = (
+  position: Pick<
+    ActivePosition,
+    "direction" | "entryPrice" | "leveragedAmount"
+  >,
+  price: number
+): number => {
+  const percentageChange = (price - position.entryPrice) / position.entryPrice;
+  const sign = position.direction === "long" ? 1 : -1;
+  return sign * position.leveragedAmount * percentageChange;
+};
+
+// Free capital plus the margin and unrealized P&L of every open position
+// marked at `price`. Accumulated fees are already out of capital.
+export const calculateEquity = (
+  capital: number,
+  positions: ActivePosition[],
+  price: number
+): number => {
+  return (
+    capital +
+    positions.reduce(
+      (sum, position) =>
+        sum + position.baseAmount + calculatePositionPnl(position, price),
+      0
+    )
+  );
+};
+
+// Price within the bar that hurts the position most: the low for longs and
+// the high for shorts
+export const adverseBarPrice = (
+  position: Pick<ActivePosition, "direction">,
+  bar: { highestPrice: number; lowestPrice: number }
+): number => {
+  return position.direction === "long" ? bar.lowestPrice : bar.highestPrice;
+};
+
+// Broker-style margin level in %: account equity over the margin held by open
+// positions, with every position marked at its adverse price within the bar.
+// Null when no margin is in use.
+export const calculateMarginLevel = (
+  capital: number,
+  positions: ActivePosition[],
+  bar: { highestPrice: number; lowestPrice: number }
+): number | null => {
+  const usedMargin = positions.reduce(
+    (sum, position) => sum + position.baseAmount,
+    0
+  );
+  if (usedMargin <= 0) return null;
+
+  const worstEquity = positions.reduce(
+    (sum, position) =>
+      sum +
+      position.baseAmount +
+      calculatePositionPnl(position, adverseBarPrice(position, bar)),
+    capital
+  );
+  return (worstEquity / usedMargin) * 100;
+};
@@ -0,0 +1,22 @@
+// Seeded uniform generator on [0, 1) (mulberry32), so a Monte Carlo run or a
+// synthetic series can be reproduced from its seed
+export const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Integer in [0, count)
+export const randomInt = (random: () => number, count: number): number =>
+  Math.floor(random() * count);
+
+// Standard normal draw (Box-Muller)
+export const gaussian = (random: () => number): number => {
+  const u = 1 - random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+};
@@ -0,0 +1,161 @@
+import { RISK_LIMITS } from "@/lib/constants";
+import { isFiniteNumber } from "@/lib/utils";
+import {
+  ActivePosition,
+  RiskPolicy,
+  RiskVetoReason,
+  SignalRejectionReason,
+} from "@/lib/engine/types";
+
+export const DEFAULT_RISK_POLICY: RiskPolicy = {
+  minCapital: RISK_LIMITS.minCapital,
+  maxLeverage: RISK_LIMITS.maxLeverage,
+  maxPositionSizePercent: RISK_LIMITS.maxPositionSize * 100,
+  maxDailyLoss: 0,
+  closeOnDailyLoss: false,
+  maxOpenPositions: 0,
+  maxExposureMultiple: 0,
+  maxCapitalCommittedPercent: 0,
+  maintenanceMarginPercent: 0,
+};
+
+export const SIGNAL_REJECTION_REASONS: SignalRejectionReason[] = [
+  "daily loss limit",
+  "max position size",
+  "max open positions",
+  "max exposure",
+  "max capital committed",
+  "max leverage",
+];
+
+export const emptyRejectionCounts = (): Record<
+  SignalRejectionReason,
+  number
+> => ({
+  "daily loss limit": 0,
+  "max position size": 0,
+  "max open positions": 0,
+  "max exposure": 0,
+  "max capital committed": 0,
+  "max leverage": 0,
+});
+
+export const validateRiskPolicy = (policy: RiskPolicy): boolean => {
+  // Policies also come from links and files, so check the types too
+  if (typeof policy !== "object" || policy === null) return false;
+  const { closeOnDailyLoss, ...limits } = policy;
+  if (typeof closeOnDailyLoss !== "boolean") return false;
+  if (!Object.values(limits).every(isFiniteNumber)) return false;
+  if (policy.minCapital < 0) return false;
+  if (policy.maxLeverage <= 0) return false;
+  if (policy.maxPositionSizePercent <= 0) return false;
+  if (policy.maxDailyLoss < 0) return false;
+  if (policy.maxOpenPositions < 0) return false;
+  if (policy.maxExposureMultiple < 0) return false;
+  if (policy.maxCapitalCommittedPercent < 0) return false;
+  if (policy.maintenanceMarginPercent < 0) return false;
+  return true;
+};
+
+export type EntryRiskContext = {
+  // Free capital and equity marked at the entry price
+  capital: number;
+  equity: number;
+  positions: ActivePosition[];
+  candidate: { baseAmount: number; leveragedAmount: number };
+  // Today's realized plus unrealized loss and whether it tripped the breaker
+  dailyLoss: number;
+  circuitBreakerTripped: boolean;
+};
+
+// The outcome of a veto: which rule refused the entry, the value it measured
+// and the limit that value broke
+export type RiskVeto = { reason: RiskVetoReason; value: number; limit: number };
+
+// The single gate every entry passes through. Returns the first rule of the
+// policy the candidate entry breaks, or null when it may be opened. Limits of
+// 0 are disabled, except the minimum capital.
+export const evaluateEntryRisk = (
+  policy: RiskPolicy,
+  context: EntryRiskContext
+): RiskVeto | null => {
+  const { capital, equity, positions, candidate } = context;
+
+  if (capital < policy.minCapital) {
+    return {
+      reason: "insufficient capital",
+      value: capital,
+      limit: policy.minCapital,
+    };
+  }
+
+  if (context.circuitBreakerTripped) {
+    return {
+      reason: "daily loss limit",
+      value: context.dailyLoss,
+      limit: policy.maxDailyLoss,
+    };
+  }
+
+  const sizePercent = (candidate.baseAmount / capital) * 100;
+  if (sizePercent > policy.maxPositionSizePercent) {
+    return {
+      reason: "max position size",
+      value: sizePercent,
+      limit: policy.maxPositionSizePercent,
+    };
+  }
+
+  if (
+    policy.maxOpenPositions > 0 &&
+    positions.length >= policy.maxOpenPositions
+  ) {
+    return {
+      reason: "max open positions",
+      value: positions.length,
+      limit: policy.maxOpenPositions,
+    };
+  }
+
+  const totalNotional = positions.reduce(
+    (sum, position) => sum + position.leveragedAmount,
+    candidate.leveragedAmount
+  );
+  if (
+    policy.maxExposureMultiple > 0 &&
+    totalNotional > policy.maxExposureMultiple * equity
+  ) {
+    return {
+      reason: "max exposure",
+      value: totalNotional / equity,
+      limit: policy.maxExposureMultiple,
+    };
+  }
+
+  const totalCommitted = positions.reduce(
+    (sum, position) => sum + position.baseAmount,
+    candidate.baseAmount
+  );
+  if (
+    policy.maxCapitalCommittedPercent > 0 &&
+    totalCommitted > (policy.maxCapitalCommittedPercent / 100) * equity
+  ) {
+    return {
+      reason: "max capital committed",
+      value: (totalCommitted / equity) * 100,
+      limit: policy.maxCapitalCommittedPercent,
+    };
+  }
+
+  // Account-level leverage: total notional against equity
+  const leverage = equity > 0 ? totalNotional / equity : Infinity;
+  if (leverage > policy.maxLeverage) {
+    return {
+      reason: "max leverage",
+      value: leverage,
+      limit: policy.maxLeverage,
+    };
+  }
+
+  return null;
+};
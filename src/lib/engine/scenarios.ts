@@ -0,0 +1,62 @@
+import { GoldPriceDataType } from "@/lib/utils";
+import { runBacktest } from "@/lib/engine/backtest";
+import { OptimizationRun, summarizeRun } from "@/lib/engine/optimizer";
+import { SimulationParams, SimulationResults } from "@/lib/engine/types";
+
+// A close-only series on the same dates as a full bar series
+export type PricePoint = { date: string; price: number };
+
+export type PriceScenarioId = "base" | "highConfidence" | "lowConfidence";
+
+export type PriceScenario = {
+  id: PriceScenarioId;
+  label: string;
+  prices: GoldPriceDataType[];
+};
+
+export type ScenarioRun = {
+  id: PriceScenarioId;
+  label: string;
+  results: SimulationResults;
+  summary: OptimizationRun;
+};
+
+// Moves every bar of `base` so it closes at the band's price on that date,
+// scaling open, high and low by the same factor so the bar keeps its shape
+export const applyPriceBand = (
+  base: GoldPriceDataType[],
+  band: PricePoint[]
+): GoldPriceDataType[] => {
+  if (band.length !== base.length) {
+    throw new Error(
+      `price band has ${band.length} points for ${base.length} bars`
+    );
+  }
+  return base.map((bar, i) => {
+    if (band[i].date !== bar.date) {
+      throw new Error(
+        `price band date ${band[i].date} does not match bar ${bar.date}`
+      );
+    }
+    const factor = band[i].price / bar.currentPrice;
+    return {
+      time: bar.time,
+      date: bar.date,
+      ...(bar.dateOnly && { dateOnly: true as const }),
+      openingPrice: bar.openingPrice * factor,
+      highestPrice: bar.highestPrice * factor,
+      lowestPrice: bar.lowestPrice * factor,
+      currentPrice: band[i].price,
+    };
+  });
+};
+
+// The same params against each scenario's prices
+export const runScenarios = (
+  scenarios: PriceScenario[],
+  params: SimulationParams
+): ScenarioRun[] =>
+  scenarios.map(({ id, label, prices }) => {
+    const results = runBacktest(prices, params);
+    return { id, label, results, summary: summarizeRun(params, {}, results) };
+  });
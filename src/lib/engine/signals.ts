@@ -0,0 +1,18 @@
+export const shouldOpenPosition = (
+  currentPrice: number,
+  previousPrice: number,
+  threshold: number
+): boolean => {
+  const priceMovement = ((currentPrice - previousPrice) / previousPrice) * 100;
+  return priceMovement >= threshold;
+};
+
+// Mirror of shouldOpenPosition for shorts: the price fell by the threshold
+export const shouldOpenShortPosition = (
+  currentPrice: number,
+  previousPrice: number,
+  threshold: number
+): boolean => {
+  const priceMovement = ((currentPrice - previousPrice) / previousPrice) * 100;
+  return priceMovement <= -threshold;
+};
@@ -0,0 +1,286 @@
+import { GoldPriceDataType } from "@/lib/utils";
+import { StrategyParamField } from "@/lib/engine/strategies";
+import { atr } from "@/lib/engine/indicators";
+import { SimulationParams, TradeData } from "@/lib/engine/types";
+
+export type PositionSizingModelId =
+  | "percent"
+  | "fixedDollar"
+  | "fixedRisk"
+  | "volatilityTarget"
+  | "kelly"
+  | "martingale"
+  | "antiMartingale";
+
+// Everything a sizing model may look at for an entry on the bar at `index`,
+// which fills at that bar's opening price
+export type SizingContext = {
+  prices: GoldPriceDataType[];
+  index: number;
+  // Free capital and equity marked at the entry price
+  capital: number;
+  equity: number;
+  // Trades closed so far, oldest first
+  tradeHistory: TradeData[];
+  // The stop loss amount ($) for this entry, after any volatility adjustment
+  stopLossDollar: number;
+  params: SimulationParams;
+};
+
+export type SizingDecision = {
+  // Margin to commit, before it is capped at the free capital
+  baseAmount: number;
+  // Leveraged loss ($) at which the position's stop fires
+  stopLossAmount: number;
+  rationale: string;
+};
+
+// Typed by its own params like EntryStrategy, and for the same reason
+// `size` is a method
+export type PositionSizingModel<
+  P extends Record<string, number> = Record<string, number>
+> = {
+  id: PositionSizingModelId;
+  name: string;
+  description: string;
+  fields: StrategyParamField<Record<string, number>>[];
+  size(context: SizingContext, params: P): SizingDecision;
+};
+
+const defineSizingModel = <P extends Record<string, number>>(
+  model: PositionSizingModel<P> & { fields: StrategyParamField<P>[] }
+): PositionSizingModel<P> => model;
+
+const formatDollars = (value: number) => `$${value.toFixed(2)}`;
+
+// The original sizing: positionSizePercent of the free capital
+const percentOfCapital = ({ capital, params }: SizingContext) =>
+  (params.positionSizePercent / 100) * capital;
+
+// Trades at the end of the history that all lost (or all won)
+const currentStreak = (tradeHistory: TradeData[], losing: boolean) => {
+  let streak = 0;
+  for (let i = tradeHistory.length - 1; i >= 0; i--) {
+    const { pnl } = tradeHistory[i];
+    if (losing ? pnl >= 0 : pnl <= 0) break;
+    streak++;
+  }
+  return streak;
+};
+
+const percent = defineSizingModel<Record<string, never>>({
+  id: "percent",
+  name: "Fixed percent of capital",
+  description: "Commit the position size % of the free capital to every trade.",
+  fields: [],
+  size: (context) => ({
+    baseAmount: percentOfCapital(context),
+    stopLossAmount: context.stopLossDollar,
+    rationale: `${context.params.positionSizePercent}% of ${formatDollars(
+      context.capital
+    )} capital`,
+  }),
+});
+
+const fixedDollar = defineSizingModel<{ amount: number }>({
+  id: "fixedDollar",
+  name: "Fixed dollar amount",
+  description: "Commit the same dollar margin to every trade.",
+  fields: [
+    { key: "amount", label: "Margin per Trade ($)", defaultValue: 100, min: 0 },
+  ],
+  size: ({ stopLossDollar }, { amount }) => ({
+    baseAmount: amount,
+    stopLossAmount: stopLossDollar,
+    rationale: `fixed ${formatDollars(amount)} margin`,
+  }),
+});
+
+// The stop loss is a leveraged dollar loss, so its price distance depends on
+// the position's size. This model takes the distance the stop has on a
+// position of the configured size % and sizes the trade so that distance
+// loses the risk % of equity, moving the stop amount to match.
+const fixedRisk = defineSizingModel<{ riskPercent: number }>({
+  id: "fixedRisk",
+  name: "Fixed fractional risk",
+  description:
+    "Size so that hitting the stop loses the risk % of equity, with the stop at the distance it has on a position of the configured size.",
+  fields: [
+    {
+      key: "riskPercent",
+      label: "Risk per Trade (% of equity)",
+      defaultValue: 1,
+      min: 0,
+      step: 0.1,
+    },
+  ],
+  size: (context, { riskPercent }) => {
+    const { equity, params } = context;
+    const referenceNotional = percentOfCapital(context) * params.leverage;
+    const stopDistance = context.stopLossDollar / referenceNotional;
+    const riskAmount = (riskPercent / 100) * Math.max(equity, 0);
+    return {
+      baseAmount: riskAmount / stopDistance / params.leverage,
+      stopLossAmount: riskAmount,
+      rationale: `risk ${riskPercent}% of ${formatDollars(
+        equity
+      )} equity (${formatDollars(riskAmount)}) over a ${(
+        stopDistance * 100
+      ).toFixed(2)}% stop distance`,
+    };
+  },
+});
+
+const volatilityTarget = defineSizingModel<{
+  period: number;
+  riskPercent: number;
+}>({
+  id: "volatilityTarget",
+  name: "Volatility targeted (ATR)",
+  description:
+    "Size so that a move of one ATR (as of yesterday) changes equity by the risk %. Falls back to the position size % until there is enough history.",
+  fields: [
+    { key: "period", label: "ATR Period", defaultValue: 14, min: 1 },
+    {
+      key: "riskPercent",
+      label: "Risk per ATR (% of equity)",
+      defaultValue: 1,
+      min: 0,
+      step: 0.1,
+    },
+  ],
+  size: (context, { period, riskPercent }) => {
+    const { prices, index, equity, params } = context;
+    const range = atr(prices, index - 1, period);
+    if (range === null || range <= 0) {
+      return {
+        baseAmount: percentOfCapital(context),
+        stopLossAmount: context.stopLossDollar,
+        rationale: `no ${period}-bar ATR yet, ${params.positionSizePercent}% of capital`,
+      };
+    }
+
+    const riskAmount = (riskPercent / 100) * Math.max(equity, 0);
+    const notional = (riskAmount * prices[index].openingPrice) / range;
+    return {
+      baseAmount: notional / params.leverage,
+      stopLossAmount: context.stopLossDollar,
+      rationale: `${formatDollars(
+        riskAmount
+      )} (${riskPercent}% of equity) per ATR of ${range.toFixed(2)}`,
+    };
+  },
+});
+
+const kelly = defineSizingModel<{ lookback: number; fraction: number }>({
+  id: "kelly",
+  name: "Kelly fraction",
+  description:
+    "Commit the Kelly fraction of capital from the win rate and win/loss ratio of the last N trades, scaled down by the fraction. Uses the position size % until N trades have closed.",
+  fields: [
+    {
+      key: "lookback",
+      label: "Kelly Lookback (trades)",
+      defaultValue: 20,
+      min: 1,
+    },
+    {
+      key: "fraction",
+      label: "Kelly Multiplier",
+      defaultValue: 0.5,
+      min: 0,
+      step: 0.1,
+    },
+  ],
+  size: (context, { lookback, fraction }) => {
+    const { capital, tradeHistory, params } = context;
+    if (tradeHistory.length < lookback) {
+      return {
+        baseAmount: percentOfCapital(context),
+        stopLossAmount: context.stopLossDollar,
+        rationale: `${tradeHistory.length} of ${lookback} trades for Kelly, ${params.positionSizePercent}% of capital`,
+      };
+    }
+
+    const window = tradeHistory.slice(-lookback);
+    const wins = window.filter((trade) => trade.pnl > 0);
+    const losses = window.filter((trade) => trade.pnl < 0);
+    const winRate = wins.length / window.length;
+    const averageWin =
+      wins.reduce((sum, trade) => sum + trade.pnl, 0) / (wins.length || 1);
+    const averageLoss =
+      -losses.reduce((sum, trade) => sum + trade.pnl, 0) / (losses.length || 1);
+
+    // Without losses the edge has no measured downside, bet the win rate
+    const kellyFraction =
+      losses.length === 0 || averageLoss === 0
+        ? winRate
+        : winRate - (1 - winRate) / (averageWin / averageLoss);
+    const committed = Math.max(kellyFraction, 0) * fraction;
+    return {
+      baseAmount: committed * capital,
+      stopLossAmount: context.stopLossDollar,
+      rationale: `Kelly ${(kellyFraction * 100).toFixed(1)}% (win rate ${(
+        winRate * 100
+      ).toFixed(0)}% over ${lookback} trades) x ${fraction} of ${formatDollars(
+        capital
+      )} capital`,
+    };
+  },
+});
+
+const streakSizing = (
+  id: PositionSizingModelId,
+  name: string,
+  losing: boolean
+) =>
+  defineSizingModel<{ multiplier: number; maxSteps: number }>({
+    id,
+    name,
+    description: `Start at the position size % and multiply it after every ${
+      losing ? "loss" : "win"
+    } in a row, up to the max steps, resetting after a ${
+      losing ? "win" : "loss"
+    }.`,
+    fields: [
+      {
+        key: "multiplier",
+        label: "Size Multiplier",
+        defaultValue: 2,
+        min: 1,
+        step: 0.1,
+      },
+      { key: "maxSteps", label: "Max Steps", defaultValue: 4, min: 0 },
+    ],
+    size: (context, { multiplier, maxSteps }) => {
+      const streak = currentStreak(context.tradeHistory, losing);
+      const steps = Math.min(streak, maxSteps);
+      return {
+        baseAmount: percentOfCapital(context) * Math.pow(multiplier, steps),
+        stopLossAmount: context.stopLossDollar,
+        rationale: `${
+          context.params.positionSizePercent
+        }% of capital x ${multiplier}^${steps} after ${streak} ${
+          losing ? "losses" : "wins"
+        } in a row`,
+      };
+    },
+  });
+
+export const POSITION_SIZING_MODELS: Record<
+  PositionSizingModelId,
+  PositionSizingModel
+> = {
+  percent,
+  fixedDollar,
+  fixedRisk,
+  volatilityTarget,
+  kelly,
+  martingale: streakSizing("martingale", "Martingale", true),
+  antiMartingale: streakSizing("antiMartingale", "Anti-martingale", false),
+};
+
+export const isPositionSizingModelId = (
+  value: string
+): value is PositionSizingModelId =>
+  Object.prototype.hasOwnProperty.call(POSITION_SIZING_MODELS, value);
@@ -0,0 +1,75 @@
+import { TakeProfitType, TradeDirection } from "@/lib/engine/types";
+
+// Stop loss check shared by the trailing and fixed stops. For a trailing stop
+// `referencePrice` is the best price since entry (highest for longs, lowest
+// for shorts), for a fixed stop it is the entry price. `currentPrice` is the
+// bar's low for longs and its high for shorts.
+export const isStopLossTriggered = (
+  currentPrice: number,
+  referencePrice: number,
+  leveragedAmount: number,
+  stopLossAmount: number,
+  direction: TradeDirection = "long"
+): boolean => {
+  // Calculate percentage move against the position from the reference price
+  const adverseMove =
+    direction === "long"
+      ? (referencePrice - currentPrice) / referencePrice
+      : (currentPrice - referencePrice) / referencePrice;
+
+  // Calculate dollar loss based on leveraged amount
+  const dollarLoss = leveragedAmount * adverseMove;
+
+  // Return true if dollar loss exceeds stop loss amount
+  return dollarLoss >= stopLossAmount;
+};
+
+// Helper function to accurately calculate stop loss price
+export const calculateStopLossPrice = (
+  referencePrice: number,
+  leveragedAmount: number,
+  stopLossAmount: number,
+  direction: TradeDirection = "long"
+): number => {
+  // Calculate the percentage move that would cause the stop loss amount to be hit
+  const percentageMove = stopLossAmount / leveragedAmount;
+
+  // Calculate the price at which this percentage move would occur
+  // This is the price at which the position should be closed
+  return direction === "long"
+    ? referencePrice * (1 - percentageMove)
+    : referencePrice * (1 + percentageMove);
+};
+
+// Price at which the position books its profit target, or null without one.
+// A dollar target is leveraged P&L, a percent target is the price move from
+// entry.
+export const calculateTakeProfitPrice = (
+  entryPrice: number,
+  leveragedAmount: number,
+  takeProfitType: TakeProfitType,
+  takeProfitValue: number,
+  direction: TradeDirection = "long"
+): number | null => {
+  if (takeProfitType === "none") return null;
+
+  const percentageMove =
+    takeProfitType === "dollar"
+      ? takeProfitValue / leveragedAmount
+      : takeProfitValue / 100;
+
+  return direction === "long"
+    ? entryPrice * (1 + percentageMove)
+    : entryPrice * (1 - percentageMove);
+};
+
+// True when the bar reached the target: its high for longs, its low for shorts
+export const isTakeProfitTriggered = (
+  bar: { highestPrice: number; lowestPrice: number },
+  takeProfitPrice: number,
+  direction: TradeDirection = "long"
+): boolean => {
+  return direction === "long"
+    ? bar.highestPrice >= takeProfitPrice
+    : bar.lowestPrice <= takeProfitPrice;
+};
@@ -0,0 +1,237 @@
+import { GoldPriceDataType } from "@/lib/utils";
+import {
+  shouldOpenPosition,
+  shouldOpenShortPosition,
+} from "@/lib/engine/signals";
+import {
+  bollingerBands,
+  highestHigh,
+  lowestLow,
+  rsi,
+  sma,
+} from "@/lib/engine/indicators";
+
+export type EntryStrategyId =
+  | "momentum"
+  | "maCrossover"
+  | "breakout"
+  | "rsiOversold"
+  | "bollingerTouch"
+  | "meanReversion";
+
+export type StrategyParamField<P> = {
+  key: keyof P & string;
+  label: string;
+  defaultValue: number;
+  min?: number;
+  step?: number;
+};
+
+// Everything a signal may look at when deciding whether to enter on the bar at
+// `index`. Entries fill at that bar's opening price, so signals must only use
+// the opening price of `index` and full bars before it.
+export type EntrySignalContext = {
+  prices: GoldPriceDataType[];
+  index: number;
+  // The simulation's min price movement (% threshold), volatility adjusted
+  threshold: number;
+};
+
+// P is the strategy's own params, keyed by its fields. The signals are
+// declared as methods so a strategy typed with its own params still fits
+// the registry, which only ever hands it params resolved against its fields.
+export type EntryStrategy<
+  P extends Record<string, number> = Record<string, number>
+> = {
+  id: EntryStrategyId;
+  name: string;
+  description: string;
+  fields: StrategyParamField<Record<string, number>>[];
+  shouldEnter(context: EntrySignalContext, params: P): boolean;
+  // The same signal mirrored for opening a short
+  shouldEnterShort(context: EntrySignalContext, params: P): boolean;
+};
+
+// Keeps each strategy's parameters typed while it is defined, its fields'
+// keys checked against P
+const defineStrategy = <P extends Record<string, number>>(
+  strategy: EntryStrategy<P> & { fields: StrategyParamField<P>[] }
+): EntryStrategy<P> => strategy;
+
+const momentum = defineStrategy<Record<string, never>>({
+  id: "momentum",
+  name: "Opening price momentum",
+  description:
+    "Enter when today's opening price is the threshold % above yesterday's (below for shorts).",
+  fields: [],
+  shouldEnter: ({ prices, index, threshold }) =>
+    shouldOpenPosition(
+      prices[index].openingPrice,
+      prices[index - 1].openingPrice,
+      threshold
+    ),
+  shouldEnterShort: ({ prices, index, threshold }) =>
+    shouldOpenShortPosition(
+      prices[index].openingPrice,
+      prices[index - 1].openingPrice,
+      threshold
+    ),
+});
+
+// Fast/slow averages as of yesterday and the day before
+const crossoverAverages = (
+  prices: GoldPriceDataType[],
+  index: number,
+  fastPeriod: number,
+  slowPeriod: number
+) => {
+  const fast = sma(prices, index - 1, fastPeriod);
+  const slow = sma(prices, index - 1, slowPeriod);
+  const previousFast = sma(prices, index - 2, fastPeriod);
+  const previousSlow = sma(prices, index - 2, slowPeriod);
+  if (
+    fast === null ||
+    slow === null ||
+    previousFast === null ||
+    previousSlow === null
+  )
+    return null;
+  return { fast, slow, previousFast, previousSlow };
+};
+
+const maCrossover = defineStrategy<{ fastPeriod: number; slowPeriod: number }>({
+  id: "maCrossover",
+  name: "Moving average crossover",
+  description:
+    "Enter when the fast moving average of closes crosses above the slow one (below for shorts).",
+  fields: [
+    { key: "fastPeriod", label: "Fast MA Period", defaultValue: 5, min: 1 },
+    { key: "slowPeriod", label: "Slow MA Period", defaultValue: 20, min: 2 },
+  ],
+  shouldEnter: ({ prices, index }, { fastPeriod, slowPeriod }) => {
+    const averages = crossoverAverages(prices, index, fastPeriod, slowPeriod);
+    if (!averages) return false;
+    const { fast, slow, previousFast, previousSlow } = averages;
+    return previousFast <= previousSlow && fast > slow;
+  },
+  shouldEnterShort: ({ prices, index }, { fastPeriod, slowPeriod }) => {
+    const averages = crossoverAverages(prices, index, fastPeriod, slowPeriod);
+    if (!averages) return false;
+    const { fast, slow, previousFast, previousSlow } = averages;
+    return previousFast >= previousSlow && fast < slow;
+  },
+});
+
+const breakout = defineStrategy<{ lookback: number }>({
+  id: "breakout",
+  name: "N-day high breakout",
+  description:
+    "Enter when today opens above the highest high of the last N days (below the lowest low for shorts).",
+  fields: [
+    {
+      key: "lookback",
+      label: "Breakout Lookback (days)",
+      defaultValue: 20,
+      min: 1,
+    },
+  ],
+  shouldEnter: ({ prices, index }, { lookback }) => {
+    const high = highestHigh(prices, index - 1, lookback);
+    return high !== null && prices[index].openingPrice > high;
+  },
+  shouldEnterShort: ({ prices, index }, { lookback }) => {
+    const low = lowestLow(prices, index - 1, lookback);
+    return low !== null && prices[index].openingPrice < low;
+  },
+});
+
+const rsiOversold = defineStrategy<{ period: number; oversold: number }>({
+  id: "rsiOversold",
+  name: "RSI oversold",
+  description:
+    "Enter when yesterday's RSI closed at or below the oversold level (at or above 100 minus it for shorts).",
+  fields: [
+    { key: "period", label: "RSI Period", defaultValue: 14, min: 2 },
+    { key: "oversold", label: "RSI Oversold Level", defaultValue: 30, min: 0 },
+  ],
+  shouldEnter: ({ prices, index }, { period, oversold }) => {
+    const value = rsi(prices, index - 1, period);
+    return value !== null && value <= oversold;
+  },
+  shouldEnterShort: ({ prices, index }, { period, oversold }) => {
+    const value = rsi(prices, index - 1, period);
+    return value !== null && value >= 100 - oversold;
+  },
+});
+
+const bollingerTouch = defineStrategy<{ period: number; stdDevs: number }>({
+  id: "bollingerTouch",
+  name: "Bollinger band touch",
+  description:
+    "Enter after yesterday's low touched the lower Bollinger band (high touched the upper band for shorts).",
+  fields: [
+    { key: "period", label: "Bollinger Period", defaultValue: 20, min: 2 },
+    {
+      key: "stdDevs",
+      label: "Bollinger Width (std devs)",
+      defaultValue: 2,
+      min: 0,
+      step: 0.1,
+    },
+  ],
+  shouldEnter: ({ prices, index }, { period, stdDevs }) => {
+    const bands = bollingerBands(prices, index - 1, period, stdDevs);
+    return bands !== null && prices[index - 1].lowestPrice <= bands.lower;
+  },
+  shouldEnterShort: ({ prices, index }, { period, stdDevs }) => {
+    const bands = bollingerBands(prices, index - 1, period, stdDevs);
+    return bands !== null && prices[index - 1].highestPrice >= bands.upper;
+  },
+});
+
+const meanReversion = defineStrategy<Record<string, never>>({
+  id: "meanReversion",
+  name: "Mean reversion after a down day",
+  description:
+    "Enter when yesterday closed at least the threshold % below the day before (above for shorts).",
+  fields: [],
+  shouldEnter: ({ prices, index, threshold }) => {
+    if (index < 2) return false;
+    const previousClose = prices[index - 1].currentPrice;
+    const closeBefore = prices[index - 2].currentPrice;
+    const change = ((previousClose - closeBefore) / closeBefore) * 100;
+    return change <= -threshold;
+  },
+  shouldEnterShort: ({ prices, index, threshold }) => {
+    if (index < 2) return false;
+    const previousClose = prices[index - 1].currentPrice;
+    const closeBefore = prices[index - 2].currentPrice;
+    const change = ((previousClose - closeBefore) / closeBefore) * 100;
+    return change >= threshold;
+  },
+});
+
+export const ENTRY_STRATEGIES: Record<EntryStrategyId, EntryStrategy> = {
+  momentum,
+  maCrossover,
+  breakout,
+  rsiOversold,
+  bollingerTouch,
+  meanReversion,
+};
+
+export const isEntryStrategyId = (value: string): value is EntryStrategyId =>
+  Object.prototype.hasOwnProperty.call(ENTRY_STRATEGIES, value);
+
+// Fills in defaults for any of the strategy's params that were not provided.
+// Also used for the params of the position sizing models.
+export const resolveStrategyParams = (
+  strategy: { fields: StrategyParamField<Record<string, number>>[] },
+  overrides: Record<string, number>
+): Record<string, number> => {
+  const resolved: Record<string, number> = {};
+  for (const field of strategy.fields) {
+    resolved[field.key] = overrides[field.key] ?? field.defaultValue;
+  }
+  return resolved;
+};
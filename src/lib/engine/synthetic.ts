@@ -0,0 +1,367 @@
+import { GoldPriceDataType } from "@/lib/utils";
+import { DAY_MS, isoDateOfTime } from "@/lib/dates";
+import {
+  resolveStrategyParams,
+  StrategyParamField,
+} from "@/lib/engine/strategies";
+import { createRandom, gaussian } from "@/lib/engine/random";
+
+export type SyntheticGeneratorId =
+  | "gbm"
+  | "garch"
+  | "jumpDiffusion"
+  | "regimeSwitching";
+
+// One bar of a generated path: its close-to-close log return and the daily
+// volatility it was drawn with, which also sets the bar's gap and range
+export type SyntheticStep = { logReturn: number; volatility: number };
+
+// Typed by its own params like EntryStrategy, and for the same reason
+// `steps` is a method
+export type SyntheticGenerator<
+  P extends Record<string, number> = Record<string, number>
+> = {
+  id: SyntheticGeneratorId;
+  name: string;
+  description: string;
+  fields: StrategyParamField<Record<string, number>>[];
+  steps(random: () => number, bars: number, params: P): SyntheticStep[];
+};
+
+export type SyntheticSeriesConfig = {
+  generator: SyntheticGeneratorId;
+  bars: number;
+  startPrice: number;
+  seed: number;
+  // Overrides of the generator's field defaults
+  generatorParams: Record<string, number>;
+};
+
+const defineGenerator = <P extends Record<string, number>>(
+  generator: SyntheticGenerator<P> & { fields: StrategyParamField<P>[] }
+): SyntheticGenerator<P> => generator;
+
+// Fields are annual percentages, generated bars are trading days
+const BARS_PER_YEAR = 252;
+const dailyDrift = (annualPercent: number) =>
+  annualPercent / 100 / BARS_PER_YEAR;
+const dailyVolatility = (annualPercent: number) =>
+  annualPercent / 100 / Math.sqrt(BARS_PER_YEAR);
+
+const driftField = {
+  key: "drift",
+  label: "Drift (% per year)",
+  defaultValue: 5,
+  step: 0.5,
+} as const;
+const volatilityField = {
+  key: "volatility",
+  label: "Volatility (% per year)",
+  defaultValue: 15,
+  min: 0,
+  step: 0.5,
+} as const;
+
+// Log return of a lognormal step with the given daily drift and volatility
+const diffusion = (random: () => number, drift: number, volatility: number) =>
+  drift - (volatility * volatility) / 2 + volatility * gaussian(random);
+
+const gbm = defineGenerator<{ drift: number; volatility: number }>({
+  id: "gbm",
+  name: "Geometric Brownian motion",
+  description:
+    "Independent lognormal returns with constant drift and volatility.",
+  fields: [driftField, volatilityField],
+  steps: (random, bars, { drift, volatility }) => {
+    const mu = dailyDrift(drift);
+    const sigma = dailyVolatility(volatility);
+    return Array.from({ length: bars }, () => ({
+      logReturn: diffusion(random, mu, sigma),
+      volatility: sigma,
+    }));
+  },
+});
+
+// GARCH(1,1): today's variance mixes the long-run variance, yesterday's
+// squared shock (alpha) and yesterday's variance (beta)
+const garch = defineGenerator<{
+  drift: number;
+  volatility: number;
+  alpha: number;
+  beta: number;
+}>({
+  id: "garch",
+  name: "GARCH volatility clustering",
+  description:
+    "Volatility reacts to each shock and decays back to its long-run level, so calm and turbulent stretches cluster.",
+  fields: [
+    driftField,
+    { ...volatilityField, label: "Long-Run Volatility (% per year)" },
+    {
+      key: "alpha",
+      label: "Shock Weight (alpha)",
+      defaultValue: 0.1,
+      min: 0,
+      step: 0.01,
+    },
+    {
+      key: "beta",
+      label: "Persistence (beta)",
+      defaultValue: 0.85,
+      min: 0,
+      step: 0.01,
+    },
+  ],
+  steps: (random, bars, { drift, volatility, alpha, beta }) => {
+    const mu = dailyDrift(drift);
+    const longRunVariance = dailyVolatility(volatility) ** 2;
+    const omega = longRunVariance * (1 - alpha - beta);
+    let variance = longRunVariance;
+    let shock = 0;
+    return Array.from({ length: bars }, () => {
+      variance = omega + alpha * shock * shock + beta * variance;
+      const sigma = Math.sqrt(variance);
+      shock = sigma * gaussian(random);
+      return { logReturn: mu - variance / 2 + shock, volatility: sigma };
+    });
+  },
+});
+
+// Merton-style: GBM plus crashes arriving at a Poisson rate, each dropping
+// the price by about the crash size
+const jumpDiffusion = defineGenerator<{
+  drift: number;
+  volatility: number;
+  jumpsPerYear: number;
+  crashPercent: number;
+  crashVolatility: number;
+}>({
+  id: "jumpDiffusion",
+  name: "Jump diffusion (crashes)",
+  description:
+    "Geometric Brownian motion with sudden crashes of a configurable size.",
+  fields: [
+    driftField,
+    volatilityField,
+    {
+      key: "jumpsPerYear",
+      label: "Crashes per Year",
+      defaultValue: 2,
+      min: 0,
+      step: 0.5,
+    },
+    {
+      key: "crashPercent",
+      label: "Crash Size (%)",
+      defaultValue: 8,
+      min: 0,
+      step: 0.5,
+    },
+    {
+      key: "crashVolatility",
+      label: "Crash Size Spread (%)",
+      defaultValue: 3,
+      min: 0,
+      step: 0.5,
+    },
+  ],
+  steps: (
+    random,
+    bars,
+    { drift, volatility, jumpsPerYear, crashPercent, crashVolatility }
+  ) => {
+    const mu = dailyDrift(drift);
+    const sigma = dailyVolatility(volatility);
+    const jumpProbability = jumpsPerYear / BARS_PER_YEAR;
+    const meanJump = Math.log(Math.max(1 - crashPercent / 100, 0.01));
+    return Array.from({ length: bars }, () => {
+      const jump =
+        random() < jumpProbability
+          ? meanJump + (crashVolatility / 100) * gaussian(random)
+          : 0;
+      return {
+        logReturn: diffusion(random, mu, sigma) + jump,
+        volatility: sigma + Math.abs(jump),
+      };
+    });
+  },
+});
+
+// Two-state Markov chain between a calm and a turbulent regime, each bar
+// switching with the current regime's exit probability
+const regimeSwitching = defineGenerator<{
+  calmDrift: number;
+  calmVolatility: number;
+  turbulentDrift: number;
+  turbulentVolatility: number;
+  calmExitPercent: number;
+  turbulentExitPercent: number;
+}>({
+  id: "regimeSwitching",
+  name: "Regime switching",
+  description:
+    "Switches at random between a calm, trending regime and a turbulent, falling one.",
+  fields: [
+    {
+      key: "calmDrift",
+      label: "Calm Drift (% per year)",
+      defaultValue: 10,
+      step: 0.5,
+    },
+    {
+      key: "calmVolatility",
+      label: "Calm Volatility (% per year)",
+      defaultValue: 10,
+      min: 0,
+      step: 0.5,
+    },
+    {
+      key: "turbulentDrift",
+      label: "Turbulent Drift (% per year)",
+      defaultValue: -20,
+      step: 0.5,
+    },
+    {
+      key: "turbulentVolatility",
+      label: "Turbulent Volatility (% per year)",
+      defaultValue: 30,
+      min: 0,
+      step: 0.5,
+    },
+    {
+      key: "calmExitPercent",
+      label: "Calm → Turbulent (% per bar)",
+      defaultValue: 2,
+      min: 0,
+      step: 0.5,
+    },
+    {
+      key: "turbulentExitPercent",
+      label: "Turbulent → Calm (% per bar)",
+      defaultValue: 5,
+      min: 0,
+      step: 0.5,
+    },
+  ],
+  steps: (random, bars, params) => {
+    let turbulent = false;
+    return Array.from({ length: bars }, () => {
+      const exitPercent = turbulent
+        ? params.turbulentExitPercent
+        : params.calmExitPercent;
+      if (random() < exitPercent / 100) turbulent = !turbulent;
+      const mu = dailyDrift(
+        turbulent ? params.turbulentDrift : params.calmDrift
+      );
+      const sigma = dailyVolatility(
+        turbulent ? params.turbulentVolatility : params.calmVolatility
+      );
+      return { logReturn: diffusion(random, mu, sigma), volatility: sigma };
+    });
+  },
+});
+
+export const SYNTHETIC_GENERATORS: Record<
+  SyntheticGeneratorId,
+  SyntheticGenerator
+> = {
+  gbm,
+  garch,
+  jumpDiffusion,
+  regimeSwitching,
+};
+
+export const isSyntheticGeneratorId = (
+  id: string
+): id is SyntheticGeneratorId =>
+  Object.prototype.hasOwnProperty.call(SYNTHETIC_GENERATORS, id);
+
+export const DEFAULT_SYNTHETIC_SERIES_CONFIG: SyntheticSeriesConfig = {
+  generator: "gbm",
+  bars: 500,
+  startPrice: 1800,
+  seed: 1,
+  generatorParams: {},
+};
+
+// Keeps a series small enough to chart and backtest on the main thread
+export const MAX_SYNTHETIC_BARS = 20000;
+
+export const validateSyntheticSeriesConfig = (
+  config: SyntheticSeriesConfig
+): boolean => {
+  if (!isSyntheticGeneratorId(config.generator)) return false;
+  if (!Number.isInteger(config.bars)) return false;
+  if (config.bars < 2 || config.bars > MAX_SYNTHETIC_BARS) return false;
+  if (!Number.isFinite(config.startPrice) || !(config.startPrice > 0))
+    return false;
+  if (!Number.isFinite(config.seed)) return false;
+  const params = resolveStrategyParams(
+    SYNTHETIC_GENERATORS[config.generator],
+    config.generatorParams
+  );
+  for (const field of SYNTHETIC_GENERATORS[config.generator].fields) {
+    const value = params[field.key];
+    if (!Number.isFinite(value)) return false;
+    if (field.min !== undefined && value < field.min) return false;
+  }
+  // GARCH is only stationary while shocks decay
+  if (config.generator === "garch" && params.alpha + params.beta >= 1) {
+    return false;
+  }
+  return true;
+};
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+// Midnight UTC of the weekdays from the first Monday of 2024
+const syntheticTimes = (bars: number): number[] => {
+  const times: number[] = [];
+  for (let time = Date.UTC(2024, 0, 1); times.length < bars; time += DAY_MS) {
+    const weekday = new Date(time).getUTCDay();
+    if (weekday !== 0 && weekday !== 6) times.push(time);
+  }
+  return times;
+};
+
+// Daily bars from the generator's returns. Each bar opens a small gap away
+// from the previous close and its high and low reach past the open and
+// close by a random fraction of the bar's volatility, so
+// low <= open, close <= high always holds.
+export const generateSyntheticSeries = (
+  config: SyntheticSeriesConfig
+): GoldPriceDataType[] => {
+  if (!validateSyntheticSeriesConfig(config)) {
+    throw new Error("invalid synthetic series settings");
+  }
+  const random = createRandom(config.seed);
+  const generator = SYNTHETIC_GENERATORS[config.generator];
+  const params = resolveStrategyParams(generator, config.generatorParams);
+
+  const times = syntheticTimes(config.bars);
+  const bars: GoldPriceDataType[] = [];
+  let previousClose = config.startPrice;
+  for (const [i, step] of generator
+    .steps(random, config.bars, params)
+    .entries()) {
+    const open =
+      i === 0
+        ? previousClose
+        : roundCents(
+            previousClose * Math.exp(0.2 * step.volatility * gaussian(random))
+          );
+    const close = roundCents(previousClose * Math.exp(step.logReturn));
+    const reach = () => Math.abs(gaussian(random)) * 0.5 * step.volatility;
+    bars.push({
+      time: times[i],
+      date: isoDateOfTime(times[i]),
+      dateOnly: true,
+      openingPrice: open,
+      highestPrice: roundCents(Math.max(open, close) * Math.exp(reach())),
+      lowestPrice: roundCents(Math.min(open, close) * Math.exp(-reach())),
+      currentPrice: close,
+    });
+    previousClose = close;
+  }
+  return bars;
+};
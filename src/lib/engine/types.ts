@@ -0,0 +1,195 @@
+import { EntryStrategyId } from "@/lib/engine/strategies";
+import { PositionSizingModelId } from "@/lib/engine/sizing";
+
+export type TradeDirection = "long" | "short";
+
+export type ExitReason =
+  | "trailing stop"
+  | "fixed stop"
+  | "take profit"
+  | "max holding period"
+  | "daily loss limit"
+  | "liquidated"
+  | "end of data";
+
+// Why an entry signal was refused even though there was capital to act on it
+export type SignalRejectionReason =
+  | "daily loss limit"
+  | "max position size"
+  | "max open positions"
+  | "max exposure"
+  | "max capital committed"
+  | "max leverage";
+
+// Every rule of the risk policy that can veto an entry. Signals refused for
+// lack of capital are also counted as skipped trades.
+export type RiskVetoReason = SignalRejectionReason | "insufficient capital";
+
+export type RiskVetoEvent = {
+  date: string;
+  direction: TradeDirection;
+  reason: RiskVetoReason;
+  // What the rule measured for the candidate entry and the limit it broke
+  value: number;
+  limit: number;
+};
+
+// Limits the engine consults before every entry and on every bar. Limits of
+// 0 are disabled.
+export type RiskPolicy = {
+  // Free capital ($) below which no positions are opened
+  minCapital: number;
+  // Highest leverage a position may use, and highest total notional the
+  // account may carry relative to its equity
+  maxLeverage: number;
+  // Largest single position margin (% of free capital)
+  maxPositionSizePercent: number;
+  // Realized plus unrealized loss ($) in one calendar day that trips the
+  // circuit breaker. Once tripped no positions are opened for the rest of
+  // the day, and with closeOnDailyLoss all are closed.
+  maxDailyLoss: number;
+  closeOnDailyLoss: boolean;
+  // Number of open positions, total leveraged notional as a multiple of
+  // equity and total margin committed as a percentage of equity
+  maxOpenPositions: number;
+  maxExposureMultiple: number;
+  maxCapitalCommittedPercent: number;
+  // Margin level (%) below which positions are force-liquidated
+  maintenanceMarginPercent: number;
+};
+
+export type TakeProfitType = "none" | "dollar" | "percent";
+
+export type VolatilityMeasure = "none" | "atr" | "stdDev";
+
+// Scales the stop loss amount and the entry threshold by the rolling
+// volatility over a reference level, so both widen in volatile periods
+export type VolatilityAdjustment = {
+  // ATR as a % of the close, or the std dev of daily close-to-close returns
+  measure: VolatilityMeasure;
+  period: number;
+  // Volatility (%) at which stopLossDollar and minPriceMovement apply as set
+  referencePercent: number;
+};
+
+export type TradeData = {
+  direction: TradeDirection;
+  entry: string;
+  exit: string;
+  entryPrice: number;
+  exitPrice: number;
+  highestPrice: number;
+  lowestPrice: number;
+  baseAmount: number;
+  leveragedAmount: number;
+  pnl: number;
+  fees: number;
+  exitReason: ExitReason;
+  // How the sizing model arrived at baseAmount
+  sizeRationale: string;
+  daysHeld: number;
+  remainingCapital: number;
+  capitalAtEntry: number;
+};
+
+export type OpenPosition = {
+  direction: TradeDirection;
+  entryDate: string;
+  entryPrice: number;
+  currentPrice: number;
+  highestPrice: number;
+  lowestPrice: number;
+  baseAmount: number;
+  leveragedAmount: number;
+  unrealizedPnl: number;
+  accumulatedFees: number;
+  capitalAtEntry: number;
+};
+
+// A position while the engine is still managing it
+export type ActivePosition = {
+  direction: TradeDirection;
+  entryPrice: number;
+  entryDate: string;
+  entryTime: number;
+  // Exchange day of the entry bar
+  entryDay: string;
+  highestPrice: number;
+  lowestPrice: number;
+  baseAmount: number;
+  leveragedAmount: number;
+  takeProfitPrice: number | null;
+  // Leveraged loss ($) at which the stop fires, set by the sizing model
+  stopLossAmount: number;
+  sizeRationale: string;
+  accumulatedFees: number;
+  // Exchange day the daily fee was last charged for
+  lastFeeDay: string;
+  remainingCapitalAtEntry: number;
+};
+
+export type EquityPoint = {
+  date: string;
+  equity: number;
+  // Worst margin level (%) of the bar, null when no positions were open
+  marginLevel: number | null;
+};
+
+export type ExitReasonSummary = {
+  reason: ExitReason;
+  trades: number;
+  pnl: number;
+  fees: number;
+};
+
+export type SimulationResults = {
+  finalCapital: number;
+  totalProfitLoss: number;
+  totalTrades: number;
+  totalFees: number;
+  equityCurve: EquityPoint[];
+  tradeHistory: TradeData[];
+  successRate: number;
+  maxDrawdown: number;
+  maxConsecutiveLosses: number;
+  avgProfitPerTrade: number;
+  openPositions: OpenPosition[];
+  skippedTrades: number;
+  rejectedSignals: Record<SignalRejectionReason, number>;
+  // Every entry the risk policy vetoed, in order
+  riskEvents: RiskVetoEvent[];
+  // Exchange days on which the daily loss circuit breaker tripped
+  circuitBreakerDates: string[];
+};
+
+export type SimulationParams = {
+  investmentCapital: number;
+  positionSizePercent: number;
+  leverage: number;
+  stopLossDollar: number;
+  minPriceMovement: number;
+  dailyFeePercent: number;
+  // Trail the stop from the best price since entry, or keep it fixed at
+  // stopLossDollar from the entry price
+  useTrailingStop: boolean;
+  takeProfitType: TakeProfitType;
+  // Leveraged P&L in $ or price move in %, depending on takeProfitType
+  takeProfitValue: number;
+  // Close positions at the bar's close once held longer than this, 0 for no
+  // limit. Days suit daily bars, hours intraday bars.
+  maxHoldingPeriod: number;
+  maxHoldingUnit: "days" | "hours";
+  volatilityAdjustment: VolatilityAdjustment;
+  risk: RiskPolicy;
+  // Which sides the entry strategy is allowed to open
+  tradeDirection: TradeDirection | "both";
+  entryStrategy: EntryStrategyId;
+  // Values for the selected strategy's fields, defaults fill the gaps
+  strategyParams: Record<string, number>;
+  // How each entry is sized; "percent" uses positionSizePercent of capital
+  sizingModel: PositionSizingModelId;
+  sizingParams: Record<string, number>;
+  // IANA timezone whose calendar days the daily fee, days held and the
+  // daily loss limit count in
+  exchangeTimeZone: string;
+};
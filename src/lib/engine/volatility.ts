@@ -0,0 +1,34 @@
+import { GoldPriceDataType } from "@/lib/utils";
+import { atr, closeToCloseVolatility } from "@/lib/engine/indicators";
+import { VolatilityAdjustment } from "@/lib/engine/types";
+
+// Rolling volatility as a percentage of price: the ATR over the close, or
+// the standard deviation of daily close-to-close returns. Null when the
+// adjustment is off or there is not enough history.
+export const volatilityPercent = (
+  prices: GoldPriceDataType[],
+  index: number,
+  adjustment: VolatilityAdjustment
+): number | null => {
+  if (adjustment.measure === "atr") {
+    const range = atr(prices, index, adjustment.period);
+    return range === null ? null : (range / prices[index].currentPrice) * 100;
+  }
+  if (adjustment.measure === "stdDev") {
+    return closeToCloseVolatility(prices, index, adjustment.period);
+  }
+  return null;
+};
+
+// How much wider (or tighter) the stop and entry threshold are than
+// configured for an entry on the bar at `index`, from the volatility as of
+// the bar before. 1 without an adjustment or history to measure.
+export const volatilityScale = (
+  prices: GoldPriceDataType[],
+  index: number,
+  adjustment: VolatilityAdjustment
+): number => {
+  const volatility = volatilityPercent(prices, index - 1, adjustment);
+  if (volatility === null || volatility <= 0) return 1;
+  return volatility / adjustment.referencePercent;
+};
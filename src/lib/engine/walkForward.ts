@@ -0,0 +1,129 @@
+import { GoldPriceDataType } from "@/lib/utils";
+import { runBacktest } from "@/lib/engine/backtest";
+import { calculateAnnualizedReturn } from "@/lib/engine/metrics";
+import {
+  OptimizationObjective,
+  OptimizationRun,
+  runGridSearch,
+  summarizeRun,
+  SweepRanges,
+} from "@/lib/engine/optimizer";
+import { EquityPoint, SimulationParams } from "@/lib/engine/types";
+
+export type WalkForwardConfig = {
+  // Bars each in-sample window optimizes over and bars of the out-of-sample
+  // window traded after it. Windows roll forward by the out-of-sample length.
+  inSampleBars: number;
+  outOfSampleBars: number;
+  ranges: SweepRanges;
+  objective: OptimizationObjective;
+};
+
+export type WalkForwardWindow = {
+  inSample: { start: string; end: string };
+  outOfSample: { start: string; end: string };
+  // The in-sample winner, and the same params run on the out-of-sample bars
+  best: OptimizationRun;
+  outOfSampleRun: OptimizationRun;
+  // Out-of-sample over in-sample annualized return, null when the in-sample
+  // winner did not make money
+  efficiency: number | null;
+};
+
+export type WalkForwardResults = {
+  windows: WalkForwardWindow[];
+  // The out-of-sample equity curves stitched together, each window starting
+  // with the capital the previous one finished on
+  equityCurve: EquityPoint[];
+  finalCapital: number;
+  annualizedReturn: number;
+  // Stitched out-of-sample annualized return over the mean in-sample one
+  efficiency: number | null;
+};
+
+const efficiencyOf = (outOfSample: number, inSample: number) =>
+  inSample > 0 ? outOfSample / inSample : null;
+
+// Optimizes on each in-sample window and trades the winner untouched on the
+// window after it. Every slice keeps the bar before its first traded bar,
+// since entries compare against the previous bar.
+export const runWalkForward = (
+  prices: GoldPriceDataType[],
+  base: SimulationParams,
+  config: WalkForwardConfig
+): WalkForwardResults => {
+  const { inSampleBars, outOfSampleBars } = config;
+  if (inSampleBars < 2 || outOfSampleBars < 1) {
+    throw new Error(
+      "walk-forward needs at least 2 in-sample bars and 1 out-of-sample bar"
+    );
+  }
+  if (prices.length < inSampleBars + outOfSampleBars) {
+    throw new Error(
+      `${prices.length} bars are not enough for one ${inSampleBars} + ${outOfSampleBars} bar window`
+    );
+  }
+
+  const windows: WalkForwardWindow[] = [];
+  const equityCurve: EquityPoint[] = [];
+  let capital = base.investmentCapital;
+
+  for (
+    let start = 0;
+    start + inSampleBars + outOfSampleBars <= prices.length && capital > 0;
+    start += outOfSampleBars
+  ) {
+    const inSamplePrices = prices.slice(start, start + inSampleBars);
+    const outOfSamplePrices = prices.slice(
+      start + inSampleBars - 1,
+      start + inSampleBars + outOfSampleBars
+    );
+
+    const [best] = runGridSearch(
+      inSamplePrices,
+      { ...base, investmentCapital: capital },
+      config.ranges,
+      config.objective
+    ).runs;
+    if (!best) break;
+
+    const results = runBacktest(outOfSamplePrices, best.params);
+    const outOfSampleRun = summarizeRun(best.params, best.values, results);
+    windows.push({
+      inSample: {
+        start: inSamplePrices[0].date,
+        end: inSamplePrices[inSamplePrices.length - 1].date,
+      },
+      outOfSample: {
+        start: outOfSamplePrices[1].date,
+        end: outOfSamplePrices[outOfSamplePrices.length - 1].date,
+      },
+      best,
+      outOfSampleRun,
+      efficiency: efficiencyOf(
+        outOfSampleRun.annualizedReturn,
+        best.annualizedReturn
+      ),
+    });
+
+    equityCurve.push(...results.equityCurve);
+    capital = results.finalCapital;
+  }
+
+  const annualizedReturn = calculateAnnualizedReturn(
+    equityCurve,
+    base.investmentCapital
+  );
+  const inSampleReturns = windows.map((window) => window.best.annualizedReturn);
+  const meanInSampleReturn =
+    inSampleReturns.reduce((sum, value) => sum + value, 0) /
+    (inSampleReturns.length || 1);
+
+  return {
+    windows,
+    equityCurve,
+    finalCapital: capital,
+    annualizedReturn,
+    efficiency: efficiencyOf(annualizedReturn, meanInSampleReturn),
+  };
+};
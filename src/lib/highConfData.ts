@@ -1,2486 +1,2486 @@
 export const highConfidencePrices = [
   {
-    date: "2/24/2023",
+    date: "2023-02-24",
     price: 1823.16,
   },
   {
-    date: "2/26/2023",
+    date: "2023-02-26",
     price: 1817.1,
   },
   {
-    date: "2/27/2023",
+    date: "2023-02-27",
     price: 1817.08,
   },
   {
-    date: "2/28/2023",
+    date: "2023-02-28",
     price: 1825.49,
   },
   {
-    date: "3/1/2023",
+    date: "2023-03-01",
     price: 1836.51,
   },
   {
-    date: "3/2/2023",
+    date: "2023-03-02",
     price: 1837.66,
   },
   {
-    date: "3/3/2023",
+    date: "2023-03-03",
     price: 1855.18,
   },
   {
-    date: "3/5/2023",
+    date: "2023-03-05",
     price: 1858.3,
   },
   {
-    date: "3/6/2023",
+    date: "2023-03-06",
     price: 1852.31,
   },
   {
-    date: "3/7/2023",
+    date: "2023-03-07",
     price: 1845.36,
   },
   {
-    date: "3/8/2023",
+    date: "2023-03-08",
     price: 1815.12,
   },
   {
-    date: "3/9/2023",
+    date: "2023-03-09",
     price: 1831.37,
   },
   {
-    date: "3/10/2023",
+    date: "2023-03-10",
     price: 1867.05,
   },
   {
-    date: "3/12/2023",
+    date: "2023-03-12",
     price: 1877.59,
   },
   {
-    date: "3/13/2023",
+    date: "2023-03-13",
     price: 1912.13,
   },
   {
-    date: "3/14/2023",
+    date: "2023-03-14",
     price: 1911.76,
   },
   {
-    date: "3/15/2023",
+    date: "2023-03-15",
     price: 1921.03,
   },
   {
-    date: "3/16/2023",
+    date: "2023-03-16",
     price: 1921.46,
   },
   {
-    date: "3/17/2023",
+    date: "2023-03-17",
     price: 1987.46,
   },
   {
-    date: "3/19/2023",
+    date: "2023-03-19",
     price: 1988.78,
   },
   {
-    date: "3/20/2023",
+    date: "2023-03-20",
     price: 1976.52,
   },
   {
-    date: "3/21/2023",
+    date: "2023-03-21",
     price: 1977.26,
   },
   {
-    date: "3/22/2023",
+    date: "2023-03-22",
     price: 1969.57,
   },
   {
-    date: "3/23/2023",
+    date: "2023-03-23",
     price: 1991.23,
   },
   {
-    date: "3/24/2023",
+    date: "2023-03-24",
     price: 1991.37,
   },
   {
-    date: "3/26/2023",
+    date: "2023-03-26",
     price: 1978.32,
   },
   {
-    date: "3/27/2023",
+    date: "2023-03-27",
     price: 1975.63,
   },
   {
-    date: "3/28/2023",
+    date: "2023-03-28",
     price: 1971.86,
   },
   {
-    date: "3/29/2023",
+    date: "2023-03-29",
     price: 1972.27,
   },
   {
-    date: "3/30/2023",
+    date: "2023-03-30",
     price: 1978.39,
   },
   {
-    date: "3/31/2023",
+    date: "2023-03-31",
     price: 1978.21,
   },
   {
-    date: "4/2/2023",
+    date: "2023-04-02",
     price: 1969.3,
   },
   {
-    date: "4/3/2023",
+    date: "2023-04-03",
     price: 1984.77,
   },
   {
-    date: "4/4/2023",
+    date: "2023-04-04",
     price: 2021.6,
   },
   {
-    date: "4/5/2023",
+    date: "2023-04-05",
     price: 2021.48,
   },
   {
-    date: "4/6/2023",
+    date: "2023-04-06",
     price: 2020.34,
   },
   {
-    date: "4/7/2023",
+    date: "2023-04-07",
     price: 2007.24,
   },
   {
-    date: "4/9/2023",
+    date: "2023-04-09",
     price: 2020.3,
   },
   {
-    date: "4/10/2023",
+    date: "2023-04-10",
     price: 2005.17,
   },
   {
-    date: "4/11/2023",
+    date: "2023-04-11",
     price: 2004.63,
   },
   {
-    date: "4/12/2023",
+    date: "2023-04-12",
     price: 2018.09,
   },
   {
-    date: "4/13/2023",
+    date: "2023-04-13",
     price: 2039.89,
   },
   {
-    date: "4/14/2023",
+    date: "2023-04-14",
     price: 2039.56,
   },
   {
-    date: "4/16/2023",
+    date: "2023-04-16",
     price: 2004.03,
   },
   {
-    date: "4/17/2023",
+    date: "2023-04-17",
     price: 2002.62,
   },
   {
-    date: "4/18/2023",
+    date: "2023-04-18",
     price: 2005.48,
   },
   {
-    date: "4/19/2023",
+    date: "2023-04-19",
     price: 2005.74,
   },
   {
-    date: "4/20/2023",
+    date: "2023-04-20",
     price: 2004.97,
   },
   {
-    date: "4/21/2023",
+    date: "2023-04-21",
     price: 2005.27,
   },
   {
-    date: "4/23/2023",
+    date: "2023-04-23",
     price: 2001.9,
   },
   {
-    date: "4/24/2023",
+    date: "2023-04-24",
     price: 1995.35,
   },
   {
-    date: "4/25/2023",
+    date: "2023-04-25",
     price: 2000.07,
   },
   {
-    date: "4/26/2023",
+    date: "2023-04-26",
     price: 2000.44,
   },
   {
-    date: "4/27/2023",
+    date: "2023-04-27",
     price: 1991.52,
   },
   {
-    date: "4/28/2023",
+    date: "2023-04-28",
     price: 1989.44,
   },
   {
-    date: "4/30/2023",
+    date: "2023-04-30",
     price: 1989.42,
   },
   {
-    date: "5/1/2023",
+    date: "2023-05-01",
     price: 1986.95,
   },
   {
-    date: "5/2/2023",
+    date: "2023-05-02",
     price: 2015.84,
   },
   {
-    date: "5/3/2023",
+    date: "2023-05-03",
     price: 2051.93,
   },
   {
-    date: "5/4/2023",
+    date: "2023-05-04",
     price: 2052.78,
   },
   {
-    date: "5/5/2023",
+    date: "2023-05-05",
     price: 2049.79,
   },
   {
-    date: "5/7/2023",
+    date: "2023-05-07",
     price: 2016.67,
   },
   {
-    date: "5/8/2023",
+    date: "2023-05-08",
     price: 2021.22,
   },
   {
-    date: "5/9/2023",
+    date: "2023-05-09",
     price: 2036.27,
   },
   {
-    date: "5/10/2023",
+    date: "2023-05-10",
     price: 2036.57,
   },
   {
-    date: "5/11/2023",
+    date: "2023-05-11",
     price: 2031.21,
   },
   {
-    date: "5/12/2023",
+    date: "2023-05-12",
     price: 2016.37,
   },
   {
-    date: "5/14/2023",
+    date: "2023-05-14",
     price: 2010.6,
   },
   {
-    date: "5/15/2023",
+    date: "2023-05-15",
     price: 2014.35,
   },
   {
-    date: "5/16/2023",
+    date: "2023-05-16",
     price: 2014.35,
   },
   {
-    date: "5/17/2023",
+    date: "2023-05-17",
     price: 1988.8,
   },
   {
-    date: "5/18/2023",
+    date: "2023-05-18",
     price: 1982.62,
   },
   {
-    date: "5/19/2023",
+    date: "2023-05-19",
     price: 1977.58,
   },
   {
-    date: "5/21/2023",
+    date: "2023-05-21",
     price: 1980.73,
   },
   {
-    date: "5/22/2023",
+    date: "2023-05-22",
     price: 1981.07,
   },
   {
-    date: "5/23/2023",
+    date: "2023-05-23",
     price: 1975,
   },
   {
-    date: "5/24/2023",
+    date: "2023-05-24",
     price: 1975.19,
   },
   {
-    date: "5/25/2023",
+    date: "2023-05-25",
     price: 1960.03,
   },
   {
-    date: "5/26/2023",
+    date: "2023-05-26",
     price: 1948.96,
   },
   {
-    date: "5/28/2023",
+    date: "2023-05-28",
     price: 1946.6,
   },
   {
-    date: "5/29/2023",
+    date: "2023-05-29",
     price: 1944.04,
   },
   {
-    date: "5/30/2023",
+    date: "2023-05-30",
     price: 1958.6,
   },
   {
-    date: "5/31/2023",
+    date: "2023-05-31",
     price: 1966.31,
   },
   {
-    date: "6/1/2023",
+    date: "2023-06-01",
     price: 1976.87,
   },
   {
-    date: "6/2/2023",
+    date: "2023-06-02",
     price: 1977.15,
   },
   {
-    date: "6/4/2023",
+    date: "2023-06-04",
     price: 1950.6,
   },
   {
-    date: "6/5/2023",
+    date: "2023-06-05",
     price: 1961.24,
   },
   {
-    date: "6/6/2023",
+    date: "2023-06-06",
     price: 1963.2,
   },
   {
-    date: "6/7/2023",
+    date: "2023-06-07",
     price: 1963.29,
   },
   {
-    date: "6/8/2023",
+    date: "2023-06-08",
     price: 1965.33,
   },
   {
-    date: "6/9/2023",
+    date: "2023-06-09",
     price: 1965.2,
   },
   {
-    date: "6/11/2023",
+    date: "2023-06-11",
     price: 1963.1,
   },
   {
-    date: "6/12/2023",
+    date: "2023-06-12",
     price: 1960.09,
   },
   {
-    date: "6/13/2023",
+    date: "2023-06-13",
     price: 1959.98,
   },
   {
-    date: "6/14/2023",
+    date: "2023-06-14",
     price: 1945.16,
   },
   {
-    date: "6/15/2023",
+    date: "2023-06-15",
     price: 1958.25,
   },
   {
-    date: "6/16/2023",
+    date: "2023-06-16",
     price: 1958.23,
   },
   {
-    date: "6/18/2023",
+    date: "2023-06-18",
     price: 1957.45,
   },
   {
-    date: "6/19/2023",
+    date: "2023-06-19",
     price: 1957,
   },
   {
-    date: "6/20/2023",
+    date: "2023-06-20",
     price: 1952.39,
   },
   {
-    date: "6/21/2023",
+    date: "2023-06-21",
     price: 1936.55,
   },
   {
-    date: "6/22/2023",
+    date: "2023-06-22",
     price: 1933.91,
   },
   {
-    date: "6/23/2023",
+    date: "2023-06-23",
     price: 1920.79,
   },
   {
-    date: "6/25/2023",
+    date: "2023-06-25",
     price: 1925.29,
   },
   {
-    date: "6/26/2023",
+    date: "2023-06-26",
     price: 1925.22,
   },
   {
-    date: "6/27/2023",
+    date: "2023-06-27",
     price: 1922.57,
   },
   {
-    date: "6/28/2023",
+    date: "2023-06-28",
     price: 1915.26,
   },
   {
-    date: "6/29/2023",
+    date: "2023-06-29",
     price: 1909.47,
   },
   {
-    date: "6/30/2023",
+    date: "2023-06-30",
     price: 1919.2,
   },
   {
-    date: "7/2/2023",
+    date: "2023-07-02",
     price: 1920.3,
   },
   {
-    date: "7/3/2023",
+    date: "2023-07-03",
     price: 1921.17,
   },
   {
-    date: "7/4/2023",
+    date: "2023-07-04",
     price: 1926.23,
   },
   {
-    date: "7/5/2023",
+    date: "2023-07-05",
     price: 1926.34,
   },
   {
-    date: "7/6/2023",
+    date: "2023-07-06",
     price: 1916.75,
   },
   {
-    date: "7/7/2023",
+    date: "2023-07-07",
     price: 1925.53,
   },
   {
-    date: "7/9/2023",
+    date: "2023-07-09",
     price: 1925.43,
   },
   {
-    date: "7/10/2023",
+    date: "2023-07-10",
     price: 1924.99,
   },
   {
-    date: "7/11/2023",
+    date: "2023-07-11",
     price: 1933.19,
   },
   {
-    date: "7/12/2023",
+    date: "2023-07-12",
     price: 1957.68,
   },
   {
-    date: "7/13/2023",
+    date: "2023-07-13",
     price: 1959.88,
   },
   {
-    date: "7/14/2023",
+    date: "2023-07-14",
     price: 1960.34,
   },
   {
-    date: "7/16/2023",
+    date: "2023-07-16",
     price: 1957.9,
   },
   {
-    date: "7/17/2023",
+    date: "2023-07-17",
     price: 1955.39,
   },
   {
-    date: "7/18/2023",
+    date: "2023-07-18",
     price: 1977.43,
   },
   {
-    date: "7/19/2023",
+    date: "2023-07-19",
     price: 1977.65,
   },
   {
-    date: "7/20/2023",
+    date: "2023-07-20",
     price: 1977.55,
   },
   {
-    date: "7/21/2023",
+    date: "2023-07-21",
     price: 1972.14,
   },
   {
-    date: "7/23/2023",
+    date: "2023-07-23",
     price: 1962.3,
   },
   {
-    date: "7/24/2023",
+    date: "2023-07-24",
     price: 1961.19,
   },
   {
-    date: "7/25/2023",
+    date: "2023-07-25",
     price: 1965.29,
   },
   {
-    date: "7/26/2023",
+    date: "2023-07-26",
     price: 1971.98,
   },
   {
-    date: "7/27/2023",
+    date: "2023-07-27",
     price: 1971.97,
   },
   {
-    date: "7/28/2023",
+    date: "2023-07-28",
     price: 1959,
   },
   {
-    date: "7/30/2023",
+    date: "2023-07-30",
     price: 1959.1,
   },
   {
-    date: "7/31/2023",
+    date: "2023-07-31",
     price: 1963.95,
   },
   {
-    date: "8/1/2023",
+    date: "2023-08-01",
     price: 1963.88,
   },
   {
-    date: "8/2/2023",
+    date: "2023-08-02",
     price: 1951.66,
   },
   {
-    date: "8/3/2023",
+    date: "2023-08-03",
     price: 1936.11,
   },
   {
-    date: "8/4/2023",
+    date: "2023-08-04",
     price: 1942.51,
   },
   {
-    date: "8/6/2023",
+    date: "2023-08-06",
     price: 1942.51,
   },
   {
-    date: "8/7/2023",
+    date: "2023-08-07",
     price: 1944.78,
   },
   {
-    date: "8/8/2023",
+    date: "2023-08-08",
     price: 1936.82,
   },
   {
-    date: "8/9/2023",
+    date: "2023-08-09",
     price: 1925.49,
   },
   {
-    date: "8/10/2023",
+    date: "2023-08-10",
     price: 1916.56,
   },
   {
-    date: "8/11/2023",
+    date: "2023-08-11",
     price: 1913.56,
   },
   {
-    date: "8/13/2023",
+    date: "2023-08-13",
     price: 1913.69,
   },
   {
-    date: "8/14/2023",
+    date: "2023-08-14",
     price: 1913.67,
   },
   {
-    date: "8/15/2023",
+    date: "2023-08-15",
     price: 1907.53,
   },
   {
-    date: "8/16/2023",
+    date: "2023-08-16",
     price: 1901.31,
   },
   {
-    date: "8/17/2023",
+    date: "2023-08-17",
     price: 1893.17,
   },
   {
-    date: "8/18/2023",
+    date: "2023-08-18",
     price: 1891.29,
   },
   {
-    date: "8/20/2023",
+    date: "2023-08-20",
     price: 1889.28,
   },
   {
-    date: "8/22/2023",
+    date: "2023-08-22",
     price: 1900.07,
   },
   {
-    date: "8/23/2023",
+    date: "2023-08-23",
     price: 1917.92,
   },
   {
-    date: "8/24/2023",
+    date: "2023-08-24",
     price: 1917.95,
   },
   {
-    date: "8/25/2023",
+    date: "2023-08-25",
     price: 1915.69,
   },
   {
-    date: "8/27/2023",
+    date: "2023-08-27",
     price: 1915.02,
   },
   {
-    date: "8/28/2023",
+    date: "2023-08-28",
     price: 1921.09,
   },
   {
-    date: "8/29/2023",
+    date: "2023-08-29",
     price: 1936.14,
   },
   {
-    date: "8/30/2023",
+    date: "2023-08-30",
     price: 1944.18,
   },
   {
-    date: "8/31/2023",
+    date: "2023-08-31",
     price: 1944.15,
   },
   {
-    date: "9/1/2023",
+    date: "2023-09-01",
     price: 1939.87,
   },
   {
-    date: "9/3/2023",
+    date: "2023-09-03",
     price: 1939.87,
   },
   {
-    date: "9/4/2023",
+    date: "2023-09-04",
     price: 1941.33,
   },
   {
-    date: "9/5/2023",
+    date: "2023-09-05",
     price: 1937.46,
   },
   {
-    date: "9/6/2023",
+    date: "2023-09-06",
     price: 1926.6,
   },
   {
-    date: "9/7/2023",
+    date: "2023-09-07",
     price: 1920.05,
   },
   {
-    date: "9/8/2023",
+    date: "2023-09-08",
     price: 1920.13,
   },
   {
-    date: "9/10/2023",
+    date: "2023-09-10",
     price: 1920.4,
   },
   {
-    date: "9/11/2023",
+    date: "2023-09-11",
     price: 1921.55,
   },
   {
-    date: "9/12/2023",
+    date: "2023-09-12",
     price: 1921.52,
   },
   {
-    date: "9/13/2023",
+    date: "2023-09-13",
     price: 1912.83,
   },
   {
-    date: "9/14/2023",
+    date: "2023-09-14",
     price: 1909.76,
   },
   {
-    date: "9/15/2023",
+    date: "2023-09-15",
     price: 1923.56,
   },
   {
-    date: "9/17/2023",
+    date: "2023-09-17",
     price: 1923.57,
   },
   {
-    date: "9/18/2023",
+    date: "2023-09-18",
     price: 1934.02,
   },
   {
-    date: "9/19/2023",
+    date: "2023-09-19",
     price: 1934.27,
   },
   {
-    date: "9/20/2023",
+    date: "2023-09-20",
     price: 1931.34,
   },
   {
-    date: "9/21/2023",
+    date: "2023-09-21",
     price: 1929.42,
   },
   {
-    date: "9/22/2023",
+    date: "2023-09-22",
     price: 1925.2,
   },
   {
-    date: "9/24/2023",
+    date: "2023-09-24",
     price: 1925.23,
   },
   {
-    date: "9/25/2023",
+    date: "2023-09-25",
     price: 1924.74,
   },
   {
-    date: "9/26/2023",
+    date: "2023-09-26",
     price: 1916.1,
   },
   {
-    date: "9/27/2023",
+    date: "2023-09-27",
     price: 1901.5,
   },
   {
-    date: "9/28/2023",
+    date: "2023-09-28",
     price: 1877.46,
   },
   {
-    date: "9/29/2023",
+    date: "2023-09-29",
     price: 1866.56,
   },
   {
-    date: "10/1/2023",
+    date: "2023-10-01",
     price: 1848.46,
   },
   {
-    date: "10/2/2023",
+    date: "2023-10-02",
     price: 1848.38,
   },
   {
-    date: "10/3/2023",
+    date: "2023-10-03",
     price: 1824.72,
   },
   {
-    date: "10/4/2023",
+    date: "2023-10-04",
     price: 1822.97,
   },
   {
-    date: "10/5/2023",
+    date: "2023-10-05",
     price: 1822.58,
   },
   {
-    date: "10/6/2023",
+    date: "2023-10-06",
     price: 1832.19,
   },
   {
-    date: "10/8/2023",
+    date: "2023-10-08",
     price: 1848.04,
   },
   {
-    date: "10/9/2023",
+    date: "2023-10-09",
     price: 1862.52,
   },
   {
-    date: "10/10/2023",
+    date: "2023-10-10",
     price: 1862.82,
   },
   {
-    date: "10/11/2023",
+    date: "2023-10-11",
     price: 1875.3,
   },
   {
-    date: "10/12/2023",
+    date: "2023-10-12",
     price: 1875.37,
   },
   {
-    date: "10/13/2023",
+    date: "2023-10-13",
     price: 1931.46,
   },
   {
-    date: "10/15/2023",
+    date: "2023-10-15",
     price: 1932.9,
   },
   {
-    date: "10/16/2023",
+    date: "2023-10-16",
     price: 1925.4,
   },
   {
-    date: "10/17/2023",
+    date: "2023-10-17",
     price: 1924.63,
   },
   {
-    date: "10/18/2023",
+    date: "2023-10-18",
     price: 1950.69,
   },
   {
-    date: "10/19/2023",
+    date: "2023-10-19",
     price: 1976.65,
   },
   {
-    date: "10/20/2023",
+    date: "2023-10-20",
     price: 1981.2,
   },
   {
-    date: "10/22/2023",
+    date: "2023-10-22",
     price: 1972.35,
   },
   {
-    date: "10/23/2023",
+    date: "2023-10-23",
     price: 1973.52,
   },
   {
-    date: "10/24/2023",
+    date: "2023-10-24",
     price: 1973.59,
   },
   {
-    date: "10/25/2023",
+    date: "2023-10-25",
     price: 1982.91,
   },
   {
-    date: "10/26/2023",
+    date: "2023-10-26",
     price: 1984.33,
   },
   {
-    date: "10/27/2023",
+    date: "2023-10-27",
     price: 2005.92,
   },
   {
-    date: "10/29/2023",
+    date: "2023-10-29",
     price: 2008.1,
   },
   {
-    date: "10/30/2023",
+    date: "2023-10-30",
     price: 2002.49,
   },
   {
-    date: "10/31/2023",
+    date: "2023-10-31",
     price: 1995.01,
   },
   {
-    date: "11/1/2023",
+    date: "2023-11-01",
     price: 1985.02,
   },
   {
-    date: "11/2/2023",
+    date: "2023-11-02",
     price: 1984.93,
   },
   {
-    date: "11/3/2023",
+    date: "2023-11-03",
     price: 1992.34,
   },
   {
-    date: "11/5/2023",
+    date: "2023-11-05",
     price: 1993,
   },
   {
-    date: "11/6/2023",
+    date: "2023-11-06",
     price: 1988.6,
   },
   {
-    date: "11/7/2023",
+    date: "2023-11-07",
     price: 1976.51,
   },
   {
-    date: "11/8/2023",
+    date: "2023-11-08",
     price: 1968.96,
   },
   {
-    date: "11/9/2023",
+    date: "2023-11-09",
     price: 1959.08,
   },
   {
-    date: "11/10/2023",
+    date: "2023-11-10",
     price: 1959.4,
   },
   {
-    date: "11/12/2023",
+    date: "2023-11-12",
     price: 1940.2,
   },
   {
-    date: "11/13/2023",
+    date: "2023-11-13",
     price: 1946.34,
   },
   {
-    date: "11/14/2023",
+    date: "2023-11-14",
     price: 1962.46,
   },
   {
-    date: "11/15/2023",
+    date: "2023-11-15",
     price: 1962.16,
   },
   {
-    date: "11/16/2023",
+    date: "2023-11-16",
     price: 1982.32,
   },
   {
-    date: "11/17/2023",
+    date: "2023-11-17",
     price: 1982.18,
   },
   {
-    date: "11/19/2023",
+    date: "2023-11-19",
     price: 1980.65,
   },
   {
-    date: "11/20/2023",
+    date: "2023-11-20",
     price: 1981.27,
   },
   {
-    date: "11/21/2023",
+    date: "2023-11-21",
     price: 1999.26,
   },
   {
-    date: "11/22/2023",
+    date: "2023-11-22",
     price: 1999.2,
   },
   {
-    date: "11/23/2023",
+    date: "2023-11-23",
     price: 1993.98,
   },
   {
-    date: "11/24/2023",
+    date: "2023-11-24",
     price: 2001.97,
   },
   {
-    date: "11/26/2023",
+    date: "2023-11-26",
     price: 2002.8,
   },
   {
-    date: "11/27/2023",
+    date: "2023-11-27",
     price: 2015.33,
   },
   {
-    date: "11/28/2023",
+    date: "2023-11-28",
     price: 2044.48,
   },
   {
-    date: "11/29/2023",
+    date: "2023-11-29",
     price: 2044.51,
   },
   {
-    date: "11/30/2023",
+    date: "2023-11-30",
     price: 2044.53,
   },
   {
-    date: "12/1/2023",
+    date: "2023-12-01",
     price: 2071.93,
   },
   {
-    date: "12/3/2023",
+    date: "2023-12-03",
     price: 2116.24,
   },
   {
-    date: "12/4/2023",
+    date: "2023-12-04",
     price: 2120.04,
   },
   {
-    date: "12/5/2023",
+    date: "2023-12-05",
     price: 2033.79,
   },
   {
-    date: "12/6/2023",
+    date: "2023-12-06",
     price: 2027.07,
   },
   {
-    date: "12/7/2023",
+    date: "2023-12-07",
     price: 2028.05,
   },
   {
-    date: "12/8/2023",
+    date: "2023-12-08",
     price: 2028.3,
   },
   {
-    date: "12/10/2023",
+    date: "2023-12-10",
     price: 2007.08,
   },
   {
-    date: "12/11/2023",
+    date: "2023-12-11",
     price: 2007.14,
   },
   {
-    date: "12/12/2023",
+    date: "2023-12-12",
     price: 1982.95,
   },
   {
-    date: "12/13/2023",
+    date: "2023-12-13",
     price: 2032.97,
   },
   {
-    date: "12/14/2023",
+    date: "2023-12-14",
     price: 2035.65,
   },
   {
-    date: "12/15/2023",
+    date: "2023-12-15",
     price: 2035.96,
   },
   {
-    date: "12/17/2023",
+    date: "2023-12-17",
     price: 2019.59,
   },
   {
-    date: "12/18/2023",
+    date: "2023-12-18",
     price: 2027.61,
   },
   {
-    date: "12/19/2023",
+    date: "2023-12-19",
     price: 2040.78,
   },
   {
-    date: "12/20/2023",
+    date: "2023-12-20",
     price: 2040.8,
   },
   {
-    date: "12/21/2023",
+    date: "2023-12-21",
     price: 2052.21,
   },
   {
-    date: "12/22/2023",
+    date: "2023-12-22",
     price: 2052.98,
   },
   {
-    date: "12/24/2023",
+    date: "2023-12-24",
     price: 2054.71,
   },
   {
-    date: "12/25/2023",
+    date: "2023-12-25",
     price: 2054.97,
   },
   {
-    date: "12/26/2023",
+    date: "2023-12-26",
     price: 2066.05,
   },
   {
-    date: "12/27/2023",
+    date: "2023-12-27",
     price: 2079.26,
   },
   {
-    date: "12/28/2023",
+    date: "2023-12-28",
     price: 2079.31,
   },
   {
-    date: "12/29/2023",
+    date: "2023-12-29",
     price: 2066.69,
   },
   {
-    date: "12/31/2023",
+    date: "2023-12-31",
     price: 2065.21,
   },
   {
-    date: "1/1/2024",
+    date: "2024-01-01",
     price: 2064,
   },
   {
-    date: "1/2/2024",
+    date: "2024-01-02",
     price: 2063.78,
   },
   {
-    date: "1/3/2024",
+    date: "2024-01-03",
     price: 2059.55,
   },
   {
-    date: "1/4/2024",
+    date: "2024-01-04",
     price: 2044.41,
   },
   {
-    date: "1/5/2024",
+    date: "2024-01-05",
     price: 2045.41,
   },
   {
-    date: "1/7/2024",
+    date: "2024-01-07",
     price: 2046.65,
   },
   {
-    date: "1/8/2024",
+    date: "2024-01-08",
     price: 2044.1,
   },
   {
-    date: "1/9/2024",
+    date: "2024-01-09",
     price: 2031.01,
   },
   {
-    date: "1/10/2024",
+    date: "2024-01-10",
     price: 2030.74,
   },
   {
-    date: "1/11/2024",
+    date: "2024-01-11",
     price: 2034.92,
   },
   {
-    date: "1/12/2024",
+    date: "2024-01-12",
     price: 2048.99,
   },
   {
-    date: "1/14/2024",
+    date: "2024-01-14",
     price: 2050.25,
   },
   {
-    date: "1/15/2024",
+    date: "2024-01-15",
     price: 2054.2,
   },
   {
-    date: "1/16/2024",
+    date: "2024-01-16",
     price: 2054.25,
   },
   {
-    date: "1/17/2024",
+    date: "2024-01-17",
     price: 2028.01,
   },
   {
-    date: "1/18/2024",
+    date: "2024-01-18",
     price: 2023.71,
   },
   {
-    date: "1/19/2024",
+    date: "2024-01-19",
     price: 2029.47,
   },
   {
-    date: "1/21/2024",
+    date: "2024-01-21",
     price: 2031.9,
   },
   {
-    date: "1/22/2024",
+    date: "2024-01-22",
     price: 2027.29,
   },
   {
-    date: "1/23/2024",
+    date: "2024-01-23",
     price: 2029.4,
   },
   {
-    date: "1/24/2024",
+    date: "2024-01-24",
     price: 2028.9,
   },
   {
-    date: "1/25/2024",
+    date: "2024-01-25",
     price: 2020.59,
   },
   {
-    date: "1/26/2024",
+    date: "2024-01-26",
     price: 2020.73,
   },
   {
-    date: "1/28/2024",
+    date: "2024-01-28",
     price: 2021.74,
   },
   {
-    date: "1/29/2024",
+    date: "2024-01-29",
     price: 2031.16,
   },
   {
-    date: "1/30/2024",
+    date: "2024-01-30",
     price: 2036.4,
   },
   {
-    date: "1/31/2024",
+    date: "2024-01-31",
     price: 2039.85,
   },
   {
-    date: "2/1/2024",
+    date: "2024-02-01",
     price: 2054.66,
   },
   {
-    date: "2/2/2024",
+    date: "2024-02-02",
     price: 2054.68,
   },
   {
-    date: "2/4/2024",
+    date: "2024-02-04",
     price: 2042.4,
   },
   {
-    date: "2/5/2024",
+    date: "2024-02-05",
     price: 2040.01,
   },
   {
-    date: "2/6/2024",
+    date: "2024-02-06",
     price: 2035.15,
   },
   {
-    date: "2/7/2024",
+    date: "2024-02-07",
     price: 2036.54,
   },
   {
-    date: "2/8/2024",
+    date: "2024-02-08",
     price: 2036.42,
   },
   {
-    date: "2/9/2024",
+    date: "2024-02-09",
     price: 2034.1,
   },
   {
-    date: "2/11/2024",
+    date: "2024-02-11",
     price: 2025.38,
   },
   {
-    date: "2/12/2024",
+    date: "2024-02-12",
     price: 2025.25,
   },
   {
-    date: "2/13/2024",
+    date: "2024-02-13",
     price: 2018.76,
   },
   {
-    date: "2/14/2024",
+    date: "2024-02-14",
     price: 1993.75,
   },
   {
-    date: "2/15/2024",
+    date: "2024-02-15",
     price: 2003.26,
   },
   {
-    date: "2/16/2024",
+    date: "2024-02-16",
     price: 2013.01,
   },
   {
-    date: "2/18/2024",
+    date: "2024-02-18",
     price: 2012.3,
   },
   {
-    date: "2/19/2024",
+    date: "2024-02-19",
     price: 2016.11,
   },
   {
-    date: "2/20/2024",
+    date: "2024-02-20",
     price: 2024.07,
   },
   {
-    date: "2/21/2024",
+    date: "2024-02-21",
     price: 2025.68,
   },
   {
-    date: "2/22/2024",
+    date: "2024-02-22",
     price: 2025.52,
   },
   {
-    date: "2/23/2024",
+    date: "2024-02-23",
     price: 2035.39,
   },
   {
-    date: "2/25/2024",
+    date: "2024-02-25",
     price: 2034.29,
   },
   {
-    date: "2/26/2024",
+    date: "2024-02-26",
     price: 2033.79,
   },
   {
-    date: "2/27/2024",
+    date: "2024-02-27",
     price: 2031.12,
   },
   {
-    date: "2/28/2024",
+    date: "2024-02-28",
     price: 2034.6,
   },
   {
-    date: "2/29/2024",
+    date: "2024-02-29",
     price: 2044.13,
   },
   {
-    date: "3/1/2024",
+    date: "2024-03-01",
     price: 2082.65,
   },
   {
-    date: "3/3/2024",
+    date: "2024-03-03",
     price: 2084.35,
   },
   {
-    date: "3/4/2024",
+    date: "2024-03-04",
     price: 2114.52,
   },
   {
-    date: "3/5/2024",
+    date: "2024-03-05",
     price: 2128.17,
   },
   {
-    date: "3/6/2024",
+    date: "2024-03-06",
     price: 2147.44,
   },
   {
-    date: "3/7/2024",
+    date: "2024-03-07",
     price: 2162.04,
   },
   {
-    date: "3/8/2024",
+    date: "2024-03-08",
     price: 2178.76,
   },
   {
-    date: "3/10/2024",
+    date: "2024-03-10",
     price: 2181.7,
   },
   {
-    date: "3/11/2024",
+    date: "2024-03-11",
     price: 2183.59,
   },
   {
-    date: "3/12/2024",
+    date: "2024-03-12",
     price: 2183.87,
   },
   {
-    date: "3/13/2024",
+    date: "2024-03-13",
     price: 2175.4,
   },
   {
-    date: "3/14/2024",
+    date: "2024-03-14",
     price: 2175.28,
   },
   {
-    date: "3/15/2024",
+    date: "2024-03-15",
     price: 2161.56,
   },
   {
-    date: "3/17/2024",
+    date: "2024-03-17",
     price: 2156.6,
   },
   {
-    date: "3/18/2024",
+    date: "2024-03-18",
     price: 2161.86,
   },
   {
-    date: "3/19/2024",
+    date: "2024-03-19",
     price: 2162.27,
   },
   {
-    date: "3/20/2024",
+    date: "2024-03-20",
     price: 2203.89,
   },
   {
-    date: "3/21/2024",
+    date: "2024-03-21",
     price: 2203.88,
   },
   {
-    date: "3/22/2024",
+    date: "2024-03-22",
     price: 2181.67,
   },
   {
-    date: "3/24/2024",
+    date: "2024-03-24",
     price: 2175.21,
   },
   {
-    date: "3/25/2024",
+    date: "2024-03-25",
     price: 2172.99,
   },
   {
-    date: "3/26/2024",
+    date: "2024-03-26",
     price: 2179.61,
   },
   {
-    date: "3/27/2024",
+    date: "2024-03-27",
     price: 2190.55,
   },
   {
-    date: "3/28/2024",
+    date: "2024-03-28",
     price: 2231.91,
   },
   {
-    date: "3/31/2024",
+    date: "2024-03-31",
     price: 2246.23,
   },
   {
-    date: "4/1/2024",
+    date: "2024-04-01",
     price: 2248.96,
   },
   {
-    date: "4/2/2024",
+    date: "2024-04-02",
     price: 2279.69,
   },
   {
-    date: "4/3/2024",
+    date: "2024-04-03",
     price: 2297.49,
   },
   {
-    date: "4/4/2024",
+    date: "2024-04-04",
     price: 2297.34,
   },
   {
-    date: "4/5/2024",
+    date: "2024-04-05",
     price: 2329.57,
   },
   {
-    date: "4/7/2024",
+    date: "2024-04-07",
     price: 2320.99,
   },
   {
-    date: "4/8/2024",
+    date: "2024-04-08",
     price: 2338.89,
   },
   {
-    date: "4/9/2024",
+    date: "2024-04-09",
     price: 2354.73,
   },
   {
-    date: "4/10/2024",
+    date: "2024-04-10",
     price: 2354.75,
   },
   {
-    date: "4/11/2024",
+    date: "2024-04-11",
     price: 2376.77,
   },
   {
-    date: "4/12/2024",
+    date: "2024-04-12",
     price: 2375.81,
   },
   {
-    date: "4/14/2024",
+    date: "2024-04-14",
     price: 2364.61,
   },
   {
-    date: "4/15/2024",
+    date: "2024-04-15",
     price: 2381.8,
   },
   {
-    date: "4/16/2024",
+    date: "2024-04-16",
     price: 2382.44,
   },
   {
-    date: "4/17/2024",
+    date: "2024-04-17",
     price: 2382.89,
   },
   {
-    date: "4/18/2024",
+    date: "2024-04-18",
     price: 2380.02,
   },
   {
-    date: "4/19/2024",
+    date: "2024-04-19",
     price: 2390.01,
   },
   {
-    date: "4/21/2024",
+    date: "2024-04-21",
     price: 2386.54,
   },
   {
-    date: "4/22/2024",
+    date: "2024-04-22",
     price: 2386.84,
   },
   {
-    date: "4/23/2024",
+    date: "2024-04-23",
     price: 2333.17,
   },
   {
-    date: "4/24/2024",
+    date: "2024-04-24",
     price: 2323.32,
   },
   {
-    date: "4/25/2024",
+    date: "2024-04-25",
     price: 2330.65,
   },
   {
-    date: "4/26/2024",
+    date: "2024-04-26",
     price: 2337.48,
   },
   {
-    date: "4/28/2024",
+    date: "2024-04-28",
     price: 2337.7,
   },
   {
-    date: "4/29/2024",
+    date: "2024-04-29",
     price: 2336.56,
   },
   {
-    date: "4/30/2024",
+    date: "2024-04-30",
     price: 2333.01,
   },
   {
-    date: "5/1/2024",
+    date: "2024-05-01",
     price: 2320.41,
   },
   {
-    date: "5/2/2024",
+    date: "2024-05-02",
     price: 2324.49,
   },
   {
-    date: "5/3/2024",
+    date: "2024-05-03",
     price: 2303.44,
   },
   {
-    date: "5/5/2024",
+    date: "2024-05-05",
     price: 2301.85,
   },
   {
-    date: "5/6/2024",
+    date: "2024-05-06",
     price: 2325.64,
   },
   {
-    date: "5/7/2024",
+    date: "2024-05-07",
     price: 2327.86,
   },
   {
-    date: "5/8/2024",
+    date: "2024-05-08",
     price: 2315.96,
   },
   {
-    date: "5/9/2024",
+    date: "2024-05-09",
     price: 2346.57,
   },
   {
-    date: "5/10/2024",
+    date: "2024-05-10",
     price: 2359.97,
   },
   {
-    date: "5/12/2024",
+    date: "2024-05-12",
     price: 2360.29,
   },
   {
-    date: "5/13/2024",
+    date: "2024-05-13",
     price: 2360.08,
   },
   {
-    date: "5/14/2024",
+    date: "2024-05-14",
     price: 2355.76,
   },
   {
-    date: "5/15/2024",
+    date: "2024-05-15",
     price: 2391.66,
   },
   {
-    date: "5/16/2024",
+    date: "2024-05-16",
     price: 2391.57,
   },
   {
-    date: "5/17/2024",
+    date: "2024-05-17",
     price: 2414.02,
   },
   {
-    date: "5/19/2024",
+    date: "2024-05-19",
     price: 2420.3,
   },
   {
-    date: "5/20/2024",
+    date: "2024-05-20",
     price: 2426.12,
   },
   {
-    date: "5/21/2024",
+    date: "2024-05-21",
     price: 2425.75,
   },
   {
-    date: "5/22/2024",
+    date: "2024-05-22",
     price: 2421.81,
   },
   {
-    date: "5/23/2024",
+    date: "2024-05-23",
     price: 2382.21,
   },
   {
-    date: "5/24/2024",
+    date: "2024-05-24",
     price: 2333.04,
   },
   {
-    date: "5/26/2024",
+    date: "2024-05-26",
     price: 2337.05,
   },
   {
-    date: "5/27/2024",
+    date: "2024-05-27",
     price: 2352.27,
   },
   {
-    date: "5/28/2024",
+    date: "2024-05-28",
     price: 2359.94,
   },
   {
-    date: "5/29/2024",
+    date: "2024-05-29",
     price: 2359.59,
   },
   {
-    date: "5/30/2024",
+    date: "2024-05-30",
     price: 2343.72,
   },
   {
-    date: "5/31/2024",
+    date: "2024-05-31",
     price: 2343.23,
   },
   {
-    date: "6/2/2024",
+    date: "2024-06-02",
     price: 2325.76,
   },
   {
-    date: "6/3/2024",
+    date: "2024-06-03",
     price: 2350.39,
   },
   {
-    date: "6/4/2024",
+    date: "2024-06-04",
     price: 2350.55,
   },
   {
-    date: "6/5/2024",
+    date: "2024-06-05",
     price: 2354.98,
   },
   {
-    date: "6/6/2024",
+    date: "2024-06-06",
     price: 2376.68,
   },
   {
-    date: "6/7/2024",
+    date: "2024-06-07",
     price: 2376.64,
   },
   {
-    date: "6/9/2024",
+    date: "2024-06-09",
     price: 2298.46,
   },
   {
-    date: "6/10/2024",
+    date: "2024-06-10",
     price: 2309.88,
   },
   {
-    date: "6/11/2024",
+    date: "2024-06-11",
     price: 2314.86,
   },
   {
-    date: "6/12/2024",
+    date: "2024-06-12",
     price: 2320.46,
   },
   {
-    date: "6/13/2024",
+    date: "2024-06-13",
     price: 2319.97,
   },
   {
-    date: "6/14/2024",
+    date: "2024-06-14",
     price: 2332.3,
   },
   {
-    date: "6/16/2024",
+    date: "2024-06-16",
     price: 2332.3,
   },
   {
-    date: "6/17/2024",
+    date: "2024-06-17",
     price: 2327.74,
   },
   {
-    date: "6/18/2024",
+    date: "2024-06-18",
     price: 2328.24,
   },
   {
-    date: "6/19/2024",
+    date: "2024-06-19",
     price: 2329.24,
   },
   {
-    date: "6/20/2024",
+    date: "2024-06-20",
     price: 2360.66,
   },
   {
-    date: "6/21/2024",
+    date: "2024-06-21",
     price: 2360.95,
   },
   {
-    date: "6/23/2024",
+    date: "2024-06-23",
     price: 2319.04,
   },
   {
-    date: "6/24/2024",
+    date: "2024-06-24",
     price: 2330.66,
   },
   {
-    date: "6/25/2024",
+    date: "2024-06-25",
     price: 2330.21,
   },
   {
-    date: "6/26/2024",
+    date: "2024-06-26",
     price: 2319.79,
   },
   {
-    date: "6/27/2024",
+    date: "2024-06-27",
     price: 2327.46,
   },
   {
-    date: "6/28/2024",
+    date: "2024-06-28",
     price: 2327.48,
   },
   {
-    date: "6/30/2024",
+    date: "2024-06-30",
     price: 2326.15,
   },
   {
-    date: "7/1/2024",
+    date: "2024-07-01",
     price: 2332.09,
   },
   {
-    date: "7/2/2024",
+    date: "2024-07-02",
     price: 2332.43,
   },
   {
-    date: "7/3/2024",
+    date: "2024-07-03",
     price: 2359,
   },
   {
-    date: "7/4/2024",
+    date: "2024-07-04",
     price: 2358.76,
   },
   {
-    date: "7/5/2024",
+    date: "2024-07-05",
     price: 2391.14,
   },
   {
-    date: "7/7/2024",
+    date: "2024-07-07",
     price: 2391.14,
   },
   {
-    date: "7/8/2024",
+    date: "2024-07-08",
     price: 2385.76,
   },
   {
-    date: "7/9/2024",
+    date: "2024-07-09",
     price: 2365.01,
   },
   {
-    date: "7/10/2024",
+    date: "2024-07-10",
     price: 2372.62,
   },
   {
-    date: "7/11/2024",
+    date: "2024-07-11",
     price: 2415.92,
   },
   {
-    date: "7/12/2024",
+    date: "2024-07-12",
     price: 2414.8,
   },
   {
-    date: "7/14/2024",
+    date: "2024-07-14",
     price: 2410.61,
   },
   {
-    date: "7/15/2024",
+    date: "2024-07-15",
     price: 2422.37,
   },
   {
-    date: "7/16/2024",
+    date: "2024-07-16",
     price: 2468.27,
   },
   {
-    date: "7/17/2024",
+    date: "2024-07-17",
     price: 2471.24,
   },
   {
-    date: "7/18/2024",
+    date: "2024-07-18",
     price: 2461.19,
   },
   {
-    date: "7/19/2024",
+    date: "2024-07-19",
     price: 2425.98,
   },
   {
-    date: "7/21/2024",
+    date: "2024-07-21",
     price: 2411.37,
   },
   {
-    date: "7/22/2024",
+    date: "2024-07-22",
     price: 2411.34,
   },
   {
-    date: "7/23/2024",
+    date: "2024-07-23",
     price: 2408.34,
   },
   {
-    date: "7/24/2024",
+    date: "2024-07-24",
     price: 2408.86,
   },
   {
-    date: "7/25/2024",
+    date: "2024-07-25",
     price: 2398.75,
   },
   {
-    date: "7/26/2024",
+    date: "2024-07-26",
     price: 2385.9,
   },
   {
-    date: "7/28/2024",
+    date: "2024-07-28",
     price: 2396.45,
   },
   {
-    date: "7/29/2024",
+    date: "2024-07-29",
     price: 2397.17,
   },
   {
-    date: "7/30/2024",
+    date: "2024-07-30",
     price: 2409.62,
   },
   {
-    date: "7/31/2024",
+    date: "2024-07-31",
     price: 2445.84,
   },
   {
-    date: "8/1/2024",
+    date: "2024-08-01",
     price: 2445.94,
   },
   {
-    date: "8/2/2024",
+    date: "2024-08-02",
     price: 2444.91,
   },
   {
-    date: "8/4/2024",
+    date: "2024-08-04",
     price: 2442.08,
   },
   {
-    date: "8/5/2024",
+    date: "2024-08-05",
     price: 2440.7,
   },
   {
-    date: "8/6/2024",
+    date: "2024-08-06",
     price: 2405.4,
   },
   {
-    date: "8/7/2024",
+    date: "2024-08-07",
     price: 2384.72,
   },
   {
-    date: "8/8/2024",
+    date: "2024-08-08",
     price: 2424.66,
   },
   {
-    date: "8/9/2024",
+    date: "2024-08-09",
     price: 2430.71,
   },
   {
-    date: "8/11/2024",
+    date: "2024-08-11",
     price: 2430.71,
   },
   {
-    date: "8/12/2024",
+    date: "2024-08-12",
     price: 2475.32,
   },
   {
-    date: "8/13/2024",
+    date: "2024-08-13",
     price: 2476.15,
   },
   {
-    date: "8/14/2024",
+    date: "2024-08-14",
     price: 2464.07,
   },
   {
-    date: "8/15/2024",
+    date: "2024-08-15",
     price: 2457.43,
   },
   {
-    date: "8/16/2024",
+    date: "2024-08-16",
     price: 2506.76,
   },
   {
-    date: "8/18/2024",
+    date: "2024-08-18",
     price: 2506.76,
   },
   {
-    date: "8/19/2024",
+    date: "2024-08-19",
     price: 2505.98,
   },
   {
-    date: "8/20/2024",
+    date: "2024-08-20",
     price: 2513.16,
   },
   {
-    date: "8/21/2024",
+    date: "2024-08-21",
     price: 2512.75,
   },
   {
-    date: "8/22/2024",
+    date: "2024-08-22",
     price: 2512.83,
   },
   {
-    date: "8/23/2024",
+    date: "2024-08-23",
     price: 2512.01,
   },
   {
-    date: "8/25/2024",
+    date: "2024-08-25",
     price: 2515.72,
   },
   {
-    date: "8/26/2024",
+    date: "2024-08-26",
     price: 2515.58,
   },
   {
-    date: "8/27/2024",
+    date: "2024-08-27",
     price: 2525.07,
   },
   {
-    date: "8/28/2024",
+    date: "2024-08-28",
     price: 2525.36,
   },
   {
-    date: "8/29/2024",
+    date: "2024-08-29",
     price: 2519.37,
   },
   {
-    date: "8/30/2024",
+    date: "2024-08-30",
     price: 2519.17,
   },
   {
-    date: "9/1/2024",
+    date: "2024-09-01",
     price: 2503.08,
   },
   {
-    date: "9/2/2024",
+    date: "2024-09-02",
     price: 2502.66,
   },
   {
-    date: "9/3/2024",
+    date: "2024-09-03",
     price: 2497.18,
   },
   {
-    date: "9/4/2024",
+    date: "2024-09-04",
     price: 2495.64,
   },
   {
-    date: "9/5/2024",
+    date: "2024-09-05",
     price: 2517.16,
   },
   {
-    date: "9/6/2024",
+    date: "2024-09-06",
     price: 2517.18,
   },
   {
-    date: "9/8/2024",
+    date: "2024-09-08",
     price: 2496.75,
   },
   {
-    date: "9/9/2024",
+    date: "2024-09-09",
     price: 2506.69,
   },
   {
-    date: "9/10/2024",
+    date: "2024-09-10",
     price: 2518.56,
   },
   {
-    date: "9/11/2024",
+    date: "2024-09-11",
     price: 2518.57,
   },
   {
-    date: "9/12/2024",
+    date: "2024-09-12",
     price: 2557.96,
   },
   {
-    date: "9/13/2024",
+    date: "2024-09-13",
     price: 2577.38,
   },
   {
-    date: "9/15/2024",
+    date: "2024-09-15",
     price: 2578.96,
   },
   {
-    date: "9/16/2024",
+    date: "2024-09-16",
     price: 2583.58,
   },
   {
-    date: "9/17/2024",
+    date: "2024-09-17",
     price: 2583.61,
   },
   {
-    date: "9/18/2024",
+    date: "2024-09-18",
     price: 2574.07,
   },
   {
-    date: "9/19/2024",
+    date: "2024-09-19",
     price: 2587.15,
   },
   {
-    date: "9/20/2024",
+    date: "2024-09-20",
     price: 2621.74,
   },
   {
-    date: "9/22/2024",
+    date: "2024-09-22",
     price: 2621.89,
   },
   {
-    date: "9/23/2024",
+    date: "2024-09-23",
     price: 2626.17,
   },
   {
-    date: "9/24/2024",
+    date: "2024-09-24",
     price: 2658.03,
   },
   {
-    date: "9/25/2024",
+    date: "2024-09-25",
     price: 2657.7,
   },
   {
-    date: "9/26/2024",
+    date: "2024-09-26",
     price: 2672.57,
   },
   {
-    date: "9/27/2024",
+    date: "2024-09-27",
     price: 2672.43,
   },
   {
-    date: "9/29/2024",
+    date: "2024-09-29",
     price: 2663.48,
   },
   {
-    date: "9/30/2024",
+    date: "2024-09-30",
     price: 2663.66,
   },
   {
-    date: "10/1/2024",
+    date: "2024-10-01",
     price: 2660.32,
   },
   {
-    date: "10/2/2024",
+    date: "2024-10-02",
     price: 2660.27,
   },
   {
-    date: "10/3/2024",
+    date: "2024-10-03",
     price: 2660.47,
   },
   {
-    date: "10/4/2024",
+    date: "2024-10-04",
     price: 2655.62,
   },
   {
-    date: "10/6/2024",
+    date: "2024-10-06",
     price: 2653.05,
   },
   {
-    date: "10/7/2024",
+    date: "2024-10-07",
     price: 2650.66,
   },
   {
-    date: "10/8/2024",
+    date: "2024-10-08",
     price: 2642.88,
   },
   {
-    date: "10/9/2024",
+    date: "2024-10-09",
     price: 2621.65,
   },
   {
-    date: "10/10/2024",
+    date: "2024-10-10",
     price: 2632.37,
   },
   {
-    date: "10/11/2024",
+    date: "2024-10-11",
     price: 2656.85,
   },
   {
-    date: "10/13/2024",
+    date: "2024-10-13",
     price: 2656.08,
   },
   {
-    date: "10/14/2024",
+    date: "2024-10-14",
     price: 2649.3,
   },
   {
-    date: "10/15/2024",
+    date: "2024-10-15",
     price: 2660.34,
   },
   {
-    date: "10/16/2024",
+    date: "2024-10-16",
     price: 2673.9,
   },
   {
-    date: "10/17/2024",
+    date: "2024-10-17",
     price: 2693.55,
   },
   {
-    date: "10/18/2024",
+    date: "2024-10-18",
     price: 2720.53,
   },
   {
-    date: "10/20/2024",
+    date: "2024-10-20",
     price: 2723.41,
   },
   {
-    date: "10/21/2024",
+    date: "2024-10-21",
     price: 2723.6,
   },
   {
-    date: "10/22/2024",
+    date: "2024-10-22",
     price: 2746.56,
   },
   {
-    date: "10/23/2024",
+    date: "2024-10-23",
     price: 2746.74,
   },
   {
-    date: "10/24/2024",
+    date: "2024-10-24",
     price: 2733.69,
   },
   {
-    date: "10/25/2024",
+    date: "2024-10-25",
     price: 2747.13,
   },
   {
-    date: "10/27/2024",
+    date: "2024-10-27",
     price: 2747.13,
   },
   {
-    date: "10/28/2024",
+    date: "2024-10-28",
     price: 2744.29,
   },
   {
-    date: "10/29/2024",
+    date: "2024-10-29",
     price: 2774.7,
   },
   {
-    date: "10/30/2024",
+    date: "2024-10-30",
     price: 2785.14,
   },
   {
-    date: "10/31/2024",
+    date: "2024-10-31",
     price: 2785.47,
   },
   {
-    date: "11/1/2024",
+    date: "2024-11-01",
     price: 2746.81,
   },
   {
-    date: "11/3/2024",
+    date: "2024-11-03",
     price: 2746.7,
   },
   {
-    date: "11/4/2024",
+    date: "2024-11-04",
     price: 2738.69,
   },
   {
-    date: "11/5/2024",
+    date: "2024-11-05",
     price: 2745.46,
   },
   {
-    date: "11/6/2024",
+    date: "2024-11-06",
     price: 2745.08,
   },
   {
-    date: "11/7/2024",
+    date: "2024-11-07",
     price: 2706.83,
   },
   {
-    date: "11/8/2024",
+    date: "2024-11-08",
     price: 2706.99,
   },
   {
-    date: "11/10/2024",
+    date: "2024-11-10",
     price: 2685.47,
   },
   {
-    date: "11/11/2024",
+    date: "2024-11-11",
     price: 2684.96,
   },
   {
-    date: "11/12/2024",
+    date: "2024-11-12",
     price: 2623.79,
   },
   {
-    date: "11/13/2024",
+    date: "2024-11-13",
     price: 2598.51,
   },
   {
-    date: "11/14/2024",
+    date: "2024-11-14",
     price: 2570.9,
   },
   {
-    date: "11/15/2024",
+    date: "2024-11-15",
     price: 2566.42,
   },
   {
-    date: "11/17/2024",
+    date: "2024-11-17",
     price: 2571.2,
   },
   {
-    date: "11/18/2024",
+    date: "2024-11-18",
     price: 2612.09,
   },
   {
-    date: "11/19/2024",
+    date: "2024-11-19",
     price: 2634.71,
   },
   {
-    date: "11/20/2024",
+    date: "2024-11-20",
     price: 2652.02,
   },
   {
-    date: "11/21/2024",
+    date: "2024-11-21",
     price: 2668.68,
   },
   {
-    date: "11/22/2024",
+    date: "2024-11-22",
     price: 2715.58,
   },
   {
-    date: "11/25/2024",
+    date: "2024-11-25",
     price: 2670.27,
   },
   {
-    date: "11/26/2024",
+    date: "2024-11-26",
     price: 2632.18,
   },
   {
-    date: "11/27/2024",
+    date: "2024-11-27",
     price: 2636.89,
   },
   {
-    date: "11/28/2024",
+    date: "2024-11-28",
     price: 2638.78,
   },
   {
-    date: "11/29/2024",
+    date: "2024-11-29",
     price: 2650.25,
   },
   {
-    date: "12/1/2024",
+    date: "2024-12-01",
     price: 2650.24,
   },
   {
-    date: "12/2/2024",
+    date: "2024-12-02",
     price: 2646.13,
   },
   {
-    date: "12/3/2024",
+    date: "2024-12-03",
     price: 2642.62,
   },
   {
-    date: "12/4/2024",
+    date: "2024-12-04",
     price: 2650.18,
   },
   {
-    date: "12/5/2024",
+    date: "2024-12-05",
     price: 2650,
   },
   {
-    date: "12/6/2024",
+    date: "2024-12-06",
     price: 2632.9,
   },
   {
-    date: "12/8/2024",
+    date: "2024-12-08",
     price: 2639.2,
   },
   {
-    date: "12/9/2024",
+    date: "2024-12-09",
     price: 2660.54,
   },
   {
-    date: "12/10/2024",
+    date: "2024-12-10",
     price: 2695.71,
   },
   {
-    date: "12/11/2024",
+    date: "2024-12-11",
     price: 2719.83,
   },
   {
-    date: "12/12/2024",
+    date: "2024-12-12",
     price: 2719.41,
   },
   {
-    date: "12/13/2024",
+    date: "2024-12-13",
     price: 2679.76,
   },
   {
-    date: "12/15/2024",
+    date: "2024-12-15",
     price: 2650.3,
   },
   {
-    date: "12/16/2024",
+    date: "2024-12-16",
     price: 2651.5,
   },
   {
-    date: "12/17/2024",
+    date: "2024-12-17",
     price: 2651.62,
   },
   {
-    date: "12/18/2024",
+    date: "2024-12-18",
     price: 2647.33,
   },
   {
-    date: "12/19/2024",
+    date: "2024-12-19",
     price: 2593.57,
   },
   {
-    date: "12/20/2024",
+    date: "2024-12-20",
     price: 2622,
   },
   {
-    date: "12/22/2024",
+    date: "2024-12-22",
     price: 2623.84,
   },
   {
-    date: "12/23/2024",
+    date: "2024-12-23",
     price: 2623.28,
   },
   {
-    date: "12/24/2024",
+    date: "2024-12-24",
     price: 2616.1,
   },
   {
-    date: "12/25/2024",
+    date: "2024-12-25",
     price: 2617.86,
   },
   {
-    date: "12/26/2024",
+    date: "2024-12-26",
     price: 2632.5,
   },
   {
-    date: "12/27/2024",
+    date: "2024-12-27",
     price: 2632.36,
   },
   {
-    date: "12/29/2024",
+    date: "2024-12-29",
     price: 2623.83,
   },
   {
-    date: "12/30/2024",
+    date: "2024-12-30",
     price: 2623.8,
   },
   {
-    date: "12/31/2024",
+    date: "2024-12-31",
     price: 2624.19,
   },
   {
-    date: "1/1/2025",
+    date: "2025-01-01",
     price: 2624.8,
   },
   {
-    date: "1/2/2025",
+    date: "2025-01-02",
     price: 2658.11,
   },
   {
-    date: "1/3/2025",
+    date: "2025-01-03",
     price: 2658.56,
   },
   {
-    date: "1/5/2025",
+    date: "2025-01-05",
     price: 2640.67,
   },
   {
-    date: "1/6/2025",
+    date: "2025-01-06",
     price: 2640.65,
   },
   {
-    date: "1/7/2025",
+    date: "2025-01-07",
     price: 2649.46,
   },
   {
-    date: "1/8/2025",
+    date: "2025-01-08",
     price: 2662.54,
   },
   {
-    date: "1/9/2025",
+    date: "2025-01-09",
     price: 2669.95,
   },
   {
-    date: "1/10/2025",
+    date: "2025-01-10",
     price: 2688.77,
   },
   {
-    date: "1/12/2025",
+    date: "2025-01-12",
     price: 2690.64,
   },
   {
-    date: "1/13/2025",
+    date: "2025-01-13",
     price: 2690.06,
   },
   {
-    date: "1/14/2025",
+    date: "2025-01-14",
     price: 2675.21,
   },
   {
-    date: "1/15/2025",
+    date: "2025-01-15",
     price: 2694.62,
   },
   {
-    date: "1/16/2025",
+    date: "2025-01-16",
     price: 2714.52,
   },
   {
-    date: "1/17/2025",
+    date: "2025-01-17",
     price: 2714.49,
   },
   {
-    date: "1/19/2025",
+    date: "2025-01-19",
     price: 2701.88,
   },
   {
-    date: "1/20/2025",
+    date: "2025-01-20",
     price: 2710.18,
   },
   {
-    date: "1/21/2025",
+    date: "2025-01-21",
     price: 2744.2,
   },
   {
-    date: "1/22/2025",
+    date: "2025-01-22",
     price: 2755.28,
   },
   {
-    date: "1/23/2025",
+    date: "2025-01-23",
     price: 2755.76,
   },
   {
-    date: "1/24/2025",
+    date: "2025-01-24",
     price: 2770.96,
   },
   {
-    date: "1/26/2025",
+    date: "2025-01-26",
     price: 2771.45,
   },
   {
-    date: "1/27/2025",
+    date: "2025-01-27",
     price: 2767.03,
   },
   {
-    date: "1/28/2025",
+    date: "2025-01-28",
     price: 2762.64,
   },
   {
-    date: "1/29/2025",
+    date: "2025-01-29",
     price: 2762.48,
   },
   {
-    date: "1/30/2025",
+    date: "2025-01-30",
     price: 2796,
   },
   {
-    date: "1/31/2025",
+    date: "2025-01-31",
     price: 2797.46,
   },
   {
-    date: "2/2/2025",
+    date: "2025-02-02",
     price: 2797.25,
   },
   {
-    date: "2/3/2025",
+    date: "2025-02-03",
     price: 2813.34,
   },
   {
-    date: "2/4/2025",
+    date: "2025-02-04",
     price: 2841.19,
   },
   {
-    date: "2/6/2025",
+    date: "2025-02-06",
     price: 2868.78,
   },
   {
-    date: "2/7/2025",
+    date: "2025-02-07",
     price: 2860.09,
   },
   {
-    date: "2/9/2025",
+    date: "2025-02-09",
     price: 2867.22,
   },
   {
-    date: "2/10/2025",
+    date: "2025-02-10",
     price: 2917.64,
   },
   {
-    date: "2/11/2025",
+    date: "2025-02-11",
     price: 2917.28,
   },
   {
-    date: "2/12/2025",
+    date: "2025-02-12",
     price: 2904.5,
   },
   {
-    date: "2/13/2025",
+    date: "2025-02-13",
     price: 2930.86,
   },
   {
-    date: "2/14/2025",
+    date: "2025-02-14",
     price: 2931.23,
   },
   {
-    date: "2/16/2025",
+    date: "2025-02-16",
     price: 2882.55,
   },
   {
-    date: "2/17/2025",
+    date: "2025-02-17",
     price: 2899.18,
   },
   {
-    date: "2/18/2025",
+    date: "2025-02-18",
     price: 2933.76,
   },
   {
-    date: "2/19/2025",
+    date: "2025-02-19",
     price: 2935.19,
   },
   {
-    date: "2/20/2025",
+    date: "2025-02-20",
     price: 2940.81,
   },
   {
-    date: "2/21/2025",
+    date: "2025-02-21",
     price: 2942.05,
   },
 ];
@@ -1,2486 +1,2486 @@
 export const lowConfidencePrices = [
   {
-    date: "2/24/2023",
+    date: "2023-02-24",
     price: 1810.67,
   },
   {
-    date: "2/26/2023",
+    date: "2023-02-26",
     price: 1811.8,
   },
   {
-    date: "2/27/2023",
+    date: "2023-02-27",
     price: 1811.72,
   },
   {
-    date: "2/28/2023",
+    date: "2023-02-28",
     price: 1817.13,
   },
   {
-    date: "3/1/2023",
+    date: "2023-03-01",
     price: 1825.07,
   },
   {
-    date: "3/2/2023",
+    date: "2023-03-02",
     price: 1836.5,
   },
   {
-    date: "3/3/2023",
+    date: "2023-03-03",
     price: 1838.44,
   },
   {
-    date: "3/5/2023",
+    date: "2023-03-05",
     price: 1852.19,
   },
   {
-    date: "3/6/2023",
+    date: "2023-03-06",
     price: 1846.29,
   },
   {
-    date: "3/7/2023",
+    date: "2023-03-07",
     price: 1813.82,
   },
   {
-    date: "3/8/2023",
+    date: "2023-03-08",
     price: 1813.78,
   },
   {
-    date: "3/9/2023",
+    date: "2023-03-09",
     price: 1815.07,
   },
   {
-    date: "3/10/2023",
+    date: "2023-03-10",
     price: 1831.48,
   },
   {
-    date: "3/12/2023",
+    date: "2023-03-12",
     price: 1869.6,
   },
   {
-    date: "3/13/2023",
+    date: "2023-03-13",
     price: 1876.65,
   },
   {
-    date: "3/14/2023",
+    date: "2023-03-14",
     price: 1903.02,
   },
   {
-    date: "3/15/2023",
+    date: "2023-03-15",
     price: 1902.45,
   },
   {
-    date: "3/16/2023",
+    date: "2023-03-16",
     price: 1921.3,
   },
   {
-    date: "3/17/2023",
+    date: "2023-03-17",
     price: 1921.34,
   },
   {
-    date: "3/19/2023",
+    date: "2023-03-19",
     price: 1976.55,
   },
   {
-    date: "3/20/2023",
+    date: "2023-03-20",
     price: 1976.47,
   },
   {
-    date: "3/21/2023",
+    date: "2023-03-21",
     price: 1942.81,
   },
   {
-    date: "3/22/2023",
+    date: "2023-03-22",
     price: 1943.12,
   },
   {
-    date: "3/23/2023",
+    date: "2023-03-23",
     price: 1969.94,
   },
   {
-    date: "3/24/2023",
+    date: "2023-03-24",
     price: 1978.42,
   },
   {
-    date: "3/26/2023",
+    date: "2023-03-26",
     price: 1975.72,
   },
   {
-    date: "3/27/2023",
+    date: "2023-03-27",
     price: 1958.02,
   },
   {
-    date: "3/28/2023",
+    date: "2023-03-28",
     price: 1958.2,
   },
   {
-    date: "3/29/2023",
+    date: "2023-03-29",
     price: 1963.15,
   },
   {
-    date: "3/30/2023",
+    date: "2023-03-30",
     price: 1963.1,
   },
   {
-    date: "3/31/2023",
+    date: "2023-03-31",
     price: 1969.22,
   },
   {
-    date: "4/2/2023",
+    date: "2023-04-02",
     price: 1957.65,
   },
   {
-    date: "4/3/2023",
+    date: "2023-04-03",
     price: 1957.54,
   },
   {
-    date: "4/4/2023",
+    date: "2023-04-04",
     price: 1984.6,
   },
   {
-    date: "4/5/2023",
+    date: "2023-04-05",
     price: 2020.23,
   },
   {
-    date: "4/6/2023",
+    date: "2023-04-06",
     price: 2007.56,
   },
   {
-    date: "4/7/2023",
+    date: "2023-04-07",
     price: 2007.05,
   },
   {
-    date: "4/9/2023",
+    date: "2023-04-09",
     price: 2005.49,
   },
   {
-    date: "4/10/2023",
+    date: "2023-04-10",
     price: 1992.37,
   },
   {
-    date: "4/11/2023",
+    date: "2023-04-11",
     price: 1992.3,
   },
   {
-    date: "4/12/2023",
+    date: "2023-04-12",
     price: 2004.87,
   },
   {
-    date: "4/13/2023",
+    date: "2023-04-13",
     price: 2018.1,
   },
   {
-    date: "4/14/2023",
+    date: "2023-04-14",
     price: 2004.11,
   },
   {
-    date: "4/16/2023",
+    date: "2023-04-16",
     price: 2002.8,
   },
   {
-    date: "4/17/2023",
+    date: "2023-04-17",
     price: 1993.9,
   },
   {
-    date: "4/18/2023",
+    date: "2023-04-18",
     price: 1993.87,
   },
   {
-    date: "4/19/2023",
+    date: "2023-04-19",
     price: 1993.6,
   },
   {
-    date: "4/20/2023",
+    date: "2023-04-20",
     price: 1993.63,
   },
   {
-    date: "4/21/2023",
+    date: "2023-04-21",
     price: 1982.91,
   },
   {
-    date: "4/23/2023",
+    date: "2023-04-23",
     price: 1984.59,
   },
   {
-    date: "4/24/2023",
+    date: "2023-04-24",
     price: 1984.62,
   },
   {
-    date: "4/25/2023",
+    date: "2023-04-25",
     price: 1994.97,
   },
   {
-    date: "4/26/2023",
+    date: "2023-04-26",
     price: 1991.62,
   },
   {
-    date: "4/27/2023",
+    date: "2023-04-27",
     price: 1986.97,
   },
   {
-    date: "4/28/2023",
+    date: "2023-04-28",
     price: 1987.17,
   },
   {
-    date: "4/30/2023",
+    date: "2023-04-30",
     price: 1986.72,
   },
   {
-    date: "5/1/2023",
+    date: "2023-05-01",
     price: 1981.13,
   },
   {
-    date: "5/2/2023",
+    date: "2023-05-02",
     price: 1981.63,
   },
   {
-    date: "5/3/2023",
+    date: "2023-05-03",
     price: 2015.98,
   },
   {
-    date: "5/4/2023",
+    date: "2023-05-04",
     price: 2049.8,
   },
   {
-    date: "5/5/2023",
+    date: "2023-05-05",
     price: 2016.58,
   },
   {
-    date: "5/7/2023",
+    date: "2023-05-07",
     price: 2015.95,
   },
   {
-    date: "5/8/2023",
+    date: "2023-05-08",
     price: 2015.8,
   },
   {
-    date: "5/9/2023",
+    date: "2023-05-09",
     price: 2021,
   },
   {
-    date: "5/10/2023",
+    date: "2023-05-10",
     price: 2031.36,
   },
   {
-    date: "5/11/2023",
+    date: "2023-05-11",
     price: 2016.24,
   },
   {
-    date: "5/12/2023",
+    date: "2023-05-12",
     price: 2010.86,
   },
   {
-    date: "5/14/2023",
+    date: "2023-05-14",
     price: 2009.72,
   },
   {
-    date: "5/15/2023",
+    date: "2023-05-15",
     price: 2009.53,
   },
   {
-    date: "5/16/2023",
+    date: "2023-05-16",
     price: 1989.5,
   },
   {
-    date: "5/17/2023",
+    date: "2023-05-17",
     price: 1982.62,
   },
   {
-    date: "5/18/2023",
+    date: "2023-05-18",
     price: 1958.3,
   },
   {
-    date: "5/19/2023",
+    date: "2023-05-19",
     price: 1958.38,
   },
   {
-    date: "5/21/2023",
+    date: "2023-05-21",
     price: 1980.1,
   },
   {
-    date: "5/22/2023",
+    date: "2023-05-22",
     price: 1969.58,
   },
   {
-    date: "5/23/2023",
+    date: "2023-05-23",
     price: 1969.94,
   },
   {
-    date: "5/24/2023",
+    date: "2023-05-24",
     price: 1959.9,
   },
   {
-    date: "5/25/2023",
+    date: "2023-05-25",
     price: 1940.37,
   },
   {
-    date: "5/26/2023",
+    date: "2023-05-26",
     price: 1946.07,
   },
   {
-    date: "5/28/2023",
+    date: "2023-05-28",
     price: 1943.85,
   },
   {
-    date: "5/29/2023",
+    date: "2023-05-29",
     price: 1941.55,
   },
   {
-    date: "5/30/2023",
+    date: "2023-05-30",
     price: 1941.54,
   },
   {
-    date: "5/31/2023",
+    date: "2023-05-31",
     price: 1958.5,
   },
   {
-    date: "6/1/2023",
+    date: "2023-06-01",
     price: 1966.22,
   },
   {
-    date: "6/2/2023",
+    date: "2023-06-02",
     price: 1948,
   },
   {
-    date: "6/4/2023",
+    date: "2023-06-04",
     price: 1949.3,
   },
   {
-    date: "6/5/2023",
+    date: "2023-06-05",
     price: 1949.27,
   },
   {
-    date: "6/6/2023",
+    date: "2023-06-06",
     price: 1961.4,
   },
   {
-    date: "6/7/2023",
+    date: "2023-06-07",
     price: 1944.39,
   },
   {
-    date: "6/8/2023",
+    date: "2023-06-08",
     price: 1944.36,
   },
   {
-    date: "6/9/2023",
+    date: "2023-06-09",
     price: 1960.49,
   },
   {
-    date: "6/11/2023",
+    date: "2023-06-11",
     price: 1959.83,
   },
   {
-    date: "6/12/2023",
+    date: "2023-06-12",
     price: 1959.86,
   },
   {
-    date: "6/13/2023",
+    date: "2023-06-13",
     price: 1943.93,
   },
   {
-    date: "6/14/2023",
+    date: "2023-06-14",
     price: 1944.19,
   },
   {
-    date: "6/15/2023",
+    date: "2023-06-15",
     price: 1944.8,
   },
   {
-    date: "6/16/2023",
+    date: "2023-06-16",
     price: 1957.5,
   },
   {
-    date: "6/18/2023",
+    date: "2023-06-18",
     price: 1956.94,
   },
   {
-    date: "6/19/2023",
+    date: "2023-06-19",
     price: 1952.32,
   },
   {
-    date: "6/20/2023",
+    date: "2023-06-20",
     price: 1937.17,
   },
   {
-    date: "6/21/2023",
+    date: "2023-06-21",
     price: 1933.78,
   },
   {
-    date: "6/22/2023",
+    date: "2023-06-22",
     price: 1914.43,
   },
   {
-    date: "6/23/2023",
+    date: "2023-06-23",
     price: 1914.47,
   },
   {
-    date: "6/25/2023",
+    date: "2023-06-25",
     price: 1920.51,
   },
   {
-    date: "6/26/2023",
+    date: "2023-06-26",
     price: 1922.37,
   },
   {
-    date: "6/27/2023",
+    date: "2023-06-27",
     price: 1915.42,
   },
   {
-    date: "6/28/2023",
+    date: "2023-06-28",
     price: 1909.64,
   },
   {
-    date: "6/29/2023",
+    date: "2023-06-29",
     price: 1908.76,
   },
   {
-    date: "6/30/2023",
+    date: "2023-06-30",
     price: 1908.71,
   },
   {
-    date: "7/2/2023",
+    date: "2023-07-02",
     price: 1918.11,
   },
   {
-    date: "7/3/2023",
+    date: "2023-07-03",
     price: 1917.7,
   },
   {
-    date: "7/4/2023",
+    date: "2023-07-04",
     price: 1921.07,
   },
   {
-    date: "7/5/2023",
+    date: "2023-07-05",
     price: 1916.69,
   },
   {
-    date: "7/6/2023",
+    date: "2023-07-06",
     price: 1911.58,
   },
   {
-    date: "7/7/2023",
+    date: "2023-07-07",
     price: 1911.5,
   },
   {
-    date: "7/9/2023",
+    date: "2023-07-09",
     price: 1924.82,
   },
   {
-    date: "7/10/2023",
+    date: "2023-07-10",
     price: 1924.76,
   },
   {
-    date: "7/11/2023",
+    date: "2023-07-11",
     price: 1924.93,
   },
   {
-    date: "7/12/2023",
+    date: "2023-07-12",
     price: 1933.28,
   },
   {
-    date: "7/13/2023",
+    date: "2023-07-13",
     price: 1957.68,
   },
   {
-    date: "7/14/2023",
+    date: "2023-07-14",
     price: 1955.43,
   },
   {
-    date: "7/16/2023",
+    date: "2023-07-16",
     price: 1953.21,
   },
   {
-    date: "7/17/2023",
+    date: "2023-07-17",
     price: 1953.1,
   },
   {
-    date: "7/18/2023",
+    date: "2023-07-18",
     price: 1955.06,
   },
   {
-    date: "7/19/2023",
+    date: "2023-07-19",
     price: 1977.59,
   },
   {
-    date: "7/20/2023",
+    date: "2023-07-20",
     price: 1972.07,
   },
   {
-    date: "7/21/2023",
+    date: "2023-07-21",
     price: 1961.6,
   },
   {
-    date: "7/23/2023",
+    date: "2023-07-23",
     price: 1961.11,
   },
   {
-    date: "7/24/2023",
+    date: "2023-07-24",
     price: 1954.37,
   },
   {
-    date: "7/25/2023",
+    date: "2023-07-25",
     price: 1954.29,
   },
   {
-    date: "7/26/2023",
+    date: "2023-07-26",
     price: 1965.37,
   },
   {
-    date: "7/27/2023",
+    date: "2023-07-27",
     price: 1947.37,
   },
   {
-    date: "7/28/2023",
+    date: "2023-07-28",
     price: 1947.32,
   },
   {
-    date: "7/30/2023",
+    date: "2023-07-30",
     price: 1957.96,
   },
   {
-    date: "7/31/2023",
+    date: "2023-07-31",
     price: 1957.94,
   },
   {
-    date: "8/1/2023",
+    date: "2023-08-01",
     price: 1952.15,
   },
   {
-    date: "8/2/2023",
+    date: "2023-08-02",
     price: 1935.98,
   },
   {
-    date: "8/3/2023",
+    date: "2023-08-03",
     price: 1935.65,
   },
   {
-    date: "8/4/2023",
+    date: "2023-08-04",
     price: 1935.89,
   },
   {
-    date: "8/6/2023",
+    date: "2023-08-06",
     price: 1942.51,
   },
   {
-    date: "8/7/2023",
+    date: "2023-08-07",
     price: 1936.64,
   },
   {
-    date: "8/8/2023",
+    date: "2023-08-08",
     price: 1925.56,
   },
   {
-    date: "8/9/2023",
+    date: "2023-08-09",
     price: 1916.62,
   },
   {
-    date: "8/10/2023",
+    date: "2023-08-10",
     price: 1912.35,
   },
   {
-    date: "8/11/2023",
+    date: "2023-08-11",
     price: 1912.34,
   },
   {
-    date: "8/13/2023",
+    date: "2023-08-13",
     price: 1913.46,
   },
   {
-    date: "8/14/2023",
+    date: "2023-08-14",
     price: 1907.48,
   },
   {
-    date: "8/15/2023",
+    date: "2023-08-15",
     price: 1901.52,
   },
   {
-    date: "8/16/2023",
+    date: "2023-08-16",
     price: 1893.27,
   },
   {
-    date: "8/17/2023",
+    date: "2023-08-17",
     price: 1891.35,
   },
   {
-    date: "8/18/2023",
+    date: "2023-08-18",
     price: 1889.28,
   },
   {
-    date: "8/20/2023",
+    date: "2023-08-20",
     price: 1889.28,
   },
   {
-    date: "8/22/2023",
+    date: "2023-08-22",
     price: 1898.45,
   },
   {
-    date: "8/23/2023",
+    date: "2023-08-23",
     price: 1898.46,
   },
   {
-    date: "8/24/2023",
+    date: "2023-08-24",
     price: 1915.7,
   },
   {
-    date: "8/25/2023",
+    date: "2023-08-25",
     price: 1914.64,
   },
   {
-    date: "8/27/2023",
+    date: "2023-08-27",
     price: 1914.1,
   },
   {
-    date: "8/28/2023",
+    date: "2023-08-28",
     price: 1915.12,
   },
   {
-    date: "8/29/2023",
+    date: "2023-08-29",
     price: 1921.21,
   },
   {
-    date: "8/30/2023",
+    date: "2023-08-30",
     price: 1936.2,
   },
   {
-    date: "8/31/2023",
+    date: "2023-08-31",
     price: 1939.94,
   },
   {
-    date: "9/1/2023",
+    date: "2023-09-01",
     price: 1939.79,
   },
   {
-    date: "9/3/2023",
+    date: "2023-09-03",
     price: 1939.87,
   },
   {
-    date: "9/4/2023",
+    date: "2023-09-04",
     price: 1937.58,
   },
   {
-    date: "9/5/2023",
+    date: "2023-09-05",
     price: 1926.54,
   },
   {
-    date: "9/6/2023",
+    date: "2023-09-06",
     price: 1917.03,
   },
   {
-    date: "9/7/2023",
+    date: "2023-09-07",
     price: 1917.05,
   },
   {
-    date: "9/8/2023",
+    date: "2023-09-08",
     price: 1918.95,
   },
   {
-    date: "9/10/2023",
+    date: "2023-09-10",
     price: 1918.82,
   },
   {
-    date: "9/11/2023",
+    date: "2023-09-11",
     price: 1918.91,
   },
   {
-    date: "9/12/2023",
+    date: "2023-09-12",
     price: 1912.86,
   },
   {
-    date: "9/13/2023",
+    date: "2023-09-13",
     price: 1909.17,
   },
   {
-    date: "9/14/2023",
+    date: "2023-09-14",
     price: 1909.08,
   },
   {
-    date: "9/15/2023",
+    date: "2023-09-15",
     price: 1909.78,
   },
   {
-    date: "9/17/2023",
+    date: "2023-09-17",
     price: 1923.2,
   },
   {
-    date: "9/18/2023",
+    date: "2023-09-18",
     price: 1923.17,
   },
   {
-    date: "9/19/2023",
+    date: "2023-09-19",
     price: 1931.33,
   },
   {
-    date: "9/20/2023",
+    date: "2023-09-20",
     price: 1929.33,
   },
   {
-    date: "9/21/2023",
+    date: "2023-09-21",
     price: 1921.3,
   },
   {
-    date: "9/22/2023",
+    date: "2023-09-22",
     price: 1921.47,
   },
   {
-    date: "9/24/2023",
+    date: "2023-09-24",
     price: 1924.68,
   },
   {
-    date: "9/25/2023",
+    date: "2023-09-25",
     price: 1916.17,
   },
   {
-    date: "9/26/2023",
+    date: "2023-09-26",
     price: 1901.53,
   },
   {
-    date: "9/27/2023",
+    date: "2023-09-27",
     price: 1877.56,
   },
   {
-    date: "9/28/2023",
+    date: "2023-09-28",
     price: 1866.58,
   },
   {
-    date: "9/29/2023",
+    date: "2023-09-29",
     price: 1848.58,
   },
   {
-    date: "10/1/2023",
+    date: "2023-10-01",
     price: 1848.31,
   },
   {
-    date: "10/2/2023",
+    date: "2023-10-02",
     price: 1824.92,
   },
   {
-    date: "10/3/2023",
+    date: "2023-10-03",
     price: 1823.41,
   },
   {
-    date: "10/4/2023",
+    date: "2023-10-04",
     price: 1822.63,
   },
   {
-    date: "10/5/2023",
+    date: "2023-10-05",
     price: 1821.23,
   },
   {
-    date: "10/6/2023",
+    date: "2023-10-06",
     price: 1821.45,
   },
   {
-    date: "10/8/2023",
+    date: "2023-10-08",
     price: 1832.46,
   },
   {
-    date: "10/9/2023",
+    date: "2023-10-09",
     price: 1847.88,
   },
   {
-    date: "10/10/2023",
+    date: "2023-10-10",
     price: 1859.65,
   },
   {
-    date: "10/11/2023",
+    date: "2023-10-11",
     price: 1859.83,
   },
   {
-    date: "10/12/2023",
+    date: "2023-10-12",
     price: 1870.66,
   },
   {
-    date: "10/13/2023",
+    date: "2023-10-13",
     price: 1870.59,
   },
   {
-    date: "10/15/2023",
+    date: "2023-10-15",
     price: 1925.81,
   },
   {
-    date: "10/16/2023",
+    date: "2023-10-16",
     price: 1919.27,
   },
   {
-    date: "10/17/2023",
+    date: "2023-10-17",
     price: 1919.46,
   },
   {
-    date: "10/18/2023",
+    date: "2023-10-18",
     price: 1924.77,
   },
   {
-    date: "10/19/2023",
+    date: "2023-10-19",
     price: 1950.94,
   },
   {
-    date: "10/20/2023",
+    date: "2023-10-20",
     price: 1977,
   },
   {
-    date: "10/22/2023",
+    date: "2023-10-22",
     price: 1971.45,
   },
   {
-    date: "10/23/2023",
+    date: "2023-10-23",
     price: 1970.62,
   },
   {
-    date: "10/24/2023",
+    date: "2023-10-24",
     price: 1972.79,
   },
   {
-    date: "10/25/2023",
+    date: "2023-10-25",
     price: 1972.82,
   },
   {
-    date: "10/26/2023",
+    date: "2023-10-26",
     price: 1982.93,
   },
   {
-    date: "10/27/2023",
+    date: "2023-10-27",
     price: 1984.24,
   },
   {
-    date: "10/29/2023",
+    date: "2023-10-29",
     price: 2002.72,
   },
   {
-    date: "10/30/2023",
+    date: "2023-10-30",
     price: 1995.41,
   },
   {
-    date: "10/31/2023",
+    date: "2023-10-31",
     price: 1983.63,
   },
   {
-    date: "11/1/2023",
+    date: "2023-11-01",
     price: 1983.38,
   },
   {
-    date: "11/2/2023",
+    date: "2023-11-02",
     price: 1984.88,
   },
   {
-    date: "11/3/2023",
+    date: "2023-11-03",
     price: 1985.14,
   },
   {
-    date: "11/5/2023",
+    date: "2023-11-05",
     price: 1988.39,
   },
   {
-    date: "11/6/2023",
+    date: "2023-11-06",
     price: 1976.66,
   },
   {
-    date: "11/7/2023",
+    date: "2023-11-07",
     price: 1968.84,
   },
   {
-    date: "11/8/2023",
+    date: "2023-11-08",
     price: 1950.77,
   },
   {
-    date: "11/9/2023",
+    date: "2023-11-09",
     price: 1950.82,
   },
   {
-    date: "11/10/2023",
+    date: "2023-11-10",
     price: 1937.43,
   },
   {
-    date: "11/12/2023",
+    date: "2023-11-12",
     price: 1938.03,
   },
   {
-    date: "11/13/2023",
+    date: "2023-11-13",
     price: 1940.04,
   },
   {
-    date: "11/14/2023",
+    date: "2023-11-14",
     price: 1946.6,
   },
   {
-    date: "11/15/2023",
+    date: "2023-11-15",
     price: 1960.27,
   },
   {
-    date: "11/16/2023",
+    date: "2023-11-16",
     price: 1960.22,
   },
   {
-    date: "11/17/2023",
+    date: "2023-11-17",
     price: 1980.55,
   },
   {
-    date: "11/19/2023",
+    date: "2023-11-19",
     price: 1974.24,
   },
   {
-    date: "11/20/2023",
+    date: "2023-11-20",
     price: 1975.73,
   },
   {
-    date: "11/21/2023",
+    date: "2023-11-21",
     price: 1981.25,
   },
   {
-    date: "11/22/2023",
+    date: "2023-11-22",
     price: 1990.18,
   },
   {
-    date: "11/23/2023",
+    date: "2023-11-23",
     price: 1990.08,
   },
   {
-    date: "11/24/2023",
+    date: "2023-11-24",
     price: 1994.07,
   },
   {
-    date: "11/26/2023",
+    date: "2023-11-26",
     price: 2002.26,
   },
   {
-    date: "11/27/2023",
+    date: "2023-11-27",
     price: 2002.34,
   },
   {
-    date: "11/28/2023",
+    date: "2023-11-28",
     price: 2015.29,
   },
   {
-    date: "11/29/2023",
+    date: "2023-11-29",
     price: 2044.41,
   },
   {
-    date: "11/30/2023",
+    date: "2023-11-30",
     price: 2040.04,
   },
   {
-    date: "12/1/2023",
+    date: "2023-12-01",
     price: 2040.04,
   },
   {
-    date: "12/3/2023",
+    date: "2023-12-03",
     price: 2071.95,
   },
   {
-    date: "12/4/2023",
+    date: "2023-12-04",
     price: 2033.85,
   },
   {
-    date: "12/5/2023",
+    date: "2023-12-05",
     price: 2018.89,
   },
   {
-    date: "12/6/2023",
+    date: "2023-12-06",
     price: 2018.88,
   },
   {
-    date: "12/7/2023",
+    date: "2023-12-07",
     price: 2026.98,
   },
   {
-    date: "12/8/2023",
+    date: "2023-12-08",
     price: 2004.29,
   },
   {
-    date: "12/10/2023",
+    date: "2023-12-10",
     price: 2004.25,
   },
   {
-    date: "12/11/2023",
+    date: "2023-12-11",
     price: 1982.86,
   },
   {
-    date: "12/12/2023",
+    date: "2023-12-12",
     price: 1982.46,
   },
   {
-    date: "12/13/2023",
+    date: "2023-12-13",
     price: 1982.25,
   },
   {
-    date: "12/14/2023",
+    date: "2023-12-14",
     price: 2032.52,
   },
   {
-    date: "12/15/2023",
+    date: "2023-12-15",
     price: 2019.45,
   },
   {
-    date: "12/17/2023",
+    date: "2023-12-17",
     price: 2017.72,
   },
   {
-    date: "12/18/2023",
+    date: "2023-12-18",
     price: 2017.66,
   },
   {
-    date: "12/19/2023",
+    date: "2023-12-19",
     price: 2027.48,
   },
   {
-    date: "12/20/2023",
+    date: "2023-12-20",
     price: 2032.08,
   },
   {
-    date: "12/21/2023",
+    date: "2023-12-21",
     price: 2032.01,
   },
   {
-    date: "12/22/2023",
+    date: "2023-12-22",
     price: 2052.74,
   },
   {
-    date: "12/24/2023",
+    date: "2023-12-24",
     price: 2054.71,
   },
   {
-    date: "12/25/2023",
+    date: "2023-12-25",
     price: 2053.41,
   },
   {
-    date: "12/26/2023",
+    date: "2023-12-26",
     price: 2054.69,
   },
   {
-    date: "12/27/2023",
+    date: "2023-12-27",
     price: 2066.36,
   },
   {
-    date: "12/28/2023",
+    date: "2023-12-28",
     price: 2066.9,
   },
   {
-    date: "12/29/2023",
+    date: "2023-12-29",
     price: 2062.66,
   },
   {
-    date: "12/31/2023",
+    date: "2023-12-31",
     price: 2065.21,
   },
   {
-    date: "1/1/2024",
+    date: "2024-01-01",
     price: 2063.54,
   },
   {
-    date: "1/2/2024",
+    date: "2024-01-02",
     price: 2059.54,
   },
   {
-    date: "1/3/2024",
+    date: "2024-01-03",
     price: 2042.95,
   },
   {
-    date: "1/4/2024",
+    date: "2024-01-04",
     price: 2042.92,
   },
   {
-    date: "1/5/2024",
+    date: "2024-01-05",
     price: 2044.02,
   },
   {
-    date: "1/7/2024",
+    date: "2024-01-07",
     price: 2044.38,
   },
   {
-    date: "1/8/2024",
+    date: "2024-01-08",
     price: 2030.71,
   },
   {
-    date: "1/9/2024",
+    date: "2024-01-09",
     price: 2029.8,
   },
   {
-    date: "1/10/2024",
+    date: "2024-01-10",
     price: 2026.71,
   },
   {
-    date: "1/11/2024",
+    date: "2024-01-11",
     price: 2026.87,
   },
   {
-    date: "1/12/2024",
+    date: "2024-01-12",
     price: 2035.2,
   },
   {
-    date: "1/14/2024",
+    date: "2024-01-14",
     price: 2047.49,
   },
   {
-    date: "1/15/2024",
+    date: "2024-01-15",
     price: 2047.29,
   },
   {
-    date: "1/16/2024",
+    date: "2024-01-16",
     price: 2028.21,
   },
   {
-    date: "1/17/2024",
+    date: "2024-01-17",
     price: 2009.7,
   },
   {
-    date: "1/18/2024",
+    date: "2024-01-18",
     price: 2009.5,
   },
   {
-    date: "1/19/2024",
+    date: "2024-01-19",
     price: 2023.33,
   },
   {
-    date: "1/21/2024",
+    date: "2024-01-21",
     price: 2027.45,
   },
   {
-    date: "1/22/2024",
+    date: "2024-01-22",
     price: 2020.7,
   },
   {
-    date: "1/23/2024",
+    date: "2024-01-23",
     price: 2021.28,
   },
   {
-    date: "1/24/2024",
+    date: "2024-01-24",
     price: 2016.41,
   },
   {
-    date: "1/25/2024",
+    date: "2024-01-25",
     price: 2016.43,
   },
   {
-    date: "1/26/2024",
+    date: "2024-01-26",
     price: 2018.33,
   },
   {
-    date: "1/28/2024",
+    date: "2024-01-28",
     price: 2018.75,
   },
   {
-    date: "1/29/2024",
+    date: "2024-01-29",
     price: 2021.79,
   },
   {
-    date: "1/30/2024",
+    date: "2024-01-30",
     price: 2031.27,
   },
   {
-    date: "1/31/2024",
+    date: "2024-01-31",
     price: 2036.74,
   },
   {
-    date: "2/1/2024",
+    date: "2024-02-01",
     price: 2040,
   },
   {
-    date: "2/2/2024",
+    date: "2024-02-02",
     price: 2039.58,
   },
   {
-    date: "2/4/2024",
+    date: "2024-02-04",
     price: 2039.31,
   },
   {
-    date: "2/5/2024",
+    date: "2024-02-05",
     price: 2024.99,
   },
   {
-    date: "2/6/2024",
+    date: "2024-02-06",
     price: 2025.1,
   },
   {
-    date: "2/7/2024",
+    date: "2024-02-07",
     price: 2035.21,
   },
   {
-    date: "2/8/2024",
+    date: "2024-02-08",
     price: 2034.1,
   },
   {
-    date: "2/9/2024",
+    date: "2024-02-09",
     price: 2024.38,
   },
   {
-    date: "2/11/2024",
+    date: "2024-02-11",
     price: 2023.45,
   },
   {
-    date: "2/12/2024",
+    date: "2024-02-12",
     price: 2018.76,
   },
   {
-    date: "2/13/2024",
+    date: "2024-02-13",
     price: 1991.28,
   },
   {
-    date: "2/14/2024",
+    date: "2024-02-14",
     price: 1991.24,
   },
   {
-    date: "2/15/2024",
+    date: "2024-02-15",
     price: 1993.79,
   },
   {
-    date: "2/16/2024",
+    date: "2024-02-16",
     price: 2003.35,
   },
   {
-    date: "2/18/2024",
+    date: "2024-02-18",
     price: 2007,
   },
   {
-    date: "2/19/2024",
+    date: "2024-02-19",
     price: 2012.87,
   },
   {
-    date: "2/20/2024",
+    date: "2024-02-20",
     price: 2016.11,
   },
   {
-    date: "2/21/2024",
+    date: "2024-02-21",
     price: 2023.8,
   },
   {
-    date: "2/22/2024",
+    date: "2024-02-22",
     price: 2024.79,
   },
   {
-    date: "2/23/2024",
+    date: "2024-02-23",
     price: 2024.69,
   },
   {
-    date: "2/25/2024",
+    date: "2024-02-25",
     price: 2034.11,
   },
   {
-    date: "2/26/2024",
+    date: "2024-02-26",
     price: 2031.06,
   },
   {
-    date: "2/27/2024",
+    date: "2024-02-27",
     price: 2030.08,
   },
   {
-    date: "2/28/2024",
+    date: "2024-02-28",
     price: 2030,
   },
   {
-    date: "2/29/2024",
+    date: "2024-02-29",
     price: 2034.57,
   },
   {
-    date: "3/1/2024",
+    date: "2024-03-01",
     price: 2044.08,
   },
   {
-    date: "3/3/2024",
+    date: "2024-03-03",
     price: 2083.28,
   },
   {
-    date: "3/4/2024",
+    date: "2024-03-04",
     price: 2083.17,
   },
   {
-    date: "3/5/2024",
+    date: "2024-03-05",
     price: 2114.3,
   },
   {
-    date: "3/6/2024",
+    date: "2024-03-06",
     price: 2127.91,
   },
   {
-    date: "3/7/2024",
+    date: "2024-03-07",
     price: 2147.45,
   },
   {
-    date: "3/8/2024",
+    date: "2024-03-08",
     price: 2161.53,
   },
   {
-    date: "3/10/2024",
+    date: "2024-03-10",
     price: 2180.23,
   },
   {
-    date: "3/11/2024",
+    date: "2024-03-11",
     price: 2182.11,
   },
   {
-    date: "3/12/2024",
+    date: "2024-03-12",
     price: 2156.93,
   },
   {
-    date: "3/13/2024",
+    date: "2024-03-13",
     price: 2156.91,
   },
   {
-    date: "3/14/2024",
+    date: "2024-03-14",
     price: 2161.58,
   },
   {
-    date: "3/15/2024",
+    date: "2024-03-15",
     price: 2155.78,
   },
   {
-    date: "3/17/2024",
+    date: "2024-03-17",
     price: 2152.92,
   },
   {
-    date: "3/18/2024",
+    date: "2024-03-18",
     price: 2156.5,
   },
   {
-    date: "3/19/2024",
+    date: "2024-03-19",
     price: 2157.06,
   },
   {
-    date: "3/20/2024",
+    date: "2024-03-20",
     price: 2157.11,
   },
   {
-    date: "3/21/2024",
+    date: "2024-03-21",
     price: 2181.69,
   },
   {
-    date: "3/22/2024",
+    date: "2024-03-22",
     price: 2165.13,
   },
   {
-    date: "3/24/2024",
+    date: "2024-03-24",
     price: 2168.12,
   },
   {
-    date: "3/25/2024",
+    date: "2024-03-25",
     price: 2168.18,
   },
   {
-    date: "3/26/2024",
+    date: "2024-03-26",
     price: 2172.71,
   },
   {
-    date: "3/27/2024",
+    date: "2024-03-27",
     price: 2179.5,
   },
   {
-    date: "3/28/2024",
+    date: "2024-03-28",
     price: 2190.97,
   },
   {
-    date: "3/31/2024",
+    date: "2024-03-31",
     price: 2237.65,
   },
   {
-    date: "4/1/2024",
+    date: "2024-04-01",
     price: 2244.75,
   },
   {
-    date: "4/2/2024",
+    date: "2024-04-02",
     price: 2248.57,
   },
   {
-    date: "4/3/2024",
+    date: "2024-04-03",
     price: 2279.73,
   },
   {
-    date: "4/4/2024",
+    date: "2024-04-04",
     price: 2288.92,
   },
   {
-    date: "4/5/2024",
+    date: "2024-04-05",
     price: 2289.04,
   },
   {
-    date: "4/7/2024",
+    date: "2024-04-07",
     price: 2311.33,
   },
   {
-    date: "4/8/2024",
+    date: "2024-04-08",
     price: 2312.03,
   },
   {
-    date: "4/9/2024",
+    date: "2024-04-09",
     price: 2338.96,
   },
   {
-    date: "4/10/2024",
+    date: "2024-04-10",
     price: 2335.47,
   },
   {
-    date: "4/11/2024",
+    date: "2024-04-11",
     price: 2335.39,
   },
   {
-    date: "4/12/2024",
+    date: "2024-04-12",
     price: 2343.65,
   },
   {
-    date: "4/14/2024",
+    date: "2024-04-14",
     price: 2361.3,
   },
   {
-    date: "4/15/2024",
+    date: "2024-04-15",
     price: 2363.77,
   },
   {
-    date: "4/16/2024",
+    date: "2024-04-16",
     price: 2380.83,
   },
   {
-    date: "4/17/2024",
+    date: "2024-04-17",
     price: 2367.73,
   },
   {
-    date: "4/18/2024",
+    date: "2024-04-18",
     price: 2368.53,
   },
   {
-    date: "4/19/2024",
+    date: "2024-04-19",
     price: 2379.59,
   },
   {
-    date: "4/21/2024",
+    date: "2024-04-21",
     price: 2384.19,
   },
   {
-    date: "4/22/2024",
+    date: "2024-04-22",
     price: 2333.86,
   },
   {
-    date: "4/23/2024",
+    date: "2024-04-23",
     price: 2323.48,
   },
   {
-    date: "4/24/2024",
+    date: "2024-04-24",
     price: 2316.09,
   },
   {
-    date: "4/25/2024",
+    date: "2024-04-25",
     price: 2316.28,
   },
   {
-    date: "4/26/2024",
+    date: "2024-04-26",
     price: 2330.7,
   },
   {
-    date: "4/28/2024",
+    date: "2024-04-28",
     price: 2335.82,
   },
   {
-    date: "4/29/2024",
+    date: "2024-04-29",
     price: 2333.06,
   },
   {
-    date: "4/30/2024",
+    date: "2024-04-30",
     price: 2291.25,
   },
   {
-    date: "5/1/2024",
+    date: "2024-05-01",
     price: 2291.98,
   },
   {
-    date: "5/2/2024",
+    date: "2024-05-02",
     price: 2303.91,
   },
   {
-    date: "5/3/2024",
+    date: "2024-05-03",
     price: 2301.93,
   },
   {
-    date: "5/5/2024",
+    date: "2024-05-05",
     price: 2293.96,
   },
   {
-    date: "5/6/2024",
+    date: "2024-05-06",
     price: 2293.74,
   },
   {
-    date: "5/7/2024",
+    date: "2024-05-07",
     price: 2315.13,
   },
   {
-    date: "5/8/2024",
+    date: "2024-05-08",
     price: 2308.72,
   },
   {
-    date: "5/9/2024",
+    date: "2024-05-09",
     price: 2308.72,
   },
   {
-    date: "5/10/2024",
+    date: "2024-05-10",
     price: 2346.7,
   },
   {
-    date: "5/12/2024",
+    date: "2024-05-12",
     price: 2359.97,
   },
   {
-    date: "5/13/2024",
+    date: "2024-05-13",
     price: 2338.26,
   },
   {
-    date: "5/14/2024",
+    date: "2024-05-14",
     price: 2338.14,
   },
   {
-    date: "5/15/2024",
+    date: "2024-05-15",
     price: 2355.94,
   },
   {
-    date: "5/16/2024",
+    date: "2024-05-16",
     price: 2378.03,
   },
   {
-    date: "5/17/2024",
+    date: "2024-05-17",
     price: 2378.18,
   },
   {
-    date: "5/19/2024",
+    date: "2024-05-19",
     price: 2414.02,
   },
   {
-    date: "5/20/2024",
+    date: "2024-05-20",
     price: 2419.44,
   },
   {
-    date: "5/21/2024",
+    date: "2024-05-21",
     price: 2421.51,
   },
   {
-    date: "5/22/2024",
+    date: "2024-05-22",
     price: 2382.22,
   },
   {
-    date: "5/23/2024",
+    date: "2024-05-23",
     price: 2331.82,
   },
   {
-    date: "5/24/2024",
+    date: "2024-05-24",
     price: 2331.81,
   },
   {
-    date: "5/26/2024",
+    date: "2024-05-26",
     price: 2333.04,
   },
   {
-    date: "5/27/2024",
+    date: "2024-05-27",
     price: 2336.93,
   },
   {
-    date: "5/28/2024",
+    date: "2024-05-28",
     price: 2352.35,
   },
   {
-    date: "5/29/2024",
+    date: "2024-05-29",
     price: 2338.59,
   },
   {
-    date: "5/30/2024",
+    date: "2024-05-30",
     price: 2338.11,
   },
   {
-    date: "5/31/2024",
+    date: "2024-05-31",
     price: 2325.76,
   },
   {
-    date: "6/2/2024",
+    date: "2024-06-02",
     price: 2325.55,
   },
   {
-    date: "6/3/2024",
+    date: "2024-06-03",
     price: 2326.04,
   },
   {
-    date: "6/4/2024",
+    date: "2024-06-04",
     price: 2328.66,
   },
   {
-    date: "6/5/2024",
+    date: "2024-06-05",
     price: 2328.86,
   },
   {
-    date: "6/6/2024",
+    date: "2024-06-06",
     price: 2355.26,
   },
   {
-    date: "6/7/2024",
+    date: "2024-06-07",
     price: 2293.51,
   },
   {
-    date: "6/9/2024",
+    date: "2024-06-09",
     price: 2293.51,
   },
   {
-    date: "6/10/2024",
+    date: "2024-06-10",
     price: 2298.34,
   },
   {
-    date: "6/11/2024",
+    date: "2024-06-11",
     price: 2310,
   },
   {
-    date: "6/12/2024",
+    date: "2024-06-12",
     price: 2314.9,
   },
   {
-    date: "6/13/2024",
+    date: "2024-06-13",
     price: 2302.16,
   },
   {
-    date: "6/14/2024",
+    date: "2024-06-14",
     price: 2302.72,
   },
   {
-    date: "6/16/2024",
+    date: "2024-06-16",
     price: 2328.6,
   },
   {
-    date: "6/17/2024",
+    date: "2024-06-17",
     price: 2320.76,
   },
   {
-    date: "6/18/2024",
+    date: "2024-06-18",
     price: 2321.34,
   },
   {
-    date: "6/19/2024",
+    date: "2024-06-19",
     price: 2328.48,
   },
   {
-    date: "6/20/2024",
+    date: "2024-06-20",
     price: 2329.23,
   },
   {
-    date: "6/21/2024",
+    date: "2024-06-21",
     price: 2319.04,
   },
   {
-    date: "6/23/2024",
+    date: "2024-06-23",
     price: 2318.99,
   },
   {
-    date: "6/24/2024",
+    date: "2024-06-24",
     price: 2318.59,
   },
   {
-    date: "6/25/2024",
+    date: "2024-06-25",
     price: 2319.83,
   },
   {
-    date: "6/26/2024",
+    date: "2024-06-26",
     price: 2298.16,
   },
   {
-    date: "6/27/2024",
+    date: "2024-06-27",
     price: 2298.36,
   },
   {
-    date: "6/28/2024",
+    date: "2024-06-28",
     price: 2326.15,
   },
   {
-    date: "6/30/2024",
+    date: "2024-06-30",
     price: 2324.66,
   },
   {
-    date: "7/1/2024",
+    date: "2024-07-01",
     price: 2324.86,
   },
   {
-    date: "7/2/2024",
+    date: "2024-07-02",
     price: 2330.08,
   },
   {
-    date: "7/3/2024",
+    date: "2024-07-03",
     price: 2330.92,
   },
   {
-    date: "7/4/2024",
+    date: "2024-07-04",
     price: 2356.35,
   },
   {
-    date: "7/5/2024",
+    date: "2024-07-05",
     price: 2356.73,
   },
   {
-    date: "7/7/2024",
+    date: "2024-07-07",
     price: 2385.77,
   },
   {
-    date: "7/8/2024",
+    date: "2024-07-08",
     price: 2361.65,
   },
   {
-    date: "7/9/2024",
+    date: "2024-07-09",
     price: 2362.14,
   },
   {
-    date: "7/10/2024",
+    date: "2024-07-10",
     price: 2365.2,
   },
   {
-    date: "7/11/2024",
+    date: "2024-07-11",
     price: 2372.52,
   },
   {
-    date: "7/12/2024",
+    date: "2024-07-12",
     price: 2410.93,
   },
   {
-    date: "7/14/2024",
+    date: "2024-07-14",
     price: 2408.6,
   },
   {
-    date: "7/15/2024",
+    date: "2024-07-15",
     price: 2408.44,
   },
   {
-    date: "7/16/2024",
+    date: "2024-07-16",
     price: 2422.11,
   },
   {
-    date: "7/17/2024",
+    date: "2024-07-17",
     price: 2461.25,
   },
   {
-    date: "7/18/2024",
+    date: "2024-07-18",
     price: 2444.91,
   },
   {
-    date: "7/19/2024",
+    date: "2024-07-19",
     price: 2400.59,
   },
   {
-    date: "7/21/2024",
+    date: "2024-07-21",
     price: 2400.59,
   },
   {
-    date: "7/22/2024",
+    date: "2024-07-22",
     price: 2395.55,
   },
   {
-    date: "7/23/2024",
+    date: "2024-07-23",
     price: 2395.56,
   },
   {
-    date: "7/24/2024",
+    date: "2024-07-24",
     price: 2398.63,
   },
   {
-    date: "7/25/2024",
+    date: "2024-07-25",
     price: 2364.1,
   },
   {
-    date: "7/26/2024",
+    date: "2024-07-26",
     price: 2363.99,
   },
   {
-    date: "7/28/2024",
+    date: "2024-07-28",
     price: 2386.6,
   },
   {
-    date: "7/29/2024",
+    date: "2024-07-29",
     price: 2381.06,
   },
   {
-    date: "7/30/2024",
+    date: "2024-07-30",
     price: 2380.88,
   },
   {
-    date: "7/31/2024",
+    date: "2024-07-31",
     price: 2409.74,
   },
   {
-    date: "8/1/2024",
+    date: "2024-08-01",
     price: 2445.86,
   },
   {
-    date: "8/2/2024",
+    date: "2024-08-02",
     price: 2442.08,
   },
   {
-    date: "8/4/2024",
+    date: "2024-08-04",
     price: 2440.76,
   },
   {
-    date: "8/5/2024",
+    date: "2024-08-05",
     price: 2404.79,
   },
   {
-    date: "8/6/2024",
+    date: "2024-08-06",
     price: 2384.05,
   },
   {
-    date: "8/7/2024",
+    date: "2024-08-07",
     price: 2384.37,
   },
   {
-    date: "8/8/2024",
+    date: "2024-08-08",
     price: 2384.8,
   },
   {
-    date: "8/9/2024",
+    date: "2024-08-09",
     price: 2424.45,
   },
   {
-    date: "8/11/2024",
+    date: "2024-08-11",
     price: 2427.83,
   },
   {
-    date: "8/12/2024",
+    date: "2024-08-12",
     price: 2427.85,
   },
   {
-    date: "8/13/2024",
+    date: "2024-08-13",
     price: 2463.87,
   },
   {
-    date: "8/14/2024",
+    date: "2024-08-14",
     price: 2449.26,
   },
   {
-    date: "8/15/2024",
+    date: "2024-08-15",
     price: 2449.64,
   },
   {
-    date: "8/16/2024",
+    date: "2024-08-16",
     price: 2457.33,
   },
   {
-    date: "8/18/2024",
+    date: "2024-08-18",
     price: 2506.07,
   },
   {
-    date: "8/19/2024",
+    date: "2024-08-19",
     price: 2503.64,
   },
   {
-    date: "8/20/2024",
+    date: "2024-08-20",
     price: 2503.96,
   },
   {
-    date: "8/21/2024",
+    date: "2024-08-21",
     price: 2512.43,
   },
   {
-    date: "8/22/2024",
+    date: "2024-08-22",
     price: 2487.04,
   },
   {
-    date: "8/23/2024",
+    date: "2024-08-23",
     price: 2486.85,
   },
   {
-    date: "8/25/2024",
+    date: "2024-08-25",
     price: 2512.01,
   },
   {
-    date: "8/26/2024",
+    date: "2024-08-26",
     price: 2515.46,
   },
   {
-    date: "8/27/2024",
+    date: "2024-08-27",
     price: 2515.45,
   },
   {
-    date: "8/28/2024",
+    date: "2024-08-28",
     price: 2507.84,
   },
   {
-    date: "8/29/2024",
+    date: "2024-08-29",
     price: 2507.95,
   },
   {
-    date: "8/30/2024",
+    date: "2024-08-30",
     price: 2502.98,
   },
   {
-    date: "9/1/2024",
+    date: "2024-09-01",
     price: 2502.98,
   },
   {
-    date: "9/2/2024",
+    date: "2024-09-02",
     price: 2496.59,
   },
   {
-    date: "9/3/2024",
+    date: "2024-09-03",
     price: 2493.41,
   },
   {
-    date: "9/4/2024",
+    date: "2024-09-04",
     price: 2493.04,
   },
   {
-    date: "9/5/2024",
+    date: "2024-09-05",
     price: 2495.76,
   },
   {
-    date: "9/6/2024",
+    date: "2024-09-06",
     price: 2496.75,
   },
   {
-    date: "9/8/2024",
+    date: "2024-09-08",
     price: 2496.68,
   },
   {
-    date: "9/9/2024",
+    date: "2024-09-09",
     price: 2496.45,
   },
   {
-    date: "9/10/2024",
+    date: "2024-09-10",
     price: 2506.77,
   },
   {
-    date: "9/11/2024",
+    date: "2024-09-11",
     price: 2511.9,
   },
   {
-    date: "9/12/2024",
+    date: "2024-09-12",
     price: 2511.62,
   },
   {
-    date: "9/13/2024",
+    date: "2024-09-13",
     price: 2558.63,
   },
   {
-    date: "9/15/2024",
+    date: "2024-09-15",
     price: 2577.38,
   },
   {
-    date: "9/16/2024",
+    date: "2024-09-16",
     price: 2578.99,
   },
   {
-    date: "9/17/2024",
+    date: "2024-09-17",
     price: 2573.83,
   },
   {
-    date: "9/18/2024",
+    date: "2024-09-18",
     price: 2559.15,
   },
   {
-    date: "9/19/2024",
+    date: "2024-09-19",
     price: 2559,
   },
   {
-    date: "9/20/2024",
+    date: "2024-09-20",
     price: 2587.22,
   },
   {
-    date: "9/22/2024",
+    date: "2024-09-22",
     price: 2621.89,
   },
   {
-    date: "9/23/2024",
+    date: "2024-09-23",
     price: 2619.36,
   },
   {
-    date: "9/24/2024",
+    date: "2024-09-24",
     price: 2625.84,
   },
   {
-    date: "9/25/2024",
+    date: "2024-09-25",
     price: 2656.76,
   },
   {
-    date: "9/26/2024",
+    date: "2024-09-26",
     price: 2656.78,
   },
   {
-    date: "9/27/2024",
+    date: "2024-09-27",
     price: 2657.97,
   },
   {
-    date: "9/29/2024",
+    date: "2024-09-29",
     price: 2657.97,
   },
   {
-    date: "9/30/2024",
+    date: "2024-09-30",
     price: 2635.54,
   },
   {
-    date: "10/1/2024",
+    date: "2024-10-01",
     price: 2635.47,
   },
   {
-    date: "10/2/2024",
+    date: "2024-10-02",
     price: 2660.06,
   },
   {
-    date: "10/3/2024",
+    date: "2024-10-03",
     price: 2655.55,
   },
   {
-    date: "10/4/2024",
+    date: "2024-10-04",
     price: 2653.05,
   },
   {
-    date: "10/6/2024",
+    date: "2024-10-06",
     price: 2650.45,
   },
   {
-    date: "10/7/2024",
+    date: "2024-10-07",
     price: 2642.84,
   },
   {
-    date: "10/8/2024",
+    date: "2024-10-08",
     price: 2621.96,
   },
   {
-    date: "10/9/2024",
+    date: "2024-10-09",
     price: 2608.16,
   },
   {
-    date: "10/10/2024",
+    date: "2024-10-10",
     price: 2608.38,
   },
   {
-    date: "10/11/2024",
+    date: "2024-10-11",
     price: 2633.77,
   },
   {
-    date: "10/13/2024",
+    date: "2024-10-13",
     price: 2656.08,
   },
   {
-    date: "10/14/2024",
+    date: "2024-10-14",
     price: 2645.21,
   },
   {
-    date: "10/15/2024",
+    date: "2024-10-15",
     price: 2649.03,
   },
   {
-    date: "10/16/2024",
+    date: "2024-10-16",
     price: 2659.97,
   },
   {
-    date: "10/17/2024",
+    date: "2024-10-17",
     price: 2674.12,
   },
   {
-    date: "10/18/2024",
+    date: "2024-10-18",
     price: 2693.49,
   },
   {
-    date: "10/20/2024",
+    date: "2024-10-20",
     price: 2720.69,
   },
   {
-    date: "10/21/2024",
+    date: "2024-10-21",
     price: 2721.26,
   },
   {
-    date: "10/22/2024",
+    date: "2024-10-22",
     price: 2721.44,
   },
   {
-    date: "10/23/2024",
+    date: "2024-10-23",
     price: 2721.31,
   },
   {
-    date: "10/24/2024",
+    date: "2024-10-24",
     price: 2720.11,
   },
   {
-    date: "10/25/2024",
+    date: "2024-10-25",
     price: 2733.78,
   },
   {
-    date: "10/27/2024",
+    date: "2024-10-27",
     price: 2735.85,
   },
   {
-    date: "10/28/2024",
+    date: "2024-10-28",
     price: 2735.22,
   },
   {
-    date: "10/29/2024",
+    date: "2024-10-29",
     price: 2743.95,
   },
   {
-    date: "10/30/2024",
+    date: "2024-10-30",
     price: 2774.81,
   },
   {
-    date: "10/31/2024",
+    date: "2024-10-31",
     price: 2746.27,
   },
   {
-    date: "11/1/2024",
+    date: "2024-11-01",
     price: 2735.91,
   },
   {
-    date: "11/3/2024",
+    date: "2024-11-03",
     price: 2738.2,
   },
   {
-    date: "11/4/2024",
+    date: "2024-11-04",
     price: 2736.34,
   },
   {
-    date: "11/5/2024",
+    date: "2024-11-05",
     price: 2733.51,
   },
   {
-    date: "11/6/2024",
+    date: "2024-11-06",
     price: 2663.87,
   },
   {
-    date: "11/7/2024",
+    date: "2024-11-07",
     price: 2663.12,
   },
   {
-    date: "11/8/2024",
+    date: "2024-11-08",
     price: 2683.85,
   },
   {
-    date: "11/10/2024",
+    date: "2024-11-10",
     price: 2683.81,
   },
   {
-    date: "11/11/2024",
+    date: "2024-11-11",
     price: 2623.69,
   },
   {
-    date: "11/12/2024",
+    date: "2024-11-12",
     price: 2598.8,
   },
   {
-    date: "11/13/2024",
+    date: "2024-11-13",
     price: 2571.44,
   },
   {
-    date: "11/14/2024",
+    date: "2024-11-14",
     price: 2566.49,
   },
   {
-    date: "11/15/2024",
+    date: "2024-11-15",
     price: 2561.27,
   },
   {
-    date: "11/17/2024",
+    date: "2024-11-17",
     price: 2562.95,
   },
   {
-    date: "11/18/2024",
+    date: "2024-11-18",
     price: 2569.8,
   },
   {
-    date: "11/19/2024",
+    date: "2024-11-19",
     price: 2612.62,
   },
   {
-    date: "11/20/2024",
+    date: "2024-11-20",
     price: 2634.83,
   },
   {
-    date: "11/21/2024",
+    date: "2024-11-21",
     price: 2652.2,
   },
   {
-    date: "11/22/2024",
+    date: "2024-11-22",
     price: 2668.8,
   },
   {
-    date: "11/25/2024",
+    date: "2024-11-25",
     price: 2610.17,
   },
   {
-    date: "11/26/2024",
+    date: "2024-11-26",
     price: 2611.51,
   },
   {
-    date: "11/27/2024",
+    date: "2024-11-27",
     price: 2632.63,
   },
   {
-    date: "11/28/2024",
+    date: "2024-11-28",
     price: 2637.14,
   },
   {
-    date: "11/29/2024",
+    date: "2024-11-29",
     price: 2638.66,
   },
   {
-    date: "12/1/2024",
+    date: "2024-12-01",
     price: 2645.92,
   },
   {
-    date: "12/2/2024",
+    date: "2024-12-02",
     price: 2641.84,
   },
   {
-    date: "12/3/2024",
+    date: "2024-12-03",
     price: 2642.25,
   },
   {
-    date: "12/4/2024",
+    date: "2024-12-04",
     price: 2642.87,
   },
   {
-    date: "12/5/2024",
+    date: "2024-12-05",
     price: 2633.62,
   },
   {
-    date: "12/6/2024",
+    date: "2024-12-06",
     price: 2632.14,
   },
   {
-    date: "12/8/2024",
+    date: "2024-12-08",
     price: 2632.14,
   },
   {
-    date: "12/9/2024",
+    date: "2024-12-09",
     price: 2638.53,
   },
   {
-    date: "12/10/2024",
+    date: "2024-12-10",
     price: 2660.61,
   },
   {
-    date: "12/11/2024",
+    date: "2024-12-11",
     price: 2695.87,
   },
   {
-    date: "12/12/2024",
+    date: "2024-12-12",
     price: 2680.31,
   },
   {
-    date: "12/13/2024",
+    date: "2024-12-13",
     price: 2647.49,
   },
   {
-    date: "12/15/2024",
+    date: "2024-12-15",
     price: 2648.05,
   },
   {
-    date: "12/16/2024",
+    date: "2024-12-16",
     price: 2651.25,
   },
   {
-    date: "12/17/2024",
+    date: "2024-12-17",
     price: 2647.29,
   },
   {
-    date: "12/18/2024",
+    date: "2024-12-18",
     price: 2588.06,
   },
   {
-    date: "12/19/2024",
+    date: "2024-12-19",
     price: 2588.52,
   },
   {
-    date: "12/20/2024",
+    date: "2024-12-20",
     price: 2593.48,
   },
   {
-    date: "12/22/2024",
+    date: "2024-12-22",
     price: 2622,
   },
   {
-    date: "12/23/2024",
+    date: "2024-12-23",
     price: 2615.26,
   },
   {
-    date: "12/24/2024",
+    date: "2024-12-24",
     price: 2615.08,
   },
   {
-    date: "12/25/2024",
+    date: "2024-12-25",
     price: 2614.31,
   },
   {
-    date: "12/26/2024",
+    date: "2024-12-26",
     price: 2618.02,
   },
   {
-    date: "12/27/2024",
+    date: "2024-12-27",
     price: 2620.84,
   },
   {
-    date: "12/29/2024",
+    date: "2024-12-29",
     price: 2621.18,
   },
   {
-    date: "12/30/2024",
+    date: "2024-12-30",
     price: 2606.51,
   },
   {
-    date: "12/31/2024",
+    date: "2024-12-31",
     price: 2606.45,
   },
   {
-    date: "1/1/2025",
+    date: "2025-01-01",
     price: 2623.68,
   },
   {
-    date: "1/2/2025",
+    date: "2025-01-02",
     price: 2623.52,
   },
   {
-    date: "1/3/2025",
+    date: "2025-01-03",
     price: 2639.82,
   },
   {
-    date: "1/5/2025",
+    date: "2025-01-05",
     price: 2639.82,
   },
   {
-    date: "1/6/2025",
+    date: "2025-01-06",
     price: 2634.43,
   },
   {
-    date: "1/7/2025",
+    date: "2025-01-07",
     price: 2634.6,
   },
   {
-    date: "1/8/2025",
+    date: "2025-01-08",
     price: 2648.3,
   },
   {
-    date: "1/9/2025",
+    date: "2025-01-09",
     price: 2662.59,
   },
   {
-    date: "1/10/2025",
+    date: "2025-01-10",
     price: 2670.08,
   },
   {
-    date: "1/12/2025",
+    date: "2025-01-12",
     price: 2688.77,
   },
   {
-    date: "1/13/2025",
+    date: "2025-01-13",
     price: 2667.83,
   },
   {
-    date: "1/14/2025",
+    date: "2025-01-14",
     price: 2667.64,
   },
   {
-    date: "1/15/2025",
+    date: "2025-01-15",
     price: 2675.52,
   },
   {
-    date: "1/16/2025",
+    date: "2025-01-16",
     price: 2694.87,
   },
   {
-    date: "1/17/2025",
+    date: "2025-01-17",
     price: 2701.88,
   },
   {
-    date: "1/19/2025",
+    date: "2025-01-19",
     price: 2696.41,
   },
   {
-    date: "1/20/2025",
+    date: "2025-01-20",
     price: 2695.87,
   },
   {
-    date: "1/21/2025",
+    date: "2025-01-21",
     price: 2709.69,
   },
   {
-    date: "1/22/2025",
+    date: "2025-01-22",
     price: 2744.24,
   },
   {
-    date: "1/23/2025",
+    date: "2025-01-23",
     price: 2754.18,
   },
   {
-    date: "1/24/2025",
+    date: "2025-01-24",
     price: 2754.39,
   },
   {
-    date: "1/26/2025",
+    date: "2025-01-26",
     price: 2767.1,
   },
   {
-    date: "1/27/2025",
+    date: "2025-01-27",
     price: 2742.32,
   },
   {
-    date: "1/28/2025",
+    date: "2025-01-28",
     price: 2742.22,
   },
   {
-    date: "1/29/2025",
+    date: "2025-01-29",
     price: 2760.01,
   },
   {
-    date: "1/30/2025",
+    date: "2025-01-30",
     price: 2760.1,
   },
   {
-    date: "1/31/2025",
+    date: "2025-01-31",
     price: 2796.26,
   },
   {
-    date: "2/2/2025",
+    date: "2025-02-02",
     price: 2792.51,
   },
   {
-    date: "2/3/2025",
+    date: "2025-02-03",
     price: 2792.84,
   },
   {
-    date: "2/4/2025",
+    date: "2025-02-04",
     price: 2813.44,
   },
   {
-    date: "2/6/2025",
+    date: "2025-02-06",
     price: 2857.86,
   },
   {
-    date: "2/7/2025",
+    date: "2025-02-07",
     price: 2858.24,
   },
   {
-    date: "2/9/2025",
+    date: "2025-02-09",
     price: 2860.45,
   },
   {
-    date: "2/10/2025",
+    date: "2025-02-10",
     price: 2867.41,
   },
   {
-    date: "2/11/2025",
+    date: "2025-02-11",
     price: 2898.27,
   },
   {
-    date: "2/12/2025",
+    date: "2025-02-12",
     price: 2897.94,
   },
   {
-    date: "2/13/2025",
+    date: "2025-02-13",
     price: 2906.15,
   },
   {
-    date: "2/14/2025",
+    date: "2025-02-14",
     price: 2882.14,
   },
   {
-    date: "2/16/2025",
+    date: "2025-02-16",
     price: 2879.37,
   },
   {
-    date: "2/17/2025",
+    date: "2025-02-17",
     price: 2879.62,
   },
   {
-    date: "2/18/2025",
+    date: "2025-02-18",
     price: 2899.13,
   },
   {
-    date: "2/19/2025",
+    date: "2025-02-19",
     price: 2933.74,
   },
   {
-    date: "2/20/2025",
+    date: "2025-02-20",
     price: 2935.7,
   },
   {
-    date: "2/21/2025",
+    date: "2025-02-21",
     price: 2935.49,
   },
 ];
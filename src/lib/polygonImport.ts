@@ -0,0 +1,154 @@
+import {
+  GoldPriceDataType,
+  RawGoldPriceData,
+  transformGoldPriceData,
+} from "@/lib/utils";
+import { isoDateOfTime } from "@/lib/dates";
+
+// A saved aggregates response: the API's JSON (one page, or an array of
+// pages) or a bare array of bars like lastTwoYearsGoldPriceDataWithHighestAndLowest
+export type PolygonAggregateFile = { name: string; text: string };
+
+export type PolygonImportResult = {
+  // Valid daily bars from every file, oldest first
+  bars: GoldPriceDataType[];
+  // One message per rejected bar, with its file and position
+  errors: string[];
+  // The files' ticker, null when none of them names one
+  ticker: string | null;
+};
+
+type RawBar = { source: string; value: unknown };
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// The bars of one parsed file, tagged with where they came from. Throws
+// on an error response or a shape that is not an aggregates response.
+const barsOfFile = (
+  name: string,
+  json: unknown,
+  tickers: Set<string>
+): RawBar[] => {
+  const pages = Array.isArray(json)
+    ? json.every((item) => isObject(item) && "results" in item)
+      ? json
+      : [{ results: json }]
+    : [json];
+
+  return pages.flatMap((page, pageIndex) => {
+    if (!isObject(page)) {
+      throw new Error(`${name} is not an aggregates response`);
+    }
+    const label = pages.length > 1 ? `${name} page ${pageIndex + 1}` : name;
+    if (typeof page.ticker === "string") tickers.add(page.ticker);
+    if (page.results === undefined) {
+      // Polygon leaves results out of pages with no bars, and of errors
+      if (page.status === "OK" || page.status === "DELAYED") return [];
+      const message = page.error ?? page.message ?? page.status;
+      throw new Error(
+        message
+          ? `${label}: ${String(message)}`
+          : `${label} has no "results" array`
+      );
+    }
+    if (!Array.isArray(page.results)) {
+      throw new Error(`${label}: "results" is not an array`);
+    }
+    return page.results.map((value, i) => ({
+      source: `${label} result ${i + 1}`,
+      value,
+    }));
+  });
+};
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+// The bar's fields, or the reason it is rejected
+const checkBar = (value: unknown): RawGoldPriceData | string => {
+  if (!isObject(value)) return "not an aggregate bar";
+  const { o, h, l, c, t, v, vw, n } = value;
+  if (!isNumber(t)) return 'missing timestamp "t"';
+  if (![o, h, l, c].every((price) => isNumber(price) && price > 0)) {
+    return "o, h, l and c must be positive numbers";
+  }
+  const bar = { o, h, l, c, t } as RawGoldPriceData;
+  if (bar.l > Math.min(bar.o, bar.c) || bar.h < Math.max(bar.o, bar.c)) {
+    return "open and close must lie within high and low";
+  }
+  for (const [key, extra] of [
+    ["v", v],
+    ["vw", vw],
+    ["n", n],
+  ] as const) {
+    if (extra === undefined) continue;
+    if (!isNumber(extra) || extra < 0) {
+      return `${key} must be a non-negative number`;
+    }
+    bar[key] = extra;
+  }
+  return bar;
+};
+
+const sameBar = (a: RawGoldPriceData, b: RawGoldPriceData) =>
+  (["o", "h", "l", "c", "v", "vw", "n"] as const).every(
+    (key) => a[key] === b[key]
+  );
+
+// Merges the files' pages into daily bars sorted oldest first, keeping
+// volume, VWAP and trade count. A bar repeated with the same values, as
+// where saved pages overlap, is kept once; a different bar for a day
+// already seen is rejected, so intraday aggregates are not mixed into
+// the daily series. Throws on invalid JSON, error responses and files for
+// different tickers.
+export const importPolygonAggregates = (
+  files: PolygonAggregateFile[]
+): PolygonImportResult => {
+  const tickers = new Set<string>();
+  const rawBars = files.flatMap(({ name, text }) => {
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch {
+      throw new Error(`${name} is not valid JSON`);
+    }
+    return barsOfFile(name, json, tickers);
+  });
+  if (tickers.size > 1) {
+    throw new Error(
+      `the files are for different tickers: ${[...tickers].join(", ")}`
+    );
+  }
+
+  const errors: string[] = [];
+  const checked: { source: string; bar: RawGoldPriceData }[] = [];
+  for (const { source, value } of rawBars) {
+    const bar = checkBar(value);
+    if (typeof bar === "string") {
+      errors.push(`${source}: ${bar}`);
+    } else {
+      checked.push({ source, bar });
+    }
+  }
+  checked.sort((a, b) => a.bar.t - b.bar.t);
+
+  const byDate = new Map<string, RawGoldPriceData>();
+  for (const { source, bar } of checked) {
+    const date = isoDateOfTime(bar.t);
+    const seen = byDate.get(date);
+    if (seen) {
+      if (seen.t !== bar.t || !sameBar(seen, bar)) {
+        errors.push(`${source}: a different bar for ${date} was already read`);
+      }
+      continue;
+    }
+    byDate.set(date, bar);
+  }
+
+  return {
+    bars: transformGoldPriceData([...byDate.values()]),
+    errors,
+    ticker: [...tickers][0] ?? null,
+  };
+};
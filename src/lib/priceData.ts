@@ -0,0 +1,80 @@
+import { goldPriceHistory } from "@/lib/data";
+import { GoldPriceDataType } from "@/lib/utils";
+import {
+  generateSyntheticSeries,
+  SYNTHETIC_GENERATORS,
+  SyntheticSeriesConfig,
+  validateSyntheticSeriesConfig,
+} from "@/lib/engine";
+
+// Where a run's bars come from: the built-in gold prices, a generated
+// series or an imported file
+export type PriceSource =
+  | { kind: "historical" }
+  | { kind: "synthetic"; series: SyntheticSeriesConfig }
+  | { kind: "uploaded"; name: string; prices: GoldPriceDataType[] };
+
+export const HISTORICAL_SOURCE: PriceSource = { kind: "historical" };
+
+// The source a shared link's synthetic series settings (or null) stand for
+export const sourceOfSeries = (
+  series: SyntheticSeriesConfig | null
+): PriceSource => (series ? { kind: "synthetic", series } : HISTORICAL_SOURCE);
+
+// Inclusive YYYY-MM-DD bounds, "" leaves that side open
+export type DateRange = { start: string; end: string };
+
+export const FULL_DATE_RANGE: DateRange = { start: "", end: "" };
+
+// Bars whose date falls inside the range. ISO dates sort as strings.
+export const filterByDateRange = (
+  prices: GoldPriceDataType[],
+  range: DateRange
+): GoldPriceDataType[] =>
+  prices.filter(
+    (bar) =>
+      (!range.start || bar.date >= range.start) &&
+      (!range.end || bar.date <= range.end)
+  );
+
+const sourcePrices = (source: PriceSource): GoldPriceDataType[] | null => {
+  switch (source.kind) {
+    case "historical":
+      return goldPriceHistory;
+    case "synthetic":
+      return validateSyntheticSeriesConfig(source.series)
+        ? generateSyntheticSeries(source.series)
+        : null;
+    case "uploaded":
+      return source.prices;
+  }
+};
+
+// The source's bars cut to the date range. null when the synthetic series
+// settings are invalid or fewer than two bars are left.
+export const resolvePrices = (
+  source: PriceSource,
+  range: DateRange
+): GoldPriceDataType[] | null => {
+  const prices = sourcePrices(source);
+  if (!prices) return null;
+  const inRange = filterByDateRange(prices, range);
+  return inRange.length >= 2 ? inRange : null;
+};
+
+// e.g. "Historical gold prices, 2023-06-01 – 2024-01-31"
+export const describePriceData = (
+  source: PriceSource,
+  range: DateRange
+): string => {
+  const label =
+    source.kind === "synthetic"
+      ? `${SYNTHETIC_GENERATORS[source.series.generator].name} (seed ${
+          source.series.seed
+        })`
+      : source.kind === "uploaded"
+      ? source.name
+      : "Historical gold prices";
+  if (!range.start && !range.end) return label;
+  return `${label}, ${range.start || "start"} – ${range.end || "end"}`;
+};
@@ -0,0 +1,32 @@
+import { SimulationParams, SimulationResults } from "@/lib/engine";
+
+// One click of Run Simulation, kept so later runs can be compared against it
+export type SavedRun = {
+  id: string;
+  label: string;
+  // ISO timestamp of the run
+  createdAt: string;
+  // The price series it ran on, e.g. "Historical gold prices"
+  dataLabel: string;
+  params: SimulationParams;
+  results: SimulationResults;
+  // The URL hash that links to the run, when its data can be shared. A page
+  // reloaded on that hash shows the run again instead of adding it twice.
+  shareHash?: string;
+};
+
+export const createSavedRun = (
+  label: string,
+  dataLabel: string,
+  params: SimulationParams,
+  results: SimulationResults,
+  shareHash?: string
+): SavedRun => ({
+  id: crypto.randomUUID(),
+  label,
+  createdAt: new Date().toISOString(),
+  dataLabel,
+  params,
+  results,
+  ...(shareHash !== undefined && { shareHash }),
+});
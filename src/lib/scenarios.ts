@@ -0,0 +1,20 @@
+import { goldPriceHistory } from "@/lib/data";
+import { highConfidencePrices } from "@/lib/highConfData";
+import { lowConfidencePrices } from "@/lib/lowConfData";
+import { applyPriceBand, PriceScenario } from "@/lib/engine";
+
+// The high- and low-confidence series close each day at the top and bottom
+// of the base bar's open-to-close body
+export const PRICE_SCENARIOS: PriceScenario[] = [
+  { id: "base", label: "Base", prices: goldPriceHistory },
+  {
+    id: "highConfidence",
+    label: "High Confidence",
+    prices: applyPriceBand(goldPriceHistory, highConfidencePrices),
+  },
+  {
+    id: "lowConfidence",
+    label: "Low Confidence",
+    prices: applyPriceBand(goldPriceHistory, lowConfidencePrices),
+  },
+];
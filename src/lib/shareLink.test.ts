@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { decodeShareHash, encodeShareHash, ShareState } from "@/lib/shareLink";
+import {
+  DEFAULT_SIMULATION_PARAMS,
+  DEFAULT_SYNTHETIC_SERIES_CONFIG,
+  SimulationParams,
+} from "@/lib/engine";
+
+const state: ShareState = {
+  params: {
+    ...DEFAULT_SIMULATION_PARAMS,
+    leverage: 50,
+    exchangeTimeZone: "America/New_York",
+  },
+  series: { ...DEFAULT_SYNTHETIC_SERIES_CONFIG, generator: "garch", seed: 7 },
+  dateRange: { start: "2024-01-02", end: "2024-06-28" },
+};
+
+// A hash whose params are the defaults with the given fields replaced
+const hashWith = (fields: Record<string, unknown>) =>
+  `#${new URLSearchParams({
+    v: "1",
+    params: JSON.stringify({ ...DEFAULT_SIMULATION_PARAMS, ...fields }),
+  })}`;
+
+describe("share links", () => {
+  it("decode what they encode", () => {
+    expect(decodeShareHash(encodeShareHash(state))).toEqual(state);
+  });
+
+  it("hold nothing without params", () => {
+    expect(decodeShareHash("")).toBeNull();
+    expect(decodeShareHash("#v=1")).toBeNull();
+  });
+
+  it("give params from older versions the newer defaults", () => {
+    const older: Partial<SimulationParams> = { ...DEFAULT_SIMULATION_PARAMS };
+    delete older.exchangeTimeZone;
+    const hash = `#${new URLSearchParams({ params: JSON.stringify(older) })}`;
+    expect(decodeShareHash(hash)?.params).toEqual(DEFAULT_SIMULATION_PARAMS);
+  });
+
+  it("reject params that are not JSON objects", () => {
+    expect(() => decodeShareHash("#params={")).toThrow("not valid JSON");
+    expect(() => decodeShareHash("#params=null")).toThrow("params are invalid");
+    expect(() => decodeShareHash("#params=5")).toThrow("params are invalid");
+  });
+
+  it("reject numbers that are strings, null or out of range", () => {
+    for (const fields of [
+      { leverage: "50" },
+      { stopLossDollar: null },
+      { investmentCapital: -1 },
+      { useTrailingStop: "yes" },
+      { strategyParams: { threshold: "1" } },
+      { risk: { ...DEFAULT_SIMULATION_PARAMS.risk, maxDailyLoss: null } },
+      { exchangeTimeZone: "Mars/Olympus" },
+    ]) {
+      expect(() => decodeShareHash(hashWith(fields))).toThrow(
+        "params are invalid"
+      );
+    }
+  });
+
+  it("reject invalid synthetic data settings and dates", () => {
+    const hash = encodeShareHash(state);
+    expect(() =>
+      decodeShareHash(hash.replace(/data=[^&]*/, "data=%7B%22bars%22%3A1%7D"))
+    ).toThrow("synthetic data settings are invalid");
+    expect(() =>
+      decodeShareHash(hash.replace("2024-01-02", "2024-13-01"))
+    ).toThrow("not a YYYY-MM-DD date");
+  });
+});
@@ -0,0 +1,79 @@
+import {
+  DEFAULT_SYNTHETIC_SERIES_CONFIG,
+  SimulationParams,
+  SyntheticSeriesConfig,
+  validateParams,
+  validateSyntheticSeriesConfig,
+  withDefaultParams,
+} from "@/lib/engine";
+import { DateRange } from "@/lib/priceData";
+import { timeOfIsoDate } from "@/lib/dates";
+
+// Everything needed to reproduce a run
+export type ShareState = {
+  params: SimulationParams;
+  series: SyntheticSeriesConfig | null;
+  dateRange: DateRange;
+};
+
+// URL hash for the state, e.g.
+// #v=1&params={...}&data={...}&from=2023-06-01&to=2024-01-31
+export const encodeShareHash = (state: ShareState): string => {
+  const query = new URLSearchParams({
+    v: "1",
+    params: JSON.stringify(state.params),
+  });
+  if (state.series) query.set("data", JSON.stringify(state.series));
+  if (state.dateRange.start) query.set("from", state.dateRange.start);
+  if (state.dateRange.end) query.set("to", state.dateRange.end);
+  return `#${query.toString()}`;
+};
+
+const parseJson = (name: string, value: string) => {
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new Error(`the link's ${name} are not valid JSON`);
+  }
+};
+
+// The state in a shared link's hash, null when the hash holds none. Params
+// from links made by an older version get defaults for newer fields.
+export const decodeShareHash = (hash: string): ShareState | null => {
+  const query = new URLSearchParams(hash.replace(/^#/, ""));
+  const rawParams = query.get("params");
+  if (rawParams === null) return null;
+
+  const parsed = parseJson("params", rawParams);
+  if (typeof parsed !== "object" || parsed === null) {
+    throw new Error("the link's params are invalid");
+  }
+  const params = withDefaultParams(parsed);
+  if (!validateParams(params)) {
+    throw new Error("the link's params are invalid");
+  }
+
+  const rawSeries = query.get("data");
+  const series: SyntheticSeriesConfig | null =
+    rawSeries === null
+      ? null
+      : {
+          ...DEFAULT_SYNTHETIC_SERIES_CONFIG,
+          ...parseJson("data settings", rawSeries),
+        };
+  if (series && !validateSyntheticSeriesConfig(series)) {
+    throw new Error("the link's synthetic data settings are invalid");
+  }
+
+  const dateRange = {
+    start: query.get("from") ?? "",
+    end: query.get("to") ?? "",
+  };
+  for (const date of [dateRange.start, dateRange.end]) {
+    if (date && Number.isNaN(timeOfIsoDate(date))) {
+      throw new Error(`"${date}" in the link is not a YYYY-MM-DD date`);
+    }
+  }
+
+  return { params, series, dateRange };
+};
@@ -0,0 +1,153 @@
+import {
+  SimulationParams,
+  validateParams,
+  withDefaultParams,
+} from "@/lib/engine";
+import { SavedRun } from "@/lib/runHistory";
+
+// A named set of simulation params, saved in the browser and shareable as a
+// JSON file
+export type ParamPreset = {
+  id: string;
+  name: string;
+  // ISO timestamp of the last save
+  updatedAt: string;
+  params: SimulationParams;
+};
+
+const PRESET_FILE_FORMAT = "gold-sim-presets";
+
+type PresetFile = {
+  format: typeof PRESET_FILE_FORMAT;
+  version: 1;
+  presets: { name: string; params: SimulationParams }[];
+};
+
+const DB_NAME = "gold-sim";
+const DB_VERSION = 1;
+type StoreName = "presets" | "runs";
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore("presets", { keyPath: "id" });
+        request.result.createObjectStore("runs", { keyPath: "id" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry, e.g. after storage was blocked
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+};
+
+// Runs `work` in a transaction and resolves with its request's result once
+// the transaction has committed
+const withStore = async <T>(
+  name: StoreName,
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(name, mode);
+    const request = work(transaction.objectStore(name));
+    transaction.oncomplete = () =>
+      resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// Presets by name
+export const loadPresets = async (): Promise<ParamPreset[]> => {
+  const presets = await withStore<ParamPreset[]>(
+    "presets",
+    "readonly",
+    (store) => store.getAll()
+  );
+  return (presets ?? [])
+    .map((preset) => ({ ...preset, params: withDefaultParams(preset.params) }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const savePreset = async (preset: ParamPreset): Promise<void> => {
+  await withStore("presets", "readwrite", (store) => store.put(preset));
+};
+
+export const deletePreset = async (id: string): Promise<void> => {
+  await withStore("presets", "readwrite", (store) => store.delete(id));
+};
+
+// Runs oldest first
+export const loadRuns = async (): Promise<SavedRun[]> => {
+  const runs = await withStore<SavedRun[]>("runs", "readonly", (store) =>
+    store.getAll()
+  );
+  return (runs ?? [])
+    .map((run) => ({ ...run, params: withDefaultParams(run.params) }))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+export const saveRun = async (run: SavedRun): Promise<void> => {
+  await withStore("runs", "readwrite", (store) => store.put(run));
+};
+
+export const deleteRun = async (id: string): Promise<void> => {
+  await withStore("runs", "readwrite", (store) => store.delete(id));
+};
+
+export const createPreset = (
+  name: string,
+  params: SimulationParams
+): ParamPreset => ({
+  id: crypto.randomUUID(),
+  name,
+  updatedAt: new Date().toISOString(),
+  params,
+});
+
+export const exportPresets = (presets: ParamPreset[]): string => {
+  const file: PresetFile = {
+    format: PRESET_FILE_FORMAT,
+    version: 1,
+    presets: presets.map(({ name, params }) => ({ name, params })),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+// New presets, with fresh ids, from an exported file. Params missing newer
+// fields get their defaults; the whole file is rejected if any preset is
+// invalid, including numbers given as strings or null.
+export const parsePresetFile = (text: string): ParamPreset[] => {
+  let file: Partial<PresetFile>;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error("the preset file is not valid JSON");
+  }
+  if (file?.format !== PRESET_FILE_FORMAT || !Array.isArray(file.presets)) {
+    throw new Error("this is not a gold-sim preset file");
+  }
+  return file.presets.map((entry, i) => {
+    if (
+      typeof entry?.name !== "string" ||
+      typeof entry.params !== "object" ||
+      entry.params === null
+    ) {
+      throw new Error(`preset ${i + 1} needs a name and params`);
+    }
+    const params = withDefaultParams(entry.params);
+    if (!validateParams(params)) {
+      throw new Error(`preset "${entry.name}" has invalid params`);
+    }
+    return createPreset(entry.name, params);
+  });
+};
@@ -1,6 +1,7 @@
 import { PerformanceMetrics, SimulationParams, TradeRecord } from "@/lib/types";
 import { clsx, type ClassValue } from "clsx";
 import { twMerge } from "tailwind-merge";
+import { isoDateOfTime } from "@/lib/dates";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -58,7 +59,7 @@ export const calculatePerformanceMetrics = (
 export const validateRiskManagement = (
   capital: number,
   marketValue: number,
-  params: SimulationParams
+  params: Pick<SimulationParams, "leverage" | "positionSize">
 ): boolean => {
   if (capital <= 0) return false;
 
@@ -71,6 +72,10 @@ export const validateRiskManagement = (
   return true;
 };
 
+// For values read from links, files and storage, which may hold anything
+export const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
 export const formatCurrency = (value: number): string => {
   return new Intl.NumberFormat("en-EU", {
     style: "currency",
@@ -101,7 +106,20 @@ export interface GoldPriceDataType {
   openingPrice: number;
   highestPrice: number;
   lowestPrice: number;
+  // Start of the bar, Unix milliseconds (UTC)
+  time: number;
+  // YYYY-MM-DD of the UTC day the bar starts on
   date: string;
+  // Set on daily bars that stand for a whole date, with `time` only midnight
+  // UTC of it: their date is their trading day in any exchange timezone.
+  // Bars without it start at a real instant, whose day depends on the
+  // exchange's timezone.
+  dateOnly?: true;
+  // Traded volume, when the source has it
+  volume?: number;
+  // Volume-weighted average price and number of trades, from aggregates
+  vwap?: number;
+  trades?: number;
 }
 
 export interface RawGoldPriceData {
@@ -109,17 +127,27 @@ export interface RawGoldPriceData {
   o: number;
   h: number;
   l: number;
+  // Start of the bar, Unix milliseconds
   t: number;
+  v?: number;
+  vw?: number;
+  n?: number;
 }
 
 export const transformGoldPriceData = (
   data: RawGoldPriceData[]
 ): GoldPriceDataType[] => {
-  return data.map(({ c, o, h, l, t }) => ({
+  return data.map(({ c, o, h, l, t, v, vw, n }) => ({
     currentPrice: c,
     openingPrice: o,
     highestPrice: h,
     lowestPrice: l,
-    date: new Date(t).toLocaleDateString("en-US"),
+    time: t,
+    date: isoDateOfTime(t),
+    // Daily aggregates, keyed by their UTC date
+    dateOnly: true as const,
+    ...(v !== undefined && { volume: v }),
+    ...(vw !== undefined && { vwap: vw }),
+    ...(n !== undefined && { trades: n }),
   }));
 };